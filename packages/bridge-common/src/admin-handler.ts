@@ -0,0 +1,95 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import type { ApiKeyInfo, ApiKeyStore } from './api-keys';
+import type { UsageLedger } from './usage-ledger';
+
+/** Response bodies in the bridge's API dialect (OpenAI or Anthropic) */
+export interface AdminFormat {
+  error(type: string, message: string): unknown;
+  list(keys: ApiKeyInfo[]): unknown;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: string | Buffer) => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * Key management and usage export:
+ *   GET  /admin/keys                  list keys
+ *   POST /admin/keys                  create a key (the secret is returned once)
+ *   POST /admin/keys/:id/rotate       replace a key's secret
+ *   POST /admin/keys/:id/revoke       revoke a key
+ *   GET  /admin/usage?key_id=&since=&until=   usage ledger as CSV
+ */
+export async function handleAdmin(
+  req: IncomingMessage, res: ServerResponse, format: AdminFormat, keys: ApiKeyStore, ledger?: UsageLedger
+): Promise<void> {
+  const [path, query = ''] = (req.url || '').split('?');
+  const method = req.method || '';
+  const sendError = (status: number, type: string, message: string) => sendJson(res, status, format.error(type, message));
+
+  if (path === '/admin/keys' && method === 'GET') {
+    sendJson(res, 200, format.list(keys.list()));
+    return;
+  }
+
+  if (path === '/admin/keys' && method === 'POST') {
+    let input: any;
+    try {
+      input = JSON.parse(await readBody(req));
+    } catch {
+      sendError(400, 'invalid_request_error', 'Invalid JSON body');
+      return;
+    }
+    try {
+      const { key, info } = keys.create(input);
+      sendJson(res, 201, { ...info, key });
+    } catch (err: any) {
+      sendError(400, 'invalid_request_error', err.message);
+    }
+    return;
+  }
+
+  const action = path.match(/^\/admin\/keys\/([^/]+)\/(rotate|revoke)$/);
+  if (action && method === 'POST') {
+    const [, id, verb] = action;
+    if (!keys.get(id)) {
+      sendError(404, 'not_found_error', `Unknown API key: ${id}`);
+      return;
+    }
+    if (verb === 'rotate') {
+      const { key, info } = keys.rotate(id);
+      sendJson(res, 200, { ...info, key });
+    } else {
+      sendJson(res, 200, keys.revoke(id));
+    }
+    return;
+  }
+
+  if (path === '/admin/usage' && method === 'GET') {
+    if (!ledger) {
+      sendError(404, 'not_found_error', 'No usage ledger configured');
+      return;
+    }
+    const params = new URLSearchParams(query);
+    const csv = ledger.exportCsv({
+      keyId: params.get('key_id') ?? undefined,
+      since: params.get('since') ?? undefined,
+      until: params.get('until') ?? undefined,
+    });
+    res.writeHead(200, { 'Content-Type': 'text/csv', 'Content-Disposition': 'attachment; filename="usage.csv"' });
+    res.end(csv);
+    return;
+  }
+
+  sendError(404, 'not_found_error', 'Not found');
+}
@@ -0,0 +1,290 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { existsSync, readFileSync, writeFileSync, renameSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { UsageLedger, UsageEntry } from './usage-ledger';
+
+/** A tenant key as persisted in the key store; the secret itself is only kept as a hash */
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  prefix: string; // First characters of the secret, to tell keys apart in listings
+  hash: string; // sha256 of the secret
+  createdAt: string;
+  rotatedAt?: string;
+  expiresAt?: string;
+  revokedAt?: string;
+  models?: string[]; // Allowed client model names, aliases or Fabstir model strings; every model when omitted
+  maxTokens?: number; // Lifetime token quota
+  maxSpend?: string; // Lifetime spend quota in payment token units (bigint as a decimal string)
+  requestsPerMinute?: number;
+  usage: { requests: number; tokens: number; spend: string };
+}
+
+/** Admin view of a key: everything but the hash */
+export type ApiKeyInfo = Omit<ApiKeyRecord, 'hash'>;
+
+export interface CreateApiKeyInput {
+  name: string;
+  models?: string[];
+  maxTokens?: number;
+  maxSpend?: string;
+  requestsPerMinute?: number;
+  expiresAt?: string;
+}
+
+export type ApiKeyDenialReason = 'invalid' | 'expired' | 'revoked' | 'quota_exceeded' | 'rate_limited' | 'model_not_allowed';
+
+/** Thrown when a key cannot make a request; servers map the reason to 401, 403 or 429 */
+export class ApiKeyError extends Error {
+  readonly code = 'API_KEY_DENIED';
+  constructor(message: string, readonly reason: ApiKeyDenialReason, readonly retryAfter?: number) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+export function isApiKeyError(err: any): err is ApiKeyError {
+  return err?.code === 'API_KEY_DENIED';
+}
+
+/** Bridge methods a metered view overrides */
+export interface MeterableBridge {
+  resolveModel(requested: string): Promise<string | undefined>;
+  listModels(): Promise<string[]>;
+  sendPrompt(
+    prompt: string, onToken?: (token: string) => void, options?: any, model?: string, clientId?: string, signal?: AbortSignal
+  ): Promise<any>;
+  embed?(texts: string[], clientId?: string, signal?: AbortSignal): Promise<{ model: string; totalTokens: number }>;
+  generateImage?(
+    prompt: string, options: { size: string; steps: number }, clientId?: string, signal?: AbortSignal
+  ): Promise<{ billing?: { generationUnits: number } }>;
+}
+
+const RATE_WINDOW_MS = 60000;
+const SAVE_DELAY_MS = 1000; // Usage updates are written at most once per delay
+
+/**
+ * Tenant API keys in a JSON file, with per-key model allow-lists, lifetime token and
+ * spend quotas, a requests-per-minute limit, expiry and revocation. Quotas are checked
+ * before a request, so the request that crosses one still completes. Key changes are
+ * written at once; usage totals are batched and written by flush().
+ */
+export class ApiKeyStore {
+  private keys: ApiKeyRecord[] = [];
+  private hits = new Map<string, number[]>(); // Request times within the rate window, per key id
+  private saveTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(private path: string, private ledger?: UsageLedger) {
+    if (existsSync(path)) this.keys = JSON.parse(readFileSync(path, 'utf8')).keys ?? [];
+  }
+
+  /** Creates a key; the returned secret is not stored and cannot be shown again */
+  create(input: CreateApiKeyInput): { key: string; info: ApiKeyInfo } {
+    validateKeyInput(input);
+    const key = generateSecret();
+    const record: ApiKeyRecord = {
+      id: `key_${randomBytes(8).toString('hex')}`,
+      name: input.name,
+      prefix: key.slice(0, 12),
+      hash: hashSecret(key),
+      createdAt: new Date().toISOString(),
+      expiresAt: input.expiresAt,
+      models: input.models,
+      maxTokens: input.maxTokens,
+      maxSpend: input.maxSpend,
+      requestsPerMinute: input.requestsPerMinute,
+      usage: { requests: 0, tokens: 0, spend: '0' },
+    };
+    this.keys.push(record);
+    this.save();
+    return { key, info: toInfo(record) };
+  }
+
+  /** Replaces the secret of a key, keeping its limits and usage */
+  rotate(id: string): { key: string; info: ApiKeyInfo } {
+    const record = this.require(id);
+    const key = generateSecret();
+    record.prefix = key.slice(0, 12);
+    record.hash = hashSecret(key);
+    record.rotatedAt = new Date().toISOString();
+    this.save();
+    return { key, info: toInfo(record) };
+  }
+
+  revoke(id: string): ApiKeyInfo {
+    const record = this.require(id);
+    record.revokedAt ??= new Date().toISOString();
+    this.save();
+    return toInfo(record);
+  }
+
+  list(): ApiKeyInfo[] {
+    return this.keys.map(toInfo);
+  }
+
+  get(id: string): ApiKeyInfo | undefined {
+    const record = this.keys.find(k => k.id === id);
+    return record && toInfo(record);
+  }
+
+  /** Key for a secret; throws ApiKeyError for unknown, expired and revoked keys */
+  authenticate(secret: string, now = Date.now()): ApiKeyRecord {
+    const hash = hashSecret(secret);
+    const record = this.keys.find(k => k.hash === hash);
+    if (!record) throw new ApiKeyError('Invalid API key', 'invalid');
+    if (record.revokedAt) throw new ApiKeyError('API key has been revoked', 'revoked');
+    if (record.expiresAt && Date.parse(record.expiresAt) <= now) throw new ApiKeyError('API key has expired', 'expired');
+    return record;
+  }
+
+  /** Counts a request against the key's rate limit; throws ApiKeyError when a quota or the limit is reached */
+  admit(record: ApiKeyRecord, now = Date.now()): void {
+    if (record.maxTokens !== undefined && record.usage.tokens >= record.maxTokens) {
+      throw new ApiKeyError(`Token quota of ${record.maxTokens} exhausted`, 'quota_exceeded');
+    }
+    if (record.maxSpend !== undefined && BigInt(record.usage.spend) >= BigInt(record.maxSpend)) {
+      throw new ApiKeyError(`Spend quota of ${record.maxSpend} exhausted`, 'quota_exceeded');
+    }
+    if (!record.requestsPerMinute) return;
+    const recent = (this.hits.get(record.id) ?? []).filter(t => now - t < RATE_WINDOW_MS);
+    if (recent.length >= record.requestsPerMinute) {
+      this.hits.set(record.id, recent);
+      const retryAfter = Math.max(1, Math.ceil((recent[0] + RATE_WINDOW_MS - now) / 1000));
+      throw new ApiKeyError(`Rate limit of ${record.requestsPerMinute} requests per minute reached`, 'rate_limited', retryAfter);
+    }
+    recent.push(now);
+    this.hits.set(record.id, recent);
+  }
+
+  /** Whether the key may use a model, by the requested name or the Fabstir model it resolves to */
+  allowsModel(record: ApiKeyRecord, requested: string, resolved?: string): boolean {
+    return !record.models || record.models.includes(requested) || (!!resolved && record.models.includes(resolved));
+  }
+
+  /** Adds a completed request to the key's totals and the usage ledger */
+  record(record: ApiKeyRecord, entry: Omit<UsageEntry, 'timestamp' | 'keyId' | 'keyName'>): void {
+    record.usage.requests++;
+    record.usage.tokens += entry.totalTokens;
+    if (entry.cost !== undefined) record.usage.spend = (BigInt(record.usage.spend) + BigInt(entry.cost)).toString();
+    this.saveTimer ??= setTimeout(() => this.flush(), SAVE_DELAY_MS);
+    this.saveTimer.unref?.();
+    this.ledger?.append({ timestamp: new Date().toISOString(), keyId: record.id, keyName: record.name, ...entry });
+  }
+
+  /**
+   * View of the bridge for one key: models outside its allow-list do not resolve (so
+   * handlers answer model_not_found, as OpenAI does for models a key cannot access)
+   * and every completed prompt, embedding and image request is recorded against the key.
+   * Prompts sent without a model run on defaultModel, which must then be on the
+   * allow-list itself; without a defaultModel they are recorded with an empty model.
+   */
+  meter<T extends MeterableBridge>(bridge: T, record: ApiKeyRecord, endpoint: string, defaultModel?: string): T {
+    const resolveModel = async (requested: string) => {
+      const resolved = await bridge.resolveModel(requested);
+      return resolved && this.allowsModel(record, requested, resolved) ? resolved : undefined;
+    };
+    const overrides: Partial<MeterableBridge> = {
+      resolveModel,
+      listModels: async () => {
+        const ids = await bridge.listModels();
+        const allowed = await Promise.all(ids.map(id => resolveModel(id)));
+        return ids.filter((_, i) => allowed[i] !== undefined);
+      },
+      sendPrompt: async (prompt, onToken, options, model, clientId, signal) => {
+        if (model === undefined && defaultModel !== undefined && !this.allowsModel(record, defaultModel)) {
+          throw new ApiKeyError(`API key cannot use model ${defaultModel}`, 'model_not_allowed');
+        }
+        const result = await bridge.sendPrompt(prompt, onToken, options, model, clientId, signal);
+        const usage = result?.tokenUsage;
+        const promptTokens = usage?.promptTokens ?? Math.ceil(prompt.length / 4);
+        const completionTokens = usage?.totalTokens ?? 0;
+        this.record(record, {
+          endpoint, model: model ?? defaultModel ?? '', promptTokens, completionTokens,
+          totalTokens: promptTokens + completionTokens,
+          cost: usage?.cost !== undefined ? String(usage.cost) : undefined,
+        });
+        return result;
+      },
+      embed: async (texts, clientId, signal) => {
+        const result = await bridge.embed!(texts, clientId, signal);
+        const tokens = result.totalTokens || texts.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+        this.record(record, { endpoint, model: result.model, promptTokens: tokens, completionTokens: 0, totalTokens: tokens });
+        return result;
+      },
+      generateImage: async (prompt, options, clientId, signal) => {
+        const result = await bridge.generateImage!(prompt, options, clientId, signal);
+        const promptTokens = Math.ceil(prompt.length / 4);
+        const completionTokens = result.billing?.generationUnits ?? 0;
+        this.record(record, {
+          endpoint, model: defaultModel ?? '', promptTokens, completionTokens, totalTokens: promptTokens + completionTokens,
+        });
+        return result;
+      },
+    };
+    return new Proxy(bridge, {
+      get(target, prop) {
+        if (prop in overrides) return (overrides as any)[prop];
+        const value = (target as any)[prop];
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
+  }
+
+  private require(id: string): ApiKeyRecord {
+    const record = this.keys.find(k => k.id === id);
+    if (!record) throw new Error(`Unknown API key: ${id}`);
+    return record;
+  }
+
+  /** Writes usage totals that record() has not saved yet */
+  flush(): void {
+    if (this.saveTimer) this.save();
+  }
+
+  private save(): void {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+    mkdirSync(dirname(this.path), { recursive: true });
+    const tmp = `${this.path}.tmp`;
+    writeFileSync(tmp, JSON.stringify({ keys: this.keys }, null, 2), { mode: 0o600 });
+    renameSync(tmp, this.path);
+  }
+}
+
+function validateKeyInput(input: CreateApiKeyInput): void {
+  if (!input || typeof input.name !== 'string' || !input.name) throw new Error('Missing required field: name');
+  if (input.models !== undefined && !(Array.isArray(input.models) && input.models.every(m => typeof m === 'string'))) {
+    throw new Error('models must be an array of model names');
+  }
+  if (input.maxTokens !== undefined && !(Number.isInteger(input.maxTokens) && input.maxTokens > 0)) {
+    throw new Error('maxTokens must be a positive integer');
+  }
+  if (input.maxSpend !== undefined && !/^\d+$/.test(String(input.maxSpend))) {
+    throw new Error('maxSpend must be a non-negative integer string (payment token units)');
+  }
+  if (input.requestsPerMinute !== undefined && !(Number.isInteger(input.requestsPerMinute) && input.requestsPerMinute > 0)) {
+    throw new Error('requestsPerMinute must be a positive integer');
+  }
+  if (input.expiresAt !== undefined && Number.isNaN(Date.parse(input.expiresAt))) {
+    throw new Error('expiresAt must be an ISO date');
+  }
+}
+
+function generateSecret(): string {
+  return `fab-${randomBytes(24).toString('base64url')}`;
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function toInfo({ hash, ...info }: ApiKeyRecord): ApiKeyInfo {
+  return { ...info, usage: { ...info.usage } };
+}
+
+/** Constant-time comparison for shared and admin keys */
+export function secretsMatch(given: string | undefined, expected: string): boolean {
+  const a = Buffer.from(given ?? '');
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,4 @@
+export * from './session-pool';
+export * from './api-keys';
+export * from './usage-ledger';
+export * from './admin-handler';
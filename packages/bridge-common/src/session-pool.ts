@@ -0,0 +1,217 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+/** A pooled session: opened lazily, leased to one request at a time */
+export interface PoolSlot {
+  model: string;
+  index: number; // Position within the model's slots (picks the host when several are configured)
+  sessionId?: bigint;
+  opening?: Promise<bigint>;
+  busy: boolean;
+  lastClient?: string;
+  leasedAt: number;
+}
+
+export interface PoolLimits {
+  maxSessions: number; // Sessions per model
+  maxQueueDepth: number; // Requests waiting for a session, across all models
+  queueTimeoutMs?: number; // Longest wait for a session before PoolBusyError; unlimited when omitted
+}
+
+export interface PoolMetrics {
+  maxSessions: number;
+  maxQueueDepth: number;
+  sessions: number;
+  busy: number;
+  idle: number;
+  queued: number;
+  served: number;
+  rejected: number;
+  avgLeaseMs: number;
+  models: Record<string, { sessions: number; busy: number }>;
+}
+
+/** Thrown when every session is busy and the wait queue is full, or the wait timed out; servers answer 429 */
+export class PoolBusyError extends Error {
+  readonly code = 'POOL_BUSY';
+  constructor(message: string, readonly retryAfter: number) {
+    super(message);
+    this.name = 'PoolBusyError';
+  }
+}
+
+export function isPoolBusyError(err: any): err is PoolBusyError {
+  return err?.code === 'POOL_BUSY';
+}
+
+interface Waiter {
+  model: string;
+  clientId?: string;
+  resolve: (slot: PoolSlot) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Bounded set of sessions per model. A request leases an idle session (the one its
+ * client used last when possible, so the host keeps the conversation cache warm),
+ * opens a new one while under maxSessions, or waits in a bounded FIFO queue until
+ * queueTimeoutMs passes or its client disconnects.
+ */
+export class SessionPool {
+  private slots: PoolSlot[] = [];
+  private waiters: Waiter[] = [];
+  private served = 0;
+  private rejected = 0;
+  private avgLeaseMs = 0;
+
+  constructor(private limits: PoolLimits) {}
+
+  /** Leases a session of the model; a queued request leaves the queue when signal aborts */
+  async acquire(model: string, clientId?: string, signal?: AbortSignal): Promise<PoolSlot> {
+    if (signal?.aborted) throw new Error('Request aborted before a session was free');
+    const slot = this.takeIdle(model, clientId) ?? this.addSlot(model);
+    if (slot) return this.lease(slot, clientId);
+    if (this.waiters.length >= this.limits.maxQueueDepth) {
+      this.rejected++;
+      throw new PoolBusyError(
+        `All ${this.limits.maxSessions} sessions for ${model} are busy and ${this.waiters.length} requests are queued`,
+        this.retryAfter()
+      );
+    }
+    return new Promise<PoolSlot>((resolve, reject) => {
+      const timeoutMs = this.limits.queueTimeoutMs;
+      const leave = (err: Error) => {
+        const at = this.waiters.indexOf(waiter);
+        if (at < 0) return;
+        this.waiters.splice(at, 1);
+        waiter.reject(err);
+      };
+      const onAbort = () => leave(new Error('Request aborted while waiting for a session'));
+      const timer = timeoutMs === undefined ? undefined : setTimeout(() => {
+        this.rejected++;
+        leave(new PoolBusyError(`No session for ${model} was free within ${Math.ceil(timeoutMs / 1000)}s`, this.retryAfter()));
+      }, timeoutMs);
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const waiter: Waiter = {
+        model,
+        clientId,
+        resolve: (slot) => { settle(); resolve(slot); },
+        reject: (err) => { settle(); reject(err); },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.push(waiter);
+    });
+  }
+
+  release(slot: PoolSlot): void {
+    const leaseMs = Date.now() - slot.leasedAt;
+    this.avgLeaseMs = this.served === 0 ? leaseMs : Math.round(this.avgLeaseMs * 0.8 + leaseMs * 0.2);
+    this.served++;
+    slot.busy = false;
+    // Hand the session straight to a waiter, preferring the client that used it last
+    const waiting = this.waiters.filter(w => w.model === slot.model);
+    const next = waiting.find(w => w.clientId !== undefined && w.clientId === slot.lastClient) ?? waiting[0];
+    if (!next) return;
+    this.waiters.splice(this.waiters.indexOf(next), 1);
+    next.resolve(this.lease(slot, next.clientId));
+  }
+
+  /** Seconds until a new request for the model can be accepted, or undefined when it would be */
+  retryAfterFor(model: string): number | undefined {
+    const hasCapacity = this.slotsFor(model).some(s => !s.busy)
+      || this.slotsFor(model).length < this.limits.maxSessions
+      || this.waiters.length < this.limits.maxQueueDepth;
+    return hasCapacity ? undefined : this.retryAfter();
+  }
+
+  slotsFor(model: string): PoolSlot[] {
+    return this.slots.filter(s => s.model === model);
+  }
+
+  /** First slot of the model, added without a lease (direct session access outside the pool) */
+  primarySlot(model: string): PoolSlot {
+    return this.slotsFor(model)[0] ?? this.createSlot(model);
+  }
+
+  /** Removes every slot and returns those with an open session; queued requests are rejected */
+  drain(): PoolSlot[] {
+    const open = this.slots.filter(s => s.sessionId !== undefined);
+    const waiters = this.waiters;
+    this.slots = [];
+    this.waiters = [];
+    waiters.forEach(w => w.reject(new Error('Session pool closed')));
+    return open;
+  }
+
+  getMetrics(): PoolMetrics {
+    const models: PoolMetrics['models'] = {};
+    for (const slot of this.slots) {
+      const m = (models[slot.model] ??= { sessions: 0, busy: 0 });
+      m.sessions++;
+      if (slot.busy) m.busy++;
+    }
+    const busy = this.slots.filter(s => s.busy).length;
+    return {
+      maxSessions: this.limits.maxSessions,
+      maxQueueDepth: this.limits.maxQueueDepth,
+      sessions: this.slots.length,
+      busy,
+      idle: this.slots.length - busy,
+      queued: this.waiters.length,
+      served: this.served,
+      rejected: this.rejected,
+      avgLeaseMs: this.avgLeaseMs,
+      models,
+    };
+  }
+
+  private takeIdle(model: string, clientId?: string): PoolSlot | undefined {
+    const idle = this.slotsFor(model).filter(s => !s.busy);
+    return idle.find(s => clientId !== undefined && s.lastClient === clientId)
+      ?? idle.find(s => s.lastClient === undefined)
+      ?? idle[0];
+  }
+
+  private addSlot(model: string): PoolSlot | undefined {
+    return this.slotsFor(model).length < this.limits.maxSessions ? this.createSlot(model) : undefined;
+  }
+
+  private createSlot(model: string): PoolSlot {
+    const slot: PoolSlot = { model, index: this.slotsFor(model).length, busy: false, leasedAt: 0 };
+    this.slots.push(slot);
+    return slot;
+  }
+
+  private lease(slot: PoolSlot, clientId?: string): PoolSlot {
+    slot.busy = true;
+    slot.leasedAt = Date.now();
+    if (clientId !== undefined) slot.lastClient = clientId;
+    return slot;
+  }
+
+  /** Queued requests ahead, spread over the sessions, at the average lease time */
+  private retryAfter(): number {
+    const perSession = Math.max(this.avgLeaseMs, 1000);
+    const rounds = Math.ceil((this.waiters.length + 1) / Math.max(this.limits.maxSessions, 1));
+    return Math.max(1, Math.ceil((perSession * rounds) / 1000));
+  }
+}
+
+/** Affinity key: x-client-id header, then the user id from the request body, then the client address */
+export function getClientId(req: IncomingMessage, user?: string): string | undefined {
+  const header = req.headers?.['x-client-id'];
+  if (typeof header === 'string' && header) return header;
+  if (typeof user === 'string' && user) return user;
+  return req.socket?.remoteAddress;
+}
+
+/** Aborts when the client disconnects before its response is finished */
+export function clientDisconnectSignal(res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
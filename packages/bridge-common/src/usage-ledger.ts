@@ -0,0 +1,64 @@
+import { existsSync, readFileSync, appendFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+/** One completed request, as a line of the JSONL ledger */
+export interface UsageEntry {
+  timestamp: string;
+  keyId: string;
+  keyName: string;
+  endpoint: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number; // Tokens billed by the host (generated, vision and image tokens)
+  totalTokens: number;
+  cost?: string; // On-chain cost in payment token units; absent when the session reported none
+}
+
+export interface UsageFilter {
+  keyId?: string;
+  since?: string; // ISO timestamps, inclusive
+  until?: string;
+}
+
+const CSV_COLUMNS: (keyof UsageEntry)[] = [
+  'timestamp', 'keyId', 'keyName', 'endpoint', 'model', 'promptTokens', 'completionTokens', 'totalTokens', 'cost',
+];
+
+/** Append-only usage ledger in a JSONL file */
+export class UsageLedger {
+  constructor(private path: string) {}
+
+  append(entry: UsageEntry): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    appendFileSync(this.path, JSON.stringify(entry) + '\n');
+  }
+
+  read(filter: UsageFilter = {}): UsageEntry[] {
+    if (!existsSync(this.path)) return [];
+    const since = filter.since ? Date.parse(filter.since) : -Infinity;
+    const until = filter.until ? Date.parse(filter.until) : Infinity;
+    return readFileSync(this.path, 'utf8')
+      .split('\n')
+      .filter(Boolean)
+      .map(line => JSON.parse(line) as UsageEntry)
+      .filter(e => (!filter.keyId || e.keyId === filter.keyId)
+        && Date.parse(e.timestamp) >= since && Date.parse(e.timestamp) <= until);
+  }
+
+  exportCsv(filter: UsageFilter = {}): string {
+    const header = CSV_COLUMNS.map(toSnakeCase).join(',');
+    const rows = this.read(filter).map(e => CSV_COLUMNS.map(c => csvField(e[c])).join(','));
+    return [header, ...rows].join('\n') + '\n';
+  }
+}
+
+function toSnakeCase(name: string): string {
+  return name.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+}
+
+function csvField(value: unknown): string {
+  let text = value === undefined ? '' : String(value);
+  // Spreadsheets run text cells starting with = + - @ as formulas; a leading quote keeps them text
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
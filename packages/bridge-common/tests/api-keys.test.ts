@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ApiKeyStore, isApiKeyError, secretsMatch } from '../src/api-keys';
+import { UsageLedger } from '../src/usage-ledger';
+
+describe('ApiKeyStore', () => {
+  let dir: string;
+  let store: ApiKeyStore;
+  let ledger: UsageLedger;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bridge-keys-'));
+    ledger = new UsageLedger(join(dir, 'usage.jsonl'));
+    store = new ApiKeyStore(join(dir, 'keys.json'), ledger);
+  });
+
+  afterEach(() => {
+    store.flush();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const denial = (fn: () => unknown) => {
+    try {
+      fn();
+    } catch (err) {
+      if (isApiKeyError(err)) return { reason: err.reason, retryAfter: err.retryAfter };
+      throw err;
+    }
+    return undefined;
+  };
+
+  it('creates keys that persist only a hash and authenticate by secret', () => {
+    const { key, info } = store.create({ name: 'team-a' });
+
+    expect(key).toMatch(/^fab-/);
+    expect(info).toMatchObject({ name: 'team-a', prefix: key.slice(0, 12), usage: { requests: 0, tokens: 0, spend: '0' } });
+    expect(info).not.toHaveProperty('hash');
+    const file = readFileSync(join(dir, 'keys.json'), 'utf8');
+    expect(file).not.toContain(key);
+
+    const reloaded = new ApiKeyStore(join(dir, 'keys.json'));
+    expect(reloaded.authenticate(key).id).toBe(info.id);
+    expect(denial(() => reloaded.authenticate('fab-wrong'))).toEqual({ reason: 'invalid', retryAfter: undefined });
+  });
+
+  it('rejects invalid key definitions', () => {
+    expect(() => store.create({ name: '' })).toThrow('Missing required field: name');
+    expect(() => store.create({ name: 'a', maxTokens: 0 })).toThrow('maxTokens must be a positive integer');
+    expect(() => store.create({ name: 'a', maxSpend: '1.5' })).toThrow('maxSpend must be');
+    expect(() => store.create({ name: 'a', expiresAt: 'soon' })).toThrow('expiresAt must be an ISO date');
+  });
+
+  it('rotates the secret, keeping the key id, and revokes keys', () => {
+    const { key, info } = store.create({ name: 'team-a' });
+    const rotated = store.rotate(info.id);
+
+    expect(rotated.info.id).toBe(info.id);
+    expect(rotated.info.rotatedAt).toBeDefined();
+    expect(denial(() => store.authenticate(key))?.reason).toBe('invalid');
+    expect(store.authenticate(rotated.key).id).toBe(info.id);
+
+    store.revoke(info.id);
+    expect(denial(() => store.authenticate(rotated.key))?.reason).toBe('revoked');
+    expect(() => store.rotate('key_missing')).toThrow('Unknown API key: key_missing');
+  });
+
+  it('rejects expired keys', () => {
+    const { key } = store.create({ name: 'temp', expiresAt: '2026-01-01T00:00:00Z' });
+
+    expect(store.authenticate(key, Date.parse('2025-12-31T00:00:00Z'))).toBeDefined();
+    expect(denial(() => store.authenticate(key, Date.parse('2026-01-01T00:00:00Z')))?.reason).toBe('expired');
+  });
+
+  it('enforces requests per minute with a retry delay', () => {
+    const { key } = store.create({ name: 'limited', requestsPerMinute: 2 });
+    const record = store.authenticate(key);
+
+    store.admit(record, 0);
+    store.admit(record, 10_000);
+    expect(denial(() => store.admit(record, 20_000))).toEqual({ reason: 'rate_limited', retryAfter: 40 });
+    expect(() => store.admit(record, 60_000)).not.toThrow();
+  });
+
+  it('records usage to the key totals and the ledger, then enforces token and spend quotas', () => {
+    const { key, info } = store.create({ name: 'quota', maxTokens: 100, maxSpend: '500' });
+    const record = store.authenticate(key);
+
+    store.record(record, { endpoint: '/v1/chat/completions', model: 'm', promptTokens: 20, completionTokens: 30, totalTokens: 50, cost: '300' });
+    expect(() => store.admit(record)).not.toThrow();
+    store.record(record, { endpoint: '/v1/chat/completions', model: 'm', promptTokens: 20, completionTokens: 40, totalTokens: 60, cost: '250' });
+
+    expect(store.get(info.id)!.usage).toEqual({ requests: 2, tokens: 110, spend: '550' });
+    expect(denial(() => store.admit(record))?.reason).toBe('quota_exceeded');
+    expect(ledger.read()).toHaveLength(2);
+    expect(ledger.read()[0]).toMatchObject({ keyId: info.id, keyName: 'quota', totalTokens: 50, cost: '300' });
+  });
+
+  it('batches usage writes to the key file until the save delay or flush()', () => {
+    vi.useFakeTimers();
+    try {
+      const { key, info } = store.create({ name: 'busy' });
+      const record = store.authenticate(key);
+      const savedUsage = () => JSON.parse(readFileSync(join(dir, 'keys.json'), 'utf8')).keys[0].usage;
+
+      store.record(record, { endpoint: '/v1/chat/completions', model: 'm', promptTokens: 1, completionTokens: 1, totalTokens: 2 });
+      store.record(record, { endpoint: '/v1/chat/completions', model: 'm', promptTokens: 1, completionTokens: 1, totalTokens: 2 });
+      expect(savedUsage()).toEqual({ requests: 0, tokens: 0, spend: '0' });
+
+      vi.advanceTimersByTime(1000);
+      expect(savedUsage()).toEqual({ requests: 2, tokens: 4, spend: '0' });
+
+      store.record(record, { endpoint: '/v1/chat/completions', model: 'm', promptTokens: 1, completionTokens: 1, totalTokens: 2 });
+      store.flush();
+      expect(savedUsage()).toEqual({ requests: 3, tokens: 6, spend: '0' });
+      expect(new ApiKeyStore(join(dir, 'keys.json')).get(info.id)!.usage.requests).toBe(3);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  describe('meter', () => {
+    const bridge = {
+      resolveModel: vi.fn(async (model: string) => (model === 'gpt-4o' ? 'Org/Big:big.gguf' : model === 'unknown' ? undefined : model)),
+      listModels: vi.fn(async () => ['Org/Big:big.gguf', 'Org/Small:small.gguf', 'gpt-4o']),
+      sendPrompt: vi.fn(async () => ({ response: 'hi', tokenUsage: { llmTokens: 7, vlmTokens: 0, totalTokens: 7, cost: 35n } })),
+      getRetryAfter: vi.fn(() => undefined),
+    };
+
+    it('resolves and lists only the models a key allows', async () => {
+      const { key } = store.create({ name: 'big-only', models: ['Org/Big:big.gguf'] });
+      const metered = store.meter(bridge, store.authenticate(key), '/v1/chat/completions', 'Org/Small:small.gguf');
+
+      expect(await metered.resolveModel('gpt-4o')).toBe('Org/Big:big.gguf');
+      expect(await metered.resolveModel('Org/Small:small.gguf')).toBeUndefined();
+      expect(await metered.listModels()).toEqual(['Org/Big:big.gguf', 'gpt-4o']);
+      expect(metered.getRetryAfter()).toBeUndefined();
+    });
+
+    it('records each completed prompt with its on-chain cost', async () => {
+      const { key, info } = store.create({ name: 'team-a' });
+      const metered = store.meter(bridge, store.authenticate(key), '/v1/responses', 'Org/Small:small.gguf');
+
+      const signal = new AbortController().signal;
+      const result = await metered.sendPrompt('abcdefgh', undefined, undefined, 'Org/Big:big.gguf', 'client-1', signal);
+
+      expect(result.response).toBe('hi');
+      expect(bridge.sendPrompt).toHaveBeenLastCalledWith('abcdefgh', undefined, undefined, 'Org/Big:big.gguf', 'client-1', signal);
+      expect(ledger.read()).toEqual([expect.objectContaining({
+        keyId: info.id, endpoint: '/v1/responses', model: 'Org/Big:big.gguf',
+        promptTokens: 2, completionTokens: 7, totalTokens: 9, cost: '35',
+      })]);
+      expect(store.get(info.id)!.usage).toEqual({ requests: 1, tokens: 9, spend: '35' });
+    });
+
+    it('records embedding requests with their tokens', async () => {
+      const { key, info } = store.create({ name: 'rag' });
+      const embedding = { ...bridge, embed: vi.fn(async () => ({ embeddings: [[0.1]], model: 'all-MiniLM-L6-v2', totalTokens: 6 })) };
+      const metered = store.meter(embedding, store.authenticate(key), '/v1/embeddings', 'Org/Small:small.gguf');
+
+      await metered.embed!(['some text']);
+
+      expect(ledger.read()).toEqual([expect.objectContaining({
+        keyId: info.id, endpoint: '/v1/embeddings', model: 'all-MiniLM-L6-v2', promptTokens: 6, completionTokens: 0, totalTokens: 6,
+      })]);
+    });
+
+    it('records image generations on the default model with the units the host billed', async () => {
+      const { key, info } = store.create({ name: 'art' });
+      const images = { ...bridge, generateImage: vi.fn(async () => ({ image: 'b64', billing: { generationUnits: 12 } })) };
+      const metered = store.meter(images, store.authenticate(key), '/v1/images/generations', 'Org/Small:small.gguf');
+
+      await metered.generateImage!('a red fox', { size: '512x512', steps: 4 }, 'client-1');
+
+      expect(images.generateImage).toHaveBeenCalledWith('a red fox', { size: '512x512', steps: 4 }, 'client-1', undefined);
+      expect(ledger.read()).toEqual([expect.objectContaining({
+        keyId: info.id, endpoint: '/v1/images/generations', model: 'Org/Small:small.gguf',
+        promptTokens: 3, completionTokens: 12, totalTokens: 15,
+      })]);
+    });
+
+    it('refuses prompts on a default model outside the allow-list', async () => {
+      const { key } = store.create({ name: 'big-only', models: ['Org/Big:big.gguf'] });
+      const metered = store.meter(bridge, store.authenticate(key), '/v1/responses', 'Org/Small:small.gguf');
+
+      await expect(metered.sendPrompt('hi')).rejects.toMatchObject({ reason: 'model_not_allowed' });
+    });
+  });
+
+  it('secretsMatch compares in constant time and rejects missing secrets', () => {
+    expect(secretsMatch('admin', 'admin')).toBe(true);
+    expect(secretsMatch('admin2', 'admin')).toBe(false);
+    expect(secretsMatch(undefined, 'admin')).toBe(false);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SessionPool, PoolBusyError, getClientId, clientDisconnectSignal } from '../src/session-pool';
+
+describe('SessionPool', () => {
+  it('adds slots up to maxSessions, then queues and hands released slots to waiters', async () => {
+    const pool = new SessionPool({ maxSessions: 2, maxQueueDepth: 4 });
+    const a = await pool.acquire('m');
+    const b = await pool.acquire('m');
+    expect([a.index, b.index]).toEqual([0, 1]);
+
+    let third: any;
+    const waiting = pool.acquire('m').then(s => { third = s; });
+    expect(pool.getMetrics()).toMatchObject({ sessions: 2, busy: 2, queued: 1 });
+
+    pool.release(b);
+    await waiting;
+    expect(third).toBe(b);
+    expect(pool.getMetrics()).toMatchObject({ busy: 2, queued: 0, served: 1 });
+  });
+
+  it('prefers the idle slot the client used last', async () => {
+    const pool = new SessionPool({ maxSessions: 2, maxQueueDepth: 0 });
+    const a = await pool.acquire('m', 'alice');
+    const b = await pool.acquire('m', 'bob');
+    pool.release(a);
+    pool.release(b);
+
+    expect(await pool.acquire('m', 'bob')).toBe(b);
+    expect(await pool.acquire('m', 'alice')).toBe(a);
+  });
+
+  it('gives a released slot to the waiter that used it last', async () => {
+    const pool = new SessionPool({ maxSessions: 1, maxQueueDepth: 2 });
+    const slot = await pool.acquire('m', 'alice');
+    const order: string[] = [];
+    const bob = pool.acquire('m', 'bob').then(s => { order.push('bob'); pool.release(s); });
+    const alice = pool.acquire('m', 'alice').then(s => { order.push('alice'); pool.release(s); });
+
+    pool.release(slot);
+    await Promise.all([bob, alice]);
+    expect(order).toEqual(['alice', 'bob']);
+  });
+
+  it('rejects with PoolBusyError once the queue is full', async () => {
+    const pool = new SessionPool({ maxSessions: 1, maxQueueDepth: 1 });
+    await pool.acquire('m');
+    void pool.acquire('m');
+
+    expect(pool.retryAfterFor('m')).toBeGreaterThanOrEqual(1);
+    expect(pool.retryAfterFor('other')).toBeUndefined();
+    const err = await pool.acquire('m').catch(e => e);
+    expect(err).toBeInstanceOf(PoolBusyError);
+    expect(err.retryAfter).toBeGreaterThanOrEqual(1);
+    expect(pool.getMetrics().rejected).toBe(1);
+  });
+
+  it('rejects a queued request with PoolBusyError after queueTimeoutMs', async () => {
+    vi.useFakeTimers();
+    try {
+      const pool = new SessionPool({ maxSessions: 1, maxQueueDepth: 2, queueTimeoutMs: 5000 });
+      const slot = await pool.acquire('m');
+      const waiting = pool.acquire('m').catch(e => e);
+
+      await vi.advanceTimersByTimeAsync(5000);
+      const err = await waiting;
+      expect(err).toBeInstanceOf(PoolBusyError);
+      expect(err.message).toContain('within 5s');
+      expect(pool.getMetrics()).toMatchObject({ queued: 0, rejected: 1 });
+
+      pool.release(slot);
+      expect(pool.getMetrics().busy).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('removes a queued request when its signal aborts', async () => {
+    const pool = new SessionPool({ maxSessions: 1, maxQueueDepth: 2 });
+    const slot = await pool.acquire('m');
+    const controller = new AbortController();
+    const abandoned = pool.acquire('m', 'gone', controller.signal).catch(e => e);
+    const next = pool.acquire('m', 'next');
+
+    controller.abort();
+    expect((await abandoned).message).toContain('aborted');
+    expect(pool.getMetrics().queued).toBe(1);
+
+    pool.release(slot);
+    expect(await next).toBe(slot);
+    expect(slot.lastClient).toBe('next');
+  });
+
+  it('rejects queued requests when drained', async () => {
+    const pool = new SessionPool({ maxSessions: 1, maxQueueDepth: 1 });
+    await pool.acquire('m');
+    const waiting = pool.acquire('m').catch(e => e);
+
+    pool.drain();
+    expect((await waiting).message).toBe('Session pool closed');
+  });
+
+  it('keeps separate slots per model and drains open sessions', async () => {
+    const pool = new SessionPool({ maxSessions: 1, maxQueueDepth: 0 });
+    const a = await pool.acquire('m1');
+    const b = await pool.acquire('m2');
+    a.sessionId = 1n;
+
+    expect(pool.getMetrics().models).toEqual({ m1: { sessions: 1, busy: 1 }, m2: { sessions: 1, busy: 1 } });
+    expect(pool.drain()).toEqual([a]);
+    expect(pool.slotsFor('m2')).toEqual([]);
+    expect(b.model).toBe('m2');
+  });
+});
+
+describe('getClientId', () => {
+  it('uses the x-client-id header, then the request user id, then the client address', () => {
+    const req = (headers: any) => ({ headers, socket: { remoteAddress: '10.0.0.5' } }) as any;
+    expect(getClientId(req({ 'x-client-id': 'ide-1' }), 'alice')).toBe('ide-1');
+    expect(getClientId(req({}), 'alice')).toBe('alice');
+    expect(getClientId(req({}))).toBe('10.0.0.5');
+  });
+});
+
+describe('clientDisconnectSignal', () => {
+  it('aborts when the connection closes before the response is finished', () => {
+    const listeners: Record<string, () => void> = {};
+    const res: any = { writableFinished: false, on: (event: string, cb: () => void) => { listeners[event] = cb; } };
+    const signal = clientDisconnectSignal(res);
+
+    listeners.close();
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('stays open when the response was sent', () => {
+    const listeners: Record<string, () => void> = {};
+    const res: any = { writableFinished: true, on: (event: string, cb: () => void) => { listeners[event] = cb; } };
+    const signal = clientDisconnectSignal(res);
+
+    listeners.close();
+    expect(signal.aborted).toBe(false);
+  });
+});
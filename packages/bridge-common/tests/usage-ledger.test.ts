@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { UsageLedger, UsageEntry } from '../src/usage-ledger';
+
+describe('UsageLedger', () => {
+  let dir: string;
+  let ledger: UsageLedger;
+
+  const entry = (overrides: Partial<UsageEntry>): UsageEntry => ({
+    timestamp: '2026-03-01T10:00:00.000Z', keyId: 'key_a', keyName: 'team-a', endpoint: '/v1/chat/completions',
+    model: 'Org/Model:model.gguf', promptTokens: 10, completionTokens: 20, totalTokens: 30, cost: '100',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bridge-ledger-'));
+    ledger = new UsageLedger(join(dir, 'logs', 'usage.jsonl'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads nothing before the first entry', () => {
+    expect(ledger.read()).toEqual([]);
+  });
+
+  it('appends entries and filters by key and time range', () => {
+    ledger.append(entry({}));
+    ledger.append(entry({ keyId: 'key_b', timestamp: '2026-03-02T10:00:00.000Z' }));
+    ledger.append(entry({ timestamp: '2026-03-03T10:00:00.000Z' }));
+
+    expect(ledger.read()).toHaveLength(3);
+    expect(ledger.read({ keyId: 'key_a' }).map(e => e.timestamp)).toEqual([
+      '2026-03-01T10:00:00.000Z', '2026-03-03T10:00:00.000Z',
+    ]);
+    expect(ledger.read({ since: '2026-03-02T00:00:00Z', until: '2026-03-02T23:59:59Z' }).map(e => e.keyId)).toEqual(['key_b']);
+  });
+
+  it('exports CSV with snake_case headers, quoting and empty unknown costs', () => {
+    ledger.append(entry({ keyName: 'team "a", ops' }));
+    ledger.append(entry({ cost: undefined }));
+
+    expect(ledger.exportCsv().split('\n')).toEqual([
+      'timestamp,key_id,key_name,endpoint,model,prompt_tokens,completion_tokens,total_tokens,cost',
+      '2026-03-01T10:00:00.000Z,key_a,"team ""a"", ops",/v1/chat/completions,Org/Model:model.gguf,10,20,30,100',
+      '2026-03-01T10:00:00.000Z,key_a,team-a,/v1/chat/completions,Org/Model:model.gguf,10,20,30,',
+      '',
+    ]);
+  });
+
+  it('keeps cells that spreadsheets would run as formulas as text', () => {
+    for (const keyName of ['=HYPERLINK("http://x")', '+1', '-2+3', '@SUM(A1)']) ledger.append(entry({ keyName }));
+
+    expect(ledger.exportCsv().split('\n').slice(1, 5).map(row => row.split(',')[2])).toEqual([
+      `"'=HYPERLINK(""http://x"")"`, "'+1", "'-2+3", "'@SUM(A1)",
+    ]);
+  });
+});
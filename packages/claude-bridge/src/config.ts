@@ -1,8 +1,12 @@
+import { dirname, join } from 'path';
+import { toolDialectRegistry } from '@fabstir/sdk-core';
+
 export interface BridgeConfig {
   port: number;
   privateKey: string;
   rpcUrl?: string;
   hostAddress?: string;
+  hostAddresses?: string[]; // Pool sessions of the default model rotate over these hosts
   modelName: string;
   chainId: number;
   depositAmount: string;
@@ -11,6 +15,14 @@ export interface BridgeConfig {
   duration: number;
   apiKey?: string;
   localhostOverride?: string; // Docker: rewrite localhost in discovered host URLs (e.g. host.docker.internal)
+  toolDialect?: string; // Tool call format (glm, hermes, qwen, llama3, mistral); detected from modelName if omitted
+  modelAliases?: Record<string, string>; // Client model name -> Fabstir model string (e.g. claude-sonnet-4-5 -> repo:file.gguf); "*" catches other names
+  poolSize: number; // Concurrent sessions per model
+  maxQueueDepth: number; // Requests waiting for a session before new ones get 429
+  queueTimeout: number; // Seconds a queued request waits for a session before it gets 429
+  keyStorePath?: string; // JSON file of tenant API keys (quotas, model allow-lists, rate limits)
+  usageLedgerPath?: string; // JSONL usage ledger; defaults to usage.jsonl next to the key store
+  adminKey?: string; // x-api-key for the /admin endpoints
 }
 
 export const DEFAULT_PORT = 3456;
@@ -19,6 +31,9 @@ export const DEFAULT_DEPOSIT_AMOUNT = '0.0002';
 export const DEFAULT_PRICE_PER_TOKEN = 5000;
 export const DEFAULT_PROOF_INTERVAL = 100;
 export const DEFAULT_DURATION = 86400;
+export const DEFAULT_POOL_SIZE = 4;
+export const DEFAULT_MAX_QUEUE_DEPTH = 16;
+export const DEFAULT_QUEUE_TIMEOUT = 60;
 
 export function validateConfig(config: Partial<BridgeConfig>): BridgeConfig {
   if (!config.privateKey) {
@@ -27,12 +42,28 @@ export function validateConfig(config: Partial<BridgeConfig>): BridgeConfig {
   if (!config.modelName) {
     throw new Error('Missing required config: modelName');
   }
+  if (config.toolDialect && !toolDialectRegistry.has(config.toolDialect)) {
+    throw new Error(`Unknown tool dialect: ${config.toolDialect}`);
+  }
+  if (config.poolSize !== undefined && !(Number.isInteger(config.poolSize) && config.poolSize >= 1)) {
+    throw new Error(`Invalid poolSize: ${config.poolSize} (must be a positive integer)`);
+  }
+  if (config.maxQueueDepth !== undefined && !(Number.isInteger(config.maxQueueDepth) && config.maxQueueDepth >= 0)) {
+    throw new Error(`Invalid maxQueueDepth: ${config.maxQueueDepth} (must be a non-negative integer)`);
+  }
+  if (config.queueTimeout !== undefined && !(config.queueTimeout > 0)) {
+    throw new Error(`Invalid queueTimeout: ${config.queueTimeout} (must be a positive number of seconds)`);
+  }
+  if (config.adminKey && !config.keyStorePath) {
+    throw new Error('adminKey requires keyStorePath');
+  }
 
   return {
     port: config.port ?? DEFAULT_PORT,
     privateKey: config.privateKey,
     rpcUrl: config.rpcUrl,
     hostAddress: config.hostAddress ?? undefined,
+    hostAddresses: config.hostAddresses,
     modelName: config.modelName,
     chainId: config.chainId ?? DEFAULT_CHAIN_ID,
     depositAmount: config.depositAmount ?? DEFAULT_DEPOSIT_AMOUNT,
@@ -40,9 +71,32 @@ export function validateConfig(config: Partial<BridgeConfig>): BridgeConfig {
     proofInterval: config.proofInterval ?? DEFAULT_PROOF_INTERVAL,
     duration: config.duration ?? DEFAULT_DURATION,
     apiKey: config.apiKey,
+    toolDialect: config.toolDialect,
+    modelAliases: config.modelAliases,
+    poolSize: config.poolSize ?? DEFAULT_POOL_SIZE,
+    maxQueueDepth: config.maxQueueDepth ?? DEFAULT_MAX_QUEUE_DEPTH,
+    queueTimeout: config.queueTimeout ?? DEFAULT_QUEUE_TIMEOUT,
+    keyStorePath: config.keyStorePath,
+    usageLedgerPath: config.usageLedgerPath ?? (config.keyStorePath ? join(dirname(config.keyStorePath), 'usage.jsonl') : undefined),
+    adminKey: config.adminKey,
   };
 }
 
+/** Parse `alias=repo:file,alias2=repo2:file2` into an alias map */
+export function parseModelAliases(value: string): Record<string, string> {
+  const aliases: Record<string, string> = {};
+  for (const entry of value.split(',').map(e => e.trim()).filter(Boolean)) {
+    const eq = entry.indexOf('=');
+    const alias = entry.slice(0, eq).trim();
+    const target = entry.slice(eq + 1).trim();
+    if (eq < 0 || !alias || !target) {
+      throw new Error(`Invalid model alias "${entry}" (expected alias=repo:file)`);
+    }
+    aliases[alias] = target;
+  }
+  return aliases;
+}
+
 export function loadConfigFromEnv(): Partial<BridgeConfig> {
   const config: Partial<BridgeConfig> = {};
 
@@ -55,6 +109,18 @@ export function loadConfigFromEnv(): Partial<BridgeConfig> {
   if (process.env.CLAUDE_BRIDGE_HOST) {
     config.hostAddress = process.env.CLAUDE_BRIDGE_HOST;
   }
+  if (process.env.CLAUDE_BRIDGE_HOSTS) {
+    config.hostAddresses = process.env.CLAUDE_BRIDGE_HOSTS.split(',').map(h => h.trim()).filter(Boolean);
+  }
+  if (process.env.CLAUDE_BRIDGE_POOL_SIZE) {
+    config.poolSize = parseInt(process.env.CLAUDE_BRIDGE_POOL_SIZE, 10);
+  }
+  if (process.env.CLAUDE_BRIDGE_MAX_QUEUE) {
+    config.maxQueueDepth = parseInt(process.env.CLAUDE_BRIDGE_MAX_QUEUE, 10);
+  }
+  if (process.env.CLAUDE_BRIDGE_QUEUE_TIMEOUT) {
+    config.queueTimeout = parseFloat(process.env.CLAUDE_BRIDGE_QUEUE_TIMEOUT);
+  }
   if (process.env.CLAUDE_BRIDGE_MODEL) {
     config.modelName = process.env.CLAUDE_BRIDGE_MODEL;
   }
@@ -70,6 +136,21 @@ export function loadConfigFromEnv(): Partial<BridgeConfig> {
   if (process.env.CLAUDE_BRIDGE_API_KEY) {
     config.apiKey = process.env.CLAUDE_BRIDGE_API_KEY;
   }
+  if (process.env.CLAUDE_BRIDGE_TOOL_DIALECT) {
+    config.toolDialect = process.env.CLAUDE_BRIDGE_TOOL_DIALECT;
+  }
+  if (process.env.CLAUDE_BRIDGE_MODEL_ALIASES) {
+    config.modelAliases = parseModelAliases(process.env.CLAUDE_BRIDGE_MODEL_ALIASES);
+  }
+  if (process.env.CLAUDE_BRIDGE_KEY_STORE) {
+    config.keyStorePath = process.env.CLAUDE_BRIDGE_KEY_STORE;
+  }
+  if (process.env.CLAUDE_BRIDGE_USAGE_LEDGER) {
+    config.usageLedgerPath = process.env.CLAUDE_BRIDGE_USAGE_LEDGER;
+  }
+  if (process.env.CLAUDE_BRIDGE_ADMIN_KEY) {
+    config.adminKey = process.env.CLAUDE_BRIDGE_ADMIN_KEY;
+  }
 
   return config;
 }
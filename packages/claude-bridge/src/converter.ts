@@ -1,5 +1,6 @@
 // Anthropic Messages → ChatML Converter
 import type { AnthropicMessage, AnthropicTool, ContentBlock, ImageAttachment, ImageFormat } from './types';
+import { toolDialectRegistry, ToolDialect } from '@fabstir/sdk-core';
 
 const MEDIA_TYPE_MAP: Record<string, ImageFormat> = {
   'image/png': 'png',
@@ -9,7 +10,8 @@ const MEDIA_TYPE_MAP: Record<string, ImageFormat> = {
 };
 
 function extractContent(
-  content: string | ContentBlock[]
+  content: string | ContentBlock[],
+  dialect: ToolDialect
 ): { text: string; images: ImageAttachment[]; observations: string[] } {
   if (typeof content === 'string') {
     return { text: content, images: [], observations: [] };
@@ -30,7 +32,7 @@ function extractContent(
         break;
       }
       case 'tool_use':
-        parts.push(JSON.stringify({ name: block.name, arguments: block.input }));
+        parts.push(dialect.formatToolCall(block.name, block.input));
         break;
       case 'tool_result': {
         const resultText = typeof block.content === 'string'
@@ -45,26 +47,11 @@ function extractContent(
   return { text: parts.join(''), images, observations };
 }
 
-function formatToolsForPrompt(tools: AnthropicTool[]): string {
-  const lines = ['# Tools'];
-  for (const tool of tools) {
-    const desc = tool.description?.split('\n')[0]?.slice(0, 80) || '';
-    const props = tool.input_schema?.properties as Record<string, any> | undefined;
-    const required = (tool.input_schema?.required as string[]) || [];
-    const params = props ? required.join(', ') : '';
-    lines.push(`- ${tool.name}: ${desc}${params ? ` [${params}]` : ''}`);
-  }
-  lines.push('');
-  lines.push('IMPORTANT: To perform actions, you MUST output <tool_call> tags. Never output commands as text or code blocks.');
-  lines.push('Format: <tool_call>ToolName<arg_key>param</arg_key><arg_value>value</arg_value></tool_call>');
-  lines.push('Example: <tool_call>Bash<arg_key>command</arg_key><arg_value>npm install</arg_value></tool_call>');
-  return lines.join('\n');
-}
-
 export function convertMessages(
   messages: AnthropicMessage[],
   system?: string,
-  tools?: AnthropicTool[]
+  tools?: AnthropicTool[],
+  dialect: ToolDialect = toolDialectRegistry.resolve()
 ): { prompt: string; images: ImageAttachment[] } {
   if (messages.length === 0) {
     throw new Error('Messages array must not be empty');
@@ -79,18 +66,18 @@ export function convertMessages(
     systemParts.push(system);
   }
   if (tools && tools.length > 0) {
-    systemParts.push(formatToolsForPrompt(tools));
+    systemParts.push(dialect.formatTools(tools.map(t => ({ name: t.name, description: t.description, parameters: t.input_schema }))));
   }
   if (systemParts.length > 0) {
     prompt += `<|im_start|>system\n${systemParts.join('\n\n')}\n<|im_end|>\n`;
   }
 
   for (const msg of messages) {
-    const { text, images, observations } = extractContent(msg.content);
+    const { text, images, observations } = extractContent(msg.content, dialect);
     allImages.push(...images);
-    // Observation blocks (tool results) use <|observation|> role
+    // Tool results use the dialect's result role (<|observation|> for GLM)
     for (const obs of observations) {
-      prompt += `<|im_start|>observation\n${obs}\n<|im_end|>\n`;
+      prompt += `<|im_start|>${dialect.resultRole}\n${dialect.formatToolResult(obs)}\n<|im_end|>\n`;
     }
     if (text) {
       prompt += `<|im_start|>${msg.role}\n${text}\n<|im_end|>\n`;
@@ -14,7 +14,9 @@ import {
   buildToolUseBlockStart,
   buildInputJsonDelta,
 } from './sse';
-import { ToolCallParser } from './tool-parser';
+import { toolDialectRegistry, ToolDialect } from '@fabstir/sdk-core';
+import { toSamplingOptions, isSamplingError, SamplingOptions } from './sampling';
+import { getClientId, isPoolBusyError, clientDisconnectSignal } from '@fabstir/bridge-common';
 import type { SessionBridge } from './session-bridge';
 
 const DEBUG = !!process.env.BRIDGE_DEBUG;
@@ -63,6 +65,13 @@ function sendError(res: ServerResponse, status: number, errorType: string, messa
   res.end(JSON.stringify({ type: 'error', error: { type: errorType, message } }));
 }
 
+function sendPoolBusy(res: ServerResponse, retryAfter: number): void {
+  res.writeHead(429, { 'Content-Type': 'application/json', 'retry-after': String(retryAfter) });
+  res.end(JSON.stringify({
+    type: 'error', error: { type: 'rate_limit_error', message: `All sessions are busy. Retry after ${retryAfter}s.` },
+  }));
+}
+
 export async function handleMessages(
   req: IncomingMessage,
   res: ServerResponse,
@@ -90,6 +99,21 @@ export async function handleMessages(
     return;
   }
 
+  // Without a model the bridge's default model answers
+  const fabstirModel = body.model ? await bridge.resolveModel(body.model) : undefined;
+  if (body.model && !fabstirModel) {
+    sendError(res, 404, 'not_found_error', `model: ${body.model}`);
+    return;
+  }
+
+  let sampling: SamplingOptions;
+  try {
+    sampling = toSamplingOptions(body);
+  } catch (err: any) {
+    sendError(res, 400, 'invalid_request_error', `Invalid sampling parameters: ${err.message}`);
+    return;
+  }
+
   // Claude Code may send system as array of content blocks (for prompt caching)
   let systemText: string | undefined = undefined;
   if (typeof body.system === 'string') {
@@ -98,10 +122,11 @@ export async function handleMessages(
     systemText = (body.system as any[]).filter(b => b.type === 'text').map(b => b.text).join('\n');
   }
 
+  const dialect = bridge.getToolDialect?.(fabstirModel) ?? toolDialectRegistry.resolve();
   let prompt: string;
   let images: any[];
   try {
-    const converted = convertMessages(body.messages, systemText, body.tools);
+    const converted = convertMessages(body.messages, systemText, body.tools, dialect);
     prompt = converted.prompt;
     images = converted.images;
   } catch (err: any) {
@@ -117,21 +142,39 @@ export async function handleMessages(
   const tools = body.tools && body.tools.length > 0 ? body.tools : undefined;
 
   const maxTokens = body.max_tokens;
+  const target = { fabstirModel, clientId: getClientId(req, body.metadata?.user_id), signal: clientDisconnectSignal(res) };
+
+  // Backpressure: answer 429 before starting SSE when the session pool cannot take the request
+  const retryAfter = bridge.getRetryAfter?.(fabstirModel);
+  if (retryAfter !== undefined) {
+    sendPoolBusy(res, retryAfter);
+    return;
+  }
 
   if (body.stream === true) {
-    await handleStreaming(res, bridge, prompt, images, inputTokens, model, maxTokens, tools);
+    await handleStreaming(res, bridge, prompt, images, sampling, inputTokens, model, target, maxTokens, dialect, tools);
   } else {
-    await handleNonStreaming(res, bridge, prompt, images, inputTokens, model, tools);
+    await handleNonStreaming(res, bridge, prompt, images, sampling, inputTokens, model, target, dialect, tools);
   }
 }
 
+/**
+ * Session the prompt runs on: resolved model (bridge default when undefined), pool affinity key, and the
+ * client disconnect signal that gives up a queued request's place
+ */
+interface PromptTarget {
+  fabstirModel?: string;
+  clientId?: string;
+  signal?: AbortSignal;
+}
+
 async function handleNonStreaming(
-  res: ServerResponse, bridge: SessionBridge, prompt: string,
-  images: any[], inputTokens: number, model: string, tools?: AnthropicTool[]
+  res: ServerResponse, bridge: SessionBridge, prompt: string, images: any[], sampling: SamplingOptions,
+  inputTokens: number, model: string, target: PromptTarget, dialect: ToolDialect, tools?: AnthropicTool[]
 ): Promise<void> {
   try {
-    const opts = images.length > 0 ? { images } : undefined;
-    const { response, tokenUsage } = await bridge.sendPrompt(prompt, undefined, opts);
+    const opts = { ...(images.length > 0 ? { images } : {}), ...sampling };
+    const { response, tokenUsage } = await bridge.sendPrompt(prompt, undefined, opts, target.fabstirModel, target.clientId, target.signal);
     debug('Non-streaming full response:', JSON.stringify(response));
     const cleanResponse = stripThinkFromText(response);
     const outputTokens = tokenUsage?.llmTokens || 0;
@@ -140,7 +183,7 @@ async function handleNonStreaming(
     let stopReason = 'end_turn';
 
     if (tools) {
-      const parser = new ToolCallParser();
+      const parser = dialect.createParser();
       const events = [...parser.feed(cleanResponse), ...parser.flush()];
       content = [];
       for (const evt of events) {
@@ -149,8 +192,6 @@ async function handleNonStreaming(
         } else if (evt.type === 'tool_call') {
           content.push({ type: 'tool_use', id: generateToolUseId(), name: evt.name, input: evt.arguments });
           stopReason = 'tool_use';
-        } else if (evt.type === 'error') {
-          content.push({ type: 'text', text: evt.rawContent });
         }
       }
       if (content.length === 0) content.push({ type: 'text', text: cleanResponse });
@@ -167,13 +208,22 @@ async function handleNonStreaming(
     res.end(JSON.stringify(result));
   } catch (err: any) {
     console.error('[BridgeHandler] Non-streaming error:', err.stack || err);
+    if (isSamplingError(err)) {
+      sendError(res, 400, 'invalid_request_error', err.message);
+      return;
+    }
+    if (isPoolBusyError(err)) {
+      sendPoolBusy(res, err.retryAfter);
+      return;
+    }
     sendError(res, 500, 'api_error', err.message || 'Internal error');
   }
 }
 
 async function handleStreaming(
-  res: ServerResponse, bridge: SessionBridge, prompt: string,
-  images: any[], inputTokens: number, model: string, maxTokens: number, tools?: AnthropicTool[]
+  res: ServerResponse, bridge: SessionBridge, prompt: string, images: any[], sampling: SamplingOptions,
+  inputTokens: number, model: string, target: PromptTarget, maxTokens: number, dialect: ToolDialect,
+  tools?: AnthropicTool[]
 ): Promise<void> {
   const msgId = generateMessageId();
   res.writeHead(200, {
@@ -187,7 +237,7 @@ async function handleStreaming(
   write(buildContentBlockStart(0));
 
   try {
-    const opts = images.length > 0 ? { images } : undefined;
+    const opts = { ...(images.length > 0 ? { images } : {}), ...sampling };
     let hasToolUse = false;
     let blockIndex = 0;
     let textBlockOpen = true; // We just opened text block at index 0
@@ -198,7 +248,7 @@ async function handleStreaming(
     const stripThink = createThinkStripper();
 
     if (tools) {
-      const parser = new ToolCallParser();
+      const parser = dialect.createParser();
       const processEvents = (events: any[]) => {
         for (const evt of events) {
           if (evt.type === 'text') {
@@ -219,12 +269,6 @@ async function handleStreaming(
             write(buildContentBlockStop(blockIndex));
             hasToolUse = true;
             blockIndex++;
-          } else if (evt.type === 'error') {
-            if (!textBlockOpen) {
-              write(buildContentBlockStart(blockIndex));
-              textBlockOpen = true;
-            }
-            write(buildContentBlockDelta(blockIndex, evt.rawContent));
           }
         }
       };
@@ -244,7 +288,7 @@ async function handleStreaming(
         debug('Parser events:', events.map(e => e.type).join(',') || '(none)');
         processEvents(events);
       };
-      const { tokenUsage } = await bridge.sendPrompt(prompt, onToken, opts);
+      const { tokenUsage } = await bridge.sendPrompt(prompt, onToken, opts, target.fabstirModel, target.clientId, target.signal);
       const flushEvents = parser.flush();
       debug('Flush events:', flushEvents.map(e => e.type).join(',') || '(none)');
       processEvents(flushEvents);
@@ -267,7 +311,7 @@ async function handleStreaming(
         }
         write(buildContentBlockDelta(0, cleaned));
       };
-      const { tokenUsage } = await bridge.sendPrompt(prompt, onToken, opts);
+      const { tokenUsage } = await bridge.sendPrompt(prompt, onToken, opts, target.fabstirModel, target.clientId, target.signal);
       const outputTokens = tokenUsage?.llmTokens || 0;
       write(buildContentBlockStop(0));
       write(buildMessageDelta('end_turn', outputTokens));
@@ -277,7 +321,7 @@ async function handleStreaming(
     res.end();
   } catch (err: any) {
     console.error('[BridgeHandler] Streaming error:', err.stack || err);
-    write(buildErrorEvent('api_error', err.message || 'Internal error'));
+    write(buildErrorEvent(isSamplingError(err) ? 'invalid_request_error' : 'api_error', err.message || 'Internal error'));
     res.end();
   }
 }
@@ -4,9 +4,10 @@ import WebSocket from 'ws';
 
 import { config as dotenvConfig } from 'dotenv';
 import { Command } from 'commander';
-import { validateConfig, loadConfigFromEnv, DEFAULT_PORT, DEFAULT_CHAIN_ID, DEFAULT_DEPOSIT_AMOUNT } from './config';
+import { validateConfig, loadConfigFromEnv, parseModelAliases, DEFAULT_PORT, DEFAULT_CHAIN_ID, DEFAULT_DEPOSIT_AMOUNT } from './config';
 import { SessionBridge } from './session-bridge';
 import { BridgeServer } from './server';
+import { ApiKeyStore, UsageLedger } from '@fabstir/bridge-common';
 
 const program = new Command();
 program
@@ -17,12 +18,21 @@ program
   .option('--private-key <key>', 'Ethereum private key (or CLAUDE_BRIDGE_PRIVATE_KEY)')
   .option('--host <address>', 'Host node address (optional — auto-discovered if omitted)')
   .option('--host-url <url>', 'Host node endpoint URL (auto-discovered if omitted)')
-  .option('--model <name>', 'Model string (or CLAUDE_BRIDGE_MODEL)')
+  .option('--hosts <list>', 'Comma-separated host addresses the session pool rotates over (or CLAUDE_BRIDGE_HOSTS)')
+  .option('--pool-size <number>', 'Concurrent sessions per model (or CLAUDE_BRIDGE_POOL_SIZE)')
+  .option('--max-queue <number>', 'Queued requests before answering 429 (or CLAUDE_BRIDGE_MAX_QUEUE)')
+  .option('--queue-timeout <seconds>', 'Seconds a queued request waits for a session before 429 (or CLAUDE_BRIDGE_QUEUE_TIMEOUT)')
+  .option('--model <name>', 'Default model string (or CLAUDE_BRIDGE_MODEL)')
+  .option('--model-aliases <list>', 'Client model names, e.g. claude-sonnet-4-5=repo:file (or CLAUDE_BRIDGE_MODEL_ALIASES)')
   .option('--chain-id <number>', 'Chain ID', String(DEFAULT_CHAIN_ID))
   .option('--deposit <amount>', 'Deposit amount in ETH', DEFAULT_DEPOSIT_AMOUNT)
   .option('--rpc-url <url>', 'Override RPC URL')
   .option('--env-file <path>', 'Path to .env file', '.env.test')
   .option('--api-key <key>', 'Require x-api-key from clients')
+  .option('--key-store <path>', 'JSON file of tenant API keys with quotas and limits (or CLAUDE_BRIDGE_KEY_STORE)')
+  .option('--usage-ledger <path>', 'Usage ledger file (default: usage.jsonl next to the key store)')
+  .option('--admin-key <key>', 'Enable /admin key management with x-api-key: <key> (or CLAUDE_BRIDGE_ADMIN_KEY)')
+  .option('--tool-dialect <name>', 'Tool call format: glm, hermes, qwen, llama3, mistral (default: from --model)')
   .action(async (opts) => {
     dotenvConfig({ path: opts.envFile });
     const envConfig = loadConfigFromEnv();
@@ -31,18 +41,31 @@ program
       port: parseInt(opts.port, 10),
       privateKey: opts.privateKey || envConfig.privateKey,
       hostAddress: opts.host || envConfig.hostAddress,
+      hostAddresses: opts.hosts ? opts.hosts.split(',').map((h: string) => h.trim()).filter(Boolean) : envConfig.hostAddresses,
+      poolSize: opts.poolSize ? parseInt(opts.poolSize, 10) : envConfig.poolSize,
+      maxQueueDepth: opts.maxQueue ? parseInt(opts.maxQueue, 10) : envConfig.maxQueueDepth,
+      queueTimeout: opts.queueTimeout ? parseFloat(opts.queueTimeout) : envConfig.queueTimeout,
       modelName: opts.model || envConfig.modelName,
       chainId: parseInt(opts.chainId, 10),
       depositAmount: opts.deposit,
       rpcUrl: opts.rpcUrl || envConfig.rpcUrl,
       apiKey: opts.apiKey || envConfig.apiKey,
+      keyStorePath: opts.keyStore || envConfig.keyStorePath,
+      usageLedgerPath: opts.usageLedger || envConfig.usageLedgerPath,
+      adminKey: opts.adminKey || envConfig.adminKey,
+      toolDialect: opts.toolDialect || envConfig.toolDialect,
+      modelAliases: opts.modelAliases ? parseModelAliases(opts.modelAliases) : envConfig.modelAliases,
     });
 
     const bridge = new SessionBridge(config);
     console.log('Initializing SDK...');
     await bridge.initialize();
 
-    const server = new BridgeServer(config.port, bridge, config.apiKey);
+    const ledger = config.usageLedgerPath ? new UsageLedger(config.usageLedgerPath) : undefined;
+    const tenants = config.keyStorePath
+      ? { keys: new ApiKeyStore(config.keyStorePath, ledger), ledger, adminKey: config.adminKey }
+      : undefined;
+    const server = new BridgeServer(config.port, bridge, config.apiKey, tenants);
     await server.start();
     const port = server.getPort();
     console.log(`\nClaude Bridge running on http://localhost:${port}`);
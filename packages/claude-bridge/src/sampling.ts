@@ -0,0 +1,44 @@
+// Sampling — maps Anthropic Messages request sampling fields to SDK prompt options
+
+import type { AnthropicRequest } from './types';
+
+/** Sampling fields of PromptOptions in @fabstir/sdk-core */
+export interface SamplingOptions {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  topK?: number;
+  stop?: string[];
+}
+
+/**
+ * Convert the sampling fields of a Messages request to SDK options; absent fields are left out.
+ * Throws on fields of the wrong type; value ranges and host support are checked by the SDK.
+ */
+export function toSamplingOptions(body: AnthropicRequest): SamplingOptions {
+  const options: SamplingOptions = { maxTokens: body.max_tokens };
+  const numbers: Array<[keyof SamplingOptions, 'temperature' | 'top_p' | 'top_k']> = [
+    ['temperature', 'temperature'], ['topP', 'top_p'], ['topK', 'top_k'],
+  ];
+
+  for (const [option, field] of numbers) {
+    const value = body[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number') throw new Error(`${field} must be a number`);
+    (options as any)[option] = value;
+  }
+
+  if (body.stop_sequences !== undefined && body.stop_sequences !== null) {
+    if (!Array.isArray(body.stop_sequences) || body.stop_sequences.some(s => typeof s !== 'string')) {
+      throw new Error('stop_sequences must be an array of strings');
+    }
+    if (body.stop_sequences.length > 0) options.stop = body.stop_sequences;
+  }
+
+  return options;
+}
+
+/** SDK error codes for sampling options the SDK or the host rejects */
+export function isSamplingError(err: any): boolean {
+  return err?.code === 'INVALID_SAMPLING_OPTIONS' || err?.code === 'SAMPLING_NOT_SUPPORTED';
+}
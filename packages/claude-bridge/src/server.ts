@@ -1,18 +1,49 @@
 import http from 'http';
 import { handleMessages } from './handler';
+import {
+  AdminFormat, ApiKeyError, ApiKeyRecord, ApiKeyStore, UsageLedger, handleAdmin, isApiKeyError, secretsMatch,
+} from '@fabstir/bridge-common';
 import type { SessionBridge } from './session-bridge';
 
+/** Tenant keys: each request is checked and metered against its key; adminKey enables /admin */
+export interface TenantOptions {
+  keys: ApiKeyStore;
+  ledger?: UsageLedger;
+  adminKey?: string;
+}
+
+/** /admin bodies in Anthropic's error and list shapes */
+const ADMIN_FORMAT: AdminFormat = {
+  error: (type, message) => ({ type: 'error', error: { type, message } }),
+  list: (keys) => ({ data: keys }),
+};
+
+function apiKeyHeader(req: http.IncomingMessage): string {
+  const key = req.headers['x-api-key'];
+  return typeof key === 'string' ? key : '';
+}
+
+function sendKeyDenied(res: http.ServerResponse, err: ApiKeyError): void {
+  const limited = err.reason === 'rate_limited' || err.reason === 'quota_exceeded';
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (err.retryAfter !== undefined) headers['retry-after'] = String(err.retryAfter);
+  res.writeHead(limited ? 429 : 401, headers);
+  res.end(JSON.stringify({ type: 'error', error: { type: limited ? 'rate_limit_error' : 'authentication_error', message: err.message } }));
+}
+
 export class BridgeServer {
   private server?: http.Server;
   private port: number;
   private bridge: SessionBridge;
   private apiKey?: string;
+  private tenants?: TenantOptions;
   private actualPort = 0;
 
-  constructor(port: number, bridge: SessionBridge, apiKey?: string) {
+  constructor(port: number, bridge: SessionBridge, apiKey?: string, tenants?: TenantOptions) {
     this.port = port;
     this.bridge = bridge;
     this.apiKey = apiKey;
+    this.tenants = tenants;
   }
 
   async start(): Promise<void> {
@@ -33,6 +64,7 @@ export class BridgeServer {
   async stop(): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.server) return resolve();
+      this.tenants?.keys.flush(); // Usage recorded since the last batched save
       this.server.close((err) => (err ? reject(err) : resolve()));
       this.server = undefined;
     });
@@ -56,10 +88,43 @@ export class BridgeServer {
       return;
     }
 
-    // Health check
+    // Health check, with session pool metrics
     if (url === '/health' && method === 'GET') {
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ status: 'ok' }));
+      res.end(JSON.stringify({ status: 'ok', pool: this.bridge.getPoolMetrics?.() }));
+      return;
+    }
+
+    // Admin endpoints: only with tenant keys and an admin key
+    if (url.startsWith('/admin/') && this.tenants?.adminKey) {
+      if (!secretsMatch(apiKeyHeader(req), this.tenants.adminKey)) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ type: 'error', error: { type: 'authentication_error', message: 'Invalid admin key' } }));
+        return;
+      }
+      handleAdmin(req, res, ADMIN_FORMAT, this.tenants.keys, this.tenants.ledger).catch((err) => {
+        console.error('[BridgeServer] Admin request failed:', err);
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ type: 'error', error: { type: 'api_error', message: 'Internal server error' } }));
+        }
+      });
+      return;
+    }
+
+    // Models list: discovered models and aliases (those a tenant key allows)
+    if (url === '/v1/models' && method === 'GET') {
+      const key = this.findKey(apiKeyHeader(req));
+      const bridge = key ? this.tenants!.keys.meter(this.bridge, key, url) : this.bridge;
+      bridge.listModels().then((ids) => {
+        const data = ids.map(id => ({ type: 'model', id, display_name: id }));
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ data, has_more: false, first_id: ids[0] ?? null, last_id: ids[ids.length - 1] ?? null }));
+      }).catch((err) => {
+        console.error('[BridgeServer] Model listing failed:', err);
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ type: 'error', error: { type: 'api_error', message: 'Model listing failed' } }));
+      });
       return;
     }
 
@@ -71,17 +136,28 @@ export class BridgeServer {
         return;
       }
 
-      // API key check
-      if (this.apiKey) {
-        const key = req.headers['x-api-key'];
-        if (key !== this.apiKey) {
-          res.writeHead(403, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ type: 'error', error: { type: 'authentication_error', message: 'Invalid API key' } }));
+      // API key check: the shared apiKey stays unrestricted; tenant keys are checked, then metered
+      const token = apiKeyHeader(req);
+      let bridge = this.bridge;
+      if (this.apiKey && secretsMatch(token, this.apiKey)) {
+        // Shared key
+      } else if (this.tenants) {
+        try {
+          const key = this.tenants.keys.authenticate(token);
+          this.tenants.keys.admit(key);
+          bridge = this.tenants.keys.meter(this.bridge, key, url);
+        } catch (err) {
+          if (!isApiKeyError(err)) throw err;
+          sendKeyDenied(res, err);
           return;
         }
+      } else if (this.apiKey) {
+        res.writeHead(403, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ type: 'error', error: { type: 'authentication_error', message: 'Invalid API key' } }));
+        return;
       }
 
-      handleMessages(req, res, this.bridge).catch((err) => {
+      handleMessages(req, res, bridge).catch((err) => {
         console.error('[BridgeServer] Unhandled error:', err);
         if (!res.headersSent) {
           res.writeHead(500, { 'Content-Type': 'application/json' });
@@ -95,4 +171,14 @@ export class BridgeServer {
     res.writeHead(404, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({ type: 'error', error: { type: 'not_found_error', message: 'Not found' } }));
   }
+
+  /** Valid tenant key for a token, if any (model listing is filtered for it but stays open without one) */
+  private findKey(token: string): ApiKeyRecord | undefined {
+    if (!this.tenants || !token) return undefined;
+    try {
+      return this.tenants.keys.authenticate(token);
+    } catch {
+      return undefined;
+    }
+  }
 }
@@ -2,24 +2,28 @@ import 'fake-indexeddb/auto';
 import WebSocket from 'ws';
 (globalThis as any).WebSocket = WebSocket;
 
-import { FabstirSDKCore, ChainRegistry, ChainId } from '@fabstir/sdk-core';
+import { FabstirSDKCore, ChainRegistry, ChainId, toolDialectRegistry, ToolDialect } from '@fabstir/sdk-core';
 import { BridgeConfig } from './config';
+import { SessionPool, PoolSlot, PoolMetrics } from '@fabstir/bridge-common';
 
 export interface SendPromptResult {
   response: string;
-  tokenUsage?: { llmTokens: number; vlmTokens: number; totalTokens: number };
+  tokenUsage?: { llmTokens: number; vlmTokens: number; totalTokens: number; promptTokens?: number; cost?: bigint };
 }
 
 export class SessionBridge {
   private config: BridgeConfig;
   private sdk?: FabstirSDKCore;
   private sessionManager?: any;
-  private sessionId?: bigint;
-  private queue: Array<{ execute: () => Promise<void> }> = [];
-  private processing = false;
+  private pool: SessionPool; // Sessions per Fabstir model string, opened on first use
+  private availableModels?: { models: string[]; fetchedAt: number };
+  private static MODELS_CACHE_MS = 60000;
 
   constructor(config: BridgeConfig) {
     this.config = config;
+    this.pool = new SessionPool({
+      maxSessions: config.poolSize, maxQueueDepth: config.maxQueueDepth, queueTimeoutMs: config.queueTimeout * 1000,
+    });
   }
 
   async initialize(): Promise<void> {
@@ -42,13 +46,70 @@ export class SessionBridge {
       );
       console.log(`[SessionBridge] Endpoint localhost override: ${localhostOverride}`);
     }
+
+    // Model discovery needs host lookups (sdk-core does not wire this automatically)
+    this.sdk.getModelManager().setHostManager(this.sdk.getHostManager());
+  }
+
+  /** Approved models with at least one host, as `repo:file` strings; cached for a minute */
+  async getAvailableModels(): Promise<string[]> {
+    const cached = this.availableModels;
+    if (cached && Date.now() - cached.fetchedAt < SessionBridge.MODELS_CACHE_MS) return cached.models;
+    let models: string[];
+    try {
+      const discovered = await this.sdk!.getModelManager().getAvailableModelsWithHosts();
+      models = discovered
+        .filter((m: any) => m.isAvailable)
+        .map((m: any) => `${m.model.huggingfaceRepo}:${m.model.fileName}`);
+    } catch (err: any) {
+      console.error(`[SessionBridge] Model discovery failed, serving ${this.config.modelName} only: ${err.message}`);
+      models = [];
+    }
+    if (!models.includes(this.config.modelName)) models.unshift(this.config.modelName);
+    this.availableModels = { models, fetchedAt: Date.now() };
+    return models;
+  }
+
+  /** Model ids for /v1/models: available models, then aliases that point at one of them */
+  async listModels(): Promise<string[]> {
+    const models = await this.getAvailableModels();
+    const aliases = Object.entries(this.config.modelAliases || {})
+      .filter(([alias, target]) => alias !== '*' && models.includes(target) && !models.includes(alias))
+      .map(([alias]) => alias);
+    return [...models, ...aliases];
+  }
+
+  /**
+   * Fabstir model string for a requested model or alias; undefined when it is not served.
+   * A `*` alias opts in to a catch-all for other client model names (claude-* names from Claude Code);
+   * a Fabstir `repo:file` id is never redirected.
+   */
+  async resolveModel(requested: string): Promise<string | undefined> {
+    const aliases = this.config.modelAliases || {};
+    const models = await this.getAvailableModels();
+    const model = aliases[requested] ?? requested;
+    if (models.includes(model)) return model;
+    const fallback = aliases['*'];
+    if (!fallback || requested in aliases || requested.includes(':')) return undefined;
+    return models.includes(fallback) ? fallback : undefined;
   }
 
-  async ensureSession(): Promise<bigint> {
-    if (this.sessionId !== undefined) return this.sessionId;
+  /** Session of the model's first pool slot, opened if needed; used without a lease (direct session access) */
+  async ensureSession(model: string = this.config.modelName): Promise<bigint> {
+    return this.openSession(this.pool.primarySlot(model));
+  }
+
+  private openSession(slot: PoolSlot): Promise<bigint> {
+    if (slot.sessionId !== undefined) return Promise.resolve(slot.sessionId);
+    slot.opening ??= this.startSession(slot).finally(() => { slot.opening = undefined; });
+    return slot.opening;
+  }
+
+  private async startSession(slot: PoolSlot): Promise<bigint> {
+    const model = slot.model;
     const sessionConfig: Record<string, any> = {
       chainId: this.config.chainId,
-      modelId: this.config.modelName,
+      modelId: model,
       paymentMethod: 'deposit' as const,
       depositAmount: this.config.depositAmount,
       pricePerToken: this.config.pricePerToken,
@@ -56,26 +117,41 @@ export class SessionBridge {
       duration: this.config.duration,
       encryption: true,
     };
-    if (this.config.hostAddress) {
-      sessionConfig.host = this.config.hostAddress;
+    // Configured hosts serve the default model (pool slots take turns); other models use host discovery
+    const hosts = this.config.hostAddresses?.length ? this.config.hostAddresses
+      : this.config.hostAddress ? [this.config.hostAddress] : [];
+    if (hosts.length > 0 && model === this.config.modelName) {
+      sessionConfig.host = hosts[slot.index % hosts.length];
     }
     const { sessionId } = await this.sessionManager.startSession(sessionConfig);
-    this.sessionId = sessionId;
+    slot.sessionId = sessionId;
     return sessionId;
   }
 
+  /**
+   * Runs on an idle pooled session of the model; throws PoolBusyError when the pool and its queue are
+   * full or no session frees up in time. A queued request gives up its place when signal aborts.
+   */
   async sendPrompt(
     prompt: string,
     onToken?: (token: string) => void,
-    options?: any
+    options?: any,
+    model: string = this.config.modelName,
+    clientId?: string,
+    signal?: AbortSignal
   ): Promise<SendPromptResult> {
-    return this.enqueue(() => this.doSendPrompt(prompt, onToken, options));
+    const slot = await this.pool.acquire(model, clientId, signal);
+    try {
+      return await this.doSendPrompt(slot, prompt, onToken, options);
+    } finally {
+      this.pool.release(slot);
+    }
   }
 
   private async doSendPrompt(
-    prompt: string, onToken?: (token: string) => void, options?: any
+    slot: PoolSlot, prompt: string, onToken: ((token: string) => void) | undefined, options: any
   ): Promise<SendPromptResult> {
-    const sessionId = await this.ensureSession();
+    const sessionId = await this.openSession(slot);
     try {
       const response = await this.sessionManager.sendPromptStreaming(sessionId, prompt, onToken, options);
       const tokenUsage = this.sessionManager.getLastTokenUsage(sessionId);
@@ -87,8 +163,8 @@ export class SessionBridge {
         || msg.includes('SESSION_NOT_FOUND') || msg.includes('SESSION_NOT_ACTIVE');
       if (!isSessionErr) throw err;
       // Auto-recovery: clear session and retry once
-      this.sessionId = undefined;
-      const newId = await this.ensureSession();
+      slot.sessionId = undefined;
+      const newId = await this.openSession(slot);
       const response = await this.sessionManager.sendPromptStreaming(newId, prompt, onToken, options);
       const tokenUsage = this.sessionManager.getLastTokenUsage(newId);
       return { response, tokenUsage };
@@ -96,30 +172,23 @@ export class SessionBridge {
   }
 
   async shutdown(): Promise<void> {
-    if (this.sessionId !== undefined && this.sessionManager) {
-      try { await this.sessionManager.endSession(this.sessionId); } catch { /* best-effort */ }
-      this.sessionId = undefined;
+    for (const slot of this.pool.drain()) {
+      try { await this.sessionManager?.endSession(slot.sessionId); } catch { /* best-effort */ }
     }
     this.sdk = undefined;
     this.sessionManager = undefined;
   }
 
-  private enqueue<T>(fn: () => Promise<T>): Promise<T> {
-    return new Promise<T>((resolve, reject) => {
-      this.queue.push({
-        execute: async () => { try { resolve(await fn()); } catch (e) { reject(e); } },
-      });
-      this.processQueue();
-    });
+  getToolDialect(model: string = this.config.modelName): ToolDialect {
+    return toolDialectRegistry.resolve(model, this.config.toolDialect);
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.processing) return;
-    this.processing = true;
-    while (this.queue.length > 0) {
-      const item = this.queue.shift()!;
-      await item.execute();
-    }
-    this.processing = false;
+  /** Seconds a client should wait when a request for the model would be rejected now; undefined otherwise */
+  getRetryAfter(model: string = this.config.modelName): number | undefined {
+    return this.pool.retryAfterFor(model);
+  }
+
+  getPoolMetrics(): PoolMetrics {
+    return this.pool.getMetrics();
   }
 }
@@ -3,6 +3,7 @@ import {
   BridgeConfig,
   validateConfig,
   loadConfigFromEnv,
+  parseModelAliases,
   DEFAULT_PORT,
   DEFAULT_CHAIN_ID,
   DEFAULT_DEPOSIT_AMOUNT,
@@ -21,6 +22,23 @@ describe('BridgeConfig', () => {
     expect(DEFAULT_DEPOSIT_AMOUNT).toBe('0.0002');
   });
 
+  it('validateConfig applies pool defaults and rejects invalid pool limits', () => {
+    const config = validateConfig({ privateKey: '0xkey', modelName: 'test-model' });
+    expect(config.poolSize).toBe(4);
+    expect(config.maxQueueDepth).toBe(16);
+    expect(config.queueTimeout).toBe(60);
+    expect(() => validateConfig({ privateKey: '0xkey', modelName: 'test-model', poolSize: 1.5 })).toThrow('Invalid poolSize');
+    expect(() => validateConfig({ privateKey: '0xkey', modelName: 'test-model', maxQueueDepth: -1 })).toThrow('Invalid maxQueueDepth');
+    expect(() => validateConfig({ privateKey: '0xkey', modelName: 'test-model', queueTimeout: 0 })).toThrow('Invalid queueTimeout');
+  });
+
+  it('validateConfig places the usage ledger next to the key store and requires it for adminKey', () => {
+    const config = validateConfig({ privateKey: '0xkey', modelName: 'test-model', keyStorePath: '/data/keys.json' });
+    expect(config.usageLedgerPath).toBe('/data/usage.jsonl');
+    expect(() => validateConfig({ privateKey: '0xkey', modelName: 'test-model', adminKey: 'admin' }))
+      .toThrow('adminKey requires keyStorePath');
+  });
+
   it('validateConfig throws on missing privateKey', () => {
     expect(() =>
       validateConfig({ hostAddress: '0xabc', modelName: 'test-model' })
@@ -52,6 +70,7 @@ describe('BridgeConfig', () => {
       savedEnv.CLAUDE_BRIDGE_PORT = process.env.CLAUDE_BRIDGE_PORT;
       savedEnv.CLAUDE_BRIDGE_PRIVATE_KEY = process.env.CLAUDE_BRIDGE_PRIVATE_KEY;
       savedEnv.CLAUDE_BRIDGE_HOST = process.env.CLAUDE_BRIDGE_HOST;
+      savedEnv.CLAUDE_BRIDGE_MODEL_ALIASES = process.env.CLAUDE_BRIDGE_MODEL_ALIASES;
     });
 
     afterEach(() => {
@@ -61,6 +80,8 @@ describe('BridgeConfig', () => {
       else process.env.CLAUDE_BRIDGE_PRIVATE_KEY = savedEnv.CLAUDE_BRIDGE_PRIVATE_KEY;
       if (savedEnv.CLAUDE_BRIDGE_HOST === undefined) delete process.env.CLAUDE_BRIDGE_HOST;
       else process.env.CLAUDE_BRIDGE_HOST = savedEnv.CLAUDE_BRIDGE_HOST;
+      if (savedEnv.CLAUDE_BRIDGE_MODEL_ALIASES === undefined) delete process.env.CLAUDE_BRIDGE_MODEL_ALIASES;
+      else process.env.CLAUDE_BRIDGE_MODEL_ALIASES = savedEnv.CLAUDE_BRIDGE_MODEL_ALIASES;
     });
 
     it('reads CLAUDE_BRIDGE_PORT, CLAUDE_BRIDGE_PRIVATE_KEY, CLAUDE_BRIDGE_HOST env vars', () => {
@@ -73,5 +94,13 @@ describe('BridgeConfig', () => {
       expect(config.privateKey).toBe('0xenvkey');
       expect(config.hostAddress).toBe('0xenvhost');
     });
+
+    it('reads CLAUDE_BRIDGE_MODEL_ALIASES as alias=model pairs', () => {
+      process.env.CLAUDE_BRIDGE_MODEL_ALIASES = 'claude-sonnet-4-5=Org/Big:big.gguf,claude-haiku-4-5=Org/Small:small.gguf';
+      expect(loadConfigFromEnv().modelAliases).toEqual({
+        'claude-sonnet-4-5': 'Org/Big:big.gguf', 'claude-haiku-4-5': 'Org/Small:small.gguf',
+      });
+      expect(() => parseModelAliases('=Org/Big:big.gguf')).toThrow('Invalid model alias');
+    });
   });
 });
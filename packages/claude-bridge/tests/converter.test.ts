@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { convertMessages, estimateInputTokens } from '../src/converter';
 import type { AnthropicMessage, AnthropicTool } from '../src/types';
+import { toolDialectRegistry } from '@fabstir/sdk-core';
 
 describe('convertMessages', () => {
   it('single user message produces correct ChatML', () => {
@@ -71,7 +72,7 @@ describe('convertMessages', () => {
     expect(images[0].format).toBe('jpeg');
   });
 
-  it('tool use blocks serialized as raw JSON', () => {
+  it('tool use blocks replayed in the tool call format', () => {
     const messages: AnthropicMessage[] = [
       {
         role: 'assistant',
@@ -81,9 +82,7 @@ describe('convertMessages', () => {
       },
     ];
     const { prompt } = convertMessages(messages);
-    expect(prompt).toContain('"name":"get_weather"');
-    expect(prompt).toContain('"arguments"');
-    expect(prompt).toContain('"city":"London"');
+    expect(prompt).toContain('<tool_call>get_weather<arg_key>city</arg_key><arg_value>London</arg_value></tool_call>');
   });
 
   it('tool result blocks formatted as observation', () => {
@@ -187,6 +186,25 @@ describe('convertMessages', () => {
   });
 });
 
+describe('convertMessages with a tool dialect', () => {
+  it('formats tools, tool_use history and tool results in the dialect', () => {
+    const messages: AnthropicMessage[] = [
+      { role: 'user', content: 'Weather?' },
+      { role: 'assistant', content: [{ type: 'tool_use', id: 'c1', name: 'get_weather', input: { city: 'Paris' } }] },
+      { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'c1', content: '{"temp": 20}' }] },
+    ];
+    const tools: AnthropicTool[] = [
+      { name: 'get_weather', description: 'Weather', input_schema: { type: 'object', properties: { city: { type: 'string' } } } },
+    ];
+    const { prompt } = convertMessages(messages, undefined, tools, toolDialectRegistry.get('qwen'));
+
+    expect(prompt).toContain('<tools>\n{"type":"function","function":{"name":"get_weather"');
+    expect(prompt).toContain('<|im_start|>assistant\n<tool_call>\n{"name":"get_weather","arguments":{"city":"Paris"}}\n</tool_call>');
+    expect(prompt).toContain('<|im_start|>user\n<tool_response>\n{"temp": 20}\n</tool_response>\n<|im_end|>');
+    expect(prompt).not.toContain('<arg_key>');
+  });
+});
+
 describe('estimateInputTokens', () => {
   it('estimateInputTokens("hello world") returns 3', () => {
     expect(estimateInputTokens('hello world')).toBe(3);
@@ -3,6 +3,7 @@ import { IncomingMessage, ServerResponse } from 'http';
 import { Readable } from 'stream';
 import { handleMessages } from '../src/handler';
 import type { SessionBridge, SendPromptResult } from '../src/session-bridge';
+import { toolDialectRegistry } from '@fabstir/sdk-core';
 
 function createMockBridge(overrides: Partial<SessionBridge> = {}): SessionBridge {
   return {
@@ -10,6 +11,7 @@ function createMockBridge(overrides: Partial<SessionBridge> = {}): SessionBridge
       response: 'Hello from host',
       tokenUsage: { llmTokens: 10, vlmTokens: 5, totalTokens: 15 },
     } as SendPromptResult),
+    resolveModel: vi.fn(async (model: string) => (model === 'unknown-model' ? undefined : model)),
     ...overrides,
   } as any;
 }
@@ -49,6 +51,7 @@ function createMockRes(): ServerResponse & { _body: string; _status: number; _he
       if (data) res._body += data;
     },
     flushHeaders() {},
+    on() {},
   };
   return res;
 }
@@ -293,6 +296,25 @@ describe('handler — streaming with tool_use', () => {
     expect(jsonDelta).toBeDefined();
   });
 
+  test('uses the bridge tool dialect for prompt and parsing', async () => {
+    const sendPrompt = vi.fn().mockImplementation(async (_p: string, onToken?: (t: string) => void) => {
+      onToken?.('<|python_tag|>{"name": "get_weather", ');
+      onToken?.('"parameters": {"city": "London"}}');
+      return { response: '', tokenUsage: { llmTokens: 5, vlmTokens: 0, totalTokens: 5 } } as SendPromptResult;
+    });
+    const bridge = createMockBridge({ sendPrompt, getToolDialect: () => toolDialectRegistry.get('llama3') });
+    const tools = [{ name: 'get_weather', description: 'Get weather', input_schema: { type: 'object' } }];
+    const req = createMockReq({ model: 'llama-3', max_tokens: 100, messages: [{ role: 'user', content: 'Weather?' }], stream: true, tools });
+    const res = createMockRes();
+    await handleMessages(req, res, bridge);
+    const events = parseAllSSE(res._body);
+    expect(sendPrompt.mock.calls[0][0]).toContain('Respond in the format {"name": function name, "parameters"');
+    const toolStart = events.find(e => e.type === 'content_block_start' && e.content_block?.type === 'tool_use');
+    expect(toolStart.content_block.name).toBe('get_weather');
+    const jsonDelta = events.find(e => e.delta?.type === 'input_json_delta');
+    expect(JSON.parse(jsonDelta.delta.partial_json)).toEqual({ city: 'London' });
+  });
+
   test('text before tool_call emitted as text block, then tool_use block', async () => {
     const bridge = createMockBridge({
       sendPrompt: vi.fn().mockImplementation(async (_p: string, onToken?: (t: string) => void) => {
@@ -592,3 +614,97 @@ describe('handler — output limit', () => {
     expect(msgDelta.delta.stop_reason).toBe('end_turn');
   });
 });
+
+describe('handler — sampling', () => {
+  test('passes max_tokens, temperature, top_p, top_k and stop_sequences to the SDK', async () => {
+    const bridge = createMockBridge();
+    const req = createMockReq({
+      model: 'glm-4', max_tokens: 256, temperature: 0.2, top_p: 0.9, top_k: 40, stop_sequences: ['</answer>'],
+      messages: [{ role: 'user', content: 'Hi' }],
+    });
+    const res = createMockRes();
+    await handleMessages(req, res, bridge);
+    expect((bridge.sendPrompt as any).mock.calls[0][2]).toEqual({
+      maxTokens: 256, temperature: 0.2, topP: 0.9, topK: 40, stop: ['</answer>'],
+    });
+  });
+
+  test('sampling field of the wrong type → 400', async () => {
+    const bridge = createMockBridge();
+    const req = createMockReq({ model: 'glm-4', max_tokens: 100, top_k: 'many', messages: [{ role: 'user', content: 'Hi' }] });
+    const res = createMockRes();
+    await handleMessages(req, res, bridge);
+    expect(res._status).toBe(400);
+    expect(JSON.parse(res._body).error.message).toBe('Invalid sampling parameters: top_k must be a number');
+    expect(bridge.sendPrompt).not.toHaveBeenCalled();
+  });
+
+  test('parameter rejected by the SDK → 400 invalid_request_error', async () => {
+    const bridge = createMockBridge({
+      sendPrompt: vi.fn().mockRejectedValue(Object.assign(
+        new Error('Host does not support sampling parameter(s): topK'), { code: 'SAMPLING_NOT_SUPPORTED' }
+      )),
+    });
+    const req = createMockReq({ model: 'glm-4', max_tokens: 100, top_k: 40, messages: [{ role: 'user', content: 'Hi' }] });
+    const res = createMockRes();
+    await handleMessages(req, res, bridge);
+    expect(res._status).toBe(400);
+    expect(JSON.parse(res._body).error.type).toBe('invalid_request_error');
+  });
+});
+
+describe('handleMessages — model routing', () => {
+  test('sends the prompt to the session of the resolved model and echoes the requested name', async () => {
+    const bridge = createMockBridge({ resolveModel: vi.fn().mockResolvedValue('Org/Model:model.gguf') });
+    const req = createMockReq({ model: 'claude-sonnet-4-5', max_tokens: 100, messages: [{ role: 'user', content: 'Hi' }] });
+    const res = createMockRes();
+    await handleMessages(req, res, bridge);
+    expect(bridge.resolveModel).toHaveBeenCalledWith('claude-sonnet-4-5');
+    expect((bridge.sendPrompt as any).mock.calls[0][3]).toBe('Org/Model:model.gguf');
+    expect(JSON.parse(res._body).model).toBe('claude-sonnet-4-5');
+  });
+
+  test('unknown model → 404 not_found_error', async () => {
+    const bridge = createMockBridge();
+    const req = createMockReq({ model: 'unknown-model', max_tokens: 100, messages: [{ role: 'user', content: 'Hi' }] });
+    const res = createMockRes();
+    await handleMessages(req, res, bridge);
+    expect(res._status).toBe(404);
+    expect(JSON.parse(res._body)).toEqual({
+      type: 'error', error: { type: 'not_found_error', message: 'model: unknown-model' },
+    });
+    expect(bridge.sendPrompt).not.toHaveBeenCalled();
+  });
+});
+
+describe('handleMessages — session pool backpressure', () => {
+  test('pool full → 429 rate_limit_error with retry-after before streaming', async () => {
+    const bridge = createMockBridge({ getRetryAfter: vi.fn(() => 3) });
+    const req = createMockReq({ model: 'glm-4', max_tokens: 100, stream: true, messages: [{ role: 'user', content: 'Hi' }] });
+    const res = createMockRes();
+    await handleMessages(req, res, bridge);
+    expect(res._status).toBe(429);
+    expect(res._headers['retry-after']).toBe('3');
+    expect(JSON.parse(res._body).error.type).toBe('rate_limit_error');
+    expect(bridge.sendPrompt).not.toHaveBeenCalled();
+  });
+
+  test('queued request rejected by the pool → 429', async () => {
+    const bridge = createMockBridge({
+      sendPrompt: vi.fn().mockRejectedValue(Object.assign(new Error('busy'), { code: 'POOL_BUSY', retryAfter: 5 })),
+    });
+    const req = createMockReq({ model: 'glm-4', max_tokens: 100, messages: [{ role: 'user', content: 'Hi' }] });
+    const res = createMockRes();
+    await handleMessages(req, res, bridge);
+    expect(res._status).toBe(429);
+    expect(res._headers['retry-after']).toBe('5');
+  });
+
+  test('metadata.user_id is the session affinity key', async () => {
+    const bridge = createMockBridge();
+    const req = createMockReq({ model: 'glm-4', max_tokens: 100, metadata: { user_id: 'user-1' }, messages: [{ role: 'user', content: 'Hi' }] });
+    const res = createMockRes();
+    await handleMessages(req, res, bridge);
+    expect((bridge.sendPrompt as any).mock.calls[0][4]).toBe('user-1');
+  });
+});
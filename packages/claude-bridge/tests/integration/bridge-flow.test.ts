@@ -24,6 +24,7 @@ function createMockBridge(overrides?: Partial<SessionBridge>): SessionBridge {
       onToken?.(' bridge');
       return { response: 'Hello from bridge', tokenUsage: { llmTokens: 3, vlmTokens: 0, totalTokens: 3 } } as SendPromptResult;
     }),
+    resolveModel: vi.fn(async (model: string) => model),
     ...overrides,
   } as any;
 }
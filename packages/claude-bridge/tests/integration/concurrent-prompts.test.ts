@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mockSdkInstance: any = {};
+
+// Real SessionManager; only the SDK bootstrap (wallet, contracts, discovery) is stubbed
+vi.mock('@fabstir/sdk-core', async (importOriginal) => ({
+  ...(await importOriginal<any>()),
+  FabstirSDKCore: vi.fn().mockImplementation(() => mockSdkInstance),
+  ChainRegistry: {
+    getChain: vi.fn().mockReturnValue({
+      rpcUrl: 'https://mock-rpc.example.com',
+      contracts: { jobMarketplace: '0xMockJob', nodeRegistry: '0xMockNode', paymentEscrow: '0xMockPay' },
+    }),
+  },
+}));
+
+import { SessionManager } from '@fabstir/sdk-core';
+import { SessionBridge } from '../../src/session-bridge';
+import { BridgeConfig } from '../../src/config';
+
+/** Stands in for a host: acks session_init, then streams chunks tagged with the session id */
+class FakeHostSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSED = 3;
+
+  readyState = FakeHostSocket.CONNECTING;
+  onopen?: () => void;
+  onmessage?: (event: { data: string }) => void;
+  onerror?: (error: any) => void;
+  onclose?: (event: any) => void;
+  private closeListeners: (() => void)[] = [];
+  private sessionId?: string;
+
+  constructor(readonly url: string) {
+    setTimeout(() => {
+      this.readyState = FakeHostSocket.OPEN;
+      this.onopen?.();
+    }, 1);
+  }
+
+  send(raw: string): void {
+    const message = JSON.parse(raw);
+    if (message.type === 'session_init') {
+      this.sessionId = message.session_id;
+      this.reply({ type: 'session_init_ack', session_id: this.sessionId });
+    } else if (message.type === 'prompt') {
+      const sessionId = this.sessionId;
+      ['a', 'b', 'c'].forEach((part, i) => {
+        setTimeout(() => this.reply({ type: 'stream_chunk', content: `${sessionId}${part} ` }), 10 * (i + 1));
+      });
+      setTimeout(() => this.reply({ type: 'stream_end', tokens_used: 3 }), 40);
+    }
+  }
+
+  addEventListener(event: string, listener: () => void): void {
+    if (event === 'close') this.closeListeners.push(listener);
+  }
+
+  close(): void {
+    this.readyState = FakeHostSocket.CLOSED;
+    this.closeListeners.forEach(listener => listener());
+    this.onclose?.({});
+  }
+
+  private reply(data: any): void {
+    if (this.readyState === FakeHostSocket.OPEN) this.onmessage?.({ data: JSON.stringify(data) });
+  }
+}
+
+const testConfig: BridgeConfig = {
+  port: 3456,
+  privateKey: '0xTestPrivateKey123',
+  modelName: 'TestOrg/TestModel:test.gguf',
+  chainId: 84532,
+  depositAmount: '0.0002',
+  pricePerToken: 5000,
+  proofInterval: 100,
+  duration: 86400,
+  poolSize: 2,
+  maxQueueDepth: 4,
+  queueTimeout: 60,
+};
+
+describe('Integration: concurrent pooled prompts', () => {
+  const bridgeWebSocket = (globalThis as any).WebSocket;
+  let sessionManager: any;
+
+  beforeEach(() => {
+    (globalThis as any).WebSocket = FakeHostSocket;
+    const paymentManager = { signer: { getAddress: vi.fn().mockResolvedValue('0xuser') } };
+    const storageManager = { appendMessage: vi.fn().mockResolvedValue(undefined) };
+    sessionManager = new SessionManager(paymentManager as any, storageManager as any);
+    sessionManager.initialized = true;
+    sessionManager.injectRAGContext = vi.fn(async (_id: string, prompt: string) => prompt);
+    // Opening a session on chain is out of scope: register a plaintext session per pool slot
+    let nextId = 0;
+    sessionManager.startSession = vi.fn(async (config: any) => {
+      const id = ++nextId;
+      sessionManager.sessions.set(String(id), {
+        sessionId: BigInt(id), jobId: BigInt(id), chainId: config.chainId, model: config.modelId,
+        provider: `0xhost${id}`, endpoint: `ws://host-${id}:8080/v1/ws`, status: 'active',
+        prompts: [], responses: [], checkpoints: [], totalTokens: 0, startTime: Date.now(), encryption: false,
+      });
+      return { sessionId: BigInt(id), jobId: BigInt(id) };
+    });
+    Object.assign(mockSdkInstance, {
+      authenticate: vi.fn(),
+      getSessionManager: () => sessionManager,
+      getModelManager: () => ({ setHostManager: vi.fn(), getAvailableModelsWithHosts: vi.fn().mockResolvedValue([]) }),
+      getHostManager: vi.fn(),
+    });
+  });
+
+  afterEach(() => {
+    (globalThis as any).WebSocket = bridgeWebSocket;
+  });
+
+  it('streams two overlapping prompts on their own pooled sessions without mixing tokens', async () => {
+    const bridge = new SessionBridge(testConfig);
+    await bridge.initialize();
+    const tokens: string[][] = [[], []];
+    const arrivals: string[] = [];
+    let firstStreaming!: () => void;
+    const streaming = new Promise<void>(resolve => { firstStreaming = resolve; });
+
+    // The second prompt starts while the first is mid-stream
+    const [first, second] = await Promise.all([
+      bridge.sendPrompt('one', (t) => { tokens[0].push(t); arrivals.push(t); firstStreaming(); }, undefined, undefined, 'alice'),
+      streaming.then(() =>
+        bridge.sendPrompt('two', (t) => { tokens[1].push(t); arrivals.push(t); }, undefined, undefined, 'bob')
+      ),
+    ]);
+
+    expect(first.response).toBe('1a 1b 1c ');
+    expect(second.response).toBe('2a 2b 2c ');
+    expect(tokens).toEqual([['1a ', '1b ', '1c '], ['2a ', '2b ', '2c ']]);
+    // Both streams ran at once rather than one being cut off and retried after the other
+    expect(arrivals.indexOf('2a ')).toBeLessThan(arrivals.indexOf('1c '));
+    expect(bridge.getPoolMetrics()).toMatchObject({ sessions: 2, busy: 0, served: 2 });
+  });
+});
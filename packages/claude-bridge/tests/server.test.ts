@@ -1,6 +1,10 @@
 import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
 import http from 'http';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { BridgeServer } from '../src/server';
+import { ApiKeyStore, UsageLedger } from '@fabstir/bridge-common';
 import type { SessionBridge, SendPromptResult } from '../src/session-bridge';
 
 function createMockBridge(): SessionBridge {
@@ -9,6 +13,8 @@ function createMockBridge(): SessionBridge {
       response: 'Test response',
       tokenUsage: { llmTokens: 5, vlmTokens: 0, totalTokens: 5 },
     } as SendPromptResult),
+    resolveModel: vi.fn(async (model: string) => model),
+    listModels: vi.fn().mockResolvedValue(['Org/Model:model.gguf', 'claude-sonnet-4-5']),
     initialize: vi.fn(),
     ensureSession: vi.fn(),
     shutdown: vi.fn(),
@@ -75,6 +81,27 @@ describe('BridgeServer', () => {
     expect(body.content[0].text).toBe('Test response');
   });
 
+  test('GET /health → includes session pool metrics from the bridge', async () => {
+    (bridge as any).getPoolMetrics = vi.fn().mockReturnValue({ sessions: 1, busy: 0, queued: 0 });
+    const res = await request(server.getPort(), 'GET', '/health');
+    expect(JSON.parse(res.body)).toEqual({ status: 'ok', pool: { sessions: 1, busy: 0, queued: 0 } });
+  });
+
+  test('GET /v1/models → discovered models and aliases', async () => {
+    const port = server.getPort();
+    const res = await request(port, 'GET', '/v1/models');
+    expect(res.status).toBe(200);
+    expect(JSON.parse(res.body)).toEqual({
+      data: [
+        { type: 'model', id: 'Org/Model:model.gguf', display_name: 'Org/Model:model.gguf' },
+        { type: 'model', id: 'claude-sonnet-4-5', display_name: 'claude-sonnet-4-5' },
+      ],
+      has_more: false,
+      first_id: 'Org/Model:model.gguf',
+      last_id: 'claude-sonnet-4-5',
+    });
+  });
+
   test('OPTIONS /v1/messages → 200 with CORS headers', async () => {
     const port = server.getPort();
     const res = await request(port, 'OPTIONS', '/v1/messages');
@@ -133,3 +160,81 @@ describe('BridgeServer — API key enforcement', () => {
     }
   });
 });
+
+describe('BridgeServer — tenant keys', () => {
+  let dir: string;
+  let keys: ApiKeyStore;
+  let bridge: SessionBridge;
+  let server: BridgeServer;
+  const message = { model: 'Org/Model:model.gguf', max_tokens: 100, messages: [{ role: 'user', content: 'Hi' }] };
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'claude-bridge-server-'));
+    const ledger = new UsageLedger(join(dir, 'usage.jsonl'));
+    keys = new ApiKeyStore(join(dir, 'keys.json'), ledger);
+    bridge = createMockBridge();
+    server = new BridgeServer(0, bridge, 'shared-key', { keys, ledger, adminKey: 'admin-key' });
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('meters tenant requests to the key and the ledger', async () => {
+    const { key, info } = keys.create({ name: 'team-a' });
+
+    const res = await request(server.getPort(), 'POST', '/v1/messages', message, { 'x-api-key': key });
+
+    expect(res.status).toBe(200);
+    expect(keys.get(info.id)!.usage.requests).toBe(1);
+    const csv = await request(server.getPort(), 'GET', '/admin/usage', undefined, { 'x-api-key': 'admin-key' });
+    expect(csv.body.trim().split('\n')[1]).toContain(`${info.id},team-a,/v1/messages,Org/Model:model.gguf`);
+  });
+
+  test('keeps the shared key unmetered and rejects unknown keys with 401', async () => {
+    expect((await request(server.getPort(), 'POST', '/v1/messages', message, { 'x-api-key': 'shared-key' })).status).toBe(200);
+
+    const res = await request(server.getPort(), 'POST', '/v1/messages', message, { 'x-api-key': 'fab-unknown' });
+    expect(res.status).toBe(401);
+    expect(JSON.parse(res.body)).toEqual({ type: 'error', error: { type: 'authentication_error', message: 'Invalid API key' } });
+  });
+
+  test('answers not_found_error for models outside the key allow-list', async () => {
+    const { key } = keys.create({ name: 'other-model', models: ['Org/Other:other.gguf'] });
+
+    const res = await request(server.getPort(), 'POST', '/v1/messages', message, { 'x-api-key': key });
+
+    expect(res.status).toBe(404);
+    expect(JSON.parse(res.body).error.type).toBe('not_found_error');
+    expect(bridge.sendPrompt).not.toHaveBeenCalled();
+  });
+
+  test('answers 429 rate_limit_error with retry-after when the key rate limit is reached', async () => {
+    const { key } = keys.create({ name: 'limited', requestsPerMinute: 1 });
+    await request(server.getPort(), 'POST', '/v1/messages', message, { 'x-api-key': key });
+
+    const res = await request(server.getPort(), 'POST', '/v1/messages', message, { 'x-api-key': key });
+
+    expect(res.status).toBe(429);
+    expect(res.headers['retry-after']).toBeDefined();
+    expect(JSON.parse(res.body).error.type).toBe('rate_limit_error');
+  });
+
+  test('manages keys through /admin with the admin key', async () => {
+    expect((await request(server.getPort(), 'GET', '/admin/keys', undefined, { 'x-api-key': 'shared-key' })).status).toBe(401);
+
+    const created = await request(server.getPort(), 'POST', '/admin/keys', { name: 'team-b', maxSpend: '1000' }, { 'x-api-key': 'admin-key' });
+    expect(created.status).toBe(201);
+    const { id, key } = JSON.parse(created.body);
+
+    const rotated = JSON.parse((await request(server.getPort(), 'POST', `/admin/keys/${id}/rotate`, undefined, { 'x-api-key': 'admin-key' })).body);
+    expect((await request(server.getPort(), 'POST', '/v1/messages', message, { 'x-api-key': key })).status).toBe(401);
+    expect((await request(server.getPort(), 'POST', '/v1/messages', message, { 'x-api-key': rotated.key })).status).toBe(200);
+
+    await request(server.getPort(), 'POST', `/admin/keys/${id}/revoke`, undefined, { 'x-api-key': 'admin-key' });
+    const list = JSON.parse((await request(server.getPort(), 'GET', '/admin/keys', undefined, { 'x-api-key': 'admin-key' })).body);
+    expect(list.data).toEqual([expect.objectContaining({ id, name: 'team-b', maxSpend: '1000', revokedAt: expect.any(String) })]);
+  });
+});
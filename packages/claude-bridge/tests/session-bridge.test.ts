@@ -8,6 +8,7 @@ const mockStartSession = vi.fn();
 const mockSendPromptStreaming = vi.fn();
 const mockEndSession = vi.fn();
 const mockGetLastTokenUsage = vi.fn();
+const mockGetAvailableModelsWithHosts = vi.fn();
 
 const mockSessionManager = {
   startSession: mockStartSession,
@@ -16,11 +17,22 @@ const mockSessionManager = {
   getLastTokenUsage: mockGetLastTokenUsage,
 };
 
+const mockModelManager = {
+  setHostManager: vi.fn(),
+  getAvailableModelsWithHosts: mockGetAvailableModelsWithHosts,
+};
+
 const mockSdkInstance = {
   authenticate: mockAuthenticate,
   getSessionManager: mockGetSessionManager,
+  getModelManager: () => mockModelManager,
+  getHostManager: vi.fn(),
 };
 
+const discovered = (repo: string, file: string, hostCount = 1) => ({
+  model: { huggingfaceRepo: repo, fileName: file }, hostCount, isAvailable: hostCount > 0,
+});
+
 vi.mock('@fabstir/sdk-core', () => ({
   FabstirSDKCore: vi.fn().mockImplementation(() => mockSdkInstance),
   ChainRegistry: {
@@ -50,6 +62,9 @@ const testConfig: BridgeConfig = {
   pricePerToken: 5000,
   proofInterval: 100,
   duration: 86400,
+  poolSize: 4,
+  maxQueueDepth: 16,
+  queueTimeout: 60,
 };
 
 describe('SessionBridge', () => {
@@ -59,6 +74,7 @@ describe('SessionBridge', () => {
     mockStartSession.mockResolvedValue({ sessionId: 42n, jobId: 1n });
     mockSendPromptStreaming.mockResolvedValue('Hello from node');
     mockGetLastTokenUsage.mockReturnValue({ llmTokens: 10, vlmTokens: 0, totalTokens: 10 });
+    mockGetAvailableModelsWithHosts.mockResolvedValue([]);
   });
 
   it('constructor stores config correctly', () => {
@@ -217,4 +233,133 @@ describe('SessionBridge', () => {
     const callArg = mockStartSession.mock.calls[0][0];
     expect(callArg.host).toBe('0xTestHost456');
   });
+
+  describe('multiple models', () => {
+    const aliasConfig: BridgeConfig = {
+      ...testConfig,
+      modelAliases: { 'claude-sonnet-4-5': 'OtherOrg/Other:other.gguf', 'claude-opus-4-1': 'Missing/Model:x.gguf' },
+    };
+
+    beforeEach(() => {
+      mockGetAvailableModelsWithHosts.mockResolvedValue([
+        discovered('TestOrg/TestModel', 'test.gguf'),
+        discovered('OtherOrg/Other', 'other.gguf'),
+        discovered('Idle/Model', 'idle.gguf', 0),
+      ]);
+    });
+
+    it('listModels() returns models with hosts and aliases that point at them', async () => {
+      const bridge = new SessionBridge(aliasConfig);
+      await bridge.initialize();
+
+      expect(await bridge.listModels()).toEqual([
+        'TestOrg/TestModel:test.gguf', 'OtherOrg/Other:other.gguf', 'claude-sonnet-4-5',
+      ]);
+      expect(mockModelManager.setHostManager).toHaveBeenCalled();
+    });
+
+    it('resolveModel() maps aliases and rejects models that are not served', async () => {
+      const bridge = new SessionBridge(aliasConfig);
+      await bridge.initialize();
+
+      expect(await bridge.resolveModel('claude-sonnet-4-5')).toBe('OtherOrg/Other:other.gguf');
+      expect(await bridge.resolveModel('Idle/Model:idle.gguf')).toBeUndefined();
+      expect(await bridge.resolveModel('claude-opus-4-1')).toBeUndefined();
+      expect(await bridge.resolveModel('claude-haiku-4-5')).toBeUndefined();
+    });
+
+    it('resolveModel() answers other Claude model names with a "*" alias but never redirects Fabstir ids', async () => {
+      const bridge = new SessionBridge({
+        ...aliasConfig, modelAliases: { ...aliasConfig.modelAliases, '*': testConfig.modelName },
+      });
+      await bridge.initialize();
+
+      expect(await bridge.resolveModel('claude-haiku-4-5')).toBe(testConfig.modelName);
+      expect(await bridge.resolveModel('claude-opus-4-1')).toBeUndefined();
+      expect(await bridge.resolveModel('Idle/Model:idle.gguf')).toBeUndefined();
+      expect(await bridge.listModels()).toEqual([
+        'TestOrg/TestModel:test.gguf', 'OtherOrg/Other:other.gguf', 'claude-sonnet-4-5',
+      ]);
+    });
+
+    it('listModels() falls back to the configured model when discovery fails', async () => {
+      mockGetAvailableModelsWithHosts.mockRejectedValue(new Error('HostManager not set'));
+      const bridge = new SessionBridge(testConfig);
+      await bridge.initialize();
+
+      expect(await bridge.listModels()).toEqual(['TestOrg/TestModel:test.gguf']);
+    });
+
+    it('sendPrompt() opens one session per model and shutdown() ends them all', async () => {
+      const bridge = new SessionBridge(aliasConfig);
+      await bridge.initialize();
+      mockStartSession.mockResolvedValueOnce({ sessionId: 42n }).mockResolvedValueOnce({ sessionId: 43n });
+
+      await bridge.sendPrompt('a');
+      await bridge.sendPrompt('b', undefined, undefined, 'OtherOrg/Other:other.gguf');
+      await bridge.sendPrompt('c', undefined, undefined, 'OtherOrg/Other:other.gguf');
+
+      expect(mockStartSession).toHaveBeenCalledTimes(2);
+      expect(mockStartSession.mock.calls[1][0].modelId).toBe('OtherOrg/Other:other.gguf');
+      expect(mockStartSession.mock.calls[1][0]).not.toHaveProperty('host');
+      expect(mockSendPromptStreaming.mock.calls.map(c => c[0])).toEqual([42n, 43n, 43n]);
+
+      await bridge.shutdown();
+      expect(mockEndSession).toHaveBeenCalledWith(42n);
+      expect(mockEndSession).toHaveBeenCalledWith(43n);
+    });
+  });
+
+  describe('session pool', () => {
+    it('sendPrompt() runs concurrent requests on separate sessions', async () => {
+      const bridge = new SessionBridge(testConfig);
+      await bridge.initialize();
+      mockStartSession.mockResolvedValueOnce({ sessionId: 42n }).mockResolvedValueOnce({ sessionId: 43n });
+      let running = 0;
+      let maxRunning = 0;
+      mockSendPromptStreaming.mockImplementation(async () => {
+        maxRunning = Math.max(maxRunning, ++running);
+        await new Promise(r => setTimeout(r, 5));
+        running--;
+        return 'ok';
+      });
+
+      await Promise.all([bridge.sendPrompt('a'), bridge.sendPrompt('b')]);
+
+      expect(maxRunning).toBe(2);
+      expect(bridge.getPoolMetrics()).toMatchObject({ sessions: 2, busy: 0, served: 2 });
+    });
+
+    it('sendPrompt() keeps a client on its session and rotates new sessions over the configured hosts', async () => {
+      const bridge = new SessionBridge({ ...testConfig, hostAddresses: ['0xHostA', '0xHostB'] });
+      await bridge.initialize();
+      mockStartSession.mockResolvedValueOnce({ sessionId: 42n }).mockResolvedValueOnce({ sessionId: 43n });
+
+      await Promise.all([
+        bridge.sendPrompt('a', undefined, undefined, undefined, 'alice'),
+        bridge.sendPrompt('b', undefined, undefined, undefined, 'bob'),
+      ]);
+      await bridge.sendPrompt('b2', undefined, undefined, undefined, 'bob');
+
+      expect(mockStartSession.mock.calls.map(c => c[0].host)).toEqual(['0xHostA', '0xHostB']);
+      expect(mockSendPromptStreaming.mock.calls[2][0]).toBe(43n);
+    });
+
+    it('sendPrompt() rejects with POOL_BUSY when every session is busy and the queue is full', async () => {
+      const bridge = new SessionBridge({ ...testConfig, poolSize: 1, maxQueueDepth: 0 });
+      await bridge.initialize();
+      let finish!: () => void;
+      mockSendPromptStreaming.mockImplementation(() => new Promise(r => { finish = () => r('ok'); }));
+
+      const first = bridge.sendPrompt('a');
+      await vi.waitFor(() => expect(mockSendPromptStreaming).toHaveBeenCalledTimes(1));
+
+      expect(bridge.getRetryAfter()).toBeGreaterThanOrEqual(1);
+      await expect(bridge.sendPrompt('b')).rejects.toMatchObject({ code: 'POOL_BUSY' });
+
+      finish();
+      await first;
+      expect(bridge.getRetryAfter()).toBeUndefined();
+    });
+  });
 });
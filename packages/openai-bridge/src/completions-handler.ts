@@ -0,0 +1,255 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import type { OpenAICompletionRequest, OpenAICompletion, OpenAICompletionChoice } from './types';
+import { estimateInputTokens } from './openai-converter';
+import { generateCompletionId, buildCompletionChunk, buildDoneEvent, buildErrorEvent } from './openai-sse';
+import { toSamplingOptions, isSamplingError, SamplingOptions } from './sampling';
+import { getClientId, isPoolBusyError, clientDisconnectSignal } from '@fabstir/bridge-common';
+import { cutAtStop, createStopCutter, FimTemplate } from './fim';
+import type { SessionBridge } from './session-bridge';
+
+const DEFAULT_MAX_TOKENS = 16; // OpenAI's default for /v1/completions
+const FIM_DEFAULTS: SamplingOptions = { maxTokens: 64, temperature: 0.2 }; // Short, focused infills for editor autocompletion
+const MAX_N = 8;
+const MAX_LOGPROBS = 5;
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: string | Buffer) => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function sendError(res: ServerResponse, status: number, type: string, message: string, code?: string): void {
+  const error: any = { message, type };
+  if (code) error.code = code;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error }));
+}
+
+function sendPoolBusy(res: ServerResponse, retryAfter: number): void {
+  res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) });
+  res.end(JSON.stringify({
+    error: { message: `All sessions are busy. Retry after ${retryAfter}s.`, type: 'rate_limit_error', code: 'pool_exhausted' },
+  }));
+}
+
+/** One generation: a prompt (FIM-formatted when a suffix is given) and its choice index */
+interface CompletionJob { index: number; prompt: string; text: string }
+
+/**
+ * Legacy text completions, with fill-in-the-middle when `suffix` is set. Choices run one
+ * after another with the request's pool affinity key, so an editor's keystroke requests
+ * keep landing on the same warm session. Hosts do not report token log-probabilities,
+ * so `logprobs` is accepted and answered with null.
+ */
+export async function handleCompletions(
+  req: IncomingMessage, res: ServerResponse, bridge: SessionBridge
+): Promise<void> {
+  let body: OpenAICompletionRequest;
+  try {
+    const raw = await readBody(req);
+    body = JSON.parse(raw);
+  } catch {
+    sendError(res, 400, 'invalid_request_error', 'Invalid JSON body');
+    return;
+  }
+
+  if (body.prompt === undefined || body.prompt === null) {
+    sendError(res, 400, 'invalid_request_error', 'Missing required field: prompt');
+    return;
+  }
+  if (!body.model) {
+    sendError(res, 400, 'invalid_request_error', 'Missing required field: model');
+    return;
+  }
+  const prompts = typeof body.prompt === 'string' ? [body.prompt] : body.prompt;
+  if (!Array.isArray(prompts) || prompts.length === 0 || !prompts.every(p => typeof p === 'string')) {
+    sendError(res, 400, 'invalid_request_error', 'prompt must be a string or a non-empty array of strings (token arrays are not supported)');
+    return;
+  }
+  if (body.suffix !== undefined && body.suffix !== null && typeof body.suffix !== 'string') {
+    sendError(res, 400, 'invalid_request_error', 'suffix must be a string');
+    return;
+  }
+  const n = body.n ?? 1;
+  if (!(Number.isInteger(n) && n >= 1 && n <= MAX_N)) {
+    sendError(res, 400, 'invalid_request_error', `n must be an integer from 1 to ${MAX_N}`);
+    return;
+  }
+  if (body.logprobs !== undefined && body.logprobs !== null
+    && !(Number.isInteger(body.logprobs) && body.logprobs >= 0 && body.logprobs <= MAX_LOGPROBS)) {
+    sendError(res, 400, 'invalid_request_error', `logprobs must be an integer from 0 to ${MAX_LOGPROBS}`);
+    return;
+  }
+  const suffix = body.suffix || undefined;
+  const echo = body.echo === true;
+  if (echo && suffix) {
+    sendError(res, 400, 'invalid_request_error', 'echo is not supported with suffix');
+    return;
+  }
+
+  const fabstirModel = await bridge.resolveModel(body.model);
+  if (!fabstirModel) {
+    sendError(res, 404, 'invalid_request_error', `The model '${body.model}' does not exist`, 'model_not_found');
+    return;
+  }
+
+  // Circuit breaker: reject immediately with 503 before starting SSE
+  if ((bridge as any).isCircuitOpen?.()) {
+    const reason = (bridge as any).getCircuitError?.() || 'persistent session errors';
+    sendError(res, 503, 'server_error', `Circuit breaker open: ${reason}. Retry later.`);
+    return;
+  }
+
+  let template: FimTemplate | undefined;
+  if (suffix) {
+    template = bridge.getFimTemplate?.(fabstirModel);
+    if (!template) {
+      sendError(res, 400, 'invalid_request_error', `Model '${body.model}' has no fill-in-the-middle format; set --fim-template`);
+      return;
+    }
+  }
+
+  let sampling: SamplingOptions;
+  try {
+    sampling = toSamplingOptions(body);
+  } catch (err: any) {
+    sendError(res, 400, 'invalid_request_error', `Invalid sampling parameters: ${err.message}`);
+    return;
+  }
+  const opts: SamplingOptions = { ...(template ? FIM_DEFAULTS : { maxTokens: DEFAULT_MAX_TOKENS }), ...sampling };
+  // The bridge cuts infills at the template stop tokens; hosts that support `stop` also end generation there
+  const stops = template ? [...template.stop, ...(sampling.stop ?? [])] : undefined;
+  if (stops) opts.stop = stops;
+  if (opts.maxTokens === 0 && !echo) {
+    sendError(res, 400, 'invalid_request_error', 'max_tokens must be at least 1 unless echo is set');
+    return;
+  }
+
+  // Backpressure: answer 429 before starting SSE when the session pool cannot take the request
+  const retryAfter = bridge.getRetryAfter?.(fabstirModel);
+  if (retryAfter !== undefined) {
+    sendPoolBusy(res, retryAfter);
+    return;
+  }
+
+  const formatted = prompts.map(text => (template ? template.format(text, suffix!) : text));
+  const jobs: CompletionJob[] = prompts.flatMap((text, p) => Array.from({ length: n }, (_, i) => ({
+    index: p * n + i, text, prompt: formatted[p],
+  })));
+  const promptTokens = formatted.reduce((sum, prompt) => sum + estimateInputTokens(prompt), 0);
+  const target = {
+    fabstirModel, clientId: getClientId(req, body.user), signal: clientDisconnectSignal(res), echo, promptTokens, stops,
+  };
+
+  if (body.stream === true) {
+    await handleStreaming(res, bridge, jobs, opts, body.model, target);
+  } else {
+    await handleNonStreaming(res, bridge, jobs, opts, body.model, target);
+  }
+}
+
+/**
+ * Session the jobs run on (resolved model, pool affinity key, disconnect signal), echo, usage of the
+ * prompts, and the stop strings FIM output is cut at
+ */
+interface CompletionTarget {
+  fabstirModel: string; clientId?: string; signal?: AbortSignal; echo: boolean; promptTokens: number; stops?: string[];
+}
+
+/** Runs one job; echo-only requests (max_tokens 0) generate nothing */
+async function complete(
+  bridge: SessionBridge, job: CompletionJob, opts: SamplingOptions, target: CompletionTarget,
+  onToken?: (token: string) => void
+): Promise<{ text: string; tokens: number; finishReason: string }> {
+  if (opts.maxTokens === 0) return { text: '', tokens: 0, finishReason: 'length' };
+  const cutter = target.stops && onToken && createStopCutter(target.stops);
+  const emit = cutter ? (token: string) => onToken!(cutter.push(token)) : onToken;
+  const { response, tokenUsage } = await sendJob(bridge, job, emit, opts, target);
+  if (cutter) onToken!(cutter.end());
+  const tokens = tokenUsage?.llmTokens || 0;
+  const cut = target.stops ? cutAtStop(response, target.stops) : { text: response, stopped: false };
+  const length = !cut.stopped && opts.maxTokens !== undefined && tokens >= opts.maxTokens;
+  return { text: cut.text, tokens, finishReason: length ? 'length' : 'stop' };
+}
+
+/** Sends a job; a FIM job is resent without `stop` when the host does not support it */
+async function sendJob(
+  bridge: SessionBridge, job: CompletionJob, onToken: ((token: string) => void) | undefined, opts: SamplingOptions,
+  target: CompletionTarget
+): Promise<{ response: string; tokenUsage?: { llmTokens: number } }> {
+  const send = (options: SamplingOptions) =>
+    bridge.sendPrompt(job.prompt, onToken, options, target.fabstirModel, target.clientId, target.signal);
+  try {
+    return await send(opts);
+  } catch (err: any) {
+    const stopUnsupported = err?.code === 'SAMPLING_NOT_SUPPORTED' && err.details?.unsupported?.includes('stop');
+    if (!target.stops || !stopUnsupported) throw err;
+    const { stop, ...withoutStop } = opts;
+    return send(withoutStop);
+  }
+}
+
+async function handleStreaming(
+  res: ServerResponse, bridge: SessionBridge, jobs: CompletionJob[], opts: SamplingOptions,
+  model: string, target: CompletionTarget
+): Promise<void> {
+  const id = generateCompletionId();
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', 'Connection': 'keep-alive' });
+  res.flushHeaders();
+  const write = (data: string) => { res.write(data); };
+
+  try {
+    for (const job of jobs) {
+      if (target.echo && job.text) write(buildCompletionChunk(id, model, job.index, job.text));
+      const { finishReason } = await complete(bridge, job, opts, target, (token) => {
+        if (token) write(buildCompletionChunk(id, model, job.index, token));
+      });
+      write(buildCompletionChunk(id, model, job.index, '', finishReason));
+    }
+  } catch (err: any) {
+    console.error(`[${new Date().toISOString()}] Streaming error: ${err.message || err}`);
+    write(isSamplingError(err) ? buildErrorEvent(err.message, 'invalid_request_error')
+      : isPoolBusyError(err) ? buildErrorEvent(err.message, 'rate_limit_error', 'pool_exhausted')
+      : buildErrorEvent(err.message || 'Internal error', 'server_error'));
+    res.end();
+    return;
+  }
+  write(buildDoneEvent());
+  res.end();
+}
+
+async function handleNonStreaming(
+  res: ServerResponse, bridge: SessionBridge, jobs: CompletionJob[], opts: SamplingOptions,
+  model: string, target: CompletionTarget
+): Promise<void> {
+  try {
+    const choices: OpenAICompletionChoice[] = [];
+    let completionTokens = 0;
+    for (const job of jobs) {
+      const { text, tokens, finishReason } = await complete(bridge, job, opts, target);
+      completionTokens += tokens;
+      choices.push({ text: (target.echo ? job.text : '') + text, index: job.index, logprobs: null, finish_reason: finishReason });
+    }
+    const promptTokens = target.promptTokens;
+    const result: OpenAICompletion = {
+      id: generateCompletionId(), object: 'text_completion',
+      created: Math.floor(Date.now() / 1000), model, choices,
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+    };
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(result));
+  } catch (err: any) {
+    if (isSamplingError(err)) {
+      sendError(res, 400, 'invalid_request_error', err.message);
+      return;
+    }
+    if (isPoolBusyError(err)) {
+      sendPoolBusy(res, err.retryAfter);
+      return;
+    }
+    sendError(res, 500, 'server_error', err.message || 'Internal error');
+  }
+}
@@ -1,8 +1,13 @@
+import { dirname, join } from 'path';
+import { toolDialectRegistry } from '@fabstir/sdk-core';
+import { hasFimTemplate } from './fim';
+
 export interface OpenAIBridgeConfig {
   port: number;
   privateKey: string;
   rpcUrl?: string;
   hostAddress?: string;
+  hostAddresses?: string[]; // Pool sessions of the default model rotate over these hosts
   modelName: string;
   chainId: number;
   depositAmount: string;
@@ -11,6 +16,15 @@ export interface OpenAIBridgeConfig {
   duration: number;
   apiKey?: string;
   localhostOverride?: string;
+  toolDialect?: string; // Tool call format (glm, hermes, qwen, llama3, mistral); detected from modelName if omitted
+  fimTemplate?: string; // FIM prompt format (starcoder, codellama, deepseek, codegemma, qwen, codestral); detected from the model if omitted
+  modelAliases?: Record<string, string>; // Client model name -> Fabstir model string (e.g. gpt-4o -> repo:file.gguf); "*" catches other names
+  poolSize: number; // Concurrent sessions per model
+  maxQueueDepth: number; // Requests waiting for a session before new ones get 429
+  queueTimeout: number; // Seconds a queued request waits for a session before it gets 429
+  keyStorePath?: string; // JSON file of tenant API keys (quotas, model allow-lists, rate limits)
+  usageLedgerPath?: string; // JSONL usage ledger; defaults to usage.jsonl next to the key store
+  adminKey?: string; // Bearer key for the /admin endpoints
 }
 
 export const DEFAULT_PORT = 3457;
@@ -19,6 +33,9 @@ export const DEFAULT_DEPOSIT_AMOUNT = '0.0002';
 export const DEFAULT_PRICE_PER_TOKEN = 5000;
 export const DEFAULT_PROOF_INTERVAL = 100;
 export const DEFAULT_DURATION = 86400;
+export const DEFAULT_POOL_SIZE = 4;
+export const DEFAULT_MAX_QUEUE_DEPTH = 16;
+export const DEFAULT_QUEUE_TIMEOUT = 60;
 
 export function validateConfig(config: Partial<OpenAIBridgeConfig>): OpenAIBridgeConfig {
   if (!config.privateKey) {
@@ -27,12 +44,31 @@ export function validateConfig(config: Partial<OpenAIBridgeConfig>): OpenAIBridg
   if (!config.modelName) {
     throw new Error('Missing required config: modelName');
   }
+  if (config.toolDialect && !toolDialectRegistry.has(config.toolDialect)) {
+    throw new Error(`Unknown tool dialect: ${config.toolDialect}`);
+  }
+  if (config.fimTemplate && !hasFimTemplate(config.fimTemplate)) {
+    throw new Error(`Unknown FIM template: ${config.fimTemplate}`);
+  }
+  if (config.poolSize !== undefined && !(Number.isInteger(config.poolSize) && config.poolSize >= 1)) {
+    throw new Error(`Invalid poolSize: ${config.poolSize} (must be a positive integer)`);
+  }
+  if (config.maxQueueDepth !== undefined && !(Number.isInteger(config.maxQueueDepth) && config.maxQueueDepth >= 0)) {
+    throw new Error(`Invalid maxQueueDepth: ${config.maxQueueDepth} (must be a non-negative integer)`);
+  }
+  if (config.queueTimeout !== undefined && !(config.queueTimeout > 0)) {
+    throw new Error(`Invalid queueTimeout: ${config.queueTimeout} (must be a positive number of seconds)`);
+  }
+  if (config.adminKey && !config.keyStorePath) {
+    throw new Error('adminKey requires keyStorePath');
+  }
 
   return {
     port: config.port ?? DEFAULT_PORT,
     privateKey: config.privateKey,
     rpcUrl: config.rpcUrl,
     hostAddress: config.hostAddress ?? undefined,
+    hostAddresses: config.hostAddresses,
     modelName: config.modelName,
     chainId: config.chainId ?? DEFAULT_CHAIN_ID,
     depositAmount: config.depositAmount ?? DEFAULT_DEPOSIT_AMOUNT,
@@ -41,18 +77,52 @@ export function validateConfig(config: Partial<OpenAIBridgeConfig>): OpenAIBridg
     duration: config.duration ?? DEFAULT_DURATION,
     apiKey: config.apiKey,
     localhostOverride: config.localhostOverride,
+    toolDialect: config.toolDialect,
+    fimTemplate: config.fimTemplate,
+    modelAliases: config.modelAliases,
+    poolSize: config.poolSize ?? DEFAULT_POOL_SIZE,
+    maxQueueDepth: config.maxQueueDepth ?? DEFAULT_MAX_QUEUE_DEPTH,
+    queueTimeout: config.queueTimeout ?? DEFAULT_QUEUE_TIMEOUT,
+    keyStorePath: config.keyStorePath,
+    usageLedgerPath: config.usageLedgerPath ?? (config.keyStorePath ? join(dirname(config.keyStorePath), 'usage.jsonl') : undefined),
+    adminKey: config.adminKey,
   };
 }
 
+/** Parse `alias=repo:file,alias2=repo2:file2` into an alias map */
+export function parseModelAliases(value: string): Record<string, string> {
+  const aliases: Record<string, string> = {};
+  for (const entry of value.split(',').map(e => e.trim()).filter(Boolean)) {
+    const eq = entry.indexOf('=');
+    const alias = entry.slice(0, eq).trim();
+    const target = entry.slice(eq + 1).trim();
+    if (eq < 0 || !alias || !target) {
+      throw new Error(`Invalid model alias "${entry}" (expected alias=repo:file)`);
+    }
+    aliases[alias] = target;
+  }
+  return aliases;
+}
+
 export function loadConfigFromEnv(): Partial<OpenAIBridgeConfig> {
   const config: Partial<OpenAIBridgeConfig> = {};
   if (process.env.OPENAI_BRIDGE_PORT) config.port = parseInt(process.env.OPENAI_BRIDGE_PORT, 10);
   if (process.env.OPENAI_BRIDGE_PRIVATE_KEY) config.privateKey = process.env.OPENAI_BRIDGE_PRIVATE_KEY;
   if (process.env.OPENAI_BRIDGE_HOST) config.hostAddress = process.env.OPENAI_BRIDGE_HOST;
+  if (process.env.OPENAI_BRIDGE_HOSTS) config.hostAddresses = process.env.OPENAI_BRIDGE_HOSTS.split(',').map(h => h.trim()).filter(Boolean);
   if (process.env.OPENAI_BRIDGE_MODEL) config.modelName = process.env.OPENAI_BRIDGE_MODEL;
   if (process.env.OPENAI_BRIDGE_RPC_URL) config.rpcUrl = process.env.OPENAI_BRIDGE_RPC_URL;
   if (process.env.OPENAI_BRIDGE_CHAIN_ID) config.chainId = parseInt(process.env.OPENAI_BRIDGE_CHAIN_ID, 10);
   if (process.env.OPENAI_BRIDGE_DEPOSIT) config.depositAmount = process.env.OPENAI_BRIDGE_DEPOSIT;
   if (process.env.OPENAI_BRIDGE_API_KEY) config.apiKey = process.env.OPENAI_BRIDGE_API_KEY;
+  if (process.env.OPENAI_BRIDGE_TOOL_DIALECT) config.toolDialect = process.env.OPENAI_BRIDGE_TOOL_DIALECT;
+  if (process.env.OPENAI_BRIDGE_FIM_TEMPLATE) config.fimTemplate = process.env.OPENAI_BRIDGE_FIM_TEMPLATE;
+  if (process.env.OPENAI_BRIDGE_POOL_SIZE) config.poolSize = parseInt(process.env.OPENAI_BRIDGE_POOL_SIZE, 10);
+  if (process.env.OPENAI_BRIDGE_MAX_QUEUE) config.maxQueueDepth = parseInt(process.env.OPENAI_BRIDGE_MAX_QUEUE, 10);
+  if (process.env.OPENAI_BRIDGE_QUEUE_TIMEOUT) config.queueTimeout = parseFloat(process.env.OPENAI_BRIDGE_QUEUE_TIMEOUT);
+  if (process.env.OPENAI_BRIDGE_KEY_STORE) config.keyStorePath = process.env.OPENAI_BRIDGE_KEY_STORE;
+  if (process.env.OPENAI_BRIDGE_USAGE_LEDGER) config.usageLedgerPath = process.env.OPENAI_BRIDGE_USAGE_LEDGER;
+  if (process.env.OPENAI_BRIDGE_ADMIN_KEY) config.adminKey = process.env.OPENAI_BRIDGE_ADMIN_KEY;
+  if (process.env.OPENAI_BRIDGE_MODEL_ALIASES) config.modelAliases = parseModelAliases(process.env.OPENAI_BRIDGE_MODEL_ALIASES);
   return config;
 }
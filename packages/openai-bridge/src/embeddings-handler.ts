@@ -0,0 +1,113 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import type { OpenAIEmbeddingRequest, OpenAIEmbeddingResponse } from './types';
+import { estimateInputTokens } from './openai-converter';
+import { getClientId, isPoolBusyError, clientDisconnectSignal } from '@fabstir/bridge-common';
+import type { SessionBridge } from './session-bridge';
+
+const MAX_INPUTS = 2048;
+const HOST_EMBEDDING_DIMENSIONS = 384; // all-MiniLM-L6-v2 on fabstir-llm-node
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk: string | Buffer) => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function sendError(res: ServerResponse, status: number, type: string, message: string, code?: string): void {
+  const error: any = { message, type };
+  if (code) error.code = code;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error }));
+}
+
+function sendPoolBusy(res: ServerResponse, retryAfter: number): void {
+  res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) });
+  res.end(JSON.stringify({
+    error: { message: `All sessions are busy. Retry after ${retryAfter}s.`, type: 'rate_limit_error', code: 'pool_exhausted' },
+  }));
+}
+
+/** Shortens an embedding the way OpenAI does for `dimensions`: truncate, then rescale to unit length */
+export function shortenEmbedding(embedding: number[], dimensions: number): number[] {
+  const head = embedding.slice(0, dimensions);
+  const norm = Math.sqrt(head.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? head.map(v => v / norm) : head;
+}
+
+/** `encoding_format: base64`: little-endian float32 bytes, as OpenAI returns them */
+export function encodeEmbeddingBase64(embedding: number[]): string {
+  return Buffer.from(new Float32Array(embedding).buffer).toString('base64');
+}
+
+/**
+ * Hosts serve one embedding model, so `model` is not routed like chat models;
+ * it is echoed back as OpenAI does.
+ */
+export async function handleEmbeddings(
+  req: IncomingMessage, res: ServerResponse, bridge: SessionBridge
+): Promise<void> {
+  let body: OpenAIEmbeddingRequest;
+  try {
+    const raw = await readBody(req);
+    body = JSON.parse(raw);
+  } catch {
+    sendError(res, 400, 'invalid_request_error', 'Invalid JSON body');
+    return;
+  }
+
+  if (body.input === undefined || body.input === null) {
+    sendError(res, 400, 'invalid_request_error', 'Missing required field: input');
+    return;
+  }
+  if (!body.model) {
+    sendError(res, 400, 'invalid_request_error', 'Missing required field: model');
+    return;
+  }
+  const inputs = typeof body.input === 'string' ? [body.input] : body.input;
+  if (!Array.isArray(inputs) || inputs.length === 0 || !inputs.every(i => typeof i === 'string')) {
+    sendError(res, 400, 'invalid_request_error', 'input must be a string or a non-empty array of strings (token arrays are not supported)');
+    return;
+  }
+  if (inputs.length > MAX_INPUTS) {
+    sendError(res, 400, 'invalid_request_error', `input must have at most ${MAX_INPUTS} items`);
+    return;
+  }
+  if (inputs.some(i => !i.trim())) {
+    sendError(res, 400, 'invalid_request_error', 'input cannot contain empty strings');
+    return;
+  }
+  const format = body.encoding_format ?? 'float';
+  if (format !== 'float' && format !== 'base64') {
+    sendError(res, 400, 'invalid_request_error', `Invalid encoding_format: ${format} (expected float or base64)`);
+    return;
+  }
+  const dimensions = body.dimensions;
+  if (dimensions !== undefined
+    && !(Number.isInteger(dimensions) && dimensions >= 1 && dimensions <= HOST_EMBEDDING_DIMENSIONS)) {
+    sendError(res, 400, 'invalid_request_error', `dimensions must be an integer from 1 to ${HOST_EMBEDDING_DIMENSIONS}`);
+    return;
+  }
+
+  try {
+    const result = await bridge.embed(inputs, getClientId(req, body.user), clientDisconnectSignal(res));
+    const data = result.embeddings.map((values, index) => {
+      const embedding = dimensions !== undefined ? shortenEmbedding(values, dimensions) : values;
+      return { object: 'embedding' as const, index, embedding: format === 'base64' ? encodeEmbeddingBase64(embedding) : embedding };
+    });
+    const tokens = result.totalTokens || inputs.reduce((sum, text) => sum + estimateInputTokens(text), 0);
+    const response: OpenAIEmbeddingResponse = {
+      object: 'list', data, model: body.model, usage: { prompt_tokens: tokens, total_tokens: tokens },
+    };
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response));
+  } catch (err: any) {
+    if (isPoolBusyError(err)) {
+      sendPoolBusy(res, err.retryAfter);
+      return;
+    }
+    sendError(res, 500, 'server_error', err.message || 'Embedding failed');
+  }
+}
@@ -0,0 +1,119 @@
+// FIM (fill-in-the-middle) — prompt formats of code models trained to complete between a prefix and a suffix
+
+export interface FimTemplate {
+  name: string;
+  modelPattern: RegExp; // Matched against the Fabstir model string (repo:file)
+  format(prefix: string, suffix: string): string;
+  stop: string[]; // Special tokens that end the infill
+}
+
+const templates = new Map<string, FimTemplate>();
+
+export function registerFimTemplate(template: FimTemplate): void {
+  templates.delete(template.name);
+  templates.set(template.name, template);
+}
+
+export function hasFimTemplate(name: string): boolean {
+  return templates.has(name);
+}
+
+export function getFimTemplate(name: string): FimTemplate {
+  const template = templates.get(name);
+  if (!template) throw new Error(`Unknown FIM template: ${name} (available: ${[...templates.keys()].join(', ')})`);
+  return template;
+}
+
+/** Explicit template name wins; otherwise the latest registered template matching the model name; undefined for non-FIM models */
+export function resolveFimTemplate(modelName?: string, override?: string): FimTemplate | undefined {
+  if (override) return getFimTemplate(override);
+  return [...templates.values()].reverse().find(t => t.modelPattern.test(modelName || ''));
+}
+
+/** Text before the first stop string, and whether one was found */
+export function cutAtStop(text: string, stops: string[]): { text: string; stopped: boolean } {
+  const at = Math.min(...stops.filter(Boolean).map(stop => text.indexOf(stop)).filter(i => i >= 0));
+  return Number.isFinite(at) ? { text: text.slice(0, at), stopped: true } : { text, stopped: false };
+}
+
+/**
+ * cutAtStop for a token stream: push() returns the text that is safe to emit, holding back
+ * a tail that could begin a stop string, and nothing once a stop is found; end() releases the tail
+ */
+export function createStopCutter(stops: string[]): { push(token: string): string; end(): string } {
+  let buf = '';
+  let stopped = false;
+  return {
+    push(token: string) {
+      if (stopped) return '';
+      buf += token;
+      const cut = cutAtStop(buf, stops);
+      if (cut.stopped) {
+        stopped = true;
+        buf = '';
+        return cut.text;
+      }
+      const held = partialStopLength(buf, stops);
+      const out = buf.slice(0, buf.length - held);
+      buf = buf.slice(buf.length - held);
+      return out;
+    },
+    end() {
+      const rest = buf;
+      buf = '';
+      return rest;
+    },
+  };
+}
+
+/** Length of the longest tail of text that is the start of a stop string */
+function partialStopLength(text: string, stops: string[]): number {
+  for (let length = Math.min(text.length, Math.max(0, ...stops.map(s => s.length - 1))); length > 0; length--) {
+    const tail = text.slice(-length);
+    if (stops.some(stop => stop.startsWith(tail))) return length;
+  }
+  return 0;
+}
+
+registerFimTemplate({
+  name: 'starcoder',
+  modelPattern: /starcoder|santacoder|stable-?code/i,
+  format: (prefix, suffix) => `<fim_prefix>${prefix}<fim_suffix>${suffix}<fim_middle>`,
+  stop: ['<|endoftext|>', '<fim_prefix>', '<fim_suffix>', '<fim_middle>', '<file_sep>'],
+});
+
+registerFimTemplate({
+  name: 'codellama',
+  modelPattern: /code-?llama/i,
+  format: (prefix, suffix) => `<PRE> ${prefix} <SUF>${suffix} <MID>`,
+  stop: ['<EOT>', '<PRE>', '<SUF>', '<MID>'],
+});
+
+registerFimTemplate({
+  name: 'deepseek',
+  modelPattern: /deepseek.*coder/i,
+  format: (prefix, suffix) => `<｜fim▁begin｜>${prefix}<｜fim▁hole｜>${suffix}<｜fim▁end｜>`,
+  stop: ['<｜end▁of▁sentence｜>', '<｜fim▁begin｜>', '<｜fim▁hole｜>', '<｜fim▁end｜>', '<|EOT|>'],
+});
+
+registerFimTemplate({
+  name: 'codegemma',
+  modelPattern: /codegemma/i,
+  format: (prefix, suffix) => `<|fim_prefix|>${prefix}<|fim_suffix|>${suffix}<|fim_middle|>`,
+  stop: ['<|file_separator|>', '<|fim_prefix|>', '<|fim_suffix|>', '<|fim_middle|>', '<end_of_turn>'],
+});
+
+registerFimTemplate({
+  name: 'qwen',
+  modelPattern: /qwen.*coder|codeqwen/i,
+  format: (prefix, suffix) => `<|fim_prefix|>${prefix}<|fim_suffix|>${suffix}<|fim_middle|>`,
+  stop: ['<|endoftext|>', '<|fim_prefix|>', '<|fim_suffix|>', '<|fim_middle|>', '<|fim_pad|>', '<|file_sep|>', '<|im_end|>'],
+});
+
+// Codestral puts the suffix first
+registerFimTemplate({
+  name: 'codestral',
+  modelPattern: /codestral/i,
+  format: (prefix, suffix) => `[SUFFIX]${suffix}[PREFIX]${prefix}`,
+  stop: ['</s>', '[PREFIX]', '[SUFFIX]'],
+});
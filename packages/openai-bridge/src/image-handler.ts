@@ -1,5 +1,6 @@
 import { IncomingMessage, ServerResponse } from 'http';
 import type { OpenAIImageRequest } from './types';
+import { getClientId, isPoolBusyError, clientDisconnectSignal } from '@fabstir/bridge-common';
 import type { SessionBridge } from './session-bridge';
 
 const SIZE_MAP: Record<string, string> = {
@@ -25,6 +26,13 @@ function sendError(res: ServerResponse, status: number, type: string, message: s
   res.end(JSON.stringify({ error }));
 }
 
+function sendPoolBusy(res: ServerResponse, retryAfter: number): void {
+  res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) });
+  res.end(JSON.stringify({
+    error: { message: `All sessions are busy. Retry after ${retryAfter}s.`, type: 'rate_limit_error', code: 'pool_exhausted' },
+  }));
+}
+
 export async function handleImageGeneration(
   req: IncomingMessage, res: ServerResponse, bridge: SessionBridge
 ): Promise<void> {
@@ -50,37 +58,23 @@ export async function handleImageGeneration(
   const size = SIZE_MAP[body.size || '1024x1024'] || '1024x1024';
   const steps = QUALITY_STEPS[body.quality || 'standard'] || 4;
 
+  const clientId = getClientId(req, body.user);
+  const signal = clientDisconnectSignal(res);
   try {
-    await bridge.ensureSession();
-    const sessionManager = bridge.getSessionManager();
-    // generateImage() expects string sessionId (sessions map uses string keys)
-    // but bridge.getSessionId() returns bigint — must convert
-    let sessionId = bridge.getSessionId()!.toString();
     const data: any[] = [];
-
     for (let i = 0; i < n; i++) {
-      try {
-        const result = await sessionManager.generateImage(sessionId, body.prompt, { size, steps });
-        data.push({ b64_json: result.image, revised_prompt: body.prompt });
-      } catch (genErr: any) {
-        const code = genErr?.code || '';
-        const msg = genErr?.message || '';
-        const isSessionErr = code === 'SESSION_NOT_FOUND' || code === 'SESSION_NOT_ACTIVE'
-          || msg.includes('SESSION_NOT_FOUND') || msg.includes('SESSION_NOT_ACTIVE');
-        if (!isSessionErr || i > 0) throw genErr;
-        // Session expired — reset and retry
-        const newId = await bridge.resetSession();
-        sessionId = newId.toString();
-        const result = await sessionManager.generateImage(sessionId, body.prompt, { size, steps });
-        data.push({ b64_json: result.image, revised_prompt: body.prompt });
-      }
+      // Each image leases a pooled session, like a chat prompt
+      const result = await bridge.generateImage(body.prompt, { size, steps }, clientId, signal);
+      data.push({ b64_json: result.image, revised_prompt: body.prompt });
     }
 
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({ created: Math.floor(Date.now() / 1000), data }));
   } catch (err: any) {
     const code = err?.code || '';
-    if (code === 'PROMPT_BLOCKED') {
+    if (isPoolBusyError(err)) {
+      sendPoolBusy(res, err.retryAfter);
+    } else if (code === 'PROMPT_BLOCKED') {
       sendError(res, 400, 'invalid_request_error', err.message, 'content_policy_violation');
     } else if (code === 'RATE_LIMIT_EXCEEDED') {
       sendError(res, 429, 'rate_limit_error', err.message);
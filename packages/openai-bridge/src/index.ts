@@ -4,9 +4,10 @@ import WebSocket from 'ws';
 
 import { config as dotenvConfig } from 'dotenv';
 import { Command } from 'commander';
-import { validateConfig, loadConfigFromEnv, DEFAULT_PORT, DEFAULT_CHAIN_ID, DEFAULT_DEPOSIT_AMOUNT } from './config';
+import { validateConfig, loadConfigFromEnv, parseModelAliases, DEFAULT_PORT, DEFAULT_CHAIN_ID, DEFAULT_DEPOSIT_AMOUNT } from './config';
 import { SessionBridge } from './session-bridge';
 import { BridgeServer } from './server';
+import { ApiKeyStore, UsageLedger } from '@fabstir/bridge-common';
 
 const program = new Command();
 program
@@ -16,13 +17,23 @@ program
   .option('--port <number>', 'HTTP server port', String(DEFAULT_PORT))
   .option('--private-key <key>', 'Ethereum private key (or OPENAI_BRIDGE_PRIVATE_KEY)')
   .option('--host <address>', 'Host node address (optional — auto-discovered if omitted)')
-  .option('--model <name>', 'Model string (or OPENAI_BRIDGE_MODEL)')
+  .option('--hosts <list>', 'Comma-separated host addresses the session pool rotates over (or OPENAI_BRIDGE_HOSTS)')
+  .option('--pool-size <number>', 'Concurrent sessions per model (or OPENAI_BRIDGE_POOL_SIZE)')
+  .option('--max-queue <number>', 'Queued requests before answering 429 (or OPENAI_BRIDGE_MAX_QUEUE)')
+  .option('--queue-timeout <seconds>', 'Seconds a queued request waits for a session before 429 (or OPENAI_BRIDGE_QUEUE_TIMEOUT)')
+  .option('--model <name>', 'Default model string (or OPENAI_BRIDGE_MODEL)')
+  .option('--model-aliases <list>', 'Client model names, e.g. gpt-4o=repo:file,gpt-4o-mini=repo:file (or OPENAI_BRIDGE_MODEL_ALIASES)')
   .option('--chain-id <number>', 'Chain ID', String(DEFAULT_CHAIN_ID))
   .option('--deposit <amount>', 'Deposit amount in ETH', DEFAULT_DEPOSIT_AMOUNT)
   .option('--rpc-url <url>', 'Override RPC URL')
   .option('--env-file <path>', 'Path to .env file', '.env.test')
   .option('--api-key <key>', 'Require Authorization: Bearer <key> from clients')
+  .option('--key-store <path>', 'JSON file of tenant API keys with quotas and limits (or OPENAI_BRIDGE_KEY_STORE)')
+  .option('--usage-ledger <path>', 'Usage ledger file (default: usage.jsonl next to the key store)')
+  .option('--admin-key <key>', 'Enable /admin key management with Authorization: Bearer <key> (or OPENAI_BRIDGE_ADMIN_KEY)')
   .option('--localhost-override <host>', 'Docker: rewrite localhost in discovered host URLs')
+  .option('--tool-dialect <name>', 'Tool call format: glm, hermes, qwen, llama3, mistral (default: from --model)')
+  .option('--fim-template <name>', 'Fill-in-the-middle format: starcoder, codellama, deepseek, codegemma, qwen, codestral (default: from the model)')
   .action(async (opts) => {
     dotenvConfig({ path: opts.envFile });
     const envConfig = loadConfigFromEnv();
@@ -31,19 +42,33 @@ program
       port: parseInt(opts.port, 10),
       privateKey: opts.privateKey || envConfig.privateKey,
       hostAddress: opts.host || envConfig.hostAddress,
+      hostAddresses: opts.hosts ? opts.hosts.split(',').map((h: string) => h.trim()).filter(Boolean) : envConfig.hostAddresses,
+      poolSize: opts.poolSize ? parseInt(opts.poolSize, 10) : envConfig.poolSize,
+      maxQueueDepth: opts.maxQueue ? parseInt(opts.maxQueue, 10) : envConfig.maxQueueDepth,
+      queueTimeout: opts.queueTimeout ? parseFloat(opts.queueTimeout) : envConfig.queueTimeout,
       modelName: opts.model || envConfig.modelName,
       chainId: parseInt(opts.chainId, 10),
       depositAmount: opts.deposit,
       rpcUrl: opts.rpcUrl || envConfig.rpcUrl,
       apiKey: opts.apiKey || envConfig.apiKey,
+      keyStorePath: opts.keyStore || envConfig.keyStorePath,
+      usageLedgerPath: opts.usageLedger || envConfig.usageLedgerPath,
+      adminKey: opts.adminKey || envConfig.adminKey,
       localhostOverride: opts.localhostOverride,
+      toolDialect: opts.toolDialect || envConfig.toolDialect,
+      fimTemplate: opts.fimTemplate || envConfig.fimTemplate,
+      modelAliases: opts.modelAliases ? parseModelAliases(opts.modelAliases) : envConfig.modelAliases,
     });
 
     const bridge = new SessionBridge(config);
     console.log('Initializing SDK...');
     await bridge.initialize();
 
-    const server = new BridgeServer(config.port, bridge, config.modelName, config.apiKey);
+    const ledger = config.usageLedgerPath ? new UsageLedger(config.usageLedgerPath) : undefined;
+    const tenants = config.keyStorePath
+      ? { keys: new ApiKeyStore(config.keyStorePath, ledger), ledger, adminKey: config.adminKey }
+      : undefined;
+    const server = new BridgeServer(config.port, bridge, config.modelName, config.apiKey, tenants);
     await server.start();
     const port = server.getPort();
     console.log(`\nOpenAI Bridge running on http://localhost:${port}`);
@@ -1,4 +1,5 @@
 import type { OpenAIChatMessage, OpenAITool, OpenAIContentPart, ImageAttachment } from './types';
+import { toolDialectRegistry, ToolDialect } from '@fabstir/sdk-core';
 
 const MEDIA_TYPE_MAP: Record<string, ImageAttachment['format']> = {
   'image/png': 'png', 'image/jpeg': 'jpeg', 'image/gif': 'gif', 'image/webp': 'webp',
@@ -41,23 +42,17 @@ async function extractContent(content: string | OpenAIContentPart[] | null): Pro
   return { text: parts.join(''), images };
 }
 
-function formatToolsForPrompt(tools: OpenAITool[]): string {
-  const lines = ['# Tools'];
-  for (const tool of tools) {
-    const desc = tool.function.description?.split('\n')[0]?.slice(0, 80) || '';
-    const params = tool.function.parameters?.required?.join(', ') || '';
-    lines.push(`- ${tool.function.name}: ${desc}${params ? ` [${params}]` : ''}`);
-  }
-  lines.push('');
-  lines.push('IMPORTANT: To perform actions, you MUST output <tool_call> tags.');
-  lines.push('Format: <tool_call>ToolName<arg_key>param</arg_key><arg_value>value</arg_value></tool_call>');
-  lines.push('Example: <tool_call>Bash<arg_key>command</arg_key><arg_value>npm install</arg_value></tool_call>');
-  return lines.join('\n');
+function parseToolArguments(args: string): Record<string, any> {
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch { return {}; }
 }
 
 export async function convertOpenAIMessages(
   messages: OpenAIChatMessage[],
-  tools?: OpenAITool[]
+  tools?: OpenAITool[],
+  dialect: ToolDialect = toolDialectRegistry.resolve()
 ): Promise<{ prompt: string; images: ImageAttachment[] }> {
   const allImages: ImageAttachment[] = [];
   let prompt = '';
@@ -73,7 +68,7 @@ export async function convertOpenAIMessages(
       nonSystemMessages.push(msg);
     }
   }
-  if (tools && tools.length > 0) systemParts.push(formatToolsForPrompt(tools));
+  if (tools && tools.length > 0) systemParts.push(dialect.formatTools(tools.map(t => t.function)));
   if (systemParts.length > 0) {
     prompt += `<|im_start|>system\n${systemParts.join('\n\n')}\n<|im_end|>\n`;
   }
@@ -81,7 +76,7 @@ export async function convertOpenAIMessages(
   for (const msg of nonSystemMessages) {
     if (msg.role === 'tool') {
       const text = typeof msg.content === 'string' ? msg.content : '';
-      prompt += `<|im_start|>observation\n${text}\n<|im_end|>\n`;
+      prompt += `<|im_start|>${dialect.resultRole}\n${dialect.formatToolResult(text)}\n<|im_end|>\n`;
       continue;
     }
 
@@ -89,9 +84,7 @@ export async function convertOpenAIMessages(
     allImages.push(...images);
 
     if (msg.role === 'assistant' && msg.tool_calls?.length) {
-      const toolText = msg.tool_calls.map(tc =>
-        `<tool_call>${tc.function.name}<arg_key>arguments</arg_key><arg_value>${tc.function.arguments}</arg_value></tool_call>`
-      ).join('');
+      const toolText = msg.tool_calls.map(tc => dialect.formatToolCall(tc.function.name, parseToolArguments(tc.function.arguments))).join('');
       prompt += `<|im_start|>assistant\n${text}${toolText}\n<|im_end|>\n`;
     } else if (text) {
       prompt += `<|im_start|>${msg.role}\n${text}\n<|im_end|>\n`;
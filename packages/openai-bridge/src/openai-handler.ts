@@ -5,8 +5,11 @@ import {
   generateMessageId, generateToolCallId,
   buildRoleDelta, buildContentDelta, buildToolCallDelta, buildFinishDelta, buildDoneEvent,
 } from './openai-sse';
-import { ToolCallParser } from './tool-parser';
+import { toolDialectRegistry, ToolDialect } from '@fabstir/sdk-core';
+import { toStructuredResponseFormat, StructuredResponseFormat } from './response-format';
+import { toSamplingOptions, isSamplingError, SamplingOptions } from './sampling';
 import { createThinkStripper, stripThinkFromText } from './think-stripper';
+import { getClientId, isPoolBusyError, clientDisconnectSignal } from '@fabstir/bridge-common';
 import type { SessionBridge } from './session-bridge';
 
 const DEBUG = !!process.env.BRIDGE_DEBUG;
@@ -21,9 +24,18 @@ function readBody(req: IncomingMessage): Promise<string> {
   });
 }
 
-function sendError(res: ServerResponse, status: number, type: string, message: string): void {
+function sendError(res: ServerResponse, status: number, type: string, message: string, code?: string): void {
+  const error: any = { message, type };
+  if (code) error.code = code;
   res.writeHead(status, { 'Content-Type': 'application/json' });
-  res.end(JSON.stringify({ error: { message, type } }));
+  res.end(JSON.stringify({ error }));
+}
+
+function sendPoolBusy(res: ServerResponse, retryAfter: number): void {
+  res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) });
+  res.end(JSON.stringify({
+    error: { message: `All sessions are busy. Retry after ${retryAfter}s.`, type: 'rate_limit_error', code: 'pool_exhausted' },
+  }));
 }
 
 export async function handleChatCompletions(
@@ -46,6 +58,11 @@ export async function handleChatCompletions(
     sendError(res, 400, 'invalid_request_error', 'Missing required field: model');
     return;
   }
+  const fabstirModel = await bridge.resolveModel(body.model);
+  if (!fabstirModel) {
+    sendError(res, 404, 'invalid_request_error', `The model '${body.model}' does not exist`, 'model_not_found');
+    return;
+  }
 
   // Circuit breaker: reject immediately with 503 before starting SSE
   if ((bridge as any).isCircuitOpen?.()) {
@@ -55,23 +72,54 @@ export async function handleChatCompletions(
   }
 
   const tools = body.tools && body.tools.length > 0 ? body.tools : undefined;
-  const { prompt, images } = await convertOpenAIMessages(body.messages, tools);
+
+  // Structured output only applies to plain answers; with tools the client runs the tool loop
+  let responseFormat: StructuredResponseFormat | undefined;
+  try {
+    responseFormat = tools ? undefined : toStructuredResponseFormat(body.response_format);
+  } catch (err: any) {
+    sendError(res, 400, 'invalid_request_error', `Invalid response_format: ${err.message}`);
+    return;
+  }
+
+  let sampling: SamplingOptions;
+  try {
+    sampling = toSamplingOptions(body);
+  } catch (err: any) {
+    sendError(res, 400, 'invalid_request_error', `Invalid sampling parameters: ${err.message}`);
+    return;
+  }
+
+  const dialect = bridge.getToolDialect?.(fabstirModel) ?? toolDialectRegistry.resolve();
+  const { prompt, images } = await convertOpenAIMessages(body.messages, tools, dialect);
   debug('Prompt sent to model:\n' + prompt.slice(0, 2000) + (prompt.length > 2000 ? '\n...[truncated]' : ''));
   if (tools?.length) debug('Tools count:', tools.length, 'names:', tools.map(t => t.function.name).join(', '));
   const inputTokens = estimateInputTokens(prompt);
   const model = body.model;
-  const opts = images.length > 0 ? { images } : undefined;
+  const promptOptions = { ...(images.length > 0 ? { images } : {}), ...(responseFormat ? { responseFormat } : {}), ...sampling };
+  const opts = Object.keys(promptOptions).length > 0 ? promptOptions : undefined;
+  const target = { fabstirModel, clientId: getClientId(req, body.user), signal: clientDisconnectSignal(res) };
+
+  // Backpressure: answer 429 before starting SSE when the session pool cannot take the request
+  const retryAfter = bridge.getRetryAfter?.(fabstirModel);
+  if (retryAfter !== undefined) {
+    sendPoolBusy(res, retryAfter);
+    return;
+  }
 
   if (body.stream === true) {
-    await handleStreaming(res, bridge, prompt, opts, inputTokens, model, tools);
+    await handleStreaming(res, bridge, prompt, opts, inputTokens, model, target, dialect, tools);
   } else {
-    await handleNonStreaming(res, bridge, prompt, opts, inputTokens, model, tools);
+    await handleNonStreaming(res, bridge, prompt, opts, inputTokens, model, target, dialect, tools);
   }
 }
 
+/** Session the prompt runs on: resolved model, pool affinity key and the client's disconnect signal */
+interface PromptTarget { fabstirModel: string; clientId?: string; signal?: AbortSignal }
+
 async function handleStreaming(
   res: ServerResponse, bridge: SessionBridge, prompt: string,
-  opts: any, inputTokens: number, model: string, tools?: any[]
+  opts: any, inputTokens: number, model: string, target: PromptTarget, dialect: ToolDialect, tools?: any[]
 ): Promise<void> {
   const msgId = generateMessageId();
   res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', 'Connection': 'keep-alive' });
@@ -84,7 +132,7 @@ async function handleStreaming(
     const stripThink = createThinkStripper();
 
     if (tools) {
-      const parser = new ToolCallParser();
+      const parser = dialect.createParser();
       let toolCallIndex = 0;
 
       const processEvents = (events: any[]) => {
@@ -106,15 +154,19 @@ async function handleStreaming(
         if (!cleaned) return;
         processEvents(parser.feed(cleaned));
       };
-      await bridge.sendPrompt(prompt, onToken, opts);
+      await bridge.sendPrompt(prompt, onToken, opts, target.fabstirModel, target.clientId, target.signal);
       processEvents(parser.flush());
+    } else if (opts?.responseFormat) {
+      // Invalid attempts are repaired by the SDK, so only the validated JSON is sent
+      const { response } = await bridge.sendPrompt(prompt, undefined, opts, target.fabstirModel, target.clientId, target.signal);
+      write(buildContentDelta(msgId, model, response));
     } else {
       const onToken = (token: string) => {
         const cleaned = stripThink(token);
         if (!cleaned) return;
         write(buildContentDelta(msgId, model, cleaned));
       };
-      await bridge.sendPrompt(prompt, onToken, opts);
+      await bridge.sendPrompt(prompt, onToken, opts, target.fabstirModel, target.clientId, target.signal);
     }
 
     write(buildFinishDelta(msgId, model, hasToolUse ? 'tool_calls' : 'stop'));
@@ -130,10 +182,10 @@ async function handleStreaming(
 
 async function handleNonStreaming(
   res: ServerResponse, bridge: SessionBridge, prompt: string,
-  opts: any, inputTokens: number, model: string, tools?: any[]
+  opts: any, inputTokens: number, model: string, target: PromptTarget, dialect: ToolDialect, tools?: any[]
 ): Promise<void> {
   try {
-    const { response, tokenUsage } = await bridge.sendPrompt(prompt, undefined, opts);
+    const { response, tokenUsage } = await bridge.sendPrompt(prompt, undefined, opts, target.fabstirModel, target.clientId, target.signal);
     const cleanResponse = stripThinkFromText(response);
     const outputTokens = tokenUsage?.llmTokens || 0;
     let content: string | null = cleanResponse;
@@ -141,7 +193,7 @@ async function handleNonStreaming(
     let finishReason = 'stop';
 
     if (tools) {
-      const parser = new ToolCallParser();
+      const parser = dialect.createParser();
       const events = [...parser.feed(cleanResponse), ...parser.flush()];
       const textParts: string[] = [];
       toolCalls = [];
@@ -171,6 +223,14 @@ async function handleNonStreaming(
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify(result));
   } catch (err: any) {
+    if (isSamplingError(err)) {
+      sendError(res, 400, 'invalid_request_error', err.message);
+      return;
+    }
+    if (isPoolBusyError(err)) {
+      sendPoolBusy(res, err.retryAfter);
+      return;
+    }
     sendError(res, 500, 'server_error', err.message || 'Internal error');
   }
 }
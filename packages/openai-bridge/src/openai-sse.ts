@@ -44,6 +44,25 @@ export function buildDoneEvent(): string {
   return 'data: [DONE]\n\n';
 }
 
+/** Error in the middle of a stream, shaped like OpenAI's error responses; the stream ends after it */
+export function buildErrorEvent(message: string, type: string, code?: string): string {
+  return `data: ${JSON.stringify({ error: { message, type, ...(code ? { code } : {}) } })}\n\n`;
+}
+
+export function generateCompletionId(): string {
+  return 'cmpl-' + randomUUID();
+}
+
+/** Legacy /v1/completions stream chunk: text of one choice */
+export function buildCompletionChunk(id: string, model: string, index: number, text: string, finishReason: string | null = null): string {
+  const data = {
+    id, object: 'text_completion',
+    created: Math.floor(Date.now() / 1000), model,
+    choices: [{ text, index, logprobs: null, finish_reason: finishReason }],
+  };
+  return `data: ${JSON.stringify(data)}\n\n`;
+}
+
 export function generateToolCallId(): string {
   return 'call_' + randomUUID().replace(/-/g, '').slice(0, 24);
 }
@@ -0,0 +1,24 @@
+// Response format — maps OpenAI response_format (Chat Completions) and text.format (Responses) to SDK structured output
+
+/** PromptOptions.responseFormat of @fabstir/sdk-core */
+export type StructuredResponseFormat =
+  | { type: 'json_object' }
+  | { type: 'json_schema'; name?: string; schema: Record<string, any>; strict?: boolean };
+
+/**
+ * Convert a request's response format to the SDK option.
+ * Chat Completions nests the schema under json_schema; the Responses API puts it on the format itself.
+ * Returns undefined for plain text; throws on malformed formats.
+ */
+export function toStructuredResponseFormat(format: any): StructuredResponseFormat | undefined {
+  if (format === undefined || format === null || format.type === 'text') return undefined;
+  if (format.type === 'json_object') return { type: 'json_object' };
+  if (format.type !== 'json_schema') {
+    throw new Error(`Unsupported response format type: ${format.type}`);
+  }
+  const spec = format.json_schema ?? format;
+  if (!spec.schema || typeof spec.schema !== 'object') {
+    throw new Error('json_schema response format requires a schema object');
+  }
+  return { type: 'json_schema', name: spec.name, schema: spec.schema, strict: spec.strict === true };
+}
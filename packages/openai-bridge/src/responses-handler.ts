@@ -1,7 +1,10 @@
 import { IncomingMessage, ServerResponse } from 'http';
 import { randomUUID } from 'crypto';
 import { createThinkStripper, stripThinkFromText } from './think-stripper';
-import { ToolCallParser } from './tool-parser';
+import { toolDialectRegistry, ToolDialect, ToolDefinition } from '@fabstir/sdk-core';
+import { toStructuredResponseFormat, StructuredResponseFormat } from './response-format';
+import { toSamplingOptions, isSamplingError, SamplingOptions } from './sampling';
+import { getClientId, isPoolBusyError, clientDisconnectSignal } from '@fabstir/bridge-common';
 import type { SessionBridge } from './session-bridge';
 
 function readBody(req: IncomingMessage): Promise<string> {
@@ -13,32 +16,35 @@ function readBody(req: IncomingMessage): Promise<string> {
   });
 }
 
-function sendError(res: ServerResponse, status: number, type: string, message: string): void {
+function sendError(res: ServerResponse, status: number, type: string, message: string, code?: string): void {
+  const error: any = { message, type };
+  if (code) error.code = code;
   res.writeHead(status, { 'Content-Type': 'application/json' });
-  res.end(JSON.stringify({ error: { message, type } }));
+  res.end(JSON.stringify({ error }));
 }
 
-function formatToolsForPrompt(tools: any[]): string {
-  const lines = ['# Tools'];
-  for (const t of tools) {
-    const name = t.name || t.function?.name || '';
-    const desc = (t.description || t.function?.description || '').split('\n')[0]?.slice(0, 80);
-    const params = t.parameters?.required?.join(', ') || t.function?.parameters?.required?.join(', ') || '';
-    lines.push(`- ${name}: ${desc}${params ? ` [${params}]` : ''}`);
-  }
-  lines.push('');
-  lines.push('IMPORTANT: To perform actions, you MUST output <tool_call> tags.');
-  lines.push('Format: <tool_call>ToolName<arg_key>param</arg_key><arg_value>value</arg_value></tool_call>');
-  lines.push('Example: <tool_call>Bash<arg_key>command</arg_key><arg_value>npm install</arg_value></tool_call>');
-  return lines.join('\n');
+function sendPoolBusy(res: ServerResponse, retryAfter: number): void {
+  res.writeHead(429, { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) });
+  res.end(JSON.stringify({
+    error: { message: `All sessions are busy. Retry after ${retryAfter}s.`, type: 'rate_limit_error', code: 'pool_exhausted' },
+  }));
+}
+
+/** Responses API tools are flat ({name, description, parameters}); Chat Completions nest them under function */
+function toToolDefinition(t: any): ToolDefinition {
+  return {
+    name: t.name || t.function?.name || '',
+    description: t.description || t.function?.description,
+    parameters: t.parameters || t.function?.parameters,
+  };
 }
 
 /** Convert Responses API input to ChatML prompt string */
-function inputToPrompt(input: any, instructions?: string, tools?: any[]): string {
+function inputToPrompt(input: any, instructions: string | undefined, tools: any[] | undefined, dialect: ToolDialect): string {
   const parts: string[] = [];
   const systemParts: string[] = [];
   if (instructions) systemParts.push(instructions);
-  if (tools && tools.length > 0) systemParts.push(formatToolsForPrompt(tools));
+  if (tools && tools.length > 0) systemParts.push(dialect.formatTools(tools.map(toToolDefinition)));
   if (systemParts.length > 0) parts.push(`<|im_start|>system\n${systemParts.join('\n\n')}<|im_end|>`);
 
   if (typeof input === 'string') {
@@ -53,15 +59,12 @@ function inputToPrompt(input: any, instructions?: string, tools?: any[]): string
         } else if (item.arguments && typeof item.arguments === 'object') {
           argsObj = item.arguments;
         }
-        const argParts = Object.entries(argsObj)
-          .map(([k, v]) => `<arg_key>${k}</arg_key><arg_value>${typeof v === 'string' ? v : JSON.stringify(v)}</arg_value>`)
-          .join('');
-        parts.push(`<|im_start|>assistant\n<tool_call>${item.name}${argParts}</tool_call><|im_end|>`);
+        parts.push(`<|im_start|>assistant\n${dialect.formatToolCall(item.name, argsObj)}<|im_end|>`);
         continue;
       }
       // Function call output (tool result)
       if (item.type === 'function_call_output') {
-        parts.push(`<|im_start|>observation\n${item.output || ''}<|im_end|>`);
+        parts.push(`<|im_start|>${dialect.resultRole}\n${dialect.formatToolResult(item.output || '')}<|im_end|>`);
         continue;
       }
       // Regular message
@@ -120,6 +123,13 @@ export async function handleResponses(
     return;
   }
 
+  // Without a model the bridge's default model answers
+  const fabstirModel = body.model ? await bridge.resolveModel(body.model) : undefined;
+  if (body.model && !fabstirModel) {
+    sendError(res, 404, 'invalid_request_error', `The model '${body.model}' does not exist`, 'model_not_found');
+    return;
+  }
+
   // Circuit breaker: reject immediately with 503 before starting SSE
   if ((bridge as any).isCircuitOpen?.()) {
     const reason = (bridge as any).getCircuitError?.() || 'persistent session errors';
@@ -129,29 +139,63 @@ export async function handleResponses(
 
   const model = body.model || 'unknown';
   const tools = body.tools && body.tools.length > 0 ? body.tools : undefined;
-  const prompt = inputToPrompt(body.input, body.instructions, tools);
+
+  // Structured output (text.format) only applies to plain answers; with tools the client runs the tool loop
+  let responseFormat: StructuredResponseFormat | undefined;
+  try {
+    responseFormat = tools ? undefined : toStructuredResponseFormat(body.text?.format);
+  } catch (err: any) {
+    sendError(res, 400, 'invalid_request_error', `Invalid text.format: ${err.message}`);
+    return;
+  }
+
+  let sampling: SamplingOptions;
+  try {
+    sampling = toSamplingOptions(body);
+  } catch (err: any) {
+    sendError(res, 400, 'invalid_request_error', `Invalid sampling parameters: ${err.message}`);
+    return;
+  }
+
+  const dialect = bridge.getToolDialect?.(fabstirModel) ?? toolDialectRegistry.resolve();
+  const prompt = inputToPrompt(body.input, body.instructions, tools, dialect);
   const inputTokens = estimateTokens(prompt);
+  const promptOptions: PromptOpts = { ...(responseFormat ? { responseFormat } : {}), ...sampling };
+  const opts = Object.keys(promptOptions).length > 0 ? promptOptions : undefined;
+  const clientId = getClientId(req, body.user);
+  const signal = clientDisconnectSignal(res);
+
+  // Backpressure: answer 429 before starting SSE when the session pool cannot take the request
+  const retryAfter = bridge.getRetryAfter?.(fabstirModel);
+  if (retryAfter !== undefined) {
+    sendPoolBusy(res, retryAfter);
+    return;
+  }
 
   if (body.stream === true) {
-    await handleStreaming(res, bridge, prompt, inputTokens, model, tools);
+    await handleStreaming(res, bridge, prompt, inputTokens, model, dialect, tools, opts, fabstirModel, clientId, signal);
   } else {
-    await handleNonStreaming(res, bridge, prompt, inputTokens, model, tools);
+    await handleNonStreaming(res, bridge, prompt, inputTokens, model, dialect, tools, opts, fabstirModel, clientId, signal);
   }
 }
 
+/** SDK prompt options built from the request */
+type PromptOpts = SamplingOptions & { responseFormat?: StructuredResponseFormat };
+
 async function handleNonStreaming(
   res: ServerResponse, bridge: SessionBridge, prompt: string,
-  inputTokens: number, model: string, tools?: any[],
+  inputTokens: number, model: string, dialect: ToolDialect, tools?: any[],
+  opts?: PromptOpts, fabstirModel?: string, clientId?: string, signal?: AbortSignal,
 ): Promise<void> {
   try {
-    const { response, tokenUsage } = await bridge.sendPrompt(prompt);
+    const { response, tokenUsage } = await bridge.sendPrompt(prompt, undefined, opts, fabstirModel, clientId, signal);
     const text = stripThinkFromText(response);
     const outputTokens = tokenUsage?.llmTokens || 0;
     const respId = genId('resp');
 
     const output: any[] = [];
     if (tools) {
-      const parser = new ToolCallParser();
+      const parser = dialect.createParser();
       const events = [...parser.feed(text), ...parser.flush()];
       let textContent = '';
       for (const evt of events) {
@@ -185,13 +229,22 @@ async function handleNonStreaming(
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify(result));
   } catch (err: any) {
+    if (isSamplingError(err)) {
+      sendError(res, 400, 'invalid_request_error', err.message);
+      return;
+    }
+    if (isPoolBusyError(err)) {
+      sendPoolBusy(res, err.retryAfter);
+      return;
+    }
     sendError(res, 500, 'server_error', err.message || 'Internal error');
   }
 }
 
 async function handleStreaming(
   res: ServerResponse, bridge: SessionBridge, prompt: string,
-  inputTokens: number, model: string, tools?: any[],
+  inputTokens: number, model: string, dialect: ToolDialect, tools?: any[],
+  opts?: PromptOpts, fabstirModel?: string, clientId?: string, signal?: AbortSignal,
 ): Promise<void> {
   const respId = genId('resp');
   const msgId = genId('msg');
@@ -222,7 +275,7 @@ async function handleStreaming(
     let outputIndex = 1; // 0 is the text message
 
     if (tools) {
-      const parser = new ToolCallParser();
+      const parser = dialect.createParser();
 
       const processEvents = (parserEvents: any[]) => {
         for (const evt of parserEvents) {
@@ -259,7 +312,7 @@ async function handleStreaming(
         if (!cleaned) return;
         processEvents(parser.feed(cleaned));
       };
-      const { tokenUsage } = await bridge.sendPrompt(prompt, onToken);
+      const { tokenUsage } = await bridge.sendPrompt(prompt, onToken, opts, fabstirModel, clientId, signal);
       processEvents(parser.flush());
 
       // Close text message
@@ -280,8 +333,15 @@ async function handleStreaming(
           item_id: msgId, output_index: 0, content_index: 0, delta: cleaned,
         }));
       };
-      const { tokenUsage } = await bridge.sendPrompt(prompt, onToken);
-      const outputTokens = tokenUsage?.llmTokens || 0;
+      let result;
+      if (opts?.responseFormat) {
+        // Invalid attempts are repaired by the SDK, so only the validated JSON is sent
+        result = await bridge.sendPrompt(prompt, undefined, opts, fabstirModel, clientId, signal);
+        onToken(result.response);
+      } else {
+        result = await bridge.sendPrompt(prompt, onToken, opts, fabstirModel, clientId, signal);
+      }
+      const outputTokens = result.tokenUsage?.llmTokens || 0;
 
       write(sseEvent('response.output_text.done', { item_id: msgId, output_index: 0, content_index: 0, text: fullText }));
       write(sseEvent('response.content_part.done', { item_id: msgId, output_index: 0, content_index: 0, part: { type: 'output_text', text: fullText } }));
@@ -0,0 +1,76 @@
+// Sampling — maps OpenAI request sampling fields (Chat Completions and Responses) to SDK prompt options
+
+/** Sampling fields of PromptOptions in @fabstir/sdk-core */
+export interface SamplingOptions {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  topK?: number;
+  minP?: number;
+  repeatPenalty?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stop?: string[];
+  seed?: number;
+  logitBias?: Record<string, number>;
+}
+
+/** Request fields read as numbers, by SDK option (first field present wins) */
+const NUMBER_FIELDS: Array<[keyof SamplingOptions, string[]]> = [
+  ['temperature', ['temperature']],
+  ['maxTokens', ['max_completion_tokens', 'max_tokens', 'max_output_tokens']],
+  ['topP', ['top_p']],
+  ['topK', ['top_k']],
+  ['minP', ['min_p']],
+  ['repeatPenalty', ['repetition_penalty', 'repeat_penalty']],
+  ['frequencyPenalty', ['frequency_penalty']],
+  ['presencePenalty', ['presence_penalty']],
+  ['seed', ['seed']],
+];
+
+/** OpenAI defaults that leave sampling unchanged; clients often send them explicitly */
+const NEUTRAL_VALUES: Partial<Record<keyof SamplingOptions, number>> = {
+  topP: 1,
+  frequencyPenalty: 0,
+  presencePenalty: 0,
+};
+
+/**
+ * Convert the sampling fields of a request to SDK options.
+ * Fields that are absent, null or set to their neutral OpenAI default are left out, so they need no host support.
+ * top_k, min_p and repetition_penalty are accepted as the llama.cpp/vLLM extensions of the OpenAI format.
+ * Throws on fields of the wrong type; value ranges and host support are checked by the SDK.
+ */
+export function toSamplingOptions(body: any): SamplingOptions {
+  const options: SamplingOptions = {};
+
+  for (const [option, fields] of NUMBER_FIELDS) {
+    const field = fields.find(f => body[f] !== undefined && body[f] !== null);
+    if (!field) continue;
+    if (typeof body[field] !== 'number') throw new Error(`${field} must be a number`);
+    if (body[field] === NEUTRAL_VALUES[option]) continue;
+    (options as any)[option] = body[field];
+  }
+
+  if (body.stop !== undefined && body.stop !== null) {
+    const stop = typeof body.stop === 'string' ? [body.stop] : body.stop;
+    if (!Array.isArray(stop) || stop.some((s: unknown) => typeof s !== 'string')) {
+      throw new Error('stop must be a string or an array of strings');
+    }
+    options.stop = stop;
+  }
+
+  if (body.logit_bias !== undefined && body.logit_bias !== null) {
+    if (typeof body.logit_bias !== 'object' || Array.isArray(body.logit_bias)) {
+      throw new Error('logit_bias must be an object mapping token IDs to biases');
+    }
+    options.logitBias = body.logit_bias;
+  }
+
+  return options;
+}
+
+/** SDK error codes for sampling options the SDK or the host rejects */
+export function isSamplingError(err: any): boolean {
+  return err?.code === 'INVALID_SAMPLING_OPTIONS' || err?.code === 'SAMPLING_NOT_SUPPORTED';
+}
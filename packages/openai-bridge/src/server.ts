@@ -2,21 +2,56 @@ import http from 'http';
 import { handleChatCompletions } from './openai-handler';
 import { handleImageGeneration } from './image-handler';
 import { handleResponses } from './responses-handler';
+import { handleEmbeddings } from './embeddings-handler';
+import { handleCompletions } from './completions-handler';
+import {
+  AdminFormat, ApiKeyError, ApiKeyRecord, ApiKeyStore, UsageLedger, handleAdmin, isApiKeyError, secretsMatch,
+} from '@fabstir/bridge-common';
 import type { SessionBridge } from './session-bridge';
 
+/** Tenant keys: each request is checked and metered against its key; adminKey enables /admin */
+export interface TenantOptions {
+  keys: ApiKeyStore;
+  ledger?: UsageLedger;
+  adminKey?: string;
+}
+
+/** /admin bodies in OpenAI's error and list shapes */
+const ADMIN_FORMAT: AdminFormat = {
+  error: (type, message) => ({ error: { message, type } }),
+  list: (keys) => ({ object: 'list', data: keys }),
+};
+
+function bearerToken(req: http.IncomingMessage): string {
+  return (req.headers['authorization'] || '').replace(/^Bearer\s+/i, '');
+}
+
+function sendKeyDenied(res: http.ServerResponse, err: ApiKeyError): void {
+  const [status, type, code] = err.reason === 'rate_limited' ? [429, 'rate_limit_error', 'rate_limit_exceeded']
+    : err.reason === 'quota_exceeded' ? [429, 'insufficient_quota', 'insufficient_quota']
+    : err.reason === 'model_not_allowed' ? [403, 'permission_error', 'model_not_allowed']
+    : [401, 'authentication_error', 'invalid_api_key'];
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (err.retryAfter !== undefined) headers['Retry-After'] = String(err.retryAfter);
+  res.writeHead(status, headers);
+  res.end(JSON.stringify({ error: { message: err.message, type, code } }));
+}
+
 export class BridgeServer {
   private server?: http.Server;
   private port: number;
   private bridge: SessionBridge;
   private modelName: string;
   private apiKey?: string;
+  private tenants?: TenantOptions;
   private actualPort = 0;
 
-  constructor(port: number, bridge: SessionBridge, modelName: string, apiKey?: string) {
+  constructor(port: number, bridge: SessionBridge, modelName: string, apiKey?: string, tenants?: TenantOptions) {
     this.port = port;
     this.bridge = bridge;
     this.modelName = modelName;
     this.apiKey = apiKey;
+    this.tenants = tenants;
   }
 
   async start(): Promise<void> {
@@ -35,6 +70,7 @@ export class BridgeServer {
   async stop(): Promise<void> {
     return new Promise((resolve, reject) => {
       if (!this.server) return resolve();
+      this.tenants?.keys.flush(); // Usage recorded since the last batched save
       this.server.close((err) => (err ? reject(err) : resolve()));
       this.server = undefined;
     });
@@ -56,41 +92,81 @@ export class BridgeServer {
       return;
     }
 
-    // Health check
+    // Health check, with session pool metrics
     if (url === '/health' && method === 'GET') {
       res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ status: 'ok' }));
+      res.end(JSON.stringify({ status: 'ok', pool: this.bridge.getPoolMetrics?.() }));
+      return;
+    }
+
+    // Admin endpoints: only with tenant keys and an admin key
+    if (url.startsWith('/admin/') && this.tenants?.adminKey) {
+      if (!secretsMatch(bearerToken(req), this.tenants.adminKey)) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'Invalid admin key', type: 'authentication_error' } }));
+        return;
+      }
+      handleAdmin(req, res, ADMIN_FORMAT, this.tenants.keys, this.tenants.ledger).catch(() => {
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: { message: 'Internal server error', type: 'server_error' } }));
+        }
+      });
       return;
     }
 
-    // Models list
+    // Models list: discovered models and aliases (those a tenant key allows); the configured model if discovery is unavailable
     if (url === '/v1/models' && method === 'GET') {
-      res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ object: 'list', data: [{ id: this.modelName, object: 'model' }] }));
+      const key = this.findKey(bearerToken(req));
+      const bridge = key ? this.tenants!.keys.meter(this.bridge, key, url, this.modelName) : this.bridge;
+      Promise.resolve()
+        .then(() => bridge.listModels())
+        .catch(() => [this.modelName])
+        .then((ids) => {
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ object: 'list', data: ids.map(id => ({ id, object: 'model', owned_by: 'fabstir' })) }));
+        });
       return;
     }
 
     // POST endpoints: validate content-type and API key
-    if (method === 'POST' && (url === '/v1/chat/completions' || url === '/v1/images/generations' || url === '/v1/responses')) {
+    if (method === 'POST' && (url === '/v1/chat/completions' || url === '/v1/images/generations'
+      || url === '/v1/responses' || url === '/v1/embeddings' || url === '/v1/completions')) {
       const ct = req.headers['content-type'] || '';
       if (!ct.includes('application/json')) {
         res.writeHead(400, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({ error: { message: 'Content-Type must be application/json', type: 'invalid_request_error' } }));
         return;
       }
-      if (this.apiKey) {
-        const auth = req.headers['authorization'] || '';
-        const token = auth.replace(/^Bearer\s+/i, '');
-        if (token !== this.apiKey) {
-          res.writeHead(401, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ error: { message: 'Invalid API key', type: 'authentication_error' } }));
+      // The shared apiKey stays unrestricted; tenant keys are checked, then metered
+      const token = bearerToken(req);
+      let bridge = this.bridge;
+      if (this.apiKey && secretsMatch(token, this.apiKey)) {
+        // Shared key
+      } else if (this.tenants) {
+        try {
+          const key = this.tenants.keys.authenticate(token);
+          if (url === '/v1/images/generations' && !this.tenants.keys.allowsModel(key, this.modelName)) {
+            throw new ApiKeyError(`API key cannot use model ${this.modelName}`, 'model_not_allowed');
+          }
+          this.tenants.keys.admit(key);
+          bridge = this.tenants.keys.meter(this.bridge, key, url, this.modelName);
+        } catch (err) {
+          if (!isApiKeyError(err)) throw err;
+          sendKeyDenied(res, err);
           return;
         }
+      } else if (this.apiKey) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: { message: 'Invalid API key', type: 'authentication_error' } }));
+        return;
       }
 
       const handler = url === '/v1/chat/completions' ? handleChatCompletions
-        : url === '/v1/responses' ? handleResponses : handleImageGeneration;
-      handler(req, res, this.bridge).catch((err) => {
+        : url === '/v1/responses' ? handleResponses
+        : url === '/v1/embeddings' ? handleEmbeddings
+        : url === '/v1/completions' ? handleCompletions : handleImageGeneration;
+      handler(req, res, bridge).catch((err) => {
         if (!res.headersSent) {
           res.writeHead(500, { 'Content-Type': 'application/json' });
           res.end(JSON.stringify({ error: { message: 'Internal server error', type: 'server_error' } }));
@@ -103,4 +179,14 @@ export class BridgeServer {
     res.writeHead(404, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({ error: { message: 'Not found', type: 'not_found_error' } }));
   }
+
+  /** Valid tenant key for a token, if any (model listing is filtered for it but stays open without one) */
+  private findKey(token: string): ApiKeyRecord | undefined {
+    if (!this.tenants || !token) return undefined;
+    try {
+      return this.tenants.keys.authenticate(token);
+    } catch {
+      return undefined;
+    }
+  }
 }
@@ -2,21 +2,33 @@ import 'fake-indexeddb/auto';
 import WebSocket from 'ws';
 (globalThis as any).WebSocket = WebSocket;
 
-import { FabstirSDKCore, ChainRegistry, ChainId } from '@fabstir/sdk-core';
+import { FabstirSDKCore, ChainRegistry, ChainId, HostAdapter, toolDialectRegistry, ToolDialect } from '@fabstir/sdk-core';
 import { OpenAIBridgeConfig } from './config';
+import { resolveFimTemplate, FimTemplate } from './fim';
+import { SessionPool, PoolSlot, PoolMetrics } from '@fabstir/bridge-common';
 
 export interface SendPromptResult {
   response: string;
-  tokenUsage?: { llmTokens: number; vlmTokens: number; totalTokens: number };
+  tokenUsage?: { llmTokens: number; vlmTokens: number; totalTokens: number; promptTokens?: number; cost?: bigint };
+}
+
+export interface ImageResult {
+  image: string; // Base64 image data
+  billing?: { generationUnits: number }; // Units the host bills for the image
+}
+
+export interface EmbedResult {
+  embeddings: number[][];
+  model: string; // Embedding model of the host
+  totalTokens: number; // 0 when the host reports no token counts
 }
 
 export class SessionBridge {
   private config: OpenAIBridgeConfig;
   private sdk?: FabstirSDKCore;
   private sessionManager?: any;
-  private sessionId?: bigint;
-  private queue: Array<{ execute: () => Promise<void> }> = [];
-  private processing = false;
+  private pool: SessionPool; // Sessions per Fabstir model string, opened on first use
+  private availableModels?: { models: string[]; fetchedAt: number };
   private lastResetTime = 0;
   private consecutiveFailures = 0;
   private circuitError: string | null = null;
@@ -24,9 +36,14 @@ export class SessionBridge {
   private static RESET_COOLDOWN_MS = 5000;
   private static CIRCUIT_OPEN_MS = 60000;
   private static CIRCUIT_THRESHOLD = 2;
+  private static MODELS_CACHE_MS = 60000;
+  private static EMBED_BATCH_SIZE = 96; // Texts per host /v1/embed request
 
   constructor(config: OpenAIBridgeConfig) {
     this.config = config;
+    this.pool = new SessionPool({
+      maxSessions: config.poolSize, maxQueueDepth: config.maxQueueDepth, queueTimeoutMs: config.queueTimeout * 1000,
+    });
   }
 
   async initialize(): Promise<void> {
@@ -46,13 +63,70 @@ export class SessionBridge {
         url.replace(/\blocalhost\b/g, localhostOverride).replace(/\b127\.0\.0\.1\b/g, localhostOverride)
       );
     }
+
+    // Model discovery needs host lookups (sdk-core does not wire this automatically)
+    this.sdk.getModelManager().setHostManager(this.sdk.getHostManager());
+  }
+
+  /** Approved models with at least one host, as `repo:file` strings; cached for a minute */
+  async getAvailableModels(): Promise<string[]> {
+    const cached = this.availableModels;
+    if (cached && Date.now() - cached.fetchedAt < SessionBridge.MODELS_CACHE_MS) return cached.models;
+    let models: string[];
+    try {
+      const discovered = await this.sdk!.getModelManager().getAvailableModelsWithHosts();
+      models = discovered
+        .filter((m: any) => m.isAvailable)
+        .map((m: any) => `${m.model.huggingfaceRepo}:${m.model.fileName}`);
+    } catch (err: any) {
+      console.error(`[${new Date().toISOString()}] Model discovery failed, serving ${this.config.modelName} only: ${err.message}`);
+      models = [];
+    }
+    if (!models.includes(this.config.modelName)) models.unshift(this.config.modelName);
+    this.availableModels = { models, fetchedAt: Date.now() };
+    return models;
+  }
+
+  /** Model ids for /v1/models: available models, then aliases that point at one of them */
+  async listModels(): Promise<string[]> {
+    const models = await this.getAvailableModels();
+    const aliases = Object.entries(this.config.modelAliases || {})
+      .filter(([alias, target]) => alias !== '*' && models.includes(target) && !models.includes(alias))
+      .map(([alias]) => alias);
+    return [...models, ...aliases];
+  }
+
+  /**
+   * Fabstir model string for a requested model or alias; undefined when it is not served.
+   * A `*` alias opts in to a catch-all for other client model names (gpt-4o and other OpenAI names);
+   * a Fabstir `repo:file` id is never redirected.
+   */
+  async resolveModel(requested: string): Promise<string | undefined> {
+    const aliases = this.config.modelAliases || {};
+    const models = await this.getAvailableModels();
+    const model = aliases[requested] ?? requested;
+    if (models.includes(model)) return model;
+    const fallback = aliases['*'];
+    if (!fallback || requested in aliases || requested.includes(':')) return undefined;
+    return models.includes(fallback) ? fallback : undefined;
+  }
+
+  /** Session of the model's first pool slot, opened if needed, without a lease (direct session access) */
+  async ensureSession(model: string = this.config.modelName): Promise<bigint> {
+    return this.openSession(this.pool.primarySlot(model));
+  }
+
+  private openSession(slot: PoolSlot): Promise<bigint> {
+    if (slot.sessionId !== undefined) return Promise.resolve(slot.sessionId);
+    slot.opening ??= this.startSession(slot).finally(() => { slot.opening = undefined; });
+    return slot.opening;
   }
 
-  async ensureSession(): Promise<bigint> {
-    if (this.sessionId !== undefined) return this.sessionId;
+  private async startSession(slot: PoolSlot): Promise<bigint> {
+    const model = slot.model;
     const sessionConfig: Record<string, any> = {
       chainId: this.config.chainId,
-      modelId: this.config.modelName,
+      modelId: model,
       paymentMethod: 'deposit' as const,
       depositAmount: this.config.depositAmount,
       pricePerToken: this.config.pricePerToken,
@@ -60,14 +134,39 @@ export class SessionBridge {
       duration: this.config.duration,
       encryption: true,
     };
-    if (this.config.hostAddress) sessionConfig.host = this.config.hostAddress;
+    // Configured hosts serve the default model (pool slots take turns); other models use host discovery
+    const hosts = this.config.hostAddresses?.length ? this.config.hostAddresses
+      : this.config.hostAddress ? [this.config.hostAddress] : [];
+    if (hosts.length > 0 && model === this.config.modelName) sessionConfig.host = hosts[slot.index % hosts.length];
     const { sessionId } = await this.sessionManager.startSession(sessionConfig);
-    this.sessionId = sessionId;
+    slot.sessionId = sessionId;
     return sessionId;
   }
 
-  async sendPrompt(prompt: string, onToken?: (token: string) => void, options?: any): Promise<SendPromptResult> {
-    return this.enqueue(() => this.doSendPrompt(prompt, onToken, options));
+  /**
+   * Runs on an idle pooled session of the model; throws PoolBusyError when the pool and its queue are
+   * full or no session frees up in time. A queued request gives up its place when signal aborts.
+   */
+  async sendPrompt(
+    prompt: string, onToken?: (token: string) => void, options?: any, model: string = this.config.modelName,
+    clientId?: string, signal?: AbortSignal
+  ): Promise<SendPromptResult> {
+    // Circuit breaker: if open, reject immediately
+    if (this.isCircuitOpen()) {
+      throw new Error(`Circuit breaker open (${this.circuitError}). Will retry after ${Math.ceil((SessionBridge.CIRCUIT_OPEN_MS - (Date.now() - this.circuitOpenTime)) / 1000)}s.`);
+    }
+    return this.withSlot(model, clientId, signal, (slot) => this.doSendPrompt(slot, prompt, onToken, options));
+  }
+
+  private async withSlot<T>(
+    model: string, clientId: string | undefined, signal: AbortSignal | undefined, run: (slot: PoolSlot) => Promise<T>
+  ): Promise<T> {
+    const slot = await this.pool.acquire(model, clientId, signal);
+    try {
+      return await run(slot);
+    } finally {
+      this.pool.release(slot);
+    }
   }
 
   private static isRecoverableSessionError(err: any): boolean {
@@ -78,62 +177,104 @@ export class SessionBridge {
       || msg.includes('decrypt') || msg.includes('aead') || msg.includes('Decryption failed');
   }
 
-  private async doSendPrompt(prompt: string, onToken?: (token: string) => void, options?: any): Promise<SendPromptResult> {
-    // Circuit breaker: if open, reject immediately
-    if (this.isCircuitOpen()) {
-      throw new Error(`Circuit breaker open (${this.circuitError}). Will retry after ${Math.ceil((SessionBridge.CIRCUIT_OPEN_MS - (Date.now() - this.circuitOpenTime)) / 1000)}s.`);
-    }
-
+  private async doSendPrompt(
+    slot: PoolSlot, prompt: string, onToken: ((token: string) => void) | undefined, options: any
+  ): Promise<SendPromptResult> {
     // Cooldown: if we recently reset due to a persistent error, fail fast
     const now = Date.now();
-    if (this.sessionId === undefined && this.lastResetTime > 0 && now - this.lastResetTime < SessionBridge.RESET_COOLDOWN_MS) {
+    if (slot.sessionId === undefined && this.lastResetTime > 0 && now - this.lastResetTime < SessionBridge.RESET_COOLDOWN_MS) {
       throw new Error('Session recovery cooldown active — last reset was too recent (decryption/session error). Retry in a few seconds.');
     }
 
-    const sessionId = await this.ensureSession();
+    const sessionId = await this.openSession(slot);
     try {
-      const response = await this.sessionManager.sendPromptStreaming(sessionId, prompt, onToken, options);
-      const tokenUsage = this.sessionManager.getLastTokenUsage(sessionId);
+      const result = this.toResult(sessionId, await this.sessionManager.sendPromptStreaming(sessionId, prompt, onToken, options));
       this.consecutiveFailures = 0;
       this.circuitError = null;
-      return { response, tokenUsage };
+      return result;
     } catch (err: any) {
       if (!SessionBridge.isRecoverableSessionError(err)) throw err;
       this.consecutiveFailures++;
       console.error(`[${new Date().toISOString()}] Recoverable session error, resetting: ${err.message}`);
-      this.sessionId = undefined;
+      slot.sessionId = undefined;
       this.lastResetTime = Date.now();
       try {
-        const newId = await this.ensureSession();
-        const response = await this.sessionManager.sendPromptStreaming(newId, prompt, onToken, options);
-        const tokenUsage = this.sessionManager.getLastTokenUsage(newId);
+        const newId = await this.openSession(slot);
+        const result = this.toResult(newId, await this.sessionManager.sendPromptStreaming(newId, prompt, onToken, options));
         this.consecutiveFailures = 0;
         this.circuitError = null;
-        return { response, tokenUsage };
+        return result;
       } catch (retryErr: any) {
         // Recovery also failed — open circuit breaker
         this.consecutiveFailures++;
         this.circuitError = retryErr?.message || 'Unknown error';
         this.circuitOpenTime = Date.now();
-        this.sessionId = undefined;
+        slot.sessionId = undefined;
         console.error(`[${new Date().toISOString()}] Circuit breaker OPEN after ${this.consecutiveFailures} failures. Will block requests for ${SessionBridge.CIRCUIT_OPEN_MS / 1000}s.`);
         throw retryErr;
       }
     }
   }
 
+  /** Prompts with a responseFormat resolve with the parsed value; pass it on as JSON text */
+  private toResult(sessionId: bigint, response: unknown): SendPromptResult {
+    const text = typeof response === 'string' ? response : JSON.stringify(response);
+    return { response: text, tokenUsage: this.sessionManager.getLastTokenUsage(sessionId) };
+  }
+
+  /** Generates an image on a pooled session of the default model, reopening the session once if it expired */
+  async generateImage(
+    prompt: string, options: { size: string; steps: number }, clientId?: string, signal?: AbortSignal
+  ): Promise<ImageResult> {
+    return this.withSlot(this.config.modelName, clientId, signal, async (slot) => {
+      // generateImage() takes the session id as a string (sessions map uses string keys)
+      const sessionId = await this.openSession(slot);
+      try {
+        return await this.sessionManager.generateImage(sessionId.toString(), prompt, options);
+      } catch (err: any) {
+        const code = err?.code || '';
+        const msg = err?.message || '';
+        const isSessionErr = code === 'SESSION_NOT_FOUND' || code === 'SESSION_NOT_ACTIVE'
+          || msg.includes('SESSION_NOT_FOUND') || msg.includes('SESSION_NOT_ACTIVE');
+        if (!isSessionErr) throw err;
+        slot.sessionId = undefined;
+        const newId = await this.openSession(slot);
+        return await this.sessionManager.generateImage(newId.toString(), prompt, options);
+      }
+    });
+  }
+
+  /** Embeds texts on the host of a pooled session of the default model */
+  async embed(texts: string[], clientId?: string, signal?: AbortSignal): Promise<EmbedResult> {
+    return this.withSlot(this.config.modelName, clientId, signal, (slot) => this.embedOnHost(slot, texts));
+  }
+
+  private async embedOnHost(slot: PoolSlot, texts: string[]): Promise<EmbedResult> {
+    const sessionId = await this.openSession(slot);
+    const endpoint: string = this.sessionManager.getSession(sessionId.toString())?.endpoint || 'http://localhost:8080';
+    const hostUrl = endpoint.replace('ws://', 'http://').replace('wss://', 'https://').replace('/ws', '');
+    const adapter = new HostAdapter({ hostUrl, chainId: this.config.chainId });
+    const result: EmbedResult = { embeddings: [], model: '', totalTokens: 0 };
+    for (let i = 0; i < texts.length; i += SessionBridge.EMBED_BATCH_SIZE) {
+      const batch = await adapter.embedBatch(texts.slice(i, i + SessionBridge.EMBED_BATCH_SIZE));
+      result.embeddings.push(...batch.embeddings.map((e: any) => e.embedding));
+      result.totalTokens += batch.totalTokens || batch.embeddings.reduce((sum: number, e: any) => sum + (e.tokenCount || 0), 0);
+      result.model = batch.model;
+    }
+    return result;
+  }
+
   async shutdown(): Promise<void> {
-    if (this.sessionId !== undefined && this.sessionManager) {
-      try { await this.sessionManager.endSession(this.sessionId); } catch { /* best-effort */ }
-      this.sessionId = undefined;
+    for (const slot of this.pool.drain()) {
+      try { await this.sessionManager?.endSession(slot.sessionId); } catch { /* best-effort */ }
     }
     this.sdk = undefined;
     this.sessionManager = undefined;
   }
 
-  async resetSession(): Promise<bigint> {
-    this.sessionId = undefined;
-    return this.ensureSession();
+  async resetSession(model: string = this.config.modelName): Promise<bigint> {
+    this.pool.primarySlot(model).sessionId = undefined;
+    return this.ensureSession(model);
   }
 
   isCircuitOpen(): boolean {
@@ -150,24 +291,11 @@ export class SessionBridge {
   getCircuitError(): string | null { return this.circuitError; }
 
   getSessionManager(): any { return this.sessionManager; }
-  getSessionId(): bigint | undefined { return this.sessionId; }
-
-  private enqueue<T>(fn: () => Promise<T>): Promise<T> {
-    return new Promise<T>((resolve, reject) => {
-      this.queue.push({
-        execute: async () => { try { resolve(await fn()); } catch (e) { reject(e); } },
-      });
-      this.processQueue();
-    });
-  }
+  getSessionId(model: string = this.config.modelName): bigint | undefined { return this.pool.slotsFor(model)[0]?.sessionId; }
+  getToolDialect(model: string = this.config.modelName): ToolDialect { return toolDialectRegistry.resolve(model, this.config.toolDialect); }
+  getFimTemplate(model: string = this.config.modelName): FimTemplate | undefined { return resolveFimTemplate(model, this.config.fimTemplate); }
 
-  private async processQueue(): Promise<void> {
-    if (this.processing) return;
-    this.processing = true;
-    while (this.queue.length > 0) {
-      const item = this.queue.shift()!;
-      await item.execute();
-    }
-    this.processing = false;
-  }
+  /** Seconds a client should wait when a request for the model would be rejected now; undefined otherwise */
+  getRetryAfter(model: string = this.config.modelName): number | undefined { return this.pool.retryAfterFor(model); }
+  getPoolMetrics(): PoolMetrics { return this.pool.getMetrics(); }
 }
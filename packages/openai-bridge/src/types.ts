@@ -30,13 +30,30 @@ export interface OpenAIChatRequest {
   messages: OpenAIChatMessage[];
   tools?: OpenAITool[];
   max_tokens?: number;
+  max_completion_tokens?: number;
   temperature?: number;
   top_p?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  seed?: number;
+  logit_bias?: Record<string, number>;
+  /** llama.cpp / vLLM sampling extensions */
+  top_k?: number;
+  min_p?: number;
+  repetition_penalty?: number;
   stream?: boolean;
   stop?: string | string[];
   tool_choice?: string | object;
+  response_format?: OpenAIResponseFormat;
+  /** End-user id; keeps the user's requests on the same pooled session */
+  user?: string;
 }
 
+export type OpenAIResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | { type: 'json_schema'; json_schema: { name: string; description?: string; schema: Record<string, any>; strict?: boolean } };
+
 export interface OpenAIChatCompletionChunk {
   id: string;
   object: 'chat.completion.chunk';
@@ -87,6 +104,7 @@ export interface OpenAIImageRequest {
   quality?: string;
   style?: string;
   response_format?: string;
+  user?: string;
 }
 
 export interface OpenAIImageResponse {
@@ -94,6 +112,53 @@ export interface OpenAIImageResponse {
   data: Array<{ b64_json?: string; url?: string; revised_prompt?: string }>;
 }
 
+export interface OpenAICompletionRequest {
+  model: string;
+  prompt: string | string[];
+  suffix?: string; // Fill-in-the-middle: text after the cursor
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  n?: number;
+  stream?: boolean;
+  logprobs?: number | null;
+  echo?: boolean;
+  stop?: string | string[];
+  user?: string;
+  [key: string]: any; // Other sampling fields (see sampling.ts)
+}
+
+export interface OpenAICompletionChoice {
+  text: string;
+  index: number;
+  logprobs: null;
+  finish_reason: string;
+}
+
+export interface OpenAICompletion {
+  id: string;
+  object: 'text_completion';
+  created: number;
+  model: string;
+  choices: OpenAICompletionChoice[];
+  usage: OpenAIUsage;
+}
+
+export interface OpenAIEmbeddingRequest {
+  model: string;
+  input: string | string[];
+  encoding_format?: 'float' | 'base64';
+  dimensions?: number;
+  user?: string;
+}
+
+export interface OpenAIEmbeddingResponse {
+  object: 'list';
+  data: Array<{ object: 'embedding'; index: number; embedding: number[] | string }>;
+  model: string;
+  usage: { prompt_tokens: number; total_tokens: number };
+}
+
 export interface OpenAIErrorResponse {
   error: { message: string; type: string; param?: string; code?: string };
 }
@@ -0,0 +1,278 @@
+import { describe, it, expect, vi } from 'vitest';
+import { handleCompletions } from '../src/completions-handler';
+import { getFimTemplate } from '../src/fim';
+import { PoolBusyError } from '@fabstir/bridge-common';
+import type { IncomingMessage } from 'http';
+
+const CODER = 'Qwen/Qwen2.5-Coder-7B-GGUF:qwen2.5-coder-7b-q4_k_m.gguf';
+
+function createMockBridge(response = 'Hello world', llmTokens = 5): any {
+  return {
+    sendPrompt: vi.fn(async (prompt: string, onToken?: (t: string) => void) => {
+      if (onToken) { onToken('Hello'); onToken(' world'); }
+      return { response, tokenUsage: { llmTokens, vlmTokens: 0, totalTokens: llmTokens } };
+    }),
+    resolveModel: vi.fn(async (model: string) => (model === 'unknown-model' ? undefined : model === 'coder' ? CODER : model)),
+    getFimTemplate: vi.fn((model: string) => (model === CODER ? getFimTemplate('qwen') : undefined)),
+    getRetryAfter: vi.fn(() => undefined),
+  };
+}
+
+function createMockReq(body: any): IncomingMessage {
+  const raw = JSON.stringify(body);
+  const req: any = {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    on: (event: string, cb: Function) => {
+      if (event === 'data') cb(raw);
+      if (event === 'end') cb();
+      return req;
+    },
+  };
+  return req as IncomingMessage;
+}
+
+function createMockRes() {
+  const s = { written: [] as string[], statusCode: 200, headers: {} as any };
+  const res: any = {
+    writeHead: vi.fn((code: number, h: any) => { s.statusCode = code; s.headers = h; }),
+    write: vi.fn((data: string) => { s.written.push(data); }),
+    end: vi.fn((data?: string) => { if (data) s.written.push(data); }),
+    on: vi.fn(),
+    flushHeaders: vi.fn(),
+  };
+  return { res, s };
+}
+
+async function complete(body: any, bridge = createMockBridge()) {
+  const { res, s } = createMockRes();
+  await handleCompletions(createMockReq(body), res, bridge);
+  return { status: s.statusCode, headers: s.headers, body: JSON.parse(s.written[0]) };
+}
+
+async function stream(body: any, bridge = createMockBridge()) {
+  const { res, s } = createMockRes();
+  await handleCompletions(createMockReq({ ...body, stream: true }), res, bridge);
+  const events = s.written.filter(w => w.startsWith('data: ')).map(w => w.slice(6).trim());
+  return { done: events[events.length - 1], chunks: events.slice(0, -1).map(e => JSON.parse(e)) };
+}
+
+describe('Completions Handler', () => {
+  it('returns a text_completion with usage and the 16-token default', async () => {
+    const bridge = createMockBridge();
+    const { status, body } = await complete({ model: 'test', prompt: 'Say hello' }, bridge);
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ object: 'text_completion', model: 'test' });
+    expect(body.id).toMatch(/^cmpl-/);
+    expect(body.choices).toEqual([{ text: 'Hello world', index: 0, logprobs: null, finish_reason: 'stop' }]);
+    expect(body.usage).toEqual({ prompt_tokens: 3, completion_tokens: 5, total_tokens: 8 });
+    expect(bridge.sendPrompt).toHaveBeenCalledWith('Say hello', undefined, { maxTokens: 16 }, 'test', undefined, expect.any(AbortSignal));
+  });
+
+  it('reports finish_reason length when max_tokens is reached', async () => {
+    const { body } = await complete({ model: 'test', prompt: 'x', max_tokens: 5 });
+
+    expect(body.choices[0].finish_reason).toBe('length');
+  });
+
+  it('formats suffix requests with the model FIM template, stop tokens and short defaults', async () => {
+    const bridge = createMockBridge('return a + b<|endoftext|><|fim_prefix|>junk');
+    const { body } = await complete({ model: 'coder', prompt: 'def add(a, b):\n    ', suffix: '\n\nprint(add(1, 2))', stop: ['\n\n'] }, bridge);
+
+    const [prompt, , opts, model] = bridge.sendPrompt.mock.calls[0];
+    expect(prompt).toBe('<|fim_prefix|>def add(a, b):\n    <|fim_suffix|>\n\nprint(add(1, 2))<|fim_middle|>');
+    expect(model).toBe(CODER);
+    expect(opts).toMatchObject({ maxTokens: 64, temperature: 0.2 });
+    // Sent to hosts that support stop; the bridge cuts the output at the same tokens either way
+    expect(opts.stop).toEqual([...getFimTemplate('qwen').stop, '\n\n']);
+    expect(body.choices[0]).toMatchObject({ text: 'return a + b', finish_reason: 'stop' });
+  });
+
+  it('resends FIM requests without stop to hosts that do not support it and cuts the output itself', async () => {
+    const bridge = createMockBridge('return a + b<|file_sep|>other.py', 64);
+    const unsupported = Object.assign(new Error('Host does not support sampling parameter(s): stop'), {
+      code: 'SAMPLING_NOT_SUPPORTED', details: { unsupported: ['stop'] },
+    });
+    bridge.sendPrompt.mockRejectedValueOnce(unsupported);
+    const { status, body } = await complete({ model: 'coder', prompt: 'def add(a, b):\n    ', suffix: '\n' }, bridge);
+
+    expect(status).toBe(200);
+    expect(bridge.sendPrompt).toHaveBeenCalledTimes(2);
+    expect(bridge.sendPrompt.mock.calls[1][2]).not.toHaveProperty('stop');
+    expect(bridge.sendPrompt.mock.calls[1][2]).toMatchObject({ maxTokens: 64, temperature: 0.2 });
+    expect(body.choices[0]).toMatchObject({ text: 'return a + b', finish_reason: 'stop' });
+  });
+
+  it('keeps answering 400 for plain completions with a stop the host does not support', async () => {
+    const bridge = createMockBridge();
+    bridge.sendPrompt.mockRejectedValue(Object.assign(new Error('Host does not support sampling parameter(s): stop'), {
+      code: 'SAMPLING_NOT_SUPPORTED', details: { unsupported: ['stop'] },
+    }));
+    const { status } = await complete({ model: 'test', prompt: 'a', stop: ['\n'] }, bridge);
+
+    expect(status).toBe(400);
+    expect(bridge.sendPrompt).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps explicit sampling parameters over the FIM defaults', async () => {
+    const bridge = createMockBridge();
+    await complete({ model: 'coder', prompt: 'a', suffix: 'b', max_tokens: 128, temperature: 0 }, bridge);
+
+    expect(bridge.sendPrompt.mock.calls[0][2]).toMatchObject({ maxTokens: 128, temperature: 0 });
+  });
+
+  it('treats an empty suffix as a plain completion', async () => {
+    const bridge = createMockBridge();
+    await complete({ model: 'test', prompt: 'a', suffix: '' }, bridge);
+
+    expect(bridge.sendPrompt.mock.calls[0][0]).toBe('a');
+  });
+
+  it('rejects suffix for models without a FIM format', async () => {
+    const bridge = createMockBridge();
+    const { status, body } = await complete({ model: 'test', prompt: 'a', suffix: 'b' }, bridge);
+
+    expect(status).toBe(400);
+    expect(body.error.message).toContain("Model 'test' has no fill-in-the-middle format");
+    expect(bridge.sendPrompt).not.toHaveBeenCalled();
+  });
+
+  it('echoes the prompt before the completion', async () => {
+    const { body } = await complete({ model: 'test', prompt: 'Say: ', echo: true });
+
+    expect(body.choices[0].text).toBe('Say: Hello world');
+  });
+
+  it('answers echo with max_tokens 0 without generating', async () => {
+    const bridge = createMockBridge();
+    const { body } = await complete({ model: 'test', prompt: 'Score me', echo: true, max_tokens: 0 }, bridge);
+
+    expect(body.choices).toEqual([{ text: 'Score me', index: 0, logprobs: null, finish_reason: 'length' }]);
+    expect(body.usage.completion_tokens).toBe(0);
+    expect(bridge.sendPrompt).not.toHaveBeenCalled();
+  });
+
+  it('runs n choices per prompt with prompt-major indices on the client session', async () => {
+    const bridge = createMockBridge();
+    const { body } = await complete({ model: 'test', prompt: ['a', 'b'], n: 2, user: 'editor-1' }, bridge);
+
+    expect(body.choices.map((c: any) => c.index)).toEqual([0, 1, 2, 3]);
+    expect(bridge.sendPrompt.mock.calls.map((c: any[]) => c[0])).toEqual(['a', 'a', 'b', 'b']);
+    expect(bridge.sendPrompt.mock.calls[0][4]).toBe('editor-1');
+    expect(body.usage.completion_tokens).toBe(20);
+  });
+
+  it('accepts logprobs and answers with null', async () => {
+    const { status, body } = await complete({ model: 'test', prompt: 'a', logprobs: 3 });
+
+    expect(status).toBe(200);
+    expect(body.choices[0].logprobs).toBeNull();
+  });
+
+  it('rejects invalid requests', async () => {
+    const cases: [any, string][] = [
+      [{ model: 'test' }, 'Missing required field: prompt'],
+      [{ prompt: 'a' }, 'Missing required field: model'],
+      [{ model: 'test', prompt: [1, 2] }, 'token arrays are not supported'],
+      [{ model: 'test', prompt: 'a', suffix: 3 }, 'suffix must be a string'],
+      [{ model: 'test', prompt: 'a', n: 9 }, 'n must be an integer from 1 to 8'],
+      [{ model: 'test', prompt: 'a', logprobs: 6 }, 'logprobs must be an integer from 0 to 5'],
+      [{ model: 'coder', prompt: 'a', suffix: 'b', echo: true }, 'echo is not supported with suffix'],
+      [{ model: 'test', prompt: 'a', max_tokens: 0 }, 'max_tokens must be at least 1 unless echo is set'],
+      [{ model: 'test', prompt: 'a', temperature: 'hot' }, 'Invalid sampling parameters'],
+    ];
+    for (const [request, message] of cases) {
+      const bridge = createMockBridge();
+      const { status, body } = await complete(request, bridge);
+      expect(status).toBe(400);
+      expect(body.error.message).toContain(message);
+      expect(bridge.sendPrompt).not.toHaveBeenCalled();
+    }
+  });
+
+  it('returns 404 model_not_found for unknown models', async () => {
+    const { status, body } = await complete({ model: 'unknown-model', prompt: 'a' });
+
+    expect(status).toBe(404);
+    expect(body.error.code).toBe('model_not_found');
+  });
+
+  it('returns 429 with Retry-After when the session pool is busy', async () => {
+    const bridge = createMockBridge();
+    bridge.getRetryAfter.mockReturnValue(3);
+    const { status, headers, body } = await complete({ model: 'test', prompt: 'a' }, bridge);
+
+    expect(status).toBe(429);
+    expect(headers['Retry-After']).toBe('3');
+    expect(body.error.code).toBe('pool_exhausted');
+  });
+
+  it('returns 429 when the pool fills while waiting', async () => {
+    const bridge = createMockBridge();
+    bridge.sendPrompt.mockRejectedValue(new PoolBusyError('busy', 2));
+    const { status, headers } = await complete({ model: 'test', prompt: 'a' }, bridge);
+
+    expect(status).toBe(429);
+    expect(headers['Retry-After']).toBe('2');
+  });
+
+  it('returns 500 server_error when generation fails', async () => {
+    const bridge = createMockBridge();
+    bridge.sendPrompt.mockRejectedValue(new Error('host down'));
+    const { status, body } = await complete({ model: 'test', prompt: 'a' }, bridge);
+
+    expect(status).toBe(500);
+    expect(body.error).toEqual({ message: 'host down', type: 'server_error' });
+  });
+
+  describe('streaming', () => {
+    it('streams text chunks, a finish chunk per choice and [DONE]', async () => {
+      const { chunks, done } = await stream({ model: 'test', prompt: 'a', n: 2 });
+
+      expect(done).toBe('[DONE]');
+      expect(chunks.every(c => c.object === 'text_completion' && c.id === chunks[0].id)).toBe(true);
+      expect(chunks.map(c => [c.choices[0].index, c.choices[0].text, c.choices[0].finish_reason])).toEqual([
+        [0, 'Hello', null], [0, ' world', null], [0, '', 'stop'],
+        [1, 'Hello', null], [1, ' world', null], [1, '', 'stop'],
+      ]);
+    });
+
+    it('streams the echoed prompt first', async () => {
+      const { chunks } = await stream({ model: 'test', prompt: 'Say: ', echo: true });
+
+      expect(chunks.map(c => c.choices[0].text)).toEqual(['Say: ', 'Hello', ' world', '']);
+    });
+
+    it('ends the stream with an error event instead of [DONE] when generation fails', async () => {
+      const bridge = createMockBridge();
+      bridge.sendPrompt.mockRejectedValue(new Error('host down'));
+      const { chunks, done } = await stream({ model: 'test', prompt: 'a' }, bridge);
+
+      expect(chunks).toEqual([]);
+      expect(JSON.parse(done)).toEqual({ error: { message: 'host down', type: 'server_error' } });
+    });
+
+    it('reports a pool that filled while waiting as a rate_limit_error event', async () => {
+      const bridge = createMockBridge();
+      bridge.sendPrompt.mockRejectedValue(new PoolBusyError('No session was free', 3));
+      const { done } = await stream({ model: 'test', prompt: 'a' }, bridge);
+
+      expect(JSON.parse(done).error).toMatchObject({ type: 'rate_limit_error', code: 'pool_exhausted' });
+    });
+
+    it('stops streaming an infill at a stop token split across tokens', async () => {
+      const bridge = createMockBridge();
+      bridge.sendPrompt.mockImplementation(async (_prompt: string, onToken?: (t: string) => void) => {
+        for (const token of ['return a', ' + b<|endo', 'ftext|>', 'junk']) onToken!(token);
+        return { response: 'return a + b<|endoftext|>junk', tokenUsage: { llmTokens: 6, vlmTokens: 0, totalTokens: 6 } };
+      });
+      const { chunks, done } = await stream({ model: 'coder', prompt: 'def add(a, b):\n    ', suffix: '\n' }, bridge);
+
+      expect(done).toBe('[DONE]');
+      expect(chunks.map(c => [c.choices[0].text, c.choices[0].finish_reason])).toEqual([
+        ['return a', null], [' + b', null], ['', 'stop'],
+      ]);
+    });
+  });
+});
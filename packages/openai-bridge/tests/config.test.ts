@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { validateConfig, loadConfigFromEnv, DEFAULT_PORT, DEFAULT_CHAIN_ID, DEFAULT_DEPOSIT_AMOUNT } from '../src/config';
+import { validateConfig, loadConfigFromEnv, parseModelAliases, DEFAULT_PORT, DEFAULT_CHAIN_ID, DEFAULT_DEPOSIT_AMOUNT } from '../src/config';
 
 describe('Config', () => {
   it('validates with minimal required fields (privateKey + modelName)', () => {
@@ -26,6 +26,24 @@ describe('Config', () => {
     expect(DEFAULT_DEPOSIT_AMOUNT).toBe('0.0002');
   });
 
+  it('applies pool defaults and rejects invalid pool limits', () => {
+    const config = validateConfig({ privateKey: '0xabc', modelName: 'model' });
+    expect(config.poolSize).toBe(4);
+    expect(config.maxQueueDepth).toBe(16);
+    expect(config.queueTimeout).toBe(60);
+    expect(() => validateConfig({ privateKey: '0xabc', modelName: 'model', poolSize: 0 })).toThrow('Invalid poolSize');
+    expect(() => validateConfig({ privateKey: '0xabc', modelName: 'model', maxQueueDepth: -1 })).toThrow('Invalid maxQueueDepth');
+    expect(() => validateConfig({ privateKey: '0xabc', modelName: 'model', queueTimeout: 0 })).toThrow('Invalid queueTimeout');
+  });
+
+  it('places the usage ledger next to the key store and requires a key store for adminKey', () => {
+    const config = validateConfig({ privateKey: '0xabc', modelName: 'model', keyStorePath: '/data/keys.json' });
+    expect(config.usageLedgerPath).toBe('/data/usage.jsonl');
+    expect(validateConfig({ privateKey: '0xabc', modelName: 'model' }).usageLedgerPath).toBeUndefined();
+    expect(() => validateConfig({ privateKey: '0xabc', modelName: 'model', adminKey: 'admin' }))
+      .toThrow('adminKey requires keyStorePath');
+  });
+
   it('throws on missing privateKey', () => {
     expect(() => validateConfig({ modelName: 'model' })).toThrow('privateKey');
   });
@@ -39,7 +57,10 @@ describe('Config', () => {
     const envKeys = [
       'OPENAI_BRIDGE_PORT', 'OPENAI_BRIDGE_PRIVATE_KEY', 'OPENAI_BRIDGE_HOST',
       'OPENAI_BRIDGE_MODEL', 'OPENAI_BRIDGE_RPC_URL', 'OPENAI_BRIDGE_CHAIN_ID',
-      'OPENAI_BRIDGE_DEPOSIT', 'OPENAI_BRIDGE_API_KEY',
+      'OPENAI_BRIDGE_DEPOSIT', 'OPENAI_BRIDGE_API_KEY', 'OPENAI_BRIDGE_TOOL_DIALECT',
+      'OPENAI_BRIDGE_MODEL_ALIASES', 'OPENAI_BRIDGE_HOSTS', 'OPENAI_BRIDGE_POOL_SIZE', 'OPENAI_BRIDGE_MAX_QUEUE',
+      'OPENAI_BRIDGE_QUEUE_TIMEOUT',
+      'OPENAI_BRIDGE_KEY_STORE', 'OPENAI_BRIDGE_USAGE_LEDGER', 'OPENAI_BRIDGE_ADMIN_KEY', 'OPENAI_BRIDGE_FIM_TEMPLATE',
     ];
 
     beforeEach(() => {
@@ -62,6 +83,49 @@ describe('Config', () => {
       expect(envConfig.port).toBe(4000);
     });
 
+    it('reads and validates OPENAI_BRIDGE_TOOL_DIALECT', () => {
+      process.env.OPENAI_BRIDGE_TOOL_DIALECT = 'qwen';
+      const config = validateConfig({ ...loadConfigFromEnv(), privateKey: '0xKey', modelName: 'Model' });
+      expect(config.toolDialect).toBe('qwen');
+      expect(() => validateConfig({ privateKey: '0xKey', modelName: 'Model', toolDialect: 'nope' }))
+        .toThrow('Unknown tool dialect: nope');
+    });
+
+    it('reads and validates OPENAI_BRIDGE_FIM_TEMPLATE', () => {
+      process.env.OPENAI_BRIDGE_FIM_TEMPLATE = 'codestral';
+      const config = validateConfig({ ...loadConfigFromEnv(), privateKey: '0xKey', modelName: 'Model' });
+      expect(config.fimTemplate).toBe('codestral');
+      expect(() => validateConfig({ privateKey: '0xKey', modelName: 'Model', fimTemplate: 'nope' }))
+        .toThrow('Unknown FIM template: nope');
+    });
+
+    it('reads OPENAI_BRIDGE_MODEL_ALIASES as alias=model pairs', () => {
+      process.env.OPENAI_BRIDGE_MODEL_ALIASES = 'gpt-4o=Org/Big:big.gguf, gpt-4o-mini=Org/Small:small.gguf';
+      expect(loadConfigFromEnv().modelAliases).toEqual({
+        'gpt-4o': 'Org/Big:big.gguf', 'gpt-4o-mini': 'Org/Small:small.gguf',
+      });
+      expect(() => parseModelAliases('gpt-4o')).toThrow('Invalid model alias "gpt-4o"');
+    });
+
+    it('reads pool settings from OPENAI_BRIDGE_HOSTS, _POOL_SIZE, _MAX_QUEUE and _QUEUE_TIMEOUT', () => {
+      process.env.OPENAI_BRIDGE_HOSTS = '0xHostA, 0xHostB';
+      process.env.OPENAI_BRIDGE_POOL_SIZE = '2';
+      process.env.OPENAI_BRIDGE_MAX_QUEUE = '8';
+      process.env.OPENAI_BRIDGE_QUEUE_TIMEOUT = '30';
+      expect(loadConfigFromEnv()).toMatchObject({
+        hostAddresses: ['0xHostA', '0xHostB'], poolSize: 2, maxQueueDepth: 8, queueTimeout: 30,
+      });
+    });
+
+    it('reads tenant key settings from OPENAI_BRIDGE_KEY_STORE, _USAGE_LEDGER and _ADMIN_KEY', () => {
+      process.env.OPENAI_BRIDGE_KEY_STORE = '/data/keys.json';
+      process.env.OPENAI_BRIDGE_USAGE_LEDGER = '/logs/usage.jsonl';
+      process.env.OPENAI_BRIDGE_ADMIN_KEY = 'admin-secret';
+      expect(loadConfigFromEnv()).toMatchObject({
+        keyStorePath: '/data/keys.json', usageLedgerPath: '/logs/usage.jsonl', adminKey: 'admin-secret',
+      });
+    });
+
     it('CLI args override env vars', () => {
       process.env.OPENAI_BRIDGE_PORT = '4000';
       const envConfig = loadConfigFromEnv();
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi } from 'vitest';
+import { handleEmbeddings, shortenEmbedding, encodeEmbeddingBase64 } from '../src/embeddings-handler';
+import { PoolBusyError } from '@fabstir/bridge-common';
+import type { IncomingMessage } from 'http';
+
+const vector = (seed: number) => Array.from({ length: 384 }, (_, i) => ((i + seed) % 7) / 10);
+
+function createMockBridge(totalTokens = 12): any {
+  return {
+    embed: vi.fn(async (texts: string[]) => ({
+      embeddings: texts.map((_, i) => vector(i)), model: 'all-MiniLM-L6-v2', totalTokens,
+    })),
+  };
+}
+
+function createMockReq(body: any): IncomingMessage {
+  const raw = JSON.stringify(body);
+  const req: any = {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    on: (event: string, cb: Function) => {
+      if (event === 'data') cb(raw);
+      if (event === 'end') cb();
+      return req;
+    },
+  };
+  return req as IncomingMessage;
+}
+
+function createMockRes() {
+  const s = { written: [] as string[], statusCode: 200, headers: {} as any };
+  const res: any = {
+    writeHead: vi.fn((code: number, h: any) => { s.statusCode = code; s.headers = h; }),
+    write: vi.fn((data: string) => { s.written.push(data); }),
+    end: vi.fn((data?: string) => { if (data) s.written.push(data); }),
+    on: vi.fn(),
+  };
+  return { res, s };
+}
+
+async function embed(body: any, bridge = createMockBridge()) {
+  const { res, s } = createMockRes();
+  await handleEmbeddings(createMockReq(body), res, bridge);
+  return { status: s.statusCode, headers: s.headers, body: JSON.parse(s.written[0]) };
+}
+
+describe('Embeddings Handler', () => {
+  it('embeds a single string in the OpenAI list shape with usage', async () => {
+    const bridge = createMockBridge();
+    const { status, body } = await embed({ model: 'text-embedding-3-small', input: 'hello world', user: 'rag-1' }, bridge);
+
+    expect(status).toBe(200);
+    expect(bridge.embed).toHaveBeenCalledWith(['hello world'], 'rag-1', expect.any(AbortSignal));
+    expect(body).toMatchObject({ object: 'list', model: 'text-embedding-3-small', usage: { prompt_tokens: 12, total_tokens: 12 } });
+    expect(body.data).toEqual([{ object: 'embedding', index: 0, embedding: vector(0) }]);
+  });
+
+  it('embeds batched input arrays in order', async () => {
+    const { body } = await embed({ model: 'm', input: ['a', 'b', 'c'] });
+
+    expect(body.data.map((d: any) => d.index)).toEqual([0, 1, 2]);
+    expect(body.data[2].embedding).toEqual(vector(2));
+  });
+
+  it('estimates usage when the host reports no token counts', async () => {
+    const { body } = await embed({ model: 'm', input: ['abcdefgh', 'abcd'] }, createMockBridge(0));
+
+    expect(body.usage).toEqual({ prompt_tokens: 3, total_tokens: 3 });
+  });
+
+  it('returns base64 float32 embeddings for encoding_format base64', async () => {
+    const { body } = await embed({ model: 'm', input: 'x', encoding_format: 'base64' });
+
+    const bytes = Buffer.from(body.data[0].embedding, 'base64');
+    const decoded = Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, bytes.length / 4));
+    expect(decoded).toHaveLength(384);
+    decoded.forEach((v, i) => expect(v).toBeCloseTo(vector(0)[i], 6));
+  });
+
+  it('shortens embeddings to unit length for dimensions', async () => {
+    const { body } = await embed({ model: 'm', input: 'x', dimensions: 64 });
+
+    const embedding: number[] = body.data[0].embedding;
+    expect(embedding).toHaveLength(64);
+    expect(Math.sqrt(embedding.reduce((s, v) => s + v * v, 0))).toBeCloseTo(1, 6);
+    expect(shortenEmbedding([3, 4, 12], 2)).toEqual([0.6, 0.8]);
+    expect(encodeEmbeddingBase64([1])).toBe(Buffer.from(new Float32Array([1]).buffer).toString('base64'));
+  });
+
+  it('rejects missing fields, token arrays, empty strings, bad formats and dimensions', async () => {
+    const cases: [any, string][] = [
+      [{ model: 'm' }, 'Missing required field: input'],
+      [{ input: 'x' }, 'Missing required field: model'],
+      [{ model: 'm', input: [1, 2, 3] }, 'token arrays are not supported'],
+      [{ model: 'm', input: [] }, 'non-empty array'],
+      [{ model: 'm', input: ['ok', ' '] }, 'input cannot contain empty strings'],
+      [{ model: 'm', input: 'x', encoding_format: 'int8' }, 'Invalid encoding_format: int8'],
+      [{ model: 'm', input: 'x', dimensions: 1536 }, 'dimensions must be an integer from 1 to 384'],
+    ];
+    for (const [request, message] of cases) {
+      const bridge = createMockBridge();
+      const { status, body } = await embed(request, bridge);
+      expect(status).toBe(400);
+      expect(body.error.message).toContain(message);
+      expect(bridge.embed).not.toHaveBeenCalled();
+    }
+  });
+
+  it('returns 500 server_error when the host fails', async () => {
+    const bridge = { embed: vi.fn().mockRejectedValue(new Error('Host embedding failed (503): busy')) };
+    const { status, body } = await embed({ model: 'm', input: 'x' }, bridge);
+
+    expect(status).toBe(500);
+    expect(body.error).toEqual({ message: 'Host embedding failed (503): busy', type: 'server_error' });
+  });
+
+  it('returns 429 with Retry-After when no pooled session is free', async () => {
+    const bridge = { embed: vi.fn().mockRejectedValue(new PoolBusyError('busy', 2)) };
+    const { status, headers, body } = await embed({ model: 'm', input: 'x' }, bridge);
+
+    expect(status).toBe(429);
+    expect(headers['Retry-After']).toBe('2');
+    expect(body.error.code).toBe('pool_exhausted');
+  });
+});
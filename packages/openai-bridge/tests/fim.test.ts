@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { createStopCutter, cutAtStop, getFimTemplate, hasFimTemplate, registerFimTemplate, resolveFimTemplate } from '../src/fim';
+
+describe('FIM templates', () => {
+  it('resolves the template from the model family', () => {
+    const cases: [string, string][] = [
+      ['bigcode/starcoder2-7b-GGUF:starcoder2-7b-Q4_K_M.gguf', 'starcoder'],
+      ['TheBloke/CodeLlama-7B-GGUF:codellama-7b.Q4_K_M.gguf', 'codellama'],
+      ['TheBloke/deepseek-coder-6.7B-base-GGUF:deepseek-coder-6.7b-base.Q4_K_M.gguf', 'deepseek'],
+      ['google/codegemma-2b-GGUF:codegemma-2b.Q4_K_M.gguf', 'codegemma'],
+      ['Qwen/Qwen2.5-Coder-7B-GGUF:qwen2.5-coder-7b-q4_k_m.gguf', 'qwen'],
+      ['bartowski/Codestral-22B-v0.1-GGUF:Codestral-22B-v0.1-Q4_K_M.gguf', 'codestral'],
+    ];
+    for (const [model, name] of cases) expect(resolveFimTemplate(model)?.name).toBe(name);
+  });
+
+  it('returns undefined for chat models without a FIM format', () => {
+    expect(resolveFimTemplate('CohereForAI/TinyVicuna-1B-32k-GGUF:tiny-vicuna-1b.q4_k_m.gguf')).toBeUndefined();
+    expect(resolveFimTemplate('Qwen/Qwen2.5-7B-Instruct-GGUF:qwen2.5-7b-instruct-q4_k_m.gguf')).toBeUndefined();
+    expect(resolveFimTemplate()).toBeUndefined();
+  });
+
+  it('uses the override for any model and rejects unknown names', () => {
+    expect(resolveFimTemplate('CohereForAI/TinyVicuna-1B-32k-GGUF:tiny-vicuna-1b.q4_k_m.gguf', 'qwen')?.name).toBe('qwen');
+    expect(() => resolveFimTemplate('m', 'nope')).toThrow('Unknown FIM template: nope');
+    expect(hasFimTemplate('codestral')).toBe(true);
+    expect(hasFimTemplate('nope')).toBe(false);
+  });
+
+  it('formats prefix and suffix in each family order', () => {
+    expect(getFimTemplate('starcoder').format('def f(', '):')).toBe('<fim_prefix>def f(<fim_suffix>):<fim_middle>');
+    expect(getFimTemplate('codellama').format('def f(', '):')).toBe('<PRE> def f( <SUF>): <MID>');
+    expect(getFimTemplate('qwen').format('a', 'b')).toBe('<|fim_prefix|>a<|fim_suffix|>b<|fim_middle|>');
+    expect(getFimTemplate('codestral').format('a', 'b')).toBe('[SUFFIX]b[PREFIX]a');
+    expect(getFimTemplate('deepseek').stop).toContain('<｜fim▁begin｜>');
+  });
+
+  it('prefers later registrations for the same model', () => {
+    registerFimTemplate({ name: 'custom-starcoder', modelPattern: /my-starcoder/i, format: (p, s) => `${s}|${p}`, stop: [] });
+
+    expect(resolveFimTemplate('org/my-starcoder:model.gguf')?.name).toBe('custom-starcoder');
+    expect(resolveFimTemplate('bigcode/starcoder2:model.gguf')?.name).toBe('starcoder');
+  });
+
+  it('cuts text at the first stop string', () => {
+    expect(cutAtStop('a<b>c<d>', ['<d>', '<b>'])).toEqual({ text: 'a', stopped: true });
+    expect(cutAtStop('abc', ['<d>', ''])).toEqual({ text: 'abc', stopped: false });
+  });
+
+  it('holds back a streamed tail that could begin a stop string until the next token decides it', () => {
+    const cutter = createStopCutter(['<|endoftext|>']);
+
+    expect(cutter.push('x = 1<|end')).toBe('x = 1');
+    expect(cutter.push('ing')).toBe('<|ending');
+    expect(cutter.push('<|')).toBe('');
+    expect(cutter.end()).toBe('<|');
+
+    const stopped = createStopCutter(['<|endoftext|>']);
+    expect(stopped.push('y<|endof')).toBe('y');
+    expect(stopped.push('text|>more')).toBe('');
+    expect(stopped.push('more')).toBe('');
+    expect(stopped.end()).toBe('');
+  });
+});
@@ -1,15 +1,11 @@
 import { describe, it, expect, vi } from 'vitest';
 import { handleImageGeneration } from '../src/image-handler';
+import { PoolBusyError } from '@fabstir/bridge-common';
 import type { IncomingMessage, ServerResponse } from 'http';
 
 function createMockBridge(imageBase64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk'): any {
-  const mockSessionManager = {
-    generateImage: vi.fn().mockResolvedValue({ image: imageBase64 }),
-  };
   return {
-    ensureSession: vi.fn().mockResolvedValue(42n),
-    getSessionManager: vi.fn().mockReturnValue(mockSessionManager),
-    getSessionId: vi.fn().mockReturnValue(42n),
+    generateImage: vi.fn().mockResolvedValue({ image: imageBase64 }),
   };
 }
 
@@ -17,7 +13,7 @@ function createMockReq(body: any): IncomingMessage {
   const raw = JSON.stringify(body);
   const req: any = {
     method: 'POST',
-    headers: { 'content-type': 'application/json' },
+    headers: { 'content-type': 'application/json', 'x-client-id': 'studio-1' },
     on: (event: string, cb: Function) => {
       if (event === 'data') cb(raw);
       if (event === 'end') cb();
@@ -33,6 +29,7 @@ function createMockRes() {
     writeHead: vi.fn((code: number, h: any) => { s.statusCode = code; s.headers = h; }),
     write: vi.fn((data: string) => { s.written.push(data); }),
     end: vi.fn((data?: string) => { if (data) s.written.push(data); }),
+    on: vi.fn(),
   };
   return { res, s };
 }
@@ -69,14 +66,15 @@ describe('Image Handler', () => {
     expect(body.data[0].revised_prompt).toBe('A mountain');
   });
 
-  it('passes sessionId as string to generateImage (not bigint)', async () => {
+  it('generates on a pooled session leased for the client', async () => {
     const bridge = createMockBridge();
     const req = createMockReq({ prompt: 'Test' });
     const { res } = createMockRes();
     await handleImageGeneration(req, res as any, bridge);
-    const genCall = bridge.getSessionManager().generateImage.mock.calls[0];
-    expect(typeof genCall[0]).toBe('string');
-    expect(genCall[0]).toBe('42');
+    const genCall = bridge.generateImage.mock.calls[0];
+    expect(genCall[0]).toBe('Test');
+    expect(genCall[2]).toBe('studio-1');
+    expect(genCall[3]).toBeInstanceOf(AbortSignal);
   });
 
   it('default size is 1024x1024', async () => {
@@ -84,8 +82,8 @@ describe('Image Handler', () => {
     const req = createMockReq({ prompt: 'Test' });
     const { res } = createMockRes();
     await handleImageGeneration(req, res as any, bridge);
-    const genCall = bridge.getSessionManager().generateImage.mock.calls[0];
-    expect(genCall[2].size).toBe('1024x1024');
+    const genCall = bridge.generateImage.mock.calls[0];
+    expect(genCall[1].size).toBe('1024x1024');
   });
 
   it('maps quality "standard" to 4 steps', async () => {
@@ -93,8 +91,8 @@ describe('Image Handler', () => {
     const req = createMockReq({ prompt: 'Test', quality: 'standard' });
     const { res } = createMockRes();
     await handleImageGeneration(req, res as any, bridge);
-    const genCall = bridge.getSessionManager().generateImage.mock.calls[0];
-    expect(genCall[2].steps).toBe(4);
+    const genCall = bridge.generateImage.mock.calls[0];
+    expect(genCall[1].steps).toBe(4);
   });
 
   it('maps quality "hd" to 20 steps', async () => {
@@ -102,8 +100,8 @@ describe('Image Handler', () => {
     const req = createMockReq({ prompt: 'Test', quality: 'hd' });
     const { res } = createMockRes();
     await handleImageGeneration(req, res as any, bridge);
-    const genCall = bridge.getSessionManager().generateImage.mock.calls[0];
-    expect(genCall[2].steps).toBe(20);
+    const genCall = bridge.generateImage.mock.calls[0];
+    expect(genCall[1].steps).toBe(20);
   });
 
   it('maps OpenAI size 1024x1792 to Fabstir 768x1024', async () => {
@@ -111,8 +109,8 @@ describe('Image Handler', () => {
     const req = createMockReq({ prompt: 'Test', size: '1024x1792' });
     const { res } = createMockRes();
     await handleImageGeneration(req, res as any, bridge);
-    const genCall = bridge.getSessionManager().generateImage.mock.calls[0];
-    expect(genCall[2].size).toBe('768x1024');
+    const genCall = bridge.generateImage.mock.calls[0];
+    expect(genCall[1].size).toBe('768x1024');
   });
 
   it('maps OpenAI size 1792x1024 to Fabstir 1024x768', async () => {
@@ -120,8 +118,8 @@ describe('Image Handler', () => {
     const req = createMockReq({ prompt: 'Test', size: '1792x1024' });
     const { res } = createMockRes();
     await handleImageGeneration(req, res as any, bridge);
-    const genCall = bridge.getSessionManager().generateImage.mock.calls[0];
-    expect(genCall[2].size).toBe('1024x768');
+    const genCall = bridge.generateImage.mock.calls[0];
+    expect(genCall[1].size).toBe('1024x768');
   });
 
   it('n=2 returns 2 images in data array', async () => {
@@ -131,7 +129,7 @@ describe('Image Handler', () => {
     await handleImageGeneration(req, res as any, bridge);
     const body = JSON.parse(s.written[0]);
     expect(body.data).toHaveLength(2);
-    expect(bridge.getSessionManager().generateImage).toHaveBeenCalledTimes(2);
+    expect(bridge.generateImage).toHaveBeenCalledTimes(2);
   });
 
   it('missing prompt returns 400 error', async () => {
@@ -158,7 +156,7 @@ describe('Image Handler', () => {
     const bridge = createMockBridge();
     const err = new Error('PROMPT_BLOCKED');
     (err as any).code = 'PROMPT_BLOCKED';
-    bridge.getSessionManager().generateImage.mockRejectedValueOnce(err);
+    bridge.generateImage.mockRejectedValueOnce(err);
     const req = createMockReq({ prompt: 'Bad content' });
     const { res, s } = createMockRes();
     await handleImageGeneration(req, res as any, bridge);
@@ -171,7 +169,7 @@ describe('Image Handler', () => {
     const bridge = createMockBridge();
     const err = new Error('RATE_LIMIT_EXCEEDED');
     (err as any).code = 'RATE_LIMIT_EXCEEDED';
-    bridge.getSessionManager().generateImage.mockRejectedValueOnce(err);
+    bridge.generateImage.mockRejectedValueOnce(err);
     const req = createMockReq({ prompt: 'Test' });
     const { res, s } = createMockRes();
     await handleImageGeneration(req, res as any, bridge);
@@ -182,41 +180,21 @@ describe('Image Handler', () => {
     const bridge = createMockBridge();
     const err = new Error('DIFFUSION_SERVICE_UNAVAILABLE');
     (err as any).code = 'DIFFUSION_SERVICE_UNAVAILABLE';
-    bridge.getSessionManager().generateImage.mockRejectedValueOnce(err);
+    bridge.generateImage.mockRejectedValueOnce(err);
     const req = createMockReq({ prompt: 'Test' });
     const { res, s } = createMockRes();
     await handleImageGeneration(req, res as any, bridge);
     expect(s.statusCode).toBe(503);
   });
 
-  it('SESSION_NOT_FOUND retries with new session and string sessionId', async () => {
-    const mockSessionManager = {
-      generateImage: vi.fn()
-        .mockRejectedValueOnce(Object.assign(new Error('SESSION_NOT_FOUND'), { code: 'SESSION_NOT_FOUND' }))
-        .mockResolvedValueOnce({ image: 'retried_image_data' }),
-    };
-    let sessionCounter = 0n;
-    const bridge: any = {
-      ensureSession: vi.fn().mockResolvedValue(42n),
-      getSessionManager: vi.fn().mockReturnValue(mockSessionManager),
-      getSessionId: vi.fn().mockReturnValue(42n),
-      resetSession: vi.fn(async () => {
-        sessionCounter++;
-        bridge.getSessionId.mockReturnValue(42n + sessionCounter);
-        return 42n + sessionCounter;
-      }),
-    };
-    const req = createMockReq({ prompt: 'A cat' });
+  it('returns 429 with Retry-After when no pooled session is free', async () => {
+    const bridge = createMockBridge();
+    bridge.generateImage.mockRejectedValueOnce(new PoolBusyError('busy', 4));
+    const req = createMockReq({ prompt: 'Test' });
     const { res, s } = createMockRes();
     await handleImageGeneration(req, res as any, bridge);
-    expect(s.statusCode).toBe(200);
-    const body = JSON.parse(s.written[0]);
-    expect(body.data[0].b64_json).toBe('retried_image_data');
-    expect(bridge.resetSession).toHaveBeenCalled();
-    // Verify both calls received string sessionIds
-    const calls = mockSessionManager.generateImage.mock.calls;
-    expect(typeof calls[0][0]).toBe('string');
-    expect(typeof calls[1][0]).toBe('string');
-    expect(calls[1][0]).toBe('43'); // 42n + 1n = 43n → "43"
+    expect(s.statusCode).toBe(429);
+    expect(s.headers['Retry-After']).toBe('4');
+    expect(JSON.parse(s.written[0]).error.code).toBe('pool_exhausted');
   });
 });
@@ -9,20 +9,16 @@ function createMockBridge(opts?: {
   imageBase64?: string;
   generateImageError?: Error;
 }): SessionBridge {
-  const mockSessionManager = {
-    generateImage: opts?.generateImageError
-      ? vi.fn().mockRejectedValue(opts.generateImageError)
-      : vi.fn().mockResolvedValue({ image: opts?.imageBase64 || 'mockBase64Data' }),
-  };
   return {
     sendPrompt: vi.fn(async (prompt: string, onToken?: (t: string) => void, options?: any): Promise<SendPromptResult> => {
       if (onToken && opts?.onTokenBehavior) opts.onTokenBehavior(onToken);
       else if (onToken) { onToken('Hello'); onToken(' world'); }
       return { response: opts?.response || 'Hello world', tokenUsage: { llmTokens: 5, vlmTokens: 0, totalTokens: 5 } };
     }),
-    ensureSession: vi.fn().mockResolvedValue(42n),
-    getSessionManager: vi.fn().mockReturnValue(mockSessionManager),
-    getSessionId: vi.fn().mockReturnValue(42n),
+    resolveModel: vi.fn(async (model: string) => model),
+    generateImage: opts?.generateImageError
+      ? vi.fn().mockRejectedValue(opts.generateImageError)
+      : vi.fn().mockResolvedValue({ image: opts?.imageBase64 || 'mockBase64Data' }),
     initialize: vi.fn(),
     shutdown: vi.fn(),
   } as any;
@@ -204,8 +200,8 @@ describe('Integration: Bridge Flow', () => {
       await httpRequest(port, 'POST', '/v1/images/generations', {
         prompt: 'HD mountain', quality: 'hd',
       });
-      const genCall = bridge.getSessionManager().generateImage.mock.calls[0];
-      expect(genCall[2].steps).toBe(20);
+      const genCall = bridge.generateImage.mock.calls[0];
+      expect(genCall[1].steps).toBe(20);
     });
   });
 
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { convertOpenAIMessages, estimateInputTokens } from '../src/openai-converter';
 import type { OpenAIChatMessage, OpenAITool } from '../src/types';
+import { toolDialectRegistry } from '@fabstir/sdk-core';
 
 describe('OpenAI Converter', () => {
   it('converts single user message to ChatML', async () => {
@@ -236,4 +237,19 @@ describe('OpenAI Converter', () => {
       expect(prompt).toContain('Describe this');
     });
   });
+
+  it('formats tools, tool call history and tool results in the tool dialect', async () => {
+    const messages: OpenAIChatMessage[] = [
+      { role: 'user', content: 'Weather?' },
+      { role: 'assistant', content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }] },
+      { role: 'tool', content: '{"temp": 20}', tool_call_id: 'c1' },
+    ];
+    const tools: OpenAITool[] = [{ type: 'function', function: { name: 'get_weather', description: 'Weather', parameters: {} } }];
+    const { prompt } = await convertOpenAIMessages(messages, tools, toolDialectRegistry.get('hermes'));
+
+    expect(prompt).toContain('<tools>\n{"type":"function","function":{"name":"get_weather"');
+    expect(prompt).toContain('<|im_start|>assistant\n<tool_call>\n{"name":"get_weather","arguments":{"city":"Paris"}}\n</tool_call>');
+    expect(prompt).toContain('<|im_start|>tool\n<tool_response>\n{"temp": 20}\n</tool_response>\n<|im_end|>');
+    expect(prompt).not.toContain('<arg_key>');
+  });
 });
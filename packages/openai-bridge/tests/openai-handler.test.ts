@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handleChatCompletions } from '../src/openai-handler';
 import type { IncomingMessage, ServerResponse } from 'http';
 import type { SessionBridge } from '../src/session-bridge';
+import { toolDialectRegistry } from '@fabstir/sdk-core';
 
 function createMockBridge(response = 'Hello world', onTokenFn?: (onToken: (t: string) => void) => void): SessionBridge {
   return {
@@ -10,6 +11,7 @@ function createMockBridge(response = 'Hello world', onTokenFn?: (onToken: (t: st
       else if (onToken) { onToken('Hello'); onToken(' world'); }
       return { response, tokenUsage: { llmTokens: 5, vlmTokens: 0, totalTokens: 5 } };
     }),
+    resolveModel: vi.fn(async (model: string) => (model === 'unknown-model' ? undefined : model)),
     ensureSession: vi.fn(),
     getSessionManager: vi.fn(),
     getSessionId: vi.fn(),
@@ -38,6 +40,7 @@ function createMockRes(): { res: ServerResponse; written: string[]; headers: any
     writeHead: vi.fn((code: number, h: any) => { statusCode = code; headers = h; }),
     write: vi.fn((data: string) => { written.push(data); }),
     end: vi.fn((data?: string) => { if (data) written.push(data); }),
+    on: vi.fn(),
     flushHeaders: vi.fn(),
     get headersSent() { return false; },
   };
@@ -226,6 +229,20 @@ describe('Chat Handler - Non-Streaming', () => {
     expect(body.choices[0].message.tool_calls[0].function.name).toBe('get_weather');
   });
 
+  it('non-streaming: uses the bridge tool dialect for prompt and parsing', async () => {
+    const toolResp = '[TOOL_CALLS][{"name": "get_weather", "arguments": {"city": "London"}}]';
+    const bridge: any = createMockBridge(toolResp);
+    bridge.getToolDialect = vi.fn(() => toolDialectRegistry.get('mistral'));
+    const tools = [{ type: 'function' as const, function: { name: 'get_weather', description: 'Weather', parameters: {} } }];
+    const req = createMockReq({ model: 'test', messages: [{ role: 'user', content: 'Weather?' }], tools });
+    const { res, written } = createMockRes();
+    await handleChatCompletions(req, res as any, bridge);
+    const body = JSON.parse(written[0]);
+    expect(bridge.sendPrompt.mock.calls[0][0]).toContain('[AVAILABLE_TOOLS]');
+    expect(body.choices[0].message.tool_calls[0].function.name).toBe('get_weather');
+    expect(JSON.parse(body.choices[0].message.tool_calls[0].function.arguments)).toEqual({ city: 'London' });
+  });
+
   it('non-streaming: finish_reason is "tool_calls" when tools used', async () => {
     const toolResp = '<tool_call>get_weather<arg_key>city</arg_key><arg_value>London</arg_value></tool_call>';
     const bridge = createMockBridge(toolResp);
@@ -257,3 +274,149 @@ describe('Chat Handler - Non-Streaming', () => {
     expect(body.usage.total_tokens).toBe(body.usage.prompt_tokens + body.usage.completion_tokens);
   });
 });
+
+describe('Chat Handler - response_format', () => {
+  const schema = { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] };
+  const responseFormat = { type: 'json_schema', json_schema: { name: 'place', schema, strict: true } };
+
+  it('passes a json_schema response_format to the SDK as responseFormat', async () => {
+    const bridge: any = createMockBridge('{"city":"Paris"}');
+    const req = createMockReq({ model: 'test', messages: [{ role: 'user', content: 'Where?' }], response_format: responseFormat });
+    const { res, written } = createMockRes();
+    await handleChatCompletions(req, res as any, bridge);
+    expect(bridge.sendPrompt.mock.calls[0][2]).toEqual({
+      responseFormat: { type: 'json_schema', name: 'place', schema, strict: true },
+    });
+    expect(JSON.parse(written[0]).choices[0].message.content).toBe('{"city":"Paris"}');
+  });
+
+  it('streaming: sends the validated JSON as one content delta', async () => {
+    const bridge: any = createMockBridge('{"city":"Paris"}');
+    const req = createMockReq({
+      model: 'test', messages: [{ role: 'user', content: 'Where?' }], response_format: { type: 'json_object' }, stream: true,
+    });
+    const { res, written } = createMockRes();
+    await handleChatCompletions(req, res as any, bridge);
+    const contents = written
+      .filter(w => w.startsWith('data: ') && !w.includes('[DONE]'))
+      .map(w => JSON.parse(w.replace('data: ', '').trim()).choices[0].delta.content)
+      .filter(Boolean);
+    expect(bridge.sendPrompt.mock.calls[0][1]).toBeUndefined();
+    expect(contents).toEqual(['{"city":"Paris"}']);
+  });
+
+  it('ignores response_format when tools are present', async () => {
+    const bridge: any = createMockBridge();
+    const tools = [{ type: 'function' as const, function: { name: 'get_weather', description: 'Weather', parameters: {} } }];
+    const req = createMockReq({ model: 'test', messages: [{ role: 'user', content: 'Hi' }], tools, response_format: responseFormat });
+    const { res } = createMockRes();
+    await handleChatCompletions(req, res as any, bridge);
+    expect(bridge.sendPrompt.mock.calls[0][2]).toBeUndefined();
+  });
+
+  it('returns 400 for a json_schema response_format without a schema', async () => {
+    const bridge: any = createMockBridge();
+    const req = createMockReq({
+      model: 'test', messages: [{ role: 'user', content: 'Hi' }], response_format: { type: 'json_schema', json_schema: { name: 'x' } },
+    });
+    const mock = createMockRes();
+    await handleChatCompletions(req, mock.res as any, bridge);
+    expect(mock.statusCode).toBe(400);
+    expect(JSON.parse(mock.written[0]).error.message).toContain('Invalid response_format');
+    expect(bridge.sendPrompt).not.toHaveBeenCalled();
+  });
+});
+
+describe('Chat Handler - sampling', () => {
+  it('passes sampling fields to the SDK', async () => {
+    const bridge: any = createMockBridge();
+    const req = createMockReq({
+      model: 'test', messages: [{ role: 'user', content: 'Hi' }],
+      temperature: 0.1, max_tokens: 64, top_p: 0.8, top_k: 20, stop: 'END', seed: 7,
+    });
+    const { res } = createMockRes();
+    await handleChatCompletions(req, res as any, bridge);
+    expect(bridge.sendPrompt.mock.calls[0][2]).toEqual({
+      temperature: 0.1, maxTokens: 64, topP: 0.8, topK: 20, stop: ['END'], seed: 7,
+    });
+  });
+
+  it('returns 400 for a sampling field of the wrong type', async () => {
+    const bridge: any = createMockBridge();
+    const req = createMockReq({ model: 'test', messages: [{ role: 'user', content: 'Hi' }], seed: 'abc' });
+    const mock = createMockRes();
+    await handleChatCompletions(req, mock.res as any, bridge);
+    expect(mock.statusCode).toBe(400);
+    expect(JSON.parse(mock.written[0]).error.message).toBe('Invalid sampling parameters: seed must be a number');
+    expect(bridge.sendPrompt).not.toHaveBeenCalled();
+  });
+
+  it('returns 400 when the SDK rejects a sampling parameter', async () => {
+    const bridge: any = createMockBridge();
+    bridge.sendPrompt.mockRejectedValueOnce(Object.assign(
+      new Error('Host does not support sampling parameter(s): minP'), { code: 'SAMPLING_NOT_SUPPORTED' }
+    ));
+    const req = createMockReq({ model: 'test', messages: [{ role: 'user', content: 'Hi' }], min_p: 0.1 });
+    const mock = createMockRes();
+    await handleChatCompletions(req, mock.res as any, bridge);
+    expect(mock.statusCode).toBe(400);
+    expect(JSON.parse(mock.written[0]).error.message).toContain('minP');
+  });
+});
+
+describe('Chat Handler - model routing', () => {
+  it('sends the prompt to the session of the resolved model and echoes the requested name', async () => {
+    const bridge: any = createMockBridge();
+    bridge.resolveModel.mockResolvedValueOnce('Org/Model:model.gguf');
+    const req = createMockReq({ model: 'gpt-4o', messages: [{ role: 'user', content: 'Hi' }] });
+    const mock = createMockRes();
+    await handleChatCompletions(req, mock.res as any, bridge);
+    expect(bridge.resolveModel).toHaveBeenCalledWith('gpt-4o');
+    expect(bridge.sendPrompt.mock.calls[0][3]).toBe('Org/Model:model.gguf');
+    expect(JSON.parse(mock.written[0]).model).toBe('gpt-4o');
+  });
+
+  it('returns 404 model_not_found for an unknown model', async () => {
+    const bridge: any = createMockBridge();
+    const req = createMockReq({ model: 'unknown-model', messages: [{ role: 'user', content: 'Hi' }] });
+    const mock = createMockRes();
+    await handleChatCompletions(req, mock.res as any, bridge);
+    expect(mock.statusCode).toBe(404);
+    expect(JSON.parse(mock.written[0]).error).toEqual({
+      message: "The model 'unknown-model' does not exist", type: 'invalid_request_error', code: 'model_not_found',
+    });
+    expect(bridge.sendPrompt).not.toHaveBeenCalled();
+  });
+});
+
+describe('Chat Handler - session pool backpressure', () => {
+  it('returns 429 with Retry-After before streaming when the pool is full', async () => {
+    const bridge: any = createMockBridge();
+    bridge.getRetryAfter = vi.fn(() => 3);
+    const req = createMockReq({ model: 'test', messages: [{ role: 'user', content: 'Hi' }], stream: true });
+    const mock = createMockRes();
+    await handleChatCompletions(req, mock.res as any, bridge);
+    expect(mock.statusCode).toBe(429);
+    expect(mock.headers['Retry-After']).toBe('3');
+    expect(JSON.parse(mock.written[0]).error).toMatchObject({ type: 'rate_limit_error', code: 'pool_exhausted' });
+    expect(bridge.sendPrompt).not.toHaveBeenCalled();
+  });
+
+  it('returns 429 when the pool rejects a queued non-streaming request', async () => {
+    const bridge: any = createMockBridge();
+    bridge.sendPrompt.mockRejectedValueOnce(Object.assign(new Error('busy'), { code: 'POOL_BUSY', retryAfter: 5 }));
+    const req = createMockReq({ model: 'test', messages: [{ role: 'user', content: 'Hi' }] });
+    const mock = createMockRes();
+    await handleChatCompletions(req, mock.res as any, bridge);
+    expect(mock.statusCode).toBe(429);
+    expect(mock.headers['Retry-After']).toBe('5');
+  });
+
+  it('passes the user field as the session affinity key', async () => {
+    const bridge: any = createMockBridge();
+    const req = createMockReq({ model: 'test', messages: [{ role: 'user', content: 'Hi' }], user: 'alice' });
+    const { res } = createMockRes();
+    await handleChatCompletions(req, res as any, bridge);
+    expect(bridge.sendPrompt.mock.calls[0][4]).toBe('alice');
+  });
+});
@@ -6,6 +6,8 @@ import {
   buildToolCallDelta,
   buildFinishDelta,
   buildDoneEvent,
+  generateCompletionId,
+  buildCompletionChunk,
 } from '../src/openai-sse';
 
 describe('OpenAI SSE Builder', () => {
@@ -75,6 +77,15 @@ describe('OpenAI SSE Builder', () => {
     expect(id).toMatch(/^chatcmpl-/);
   });
 
+  it('buildCompletionChunk emits a text_completion chunk for one choice', () => {
+    const parsed = JSON.parse(buildCompletionChunk('cmpl-1', 'coder', 2, 'x = 1').replace('data: ', '').trim());
+    expect(parsed).toMatchObject({ id: 'cmpl-1', object: 'text_completion', model: 'coder' });
+    expect(parsed.choices).toEqual([{ text: 'x = 1', index: 2, logprobs: null, finish_reason: null }]);
+    const finish = JSON.parse(buildCompletionChunk('cmpl-1', 'coder', 2, '', 'length').replace('data: ', '').trim());
+    expect(finish.choices[0].finish_reason).toBe('length');
+    expect(generateCompletionId()).toMatch(/^cmpl-/);
+  });
+
   it('all events end with double newline', () => {
     expect(buildRoleDelta('id', 'model')).toMatch(/\n\n$/);
     expect(buildContentDelta('id', 'model', 'x')).toMatch(/\n\n$/);
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { toStructuredResponseFormat } from '../src/response-format';
+
+const schema = { type: 'object', properties: { city: { type: 'string' } } };
+
+describe('toStructuredResponseFormat', () => {
+  it('returns undefined for plain text', () => {
+    expect(toStructuredResponseFormat(undefined)).toBeUndefined();
+    expect(toStructuredResponseFormat({ type: 'text' })).toBeUndefined();
+  });
+
+  it('maps json_object', () => {
+    expect(toStructuredResponseFormat({ type: 'json_object' })).toEqual({ type: 'json_object' });
+  });
+
+  it('maps a Chat Completions json_schema', () => {
+    expect(toStructuredResponseFormat({ type: 'json_schema', json_schema: { name: 'place', schema, strict: true } }))
+      .toEqual({ type: 'json_schema', name: 'place', schema, strict: true });
+  });
+
+  it('maps a Responses API text.format json_schema', () => {
+    expect(toStructuredResponseFormat({ type: 'json_schema', name: 'place', schema }))
+      .toEqual({ type: 'json_schema', name: 'place', schema, strict: false });
+  });
+
+  it('rejects unknown types and missing schemas', () => {
+    expect(() => toStructuredResponseFormat({ type: 'xml' })).toThrow('Unsupported response format type: xml');
+    expect(() => toStructuredResponseFormat({ type: 'json_schema', json_schema: { name: 'x' } }))
+      .toThrow('json_schema response format requires a schema object');
+  });
+});
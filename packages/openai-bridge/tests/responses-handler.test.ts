@@ -10,6 +10,7 @@ function createMockBridge(response = 'Hello world', onTokenFn?: (onToken: (t: st
       else if (onToken) { onToken('Hello'); onToken(' world'); }
       return { response, tokenUsage: { llmTokens: 5, vlmTokens: 0, totalTokens: 5 } };
     }),
+    resolveModel: vi.fn(async (model: string) => (model === 'unknown-model' ? undefined : model)),
     ensureSession: vi.fn(),
     getSessionManager: vi.fn(),
     getSessionId: vi.fn(),
@@ -38,6 +39,7 @@ function createMockRes(): { res: ServerResponse; written: string[]; headers: any
     writeHead: vi.fn((code: number, h: any) => { statusCode = code; headers = h; }),
     write: vi.fn((data: string) => { written.push(data); }),
     end: vi.fn((data?: string) => { if (data) written.push(data); }),
+    on: vi.fn(),
     flushHeaders: vi.fn(),
     get headersSent() { return false; },
   };
@@ -366,3 +368,76 @@ describe('Responses Handler - Tool Calling', () => {
     expect(JSON.parse(fcItems[0].arguments)).toEqual({ command: 'ls' });
   });
 });
+
+describe('Responses Handler - text.format', () => {
+  const schema = { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] };
+  const text = { format: { type: 'json_schema', name: 'place', schema, strict: true } };
+
+  it('non-streaming: passes text.format to the SDK as responseFormat', async () => {
+    const bridge: any = createMockBridge('{"city":"Paris"}');
+    const req = createMockReq({ model: 'test', input: 'Where?', text });
+    const { res, written } = createMockRes();
+    await handleResponses(req, res as any, bridge);
+    expect(bridge.sendPrompt.mock.calls[0][2]).toEqual({
+      responseFormat: { type: 'json_schema', name: 'place', schema, strict: true },
+    });
+    expect(JSON.parse(written[0]).output[0].content[0].text).toBe('{"city":"Paris"}');
+  });
+
+  it('streaming: sends the validated JSON as one text delta', async () => {
+    const bridge: any = createMockBridge('{"city":"Paris"}');
+    const req = createMockReq({ model: 'test', input: 'Where?', text, stream: true });
+    const { res, written } = createMockRes();
+    await handleResponses(req, res as any, bridge);
+    const deltas = parseSSEEvents(written).filter(e => e.event === 'response.output_text.delta');
+    expect(deltas.map(e => e.data.delta)).toEqual(['{"city":"Paris"}']);
+  });
+
+  it('returns 400 for an unsupported text.format', async () => {
+    const bridge: any = createMockBridge();
+    const req = createMockReq({ model: 'test', input: 'Hi', text: { format: { type: 'xml' } } });
+    const mock = createMockRes();
+    await handleResponses(req, mock.res as any, bridge);
+    expect(mock.statusCode).toBe(400);
+    expect(bridge.sendPrompt).not.toHaveBeenCalled();
+  });
+});
+
+describe('Responses Handler - sampling', () => {
+  it('passes temperature, top_p and max_output_tokens to the SDK', async () => {
+    const bridge: any = createMockBridge();
+    const req = createMockReq({ model: 'test', input: 'Hi', temperature: 0.3, top_p: 0.95, max_output_tokens: 512, stream: true });
+    const { res } = createMockRes();
+    await handleResponses(req, res as any, bridge);
+    expect(bridge.sendPrompt.mock.calls[0][2]).toEqual({ temperature: 0.3, topP: 0.95, maxTokens: 512 });
+  });
+
+  it('passes no options when the request has none', async () => {
+    const bridge: any = createMockBridge();
+    const req = createMockReq({ model: 'test', input: 'Hi' });
+    const { res } = createMockRes();
+    await handleResponses(req, res as any, bridge);
+    expect(bridge.sendPrompt.mock.calls[0][2]).toBeUndefined();
+  });
+});
+
+describe('Responses Handler - model routing', () => {
+  it('uses the bridge default model when the request has none', async () => {
+    const bridge: any = createMockBridge();
+    const req = createMockReq({ input: 'Hi' });
+    const { res } = createMockRes();
+    await handleResponses(req, res as any, bridge);
+    expect(bridge.resolveModel).not.toHaveBeenCalled();
+    expect(bridge.sendPrompt.mock.calls[0][3]).toBeUndefined();
+  });
+
+  it('returns 404 model_not_found for an unknown model', async () => {
+    const bridge: any = createMockBridge();
+    const req = createMockReq({ model: 'unknown-model', input: 'Hi' });
+    const mock = createMockRes();
+    await handleResponses(req, mock.res as any, bridge);
+    expect(mock.statusCode).toBe(404);
+    expect(JSON.parse(mock.written[0]).error.code).toBe('model_not_found');
+    expect(bridge.sendPrompt).not.toHaveBeenCalled();
+  });
+});
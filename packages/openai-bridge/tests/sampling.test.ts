@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { toSamplingOptions, isSamplingError } from '../src/sampling';
+
+describe('toSamplingOptions', () => {
+  it('maps Chat Completions sampling fields', () => {
+    expect(toSamplingOptions({
+      model: 'x', messages: [], temperature: 0.2, max_tokens: 256, top_p: 0.9,
+      frequency_penalty: 0.5, presence_penalty: -0.5, stop: ['END'], seed: 42, logit_bias: { '15043': -100 },
+    })).toEqual({
+      temperature: 0.2, maxTokens: 256, topP: 0.9, frequencyPenalty: 0.5, presencePenalty: -0.5,
+      stop: ['END'], seed: 42, logitBias: { '15043': -100 },
+    });
+  });
+
+  it('maps llama.cpp/vLLM extensions', () => {
+    expect(toSamplingOptions({ top_k: 40, min_p: 0.05, repetition_penalty: 1.1 }))
+      .toEqual({ topK: 40, minP: 0.05, repeatPenalty: 1.1 });
+  });
+
+  it('prefers max_completion_tokens and reads Responses max_output_tokens', () => {
+    expect(toSamplingOptions({ max_completion_tokens: 100, max_tokens: 50 })).toEqual({ maxTokens: 100 });
+    expect(toSamplingOptions({ max_output_tokens: 300 })).toEqual({ maxTokens: 300 });
+  });
+
+  it('leaves out neutral OpenAI defaults', () => {
+    expect(toSamplingOptions({ top_p: 1, frequency_penalty: 0, presence_penalty: 0, temperature: 1 }))
+      .toEqual({ temperature: 1 });
+  });
+
+  it('wraps a single stop string and skips null fields', () => {
+    expect(toSamplingOptions({ stop: '\n', top_p: null, seed: null })).toEqual({ stop: ['\n'] });
+    expect(toSamplingOptions({})).toEqual({});
+  });
+
+  it('throws on fields of the wrong type', () => {
+    expect(() => toSamplingOptions({ top_p: '0.9' })).toThrow('top_p must be a number');
+    expect(() => toSamplingOptions({ stop: [1] })).toThrow('stop must be');
+    expect(() => toSamplingOptions({ logit_bias: [1] })).toThrow('logit_bias must be');
+  });
+
+  it('recognizes SDK sampling errors', () => {
+    expect(isSamplingError({ code: 'SAMPLING_NOT_SUPPORTED' })).toBe(true);
+    expect(isSamplingError({ code: 'INVALID_SAMPLING_OPTIONS' })).toBe(true);
+    expect(isSamplingError(new Error('boom'))).toBe(false);
+  });
+});
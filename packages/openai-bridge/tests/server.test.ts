@@ -1,5 +1,8 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import http from 'http';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 // Mock the handler modules before import
 vi.mock('../src/openai-handler', () => ({
@@ -8,6 +11,18 @@ vi.mock('../src/openai-handler', () => ({
     res.end(JSON.stringify({ id: 'chatcmpl-mock', object: 'chat.completion', choices: [] }));
   }),
 }));
+vi.mock('../src/embeddings-handler', () => ({
+  handleEmbeddings: vi.fn(async (_req: any, res: any) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ object: 'list', data: [] }));
+  }),
+}));
+vi.mock('../src/completions-handler', () => ({
+  handleCompletions: vi.fn(async (_req: any, res: any) => {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ id: 'cmpl-mock', object: 'text_completion', choices: [] }));
+  }),
+}));
 vi.mock('../src/image-handler', () => ({
   handleImageGeneration: vi.fn(async (_req: any, res: any) => {
     res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -18,6 +33,9 @@ vi.mock('../src/image-handler', () => ({
 import { BridgeServer } from '../src/server';
 import { handleChatCompletions } from '../src/openai-handler';
 import { handleImageGeneration } from '../src/image-handler';
+import { handleEmbeddings } from '../src/embeddings-handler';
+import { handleCompletions } from '../src/completions-handler';
+import { ApiKeyStore, UsageLedger } from '@fabstir/bridge-common';
 
 function request(port: number, method: string, path: string, body?: any, headers?: Record<string, string>): Promise<{ statusCode: number; body: string; headers: http.IncomingHttpHeaders }> {
   return new Promise((resolve, reject) => {
@@ -50,6 +68,14 @@ describe('BridgeServer', () => {
     expect(JSON.parse(res.body)).toEqual({ status: 'ok' });
   });
 
+  it('GET /health includes session pool metrics', async () => {
+    const bridge: any = { getPoolMetrics: vi.fn().mockReturnValue({ sessions: 2, busy: 1, queued: 0 }) };
+    server = new BridgeServer(0, bridge, 'test-model');
+    await server.start();
+    const res = await request(server.getPort(), 'GET', '/health');
+    expect(JSON.parse(res.body)).toEqual({ status: 'ok', pool: { sessions: 2, busy: 1, queued: 0 } });
+  });
+
   it('GET /v1/models returns model list', async () => {
     server = new BridgeServer(0, mockBridge, 'test-model');
     await server.start();
@@ -61,6 +87,17 @@ describe('BridgeServer', () => {
     expect(body.data[0].object).toBe('model');
   });
 
+  it('GET /v1/models lists discovered models and aliases from the bridge', async () => {
+    const bridge: any = { listModels: vi.fn().mockResolvedValue(['Org/Model:model.gguf', 'gpt-4o']) };
+    server = new BridgeServer(0, bridge, 'test-model');
+    await server.start();
+    const res = await request(server.getPort(), 'GET', '/v1/models');
+    expect(JSON.parse(res.body).data).toEqual([
+      { id: 'Org/Model:model.gguf', object: 'model', owned_by: 'fabstir' },
+      { id: 'gpt-4o', object: 'model', owned_by: 'fabstir' },
+    ]);
+  });
+
   it('POST /v1/chat/completions routes to chat handler', async () => {
     server = new BridgeServer(0, mockBridge, 'test-model');
     await server.start();
@@ -79,6 +116,22 @@ describe('BridgeServer', () => {
     expect(handleImageGeneration).toHaveBeenCalled();
   });
 
+  it('POST /v1/embeddings routes to embeddings handler', async () => {
+    server = new BridgeServer(0, mockBridge, 'test-model');
+    await server.start();
+    const res = await request(server.getPort(), 'POST', '/v1/embeddings', { model: 'm', input: 'hi' });
+    expect(res.statusCode).toBe(200);
+    expect(handleEmbeddings).toHaveBeenCalled();
+  });
+
+  it('POST /v1/completions routes to completions handler', async () => {
+    server = new BridgeServer(0, mockBridge, 'test-model');
+    await server.start();
+    const res = await request(server.getPort(), 'POST', '/v1/completions', { model: 'm', prompt: 'def ', suffix: ':' });
+    expect(res.statusCode).toBe(200);
+    expect(handleCompletions).toHaveBeenCalled();
+  });
+
   it('OPTIONS returns CORS headers', async () => {
     server = new BridgeServer(0, mockBridge, 'test-model');
     await server.start();
@@ -141,4 +194,122 @@ describe('BridgeServer', () => {
     expect(spy).toHaveBeenCalledWith(expect.stringContaining('GET /health'));
     spy.mockRestore();
   });
+
+  describe('tenant keys', () => {
+    let dir: string;
+    let keys: ApiKeyStore;
+    let ledger: UsageLedger;
+    const chat = { model: 'test', messages: [{ role: 'user', content: 'Hi' }] };
+    const bearer = (key: string) => ({ authorization: `Bearer ${key}` });
+
+    beforeEach(async () => {
+      dir = mkdtempSync(join(tmpdir(), 'bridge-server-'));
+      ledger = new UsageLedger(join(dir, 'usage.jsonl'));
+      keys = new ApiKeyStore(join(dir, 'keys.json'), ledger);
+      server = new BridgeServer(0, mockBridge, 'test-model', 'shared-key', { keys, ledger, adminKey: 'admin-key' });
+      await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('accepts tenant keys and the shared key, passing tenant requests a metered bridge', async () => {
+      const { key } = keys.create({ name: 'team-a' });
+
+      expect((await request(server.getPort(), 'POST', '/v1/chat/completions', chat, bearer(key))).statusCode).toBe(200);
+      expect(vi.mocked(handleChatCompletions).mock.lastCall![2]).not.toBe(mockBridge);
+      expect((await request(server.getPort(), 'POST', '/v1/chat/completions', chat, bearer('shared-key'))).statusCode).toBe(200);
+      expect(vi.mocked(handleChatCompletions).mock.lastCall![2]).toBe(mockBridge);
+
+      const res = await request(server.getPort(), 'POST', '/v1/chat/completions', chat, bearer('fab-unknown'));
+      expect(res.statusCode).toBe(401);
+      expect(JSON.parse(res.body).error).toMatchObject({ type: 'authentication_error', code: 'invalid_api_key' });
+    });
+
+    it('answers 401 for revoked keys and 429 for rate limits and exhausted quotas', async () => {
+      const revoked = keys.create({ name: 'old' });
+      keys.revoke(revoked.info.id);
+      const res = await request(server.getPort(), 'POST', '/v1/chat/completions', chat, bearer(revoked.key));
+      expect(res.statusCode).toBe(401);
+      expect(JSON.parse(res.body).error.message).toBe('API key has been revoked');
+
+      const limited = keys.create({ name: 'limited', requestsPerMinute: 1 });
+      await request(server.getPort(), 'POST', '/v1/chat/completions', chat, bearer(limited.key));
+      const limitedRes = await request(server.getPort(), 'POST', '/v1/chat/completions', chat, bearer(limited.key));
+      expect(limitedRes.statusCode).toBe(429);
+      expect(limitedRes.headers['retry-after']).toBeDefined();
+      expect(JSON.parse(limitedRes.body).error.code).toBe('rate_limit_exceeded');
+
+      const spent = keys.create({ name: 'spent', maxTokens: 10 });
+      keys.record(keys.authenticate(spent.key), { endpoint: '/v1/chat/completions', model: 'm', promptTokens: 5, completionTokens: 5, totalTokens: 10 });
+      const quotaRes = await request(server.getPort(), 'POST', '/v1/chat/completions', chat, bearer(spent.key));
+      expect(quotaRes.statusCode).toBe(429);
+      expect(JSON.parse(quotaRes.body).error).toMatchObject({ type: 'insufficient_quota', code: 'insufficient_quota' });
+    });
+
+    it('refuses image generation when the default model is outside the key allow-list', async () => {
+      const { key } = keys.create({ name: 'other-model', models: ['Org/Other:other.gguf'] });
+      const res = await request(server.getPort(), 'POST', '/v1/images/generations', { prompt: 'A cat' }, bearer(key));
+      expect(res.statusCode).toBe(403);
+      expect(JSON.parse(res.body).error.code).toBe('model_not_allowed');
+    });
+
+    it('filters GET /v1/models by the key allow-list', async () => {
+      const bridge: any = {
+        listModels: vi.fn().mockResolvedValue(['Org/A:a.gguf', 'Org/B:b.gguf']),
+        resolveModel: vi.fn(async (model: string) => model),
+      };
+      await server.stop();
+      server = new BridgeServer(0, bridge, 'Org/A:a.gguf', undefined, { keys });
+      await server.start();
+      const { key } = keys.create({ name: 'b-only', models: ['Org/B:b.gguf'] });
+
+      const res = await request(server.getPort(), 'GET', '/v1/models', undefined, bearer(key));
+      expect(JSON.parse(res.body).data.map((m: any) => m.id)).toEqual(['Org/B:b.gguf']);
+      const open = await request(server.getPort(), 'GET', '/v1/models');
+      expect(JSON.parse(open.body).data).toHaveLength(2);
+    });
+
+    it('creates, lists, rotates and revokes keys through /admin with the admin key', async () => {
+      expect((await request(server.getPort(), 'GET', '/admin/keys', undefined, bearer('shared-key'))).statusCode).toBe(401);
+
+      const created = await request(server.getPort(), 'POST', '/admin/keys',
+        { name: 'team-b', models: ['gpt-4o'], maxTokens: 1000, requestsPerMinute: 30 }, bearer('admin-key'));
+      expect(created.statusCode).toBe(201);
+      const { id, key } = JSON.parse(created.body);
+      expect(keys.authenticate(key).models).toEqual(['gpt-4o']);
+
+      const list = JSON.parse((await request(server.getPort(), 'GET', '/admin/keys', undefined, bearer('admin-key'))).body);
+      expect(list.data).toEqual([expect.objectContaining({ id, name: 'team-b', maxTokens: 1000 })]);
+      expect(list.data[0]).not.toHaveProperty('hash');
+
+      const rotated = JSON.parse((await request(server.getPort(), 'POST', `/admin/keys/${id}/rotate`, undefined, bearer('admin-key'))).body);
+      expect(rotated.key).not.toBe(key);
+      expect(keys.authenticate(rotated.key).id).toBe(id);
+
+      const revoked = await request(server.getPort(), 'POST', `/admin/keys/${id}/revoke`, undefined, bearer('admin-key'));
+      expect(JSON.parse(revoked.body).revokedAt).toBeDefined();
+      expect((await request(server.getPort(), 'POST', '/admin/keys/key_missing/revoke', undefined, bearer('admin-key'))).statusCode).toBe(404);
+
+      const invalid = await request(server.getPort(), 'POST', '/admin/keys', { maxTokens: 5 }, bearer('admin-key'));
+      expect(invalid.statusCode).toBe(400);
+      expect(JSON.parse(invalid.body).error.message).toBe('Missing required field: name');
+    });
+
+    it('exports the usage ledger as CSV filtered by key', async () => {
+      const a = keys.create({ name: 'team-a' });
+      const b = keys.create({ name: 'team-b' });
+      keys.record(keys.authenticate(a.key), { endpoint: '/v1/chat/completions', model: 'm', promptTokens: 1, completionTokens: 2, totalTokens: 3, cost: '10' });
+      keys.record(keys.authenticate(b.key), { endpoint: '/v1/responses', model: 'm', promptTokens: 4, completionTokens: 5, totalTokens: 9 });
+
+      const res = await request(server.getPort(), 'GET', `/admin/usage?key_id=${a.info.id}`, undefined, bearer('admin-key'));
+      expect(res.statusCode).toBe(200);
+      expect(res.headers['content-type']).toBe('text/csv');
+      const lines = res.body.trim().split('\n');
+      expect(lines[0]).toBe('timestamp,key_id,key_name,endpoint,model,prompt_tokens,completion_tokens,total_tokens,cost');
+      expect(lines.slice(1)).toEqual([expect.stringContaining(`${a.info.id},team-a,/v1/chat/completions,m,1,2,3,10`)]);
+    });
+  });
 });
@@ -7,19 +7,36 @@ const mockStartSession = vi.fn();
 const mockSendPromptStreaming = vi.fn();
 const mockEndSession = vi.fn();
 const mockGetLastTokenUsage = vi.fn();
+const mockGetAvailableModelsWithHosts = vi.fn();
+const mockEmbedBatch = vi.fn();
+const mockGetSession = vi.fn();
+const mockGenerateImage = vi.fn();
 
 const mockSessionManager = {
   startSession: mockStartSession,
   sendPromptStreaming: mockSendPromptStreaming,
   endSession: mockEndSession,
   getLastTokenUsage: mockGetLastTokenUsage,
+  getSession: mockGetSession,
+  generateImage: mockGenerateImage,
+};
+
+const mockModelManager = {
+  setHostManager: vi.fn(),
+  getAvailableModelsWithHosts: mockGetAvailableModelsWithHosts,
 };
 
 const mockSdkInstance = {
   authenticate: mockAuthenticate,
   getSessionManager: mockGetSessionManager,
+  getModelManager: () => mockModelManager,
+  getHostManager: vi.fn(),
 };
 
+const discovered = (repo: string, file: string, hostCount = 1) => ({
+  model: { huggingfaceRepo: repo, fileName: file }, hostCount, isAvailable: hostCount > 0,
+});
+
 vi.mock('@fabstir/sdk-core', () => ({
   FabstirSDKCore: vi.fn().mockImplementation(() => mockSdkInstance),
   ChainRegistry: {
@@ -29,8 +46,10 @@ vi.mock('@fabstir/sdk-core', () => ({
     }),
   },
   ChainId: { BASE_SEPOLIA: 84532 },
+  HostAdapter: vi.fn().mockImplementation(() => ({ embedBatch: mockEmbedBatch })),
 }));
 
+import { HostAdapter } from '@fabstir/sdk-core';
 import { SessionBridge } from '../src/session-bridge';
 
 const testConfig: OpenAIBridgeConfig = {
@@ -43,6 +62,9 @@ const testConfig: OpenAIBridgeConfig = {
   pricePerToken: 5000,
   proofInterval: 100,
   duration: 86400,
+  poolSize: 4,
+  maxQueueDepth: 16,
+  queueTimeout: 60,
 };
 
 describe('SessionBridge', () => {
@@ -52,6 +74,7 @@ describe('SessionBridge', () => {
     mockStartSession.mockResolvedValue({ sessionId: 42n, jobId: 1n });
     mockSendPromptStreaming.mockResolvedValue('Hello from node');
     mockGetLastTokenUsage.mockReturnValue({ llmTokens: 10, vlmTokens: 0, totalTokens: 10 });
+    mockGetAvailableModelsWithHosts.mockResolvedValue([]);
   });
 
   it('initialize() creates SDK and authenticates', async () => {
@@ -103,6 +126,16 @@ describe('SessionBridge', () => {
     expect(mockSendPromptStreaming).toHaveBeenCalledWith(42n, 'test', undefined, undefined);
   });
 
+  it('sendPrompt() returns structured (responseFormat) results as JSON text', async () => {
+    const bridge = new SessionBridge(testConfig);
+    await bridge.initialize();
+    mockSendPromptStreaming.mockResolvedValueOnce({ city: 'Paris' });
+    const options = { responseFormat: { type: 'json_object' } };
+    const result = await bridge.sendPrompt('test', undefined, options);
+    expect(result.response).toBe('{"city":"Paris"}');
+    expect(mockSendPromptStreaming).toHaveBeenCalledWith(42n, 'test', undefined, options);
+  });
+
   it('auto-recovery: clears session on SESSION_NOT_FOUND and retries', async () => {
     const bridge = new SessionBridge(testConfig);
     await bridge.initialize();
@@ -118,16 +151,110 @@ describe('SessionBridge', () => {
     expect(mockStartSession).toHaveBeenCalledTimes(2);
   });
 
-  it('queue: serialises concurrent requests', async () => {
+  it('pool: runs concurrent requests on separate sessions', async () => {
     const bridge = new SessionBridge(testConfig);
     await bridge.initialize();
-    const order: number[] = [];
+    mockStartSession.mockResolvedValueOnce({ sessionId: 42n }).mockResolvedValueOnce({ sessionId: 43n });
+    let running = 0;
+    let maxRunning = 0;
     mockSendPromptStreaming.mockImplementation(async () => {
-      order.push(order.length);
+      maxRunning = Math.max(maxRunning, ++running);
+      await new Promise(r => setTimeout(r, 5));
+      running--;
       return 'ok';
     });
     await Promise.all([bridge.sendPrompt('a'), bridge.sendPrompt('b')]);
-    expect(order).toEqual([0, 1]);
+    expect(maxRunning).toBe(2);
+    expect(mockSendPromptStreaming.mock.calls.map(c => c[0]).sort()).toEqual([42n, 43n]);
+    expect(bridge.getPoolMetrics()).toMatchObject({ sessions: 2, busy: 0, served: 2 });
+  });
+
+  it('pool: keeps a client on its session and rotates new sessions over the configured hosts', async () => {
+    const bridge = new SessionBridge({ ...testConfig, hostAddresses: ['0xHostA', '0xHostB'] });
+    await bridge.initialize();
+    mockStartSession.mockResolvedValueOnce({ sessionId: 42n }).mockResolvedValueOnce({ sessionId: 43n });
+
+    await Promise.all([
+      bridge.sendPrompt('a', undefined, undefined, undefined, 'alice'),
+      bridge.sendPrompt('b', undefined, undefined, undefined, 'bob'),
+    ]);
+    await bridge.sendPrompt('b2', undefined, undefined, undefined, 'bob');
+
+    expect(mockStartSession.mock.calls.map(c => c[0].host)).toEqual(['0xHostA', '0xHostB']);
+    expect(mockSendPromptStreaming.mock.calls[2][0]).toBe(43n);
+  });
+
+  it('pool: rejects with PoolBusyError and a Retry-After estimate when the queue is full', async () => {
+    const bridge = new SessionBridge({ ...testConfig, poolSize: 1, maxQueueDepth: 1 });
+    await bridge.initialize();
+    let finish!: () => void;
+    mockSendPromptStreaming.mockImplementation(() => new Promise(r => { finish = () => r('ok'); }));
+
+    const first = bridge.sendPrompt('a');
+    const queued = bridge.sendPrompt('b');
+    await vi.waitFor(() => expect(mockSendPromptStreaming).toHaveBeenCalledTimes(1));
+
+    expect(bridge.getRetryAfter()).toBeGreaterThanOrEqual(1);
+    await expect(bridge.sendPrompt('c')).rejects.toMatchObject({ code: 'POOL_BUSY' });
+    expect(bridge.getPoolMetrics()).toMatchObject({ sessions: 1, busy: 1, queued: 1, rejected: 1 });
+
+    finish();
+    await first;
+    await vi.waitFor(() => expect(mockSendPromptStreaming).toHaveBeenCalledTimes(2));
+    finish();
+    await queued;
+    expect(bridge.getRetryAfter()).toBeUndefined();
+  });
+
+  it('embed() batches texts to the session host and sums token counts', async () => {
+    mockGetSession.mockReturnValue({ endpoint: 'ws://host.example:8080/ws' });
+    mockEmbedBatch.mockImplementation(async (texts: string[]) => ({
+      embeddings: texts.map(text => ({ embedding: [text.length], text, tokenCount: 1 })),
+      model: 'all-MiniLM-L6-v2', totalTokens: 0,
+    }));
+    const bridge = new SessionBridge(testConfig);
+    await bridge.initialize();
+
+    const texts = Array.from({ length: 100 }, (_, i) => 'x'.repeat(i + 1));
+    const result = await bridge.embed(texts);
+
+    expect(HostAdapter).toHaveBeenCalledWith({ hostUrl: 'http://host.example:8080', chainId: 84532 });
+    expect(mockEmbedBatch.mock.calls.map(([batch]) => batch.length)).toEqual([96, 4]);
+    expect(result.embeddings).toHaveLength(100);
+    expect(result.embeddings[99]).toEqual([100]);
+    expect(result).toMatchObject({ model: 'all-MiniLM-L6-v2', totalTokens: 100 });
+  });
+
+  it('embed() and generateImage() wait for a pooled session like prompts', async () => {
+    const bridge = new SessionBridge({ ...testConfig, poolSize: 1, maxQueueDepth: 0 });
+    await bridge.initialize();
+    let finish!: () => void;
+    mockSendPromptStreaming.mockImplementation(() => new Promise(r => { finish = () => r('ok'); }));
+
+    const prompt = bridge.sendPrompt('a');
+    await vi.waitFor(() => expect(mockSendPromptStreaming).toHaveBeenCalledTimes(1));
+
+    await expect(bridge.embed(['x'])).rejects.toMatchObject({ code: 'POOL_BUSY' });
+    await expect(bridge.generateImage('cat', { size: '512x512', steps: 4 })).rejects.toMatchObject({ code: 'POOL_BUSY' });
+    expect(mockGenerateImage).not.toHaveBeenCalled();
+    finish();
+    await prompt;
+  });
+
+  it('generateImage() passes the session id as a string and reopens an expired session once', async () => {
+    const bridge = new SessionBridge(testConfig);
+    await bridge.initialize();
+    mockStartSession.mockResolvedValueOnce({ sessionId: 42n }).mockResolvedValueOnce({ sessionId: 43n });
+    mockGenerateImage
+      .mockRejectedValueOnce(Object.assign(new Error('SESSION_NOT_FOUND'), { code: 'SESSION_NOT_FOUND' }))
+      .mockResolvedValueOnce({ image: 'retried_image_data' });
+
+    const result = await bridge.generateImage('A cat', { size: '1024x1024', steps: 4 }, 'studio-1');
+
+    expect(result.image).toBe('retried_image_data');
+    expect(mockGenerateImage.mock.calls.map(c => c[0])).toEqual(['42', '43']);
+    expect(mockGenerateImage.mock.calls[1].slice(1)).toEqual(['A cat', { size: '1024x1024', steps: 4 }]);
+    expect(bridge.getPoolMetrics()).toMatchObject({ sessions: 1, busy: 0, served: 1 });
   });
 
   it('shutdown() ends session cleanly', async () => {
@@ -201,4 +328,79 @@ describe('SessionBridge', () => {
     expect(bridge.isCircuitOpen()).toBe(false);
     expect(bridge.getCircuitError()).toBeNull();
   });
+
+  it('getFimTemplate() detects the format from the model unless --fim-template is set', () => {
+    const bridge = new SessionBridge(testConfig);
+    expect(bridge.getFimTemplate()).toBeUndefined();
+    expect(bridge.getFimTemplate('Qwen/Qwen2.5-Coder-7B-GGUF:qwen2.5-coder-7b-q4_k_m.gguf')?.name).toBe('qwen');
+    expect(new SessionBridge({ ...testConfig, fimTemplate: 'starcoder' }).getFimTemplate()?.name).toBe('starcoder');
+  });
+
+  describe('multiple models', () => {
+    const aliasConfig = { ...testConfig, modelAliases: { 'gpt-4o': 'OtherOrg/Other:other.gguf', 'gpt-4': 'Missing/Model:x.gguf' } };
+
+    beforeEach(() => {
+      mockGetAvailableModelsWithHosts.mockResolvedValue([
+        discovered('TestOrg/TestModel', 'test.gguf'),
+        discovered('OtherOrg/Other', 'other.gguf'),
+        discovered('Idle/Model', 'idle.gguf', 0),
+      ]);
+    });
+
+    it('lists models with hosts and aliases that point at them', async () => {
+      const bridge = new SessionBridge(aliasConfig);
+      await bridge.initialize();
+      expect(await bridge.listModels()).toEqual(['TestOrg/TestModel:test.gguf', 'OtherOrg/Other:other.gguf', 'gpt-4o']);
+      expect(mockModelManager.setHostManager).toHaveBeenCalled();
+    });
+
+    it('resolves aliases and rejects models that are not served', async () => {
+      const bridge = new SessionBridge(aliasConfig);
+      await bridge.initialize();
+      expect(await bridge.resolveModel('gpt-4o')).toBe('OtherOrg/Other:other.gguf');
+      expect(await bridge.resolveModel('OtherOrg/Other:other.gguf')).toBe('OtherOrg/Other:other.gguf');
+      expect(await bridge.resolveModel('Idle/Model:idle.gguf')).toBeUndefined();
+      expect(await bridge.resolveModel('gpt-4')).toBeUndefined();
+      expect(await bridge.resolveModel('gpt-4o-mini')).toBeUndefined();
+      expect(mockGetAvailableModelsWithHosts).toHaveBeenCalledTimes(1);
+    });
+
+    it('answers other OpenAI model names with a "*" alias but never redirects Fabstir ids', async () => {
+      const bridge = new SessionBridge({ ...aliasConfig, modelAliases: { ...aliasConfig.modelAliases, '*': testConfig.modelName } });
+      await bridge.initialize();
+      expect(await bridge.resolveModel('gpt-4o-mini')).toBe(testConfig.modelName);
+      expect(await bridge.resolveModel('gpt-4o')).toBe('OtherOrg/Other:other.gguf');
+      expect(await bridge.resolveModel('gpt-4')).toBeUndefined();
+      expect(await bridge.resolveModel('Idle/Model:idle.gguf')).toBeUndefined();
+      expect(await bridge.listModels()).toEqual(['TestOrg/TestModel:test.gguf', 'OtherOrg/Other:other.gguf', 'gpt-4o']);
+    });
+
+    it('serves the configured model when discovery fails', async () => {
+      mockGetAvailableModelsWithHosts.mockRejectedValue(new Error('HostManager not set'));
+      const bridge = new SessionBridge(testConfig);
+      await bridge.initialize();
+      expect(await bridge.listModels()).toEqual(['TestOrg/TestModel:test.gguf']);
+    });
+
+    it('opens one session per model on first use and ends them all on shutdown', async () => {
+      const bridge = new SessionBridge(aliasConfig);
+      await bridge.initialize();
+      mockStartSession.mockResolvedValueOnce({ sessionId: 42n }).mockResolvedValueOnce({ sessionId: 43n });
+
+      await bridge.sendPrompt('a');
+      await bridge.sendPrompt('b', undefined, undefined, 'OtherOrg/Other:other.gguf');
+      await bridge.sendPrompt('c', undefined, undefined, 'OtherOrg/Other:other.gguf');
+
+      expect(mockStartSession).toHaveBeenCalledTimes(2);
+      expect(mockStartSession.mock.calls[0][0]).toMatchObject({ modelId: 'TestOrg/TestModel:test.gguf', host: '0xTestHost456' });
+      expect(mockStartSession.mock.calls[1][0].modelId).toBe('OtherOrg/Other:other.gguf');
+      expect(mockStartSession.mock.calls[1][0].host).toBeUndefined();
+      expect(mockSendPromptStreaming.mock.calls.map(c => c[0])).toEqual([42n, 43n, 43n]);
+      expect(bridge.getSessionId('OtherOrg/Other:other.gguf')).toBe(43n);
+
+      await bridge.shutdown();
+      expect(mockEndSession).toHaveBeenCalledWith(42n);
+      expect(mockEndSession).toHaveBeenCalledWith(43n);
+    });
+  });
 });
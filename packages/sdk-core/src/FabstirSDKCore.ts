@@ -43,6 +43,10 @@ import { JobMarketplaceWrapper } from './contracts/JobMarketplace';
 import { VectorRAGManager } from './managers/VectorRAGManager';
 import { SessionGroupManager } from './managers/SessionGroupManager';
 import { SessionGroupStorage } from './storage/SessionGroupStorage';
+import { PromptTemplateManager } from './managers/PromptTemplateManager';
+import { PromptTemplateStorage } from './storage/PromptTemplateStorage';
+import { PermissionManager } from './managers/PermissionManager';
+import { PermissionStorage } from './storage/PermissionStorage';
 import { DEFAULT_RAG_CONFIG } from './rag/config';
 import { ContractManager, ContractAddresses } from './contracts/ContractManager';
 import { UnifiedBridgeClient } from './services/UnifiedBridgeClient';
@@ -139,6 +143,7 @@ export class FabstirSDKCore extends EventEmitter {
   private encryptionManager?: EncryptionManager;
   private vectorRAGManager?: IVectorRAGManager;
   private sessionGroupManager?: SessionGroupManager;
+  private promptTemplateManager?: PromptTemplateManager;
   private transcodeManager?: TranscodeManager;
   private ltxManager?: LtxManager;
 
@@ -936,6 +941,17 @@ export class FabstirSDKCore extends EventEmitter {
         );
 
         this.sessionGroupManager = new SessionGroupManager(sessionGroupStorage);
+
+        // Prompt templates live in the user's S5 space; grants are stored with PermissionStorage
+        this.promptTemplateManager = new PromptTemplateManager(
+          new PromptTemplateStorage(this.storageManager as any, this.userAddress),
+          new PermissionManager(new PermissionStorage(
+            this.storageManager!.getS5Client(),
+            this.s5Seed,
+            this.userAddress,
+            this.encryptionManager
+          ))
+        );
       } else if (!hostOnly) {
         console.warn('VectorRAGManager initialization skipped: missing userAddress or s5Seed');
       }
@@ -1118,6 +1134,17 @@ export class FabstirSDKCore extends EventEmitter {
     return this.sessionGroupManager!;
   }
 
+  /**
+   * Get prompt template manager for versioned, shareable prompt templates
+   */
+  getPromptTemplateManager(): PromptTemplateManager {
+    this.ensureAuthenticated();
+    if (!this.promptTemplateManager) {
+      throw new SDKError('PromptTemplateManager not initialized (requires S5 storage)', 'PROMPT_TEMPLATES_NOT_AVAILABLE');
+    }
+    return this.promptTemplateManager;
+  }
+
   getTranscodeManager(): ITranscodeManager {
     this.ensureAuthenticated();
     if (!this.transcodeManager) {
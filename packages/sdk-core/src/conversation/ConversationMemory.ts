@@ -7,6 +7,7 @@
 import type { EmbeddingService } from '../embeddings/EmbeddingService.js';
 import type { VectorRAGManager } from '../managers/VectorRAGManager.js';
 import type { VectorRecord } from '../rag/types.js';
+import { tokenizerRegistry } from '../tokenizers/tokenizer-registry.js';
 
 /**
  * Conversation message
@@ -63,12 +64,18 @@ export interface ConversationMemoryConfig {
    * Default: 0.6
    */
   similarityThreshold?: number;
+
+  /**
+   * Model whose tokenizer counts message tokens (see tokenizerRegistry)
+   * Default: none (1 token ≈ 4 characters)
+   */
+  tokenizerModel?: string;
 }
 
 /**
  * Default conversation memory configuration
  */
-export const DEFAULT_MEMORY_CONFIG: Required<Omit<ConversationMemoryConfig, 'enabled'>> = {
+export const DEFAULT_MEMORY_CONFIG: Required<Omit<ConversationMemoryConfig, 'enabled' | 'tokenizerModel'>> = {
   maxHistoryMessages: 5,
   maxRecentMessages: 3,
   maxMemoryTokens: 1000,
@@ -85,7 +92,8 @@ export class ConversationMemory {
   private vectorDbSessionId: string;
   private messages: ConversationMessage[] = [];
   private messageIndex: number = 0;
-  private config: Required<ConversationMemoryConfig>;
+  private config: Required<Omit<ConversationMemoryConfig, 'tokenizerModel'>>;
+  private tokenizerModel?: string;
 
   constructor(
     embeddingService: EmbeddingService,
@@ -100,6 +108,7 @@ export class ConversationMemory {
       ...DEFAULT_MEMORY_CONFIG,
       ...config
     };
+    this.tokenizerModel = config.tokenizerModel;
   }
 
   /**
@@ -308,11 +317,11 @@ export class ConversationMemory {
 
   /**
    * Estimate token count for text
-   * Rough approximation: 1 token ≈ 4 characters
+   * Uses the model's tokenizer when loaded, otherwise 1 token ≈ 4 characters
    * @private
    */
   private estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4);
+    return tokenizerRegistry.countTokens(text, this.tokenizerModel);
   }
 
   /**
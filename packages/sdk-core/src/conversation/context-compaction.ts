@@ -0,0 +1,67 @@
+/**
+ * Context Compaction
+ * Rolling summaries that stand in for older turns in the prompt context
+ * Max 100 lines
+ */
+
+import type { Message } from '../types/index.js';
+
+export const DEFAULT_COMPACTION_THRESHOLD = 0.75;
+export const DEFAULT_KEEP_RECENT_TURNS = 2;
+export const DEFAULT_SUMMARY_MAX_TOKENS = 512;
+
+const ROLES = { user: 'User', assistant: 'Assistant', system: 'System' } as const;
+
+/**
+ * Format messages as a User:/Assistant: transcript
+ */
+export function formatTranscript(messages: Message[]): string {
+  return messages.map(message => `${ROLES[message.role]}: ${message.content}`).join('\n\n');
+}
+
+/**
+ * Number of leading messages to summarise so that the last keepRecentTurns
+ * user turns (and everything after them) stay verbatim
+ */
+export function countCompactableMessages(messages: Message[], keepRecentTurns: number): number {
+  if (keepRecentTurns <= 0) {
+    return messages.length;
+  }
+  let kept = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user' && ++kept === keepRecentTurns) {
+      return i;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Ask the model to fold older turns into the running summary
+ */
+export function buildSummaryPrompt(previousSummary: string | undefined, messages: Message[]): string {
+  const earlier = previousSummary
+    ? `Summary of the conversation before these messages:\n${previousSummary}\n\n`
+    : '';
+  return (
+    'Summarise the conversation below for use as context in later turns. ' +
+    'Keep facts, names, numbers, decisions, open questions and user preferences. ' +
+    'Write in the third person, as plain prose, without preamble.\n\n' +
+    `${earlier}Messages:\n\n${formatTranscript(messages)}\n\nSummary:`
+  );
+}
+
+/**
+ * Prompt text for the host: the summary of compacted turns, the turns after
+ * them verbatim, then the new prompt
+ */
+export function buildCompactedPrompt(summary: string | undefined, recent: Message[], prompt: string): string {
+  const sections: string[] = [];
+  if (summary) {
+    sections.push(`Summary of the earlier conversation:\n${summary}`);
+  }
+  if (recent.length > 0) {
+    sections.push(`Conversation so far:\n\n${formatTranscript(recent)}`);
+  }
+  return sections.length > 0 ? `${sections.join('\n\n')}\n\nUser: ${prompt}` : prompt;
+}
@@ -0,0 +1,101 @@
+/**
+ * Conversation Tree
+ * Message ids and parent pointers for branching conversations
+ * Max 150 lines
+ */
+
+import { bytesToHex } from '@noble/hashes/utils';
+
+/**
+ * Fields a message needs to take part in a conversation tree
+ */
+export interface TreeMessage {
+  id?: string;
+  parentId?: string | null;
+}
+
+/**
+ * A message with its place in the tree resolved
+ */
+export type TreeNode<T extends TreeMessage> = T & { id: string; parentId: string | null };
+
+/**
+ * Create a unique message id
+ */
+export function createMessageId(): string {
+  return 'msg_' + bytesToHex(globalThis.crypto.getRandomValues(new Uint8Array(12)));
+}
+
+/**
+ * Resolve ids and parents. Messages stored before branching existed have
+ * neither: message i gets the id `msg_<i>` and the previous message as parent,
+ * which is the linear conversation they were recorded as.
+ */
+export function withMessageIds<T extends TreeMessage>(messages: T[]): Array<TreeNode<T>> {
+  let previous: string | null = null;
+  return messages.map((message, index) => {
+    const id = message.id ?? `msg_${index}`;
+    const parentId = message.parentId !== undefined ? message.parentId : previous;
+    previous = id;
+    return { ...message, id, parentId };
+  });
+}
+
+/**
+ * Messages from the root down to messageId (inclusive); empty for null or an unknown id
+ */
+export function getBranchPath<T extends TreeMessage>(
+  messages: T[],
+  messageId: string | null
+): Array<TreeNode<T>> {
+  const byId = new Map(withMessageIds(messages).map(message => [message.id, message]));
+  const path: Array<TreeNode<T>> = [];
+  let current = messageId !== null ? byId.get(messageId) : undefined;
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * Direct replies to parentId (null for the first messages), oldest first
+ */
+export function getChildMessages<T extends TreeMessage>(
+  messages: T[],
+  parentId: string | null
+): Array<TreeNode<T>> {
+  return withMessageIds(messages).filter(message => message.parentId === parentId);
+}
+
+/**
+ * The newest message at the end of the branch through messageId.
+ * Follows the most recently added reply at every level.
+ */
+export function getLatestLeaf<T extends TreeMessage>(messages: T[], messageId: string | null): string | null {
+  const nodes = withMessageIds(messages);
+  let leaf = messageId;
+  const seen = new Set<string | null>();
+  while (!seen.has(leaf)) {
+    seen.add(leaf);
+    const replies = nodes.filter(message => message.parentId === leaf);
+    if (replies.length === 0) break;
+    leaf = replies[replies.length - 1].id;
+  }
+  return leaf;
+}
+
+/**
+ * The branch a stored conversation is on: the path to activeMessageId,
+ * or to the last message when no cursor was ever set.
+ */
+export function getActiveBranch<T extends TreeMessage>(
+  messages: T[],
+  activeMessageId?: string | null
+): Array<TreeNode<T>> {
+  if (activeMessageId === undefined) {
+    const nodes = withMessageIds(messages);
+    return getBranchPath(nodes, nodes.length > 0 ? nodes[nodes.length - 1].id : null);
+  }
+  return getBranchPath(messages, activeMessageId);
+}
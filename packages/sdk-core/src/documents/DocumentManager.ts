@@ -8,7 +8,8 @@
  */
 
 import { extractText } from './extractors.js';
-import { chunkText } from './chunker.js';
+import { chunkWithStrategy } from './chunking-strategies.js';
+import { tokenizerRegistry } from '../tokenizers/tokenizer-registry.js';
 import type {
   DocumentType,
   ChunkingOptions,
@@ -80,7 +81,9 @@ export class DocumentManager implements IDocumentManager {
 
       // Stage 2: Chunk text (50%)
       this.emitProgress(options, { stage: 'chunking', progress: 50 });
-      const chunks = chunkText(text, documentId, file.name, documentType, options);
+      const chunks = await chunkWithStrategy(
+        text, documentId, file.name, documentType, options, texts => this.embedChunkTexts(texts)
+      );
 
       // Deduplicate if requested
       const uniqueChunks = options?.deduplicateChunks
@@ -105,7 +108,9 @@ export class DocumentManager implements IDocumentManager {
           documentType,
           chunkIndex: uniqueChunks[index].metadata.index,
           startOffset: uniqueChunks[index].metadata.startOffset,
-          endOffset: uniqueChunks[index].metadata.endOffset
+          endOffset: uniqueChunks[index].metadata.endOffset,
+          ...(uniqueChunks[index].metadata.contentHash && { contentHash: uniqueChunks[index].metadata.contentHash }),
+          ...(uniqueChunks[index].metadata.headingPath && { headingPath: uniqueChunks[index].metadata.headingPath })
         }
       }));
 
@@ -204,11 +209,17 @@ export class DocumentManager implements IDocumentManager {
     const documentType = this.getDocumentType(file.name);
     const { text } = await extractText(file, documentType);
 
+    // Semantic boundaries need embeddings; a dry run sizes with the default chunker
     const documentId = 'estimate';
-    const chunks = chunkText(text, documentId, file.name, documentType, options);
+    const estimateOptions = options?.strategy === 'semantic' ? { ...options, strategy: 'default' as const } : options;
+    const chunks = await chunkWithStrategy(text, documentId, file.name, documentType, estimateOptions);
 
-    // Estimate tokens (rough: 1 word ≈ 1.3 tokens)
+    // Count with options.tokenizerModel's tokenizer (loaded by chunkWithStrategy), else 1 word ≈ 1.3 tokens
+    const tokenizer = tokenizerRegistry.find(options?.tokenizerModel);
     const totalTokens = chunks.reduce((sum, chunk) => {
+      if (tokenizer) {
+        return sum + tokenizer.countTokens(chunk.text);
+      }
       const wordCount = chunk.text.split(/\s+/).length;
       return sum + Math.ceil(wordCount * 1.3);
     }, 0);
@@ -224,6 +235,15 @@ export class DocumentManager implements IDocumentManager {
     };
   }
 
+  /**
+   * Embed texts for the semantic chunking strategy
+   * @private
+   */
+  private async embedChunkTexts(texts: string[]): Promise<number[][]> {
+    const response = await this.embeddingService.embedBatch(texts);
+    return response.embeddings.map(result => result.embedding);
+  }
+
   /**
    * Generate unique document ID
    * @private
@@ -250,6 +270,14 @@ export class DocumentManager implements IDocumentManager {
         return 'pdf';
       case 'docx':
         return 'docx';
+      case 'pptx':
+        return 'pptx';
+      case 'xlsx':
+        return 'xlsx';
+      case 'csv':
+        return 'csv';
+      case 'json':
+        return 'json';
       default:
         return 'txt';
     }
@@ -5,6 +5,9 @@
  */
 
 import type { DocumentChunk, ChunkingOptions, ChunkMetadata, DocumentType } from './types.js';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
+import { tokenizerRegistry } from '../tokenizers/tokenizer-registry.js';
 
 /**
  * Default chunking options
@@ -13,7 +16,9 @@ const DEFAULT_OPTIONS: Required<ChunkingOptions> = {
   chunkSize: 500, // tokens
   overlap: 50, // tokens
   splitBySentence: false,
-  splitByParagraph: false
+  splitByParagraph: false,
+  strategy: 'default',
+  tokenizerModel: ''
 };
 
 /**
@@ -27,7 +32,7 @@ const WORDS_PER_TOKEN = 0.77; // 1 / 1.3
  * Maximum characters per chunk - embedding APIs typically have 8192 char limit
  * Use 7500 to leave some margin for safety
  */
-const MAX_CHUNK_CHARS = 7500;
+export const MAX_CHUNK_CHARS = 7500;
 
 /**
  * Chunk a document's text into smaller pieces
@@ -54,6 +59,7 @@ export function chunkText(
   // Convert token counts to word counts
   const chunkWordCount = Math.floor(opts.chunkSize * WORDS_PER_TOKEN);
   const overlapWordCount = Math.floor(opts.overlap * WORDS_PER_TOKEN);
+  const tokenizerModel = opts.tokenizerModel || undefined;
 
   // Handle empty text (e.g., images without OCR content)
   if (!text || text.trim().length === 0) {
@@ -68,22 +74,24 @@ export function chunkText(
   if (words.length <= chunkWordCount && text.length <= MAX_CHUNK_CHARS) {
     // Document is shorter than chunk size AND under character limit, return as single chunk
     return [
-      createChunk(text, 0, documentId, documentName, documentType, 0, text.length)
+      createChunk(text, 0, documentId, documentName, documentType, 0, text.length, undefined, tokenizerModel)
     ];
   }
 
   // If text exceeds character limit but has few words, force character-based chunking
   if (text.length > MAX_CHUNK_CHARS && words.length <= chunkWordCount) {
-    return chunkByCharacters(text, documentId, documentName, documentType);
+    return chunkByCharacters(text, documentId, documentName, documentType, tokenizerModel);
   }
 
   // Perform chunking based on strategy
   if (opts.splitByParagraph) {
-    return chunkByParagraph(text, documentId, documentName, documentType, chunkWordCount, overlapWordCount);
+    return chunkByParagraph(text, documentId, documentName, documentType, chunkWordCount, overlapWordCount, tokenizerModel);
   } else if (opts.splitBySentence) {
-    return chunkBySentence(text, documentId, documentName, documentType, chunkWordCount, overlapWordCount);
+    return chunkBySentence(text, documentId, documentName, documentType, chunkWordCount, overlapWordCount, tokenizerModel);
   } else {
-    return chunkByWords(text, documentId, documentName, documentType, chunkWordCount, overlapWordCount);
+    return chunkByWords(
+      text, documentId, documentName, documentType, chunkWordCount, overlapWordCount, tokenizerModel, opts.chunkSize
+    );
   }
 }
 
@@ -96,9 +104,12 @@ function chunkByWords(
   documentName: string,
   documentType: DocumentType,
   chunkWordCount: number,
-  overlapWordCount: number
+  overlapWordCount: number,
+  tokenizerModel?: string,
+  chunkSize?: number
 ): DocumentChunk[] {
   const words = text.split(/\s+/).filter(w => w.length > 0);
+  const tokenBudget = tokenizerModel && tokenizerRegistry.find(tokenizerModel) ? chunkSize : undefined;
   const chunks: DocumentChunk[] = [];
   let chunkIndex = 0;
   let startWordIdx = 0;
@@ -120,6 +131,17 @@ function chunkByWords(
       chunkText = chunkWords.join(' ');
     }
 
+    // With a real tokenizer, also shrink to the model's token budget
+    while (
+      tokenBudget !== undefined &&
+      endWordIdx > startWordIdx + overlapWordCount + 1 &&
+      estimateTokens(chunkText, tokenizerModel) > tokenBudget
+    ) {
+      endWordIdx--;
+      chunkWords = words.slice(startWordIdx, endWordIdx);
+      chunkText = chunkWords.join(' ');
+    }
+
 
     // Calculate character offsets
     const approxOffset = startWordIdx === 0 ? 0 : getApproximateOffset(text, startWordIdx);
@@ -141,7 +163,9 @@ function chunkByWords(
 
     const endOffset = startOffset + chunkText.length;
 
-    chunks.push(createChunk(chunkText, chunkIndex, documentId, documentName, documentType, startOffset, endOffset));
+    chunks.push(createChunk(
+      chunkText, chunkIndex, documentId, documentName, documentType, startOffset, endOffset, undefined, tokenizerModel
+    ));
 
     chunkIndex++;
 
@@ -178,7 +202,8 @@ function chunkBySentence(
   documentName: string,
   documentType: DocumentType,
   chunkWordCount: number,
-  overlapWordCount: number
+  overlapWordCount: number,
+  tokenizerModel?: string
 ): DocumentChunk[] {
   // Split by sentence boundaries
   const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
@@ -201,7 +226,9 @@ function chunkBySentence(
       const chunkText = currentChunk.join(' ');
       const endOffset = startOffset + chunkText.length;
 
-      chunks.push(createChunk(chunkText, chunkIndex, documentId, documentName, documentType, startOffset, endOffset));
+      chunks.push(createChunk(
+        chunkText, chunkIndex, documentId, documentName, documentType, startOffset, endOffset, undefined, tokenizerModel
+      ));
 
       chunkIndex++;
 
@@ -225,7 +252,8 @@ function chunkByParagraph(
   documentName: string,
   documentType: DocumentType,
   chunkWordCount: number,
-  overlapWordCount: number
+  overlapWordCount: number,
+  tokenizerModel?: string
 ): DocumentChunk[] {
   // Split by double newlines (paragraphs)
   const paragraphs = text.split(/\n\n+/).filter(p => p.trim().length > 0);
@@ -248,7 +276,9 @@ function chunkByParagraph(
       const chunkText = currentChunk.join('\n\n');
       const endOffset = startOffset + chunkText.length;
 
-      chunks.push(createChunk(chunkText, chunkIndex, documentId, documentName, documentType, startOffset, endOffset));
+      chunks.push(createChunk(
+        chunkText, chunkIndex, documentId, documentName, documentType, startOffset, endOffset, undefined, tokenizerModel
+      ));
 
       chunkIndex++;
 
@@ -276,7 +306,8 @@ function chunkByCharacters(
   text: string,
   documentId: string,
   documentName: string,
-  documentType: DocumentType
+  documentType: DocumentType,
+  tokenizerModel?: string
 ): DocumentChunk[] {
   const chunks: DocumentChunk[] = [];
   const overlapChars = Math.floor(MAX_CHUNK_CHARS * 0.1); // 10% overlap
@@ -304,7 +335,9 @@ function chunkByCharacters(
     }
 
     const chunkText = text.slice(startOffset, endOffset);
-    chunks.push(createChunk(chunkText, chunkIndex, documentId, documentName, documentType, startOffset, endOffset));
+    chunks.push(createChunk(
+      chunkText, chunkIndex, documentId, documentName, documentType, startOffset, endOffset, undefined, tokenizerModel
+    ));
 
     chunkIndex++;
 
@@ -322,15 +355,18 @@ function chunkByCharacters(
 
 /**
  * Create a document chunk with metadata
+ * Shared with the structure-aware strategies in chunking-strategies.ts
  */
-function createChunk(
+export function createChunk(
   text: string,
   index: number,
   documentId: string,
   documentName: string,
   documentType: DocumentType,
   startOffset: number,
-  endOffset: number
+  endOffset: number,
+  extra?: Pick<ChunkMetadata, 'strategy' | 'headingPath'>,
+  tokenizerModel?: string
 ): DocumentChunk {
   const chunkId = `${documentId}_chunk_${index}`;
 
@@ -341,7 +377,9 @@ function createChunk(
     index,
     startOffset,
     endOffset,
-    tokenCount: estimateTokens(text)
+    tokenCount: estimateTokens(text, tokenizerModel),
+    contentHash: hashChunkText(text),
+    ...extra
   };
 
   return {
@@ -353,12 +391,25 @@ function createChunk(
 
 /**
  * Estimate token count from text
+ * Uses the model's tokenizer when one is loaded in the tokenizer registry
  */
-function estimateTokens(text: string): number {
+export function estimateTokens(text: string, tokenizerModel?: string): number {
+  const tokenizer = tokenizerRegistry.find(tokenizerModel);
+  if (tokenizer) {
+    return tokenizer.countTokens(text);
+  }
   const words = text.split(/\s+/).filter(w => w.length > 0).length;
   return Math.ceil(words * 1.3); // 1 word ≈ 1.3 tokens
 }
 
+/**
+ * SHA-256 (hex) of chunk text, stored in vector metadata so re-indexing can
+ * skip chunks whose content has not changed
+ */
+export function hashChunkText(text: string): string {
+  return bytesToHex(sha256(new TextEncoder().encode(text)));
+}
+
 /**
  * Get approximate character offset for word index
  */
@@ -0,0 +1,207 @@
+/**
+ * Chunking Strategies
+ * Structure-aware chunking (Markdown headings, code units, semantic breaks)
+ * selectable per processDocument call via ChunkingOptions.strategy, and the
+ * span helpers the strategies share
+ * Max 400 lines
+ */
+
+import type {
+  DocumentChunk,
+  DocumentType,
+  ChunkingOptions,
+  ChunkingContext,
+  ChunkingStrategy
+} from './types.js';
+import { chunkText, createChunk, estimateTokens, MAX_CHUNK_CHARS } from './chunker.js';
+import { tokenizerRegistry } from '../tokenizers/tokenizer-registry.js';
+import { MarkdownChunkingStrategy } from './markdown-chunking.js';
+import { CodeChunkingStrategy } from './code-chunking.js';
+import { SemanticChunkingStrategy } from './semantic-chunking.js';
+
+export { MarkdownChunkingStrategy, CodeChunkingStrategy, SemanticChunkingStrategy };
+export type { SemanticChunkingOptions } from './semantic-chunking.js';
+
+/**
+ * Span of the source text [start, end)
+ */
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export interface Line extends Span {
+  text: string;
+}
+
+/**
+ * Split text into lines with offsets (end excludes the line break)
+ */
+export function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  const pattern = /[^\r\n]*(?:\r\n|\r|\n|$)/g;
+  for (const match of text.matchAll(pattern)) {
+    if (match[0].length === 0) break;
+    const lineText = match[0].replace(/[\r\n]+$/, '');
+    lines.push({ text: lineText, start: match.index!, end: match.index! + lineText.length });
+  }
+  return lines;
+}
+
+/**
+ * Split an oversized span at line boundaries (then whitespace) so every
+ * piece fits the token budget and the embedding character limit
+ */
+export function splitSpan(text: string, span: Span, context: ChunkingContext): Span[] {
+  const pieces: Span[] = [];
+  let current: Span | null = null;
+
+  const fits = (s: Span) =>
+    s.end - s.start <= MAX_CHUNK_CHARS &&
+    estimateTokens(text.slice(s.start, s.end), context.tokenizerModel) <= context.chunkSize;
+
+  for (const line of splitLines(text.slice(span.start, span.end))) {
+    const lineSpan = { start: span.start + line.start, end: span.start + line.end };
+    if (current && fits({ start: current.start, end: lineSpan.end })) {
+      current.end = lineSpan.end;
+      continue;
+    }
+    if (current) pieces.push(current);
+    current = null;
+
+    // A single line over budget is cut at whitespace
+    let start = lineSpan.start;
+    while (!fits({ start, end: lineSpan.end })) {
+      let end = Math.min(start + MAX_CHUNK_CHARS, lineSpan.end);
+      while (end > start + 1 && !fits({ start, end })) end = Math.floor((start + end) / 2);
+      const breakAt = text.lastIndexOf(' ', end);
+      if (breakAt > start) end = breakAt;
+      pieces.push({ start, end });
+      start = end;
+      while (start < lineSpan.end && text[start] === ' ') start++;
+    }
+    if (start < lineSpan.end) current = { start, end: lineSpan.end };
+  }
+  if (current) pieces.push(current);
+  return pieces.filter(p => text.slice(p.start, p.end).trim().length > 0);
+}
+
+/**
+ * Turn spans into chunks, trimming surrounding whitespace from each span
+ */
+export function spansToChunks(
+  text: string,
+  spans: Array<Span & { headingPath?: string[] }>,
+  context: ChunkingContext,
+  strategy: string
+): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  for (const span of spans) {
+    const raw = text.slice(span.start, span.end);
+    const start = span.start + (raw.length - raw.trimStart().length);
+    const end = span.end - (raw.length - raw.trimEnd().length);
+    if (end <= start) continue;
+
+    chunks.push(createChunk(
+      text.slice(start, end),
+      chunks.length,
+      context.documentId,
+      context.documentName,
+      context.documentType,
+      start,
+      end,
+      span.headingPath ? { strategy, headingPath: span.headingPath } : { strategy }
+    ));
+  }
+  return chunks;
+}
+
+/**
+ * Greedily pack consecutive units into spans within the token budget
+ * A unit larger than the budget becomes its own span (split only if it
+ * exceeds the embedding character limit)
+ */
+export function packUnits(text: string, units: Span[], context: ChunkingContext): Span[] {
+  const spans: Span[] = [];
+  let current: Span | null = null;
+
+  for (const unit of units) {
+    if (current && estimateTokens(text.slice(current.start, unit.end), context.tokenizerModel) <= context.chunkSize) {
+      current.end = unit.end;
+      continue;
+    }
+    if (current) spans.push(current);
+    current = { ...unit };
+    if (unit.end - unit.start > MAX_CHUNK_CHARS) {
+      spans.push(...splitSpan(text, unit, context));
+      current = null;
+    }
+  }
+  if (current) spans.push(current);
+  return spans;
+}
+
+/**
+ * Resolve ChunkingOptions.strategy to a strategy instance
+ * Returns null for the default size-based chunker
+ */
+export function resolveChunkingStrategy(strategy: ChunkingOptions['strategy']): ChunkingStrategy | null {
+  switch (strategy) {
+    case undefined:
+    case 'default':
+      return null;
+    case 'markdown':
+      return new MarkdownChunkingStrategy();
+    case 'code':
+      return new CodeChunkingStrategy();
+    case 'semantic':
+      return new SemanticChunkingStrategy();
+    default:
+      if (typeof strategy === 'object' && typeof strategy.chunk === 'function') {
+        return strategy;
+      }
+      throw new Error(`Unknown chunking strategy: ${String(strategy)}`);
+  }
+}
+
+/**
+ * Chunk text with the strategy selected in options
+ * Falls back to chunkText() when no structure-aware strategy is selected
+ *
+ * @param text - Text to chunk
+ * @param documentId - Document ID
+ * @param documentName - Document name
+ * @param documentType - Document type
+ * @param options - Chunking options (including strategy)
+ * @param embed - Embedding function for the semantic strategy
+ * @returns Array of document chunks
+ */
+export async function chunkWithStrategy(
+  text: string,
+  documentId: string,
+  documentName: string,
+  documentType: DocumentType,
+  options?: ChunkingOptions,
+  embed?: (texts: string[]) => Promise<number[][]>
+): Promise<DocumentChunk[]> {
+  const strategy = resolveChunkingStrategy(options?.strategy);
+  const tokenizerModel = options?.tokenizerModel;
+  if (tokenizerModel) {
+    // Token budgets are measured synchronously, so make the vocabulary available first
+    await tokenizerRegistry.load(tokenizerModel);
+  }
+  if (!strategy) {
+    return chunkText(text, documentId, documentName, documentType, options);
+  }
+
+  const chunkSize = options?.chunkSize ?? 500;
+  const overlap = options?.overlap ?? 50;
+  if (chunkSize <= 0) {
+    throw new Error('Invalid chunk size: must be greater than 0');
+  }
+  if (!text || text.trim().length === 0) {
+    return [];
+  }
+
+  return strategy.chunk(text, { documentId, documentName, documentType, chunkSize, overlap, embed, tokenizerModel });
+}
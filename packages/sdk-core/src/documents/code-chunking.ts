@@ -0,0 +1,89 @@
+/**
+ * Code Chunking
+ * Declaration-aware chunking strategy for source code
+ * Max 120 lines
+ */
+
+import type { DocumentChunk, ChunkingContext, ChunkingStrategy } from './types.js';
+import { splitLines, spansToChunks, packUnits } from './chunking-strategies.js';
+import type { Span } from './chunking-strategies.js';
+
+const NON_BOUNDARY = /^(\}|\)|\]|else\b|elif\b|except\b|finally\b|catch\b)/;
+const LEADING_TRIVIA = /^(\/\/|\/\*|\*|#(?!include|define|\[)|@|'''|""")/;
+
+/**
+ * Track bracket depth across a line, ignoring strings and comments
+ */
+function scanDepth(line: string, state: { depth: number; inBlockComment: boolean; inTemplate: boolean }): void {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (state.inBlockComment) {
+      if (char === '*' && line[i + 1] === '/') {
+        state.inBlockComment = false;
+        i++;
+      }
+    } else if (state.inTemplate) {
+      if (char === '\\') i++;
+      else if (char === '`') state.inTemplate = false;
+    } else if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '/' && line[i + 1] === '/') {
+      return;
+    } else if (char === '/' && line[i + 1] === '*') {
+      state.inBlockComment = true;
+      i++;
+    } else if (char === '#' && line.slice(0, i).trim() === '') {
+      return;
+    } else if (char === '`') {
+      state.inTemplate = true;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '{' || char === '(' || char === '[') {
+      state.depth++;
+    } else if (char === '}' || char === ')' || char === ']') {
+      state.depth = Math.max(0, state.depth - 1);
+    }
+  }
+}
+
+/**
+ * Code-aware chunking
+ *
+ * Splits source at top-level declarations (bracket depth 0, unindented line)
+ * so functions and classes stay intact. Leading comments, doc blocks and
+ * decorators stay with the declaration they precede. Small declarations are
+ * packed together up to the token budget.
+ */
+export class CodeChunkingStrategy implements ChunkingStrategy {
+  readonly name = 'code';
+
+  chunk(text: string, context: ChunkingContext): DocumentChunk[] {
+    const state = { depth: 0, inBlockComment: false, inTemplate: false };
+    const units: Span[] = [];
+    let triviaStart: number | null = null;
+
+    for (const line of splitLines(text)) {
+      const atTopLevel = state.depth === 0 && !state.inBlockComment && !state.inTemplate;
+      scanDepth(line.text, state);
+      const startsUnit = atTopLevel && /^\S/.test(line.text) && !NON_BOUNDARY.test(line.text);
+
+      if (startsUnit && LEADING_TRIVIA.test(line.text)) {
+        // Comments and decorators open the unit of the declaration they precede
+        triviaStart ??= line.start;
+      } else if (startsUnit) {
+        units.push({ start: triviaStart ?? line.start, end: line.end });
+        triviaStart = null;
+      } else if (units.length > 0 && triviaStart === null) {
+        units[units.length - 1].end = line.end;
+      }
+    }
+    if (triviaStart !== null) units.push({ start: triviaStart, end: text.length });
+
+    if (units.length === 0) units.push({ start: 0, end: text.length });
+    units[0].start = 0;
+
+    return spansToChunks(text, packUnits(text, units, context), context, this.name);
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Data File Extractors
+ * Text extraction for CSV (row-aware with header context) and JSON (path-flattened)
+ * Max 200 lines
+ */
+
+/**
+ * Parse CSV text into rows (RFC 4180 quoting, auto-detected delimiter)
+ *
+ * @param text - CSV content
+ * @param delimiter - Field delimiter (default: detected from the first line)
+ * @returns Rows of field values
+ */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const sep = delimiter ?? detectDelimiter(input);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === sep) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim().length > 0));
+}
+
+/**
+ * Pick the delimiter that occurs most often (outside quotes) in the first line
+ */
+function detectDelimiter(text: string): string {
+  const candidates = [',', ';', '\t', '|'];
+  const counts = new Map(candidates.map(c => [c, 0]));
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && counts.has(char)) counts.set(char, counts.get(char)! + 1);
+  }
+
+  let best = ',';
+  for (const [candidate, count] of counts) {
+    if (count > counts.get(best)!) best = candidate;
+  }
+  return best;
+}
+
+/**
+ * Extract text from CSV
+ * The first row is the header; each following row becomes one line of
+ * "Header: value" pairs so it stays meaningful after chunking
+ *
+ * @param text - CSV content
+ * @returns Extracted text
+ */
+export function extractCsvText(text: string): string {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return '';
+
+  const headers = header.map((name, i) => name.trim() || `Column ${i + 1}`);
+  if (rows.length === 0) return headers.join(' | ');
+
+  return rows
+    .map((row, r) => {
+      const pairs = row
+        .map((value, c) => (value.trim() ? `${headers[c] ?? `Column ${c + 1}`}: ${value.trim()}` : ''))
+        .filter(pair => pair.length > 0);
+      return `Row ${r + 1}: ${pairs.join('; ')}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Extract text from JSON
+ * Every leaf value becomes one "path: value" line (e.g. "orders[0].sku: A-1")
+ *
+ * @param text - JSON content
+ * @returns Extracted text
+ * @throws Error if the content is not valid JSON
+ */
+export function extractJsonText(text: string): string {
+  let data: unknown;
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new Error(`Failed to extract text from JSON: ${(error as Error).message}`);
+  }
+
+  const lines: string[] = [];
+  flattenJson(data, '', lines);
+  return lines.join('\n');
+}
+
+function flattenJson(value: unknown, path: string, lines: string[]): void {
+  if (Array.isArray(value)) {
+    if (value.length === 0) lines.push(`${path || '$'}: []`);
+    value.forEach((item, i) => flattenJson(item, `${path}[${i}]`, lines));
+  } else if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) lines.push(`${path || '$'}: {}`);
+    for (const [key, child] of entries) {
+      // Keys that are not plain identifiers use bracket notation
+      const childPath = /^[A-Za-z_$][\w$]*$/.test(key)
+        ? (path ? `${path}.${key}` : key)
+        : `${path}[${JSON.stringify(key)}]`;
+      flattenJson(child, childPath, lines);
+    }
+  } else {
+    lines.push(`${path || '$'}: ${value === null ? 'null' : String(value)}`);
+  }
+}
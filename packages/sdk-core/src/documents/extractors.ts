@@ -6,6 +6,8 @@
 
 import type { DocumentType, ExtractionResult } from './types.js';
 import * as pdfjsLib from 'pdfjs-dist';
+import { extractDocxText, extractPptxText, extractXlsxText } from './office-extractors.js';
+import { extractCsvText, extractJsonText } from './data-extractors.js';
 
 // Configure PDF.js worker for browser environment
 // Text extraction works without canvas - canvas is only needed for rendering
@@ -34,7 +36,16 @@ export async function extractText(
       text = await extractFromPDF(file);
       break;
     case 'docx':
-      throw new Error('DOCX processing is not supported in this environment. Please use .txt, .md, or .html files.');
+    case 'pptx':
+    case 'xlsx':
+      text = await extractFromOffice(file, type);
+      break;
+    case 'csv':
+      text = extractCsvText(await extractFromPlainText(file));
+      break;
+    case 'json':
+      text = extractJsonText(await extractFromPlainText(file));
+      break;
     case 'txt':
     case 'md':
       text = await extractFromPlainText(file);
@@ -58,8 +69,25 @@ export async function extractText(
   };
 }
 
-// DOCX extraction requires mammoth.js which has server-side dependencies
-// For DOCX processing, implement a separate backend endpoint or use mammoth in Node.js
+/**
+ * Extract text from an OOXML (Office) file
+ * Parses the zip container in pure JS, so it works in browser and Node.js
+ *
+ * @param file - DOCX, PPTX or XLSX file
+ * @param type - Office document type
+ * @returns Extracted text
+ */
+async function extractFromOffice(file: File, type: 'docx' | 'pptx' | 'xlsx'): Promise<string> {
+  try {
+    const data = await file.arrayBuffer();
+    const text = type === 'docx' ? extractDocxText(data)
+      : type === 'pptx' ? extractPptxText(data)
+      : extractXlsxText(data);
+    return sanitizeText(text);
+  } catch (error) {
+    throw new Error(`Failed to extract text from ${type.toUpperCase()}: ${(error as Error).message}`);
+  }
+}
 
 /**
  * Extract text from plain text file
@@ -213,6 +241,14 @@ export function detectDocumentType(fileName: string): DocumentType {
       return 'pdf';
     case 'docx':
       return 'docx';
+    case 'pptx':
+      return 'pptx';
+    case 'xlsx':
+      return 'xlsx';
+    case 'csv':
+      return 'csv';
+    case 'json':
+      return 'json';
     // Image formats (detected for rejection — use sendPromptStreaming with options.images)
     case 'png':
       return 'png';
@@ -295,6 +331,14 @@ function getMimeType(type: DocumentType): string {
       return 'application/pdf';
     case 'docx':
       return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    case 'pptx':
+      return 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+    case 'xlsx':
+      return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    case 'csv':
+      return 'text/csv';
+    case 'json':
+      return 'application/json';
     default:
       return 'application/octet-stream';
   }
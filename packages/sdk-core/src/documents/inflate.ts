@@ -0,0 +1,217 @@
+/**
+ * DEFLATE Decoder
+ * Pure-JS raw DEFLATE (RFC 1951) decompressor for the ZIP reader
+ * Works identically in browser and Node.js - no native or stream APIs
+ * Max 250 lines
+ */
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1];
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    if (lengths[symbol] !== 0) symbols[offsets[lengths[symbol]]++] = symbol;
+  }
+  return { counts, symbols };
+}
+
+let fixedTables: { lit: Huffman; dist: Huffman } | null = null;
+
+function getFixedTables(): { lit: Huffman; dist: Huffman } {
+  if (!fixedTables) {
+    const lengths = new Uint8Array(288);
+    lengths.fill(8, 0, 144);
+    lengths.fill(9, 144, 256);
+    lengths.fill(7, 256, 280);
+    lengths.fill(8, 280, 288);
+    fixedTables = { lit: buildHuffman(lengths), dist: buildHuffman(new Uint8Array(30).fill(5)) };
+  }
+  return fixedTables;
+}
+
+class BitReader {
+  private pos = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  constructor(private readonly data: Uint8Array) {}
+
+  bits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      if (this.bitCount === 0) {
+        if (this.pos >= this.data.length) throw new Error('Unexpected end of DEFLATE data');
+        this.bitBuffer = this.data[this.pos++];
+        this.bitCount = 8;
+      }
+      value |= (this.bitBuffer & 1) << i;
+      this.bitBuffer >>= 1;
+      this.bitCount--;
+    }
+    return value;
+  }
+
+  decode(table: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= this.bits(1);
+      const count = table.counts[len];
+      if (code - first < count) return table.symbols[index + code - first];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid DEFLATE Huffman code');
+  }
+
+  /** Skip to the next byte boundary and return the byte position */
+  alignToByte(): number {
+    this.bitCount = 0;
+    return this.pos;
+  }
+
+  skipBytes(count: number): void {
+    this.pos += count;
+  }
+}
+
+/**
+ * Decompress raw DEFLATE data
+ *
+ * The output buffer grows with the data actually decoded, never beyond maxSize,
+ * so corrupt or hostile input cannot force a large allocation.
+ *
+ * @param data - Compressed bytes (no zlib/gzip header)
+ * @param maxSize - Maximum decompressed size in bytes
+ * @returns Decompressed bytes
+ * @throws Error if the data is invalid or decompresses to more than maxSize bytes
+ */
+export function inflateRaw(data: Uint8Array, maxSize: number): Uint8Array {
+  const reader = new BitReader(data);
+  let out = new Uint8Array(Math.min(Math.max(data.length * 4, 1024), maxSize));
+  let length = 0;
+
+  const ensure = (extra: number) => {
+    if (length + extra > maxSize) {
+      throw new Error(`DEFLATE output exceeds ${maxSize} bytes`);
+    }
+    if (length + extra > out.length) {
+      const grown = new Uint8Array(Math.min(Math.max(out.length * 2, length + extra), maxSize));
+      grown.set(out.subarray(0, length));
+      out = grown;
+    }
+  };
+
+  let last = 0;
+  while (!last) {
+    last = reader.bits(1);
+    const type = reader.bits(2);
+
+    if (type === 0) {
+      const pos = reader.alignToByte();
+      if (pos + 4 > data.length) throw new Error('Unexpected end of DEFLATE data');
+      const size = data[pos] | (data[pos + 1] << 8);
+      if (pos + 4 + size > data.length) throw new Error('Unexpected end of DEFLATE data');
+      ensure(size);
+      out.set(data.subarray(pos + 4, pos + 4 + size), length);
+      length += size;
+      reader.skipBytes(4 + size);
+      continue;
+    }
+
+    let lit: Huffman;
+    let dist: Huffman;
+    if (type === 1) {
+      ({ lit, dist } = getFixedTables());
+    } else if (type === 2) {
+      ({ lit, dist } = readDynamicTables(reader));
+    } else {
+      throw new Error('Invalid DEFLATE block type');
+    }
+
+    for (;;) {
+      const symbol = reader.decode(lit);
+      if (symbol < 256) {
+        ensure(1);
+        out[length++] = symbol;
+      } else if (symbol === 256) {
+        break;
+      } else {
+        const lengthIndex = symbol - 257;
+        if (lengthIndex >= LENGTH_BASE.length) throw new Error('Invalid DEFLATE length code');
+        const copyLength = LENGTH_BASE[lengthIndex] + reader.bits(LENGTH_EXTRA[lengthIndex]);
+        const distIndex = reader.decode(dist);
+        if (distIndex >= DIST_BASE.length) throw new Error('Invalid DEFLATE distance code');
+        const distance = DIST_BASE[distIndex] + reader.bits(DIST_EXTRA[distIndex]);
+        if (distance > length) throw new Error('Invalid DEFLATE distance');
+
+        ensure(copyLength);
+        // Byte-by-byte copy: source and destination may overlap
+        for (let i = 0; i < copyLength; i++, length++) {
+          out[length] = out[length - distance];
+        }
+      }
+    }
+  }
+
+  return out.subarray(0, length);
+}
+
+function readDynamicTables(reader: BitReader): { lit: Huffman; dist: Huffman } {
+  const literalCount = reader.bits(5) + 257;
+  const distanceCount = reader.bits(5) + 1;
+  const codeLengthCount = reader.bits(4) + 4;
+
+  const codeLengthLengths = new Uint8Array(19);
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.bits(3);
+  }
+  const codeLengthTable = buildHuffman(codeLengthLengths);
+
+  const lengths = new Uint8Array(literalCount + distanceCount);
+  for (let i = 0; i < lengths.length;) {
+    const symbol = reader.decode(codeLengthTable);
+    if (symbol < 16) {
+      lengths[i++] = symbol;
+      continue;
+    }
+
+    let repeat: number;
+    let value = 0;
+    if (symbol === 16) {
+      if (i === 0) throw new Error('Invalid DEFLATE code lengths');
+      value = lengths[i - 1];
+      repeat = 3 + reader.bits(2);
+    } else if (symbol === 17) {
+      repeat = 3 + reader.bits(3);
+    } else {
+      repeat = 11 + reader.bits(7);
+    }
+    if (i + repeat > lengths.length) throw new Error('Invalid DEFLATE code lengths');
+    lengths.fill(value, i, i + repeat);
+    i += repeat;
+  }
+
+  return {
+    lit: buildHuffman(lengths.subarray(0, literalCount)),
+    dist: buildHuffman(lengths.subarray(literalCount))
+  };
+}
@@ -27,6 +27,8 @@ export interface ChunkResult {
     chunkIndex: number;
     startOffset: number;
     endOffset: number;
+    contentHash?: string; // SHA-256 of the chunk text
+    headingPath?: string[]; // Markdown breadcrumb (markdown strategy only)
   };
 }
 
@@ -0,0 +1,133 @@
+/**
+ * Markdown Chunking
+ * Heading-hierarchy chunking strategy for Markdown documents
+ * Max 150 lines
+ */
+
+import type { DocumentChunk, ChunkingContext, ChunkingStrategy } from './types.js';
+import { estimateTokens } from './chunker.js';
+import { splitLines, splitSpan, spansToChunks, packUnits } from './chunking-strategies.js';
+import type { Span } from './chunking-strategies.js';
+
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+interface MarkdownBlock extends Span {
+  heading?: { level: number; title: string };
+  atomic?: boolean; // Fenced code or table
+}
+
+/**
+ * Split Markdown into headings and atomic blocks (paragraphs, fenced code, tables)
+ */
+function parseMarkdownBlocks(text: string): MarkdownBlock[] {
+  const lines = splitLines(text);
+  const blocks: MarkdownBlock[] = [];
+
+  for (let i = 0; i < lines.length;) {
+    const line = lines[i];
+    if (line.text.trim() === '') {
+      i++;
+      continue;
+    }
+
+    const heading = line.text.match(HEADING);
+    if (heading) {
+      blocks.push({ start: line.start, end: line.end, heading: { level: heading[1].length, title: (heading[2] ?? '').trim() } });
+      i++;
+      continue;
+    }
+
+    let j = i + 1;
+    const fence = line.text.match(FENCE);
+    const table = !fence && line.text.includes('|') && j < lines.length && TABLE_SEPARATOR.test(lines[j].text);
+    if (fence) {
+      // Fence runs to a closing marker of the same character and at least the same length
+      const marker = fence[1];
+      while (j < lines.length && !new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`).test(lines[j].text)) j++;
+      j = Math.min(j + 1, lines.length);
+    } else if (table) {
+      while (j < lines.length && lines[j].text.includes('|') && lines[j].text.trim() !== '') j++;
+    } else {
+      while (
+        j < lines.length &&
+        lines[j].text.trim() !== '' &&
+        !HEADING.test(lines[j].text) &&
+        !FENCE.test(lines[j].text)
+      ) j++;
+    }
+    blocks.push({ start: line.start, end: lines[j - 1].end, atomic: !!fence || table });
+    i = j;
+  }
+  return blocks;
+}
+
+/**
+ * Markdown heading-hierarchy chunking
+ *
+ * Every chunk stays inside one heading section and carries the section's
+ * breadcrumb (e.g. ['Guide', 'Install', 'Linux']) as metadata.headingPath.
+ * Fenced code blocks and tables are never split unless they exceed the
+ * embedding character limit; long prose paragraphs are split at line and
+ * word boundaries. Sections that contain only a heading are
+ * merged into the section that follows.
+ */
+export class MarkdownChunkingStrategy implements ChunkingStrategy {
+  readonly name = 'markdown';
+
+  chunk(text: string, context: ChunkingContext): DocumentChunk[] {
+    const stack: Array<{ level: number; title: string }> = [];
+    const sections: Array<{ path: string[]; blocks: MarkdownBlock[] }> = [];
+    let pendingHeadings: MarkdownBlock[] = [];
+
+    for (const block of parseMarkdownBlocks(text)) {
+      if (block.heading) {
+        while (stack.length > 0 && stack[stack.length - 1].level >= block.heading.level) stack.pop();
+        stack.push(block.heading);
+        pendingHeadings.push(block);
+        continue;
+      }
+      const path = stack.map(h => h.title).filter(title => title.length > 0);
+      const last = sections[sections.length - 1];
+      if (pendingHeadings.length === 0 && last) {
+        last.blocks.push(block);
+      } else {
+        sections.push({ path, blocks: [...pendingHeadings, block] });
+        pendingHeadings = [];
+      }
+    }
+    if (pendingHeadings.length > 0) {
+      sections.push({ path: stack.map(h => h.title).filter(t => t.length > 0), blocks: pendingHeadings });
+    }
+
+    const spans: Array<Span & { headingPath: string[] }> = [];
+    for (const section of sections) {
+      // Keep headings attached to the first content block
+      const units: Span[] = [];
+      let headingStart: number | null = null;
+      for (const block of section.blocks) {
+        if (block.heading) {
+          headingStart ??= block.start;
+          continue;
+        }
+        // Long prose paragraphs are split at line/word boundaries; code and tables are not
+        const tooLong = estimateTokens(text.slice(block.start, block.end), context.tokenizerModel) > context.chunkSize;
+        const pieces = !block.atomic && tooLong
+          ? splitSpan(text, block, context)
+          : [{ start: block.start, end: block.end }];
+        pieces[0].start = headingStart ?? pieces[0].start;
+        units.push(...pieces);
+        headingStart = null;
+      }
+      if (headingStart !== null) {
+        units.push({ start: headingStart, end: section.blocks[section.blocks.length - 1].end });
+      }
+      for (const span of packUnits(text, units, context)) {
+        spans.push({ ...span, headingPath: section.path });
+      }
+    }
+
+    return spansToChunks(text, spans, context, this.name);
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Office Document Extractors
+ * Pure-JS text extraction for OOXML formats (DOCX, PPTX, XLSX)
+ * Max 300 lines
+ */
+
+import { openZip } from './zip-reader.js';
+import type { ZipArchive } from './zip-reader.js';
+import { scanXml, getAttribute } from './xml-scanner.js';
+import { readSharedStrings, readSheetRows, columnName } from './xlsx-sheets.js';
+
+/**
+ * Collect text runs, turning paragraphs into lines
+ *
+ * @param xml - Part XML
+ * @param textTag - Element holding text runs (w:t or a:t)
+ * @param paragraphTag - Element delimiting paragraphs (w:p or a:p)
+ */
+function collectParagraphs(xml: string, textTag: string, paragraphTag: string): string[] {
+  const paragraphs: string[] = [];
+  let current = '';
+  let inText = false;
+
+  for (const token of scanXml(xml)) {
+    if (token.text !== undefined) {
+      if (inText) current += token.text;
+    } else if (token.name === textTag) {
+      inText = !token.closing && !token.selfClosing;
+    } else if (token.name === paragraphTag && token.closing) {
+      paragraphs.push(current.trim());
+      current = '';
+    } else if (!token.closing && (token.name === 'w:tab' || token.name === 'a:tab')) {
+      current += '\t';
+    } else if (!token.closing && (token.name === 'w:br' || token.name === 'w:cr' || token.name === 'a:br')) {
+      current += '\n';
+    }
+  }
+  if (current.trim()) paragraphs.push(current.trim());
+  return paragraphs.filter(p => p.length > 0);
+}
+
+/**
+ * Parse a relationships part into id → normalized target path
+ *
+ * @param zip - Archive
+ * @param partPath - Path of the part whose relationships are read
+ */
+function readRelationships(zip: ZipArchive, partPath: string): Map<string, string> {
+  const slash = partPath.lastIndexOf('/');
+  const dir = partPath.slice(0, slash + 1);
+  const relsXml = zip.readText(`${dir}_rels/${partPath.slice(slash + 1)}.rels`);
+  const rels = new Map<string, string>();
+  if (!relsXml) return rels;
+
+  for (const token of scanXml(relsXml)) {
+    if (token.name !== 'Relationship' || token.closing) continue;
+    const id = getAttribute(token.attributes, 'Id');
+    const target = getAttribute(token.attributes, 'Target');
+    if (id && target) rels.set(id, resolvePath(dir, target));
+  }
+  return rels;
+}
+
+function resolvePath(dir: string, target: string): string {
+  const parts = (target.startsWith('/') ? target.slice(1) : dir + target).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part !== '.' && part !== '') resolved.push(part);
+  }
+  return resolved.join('/');
+}
+
+function openOfficeArchive(data: ArrayBuffer, format: string, mainPart: string): ZipArchive {
+  const zip = openZip(data);
+  if (!zip.has(mainPart)) {
+    throw new Error(`Not a ${format} file (missing ${mainPart})`);
+  }
+  return zip;
+}
+
+/**
+ * Extract text from a Word document
+ * Paragraphs become lines; table rows become cells joined by " | "
+ *
+ * @param data - DOCX file bytes
+ * @returns Extracted text
+ */
+export function extractDocxText(data: ArrayBuffer): string {
+  const zip = openOfficeArchive(data, 'DOCX', 'word/document.xml');
+  const xml = zip.readText('word/document.xml')!;
+
+  const lines: string[] = [];
+  const rowCells: string[][] = [];
+  let paragraph = '';
+  let cell: string[] = [];
+  let inText = false;
+
+  for (const token of scanXml(xml)) {
+    if (token.text !== undefined) {
+      if (inText) paragraph += token.text;
+      continue;
+    }
+    const opening = !token.closing;
+    switch (token.name) {
+      case 'w:t':
+        inText = opening && !token.selfClosing;
+        break;
+      case 'w:tab':
+        if (opening) paragraph += '\t';
+        break;
+      case 'w:br':
+      case 'w:cr':
+        if (opening) paragraph += '\n';
+        break;
+      case 'w:p':
+        if (token.closing) {
+          const text = paragraph.trim();
+          if (rowCells.length > 0) {
+            if (text) cell.push(text);
+          } else if (text) {
+            lines.push(text);
+          }
+          paragraph = '';
+        }
+        break;
+      case 'w:tr':
+        if (opening) rowCells.push([]);
+        else {
+          const cells = rowCells.pop() ?? [];
+          if (cells.some(c => c.length > 0)) lines.push(cells.join(' | '));
+        }
+        break;
+      case 'w:tc':
+        if (opening) cell = [];
+        else rowCells[rowCells.length - 1]?.push(cell.join(' '));
+        break;
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Extract text from a PowerPoint presentation
+ * Slides follow presentation order, each under a "Slide N" heading with its
+ * speaker notes appended
+ *
+ * @param data - PPTX file bytes
+ * @returns Extracted text
+ */
+export function extractPptxText(data: ArrayBuffer): string {
+  const zip = openOfficeArchive(data, 'PPTX', 'ppt/presentation.xml');
+
+  const rels = readRelationships(zip, 'ppt/presentation.xml');
+  let slidePaths: string[] = [];
+  for (const token of scanXml(zip.readText('ppt/presentation.xml')!)) {
+    if (token.name === 'p:sldId' && !token.closing) {
+      const target = rels.get(getAttribute(token.attributes, 'r:id') ?? '');
+      if (target && zip.has(target)) slidePaths.push(target);
+    }
+  }
+  if (slidePaths.length === 0) {
+    slidePaths = zip.names()
+      .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+      .sort((a, b) => slideNumber(a) - slideNumber(b));
+  }
+
+  const sections = slidePaths.map((path, i) => {
+    const lines = [`Slide ${i + 1}`, ...collectParagraphs(zip.readText(path)!, 'a:t', 'a:p')];
+
+    const notesPath = Array.from(readRelationships(zip, path).values())
+      .find(target => /notesSlides\/notesSlide\d+\.xml$/.test(target));
+    const notesXml = notesPath ? zip.readText(notesPath) : null;
+    if (notesXml) {
+      // Notes placeholders repeat the slide number; keep only real text
+      const notes = collectParagraphs(notesXml, 'a:t', 'a:p').filter(n => !/^\d+$/.test(n));
+      if (notes.length > 0) lines.push(`Notes: ${notes.join(' ')}`);
+    }
+    return lines.join('\n');
+  });
+
+  return sections.join('\n\n');
+}
+
+function slideNumber(path: string): number {
+  return parseInt(path.match(/(\d+)\.xml$/)?.[1] ?? '0', 10);
+}
+
+/**
+ * Extract text from an Excel workbook
+ * Each sheet starts with a "Sheet: Name" line; the first non-empty row is the
+ * header and every following row is written as "Header: value" pairs so each
+ * line keeps its column context after chunking
+ *
+ * @param data - XLSX file bytes
+ * @returns Extracted text
+ */
+export function extractXlsxText(data: ArrayBuffer): string {
+  const zip = openOfficeArchive(data, 'XLSX', 'xl/workbook.xml');
+  const sharedStrings = readSharedStrings(zip);
+  const rels = readRelationships(zip, 'xl/workbook.xml');
+
+  const sections: string[] = [];
+  for (const token of scanXml(zip.readText('xl/workbook.xml')!)) {
+    if (token.name !== 'sheet' || token.closing) continue;
+    const sheetPath = rels.get(getAttribute(token.attributes, 'r:id') ?? '');
+    const sheetXml = sheetPath ? zip.readText(sheetPath) : null;
+    if (!sheetXml) continue;
+
+    const rows = readSheetRows(sheetXml, sharedStrings);
+    if (rows.length === 0) continue;
+
+    const [header, ...body] = rows;
+    const width = Math.max(...rows.map(r => r.length));
+    const headers = Array.from({ length: width }, (_, c) => header[c] || columnName(c));
+    const lines = [`Sheet: ${getAttribute(token.attributes, 'name') ?? sheetPath}`];
+    for (const row of body) {
+      const pairs = row
+        .map((value, c) => (value ? `${headers[c]}: ${value}` : ''))
+        .filter(pair => pair.length > 0);
+      if (pairs.length > 0) lines.push(pairs.join('; '));
+    }
+    if (body.length === 0) lines.push(headers.join(' | '));
+    sections.push(lines.join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,105 @@
+/**
+ * Semantic Chunking
+ * Embedding-based chunking strategy that splits at topic shifts
+ * Max 120 lines
+ */
+
+import type { DocumentChunk, ChunkingContext, ChunkingStrategy } from './types.js';
+import { estimateTokens } from './chunker.js';
+import { spansToChunks, packUnits } from './chunking-strategies.js';
+import type { Span } from './chunking-strategies.js';
+
+/**
+ * Options for SemanticChunkingStrategy
+ */
+export interface SemanticChunkingOptions {
+  /**
+   * Split where the distance between neighbouring sentences is above this
+   * percentile of all neighbour distances (default: 90)
+   */
+  breakpointPercentile?: number;
+
+  /**
+   * Absolute cosine similarity below which to split (overrides the percentile)
+   */
+  similarityThreshold?: number;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Semantic chunking
+ *
+ * Embeds each sentence and starts a new chunk where similarity between
+ * neighbouring sentences drops sharply (topic shift), or when the token
+ * budget is reached. Needs ChunkingContext.embed.
+ */
+export class SemanticChunkingStrategy implements ChunkingStrategy {
+  readonly name = 'semantic';
+
+  constructor(private readonly options: SemanticChunkingOptions = {}) {
+    const percentile = options.breakpointPercentile;
+    if (percentile !== undefined && (percentile <= 0 || percentile >= 100)) {
+      throw new Error('breakpointPercentile must be between 0 and 100');
+    }
+  }
+
+  /**
+   * @throws Error if the context has no embed function
+   */
+  async chunk(text: string, context: ChunkingContext): Promise<DocumentChunk[]> {
+    if (!context.embed) {
+      throw new Error('Semantic chunking requires an embedding function');
+    }
+
+    const sentences: Span[] = [];
+    for (const match of text.matchAll(/[^\s][^\n]*?(?:[.!?]+(?=\s|$)|(?=\n)|$)/g)) {
+      sentences.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+    if (sentences.length <= 1) {
+      return spansToChunks(text, sentences, context, this.name);
+    }
+
+    const embeddings = await context.embed(sentences.map(s => text.slice(s.start, s.end)));
+    const distances = sentences.slice(1).map((_, i) => 1 - cosineSimilarity(embeddings[i], embeddings[i + 1]));
+
+    let cutoff: number;
+    if (this.options.similarityThreshold !== undefined) {
+      cutoff = 1 - this.options.similarityThreshold;
+    } else {
+      // Linear-interpolated percentile of the neighbour distances
+      const sorted = [...distances].sort((a, b) => a - b);
+      const position = ((this.options.breakpointPercentile ?? 90) / 100) * (sorted.length - 1);
+      const lower = Math.floor(position);
+      const upper = Math.min(lower + 1, sorted.length - 1);
+      cutoff = sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+    }
+
+    const groups: Span[] = [];
+    let current: Span = { ...sentences[0] };
+    for (let i = 1; i < sentences.length; i++) {
+      const topicShift = distances[i - 1] > cutoff;
+      const overBudget =
+        estimateTokens(text.slice(current.start, sentences[i].end), context.tokenizerModel) > context.chunkSize;
+      if (topicShift || overBudget) {
+        groups.push(current);
+        current = { ...sentences[i] };
+      } else {
+        current.end = sentences[i].end;
+      }
+    }
+    groups.push(current);
+
+    return spansToChunks(text, groups.flatMap(g => packUnits(text, [g], context)), context, this.name);
+  }
+}
@@ -7,7 +7,7 @@
 /**
  * Supported document types (including images for RAG)
  */
-export type DocumentType = 'txt' | 'md' | 'html' | 'pdf' | 'docx' | 'png' | 'jpeg' | 'webp' | 'gif';
+export type DocumentType = 'txt' | 'md' | 'html' | 'pdf' | 'docx' | 'pptx' | 'xlsx' | 'csv' | 'json' | 'png' | 'jpeg' | 'webp' | 'gif';
 
 
 /**
@@ -78,6 +78,24 @@ export interface BatchResult {
   error?: string;
 }
 
+/**
+ * Re-index options
+ */
+export interface ReindexOptions extends ChunkingOptions, UploadOptions {
+  metadata?: Record<string, any>; // Extra metadata stored on newly inserted vectors (e.g. folderPath)
+}
+
+/**
+ * Re-index result (vector IDs by outcome)
+ */
+export interface ReindexResult {
+  documentId: string;
+  added: string[]; // New or changed chunks: embedded and inserted
+  moved: string[]; // Unchanged content at a new position: metadata rewritten, not re-embedded
+  unchanged: string[]; // Kept as-is
+  removed: string[]; // Stale chunks deleted
+}
+
 /**
  * Text extraction result
  */
@@ -98,6 +116,35 @@ export interface ChunkingOptions {
   overlap?: number; // Token count (default 50)
   splitBySentence?: boolean;
   splitByParagraph?: boolean;
+  strategy?: ChunkingStrategyName | ChunkingStrategy; // Structure-aware chunking (default: size-based)
+  tokenizerModel?: string; // Count chunk tokens with this model's registered tokenizer
+}
+
+/**
+ * Built-in chunking strategies
+ * 'default' is the size-based chunker driven by splitBySentence / splitByParagraph
+ */
+export type ChunkingStrategyName = 'default' | 'markdown' | 'code' | 'semantic';
+
+/**
+ * Input shared by all chunking strategies
+ */
+export interface ChunkingContext {
+  documentId: string;
+  documentName: string;
+  documentType: DocumentType;
+  chunkSize: number; // Token budget per chunk
+  overlap: number; // Token overlap (size-based strategies only)
+  embed?: (texts: string[]) => Promise<number[][]>; // Required by the semantic strategy
+  tokenizerModel?: string; // Model whose tokenizer measures chunkSize
+}
+
+/**
+ * Pluggable chunking strategy
+ */
+export interface ChunkingStrategy {
+  readonly name: string;
+  chunk(text: string, context: ChunkingContext): DocumentChunk[] | Promise<DocumentChunk[]>;
 }
 
 /**
@@ -120,4 +167,7 @@ export interface ChunkMetadata {
   startOffset: number;
   endOffset: number;
   tokenCount?: number;
+  contentHash?: string; // SHA-256 of the chunk text (see reindexDocument)
+  strategy?: string; // Chunking strategy that produced the chunk
+  headingPath?: string[]; // Markdown heading breadcrumb, outermost first
 }
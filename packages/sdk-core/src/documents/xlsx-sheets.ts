@@ -0,0 +1,104 @@
+/**
+ * XLSX Sheets
+ * Shared strings and worksheet cell parsing for the XLSX extractor
+ * Max 150 lines
+ */
+
+import { scanXml, getAttribute } from './xml-scanner.js';
+import type { ZipArchive } from './zip-reader.js';
+
+/**
+ * Read the workbook's shared string table (cells of type "s" index into it)
+ */
+export function readSharedStrings(zip: ZipArchive): string[] {
+  const xml = zip.readText('xl/sharedStrings.xml');
+  if (!xml) return [];
+
+  const strings: string[] = [];
+  let current = '';
+  let inText = false;
+  for (const token of scanXml(xml)) {
+    if (token.text !== undefined) {
+      if (inText) current += token.text;
+    } else if (token.name === 't') {
+      inText = !token.closing && !token.selfClosing;
+    } else if (token.name === 'si') {
+      if (token.closing) strings.push(current);
+      current = '';
+    }
+  }
+  return strings;
+}
+
+/**
+ * Read a worksheet into rows of cell strings (column-aligned, trailing gaps trimmed)
+ */
+export function readSheetRows(xml: string, sharedStrings: string[]): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let column = 0;
+  let cellType: string | undefined;
+  let value = '';
+  let capture = false;
+
+  for (const token of scanXml(xml)) {
+    if (token.text !== undefined) {
+      if (capture) value += token.text;
+      continue;
+    }
+    switch (token.name) {
+      case 'row':
+        if (!token.closing) row = [];
+        if (token.closing || token.selfClosing) {
+          if (row.some(cell => cell.length > 0)) rows.push(row);
+        }
+        break;
+      case 'c':
+        if (!token.closing) {
+          const ref = getAttribute(token.attributes, 'r');
+          column = ref ? columnIndex(ref) : row.length;
+          cellType = getAttribute(token.attributes, 't');
+          value = '';
+        }
+        if (token.closing || token.selfClosing) {
+          row[column] = formatCell(value.trim(), cellType, sharedStrings);
+          for (let i = 0; i < column; i++) row[i] ??= '';
+        }
+        break;
+      case 'v':
+      case 't':
+        capture = !token.closing && !token.selfClosing;
+        break;
+    }
+  }
+  return rows;
+}
+
+function formatCell(value: string, type: string | undefined, sharedStrings: string[]): string {
+  switch (type) {
+    case 's':
+      return sharedStrings[parseInt(value, 10)] ?? '';
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    default:
+      return value;
+  }
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+/**
+ * Spreadsheet column letters for a zero-based index (0 → A, 26 → AA)
+ */
+export function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
@@ -0,0 +1,59 @@
+/**
+ * XML Scanner
+ * Minimal regex-based XML tokenizer for OOXML parts
+ * Works identically in browser and Node.js - no DOM parser needed
+ * Max 100 lines
+ */
+
+/**
+ * Token produced by the minimal XML scanner
+ */
+export interface XmlToken {
+  /** Element name (with namespace prefix), undefined for text nodes */
+  name?: string;
+  closing?: boolean;
+  selfClosing?: boolean;
+  attributes?: string;
+  text?: string;
+}
+
+const XML_TOKEN = /<(\/)?([\w:.-]+)([^>]*?)(\/)?>|([^<]+)/g;
+
+/**
+ * Scan XML into start/end/text tokens
+ * Comments, declarations and processing instructions are skipped
+ */
+export function* scanXml(xml: string): Generator<XmlToken> {
+  const body = xml.replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<!\[CDATA\[|\]\]>/g, '');
+  for (const match of body.matchAll(XML_TOKEN)) {
+    if (match[5] !== undefined) {
+      yield { text: decodeEntities(match[5]) };
+    } else {
+      yield {
+        name: match[2],
+        closing: match[1] === '/',
+        selfClosing: match[4] === '/',
+        attributes: match[3]
+      };
+    }
+  }
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+  });
+}
+
+export function getAttribute(attributes: string | undefined, name: string): string | undefined {
+  const match = attributes?.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`));
+  return match ? decodeEntities(match[1]) : undefined;
+}
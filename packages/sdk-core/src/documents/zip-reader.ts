@@ -0,0 +1,179 @@
+/**
+ * ZIP Reader
+ * Minimal pure-JS ZIP archive reader (stored + DEFLATE) for OOXML documents
+ * Works identically in browser and Node.js - no native or stream APIs
+ * Max 300 lines
+ */
+
+import { inflateRaw } from './inflate.js';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+const DEFAULT_MAX_ENTRY_SIZE = 64 * 1024 * 1024;
+const DEFAULT_MAX_TOTAL_SIZE = 256 * 1024 * 1024;
+
+/**
+ * Limits on decompressed data, guarding against ZIP bombs
+ */
+export interface ZipReadOptions {
+  /**
+   * Maximum decompressed size of one entry in bytes (default: 64MB)
+   */
+  maxEntrySize?: number;
+
+  /**
+   * Maximum decompressed bytes read from the archive in total (default: 256MB)
+   */
+  maxTotalSize?: number;
+}
+
+/**
+ * Read-only view of a ZIP archive
+ */
+export interface ZipArchive {
+  /**
+   * Paths of all entries in the archive
+   */
+  names(): string[];
+
+  /**
+   * Check whether an entry exists
+   */
+  has(name: string): boolean;
+
+  /**
+   * Read and decompress an entry
+   * @returns Entry bytes, or null if the entry does not exist
+   */
+  read(name: string): Uint8Array | null;
+
+  /**
+   * Read an entry as UTF-8 text
+   * @returns Entry text, or null if the entry does not exist
+   */
+  readText(name: string): string | null;
+}
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Open a ZIP archive from raw bytes
+ *
+ * Entries are decompressed on read. An entry may not decompress past the
+ * size declared in the archive, and reads stop at the entry and total limits.
+ *
+ * @param data - Archive bytes
+ * @param options - Decompression limits
+ * @returns Archive reader
+ * @throws Error if the data is not a supported ZIP archive
+ */
+export function openZip(data: ArrayBuffer | Uint8Array, options: ZipReadOptions = {}): ZipArchive {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const entries = readCentralDirectory(bytes, view);
+  const decoder = new TextDecoder('utf-8');
+  const maxEntrySize = options.maxEntrySize ?? DEFAULT_MAX_ENTRY_SIZE;
+  const maxTotalSize = options.maxTotalSize ?? DEFAULT_MAX_TOTAL_SIZE;
+  let totalSize = 0;
+
+  const read = (name: string): Uint8Array | null => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+
+    if (entry.uncompressedSize > maxEntrySize) {
+      throw new Error(`ZIP entry "${name}" exceeds the ${maxEntrySize} byte limit`);
+    }
+    if (totalSize + entry.uncompressedSize > maxTotalSize) {
+      throw new Error(`ZIP archive exceeds the ${maxTotalSize} byte extraction limit`);
+    }
+
+    const offset = entry.localHeaderOffset;
+    if (offset + 30 > bytes.length || view.getUint32(offset, true) !== LOCAL_SIGNATURE) {
+      throw new Error(`Invalid ZIP local header for "${name}"`);
+    }
+    const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true);
+    if (start + entry.compressedSize > bytes.length) {
+      throw new Error(`Truncated ZIP entry "${name}"`);
+    }
+    const compressed = bytes.subarray(start, start + entry.compressedSize);
+
+    let content: Uint8Array;
+    switch (entry.method) {
+      case 0:
+        if (entry.compressedSize !== entry.uncompressedSize) {
+          throw new Error(`Invalid ZIP entry "${name}" (stored size mismatch)`);
+        }
+        content = compressed;
+        break;
+      case 8:
+        try {
+          content = inflateRaw(compressed, entry.uncompressedSize);
+        } catch (error) {
+          throw new Error(`Invalid ZIP entry "${name}": ${(error as Error).message}`);
+        }
+        break;
+      default:
+        throw new Error(`Unsupported ZIP compression method ${entry.method} for "${name}"`);
+    }
+    totalSize += content.length;
+    return content;
+  };
+
+  return {
+    names: () => Array.from(entries.keys()),
+    has: name => entries.has(name),
+    read,
+    readText: name => {
+      const entry = read(name);
+      return entry ? decoder.decode(entry) : null;
+    }
+  };
+}
+
+function readCentralDirectory(bytes: Uint8Array, view: DataView): Map<string, ZipEntry> {
+  // End-of-central-directory record sits in the last 22 bytes + up to 64KB comment
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a ZIP archive (end of central directory not found)');
+  }
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  if (offset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder('utf-8');
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error('Invalid ZIP central directory');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
@@ -1,43 +1,55 @@
 /**
  * Embedding Cache
  * LRU cache for embedding results to reduce API costs
- * Max 200 lines
+ * Max 250 lines
  */
 
-import { createHash } from 'crypto';
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex } from '@noble/hashes/utils';
 import { EmbeddingService } from './EmbeddingService.js';
 import { EmbeddingResult, EmbeddingResponse } from './types.js';
-
-interface CacheEntry {
-  result: EmbeddingResult;
-  timestamp: number;
-}
+import type { PersistentEmbeddingCache, PersistentEmbeddingCacheStats } from './PersistentEmbeddingCache.js';
+import { MemoryLRU } from './MemoryLRU.js';
 
 interface CacheOptions {
   maxSize: number;
   expirationMs: number;
+  persistent?: PersistentEmbeddingCache; // Tier checked on memory misses, survives restarts
+}
+
+/**
+ * Embedding cache statistics
+ */
+export interface EmbeddingCacheStats {
+  hits: number; // Includes persistent hits
+  misses: number;
+  size: number;
+  hitRate: number;
+  persistentHits: number;
+  persistent?: PersistentEmbeddingCacheStats;
 }
 
 /**
  * Embedding cache with LRU eviction
+ * Optionally backed by a persistent tier (see createPersistentEmbeddingCache)
  */
 export class EmbeddingCache {
   private adapter: EmbeddingService;
-  private cache: Map<string, CacheEntry>;
-  private accessOrder: string[];  // For LRU tracking
-  private maxSize: number;
-  private expirationMs: number;
+  private cache: MemoryLRU<EmbeddingResult>;
+  private persistent?: PersistentEmbeddingCache;
 
   // Statistics
   private hits: number = 0;
   private misses: number = 0;
+  private persistentHits: number = 0;
 
   constructor(adapter: EmbeddingService, options: CacheOptions) {
     this.adapter = adapter;
-    this.cache = new Map();
-    this.accessOrder = [];
-    this.maxSize = options.maxSize;
-    this.expirationMs = options.expirationMs;
+    this.cache = new MemoryLRU(options.maxSize, options.expirationMs);
+    this.persistent = options.persistent;
+
+    // Surface hit-rate stats through the service
+    this.adapter.attachCache?.(this);
   }
 
   /**
@@ -45,81 +57,59 @@ export class EmbeddingCache {
    */
   private generateKey(text: string): string {
     const content = `${this.adapter['provider']}-${this.adapter['model']}-${text}`;
-    return createHash('sha256').update(content).digest('hex');
-  }
-
-  /**
-   * Check if entry is expired
-   */
-  private isExpired(entry: CacheEntry): boolean {
-    return Date.now() - entry.timestamp > this.expirationMs;
+    return bytesToHex(sha256(new TextEncoder().encode(content)));
   }
 
   /**
-   * Update access order for LRU
+   * Get cached result (memory first, then the persistent tier)
    */
-  private updateAccessOrder(key: string): void {
-    // Remove from current position
-    const index = this.accessOrder.indexOf(key);
-    if (index > -1) {
-      this.accessOrder.splice(index, 1);
+  private async getCached(text: string): Promise<EmbeddingResult | null> {
+    const key = this.generateKey(text);
+    const cached = this.cache.get(key);
+    if (cached) {
+      this.hits++;
+      return cached;
     }
-    // Add to end (most recently used)
-    this.accessOrder.push(key);
-  }
-
-  /**
-   * Evict least recently used entry
-   */
-  private evictLRU(): void {
-    if (this.accessOrder.length === 0) return;
 
-    const lruKey = this.accessOrder.shift();
-    if (lruKey) {
-      this.cache.delete(lruKey);
+    const stored = await this.readPersistent(key);
+    if (stored) {
+      this.hits++;
+      this.persistentHits++;
+      this.cache.set(key, stored);
+      return stored;
     }
+
+    this.misses++;
+    return null;
   }
 
   /**
-   * Get cached result
+   * Set cached result in both tiers
    */
-  private getCached(text: string): EmbeddingResult | null {
+  private async setCached(text: string, result: EmbeddingResult): Promise<void> {
     const key = this.generateKey(text);
-    const entry = this.cache.get(key);
-
-    if (!entry) {
-      this.misses++;
-      return null;
-    }
+    this.cache.set(key, result);
 
-    if (this.isExpired(entry)) {
-      this.cache.delete(key);
-      this.misses++;
-      return null;
+    if (this.persistent) {
+      try {
+        await this.persistent.set(key, result);
+      } catch (error) {
+        console.warn('[EmbeddingCache] Failed to persist embedding:', error);
+      }
     }
-
-    this.hits++;
-    this.updateAccessOrder(key);
-    return entry.result;
   }
 
   /**
-   * Set cached result
+   * Read from the persistent tier; storage errors count as misses
    */
-  private setCached(text: string, result: EmbeddingResult): void {
-    const key = this.generateKey(text);
-
-    // Evict if at max size
-    if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
-      this.evictLRU();
+  private async readPersistent(key: string): Promise<EmbeddingResult | undefined> {
+    if (!this.persistent) return undefined;
+    try {
+      return await this.persistent.get(key);
+    } catch (error) {
+      console.warn('[EmbeddingCache] Failed to read persisted embedding:', error);
+      return undefined;
     }
-
-    this.cache.set(key, {
-      result,
-      timestamp: Date.now()
-    });
-
-    this.updateAccessOrder(key);
   }
 
   /**
@@ -127,14 +117,14 @@ export class EmbeddingCache {
    */
   async embedText(text: string, inputType?: string): Promise<EmbeddingResult> {
     // Check cache first
-    const cached = this.getCached(text);
+    const cached = await this.getCached(text);
     if (cached) {
       return cached;
     }
 
     // Cache miss - call adapter
     const result = await this.adapter.embedText(text, inputType);
-    this.setCached(text, result);
+    await this.setCached(text, result);
     return result;
   }
 
@@ -148,7 +138,7 @@ export class EmbeddingCache {
 
     // Check cache for each text
     for (let i = 0; i < texts.length; i++) {
-      const cached = this.getCached(texts[i]);
+      const cached = await this.getCached(texts[i]);
       if (cached) {
         results[i] = cached;
       } else {
@@ -158,35 +148,23 @@ export class EmbeddingCache {
     }
 
     // Fetch uncached texts
-    if (uncachedTexts.length > 0) {
-      const response = await this.adapter.embedBatch(uncachedTexts, inputType);
-
-      // Store in cache and results
-      response.embeddings.forEach((embedding, idx) => {
-        const originalIndex = uncachedIndices[idx];
-        results[originalIndex] = embedding;
-        this.setCached(texts[originalIndex], embedding);
-      });
-
-      // Return combined results
-      const totalTokens = results.reduce((sum, r) => sum + r.tokenCount, 0);
-      return {
-        embeddings: results,
-        model: response.model,
-        provider: response.provider,
-        totalTokens,
-        cost: response.cost
-      };
+    const response = uncachedTexts.length > 0
+      ? await this.adapter.embedBatch(uncachedTexts, inputType)
+      : undefined;
+
+    // Store in cache and results
+    for (const [idx, embedding] of (response?.embeddings ?? []).entries()) {
+      const originalIndex = uncachedIndices[idx];
+      results[originalIndex] = embedding;
+      await this.setCached(texts[originalIndex], embedding);
     }
 
-    // All cached - construct response
-    const totalTokens = results.reduce((sum, r) => sum + r.tokenCount, 0);
     return {
       embeddings: results,
-      model: this.adapter['model'],
-      provider: this.adapter['provider'],
-      totalTokens,
-      cost: 0  // No cost for cached results
+      model: response?.model ?? this.adapter['model'],
+      provider: response?.provider ?? this.adapter['provider'],
+      totalTokens: results.reduce((sum, r) => sum + r.tokenCount, 0),
+      cost: response?.cost ?? 0  // No cost for cached results
     };
   }
 
@@ -206,33 +184,48 @@ export class EmbeddingCache {
   }
 
   /**
-   * Check if text is cached
+   * Check if text is cached in memory
    */
   has(text: string): boolean {
-    const key = this.generateKey(text);
-    const entry = this.cache.get(key);
-    return entry !== undefined && !this.isExpired(entry);
+    return this.cache.has(this.generateKey(text));
   }
 
   /**
-   * Clear cache
+   * Clear the memory tier and statistics
+   * The persistent tier is kept; use clearPersistent() to drop it too
    */
   clear(): void {
     this.cache.clear();
-    this.accessOrder = [];
     this.hits = 0;
     this.misses = 0;
+    this.persistentHits = 0;
+  }
+
+  /**
+   * Remove all entries from the persistent tier
+   */
+  async clearPersistent(): Promise<void> {
+    await this.persistent?.clear();
+  }
+
+  /**
+   * Write pending persistent-tier access times; call before discarding the cache
+   */
+  async close(): Promise<void> {
+    await this.persistent?.flush();
   }
 
   /**
    * Get statistics
    */
-  getStats() {
+  getStats(): EmbeddingCacheStats {
     return {
       hits: this.hits,
       misses: this.misses,
       size: this.cache.size,
-      hitRate: this.getHitRate()
+      hitRate: this.getHitRate(),
+      persistentHits: this.persistentHits,
+      persistent: this.persistent?.getStats()
     };
   }
 }
@@ -14,6 +14,8 @@ import {
   CostStats,
   RateLimitState
 } from './types.js';
+import { tokenizerRegistry } from '../tokenizers/tokenizer-registry.js';
+import type { EmbeddingCache, EmbeddingCacheStats } from './EmbeddingCache.js';
 
 /**
  * Abstract base class for embedding services
@@ -27,6 +29,9 @@ export abstract class EmbeddingService {
   // Cost tracking
   private costEntries: CostEntry[] = [];
 
+  // Cache wrapping this service (for stats)
+  private cache?: EmbeddingCache;
+
   // Rate limiting state
   private rateLimit: RateLimitState = {
     requestsThisMinute: 0,
@@ -81,7 +86,8 @@ export abstract class EmbeddingService {
     const costByProvider: Record<EmbeddingProvider, number> = {
       [EmbeddingProvider.OpenAI]: 0,
       [EmbeddingProvider.Cohere]: 0,
-      [EmbeddingProvider.Host]: 0
+      [EmbeddingProvider.Host]: 0,
+      [EmbeddingProvider.Local]: 0
     };
 
     this.costEntries.forEach(entry => {
@@ -111,6 +117,21 @@ export abstract class EmbeddingService {
     this.costEntries = [];
   }
 
+  /**
+   * Register the cache wrapping this service
+   * Called by the EmbeddingCache constructor
+   */
+  attachCache(cache: EmbeddingCache): void {
+    this.cache = cache;
+  }
+
+  /**
+   * Get hit-rate statistics of the attached cache (undefined if uncached)
+   */
+  getCacheStats(): EmbeddingCacheStats | undefined {
+    return this.cache?.getStats();
+  }
+
   /**
    * Track cost for request
    */
@@ -220,10 +241,10 @@ export abstract class EmbeddingService {
 
   /**
    * Estimate token count from text
-   * Rough estimate: ~4 characters per token
+   * Uses the embedding model's tokenizer when registered, otherwise ~4 characters per token
    */
   protected estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4);
+    return tokenizerRegistry.countTokens(text, this.model);
   }
 
   /**
@@ -0,0 +1,65 @@
+/**
+ * Memory LRU
+ * Size-bounded in-memory LRU map with entry expiration
+ * Max 80 lines
+ */
+
+interface MemoryLRUEntry<T> {
+  value: T;
+  timestamp: number;
+}
+
+/**
+ * In-memory LRU map
+ * LRU order: Map iteration order, least recently used first
+ */
+export class MemoryLRU<T> {
+  private entries = new Map<string, MemoryLRUEntry<T>>();
+
+  constructor(private readonly maxSize: number, private readonly expirationMs: number) {}
+
+  /**
+   * Get a live value and mark it most recently used
+   * Expired entries are dropped and read as absent
+   */
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (this.isExpired(entry)) return undefined;
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Store a value, evicting the least recently used entry at maxSize
+   */
+  set(key: string, value: T): void {
+    if (this.entries.size >= this.maxSize && !this.entries.has(key)) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    this.entries.delete(key);
+    this.entries.set(key, { value, timestamp: Date.now() });
+  }
+
+  /**
+   * Check for a live value without changing the LRU order
+   */
+  has(key: string): boolean {
+    const entry = this.entries.get(key);
+    return entry !== undefined && !this.isExpired(entry);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private isExpired(entry: MemoryLRUEntry<T>): boolean {
+    return Date.now() - entry.timestamp > this.expirationMs;
+  }
+}
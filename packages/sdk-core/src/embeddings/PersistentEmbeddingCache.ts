@@ -0,0 +1,247 @@
+/**
+ * Persistent Embedding Cache
+ * Size-bounded LRU tier that keeps embeddings across page reloads and
+ * process restarts (IndexedDB in browsers, files in Node.js)
+ * Max 250 lines
+ */
+
+import type { EncryptionManager } from '../managers/EncryptionManager.js';
+import type { EncryptedStorage } from '../interfaces/IEncryptionManager.js';
+import { EmbeddingResult } from './types.js';
+import type { EmbeddingStore, EmbeddingStoreEntryInfo } from './stores/EmbeddingStore.js';
+import { createDefaultEmbeddingStore } from './stores/default-store.js';
+
+export type { EmbeddingStore, EmbeddingStoreAccess, EmbeddingStoreEntryInfo } from './stores/EmbeddingStore.js';
+
+/**
+ * Persistent tier options
+ */
+export interface PersistentEmbeddingCacheOptions {
+  store: EmbeddingStore;
+  maxEntries?: number; // Default: 10000
+  maxBytes?: number; // Default: 50 MB
+  encryptionManager?: EncryptionManager; // Encrypt entries at rest with the user's key
+  flushIntervalMs?: number; // Delay before access times are written to the store. Default: 5000
+}
+
+/**
+ * Persistent tier statistics
+ */
+export interface PersistentEmbeddingCacheStats {
+  entries: number;
+  bytes: number;
+  evictions: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 10000;
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+const DEFAULT_FLUSH_INTERVAL_MS = 5000;
+
+/**
+ * Persistent LRU embedding cache tier
+ * Used by EmbeddingCache behind its in-memory tier
+ *
+ * Hits update the LRU order in memory; access times are written to the store
+ * in batches after flushIntervalMs, before evictions and on flush().
+ */
+export class PersistentEmbeddingCache {
+  private store: EmbeddingStore;
+  private maxEntries: number;
+  private maxBytes: number;
+  private encryptionManager?: EncryptionManager;
+  private flushIntervalMs: number;
+
+  // LRU order: Map iteration order, least recently used first
+  private entries = new Map<string, EmbeddingStoreEntryInfo>();
+  private totalBytes = 0;
+  private evictions = 0;
+  private ready?: Promise<void>;
+  private touched = new Set<string>(); // Keys with access times not yet in the store
+  private flushTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: PersistentEmbeddingCacheOptions) {
+    this.store = options.store;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.encryptionManager = options.encryptionManager;
+    this.flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+  }
+
+  /**
+   * Get a stored result (undefined if absent or unreadable)
+   */
+  async get(key: string): Promise<EmbeddingResult | undefined> {
+    await this.initialize();
+    const info = this.entries.get(key);
+    if (!info) return undefined;
+
+    const value = await this.store.read(key);
+    if (value === undefined) {
+      this.forget(key);
+      return undefined;
+    }
+
+    let result: EmbeddingResult;
+    try {
+      result = await this.decode(value);
+    } catch (error) {
+      // Corrupt entry or written under a different key - drop it
+      console.warn('[PersistentEmbeddingCache] Discarding unreadable entry:', error);
+      await this.delete(key);
+      return undefined;
+    }
+
+    info.lastAccess = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, info);
+    this.touched.add(key);
+    this.scheduleFlush();
+    return result;
+  }
+
+  /**
+   * Store a result, evicting least recently used entries over the limits
+   */
+  async set(key: string, result: EmbeddingResult): Promise<void> {
+    await this.initialize();
+    const value = await this.encode(result);
+    const info: EmbeddingStoreEntryInfo = { key, size: value.length, lastAccess: Date.now() };
+
+    if (info.size > this.maxBytes) return;
+
+    this.forget(key);
+    await this.store.write(info, value);
+    this.entries.set(key, info);
+    this.totalBytes += info.size;
+
+    const evicted: string[] = [];
+    for (const lruKey of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries && this.totalBytes <= this.maxBytes) break;
+      if (lruKey === key) continue;
+      this.forget(lruKey);
+      evicted.push(lruKey);
+    }
+    if (evicted.length > 0) {
+      this.evictions += evicted.length;
+      await this.flush();
+      await this.store.remove(evicted);
+    }
+  }
+
+  /**
+   * Check whether a key is stored
+   */
+  async has(key: string): Promise<boolean> {
+    await this.initialize();
+    return this.entries.has(key);
+  }
+
+  /**
+   * Remove one entry
+   */
+  async delete(key: string): Promise<void> {
+    await this.initialize();
+    this.forget(key);
+    await this.store.remove([key]);
+  }
+
+  /**
+   * Remove all stored entries
+   */
+  async clear(): Promise<void> {
+    await this.initialize();
+    await this.store.clear();
+    this.entries.clear();
+    this.touched.clear();
+    this.totalBytes = 0;
+  }
+
+  /**
+   * Write pending access times to the store
+   * Call before discarding the cache (EmbeddingCache.close() does)
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    const accesses = Array.from(this.touched, key => this.entries.get(key))
+      .flatMap(info => (info ? [{ key: info.key, lastAccess: info.lastAccess }] : []));
+    this.touched.clear();
+    if (accesses.length > 0) {
+      await this.store.touch(accesses);
+    }
+  }
+
+  /**
+   * Get statistics
+   */
+  getStats(): PersistentEmbeddingCacheStats {
+    return { entries: this.entries.size, bytes: this.totalBytes, evictions: this.evictions };
+  }
+
+  /**
+   * Load the stored entry index (once)
+   */
+  private initialize(): Promise<void> {
+    this.ready ??= this.store.list().then(list => {
+      for (const info of list.sort((a, b) => a.lastAccess - b.lastAccess)) {
+        this.entries.set(info.key, info);
+        this.totalBytes += info.size;
+      }
+    });
+    return this.ready;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer !== undefined) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      this.flush().catch(error => console.warn('[PersistentEmbeddingCache] Failed to write access times:', error));
+    }, this.flushIntervalMs);
+    // Pending access times must not keep a Node.js process alive
+    (this.flushTimer as { unref?: () => void }).unref?.();
+  }
+
+  private forget(key: string): void {
+    this.touched.delete(key);
+    const info = this.entries.get(key);
+    if (info) {
+      this.totalBytes -= info.size;
+      this.entries.delete(key);
+    }
+  }
+
+  private async encode(result: EmbeddingResult): Promise<string> {
+    if (!this.encryptionManager) {
+      return JSON.stringify(result);
+    }
+    const encrypted = await this.encryptionManager.encryptForStorage(this.encryptionManager.getPublicKey(), result);
+    return JSON.stringify(encrypted);
+  }
+
+  private async decode(value: string): Promise<EmbeddingResult> {
+    const parsed = JSON.parse(value);
+    if (!this.encryptionManager) {
+      if (!Array.isArray(parsed?.embedding)) {
+        throw new Error('Stored entry is encrypted but no encryptionManager is configured');
+      }
+      return parsed as EmbeddingResult;
+    }
+    const { data } = await this.encryptionManager.decryptFromStorage<EmbeddingResult>(parsed as EncryptedStorage);
+    return data;
+  }
+}
+
+/**
+ * Create the default persistent tier for the current runtime
+ * IndexedDB when available (browsers), otherwise files under `directory` (Node.js)
+ *
+ * @param options - Store location and tier options
+ * @returns Persistent tier, or null when no storage is available
+ */
+export function createPersistentEmbeddingCache(
+  options: Omit<PersistentEmbeddingCacheOptions, 'store'> & { directory?: string; dbName?: string } = {}
+): PersistentEmbeddingCache | null {
+  const { directory, dbName, ...tierOptions } = options;
+  const store = createDefaultEmbeddingStore(directory, dbName);
+  return store ? new PersistentEmbeddingCache({ ...tierOptions, store }) : null;
+}
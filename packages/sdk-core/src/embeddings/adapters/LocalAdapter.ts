@@ -0,0 +1,206 @@
+/**
+ * Local Embedding Adapter
+ * Implements in-process CPU embedding generation with ONNX models
+ * No host or third-party service involved (offline, privacy-sensitive ingestion)
+ * Max 250 lines
+ */
+
+import { EmbeddingService } from '../EmbeddingService.js';
+import {
+  EmbeddingProvider,
+  EmbeddingConfig,
+  EmbeddingResult,
+  EmbeddingResponse
+} from '../types.js';
+
+/**
+ * `@huggingface/transformers` is an OPTIONAL PEER DEPENDENCY of @fabstir/sdk-core.
+ * It runs ONNX models on CPU (onnxruntime-node in Node.js, WASM in browsers)
+ * and is only needed by LocalAdapter, so it is loaded on first use.
+ */
+export const LOCAL_EMBEDDINGS_MISSING_MESSAGE =
+  'Local embeddings not available. LocalAdapter requires the optional peer dependency ' +
+  '@huggingface/transformers — install it (e.g. `pnpm add @huggingface/transformers`) ' +
+  'or pass a custom `extractor`.';
+
+/**
+ * Pooled feature-extraction output (dims: [batch, dimensions])
+ */
+export interface FeatureExtractionOutput {
+  data: ArrayLike<number>;
+  dims: number[];
+}
+
+/**
+ * Feature-extraction function (a transformers.js pipeline or compatible)
+ */
+export type FeatureExtractor = (
+  texts: string[],
+  options: { pooling: 'mean' | 'cls'; normalize: boolean }
+) => Promise<FeatureExtractionOutput>;
+
+/**
+ * Local embedding configuration
+ */
+export interface LocalEmbeddingConfig extends Omit<EmbeddingConfig, 'apiKey' | 'provider'> {
+  model?: string;  // Default: 'Xenova/all-MiniLM-L6-v2' (ONNX export on the Hugging Face Hub)
+  dimensions?: number;  // Default: 384
+  pooling?: 'mean' | 'cls';  // Default: 'mean'
+  normalize?: boolean;  // Default: true
+  dtype?: 'fp32' | 'fp16' | 'q8' | 'q4';  // Default: 'q8' (quantized, fastest on CPU)
+  device?: 'cpu' | 'wasm';  // Default: runtime default
+  cacheDir?: string;  // Node.js model download directory
+  localModelPath?: string;  // Load models from this path instead of the Hub
+  batchSize?: number;  // Texts per forward pass (default: 32)
+  extractor?: FeatureExtractor;  // Use a preloaded or custom extractor
+}
+
+/**
+ * Local embedding adapter
+ * Runs a sentence-transformer in-process; no network after the model is cached
+ */
+export class LocalAdapter extends EmbeddingService {
+  private dimensions: number;
+  private pooling: 'mean' | 'cls';
+  private normalize: boolean;
+  private batchSize: number;
+  private localConfig: LocalEmbeddingConfig;
+  private extractor?: Promise<FeatureExtractor>;
+
+  constructor(config: LocalEmbeddingConfig = {}) {
+    // Local adapter doesn't need API key, use placeholder
+    super({
+      ...config,
+      provider: EmbeddingProvider.Local,
+      apiKey: 'local-no-api-key-needed'
+    });
+
+    this.localConfig = config;
+    this.dimensions = config.dimensions ?? 384;
+    this.pooling = config.pooling ?? 'mean';
+    this.normalize = config.normalize ?? true;
+    this.batchSize = Math.max(1, config.batchSize ?? 32);
+    if (config.extractor) {
+      this.extractor = Promise.resolve(config.extractor);
+    }
+  }
+
+  protected getDefaultModel(): string {
+    return 'Xenova/all-MiniLM-L6-v2';
+  }
+
+  /**
+   * Load the model ahead of the first embedding call
+   * Downloads and caches it if needed
+   */
+  async warmup(): Promise<void> {
+    await this.getExtractor();
+  }
+
+  /**
+   * Embed single text
+   */
+  async embedText(text: string, inputType?: string): Promise<EmbeddingResult> {
+    this.validateText(text);
+
+    const response = await this.embedBatch([text], inputType);
+    return response.embeddings[0];
+  }
+
+  /**
+   * Embed multiple texts in batch
+   * inputType is ignored: symmetric sentence-transformers embed queries and
+   * documents the same way
+   */
+  async embedBatch(texts: string[], _inputType?: string): Promise<EmbeddingResponse> {
+    this.validateBatch(texts, 2048);
+
+    const extractor = await this.getExtractor();
+    const embeddings: EmbeddingResult[] = [];
+
+    for (let start = 0; start < texts.length; start += this.batchSize) {
+      const batch = texts.slice(start, start + this.batchSize);
+      const output = await extractor(batch, { pooling: this.pooling, normalize: this.normalize });
+      const vectors = this.toVectors(output, batch.length);
+
+      batch.forEach((text, i) => {
+        embeddings.push({ embedding: vectors[i], text, tokenCount: this.estimateTokens(text) });
+      });
+    }
+
+    const totalTokens = embeddings.reduce((sum, e) => sum + e.tokenCount, 0);
+    this.trackCost(totalTokens, 0.0);
+
+    return {
+      embeddings,
+      model: this.model,
+      provider: EmbeddingProvider.Local,
+      totalTokens,
+      cost: 0.0  // Always free for local embeddings
+    };
+  }
+
+  /**
+   * Override checkDailyCostLimit - not needed for free local embeddings
+   */
+  protected async checkDailyCostLimit(): Promise<void> {
+    return;
+  }
+
+  /**
+   * Split pooled output into one vector per text
+   */
+  private toVectors(output: FeatureExtractionOutput, count: number): number[][] {
+    const [rows, dimensions] = output.dims;
+    if (output.dims.length !== 2 || rows !== count) {
+      throw new Error(
+        `Local model returned output of shape [${output.dims.join(', ')}] for ${count} texts`
+      );
+    }
+    if (dimensions !== this.dimensions) {
+      throw new Error(
+        `Local model returned ${dimensions}-dimensional embeddings, expected ${this.dimensions}`
+      );
+    }
+
+    const values = Array.from(output.data);
+    const vectors: number[][] = [];
+    for (let row = 0; row < rows; row++) {
+      vectors.push(values.slice(row * dimensions, (row + 1) * dimensions));
+    }
+    return vectors;
+  }
+
+  /**
+   * Load (once) the feature-extraction pipeline
+   */
+  private getExtractor(): Promise<FeatureExtractor> {
+    this.extractor ??= this.loadPipeline().catch(error => {
+      this.extractor = undefined;  // Allow a retry after a failed download
+      throw error;
+    });
+    return this.extractor;
+  }
+
+  private async loadPipeline(): Promise<FeatureExtractor> {
+    // The specifier is kept dynamic so bundlers and type-checking skip the optional package
+    const transformersModule = '@huggingface/transformers';
+    const transformers = await import(/* @vite-ignore */ transformersModule).catch(() => null);
+    if (!transformers?.pipeline) {
+      throw new Error(LOCAL_EMBEDDINGS_MISSING_MESSAGE);
+    }
+
+    const { cacheDir, localModelPath, dtype, device } = this.localConfig;
+    if (cacheDir) transformers.env.cacheDir = cacheDir;
+    if (localModelPath) {
+      transformers.env.localModelPath = localModelPath;
+      transformers.env.allowRemoteModels = false;
+    }
+
+    const pipe = await transformers.pipeline('feature-extraction', this.model, {
+      dtype: dtype ?? 'q8',
+      ...(device ? { device } : {})
+    });
+    return (texts, options) => pipe(texts, options);
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Embedding Store
+ * Storage contract for the persistent embedding cache tier
+ * Max 50 lines
+ */
+
+/**
+ * Bookkeeping for one stored entry
+ */
+export interface EmbeddingStoreEntryInfo {
+  key: string;
+  size: number; // bytes of the stored value
+  lastAccess: number;
+}
+
+/**
+ * New access time for a stored entry
+ */
+export interface EmbeddingStoreAccess {
+  key: string;
+  lastAccess: number;
+}
+
+/**
+ * Storage backend for the persistent tier
+ * Values are opaque strings (serialized, optionally encrypted, results)
+ */
+export interface EmbeddingStore {
+  /** List stored entries (used to rebuild the LRU order on startup) */
+  list(): Promise<EmbeddingStoreEntryInfo[]>;
+  read(key: string): Promise<string | undefined>;
+  write(info: EmbeddingStoreEntryInfo, value: string): Promise<void>;
+  /** Record new access times (batched by the cache); unknown keys are ignored */
+  touch(accesses: EmbeddingStoreAccess[]): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,119 @@
+/**
+ * File Embedding Store
+ * Node.js backend for PersistentEmbeddingCache
+ * Max 150 lines
+ */
+
+import type { EmbeddingStore, EmbeddingStoreAccess, EmbeddingStoreEntryInfo } from './EmbeddingStore.js';
+
+const INDEX_FILE = 'index.json';
+
+/**
+ * File-backed embedding store
+ * One file per entry plus an index.json of entry info. Keys are hex hashes,
+ * so they are used as file names directly.
+ */
+export class FileEmbeddingStore implements EmbeddingStore {
+  private directory: string;
+  private index?: Map<string, EmbeddingStoreEntryInfo>;
+  private fs?: Promise<typeof import('node:fs/promises')>;
+  // Serializes index.json writes so concurrent updates cannot interleave
+  private indexWrite: Promise<void> = Promise.resolve();
+
+  constructor(directory: string) {
+    this.directory = directory.replace(/[\\/]+$/, '');
+  }
+
+  async list(): Promise<EmbeddingStoreEntryInfo[]> {
+    const index = await this.loadIndex();
+    return Array.from(index.values()).map(info => ({ ...info }));
+  }
+
+  async read(key: string): Promise<string | undefined> {
+    const fs = await this.loadFs();
+    try {
+      return await fs.readFile(this.path(key), 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async write(info: EmbeddingStoreEntryInfo, value: string): Promise<void> {
+    const fs = await this.loadFs();
+    const index = await this.loadIndex();
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.path(info.key), value, 'utf8');
+    index.set(info.key, { ...info });
+    await this.saveIndex();
+  }
+
+  async touch(accesses: EmbeddingStoreAccess[]): Promise<void> {
+    const index = await this.loadIndex();
+    let changed = false;
+    for (const { key, lastAccess } of accesses) {
+      const info = index.get(key);
+      if (info) {
+        info.lastAccess = lastAccess;
+        changed = true;
+      }
+    }
+    if (changed) await this.saveIndex();
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const fs = await this.loadFs();
+    const index = await this.loadIndex();
+    for (const key of keys) {
+      index.delete(key);
+      await fs.rm(this.path(key), { force: true });
+    }
+    await this.saveIndex();
+  }
+
+  async clear(): Promise<void> {
+    const fs = await this.loadFs();
+    await fs.rm(this.directory, { recursive: true, force: true });
+    this.index = new Map();
+  }
+
+  private path(name: string): string {
+    return `${this.directory}/${name}${name === INDEX_FILE ? '' : '.json'}`;
+  }
+
+  private loadFs(): Promise<typeof import('node:fs/promises')> {
+    // The specifier is kept dynamic so browser bundles skip it
+    const fsModule = 'node:fs/promises';
+    this.fs ??= import(/* @vite-ignore */ fsModule);
+    return this.fs;
+  }
+
+  private async loadIndex(): Promise<Map<string, EmbeddingStoreEntryInfo>> {
+    if (this.index) return this.index;
+
+    const fs = await this.loadFs();
+    const index = new Map<string, EmbeddingStoreEntryInfo>();
+    try {
+      const entries: EmbeddingStoreEntryInfo[] = JSON.parse(await fs.readFile(this.path(INDEX_FILE), 'utf8'));
+      for (const info of entries) index.set(info.key, info);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        console.warn('[FileEmbeddingStore] Ignoring unreadable index:', error);
+      }
+    }
+    this.index ??= index;
+    return this.index;
+  }
+
+  private saveIndex(): Promise<void> {
+    const write = this.indexWrite.then(async () => {
+      const fs = await this.loadFs();
+      await fs.mkdir(this.directory, { recursive: true });
+      const snapshot = JSON.stringify(Array.from(this.index?.values() ?? []));
+      await fs.writeFile(this.path(INDEX_FILE), snapshot, 'utf8');
+    });
+    this.indexWrite = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * IndexedDB Embedding Store
+ * Browser backend for PersistentEmbeddingCache
+ * Max 150 lines
+ */
+
+import type { EmbeddingStore, EmbeddingStoreAccess, EmbeddingStoreEntryInfo } from './EmbeddingStore.js';
+
+const VALUES = 'values';
+const ENTRIES = 'entries';
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/**
+ * IndexedDB-backed embedding store
+ * Values and entry info live in separate object stores so listing the
+ * LRU index does not load every embedding
+ */
+export class IndexedDBEmbeddingStore implements EmbeddingStore {
+  private dbName: string;
+  private db?: Promise<IDBDatabase>;
+
+  constructor(dbName: string = 'fabstir-embedding-cache') {
+    this.dbName = dbName;
+  }
+
+  async list(): Promise<EmbeddingStoreEntryInfo[]> {
+    const db = await this.open();
+    return request(db.transaction(ENTRIES, 'readonly').objectStore(ENTRIES).getAll());
+  }
+
+  async read(key: string): Promise<string | undefined> {
+    const db = await this.open();
+    return request(db.transaction(VALUES, 'readonly').objectStore(VALUES).get(key));
+  }
+
+  async write(info: EmbeddingStoreEntryInfo, value: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([VALUES, ENTRIES], 'readwrite');
+    tx.objectStore(VALUES).put(value, info.key);
+    tx.objectStore(ENTRIES).put(info);
+    await this.complete(tx);
+  }
+
+  async touch(accesses: EmbeddingStoreAccess[]): Promise<void> {
+    if (accesses.length === 0) return;
+    const db = await this.open();
+    const tx = db.transaction(ENTRIES, 'readwrite');
+    const entries = tx.objectStore(ENTRIES);
+    for (const { key, lastAccess } of accesses) {
+      const info = await request<EmbeddingStoreEntryInfo | undefined>(entries.get(key));
+      if (info) {
+        entries.put({ ...info, lastAccess });
+      }
+    }
+    await this.complete(tx);
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const db = await this.open();
+    const tx = db.transaction([VALUES, ENTRIES], 'readwrite');
+    for (const key of keys) {
+      tx.objectStore(VALUES).delete(key);
+      tx.objectStore(ENTRIES).delete(key);
+    }
+    await this.complete(tx);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([VALUES, ENTRIES], 'readwrite');
+    tx.objectStore(VALUES).clear();
+    tx.objectStore(ENTRIES).clear();
+    await this.complete(tx);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.db ??= new Promise((resolve, reject) => {
+      const req = globalThis.indexedDB.open(this.dbName, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(VALUES);
+        req.result.createObjectStore(ENTRIES, { keyPath: 'key' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    return this.db;
+  }
+
+  private complete(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+}
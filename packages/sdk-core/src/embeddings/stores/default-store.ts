@@ -0,0 +1,27 @@
+/**
+ * Default Embedding Store
+ * Picks the persistent tier backend for the current runtime
+ * Max 50 lines
+ */
+
+import type { EmbeddingStore } from './EmbeddingStore.js';
+import { IndexedDBEmbeddingStore } from './IndexedDBEmbeddingStore.js';
+import { FileEmbeddingStore } from './FileEmbeddingStore.js';
+
+/**
+ * Create the store for the current runtime
+ * IndexedDB when available (browsers), otherwise files under `directory` (Node.js)
+ *
+ * @param directory - Directory for the file store (forces the file store)
+ * @param dbName - IndexedDB database name
+ * @returns Store, or null when no storage is available
+ */
+export function createDefaultEmbeddingStore(directory?: string, dbName?: string): EmbeddingStore | null {
+  if (typeof globalThis.indexedDB !== 'undefined' && !directory) {
+    return new IndexedDBEmbeddingStore(dbName);
+  }
+  if (typeof process !== 'undefined' && process.versions?.node) {
+    return new FileEmbeddingStore(directory ?? '.fabstir/embedding-cache');
+  }
+  return null;
+}
@@ -10,7 +10,8 @@
 export enum EmbeddingProvider {
   OpenAI = 'openai',
   Cohere = 'cohere',
-  Host = 'host'  // Future: host-side embedding (Sub-phase 4.2)
+  Host = 'host',  // Future: host-side embedding (Sub-phase 4.2)
+  Local = 'local'  // In-process ONNX model (LocalAdapter)
 }
 
 /**
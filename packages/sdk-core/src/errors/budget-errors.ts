@@ -0,0 +1,28 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Spend cap error, thrown when a session started with maxSpend cannot pay
+ * for another token, or when generation was stopped at the cap.
+ * Follows the same pattern as ContextLimitError.
+ */
+
+export class BudgetExceededError extends Error {
+  public readonly code: 'BUDGET_EXCEEDED';
+  /** Spend cap of the session (payment token units) */
+  public readonly maxSpend: bigint;
+  /** Spent by the session so far, including the stopped generation */
+  public readonly spent: bigint;
+  /** Response generated before the cap was reached (undefined when nothing was sent) */
+  public readonly partialResponse?: string;
+
+  constructor(message: string, maxSpend: bigint, spent: bigint, partialResponse?: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+    this.code = 'BUDGET_EXCEEDED';
+    this.maxSpend = maxSpend;
+    this.spent = spent;
+    this.partialResponse = partialResponse;
+    Object.setPrototypeOf(this, BudgetExceededError.prototype);
+  }
+}
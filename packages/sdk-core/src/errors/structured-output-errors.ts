@@ -0,0 +1,28 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Structured output error, thrown when a response still does not match
+ * PromptOptions.responseFormat after all repair attempts.
+ * Follows the same pattern as ContextLimitError.
+ */
+
+export class StructuredOutputError extends Error {
+  public readonly code: 'STRUCTURED_OUTPUT_INVALID';
+  /** Validation errors of the last response */
+  public readonly validationErrors: string[];
+  /** Text of the last response */
+  public readonly response: string;
+  /** Responses requested, including the first */
+  public readonly attempts: number;
+
+  constructor(message: string, validationErrors: string[], response: string, attempts: number) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.code = 'STRUCTURED_OUTPUT_INVALID';
+    this.validationErrors = validationErrors;
+    this.response = response;
+    this.attempts = attempts;
+    Object.setPrototypeOf(this, StructuredOutputError.prototype);
+  }
+}
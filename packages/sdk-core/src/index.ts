@@ -63,14 +63,80 @@ export { ClientManager } from './managers/ClientManager';
 export { PermissionManager } from './managers/PermissionManager';
 export { PermissionStorage } from './storage/PermissionStorage';
 
+// Prompt template library (versioned templates in S5, shareable via PermissionManager)
+export { PromptTemplateManager } from './managers/PromptTemplateManager';
+export { PromptTemplateStorage } from './storage/PromptTemplateStorage';
+export {
+  renderTemplate,
+  validateTemplateContent,
+  resolveTemplateValues,
+  extractPlaceholders
+} from './templates/template-renderer';
+export type { TemplateContent } from './templates/template-renderer';
+
 // RAG and Vector Database managers (host-side via WebSocket)
 export { VectorRAGManager } from './managers/VectorRAGManager';
 export { DocumentManager } from './managers/DocumentManager';
+export { MarkdownChunkingStrategy, CodeChunkingStrategy, SemanticChunkingStrategy } from './documents/chunking-strategies';
+export type { SemanticChunkingOptions } from './documents/chunking-strategies';
+export type { ChunkingOptions, ChunkingStrategy, ChunkingStrategyName, ChunkingContext } from './documents/types';
 export { HostAdapter } from './embeddings/adapters/HostAdapter';
+export { LocalAdapter, LOCAL_EMBEDDINGS_MISSING_MESSAGE } from './embeddings/adapters/LocalAdapter';
+export type { LocalEmbeddingConfig, FeatureExtractor, FeatureExtractionOutput } from './embeddings/adapters/LocalAdapter';
+export { EmbeddingCache } from './embeddings/EmbeddingCache';
+export type { EmbeddingCacheStats } from './embeddings/EmbeddingCache';
+export { PersistentEmbeddingCache, createPersistentEmbeddingCache } from './embeddings/PersistentEmbeddingCache';
+export type {
+  EmbeddingStore,
+  EmbeddingStoreAccess,
+  EmbeddingStoreEntryInfo,
+  PersistentEmbeddingCacheOptions,
+  PersistentEmbeddingCacheStats
+} from './embeddings/PersistentEmbeddingCache';
+export { IndexedDBEmbeddingStore } from './embeddings/stores/IndexedDBEmbeddingStore';
+export { FileEmbeddingStore } from './embeddings/stores/FileEmbeddingStore';
 export type { IVectorRAGManager } from './managers/interfaces/IVectorRAGManager';
 export type { IDocumentManager } from './documents/interfaces/IDocumentManager';
 export type { IEmbeddingService } from './embeddings/interfaces/IEmbeddingService';
 
+// Tokenizers (model-accurate token counting)
+export { TokenizerRegistry, tokenizerRegistry, countTokens } from './tokenizers/tokenizer-registry';
+export { BPETokenizer, HeuristicTokenizer } from './tokenizers/bpe-tokenizer';
+export type { Tokenizer, TokenizerSource, TokenizerJSON } from './tokenizers/types';
+
+// Tool calling (prompt formatting and streamed tool call parsing)
+export { ToolCallParser } from './tools/tool-call-parser';
+export type { ToolParserEvent } from './tools/tool-call-parser';
+export { formatToolsForPrompt, formatToolResults, buildToolPrompt, createToolCallId } from './tools/tool-prompt';
+export type { StreamingToolParser } from './tools/tool-call-parser';
+export { BlockToolCallParser } from './tools/block-tool-parser';
+export type { BlockSyntax, BlockContentParser, ParsedToolCall } from './tools/block-tool-parser';
+export { ToolDialectRegistry, toolDialectRegistry } from './tools/tool-dialects';
+export type { ToolDialect } from './tools/tool-dialects';
+
+// Structured output (JSON Schema validation of responses)
+export { validateJsonSchema } from './structured/json-schema-validator';
+export type { JsonSchemaValidationOptions } from './structured/json-schema-validator';
+export { extractJson, parseStructuredOutput } from './structured/structured-output';
+export type { StructuredOutputResult } from './structured/structured-output';
+
+// Sampling (validation of per-request sampling options)
+export { validateSamplingOptions, assertSamplingSupported } from './utils/sampling-validation';
+
+// Conversation branching (message trees of stored conversations and chat sessions)
+export {
+  createMessageId,
+  withMessageIds,
+  getBranchPath,
+  getChildMessages,
+  getLatestLeaf,
+  getActiveBranch
+} from './conversation/conversation-tree';
+export type { TreeMessage, TreeNode } from './conversation/conversation-tree';
+
+// Context compaction (rolling summaries of older turns)
+export { buildSummaryPrompt, buildCompactedPrompt, formatTranscript } from './conversation/context-compaction';
+
 // Services
 export { UnifiedBridgeClient } from './services/UnifiedBridgeClient';
 export { P2PBridgeClient } from './services/P2PBridgeClient';
@@ -159,6 +225,12 @@ export { WebSearchError } from './errors/web-search-errors';
 // Export context limit errors
 export { ContextLimitError } from './errors/context-errors';
 
+// Export structured output errors
+export { StructuredOutputError } from './errors/structured-output-errors';
+
+// Export spend cap errors
+export { BudgetExceededError } from './errors/budget-errors';
+
 // Export image generation errors
 export { ImageGenerationError } from './errors/image-generation-errors';
 export { analyzePromptForImageIntent, type ImageIntentResult } from './utils/image-intent-analyzer';
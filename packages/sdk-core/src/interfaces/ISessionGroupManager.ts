@@ -7,6 +7,7 @@ import type {
   UpdateSessionGroupInput,
   VectorDatabaseMetadata,
   GroupDocumentMetadata,
+  ChatMessage,
 } from '../types/session-groups.types';
 
 /**
@@ -215,12 +216,35 @@ export interface ISessionGroupManager {
    *
    * @param groupId - Session group ID
    * @param sessionId - Chat session ID
-   * @param message - Message to add
+   * @param message - Message to add (replies to the end of the active branch unless parentId is given)
    * @throws {Error} If group or session not found
    */
   addMessage(
     groupId: string,
     sessionId: string,
-    message: { role: 'user' | 'assistant' | 'system'; content: string; timestamp: number }
+    message: ChatMessage
   ): Promise<void>;
+
+  /**
+   * Move a chat session's active-branch cursor
+   *
+   * @param groupId - Session group ID
+   * @param sessionId - Chat session ID
+   * @param messageId - Message the next message replies to (null: new root branch)
+   * @throws {Error} If group, session or message not found
+   */
+  setActiveMessage(
+    groupId: string,
+    sessionId: string,
+    messageId: string | null
+  ): Promise<void>;
+
+  /**
+   * Get the messages of a chat session's active branch, first to last
+   *
+   * @param groupId - Session group ID
+   * @param sessionId - Chat session ID
+   * @throws {Error} If group or session not found
+   */
+  getActiveMessages(groupId: string, sessionId: string): Promise<ChatMessage[]>;
 }
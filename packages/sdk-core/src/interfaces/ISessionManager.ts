@@ -6,7 +6,7 @@
  * Browser-compatible session management
  */
 
-import { SessionConfig, SessionJob, CheckpointProof, RecoveredConversation, CheckpointQueryOptions, PromptOptions, TokenUsageInfo, ContextInfo } from '../types';
+import { SessionConfig, SessionJob, CheckpointProof, RecoveredConversation, CheckpointQueryOptions, PromptOptions, TokenUsageInfo, ContextInfo, ToolResult, ResponseFormat, HedgedSessions, ConversationTree, ConversationNode, MessageSiblings, PromptCostEstimate } from '../types';
 import type { SearchApiResponse } from '../types/web-search.types';
 import type { BlockchainRecoveredConversation } from '../utils/checkpoint-blockchain';
 import type { ImageGenerationOptions, ImageGenerationResult } from '../types/image-generation.types';
@@ -22,10 +22,22 @@ export interface ISessionManager {
     sessionId: bigint;
     jobId: bigint;
   }>;
+
+  /**
+   * Open sessions on the two best ranked hosts for a model, for hedged prompts
+   * (PromptOptions.hedgeSessionId)
+   */
+  startHedgedSessions(config: any): Promise<HedgedSessions>;
   
   /**
-   * Send prompt in session
+   * Send prompt in session (resolves with the parsed JSON value when
+   * options.responseFormat is set)
    */
+  sendPrompt<T = unknown>(
+    sessionId: bigint,
+    prompt: string,
+    options: PromptOptions & { responseFormat: ResponseFormat }
+  ): Promise<T>;
   sendPrompt(
     sessionId: bigint,
     prompt: string,
@@ -33,14 +45,31 @@ export interface ISessionManager {
   ): Promise<string>;
 
   /**
-   * Send prompt with streaming support
+   * Send prompt with streaming support (resolves with the parsed JSON value
+   * when options.responseFormat is set)
    */
+  sendPromptStreaming<T = unknown>(
+    sessionId: bigint,
+    prompt: string,
+    onToken: ((token: string) => void) | undefined,
+    options: PromptOptions & { responseFormat: ResponseFormat }
+  ): Promise<T>;
   sendPromptStreaming(
     sessionId: bigint,
     prompt: string,
     onToken?: (token: string) => void,
     options?: PromptOptions
   ): Promise<string>;
+
+  /**
+   * Answer the tool calls of the last streamed response and continue the session
+   */
+  submitToolResults(
+    sessionId: bigint,
+    results: ToolResult[],
+    onToken?: (token: string) => void,
+    options?: PromptOptions
+  ): Promise<string>;
   
   /**
    * Submit checkpoint proof
@@ -108,17 +137,76 @@ export interface ISessionManager {
     pricePerToken: number
   ): bigint;
 
+  /**
+   * Estimate the cost of a prompt before sending it, at the host's current
+   * price, and whether it fits the session's spend cap (maxSpend).
+   */
+  estimatePromptCost(
+    sessionId: bigint,
+    prompt: string,
+    options?: PromptOptions
+  ): Promise<PromptCostEstimate>;
+
   /**
    * Get the token usage info from the last completed prompt for a session.
    */
   getLastTokenUsage(sessionId: bigint): TokenUsageInfo | undefined;
 
   /**
-   * Get context window utilization info for a session.
-   * Returns null if no prompt has been sent yet.
+   * Get context window utilization info for a session, including what
+   * compaction has summarised. Returns null if no prompt has been sent yet.
    */
   getContextInfo(sessionId: bigint): ContextInfo | null;
 
+  /**
+   * Get the session currently carrying a conversation.
+   * Differs from sessionId after a failover moved the conversation to another host.
+   */
+  getCurrentSessionId(sessionId: bigint): bigint;
+
+  /**
+   * Get every branch of a session's conversation and the active-branch cursor
+   */
+  getConversationTree(sessionId: bigint): ConversationTree;
+
+  /**
+   * Get the messages of the active branch, first to last
+   */
+  getActiveBranch(sessionId: bigint): ConversationNode[];
+
+  /**
+   * Get a message and the other replies to the same parent
+   */
+  getMessageSiblings(sessionId: bigint, messageId: string): MessageSiblings;
+
+  /**
+   * Make the next prompt a new sibling of messageId (edit a message);
+   * null starts a new root branch. Returns the message the next prompt replies to.
+   */
+  forkAt(sessionId: bigint, messageId: string | null): Promise<string | null>;
+
+  /**
+   * Switch to the newest branch through messageId
+   */
+  switchBranch(sessionId: bigint, messageId: string): Promise<ConversationNode[]>;
+
+  /**
+   * Generate a sibling response to an assistant message's prompt
+   * (default: the last response on the active branch)
+   */
+  regenerateResponse(
+    sessionId: bigint,
+    messageId?: string,
+    onToken?: (token: string) => void,
+    options?: PromptOptions
+  ): Promise<unknown>;
+
+  /**
+   * Count the tokens a prompt will use with the session model's tokenizer.
+   * Falls back to a heuristic estimate when no tokenizer is registered.
+   */
+  countPromptTokens(sessionId: bigint, text: string): Promise<number>;
+
   /**
    * End a session cleanly (user-initiated)
    */
@@ -12,7 +12,9 @@ import type {
   BatchOptions,
   BatchResult,
   ChunkingOptions,
-  DocumentChunk
+  DocumentChunk,
+  ReindexOptions,
+  ReindexResult
 } from '../documents/types.js';
 import {
   extractText,
@@ -22,9 +24,11 @@ import {
   extractionCache,
   isImageType
 } from '../documents/extractors.js';
-import { chunkText } from '../documents/chunker.js';
+import { chunkWithStrategy } from '../documents/chunking-strategies.js';
 import type { EmbeddingService } from '../embeddings/EmbeddingService.js';
-
+import type { VectorRAGManager } from './VectorRAGManager.js';
+import type { VectorRecord } from '../rag/types.js';
+import { SDKError } from '../types/index.js';
 
 /**
  * Chunk result with embedding
@@ -39,6 +43,7 @@ export interface ChunkResult {
  */
 export interface DocumentManagerOptions {
   embeddingService?: EmbeddingService;
+  vectorRAGManager?: VectorRAGManager; // Required by reindexDocument()
 }
 
 /**
@@ -60,6 +65,7 @@ export class DocumentManager {
   private s5Client?: any;
   private initialized = false;
   private embeddingService?: EmbeddingService;
+  private vectorRAGManager?: VectorRAGManager;
 
   // Document registry (in-memory for now, can be S5-backed later)
   private documentRegistry = new Map<string, Map<string, DocumentRegistryEntry>>();
@@ -69,6 +75,7 @@ export class DocumentManager {
 
   constructor(options?: DocumentManagerOptions) {
     this.embeddingService = options?.embeddingService;
+    this.vectorRAGManager = options?.vectorRAGManager;
   }
 
   /**
@@ -274,12 +281,13 @@ export class DocumentManager {
     });
 
     const documentId = this.generateDocumentId(file.name, 'default');
-    const chunks = chunkText(
+    const chunks = await chunkWithStrategy(
       text,
       documentId,
       file.name,
       documentType,
-      options
+      options,
+      texts => this.embedChunkTexts(texts)
     );
 
     // Handle empty chunks (e.g., image with no text content)
@@ -332,6 +340,162 @@ export class DocumentManager {
     return results;
   }
 
+  /**
+   * Re-index a changed document in a vector database
+   *
+   * Chunks the new file and diffs it against the document's stored vectors by
+   * `contentHash`: only new or changed chunks are embedded and inserted,
+   * unchanged chunks keep their embeddings (moved ones get updated positions),
+   * and stale chunks are deleted via deleteByMetadata once the new chunks are
+   * stored. If embedding or inserting fails, the previous version is left intact.
+   *
+   * @param documentId - ID of the indexed document (vector metadata `documentId`)
+   * @param file - New version of the file
+   * @param databaseName - Vector database holding the document's vectors
+   * @param options - Chunking, progress and extra vector metadata options
+   * @returns Vector IDs grouped by outcome
+   */
+  async reindexDocument(
+    documentId: string,
+    file: File,
+    databaseName: string,
+    options?: ReindexOptions
+  ): Promise<ReindexResult> {
+    if (!this.embeddingService) {
+      throw new Error('DocumentManager requires an embeddingService for document re-indexing');
+    }
+    if (!this.vectorRAGManager) {
+      throw new Error('DocumentManager requires a vectorRAGManager for document re-indexing');
+    }
+
+    validateFileSize(file);
+    const documentType = detectDocumentType(file.name);
+    if (isImageType(documentType)) {
+      throw new Error('Image documents cannot be re-indexed');
+    }
+
+    options?.onProgress?.({ stage: 'extracting', progress: 25, currentStep: 'Extracting text from document' });
+    const extractionResult = await extractText(file, documentType);
+
+    options?.onProgress?.({ stage: 'chunking', progress: 50, currentStep: 'Comparing chunks' });
+    const chunks = await chunkWithStrategy(
+      extractionResult.text,
+      documentId,
+      file.name,
+      documentType,
+      options,
+      texts => this.embedChunkTexts(texts)
+    );
+
+    // Existing vectors by content hash (vectors stored before hashing count as changed)
+    const existing = (await this.vectorRAGManager.listVectors(databaseName))
+      .filter(vector => vector.metadata?.documentId === documentId);
+    const existingByHash = new Map<string, VectorRecord[]>();
+    for (const vector of existing) {
+      const hash = vector.metadata.contentHash;
+      if (typeof hash === 'string') {
+        existingByHash.set(hash, [...(existingByHash.get(hash) ?? []), vector]);
+      }
+    }
+
+    const result: ReindexResult = { documentId, added: [], moved: [], unchanged: [], removed: [] };
+    const kept = new Set<VectorRecord>();
+    const upserts: VectorRecord[] = [];
+    const changed: DocumentChunk[] = [];
+
+    for (const chunk of chunks) {
+      const match = existingByHash.get(chunk.metadata.contentHash!)?.shift();
+      if (!match) {
+        changed.push(chunk);
+        continue;
+      }
+      kept.add(match);
+      const { index, startOffset, endOffset } = chunk.metadata;
+      const samePosition = match.metadata.index === index &&
+        match.metadata.startOffset === startOffset &&
+        match.metadata.endOffset === endOffset;
+      if (samePosition) {
+        result.unchanged.push(match.id);
+      } else {
+        upserts.push({ ...match, metadata: { ...match.metadata, ...chunk.metadata, text: chunk.text } });
+        result.moved.push(match.id);
+      }
+    }
+
+    // Embed only the new and changed chunks
+    if (changed.length > 0) {
+      options?.onProgress?.({
+        stage: 'embedding',
+        progress: 75,
+        currentStep: `Embedding ${changed.length} of ${chunks.length} chunks`
+      });
+      const embeddingResponse = await this.embeddingService.embedBatch(changed.map(chunk => chunk.text), 'document');
+
+      const takenIds = new Set(Array.from(kept, vector => vector.id));
+      changed.forEach((chunk, i) => {
+        let id = chunk.id;
+        for (let n = 1; takenIds.has(id); n++) {
+          id = `${chunk.id}_${n}`;
+        }
+        takenIds.add(id);
+        upserts.push({
+          id,
+          vector: embeddingResponse.embeddings[i].embedding,
+          metadata: { ...chunk.metadata, text: chunk.text, ...options?.metadata }
+        });
+        result.added.push(id);
+      });
+    }
+
+    // Write the new version before deleting anything, so a failed embedding
+    // or insert leaves the previous version searchable
+    const sessionId = await this.vectorRAGManager.getOrCreateSessionId(databaseName);
+    if (upserts.length > 0) {
+      await this.vectorRAGManager.addVectors(sessionId, upserts);
+    }
+
+    // Stale vectors: one filter for hashes no longer present, IDs for surplus duplicates.
+    // A new chunk may reuse a stale vector's ID; the upsert above replaced that vector.
+    const stale = existing.filter(vector => !kept.has(vector));
+    const keptHashes = new Set(Array.from(kept, vector => vector.metadata.contentHash as string));
+    const addedIds = new Set(result.added);
+    const duplicateIds = stale
+      .filter(vector => keptHashes.has(vector.metadata.contentHash) && !addedIds.has(vector.id))
+      .map(vector => vector.id);
+    result.removed = stale.map(vector => vector.id);
+
+    if (stale.some(vector => !keptHashes.has(vector.metadata.contentHash))) {
+      await this.vectorRAGManager.deleteByMetadata(sessionId, {
+        documentId,
+        contentHash: { $nin: [...keptHashes, ...changed.map(chunk => chunk.metadata.contentHash!)] }
+      });
+    }
+    if (duplicateIds.length > 0) {
+      await this.vectorRAGManager.deleteVectors(sessionId, duplicateIds);
+    }
+
+    // Keep the registry and extraction cache in step with the new version
+    extractionCache.set(documentId, extractionResult);
+    const entry = this.getFromRegistry(databaseName, documentId);
+    if (entry) {
+      if (this.s5Client) {
+        const buffer = await file.arrayBuffer();
+        await this.s5Client.fs.put(entry.s5Path, new Uint8Array(buffer));
+      }
+      entry.textCached = extractionResult.text;
+      entry.metadata = { ...entry.metadata, name: file.name, type: documentType, size: file.size, uploadedAt: Date.now() };
+    }
+
+    options?.onProgress?.({
+      stage: 'complete',
+      progress: 100,
+      currentStep: `Re-indexed: ${result.added.length} added, ${result.removed.length} removed, ` +
+        `${result.unchanged.length + result.moved.length} unchanged`
+    });
+
+    return result;
+  }
+
   /**
    * Embed a single text string (for RAG query embedding)
    * @param text - Text to embed
@@ -474,13 +638,14 @@ export class DocumentManager {
     // Extract text
     const text = await this.extractText(documentId, databaseName);
 
-    // Chunk the text
-    const chunks = chunkText(
+    // Chunk the text (the semantic strategy needs an embeddingService)
+    const chunks = await chunkWithStrategy(
       text,
       documentId,
       entry.metadata.name,
       entry.metadata.type,
-      options
+      options,
+      this.embeddingService ? texts => this.embedChunkTexts(texts) : undefined
     );
 
     return chunks;
@@ -496,6 +661,14 @@ export class DocumentManager {
 
   // Private helper methods
 
+  private async embedChunkTexts(texts: string[]): Promise<number[][]> {
+    if (!this.embeddingService) {
+      throw new SDKError('DocumentManager requires an embeddingService to embed chunks', 'EMBEDDING_SERVICE_REQUIRED');
+    }
+    const response = await this.embeddingService.embedBatch(texts, 'document');
+    return response.embeddings.map((result) => result.embedding);
+  }
+
   private generateDocumentId(fileName: string, databaseName: string): string {
     const timestamp = Date.now();
     const random = Math.random().toString(36).substring(7);
@@ -13,6 +13,7 @@ import {
   ModelWithAvailability,
   PriceRange,
 } from '../types/models';
+import type { ToolDialectName } from '../types/tools.types';
 import { IHostManager } from '../interfaces/IHostManager';
 import { DEFAULT_MODEL_CONFIG } from '../constants/models';
 import {
@@ -22,6 +23,7 @@ import {
   ModelRegistryError,
   ModelValidationError
 } from '../errors/model-errors';
+import { toolDialectRegistry } from '../tools/tool-dialects';
 import ModelRegistryABI from '../contracts/abis/ModelRegistryUpgradeable-CLIENT-ABI.json';
 
 export class ModelManager {
@@ -169,6 +171,17 @@ export class ModelManager {
     }
   }
 
+  /**
+   * Get the tool calling dialect of a registered model
+   *
+   * Detected from the model's HuggingFace repo and file name; pass the
+   * result as PromptOptions.toolDialect for sessions started with a model hash.
+   */
+  async getToolDialect(modelId: string): Promise<ToolDialectName> {
+    const info = await this.getModelDetails(modelId);
+    return toolDialectRegistry.resolve(info).name;
+  }
+
   /**
    * Get all approved models using direct contract reads
    */
@@ -66,7 +66,7 @@ export class PermissionManager implements IPermissionManager {
     }
 
     // Validate resource type
-    const validTypes: ResourceType[] = ['session_group', 'vector_database'];
+    const validTypes: ResourceType[] = ['session_group', 'vector_database', 'prompt_template'];
     if (!validTypes.includes(resourceType)) {
       throw new Error('Invalid resource type');
     }
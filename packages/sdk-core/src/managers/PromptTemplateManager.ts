@@ -0,0 +1,312 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+import type {
+  PromptTemplate,
+  PromptTemplateVersion,
+  CreatePromptTemplateInput,
+  UpdatePromptTemplateInput,
+  TemplateValues,
+  RenderedPrompt,
+} from '../types/prompt-templates.types';
+import { PermissionLevel, type Permission } from '../types/permissions.types';
+import type { PermissionManager } from './PermissionManager';
+import type { PromptTemplateStorage } from '../storage/PromptTemplateStorage';
+import { SDKError } from '../types';
+import { AsyncMutex } from '../utils/AsyncMutex';
+import { extractPlaceholders, renderTemplate, validateTemplateContent, TemplateContent } from '../templates/template-renderer';
+
+const ACCESS_RANK: Record<PermissionLevel, number> = {
+  [PermissionLevel.READER]: 1,
+  [PermissionLevel.WRITER]: 2,
+  [PermissionLevel.ADMIN]: 3,
+};
+
+/**
+ * Prompt Template Manager
+ *
+ * Manages a library of named, versioned prompt templates. Every update adds
+ * an immutable version; render() returns the prompt text for sendPrompt
+ * together with the template reference to pass as PromptOptions.template,
+ * which records the template id and version in the conversation metadata.
+ *
+ * Storage: S5-backed (the user's own space) with in-memory caching.
+ * Sharing: grants through PermissionManager (resource type 'prompt_template');
+ * readers can get and render, writers can add versions, admins can also
+ * share and delete.
+ */
+export class PromptTemplateManager {
+  private templates: Map<string, PromptTemplate> = new Map();
+  private storage: PromptTemplateStorage | null;
+  private permissionManager: PermissionManager | null;
+  private templateLock = new AsyncMutex();
+
+  constructor(storage?: PromptTemplateStorage, permissionManager?: PermissionManager) {
+    this.storage = storage || null;
+    this.permissionManager = permissionManager || null;
+  }
+
+  /**
+   * Create a template with its first version
+   *
+   * @throws SDKError INVALID_TEMPLATE listing every problem found
+   */
+  async createTemplate(input: CreatePromptTemplateInput): Promise<PromptTemplate> {
+    if (!input.name || input.name.trim() === '') {
+      throw new SDKError('name is required', 'INVALID_TEMPLATE', { errors: ['name is required'] });
+    }
+    if (!input.owner || input.owner.trim() === '') {
+      throw new SDKError('owner is required', 'INVALID_TEMPLATE', { errors: ['owner is required'] });
+    }
+
+    const now = Date.now();
+    const version = this.buildVersion(1, {
+      system: input.system,
+      body: input.body,
+      variables: input.variables ?? [],
+      partials: input.partials,
+      fewShot: input.fewShot,
+    }, now);
+
+    const template: PromptTemplate = {
+      id: this.generateId(),
+      name: input.name,
+      description: input.description,
+      owner: input.owner,
+      versions: [version],
+      tags: input.tags,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.persist(template);
+    return template;
+  }
+
+  /**
+   * List the templates owned by a user
+   */
+  async listTemplates(owner: string): Promise<PromptTemplate[]> {
+    if (this.storage) {
+      const stored = await this.storage.loadAll();
+      for (const template of stored) {
+        await this.cache(template);
+      }
+    }
+    return Array.from(this.templates.values()).filter(template => template.owner === owner);
+  }
+
+  /**
+   * Get a template (all versions) the requestor owns or has been granted access to
+   *
+   * @throws SDKError TEMPLATE_NOT_FOUND or PERMISSION_DENIED
+   */
+  async getTemplate(templateId: string, requestor: string): Promise<PromptTemplate> {
+    const template = await this.load(templateId);
+    await this.assertAccess(template, requestor, PermissionLevel.READER);
+    return template;
+  }
+
+  /**
+   * Add a new version; omitted fields are carried over from the latest version
+   *
+   * @throws SDKError INVALID_TEMPLATE, TEMPLATE_NOT_FOUND or PERMISSION_DENIED
+   */
+  async updateTemplate(
+    templateId: string,
+    requestor: string,
+    input: UpdatePromptTemplateInput
+  ): Promise<PromptTemplate> {
+    return this.templateLock.withLock(templateId, async () => {
+      const template = await this.load(templateId);
+      await this.assertAccess(template, requestor, PermissionLevel.WRITER);
+
+      const latest = template.versions[template.versions.length - 1];
+      const now = Date.now();
+      const version = this.buildVersion(latest.version + 1, {
+        system: input.system ?? latest.system,
+        body: input.body ?? latest.body,
+        variables: input.variables ?? latest.variables,
+        partials: input.partials ?? latest.partials,
+        fewShot: input.fewShot ?? latest.fewShot,
+      }, now);
+      version.changelog = input.changelog;
+
+      const updated: PromptTemplate = { ...template, versions: [...template.versions, version], updatedAt: now };
+      await this.persist(updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Delete a template and all of its versions
+   *
+   * @throws SDKError TEMPLATE_NOT_FOUND or PERMISSION_DENIED
+   */
+  async deleteTemplate(templateId: string, requestor: string): Promise<void> {
+    await this.templateLock.withLock(templateId, async () => {
+      const template = await this.load(templateId);
+      await this.assertAccess(template, requestor, PermissionLevel.ADMIN);
+
+      if (this.storage) {
+        await this.storage.delete(templateId);
+      }
+      this.templates.delete(templateId);
+    });
+  }
+
+  /**
+   * Render a template version (default: latest) for sendPrompt. {{> partials}}
+   * the version does not define resolve to the latest version of the owner's
+   * template with that name.
+   *
+   * @throws SDKError INVALID_TEMPLATE_VALUES, INVALID_TEMPLATE, TEMPLATE_NOT_FOUND or PERMISSION_DENIED
+   */
+  async render(
+    templateId: string,
+    requestor: string,
+    values: TemplateValues = {},
+    options: { version?: number } = {}
+  ): Promise<RenderedPrompt> {
+    const template = await this.getTemplate(templateId, requestor);
+    const version = this.getVersion(template, options.version);
+
+    const libraryPartials = this.needsLibraryPartials(version)
+      ? await this.libraryPartials(template.owner)
+      : new Map<string, string>();
+
+    return {
+      prompt: renderTemplate(version, values, name => libraryPartials.get(name)),
+      template: { templateId: template.id, version: version.version, values },
+    };
+  }
+
+  /**
+   * Share a template with another address
+   *
+   * @throws SDKError TEMPLATE_NOT_FOUND, PERMISSION_DENIED or SHARING_NOT_AVAILABLE
+   */
+  async shareTemplate(
+    templateId: string,
+    requestor: string,
+    grantee: string,
+    level: PermissionLevel
+  ): Promise<Permission> {
+    const permissionManager = this.requirePermissionManager();
+    const template = await this.load(templateId);
+    await this.assertAccess(template, requestor, PermissionLevel.ADMIN);
+    return permissionManager.grantPermission(templateId, 'prompt_template', requestor, grantee, level);
+  }
+
+  /**
+   * Revoke a grant made with shareTemplate
+   *
+   * @throws SDKError TEMPLATE_NOT_FOUND, PERMISSION_DENIED or SHARING_NOT_AVAILABLE
+   */
+  async unshareTemplate(templateId: string, requestor: string, grantee: string): Promise<void> {
+    const permissionManager = this.requirePermissionManager();
+    const template = await this.load(templateId);
+    if (template.owner !== requestor) {
+      throw new SDKError('Only the template owner can revoke access', 'PERMISSION_DENIED', { templateId });
+    }
+    await permissionManager.revokePermission(templateId, requestor, grantee);
+  }
+
+  private buildVersion(version: number, content: TemplateContent, createdAt: number): PromptTemplateVersion {
+    const errors = validateTemplateContent(content);
+    if (errors.length > 0) {
+      throw new SDKError(`Invalid template: ${errors.join('; ')}`, 'INVALID_TEMPLATE', { errors });
+    }
+    return { version, ...content, createdAt };
+  }
+
+  private getVersion(template: PromptTemplate, version?: number): PromptTemplateVersion {
+    if (version === undefined) {
+      return template.versions[template.versions.length - 1];
+    }
+    const found = template.versions.find(v => v.version === version);
+    if (!found) {
+      throw new SDKError(
+        `Template ${template.id} has no version ${version}`,
+        'TEMPLATE_NOT_FOUND',
+        { templateId: template.id, version }
+      );
+    }
+    return found;
+  }
+
+  private needsLibraryPartials(version: PromptTemplateVersion): boolean {
+    const texts = [
+      version.system ?? '',
+      version.body,
+      ...Object.values(version.partials ?? {}),
+      ...(version.fewShot ?? []).flatMap(example => [example.input, example.output]),
+    ];
+    return texts.some(text => extractPlaceholders(text).partials.some(name => version.partials?.[name] === undefined));
+  }
+
+  private async libraryPartials(owner: string): Promise<Map<string, string>> {
+    const partials = new Map<string, string>();
+    const templates = (await this.listTemplates(owner)).sort((a, b) => a.updatedAt - b.updatedAt);
+    for (const template of templates) {
+      partials.set(template.name, template.versions[template.versions.length - 1].body);
+    }
+    return partials;
+  }
+
+  private async assertAccess(template: PromptTemplate, requestor: string, required: PermissionLevel): Promise<void> {
+    if (template.owner === requestor) {
+      return;
+    }
+    const level = this.permissionManager
+      ? await this.permissionManager.checkPermission(template.id, requestor)
+      : null;
+    if (!level || ACCESS_RANK[level] < ACCESS_RANK[required]) {
+      throw new SDKError(
+        `Permission denied: ${required} access to template ${template.id} required`,
+        'PERMISSION_DENIED',
+        { templateId: template.id, required, granted: level }
+      );
+    }
+  }
+
+  private requirePermissionManager(): PermissionManager {
+    if (!this.permissionManager) {
+      throw new SDKError('Template sharing requires a PermissionManager', 'SHARING_NOT_AVAILABLE');
+    }
+    return this.permissionManager;
+  }
+
+  private async load(templateId: string): Promise<PromptTemplate> {
+    if (!templateId || templateId.trim() === '') {
+      throw new SDKError('Invalid template ID', 'TEMPLATE_NOT_FOUND', { templateId });
+    }
+    let template = this.templates.get(templateId) ?? null;
+    if (!template && this.storage) {
+      template = await this.storage.load(templateId);
+      if (template) {
+        await this.cache(template);
+      }
+    }
+    if (!template) {
+      throw new SDKError(`Prompt template ${templateId} not found`, 'TEMPLATE_NOT_FOUND', { templateId });
+    }
+    return template;
+  }
+
+  private async persist(template: PromptTemplate): Promise<void> {
+    if (this.storage) {
+      await this.storage.save(template);
+    }
+    await this.cache(template);
+  }
+
+  private async cache(template: PromptTemplate): Promise<void> {
+    this.templates.set(template.id, template);
+    await this.permissionManager?.setResourceOwner(template.id, template.owner);
+  }
+
+  private generateId(): string {
+    return `tpl-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  }
+}
@@ -12,6 +12,7 @@ import type {
 } from '../types/session-groups.types';
 import { SessionGroupStorage } from '../storage/SessionGroupStorage';
 import { AsyncMutex } from '../utils/AsyncMutex';
+import { createMessageId, getActiveBranch, withMessageIds } from '../conversation/conversation-tree';
 
 /**
  * Session Group Manager
@@ -696,6 +697,9 @@ export class SessionGroupManager implements ISessionGroupManager {
    *
    * NOTE: This is a minimal implementation for UI testing compatibility.
    * Persists the updated session to S5 storage.
+   *
+   * The message replies to the end of the active branch unless it carries
+   * its own id/parentId, and becomes the new end of the active branch.
    */
   async addMessage(
     groupId: string,
@@ -710,42 +714,96 @@ export class SessionGroupManager implements ISessionGroupManager {
 
     // Lock covers mutation + save to prevent concurrent overwrites
     await this.groupLock.withLock(groupId, async () => {
-      // Add message to session
-      session.messages.push(message);
-      session.updated = Date.now();
+      // Add message to session, on the active branch
+      const activeBranch = getActiveBranch(session.messages, session.metadata.activeMessageId);
+      const parentId = activeBranch.length > 0 ? activeBranch[activeBranch.length - 1].id : null;
+      const branched: ChatMessage = {
+        ...message,
+        id: message.id ?? createMessageId(),
+        parentId: message.parentId !== undefined ? message.parentId : parentId
+      };
+      session.messages.push(branched);
+      session.metadata = { ...session.metadata, activeMessageId: branched.id };
+      await this.persistChatSession(groupId, session, 'addMessage');
+    });
+  }
 
-      // Update memory cache
-      this.chatStorage.set(sessionId, session);
+  /**
+   * Switch a chat session to another branch
+   *
+   * Moves the active-branch cursor to messageId, so the next message added
+   * replies to it. Pass the parent of a message to edit that message, or
+   * null to start over from the first message.
+   *
+   * @throws {Error} If the session or message is not found
+   */
+  async setActiveMessage(
+    groupId: string,
+    sessionId: string,
+    messageId: string | null
+  ): Promise<void> {
+    const session = await this.getChatSession(groupId, sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found in group ${groupId}`);
+    }
+    if (messageId !== null && !withMessageIds(session.messages).some(m => m.id === messageId)) {
+      throw new Error(`Message ${messageId} not found in session ${sessionId}`);
+    }
 
-      // Get group and update chatSessionsData
-      const group = this.groups.get(groupId);
-      if (group) {
-        // Initialize chatSessionsData if not exists
-        if (!group.chatSessionsData) {
-          group.chatSessionsData = {};
-        }
+    await this.groupLock.withLock(groupId, async () => {
+      session.metadata = { ...session.metadata, activeMessageId: messageId };
+      await this.persistChatSession(groupId, session, 'setActiveMessage');
+    });
+  }
 
-        // Update session data in group
-        group.chatSessionsData[sessionId] = session;
-        group.updatedAt = new Date();
+  /**
+   * Get the messages of a chat session's active branch, first to last
+   */
+  async getActiveMessages(groupId: string, sessionId: string): Promise<ChatMessage[]> {
+    const session = await this.getChatSession(groupId, sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found in group ${groupId}`);
+    }
+    return getActiveBranch(session.messages, session.metadata.activeMessageId);
+  }
 
-        // Update in-memory cache
-        this.groups.set(groupId, group);
-
-        // Persist to S5
-        if (this.storage) {
-          try {
-            await this.storage.save(group);
-            console.log(`[SessionGroupManager.addMessage] ✅ Saved message to S5 for session ${sessionId}`);
-          } catch (error) {
-            console.error(`[SessionGroupManager.addMessage] ❌ Failed to save to S5:`, error);
-            // Don't throw - message is already in memory, S5 is best-effort
-          }
-        } else {
-          console.warn('[SessionGroupManager.addMessage] ⚠️  S5 storage not available, message only in memory');
+  /**
+   * Save a mutated chat session to the caches and S5 (caller holds the group lock)
+   */
+  private async persistChatSession(groupId: string, session: ChatSession, caller: string): Promise<void> {
+    session.updated = Date.now();
+
+    // Update memory cache
+    this.chatStorage.set(session.sessionId, session);
+
+    // Get group and update chatSessionsData
+    const group = this.groups.get(groupId);
+    if (group) {
+      // Initialize chatSessionsData if not exists
+      if (!group.chatSessionsData) {
+        group.chatSessionsData = {};
+      }
+
+      // Update session data in group
+      group.chatSessionsData[session.sessionId] = session;
+      group.updatedAt = new Date();
+
+      // Update in-memory cache
+      this.groups.set(groupId, group);
+
+      // Persist to S5
+      if (this.storage) {
+        try {
+          await this.storage.save(group);
+          console.log(`[SessionGroupManager.${caller}] ✅ Saved to S5 for session ${session.sessionId}`);
+        } catch (error) {
+          console.error(`[SessionGroupManager.${caller}] ❌ Failed to save to S5:`, error);
+          // Don't throw - change is already in memory, S5 is best-effort
         }
+      } else {
+        console.warn(`[SessionGroupManager.${caller}] ⚠️  S5 storage not available, change only in memory`);
       }
-    });
+    }
   }
 
   /**
@@ -31,7 +31,14 @@ import {
   TokenUsageInfo,
   ContextInfo,
   HostHealthInfo,
-  SessionStatusInfo
+  SessionStatusInfo,
+  ToolDefinition,
+  ToolCall,
+  ToolResult,
+  ToolHandler,
+  ToolDialectName,
+  ResponseFormat,
+  Message
 } from '../types';
 import { validateImageAttachments } from '../utils/image-validation';
 import { HostSelectionMode } from '../types/settings.types';
@@ -45,6 +52,8 @@ import { UnsupportedChainError } from '../errors/ChainErrors';
 import { PricingValidationError } from '../errors/pricing-errors';
 import { WebSearchError } from '../errors/web-search-errors';
 import { ContextLimitError } from '../errors/context-errors';
+import { StructuredOutputError } from '../errors/structured-output-errors';
+import { BudgetExceededError } from '../errors/budget-errors';
 import { bytesToHex } from '../crypto/utilities';
 import { analyzePromptForSearchIntent } from '../utils/search-intent-analyzer';
 import { resolveSearchQueries } from '../utils/search-query-resolver';
@@ -54,6 +63,42 @@ import { recoverFromBlockchain, type BlockchainRecoveredConversation, type Check
 import JobMarketplaceABI from '../contracts/abis/JobMarketplaceWithModelsUpgradeable-CLIENT-ABI.json';
 import type { SearchApiResponse, WebSearchStarted, WebSearchResults, WebSearchError as WebSearchErrorMsg } from '../types/web-search.types';
 import { RAGSessionConfig, RAGMetrics, validateRAGConfig, mergeRAGConfig } from '../session/rag-config';
+import { BM25Index } from '../rag/bm25-index';
+import type { SerializedBM25Index } from '../rag/bm25-index';
+import { reciprocalRankFusion } from '../rag/rank-fusion';
+import { mergeHybridSearchConfig } from '../rag/search-config';
+import { tokenizerRegistry } from '../tokenizers/tokenizer-registry';
+import { ToolCallParser, ToolParserEvent } from '../tools/tool-call-parser';
+import { buildToolPrompt, createToolCallId } from '../tools/tool-prompt';
+import { toolDialectRegistry, ToolDialect } from '../tools/tool-dialects';
+import {
+  buildStructuredOutputPrompt,
+  buildRepairPrompt,
+  parseStructuredOutput,
+  toResponseFormatPayload
+} from '../structured/structured-output';
+import { getStructuredOutputCapabilitiesFromHost } from '../utils/host-structured-output-capabilities';
+import type { StructuredOutputCapabilities } from '../types/structured-output.types';
+import { getSamplingCapabilitiesFromHost } from '../utils/host-sampling-capabilities';
+import { getSamplingParameters, validateSamplingOptions, assertSamplingSupported, toSamplingPayload } from '../utils/sampling-validation';
+import type { SamplingCapabilities, SamplingOptions } from '../types/sampling.types';
+import type { FailoverPolicy } from '../types/failover.types';
+import type { CompactionPolicy, CompactionInfo } from '../types/compaction.types';
+import {
+  DEFAULT_COMPACTION_THRESHOLD,
+  DEFAULT_KEEP_RECENT_TURNS,
+  DEFAULT_SUMMARY_MAX_TOKENS,
+  buildCompactedPrompt,
+  buildSummaryPrompt,
+  countCompactableMessages,
+  formatTranscript
+} from '../conversation/context-compaction';
+import type { HedgedSessions } from '../types/hedge.types';
+import type { PromptCostEstimate } from '../types/budget.types';
+import type { ConversationNode, ConversationTree, MessageSiblings } from '../types/conversation-tree.types';
+import type { PromptTemplateRef } from '../types/prompt-templates.types';
+import { createMessageId, withMessageIds, getBranchPath, getChildMessages, getLatestLeaf } from '../conversation/conversation-tree';
+import type { HybridSearchConfig, MetadataFilter, RetrievalMode } from '../rag/types';
 import type { ImageGenerationOptions, ImageGenerationResult } from '../types/image-generation.types';
 import { ImageGenerationError } from '../errors/image-generation-errors';
 import { ImageGenerationRateLimiter } from '../utils/image-generation-rate-limiter';
@@ -152,6 +197,85 @@ export interface SessionState {
   ragConfig?: RAGSessionConfig; // RAG configuration from startSession
   ragMetrics?: RAGMetrics; // RAG metrics tracking
   lastHostHealth?: HostHealthInfo; // Last host health check result (Phase 14.2)
+  tools?: ToolDefinition[]; // Tools of the last prompt that used them (reused by submitToolResults)
+  pendingToolCalls?: ToolCall[]; // Tool calls awaiting submitToolResults()
+  toolDialect?: ToolDialectName; // Explicit tool dialect of the last prompt that used tools
+  structuredOutput?: StructuredOutputCapabilities; // Host support for response_format (probed on first structured prompt)
+  sampling?: SamplingCapabilities; // Host support for optional sampling parameters (cached after the first successful probe)
+  pricePerToken?: number; // Price the session job was created with
+  failover?: FailoverState; // Set when started with a failover policy
+  failedOverTo?: bigint; // Session that took over this conversation after its host failed
+  carriedContext?: Message[]; // Conversation sent with the next prompt: the failed session's after failover, or a regenerated prompt's branch
+  conversation?: ConversationState; // Branching message tree, built from prompts/responses on first use
+  compaction?: CompactionState; // Set when started with a compaction policy
+  modelId?: string; // Model as given to startSession (bytes32 or repo:file), for price lookups
+  paymentToken?: string; // Payment token of the session job (undefined: native)
+  spent?: bigint; // Cost of the tokens billed so far
+  budget?: BudgetState; // Set when started with maxSpend
+}
+
+/**
+ * Spend cap of a session
+ */
+interface BudgetState {
+  maxSpend: bigint;
+  limitedTo?: number; // maxTokens of the current prompt when lowered to fit the cap
+}
+
+/**
+ * Rolling summary of the active branch and what it replaces
+ */
+interface CompactionState {
+  policy: CompactionPolicy;
+  summary?: string;
+  throughMessageId?: string; // Last message the summary covers
+  compactedMessages: number;
+  compactedTokens: number;
+  summaryTokens: number;
+  compactions: number;
+  lastCompactedAt?: number;
+}
+
+/**
+ * A session's message tree and active-branch cursor
+ */
+interface ConversationState extends ConversationTree {
+  regenerateFrom?: string; // Prompt message whose new response is being generated
+}
+
+/**
+ * Failover bookkeeping, carried from session to session along a conversation
+ */
+interface FailoverState {
+  policy: FailoverPolicy;
+  config: ExtendedSessionConfig;
+  failovers: number;
+  excludedHosts: string[];
+}
+
+/**
+ * WebSocket connection state for one session stream. The manager keeps one
+ * lane for its prompts; a prompt sent while another streams, and each hedged
+ * leg, opens an extra lane.
+ */
+class ConnectionLane {
+  wsClient?: WebSocketClient;
+  wsSessionId?: string; // Track which session owns the WebSocket
+  sessionKey?: Uint8Array; // Session key for Phase 4.2
+  messageIndex = 0; // For Phase 4.2 replay protection
+  ragHandlerUnsubscribe?: () => void; // Prevents duplicate RAG handlers
+  searchHandlerUnsubscribe?: () => void;
+  sessionStatusUnsubscribe?: () => void;
+  streaming = false; // A prompt is streaming on this lane
+
+  async close(): Promise<void> {
+    this.ragHandlerUnsubscribe?.();
+    this.searchHandlerUnsubscribe?.();
+    this.sessionStatusUnsubscribe?.();
+    try {
+      await this.wsClient?.disconnect();
+    } catch (_) { /* ignore disconnect errors */ }
+  }
 }
 
 // Extended SessionConfig with chainId
@@ -171,6 +295,9 @@ export interface ExtendedSessionConfig extends SessionConfig {
     userAddress: string; // Owner address for verification
   };
   webSearch?: SearchIntentConfig; // NEW: Web search configuration (Phase 2.2)
+  failover?: FailoverPolicy; // Move the conversation to another host when this one fails
+  compaction?: CompactionPolicy; // Send the conversation with each prompt, summarising older turns as the context fills
+  maxSpend?: bigint; // Spend cap in payment token units; generation stops and BudgetExceededError is thrown at the cap
 }
 
 /**
@@ -239,20 +366,31 @@ export class SessionManager implements ISessionManager {
   private sessionGroupManager?: any; // NEW: Session Groups integration (SessionGroupManager)
   private hostSelectionService?: IHostSelectionService; // NEW: Host selection (Phase 5.1)
   private endpointTransform?: (url: string) => string; // NEW: Transform discovered host URLs (e.g. Docker localhost rewrite)
-  private wsClient?: WebSocketClient;
-  private wsSessionId?: string; // Track which session owns the WebSocket
+  private connection = new ConnectionLane();
   private sessions: Map<string, SessionState> = new Map();
   private initialized = false;
-  private sessionKey?: Uint8Array; // NEW: Store session key for Phase 4.2
-  private messageIndex: number = 0; // NEW: For Phase 4.2 replay protection
   private imageGenRateLimiter = new ImageGenerationRateLimiter();
   private pendingRequests: Map<string, { resolve: (value: any) => void; reject: (error: any) => void; timeoutId: NodeJS.Timeout }> = new Map(); // Host-side RAG request tracking
-  private ragHandlerUnsubscribe?: () => void; // NEW: Store RAG handler unsubscribe function to prevent duplicate handlers
+  private keywordIndexes: Map<string, { index: BM25Index; vectors: Map<string, Vector> }> = new Map(); // Client-side BM25 over uploaded chunk text, for hybrid askWithContext (saved with the conversation)
   // Web Search (Phase 5.2-5.3): Pending search tracking and handler cleanup
   private pendingSearches: Map<string, { resolve: (result: SearchApiResponse) => void; reject: (error: Error) => void; timeoutId: NodeJS.Timeout }> = new Map();
-  private searchHandlerUnsubscribe?: () => void;
   private sessionStatusCallback?: (status: SessionStatusInfo) => void;
-  private sessionStatusUnsubscribe?: () => void;
+
+  // Connection state of the default lane
+  private get wsClient() { return this.connection.wsClient; }
+  private set wsClient(value) { this.connection.wsClient = value; }
+  private get wsSessionId() { return this.connection.wsSessionId; }
+  private set wsSessionId(value) { this.connection.wsSessionId = value; }
+  private get sessionKey() { return this.connection.sessionKey; }
+  private set sessionKey(value) { this.connection.sessionKey = value; }
+  private get messageIndex() { return this.connection.messageIndex; }
+  private set messageIndex(value) { this.connection.messageIndex = value; }
+  private get ragHandlerUnsubscribe() { return this.connection.ragHandlerUnsubscribe; }
+  private set ragHandlerUnsubscribe(value) { this.connection.ragHandlerUnsubscribe = value; }
+  private get searchHandlerUnsubscribe() { return this.connection.searchHandlerUnsubscribe; }
+  private set searchHandlerUnsubscribe(value) { this.connection.searchHandlerUnsubscribe = value; }
+  private get sessionStatusUnsubscribe() { return this.connection.sessionStatusUnsubscribe; }
+  private set sessionStatusUnsubscribe(value) { this.connection.sessionStatusUnsubscribe = value; }
 
   constructor(
     paymentManager: PaymentManager,
@@ -352,6 +490,10 @@ export class SessionManager implements ISessionManager {
       throw new UnsupportedChainError(config.chainId, ChainRegistry.getSupportedChains());
     }
 
+    if (config.maxSpend !== undefined && (typeof config.maxSpend !== 'bigint' || config.maxSpend <= 0n)) {
+      throw new SDKError('maxSpend must be a positive bigint', 'INVALID_MAX_SPEND', { maxSpend: config.maxSpend });
+    }
+
     // Extract parameters for backward compatibility
     const model = config.modelId || config.model;
     let provider = config.host || config.provider;
@@ -522,6 +664,7 @@ export class SessionManager implements ISessionManager {
         checkpoints: [],
         totalTokens: 0,
         startTime: Date.now(),
+        pricePerToken: validatedPrice,
         encryption: enableEncryption,  // NEW (Phase 6.2): Store encryption preference
         groupId: config.groupId,  // NEW: Session Groups integration
         webSearch: config.webSearch,  // NEW (Phase 5.1): Web search configuration
@@ -535,7 +678,17 @@ export class SessionManager implements ISessionManager {
           averageLatencyMs: 0,
           emptyRetrievals: 0,
           totalContextTokens: 0
-        } : undefined
+        } : undefined,
+        failover: config.failover
+          ? { policy: config.failover, config: { ...config, modelId: model }, failovers: 0, excludedHosts: [] }
+          : undefined,
+        compaction: config.compaction
+          ? { policy: config.compaction, compactedMessages: 0, compactedTokens: 0, summaryTokens: 0, compactions: 0 }
+          : undefined,
+        modelId: model,
+        paymentToken: config.paymentToken,
+        spent: 0n,
+        budget: config.maxSpend !== undefined ? { maxSpend: config.maxSpend } : undefined
       };
 
       // Store in memory
@@ -837,11 +990,51 @@ export class SessionManager implements ISessionManager {
 
   /**
    * Send prompt in session with chain awareness
+   *
+   * With options.responseFormat, resolves with the parsed JSON value instead
+   * of text (see _sendStructured).
    */
+  sendPrompt<T = unknown>(
+    sessionId: bigint,
+    prompt: string,
+    options: PromptOptions & { responseFormat: ResponseFormat }
+  ): Promise<T>;
+  sendPrompt(
+    sessionId: bigint,
+    prompt: string,
+    options?: PromptOptions
+  ): Promise<string>;
   async sendPrompt(
     sessionId: bigint,
     prompt: string,
     options?: PromptOptions
+  ): Promise<unknown> {
+    if (options?.responseFormat) {
+      return this._sendStructured(sessionId, prompt, options, (text) => this._sendPrompt(sessionId, text, options));
+    }
+    return this._sendPrompt(sessionId, prompt, options);
+  }
+
+  /**
+   * Send prompt over the host REST API, failing over to another host if enabled
+   */
+  private async _sendPrompt(
+    sessionId: bigint,
+    prompt: string,
+    options?: PromptOptions
+  ): Promise<string> {
+    const response = await this._withFailover(sessionId, (id) => this._sendPromptToHost(id, prompt, options));
+    this._checkBudgetAfterPrompt(sessionId, response);
+    return response;
+  }
+
+  /**
+   * Send prompt over the REST API of the session host
+   */
+  private async _sendPromptToHost(
+    sessionId: bigint,
+    prompt: string,
+    options?: PromptOptions
   ): Promise<string> {
     if (!this.initialized) {
       throw new SDKError('SessionManager not initialized', 'SESSION_NOT_INITIALIZED');
@@ -856,82 +1049,39 @@ export class SessionManager implements ISessionManager {
       throw new SDKError(`Session is ${session.status}`, 'SESSION_NOT_ACTIVE');
     }
 
+    await this._checkSampling(session, options);
+    options = this._applyBudget(session, options);
+
     try {
-      // Inject RAG context if enabled
-      const augmentedPrompt = await this.injectRAGContext(sessionId.toString(), prompt);
+      // Inject RAG context if enabled, then output format instructions
+      const structured = this._applyResponseFormat(
+        session,
+        await this.injectRAGContext(sessionId.toString(), await this._withConversationContext(session, prompt)),
+        options
+      );
+      const augmentedPrompt = structured.prompt;
+      await this._preflightContextWarning(session, augmentedPrompt, options);
 
       // Add original prompt to session (not augmented)
       session.prompts.push(prompt);
 
-      // Use REST API instead of WebSocket (as per node implementation)
-      const endpoint = session.endpoint || 'http://localhost:8080';
-      const httpUrl = endpoint.replace('ws://', 'http://').replace('wss://', 'https://').replace('/ws', '');
-
       // Call REST API for inference with augmented prompt
-      const inferenceUrl = `${httpUrl}/v1/inference`;
-      const requestBody = {
-        model: session.model,
-        prompt: augmentedPrompt,  // Use RAG-augmented prompt
-        max_tokens: options?.maxTokens ?? LLM_MAX_TOKENS,  // Allow longer responses for poems, stories, etc.
-        temperature: options?.temperature ?? 0.7,  // Add temperature for better responses
-        sessionId: sessionId.toString(),
-        jobId: session.jobId.toString()
-      };
-      
-      
-      let fetchResponse;
-      try {
-        fetchResponse = await fetch(inferenceUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify(requestBody)
-        });
-      } catch (fetchError: any) {
-        console.error('Fetch error:', fetchError);
-        throw new Error(`Network error calling inference API: ${fetchError.message}`);
-      }
-      
-      if (!fetchResponse.ok) {
-        const errorText = await fetchResponse.text();
-        throw new Error(`Inference failed: ${fetchResponse.status} - ${errorText}`);
-      }
-      
-      const result = await fetchResponse.json();
-      
-      // Try different possible response fields
-      let response = result.response || result.text || result.content || result.generated_text;
-      
-      if (!response) {
-        console.error('Unexpected response format:', result);
-        throw new Error('No response received from inference endpoint. Response: ' + JSON.stringify(result));
-      }
-
-      // Clean up repetitive responses (common issue with small models)
-      response = this.cleanupRepetitiveText(response);
+      const response = await this._restInference(session, augmentedPrompt, options, structured.responseFormat);
+      await this._recordRestSpend(session, response);
 
       // Add response to session
       session.responses.push(response);
 
       // Update storage
-      await this.storageManager.appendMessage(
-        sessionId.toString(),
-        {
-          role: 'user',
-          content: prompt,
-          timestamp: Date.now()
-        }
-      );
-
-      await this.storageManager.appendMessage(
-        sessionId.toString(),
-        {
-          role: 'assistant',
-          content: response,
-          timestamp: Date.now()
-        }
+      const turn = this._recordTurn(
+        session,
+        { role: 'user', content: prompt, timestamp: Date.now() },
+        { role: 'assistant', content: response, timestamp: Date.now() },
+        options?.template
       );
+      for (const message of turn) {
+        await this.storageManager.appendMessage(sessionId.toString(), message);
+      }
 
       // Store in conversation memory if enabled
       const conversationMemory = this.conversationMemories?.get(sessionId.toString());
@@ -955,116 +1105,624 @@ export class SessionManager implements ISessionManager {
   }
 
   /**
-   * Send prompt with WebSocket streaming support
+   * Send a one-off prompt to the session host outside the conversation
+   *
+   * The prompt goes to the host as is: no conversation context, RAG context
+   * or tool instructions are added, and neither the prompt nor the response
+   * is recorded in the session history, storage or conversation memory.
+   * The host still bills the generated tokens, which count against the
+   * session spend cap. Used for auxiliary requests such as reranking.
+   *
+   * @throws SDKError SESSION_NOT_FOUND, SESSION_NOT_ACTIVE or PROMPT_SEND_ERROR
+   * @throws BudgetExceededError when the session spend cap is used up
    */
-  async sendPromptStreaming(
+  async sendSidePrompt(
     sessionId: bigint,
     prompt: string,
-    onToken?: (token: string) => void,
     options?: PromptOptions
   ): Promise<string> {
     if (!this.initialized) {
       throw new SDKError('SessionManager not initialized', 'SESSION_NOT_INITIALIZED');
     }
 
-    const sessionIdStr = sessionId.toString();
-    let session = this.sessions.get(sessionIdStr);
-
-    // If session not in memory, try to load from storage (handles SessionManager recreation)
-    if (!session && this.storageManager) {
-      try {
-        const conversation = await this.storageManager.loadConversation(sessionIdStr);
-        if (conversation && conversation.metadata) {
-          // Reconstruct minimal session state from storage
-          session = {
-            sessionId: sessionId,
-            jobId: BigInt(conversation.metadata.jobId || sessionId),
-            chainId: conversation.metadata.chainId || 84532,
-            model: conversation.metadata.model || '',
-            provider: conversation.metadata.provider || '',
-            endpoint: conversation.metadata.endpoint,
-            status: (conversation.metadata.status as any) || 'active',
-            prompts: [],
-            responses: [],
-            checkpoints: [],
-            totalTokens: conversation.metadata.totalTokens || 0,
-            startTime: conversation.metadata.startTime || conversation.createdAt,
-            encryption: conversation.metadata.encryption !== false  // NEW (Phase 6.2): Restore encryption preference
-          } as SessionState;
-
-          // Add to memory for subsequent calls
-          this.sessions.set(sessionIdStr, session);
-        }
-      } catch (err) {
-        console.warn(`Could not load session ${sessionIdStr} from storage:`, err);
-      }
-    }
-
-    // If still no session after trying storage, throw error
+    const session = this.sessions.get(this._resolveSessionId(sessionId).toString());
     if (!session) {
-      throw new SDKError('Session not found in memory or storage', 'SESSION_NOT_FOUND');
+      throw new SDKError('Session not found', 'SESSION_NOT_FOUND');
     }
-
     if (session.status !== 'active') {
       throw new SDKError(`Session is ${session.status}`, 'SESSION_NOT_ACTIVE');
     }
 
-    // Auto-detect image generation intent (like search intent auto-detection)
-    const imageIntent = analyzePromptForImageIntent(prompt);
-    if (imageIntent.isImageIntent) {
-      console.warn(`[SDK:sendPromptStreaming] Image intent detected, routing to generateImage()`);
-      try {
-        const imgResult = await this.generateImage(
-          sessionIdStr,
-          imageIntent.cleanPrompt || prompt,
-          imageIntent.extractedOptions
-        );
-        if (options?.onImageGenerated) {
-          options.onImageGenerated(imgResult);
-        }
-        return `Image generated successfully`;
-      } catch (imgErr) {
-        console.warn(`[SDK:sendPromptStreaming] Image generation failed, falling back to LLM:`, imgErr);
-      }
-    }
+    await this._checkSampling(session, options);
+    options = this._applyBudget(session, options);
 
     try {
-      // Inject RAG context if enabled
-      const augmentedPrompt = await this.injectRAGContext(sessionIdStr, prompt);
+      const response = await this._restInference(session, prompt, options);
+      await this._recordRestSpend(session, response);
+      return response;
+    } catch (error: any) {
+      throw new SDKError(
+        `Failed to send prompt: ${error.message}`,
+        'PROMPT_SEND_ERROR',
+        { originalError: error }
+      );
+    }
+  }
 
-      // Add original prompt to session (not augmented)
-      session.prompts.push(prompt);
+  /**
+   * Run one inference request over the session host's REST API.
+   * Records nothing: callers add the exchange to the session.
+   */
+  private async _restInference(
+    session: SessionState,
+    prompt: string,
+    options?: PromptOptions,
+    responseFormat?: Record<string, any>
+  ): Promise<string> {
+    // Use REST API instead of WebSocket (as per node implementation)
+    const endpoint = session.endpoint || 'http://localhost:8080';
+    const httpUrl = endpoint.replace('ws://', 'http://').replace('wss://', 'https://').replace('/ws', '');
 
-      // Get WebSocket URL from endpoint
-      const endpoint = session.endpoint || 'http://localhost:8080';
-      const wsUrl = endpoint.includes('ws://') || endpoint.includes('wss://')
-        ? endpoint 
-        : endpoint.replace('http://', 'ws://').replace('https://', 'wss://') + '/v1/ws';
+    const inferenceUrl = `${httpUrl}/v1/inference`;
+    const requestBody = {
+      model: session.model,
+      prompt,
+      max_tokens: options?.maxTokens ?? LLM_MAX_TOKENS,  // Allow longer responses for poems, stories, etc.
+      temperature: options?.temperature ?? 0.7,  // Add temperature for better responses
+      ...toSamplingPayload(options),
+      sessionId: session.sessionId.toString(),
+      jobId: session.jobId.toString(),
+      ...(responseFormat ? { response_format: responseFormat } : {})
+    };
+    
+    
+    let fetchResponse;
+    try {
+      fetchResponse = await fetch(inferenceUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(requestBody)
+      });
+    } catch (fetchError: any) {
+      console.error('Fetch error:', fetchError);
+      throw new Error(`Network error calling inference API: ${fetchError.message}`);
+    }
+    
+    if (!fetchResponse.ok) {
+      const errorText = await fetchResponse.text();
+      throw new Error(`Inference failed: ${fetchResponse.status} - ${errorText}`);
+    }
+    
+    const result = await fetchResponse.json();
+    
+    // Try different possible response fields
+    const response = result.response || result.text || result.content || result.generated_text;
+    
+    if (!response) {
+      console.error('Unexpected response format:', result);
+      throw new Error('No response received from inference endpoint. Response: ' + JSON.stringify(result));
+    }
 
-      // Force new WebSocket if session changed (old connection belongs to previous session)
-      if (this.wsClient && this.wsSessionId && this.wsSessionId !== sessionIdStr) {
-        try { await this.wsClient.disconnect(); } catch (_) { /* ignore */ }
-        this.wsClient = undefined;
-        this.wsSessionId = undefined;
-        this.sessionKey = undefined;
-        this.messageIndex = 0;
-      }
+    // Clean up repetitive responses (common issue with small models)
+    return this.cleanupRepetitiveText(response);
+  }
 
-      // Initialize WebSocket client if not already connected
-      if (!this.wsClient || !this.wsClient.isConnected()) {
-        this.wsClient = new WebSocketClient(wsUrl, { chainId: session.chainId });
-        await this.wsClient.connect();
-        this.wsSessionId = sessionIdStr;
+  /**
+   * Send prompt with WebSocket streaming support
+   *
+   * With options.tools, tool calls are parsed out of the stream and reported
+   * through options.onToolCall; answer them with submitToolResults(). With
+   * options.toolHandlers, calls are executed and answered automatically until
+   * the model replies without calling a tool.
+   *
+   * With options.responseFormat, resolves with the parsed JSON value of the
+   * final response instead of text. onToken then receives the tokens of every
+   * attempt, including repairs.
+   *
+   * @returns Response text (without tool call markup when tools are used)
+   */
+  sendPromptStreaming<T = unknown>(
+    sessionId: bigint,
+    prompt: string,
+    onToken: ((token: string) => void) | undefined,
+    options: PromptOptions & { responseFormat: ResponseFormat }
+  ): Promise<T>;
+  sendPromptStreaming(
+    sessionId: bigint,
+    prompt: string,
+    onToken?: (token: string) => void,
+    options?: PromptOptions
+  ): Promise<string>;
+  async sendPromptStreaming(
+    sessionId: bigint,
+    prompt: string,
+    onToken?: (token: string) => void,
+    options?: PromptOptions
+  ): Promise<unknown> {
+    if (options?.responseFormat) {
+      return this._sendStructured(
+        sessionId,
+        prompt,
+        options,
+        (text) => this._sendPromptStreaming(sessionId, text, onToken, options)
+      );
+    }
+    return this._sendPromptStreaming(sessionId, prompt, onToken, options);
+  }
 
-        // Set up global RAG message handlers
-        this._setupRAGMessageHandlers();
+  /**
+   * Stream a prompt, with a tool turn or tool loop when tools are given
+   */
+  private async _sendPromptStreaming(
+    sessionId: bigint,
+    prompt: string,
+    onToken?: (token: string) => void,
+    options?: PromptOptions
+  ): Promise<string> {
+    if (!options?.tools?.length) {
+      return this._streamPrompt(sessionId, prompt, onToken, options);
+    }
+    if (options.toolHandlers) {
+      return this._runToolLoop(sessionId, prompt, onToken, options);
+    }
+    return this._streamToolTurn(sessionId, prompt, onToken, options);
+  }
 
-        // Set up global web search message handlers (Phase 5.2-5.3)
-        this._setupWebSearchMessageHandlers();
+  /**
+   * Answer the tool calls of the last streamed response and continue the
+   * conversation on the same session
+   *
+   * The pending calls stay pending until the follow-up prompt succeeds, so a
+   * failed submission can be retried.
+   *
+   * @param results - One result per pending tool call
+   * @param options - Prompt options; tools default to those of the previous prompt
+   * @returns Next response text
+   * @throws SDKError NO_PENDING_TOOL_CALLS, INVALID_TOOL_RESULT, or
+   *   INCOMPLETE_TOOL_RESULTS with the unanswered IDs in details.missingToolCallIds
+   */
+  async submitToolResults(
+    sessionId: bigint,
+    results: ToolResult[],
+    onToken?: (token: string) => void,
+    options?: PromptOptions
+  ): Promise<string> {
+    const prompt = this._toolResultsPrompt(sessionId, results, options);
+    const response = await this.sendPromptStreaming(sessionId, prompt.text, onToken, prompt.options);
+    this._clearAnsweredToolCalls(prompt.session, prompt.answered);
+    return response;
+  }
 
-        // Set up global session status handler (Phase 14.3)
-        this._setupSessionStatusHandler();
-      }
+  /**
+   * Follow-up prompt answering the pending tool calls of a session
+   */
+  private _toolResultsPrompt(
+    sessionId: bigint,
+    results: ToolResult[],
+    options?: PromptOptions
+  ): { text: string; options: PromptOptions; session: SessionState; answered: ToolCall[] } {
+    const session = this.sessions.get(this._resolveSessionId(sessionId).toString());
+    if (!session) {
+      throw new SDKError('Session not found', 'SESSION_NOT_FOUND');
+    }
+
+    const pending = session.pendingToolCalls ?? [];
+    if (pending.length === 0) {
+      throw new SDKError('No tool calls are awaiting results', 'NO_PENDING_TOOL_CALLS');
+    }
+    const unknown = results.find(result => !pending.some(call => call.id === result.toolCallId));
+    if (unknown) {
+      throw new SDKError(`Unknown tool call id: ${unknown.toolCallId}`, 'INVALID_TOOL_RESULT');
+    }
+    const missingToolCallIds = pending
+      .filter(call => !results.some(result => result.toolCallId === call.id))
+      .map(call => call.id);
+    if (missingToolCallIds.length > 0) {
+      throw new SDKError(
+        `Missing results for tool calls: ${missingToolCallIds.join(', ')}`,
+        'INCOMPLETE_TOOL_RESULTS',
+        { missingToolCallIds }
+      );
+    }
+
+    const tools = options?.tools ?? session.tools;
+    const toolDialect = options?.toolDialect ?? session.toolDialect;
+    const dialect = this._resolveToolDialect(session, toolDialect);
+    return {
+      text: dialect.formatToolResults(pending, results),
+      options: { ...options, tools, toolDialect },
+      session,
+      answered: pending
+    };
+  }
+
+  /**
+   * Clear answered tool calls once their results were sent, unless a tool
+   * turn in the follow-up already replaced them with its own calls
+   */
+  private _clearAnsweredToolCalls(session: SessionState, answered: ToolCall[]): void {
+    if (session.pendingToolCalls === answered) {
+      session.pendingToolCalls = [];
+    }
+  }
+
+  /**
+   * Tool dialect for a session: explicit name, else detected from the model
+   */
+  private _resolveToolDialect(session: SessionState, toolDialect?: ToolDialectName): ToolDialect {
+    return toolDialectRegistry.resolve(convertModelHashToName(session.model), toolDialect);
+  }
+
+  /**
+   * Stream one turn with tools, separating tool calls from response text
+   */
+  private async _streamToolTurn(
+    sessionId: bigint,
+    prompt: string,
+    onToken: ((token: string) => void) | undefined,
+    options: PromptOptions
+  ): Promise<string> {
+    const session = this.sessions.get(sessionId.toString());
+    const parser = session
+      ? this._resolveToolDialect(session, options.toolDialect).createParser()
+      : new ToolCallParser();
+    const toolCalls: ToolCall[] = [];
+    let text = '';
+    let streamed = false;
+
+    const emit = (events: ToolParserEvent[]) => {
+      for (const event of events) {
+        if (event.type === 'text') {
+          text += event.text;
+          onToken?.(event.text);
+        } else {
+          const call: ToolCall = { id: createToolCallId(), name: event.name, arguments: event.arguments };
+          toolCalls.push(call);
+          options.onToolCall?.(call);
+        }
+      }
+    };
+
+    // Always stream so tool calls can be parsed as they arrive
+    const response = await this._streamPrompt(sessionId, prompt, (token) => {
+      streamed = true;
+      emit(parser.feed(token));
+    }, options);
+    if (!streamed) {
+      emit(parser.feed(response));
+    }
+    emit(parser.flush());
+
+    // Tool state belongs to the session that answered (another host's after a failover)
+    const current = this.sessions.get(this._resolveSessionId(sessionId).toString());
+    if (current) {
+      current.tools = options.tools;
+      current.toolDialect = options.toolDialect;
+      current.pendingToolCalls = toolCalls;
+    }
+    return text;
+  }
+
+  /**
+   * Execute tool calls with options.toolHandlers until the model stops calling tools
+   *
+   * @throws SDKError TOOL_ITERATIONS_EXCEEDED after options.maxToolIterations rounds
+   */
+  private async _runToolLoop(
+    sessionId: bigint,
+    prompt: string,
+    onToken: ((token: string) => void) | undefined,
+    options: PromptOptions
+  ): Promise<string> {
+    const handlers = options.toolHandlers!;
+    const maxIterations = options.maxToolIterations ?? 5;
+    const turnOptions: PromptOptions = { ...options, toolHandlers: undefined };
+
+    let response = await this._streamToolTurn(sessionId, prompt, onToken, turnOptions);
+    for (let iteration = 0; ; iteration++) {
+      const calls = this.sessions.get(sessionId.toString())?.pendingToolCalls ?? [];
+      if (calls.length === 0) {
+        return response;
+      }
+      if (iteration >= maxIterations) {
+        throw new SDKError(
+          `Tool loop stopped after ${maxIterations} iterations`,
+          'TOOL_ITERATIONS_EXCEEDED',
+          { pendingToolCalls: calls }
+        );
+      }
+
+      const results = await Promise.all(calls.map(call => this._executeToolCall(call, handlers)));
+      const next = this._toolResultsPrompt(sessionId, results, turnOptions);
+      response = await this._sendPromptStreaming(sessionId, next.text, onToken, next.options);
+      this._clearAnsweredToolCalls(next.session, next.answered);
+    }
+  }
+
+  /**
+   * Run a tool handler; failures are reported to the model as error results
+   */
+  private async _executeToolCall(call: ToolCall, handlers: Record<string, ToolHandler>): Promise<ToolResult> {
+    const handler = handlers[call.name];
+    if (!handler) {
+      return { toolCallId: call.id, content: `Unknown tool: ${call.name}`, isError: true };
+    }
+    try {
+      return { toolCallId: call.id, content: await handler(call.arguments, call) };
+    } catch (error: any) {
+      return { toolCallId: call.id, content: error?.message ?? String(error), isError: true };
+    }
+  }
+
+  /**
+   * Send a prompt until its response matches options.responseFormat
+   *
+   * The host's support for response_format is probed once per session. Hosts
+   * with support constrain decoding to the schema; for other hosts format
+   * instructions are added to the prompt. Responses are always parsed and
+   * validated, and invalid ones answered with a repair prompt.
+   *
+   * @param send - Sends one prompt on the session and returns the response text
+   * @throws StructuredOutputError after options.maxRepairAttempts invalid repairs
+   */
+  private async _sendStructured(
+    sessionId: bigint,
+    prompt: string,
+    options: PromptOptions,
+    send: (prompt: string) => Promise<string>
+  ): Promise<unknown> {
+    if (options.tools?.length && !options.toolHandlers) {
+      throw new SDKError(
+        'responseFormat with tools requires toolHandlers, so the final response can be validated',
+        'INVALID_PROMPT_OPTIONS'
+      );
+    }
+
+    const session = this.sessions.get(sessionId.toString());
+    if (session && !session.structuredOutput) {
+      const httpUrl = this._hostHttpUrl(session);
+      session.structuredOutput = httpUrl
+        ? await getStructuredOutputCapabilitiesFromHost(httpUrl)
+        : { supportsJsonSchema: false };
+    }
+
+    const format = options.responseFormat!;
+    const maxRepairAttempts = options.maxRepairAttempts ?? 2;
+    let response = await send(prompt);
+    for (let attempt = 1; ; attempt++) {
+      const result = parseStructuredOutput(response, format);
+      if (result.valid) {
+        return result.value;
+      }
+      if (attempt > maxRepairAttempts || options.signal?.aborted) {
+        throw new StructuredOutputError(
+          `Response does not match the requested format after ${attempt} attempt(s): ${result.errors[0]}`,
+          result.errors,
+          response,
+          attempt
+        );
+      }
+      response = await send(buildRepairPrompt(response, result.errors));
+    }
+  }
+
+  /**
+   * Prompt and response_format payload for options.responseFormat
+   *
+   * The schema is passed to hosts with grammar support (unless tool calls
+   * must stay possible); otherwise format instructions precede the prompt.
+   */
+  private _applyResponseFormat(
+    session: SessionState,
+    prompt: string,
+    options?: PromptOptions
+  ): { prompt: string; responseFormat?: Record<string, any> } {
+    const format = options?.responseFormat;
+    if (!format) {
+      return { prompt };
+    }
+    if (session.structuredOutput?.supportsJsonSchema && !options?.tools?.length) {
+      return { prompt, responseFormat: toResponseFormatPayload(format) };
+    }
+    return { prompt: buildStructuredOutputPrompt(format, prompt) };
+  }
+
+  /**
+   * Validate the optional sampling parameters of options against the host
+   *
+   * The host's sampling capabilities are probed when a prompt uses an
+   * optional parameter and cached for the session once the host answers.
+   * While the host cannot be probed, the options are sent unchecked and the
+   * host validates them.
+   *
+   * @throws SDKError INVALID_SAMPLING_OPTIONS or SAMPLING_NOT_SUPPORTED
+   */
+  private async _checkSampling(session: SessionState, options?: SamplingOptions): Promise<void> {
+    if (getSamplingParameters(options).length === 0) {
+      return;
+    }
+    validateSamplingOptions(options!);
+
+    if (!session.sampling) {
+      const httpUrl = this._hostHttpUrl(session);
+      session.sampling = httpUrl ? await getSamplingCapabilitiesFromHost(httpUrl) : undefined;
+      if (!session.sampling) return; // probe again on the next prompt
+    }
+    assertSamplingSupported(options!, session.sampling);
+  }
+
+  /**
+   * HTTP base URL of the session host (WebSocket endpoints converted)
+   */
+  private _hostHttpUrl(session: SessionState): string | undefined {
+    return session.endpoint?.replace(/^ws(s?):\/\//, 'http$1://').replace(/\/v1\/ws$/, '');
+  }
+
+  /**
+   * Stream a prompt over the session WebSocket, failing over to another host if enabled
+   *
+   * A prompt replayed on a new host after a failure midway is a new
+   * generation: onStreamReset tells the caller to discard the tokens of the
+   * failed attempt, then onToken receives the new host's response from the start.
+   */
+  private async _streamPrompt(
+    sessionId: bigint,
+    prompt: string,
+    onToken?: (token: string) => void,
+    options?: PromptOptions
+  ): Promise<string> {
+    let streamed = false; // onToken received tokens from an attempt that has not been reset
+    const streamAttempt = async (id: bigint) => {
+      if (streamed) {
+        streamed = false;
+        options?.onStreamReset?.();
+      }
+      // A prompt that overlaps one already streaming (e.g. on another session) gets its own connection
+      const lane = this.connection.streaming ? new ConnectionLane() : this.connection;
+      lane.streaming = true;
+      try {
+        return await this._streamPromptToHost(id, prompt, onToken && ((token) => {
+          streamed = true;
+          onToken(token);
+        }), options, lane);
+      } finally {
+        lane.streaming = false;
+        if (lane !== this.connection) await lane.close();
+      }
+    };
+
+    const response = options?.hedgeSessionId !== undefined
+      ? await this._streamHedged(sessionId, prompt, onToken, options)
+      : await this._withFailover(sessionId, streamAttempt);
+    this._checkBudgetAfterPrompt(sessionId, response);
+    return response;
+  }
+
+  /**
+   * Stream a prompt over the WebSocket of the session host
+   */
+  private async _streamPromptToHost(
+    sessionId: bigint,
+    prompt: string,
+    onToken?: (token: string) => void,
+    options?: PromptOptions,
+    lane: ConnectionLane = this.connection
+  ): Promise<string> {
+    if (!this.initialized) {
+      throw new SDKError('SessionManager not initialized', 'SESSION_NOT_INITIALIZED');
+    }
+
+    const sessionIdStr = sessionId.toString();
+    let session = this.sessions.get(sessionIdStr);
+
+    // If session not in memory, try to load from storage (handles SessionManager recreation)
+    if (!session && this.storageManager) {
+      try {
+        const conversation = await this.storageManager.loadConversation(sessionIdStr);
+        if (conversation && conversation.metadata) {
+          // Reconstruct minimal session state from storage
+          session = {
+            sessionId: sessionId,
+            jobId: BigInt(conversation.metadata.jobId || sessionId),
+            chainId: conversation.metadata.chainId || 84532,
+            model: conversation.metadata.model || '',
+            provider: conversation.metadata.provider || '',
+            endpoint: conversation.metadata.endpoint,
+            status: (conversation.metadata.status as any) || 'active',
+            prompts: [],
+            responses: [],
+            checkpoints: [],
+            totalTokens: conversation.metadata.totalTokens || 0,
+            startTime: conversation.metadata.startTime || conversation.createdAt,
+            encryption: conversation.metadata.encryption !== false  // NEW (Phase 6.2): Restore encryption preference
+          } as SessionState;
+
+          // Add to memory for subsequent calls
+          this.sessions.set(sessionIdStr, session);
+        }
+      } catch (err) {
+        console.warn(`Could not load session ${sessionIdStr} from storage:`, err);
+      }
+    }
+
+    // If still no session after trying storage, throw error
+    if (!session) {
+      throw new SDKError('Session not found in memory or storage', 'SESSION_NOT_FOUND');
+    }
+
+    if (session.status !== 'active') {
+      throw new SDKError(`Session is ${session.status}`, 'SESSION_NOT_ACTIVE');
+    }
+
+    await this._checkSampling(session, options);
+    options = this._applyBudget(session, options);
+
+    // Auto-detect image generation intent (like search intent auto-detection)
+    const imageIntent = analyzePromptForImageIntent(prompt);
+    if (imageIntent.isImageIntent) {
+      console.warn(`[SDK:sendPromptStreaming] Image intent detected, routing to generateImage()`);
+      try {
+        const imgResult = await this.generateImage(
+          sessionIdStr,
+          imageIntent.cleanPrompt || prompt,
+          imageIntent.extractedOptions
+        );
+        if (options?.onImageGenerated) {
+          options.onImageGenerated(imgResult);
+        }
+        return `Image generated successfully`;
+      } catch (imgErr) {
+        console.warn(`[SDK:sendPromptStreaming] Image generation failed, falling back to LLM:`, imgErr);
+      }
+    }
+
+    try {
+      // Inject RAG context if enabled, then tool instructions
+      const tools = options?.tools?.length ? options.tools : undefined;
+      const toolDialect = tools ? this._resolveToolDialect(session, options?.toolDialect) : undefined;
+      const withTools = (text: string) => tools ? buildToolPrompt(tools, text, toolDialect) : text;
+      const contextPrompt = await this._withConversationContext(session, prompt);
+      const ragPrompt = await this.injectRAGContext(sessionIdStr, contextPrompt);
+      const structured = this._applyResponseFormat(session, withTools(ragPrompt), options);
+      const augmentedPrompt = structured.prompt;
+      const encryptedPrompt = this._applyResponseFormat(session, withTools(contextPrompt), options).prompt;
+      await this._preflightContextWarning(session, augmentedPrompt, options);
+
+      // Add original prompt to session (not augmented)
+      session.prompts.push(prompt);
+
+      // Get WebSocket URL from endpoint
+      const endpoint = session.endpoint || 'http://localhost:8080';
+      const wsUrl = endpoint.includes('ws://') || endpoint.includes('wss://')
+        ? endpoint 
+        : endpoint.replace('http://', 'ws://').replace('https://', 'wss://') + '/v1/ws';
+
+      // Force new WebSocket if session changed (old connection belongs to previous session)
+      if (lane.wsClient && lane.wsSessionId && lane.wsSessionId !== sessionIdStr) {
+        try { await lane.wsClient.disconnect(); } catch (_) { /* ignore */ }
+        lane.wsClient = undefined;
+        lane.wsSessionId = undefined;
+        lane.sessionKey = undefined;
+        lane.messageIndex = 0;
+      }
+
+      // Initialize WebSocket client if not already connected
+      if (!lane.wsClient || !lane.wsClient.isConnected()) {
+        lane.wsClient = new WebSocketClient(wsUrl, { chainId: session.chainId });
+        await lane.wsClient.connect();
+        lane.wsSessionId = sessionIdStr;
+
+        // Set up global RAG message handlers
+        this._setupRAGMessageHandlers(lane);
+
+        // Set up global web search message handlers (Phase 5.2-5.3)
+        this._setupWebSearchMessageHandlers(lane);
+
+        // Set up global session status handler (Phase 14.3)
+        this._setupSessionStatusHandler(lane);
+      }
 
       // Non-blocking host health check (fires callback asynchronously)
       if (options?.onHostHealthWarning && session.endpoint) {
@@ -1089,7 +1747,7 @@ export class SessionManager implements ISessionManager {
           paymentMethod: 'deposit',
           encryption: true
         };
-        await this.sendEncryptedInit(this.wsClient, config, sessionId, session.jobId);
+        await this.sendEncryptedInit(lane.wsClient, config, sessionId, session.jobId, lane);
       } else {
         // Send plaintext session init (opt-out or no encryption manager)
         const signer = (this.paymentManager as any).signer;
@@ -1109,7 +1767,7 @@ export class SessionManager implements ISessionManager {
           paymentMethod: 'deposit',
           encryption: false
         };
-        await this.sendPlaintextInit(this.wsClient, config, sessionId, session.jobId, userAddress);
+        await this.sendPlaintextInit(lane.wsClient, config, sessionId, session.jobId, userAddress);
       }
 
       // Collect full response
@@ -1121,7 +1779,7 @@ export class SessionManager implements ISessionManager {
         let response;
         if (session.encryption) {
           // SECURITY: Session requires encryption - fail if session key not available
-          if (!this.sessionKey) {
+          if (!lane.sessionKey) {
             throw new SDKError(
               'Session configured for encryption but session key not available. Encrypted init may have failed.',
               'ENCRYPTION_KEY_MISSING'
@@ -1129,7 +1787,7 @@ export class SessionManager implements ISessionManager {
           }
 
           // Send encrypted message and wait for complete response
-          if (this.sessionKey) {
+          if (lane.sessionKey) {
           }
 
           response = await new Promise<string>((resolve, reject) => {
@@ -1165,12 +1823,12 @@ export class SessionManager implements ISessionManager {
             let encChunkCount = 0;
             // v1.13.4: deferred resolution — wait for stream_end after encrypted_response
 
-            const unsubscribe = this.wsClient!.onMessage(async (data: any) => {
+            const unsubscribe = lane.wsClient!.onMessage(async (data: any) => {
               // Skip processing if already resolved
               if (isResolved) return;
 
 
-              if (data.type === 'encrypted_chunk' && this.sessionKey) {
+              if (data.type === 'encrypted_chunk' && lane.sessionKey) {
                 encChunkCount++;
                 // Reset timeout on each chunk (sliding window)
                 clearTimeout(timeout);
@@ -1179,7 +1837,7 @@ export class SessionManager implements ISessionManager {
                 }, 60000);
 
                 try {
-                  const decrypted = await this.decryptIncomingMessage(data);
+                  const decrypted = await this.decryptIncomingMessage(data, lane);
                   onToken(decrypted);
                   fullResponse += decrypted;
                 } catch (err) {
@@ -1194,14 +1852,14 @@ export class SessionManager implements ISessionManager {
                   }, 3000);
                   return;
                 }
-              } else if (data.type === 'encrypted_chunk' && !this.sessionKey) {
+              } else if (data.type === 'encrypted_chunk' && !lane.sessionKey) {
                 console.error('[SessionManager] Received encrypted chunk without session key');
               } else if (data.type === 'encrypted_response') {
                 // encrypted_response carries finish_reason — DO NOT resolve here.
                 // stream_end follows with vlm_tokens. Keep waiting.
                 try {
-                  if (this.sessionKey && data.payload && data.payload.ciphertextHex) {
-                    await this.decryptIncomingMessage(data);
+                  if (lane.sessionKey && data.payload && data.payload.ciphertextHex) {
+                    await this.decryptIncomingMessage(data, lane);
                   }
                 } catch (err) {
                   console.error('[SessionManager] Error decrypting encrypted_response:', err);
@@ -1234,8 +1892,8 @@ export class SessionManager implements ISessionManager {
             if (options?.signal) {
               if (options.signal.aborted) { safeResolve(fullResponse); return; }
               options.signal.addEventListener('abort', () => {
-                if (this.wsClient) {
-                  this.wsClient.sendWithoutResponse({
+                if (lane.wsClient) {
+                  lane.wsClient.sendWithoutResponse({
                     type: 'stream_cancel', session_id: sessionIdStr, reason: 'user_cancelled'
                   }).catch(() => {});
                 }
@@ -1261,11 +1919,11 @@ export class SessionManager implements ISessionManager {
             }
 
             // Send encrypted message with web search options, images, and thinking
-            this.sendEncryptedMessage(prompt, {
+            this.sendEncryptedMessage(encryptedPrompt, {
               webSearch: enableWebSearchEncrypted,
               maxSearches: enableWebSearchEncrypted ? (searchConfigEncrypted.maxSearches ?? 5) : 0,
               searchQueries: resolveSearchQueries(enableWebSearchEncrypted, prompt, searchConfigEncrypted.queries, options?.rawQuery)
-            }, options?.images, options?.thinking, { temperature: options?.temperature, maxTokens: options?.maxTokens }).catch((err) => {
+            }, options?.images, options?.thinking, options, structured.responseFormat, lane).catch((err) => {
               console.error('[SessionManager] Failed to send encrypted message:', err);
               reject(err);
             });
@@ -1275,7 +1933,7 @@ export class SessionManager implements ISessionManager {
           // Plaintext streaming mode
           let ptChunkCount = 0;
 
-          const unsubscribe = this.wsClient.onMessage(async (data: any) => {
+          const unsubscribe = lane.wsClient.onMessage(async (data: any) => {
 
             if (data.type === 'stream_chunk' && data.content) {
               ptChunkCount++;
@@ -1312,9 +1970,15 @@ export class SessionManager implements ISessionManager {
             prompt: augmentedPrompt,  // Use RAG-augmented prompt
             max_tokens: options?.maxTokens ?? LLM_MAX_TOKENS,  // Support comprehensive responses from large models
             temperature: options?.temperature ?? 0.7,
+            ...toSamplingPayload(options),
             stream: true
           };
 
+          // Include the JSON Schema for hosts with grammar support
+          if (structured.responseFormat) {
+            plaintextRequest.response_format = structured.responseFormat;
+          }
+
           // Include images in plaintext request when present
           if (options?.images && options.images.length > 0) {
             validateImageAttachments(options.images);
@@ -1326,7 +1990,7 @@ export class SessionManager implements ISessionManager {
             plaintextRequest.thinking = options.thinking;
           }
 
-          const sendMessagePromise = this.wsClient.sendMessage({
+          const sendMessagePromise = lane.wsClient.sendMessage({
             type: 'prompt',
             chain_id: session.chainId,
             jobId: session.jobId.toString(),  // Include jobId for settlement tracking
@@ -1346,8 +2010,8 @@ export class SessionManager implements ISessionManager {
             } else {
               response = await new Promise<string>((res, rej) => {
                 const onAbort = () => {
-                  if (this.wsClient) {
-                    this.wsClient.sendWithoutResponse({
+                  if (lane.wsClient) {
+                    lane.wsClient.sendWithoutResponse({
                       type: 'stream_cancel', session_id: sessionIdStr, reason: 'user_cancelled'
                     }).catch(() => {});
                   }
@@ -1393,24 +2057,21 @@ export class SessionManager implements ISessionManager {
         }
 
         // Update storage (non-blocking to prevent S5 connection issues from freezing UI)
-        this.storageManager.appendMessage(
-          sessionId.toString(),
+        const turn = this._recordTurn(
+          session,
           {
             role: 'user',
             content: prompt,
             timestamp: Date.now(),
             ...(Object.keys(userMsgMeta1).length > 0 ? { metadata: userMsgMeta1 } : {})
-          }
-        ).catch(err => console.warn('[SessionManager] Failed to store user message:', err));
-
-        this.storageManager.appendMessage(
-          sessionId.toString(),
-          {
-            role: 'assistant',
-            content: finalResponse,
-            timestamp: Date.now()
-          }
-        ).catch(err => console.warn('[SessionManager] Failed to store assistant message:', err));
+          },
+          { role: 'assistant', content: finalResponse, timestamp: Date.now() },
+          options?.template
+        );
+        for (const message of turn) {
+          this.storageManager.appendMessage(sessionId.toString(), message)
+            .catch(err => console.warn(`[SessionManager] Failed to store ${message.role} message:`, err));
+        }
 
         // Store in conversation memory if enabled (non-blocking)
         const conversationMemory = this.conversationMemories?.get(sessionIdStr);
@@ -1428,7 +2089,7 @@ export class SessionManager implements ISessionManager {
 
         if (session.encryption) {
           // SECURITY: Session requires encryption - fail if session key not available
-          if (!this.sessionKey) {
+          if (!lane.sessionKey) {
             throw new SDKError(
               'Session configured for encryption but session key not available. Encrypted init may have failed.',
               'ENCRYPTION_KEY_MISSING'
@@ -1453,11 +2114,11 @@ export class SessionManager implements ISessionManager {
           }
 
           // Send encrypted message with web search options, images, and thinking
-          await this.sendEncryptedMessage(prompt, {
+          await this.sendEncryptedMessage(encryptedPrompt, {
             webSearch: enableWebSearchNonStreamEnc,
             maxSearches: enableWebSearchNonStreamEnc ? (searchConfigNonStreamEnc.maxSearches ?? 5) : 0,
             searchQueries: resolveSearchQueries(enableWebSearchNonStreamEnc, prompt, searchConfigNonStreamEnc.queries, options?.rawQuery)
-          }, options?.images, options?.thinking, { temperature: options?.temperature, maxTokens: options?.maxTokens });
+          }, options?.images, options?.thinking, options, structured.responseFormat, lane);
 
           // Wait for encrypted response (non-streaming) - MUST accumulate chunks!
           let accumulatedResponse = '';  // Accumulate chunks even in non-streaming mode
@@ -1491,12 +2152,12 @@ export class SessionManager implements ISessionManager {
             let encNsChunkCount = 0;
             let safetyTimeoutNs: ReturnType<typeof setTimeout> | undefined;
 
-            const unsubscribe = this.wsClient!.onMessage(async (data: any) => {
+            const unsubscribe = lane.wsClient!.onMessage(async (data: any) => {
               // Skip processing if already resolved
               if (isResolved) return;
 
               // MUST handle encrypted_chunk messages!
-              if (data.type === 'encrypted_chunk' && this.sessionKey) {
+              if (data.type === 'encrypted_chunk' && lane.sessionKey) {
                 encNsChunkCount++;
                 // Reset timeout on each chunk (sliding window)
                 clearTimeout(timeout);
@@ -1505,7 +2166,7 @@ export class SessionManager implements ISessionManager {
                 }, 60000);
 
                 try {
-                  const decrypted = await this.decryptIncomingMessage(data);
+                  const decrypted = await this.decryptIncomingMessage(data, lane);
                   accumulatedResponse += decrypted;
                 } catch (err) {
                   console.error('[SessionManager] Failed to decrypt chunk:', err);
@@ -1523,8 +2184,8 @@ export class SessionManager implements ISessionManager {
                 // encrypted_response carries finish_reason — DO NOT resolve here.
                 // stream_end follows with vlm_tokens. Keep waiting.
                 try {
-                  if (this.sessionKey && data.payload && data.payload.ciphertextHex) {
-                    await this.decryptIncomingMessage(data);
+                  if (lane.sessionKey && data.payload && data.payload.ciphertextHex) {
+                    await this.decryptIncomingMessage(data, lane);
                   }
                 } catch (err) {
                   console.error('[SessionManager] Error decrypting encrypted_response:', err);
@@ -1577,9 +2238,15 @@ export class SessionManager implements ISessionManager {
             prompt: augmentedPrompt,  // Use RAG-augmented prompt
             max_tokens: options?.maxTokens ?? LLM_MAX_TOKENS,  // Support comprehensive responses from large models
             temperature: options?.temperature ?? 0.7,
+            ...toSamplingPayload(options),
             stream: false
           };
 
+          // Include the JSON Schema for hosts with grammar support
+          if (structured.responseFormat) {
+            plaintextRequestNonStream.response_format = structured.responseFormat;
+          }
+
           // Include images in plaintext request when present
           if (options?.images && options.images.length > 0) {
             validateImageAttachments(options.images);
@@ -1593,13 +2260,13 @@ export class SessionManager implements ISessionManager {
 
           // VLM token tracking (Phase 5): capture tokens from response/stream_end
           let ptNsUsage: TokenUsageInfo | undefined;
-          const tokenUnsub = this.wsClient.onMessage((data: any) => {
+          const tokenUnsub = lane.wsClient.onMessage((data: any) => {
             if (data.type === 'response' || data.type === 'stream_end') {
               ptNsUsage = this._processStreamEnd(data, 0, session, options);
             }
           });
 
-          response = await this.wsClient.sendMessage({
+          response = await lane.wsClient.sendMessage({
             type: 'prompt',
             chain_id: session.chainId,
             jobId: session.jobId.toString(),  // Include jobId for settlement tracking
@@ -1624,24 +2291,21 @@ export class SessionManager implements ISessionManager {
         }
 
         // Update storage (non-blocking to prevent S5 connection issues from freezing UI)
-        this.storageManager.appendMessage(
-          sessionId.toString(),
+        const turn = this._recordTurn(
+          session,
           {
             role: 'user',
             content: prompt,
             timestamp: Date.now(),
             ...(Object.keys(userMsgMeta2).length > 0 ? { metadata: userMsgMeta2 } : {})
-          }
-        ).catch(err => console.warn('[SessionManager] Failed to store user message:', err));
-
-        this.storageManager.appendMessage(
-          sessionId.toString(),
-          {
-            role: 'assistant',
-            content: response,
-            timestamp: Date.now()
-          }
-        ).catch(err => console.warn('[SessionManager] Failed to store assistant message:', err));
+          },
+          { role: 'assistant', content: response, timestamp: Date.now() },
+          options?.template
+        );
+        for (const message of turn) {
+          this.storageManager.appendMessage(sessionId.toString(), message)
+            .catch(err => console.warn(`[SessionManager] Failed to store ${message.role} message:`, err));
+        }
 
         // Store in conversation memory if enabled (non-blocking)
         const conversationMemory = this.conversationMemories?.get(sessionIdStr);
@@ -2026,6 +2690,7 @@ export class SessionManager implements ISessionManager {
         session.status = 'ended';
         session.endTime = Date.now();
       }
+      this.keywordIndexes.delete(sessionIdStr);
 
       // Update storage to mark session as ended (non-blocking for fast session teardown)
       this.storageManager.loadConversation(sessionIdStr).then(conversation => {
@@ -2054,7 +2719,8 @@ export class SessionManager implements ISessionManager {
     ws: WebSocketClient,
     config: ExtendedSessionConfig,
     sessionId: bigint,
-    jobId: bigint
+    jobId: bigint,
+    lane: ConnectionLane = this.connection
   ): Promise<void> {
     console.warn(`[SDK:encryptedInit:1] ENTER sessionId=${sessionId} jobId=${jobId} host=${config.host} endpoint=${config.endpoint}`);
 
@@ -2075,9 +2741,9 @@ export class SessionManager implements ISessionManager {
     }
 
     // 1. Generate random session key (32 bytes)
-    this.sessionKey = crypto.getRandomValues(new Uint8Array(32));
-    const sessionKeyHex = bytesToHex(this.sessionKey);
-    this.messageIndex = 0;
+    lane.sessionKey = crypto.getRandomValues(new Uint8Array(32));
+    const sessionKeyHex = bytesToHex(lane.sessionKey);
+    lane.messageIndex = 0;
     console.warn(`[SDK:encryptedInit:4] Generated session key, messageIndex reset to 0`);
 
     // 2. Get host public key (uses cache, metadata, or signature recovery)
@@ -2194,12 +2860,12 @@ export class SessionManager implements ISessionManager {
 
   /**
    * Send encrypted message with session key (Phase 4.2)
-   * Payload is a JSON object: { prompt, model, max_tokens, temperature, stream, images? }
+   * Payload is a JSON object: { prompt, model, max_tokens, temperature, stream, images?, top_p?, ... }
    * @param message - The plaintext prompt to encrypt and send
    * @param webSearchOptions - Optional web search configuration (v8.7.5+)
    * @param images - Optional image attachments to include in payload
    * @param thinking - Optional per-request thinking/reasoning mode
-   * @param sampling - Optional per-request sampling overrides ({ temperature, maxTokens })
+   * @param sampling - Optional per-request sampling overrides ({ temperature, maxTokens, topP, stop, ... })
    * @private
    */
   private async sendEncryptedMessage(
@@ -2211,7 +2877,9 @@ export class SessionManager implements ISessionManager {
     },
     images?: ImageAttachment[],
     thinking?: import('../types').ThinkingMode,
-    sampling?: { temperature?: number; maxTokens?: number }
+    sampling?: SamplingOptions,
+    responseFormat?: Record<string, any>,
+    lane: ConnectionLane = this.connection
   ): Promise<void> {
 
     // Validate images before encryption (fail fast)
@@ -2219,7 +2887,7 @@ export class SessionManager implements ISessionManager {
       validateImageAttachments(images);
     }
 
-    if (!this.sessionKey) {
+    if (!lane.sessionKey) {
       throw new SDKError(
         'Session key not available for encrypted messaging',
         'SESSION_KEY_NOT_AVAILABLE'
@@ -2233,7 +2901,7 @@ export class SessionManager implements ISessionManager {
       );
     }
 
-    if (!this.wsClient) {
+    if (!lane.wsClient) {
       throw new SDKError(
         'WebSocket client not available',
         'WEBSOCKET_NOT_AVAILABLE'
@@ -2257,6 +2925,7 @@ export class SessionManager implements ISessionManager {
         model: currentSession.model,
         max_tokens: sampling?.maxTokens ?? LLM_MAX_TOKENS,
         temperature: sampling?.temperature ?? 0.7,
+        ...toSamplingPayload(sampling),
         stream: true,
       };
 
@@ -2265,6 +2934,11 @@ export class SessionManager implements ISessionManager {
         structuredPayload.thinking = thinking;
       }
 
+      // Only include response_format for hosts with grammar support
+      if (responseFormat) {
+        structuredPayload.response_format = responseFormat;
+      }
+
       // Only include images when present
       if (images && images.length > 0) {
         structuredPayload.images = images.map(img => ({ data: img.data, format: img.format }));
@@ -2277,9 +2951,9 @@ export class SessionManager implements ISessionManager {
 
       // Encrypt JSON payload with session key
       const payload = this.encryptionManager.encryptMessage(
-        this.sessionKey,
+        lane.sessionKey,
         JSON.stringify(structuredPayload),
-        this.messageIndex++
+        lane.messageIndex++
       );
 
       // Wrap payload with message structure (per docs lines 498-508)
@@ -2298,7 +2972,7 @@ export class SessionManager implements ISessionManager {
         messageToSend.search_queries = webSearchOptions.searchQueries;
       }
 
-      await this.wsClient.sendWithoutResponse(messageToSend);
+      await lane.wsClient.sendWithoutResponse(messageToSend);
 
     } catch (error: any) {
       // Re-throw SDKErrors (validation, encryption) without wrapping
@@ -2336,8 +3010,8 @@ export class SessionManager implements ISessionManager {
    * Decrypt incoming encrypted message (Phase 4.2)
    * @private
    */
-  private async decryptIncomingMessage(encryptedMessage: any): Promise<string> {
-    if (!this.sessionKey) {
+  private async decryptIncomingMessage(encryptedMessage: any, lane: ConnectionLane = this.connection): Promise<string> {
+    if (!lane.sessionKey) {
       throw new SDKError(
         'Session key not available for decryption',
         'SESSION_KEY_NOT_AVAILABLE'
@@ -2358,7 +3032,7 @@ export class SessionManager implements ISessionManager {
 
       // Decrypt message with session key
       const plaintext = this.encryptionManager.decryptMessage(
-        this.sessionKey,
+        lane.sessionKey,
         payload
       );
 
@@ -2605,6 +3279,9 @@ export class SessionManager implements ISessionManager {
       throw new SDKError(`Session is ${session.status}`, 'SESSION_NOT_ACTIVE');
     }
 
+    await this._checkSampling(session, options);
+    options = this._applyBudget(session, options);
+
     try {
       // Add prompt to session
       session.prompts.push(prompt);
@@ -2620,6 +3297,7 @@ export class SessionManager implements ISessionManager {
         prompt: prompt,
         max_tokens: options?.maxTokens ?? LLM_MAX_TOKENS,  // Allow longer responses for poems, stories, etc.
         temperature: options?.temperature ?? 0.7,  // Add temperature for better responses
+        ...toSamplingPayload(options),
         sessionId: sessionId.toString(),
         jobId: session.jobId.toString(),
         ...(options?.thinking ? { thinking: options.thinking } : {})
@@ -2644,6 +3322,7 @@ export class SessionManager implements ISessionManager {
       if (!fullResponse) {
         throw new Error('No response received from inference endpoint');
       }
+      await this._recordRestSpend(session, fullResponse);
       
       // Simulate streaming by chunking the response
       const words = fullResponse.split(' ');
@@ -2656,24 +3335,18 @@ export class SessionManager implements ISessionManager {
       session.responses.push(fullResponse);
 
       // Update storage
-      await this.storageManager.appendMessage(
-        sessionId.toString(),
-        {
-          role: 'user',
-          content: prompt,
-          timestamp: Date.now()
-        }
-      );
-
-      await this.storageManager.appendMessage(
-        sessionId.toString(),
-        {
-          role: 'assistant',
-          content: fullResponse,
-          timestamp: Date.now()
-        }
+      const turn = this._recordTurn(
+        session,
+        { role: 'user', content: prompt, timestamp: Date.now() },
+        { role: 'assistant', content: fullResponse, timestamp: Date.now() },
+        options?.template
       );
+      for (const message of turn) {
+        await this.storageManager.appendMessage(sessionId.toString(), message);
+      }
+      this._checkBudgetAfterPrompt(sessionId, fullResponse);
     } catch (error: any) {
+      if (error instanceof BudgetExceededError) throw error;
       throw new SDKError(
         `Failed to stream response: ${error.message}`,
         'STREAM_ERROR',
@@ -2728,6 +3401,8 @@ export class SessionManager implements ISessionManager {
       llmTokens, vlmTokens, imageGenTokens: 0, totalTokens,
       promptTokens, contextWindowSize, contextUtilization, finishReason
     };
+    const cost = this._recordSpend(session, totalTokens);
+    if (cost !== undefined) usage.cost = cost;
 
     session.totalTokens += totalTokens;
     session.lastTokenUsage = usage;
@@ -2748,23 +3423,76 @@ export class SessionManager implements ISessionManager {
   }
 
   /**
-   * Get the token usage info from the last completed prompt for a session.
-   * Returns undefined if no prompt has been completed yet.
+   * Count the tokens a prompt will use with the session model's tokenizer.
+   * Falls back to the ~4 characters per token estimate when no tokenizer is
+   * registered for the model (see tokenizerRegistry).
    */
-  getLastTokenUsage(sessionId: bigint): TokenUsageInfo | undefined {
+  async countPromptTokens(sessionId: bigint, text: string): Promise<number> {
     const session = this.sessions.get(sessionId.toString());
-    return session?.lastTokenUsage;
+    if (!session) {
+      throw new SDKError('Session not found', 'SESSION_NOT_FOUND');
+    }
+    const modelId = this._tokenizerModelId(session.model);
+    try {
+      await tokenizerRegistry.load(modelId);
+    } catch (error) {
+      console.warn(`[SessionManager] Tokenizer for "${modelId}" unavailable, estimating tokens:`, error);
+    }
+    return tokenizerRegistry.countTokens(text, modelId);
   }
 
   /**
-   * Get context window utilization info for a session.
-   * Returns null if no prompt has been sent yet.
+   * Registry key for a session model: the id as given if registered,
+   * otherwise the short name nodes use for known model hashes
    */
-  getContextInfo(sessionId: bigint): ContextInfo | null {
-    const session = this.sessions.get(sessionId.toString());
-    if (!session || session.lastPromptTokens === undefined) return null;
+  private _tokenizerModelId(model: string): string {
+    return tokenizerRegistry.has(model) ? model : convertModelHashToName(model);
+  }
 
-    const promptTokens = session.lastPromptTokens ?? 0;
+  /**
+   * Fire onContextWarning before sending when the projected context (last
+   * exchange + this prompt) crosses the threshold. Needs the context window
+   * size reported by an earlier stream_end.
+   */
+  private async _preflightContextWarning(
+    session: SessionState,
+    prompt: string,
+    options: PromptOptions | undefined
+  ): Promise<void> {
+    const contextWindowSize = session.contextWindowSize;
+    if (!options?.onContextWarning || !contextWindowSize || contextWindowSize <= 0) return;
+
+    const newTokens = await this.countPromptTokens(session.sessionId, prompt);
+    const promptTokens = (session.lastPromptTokens ?? 0) + (session.lastTokenUsage?.llmTokens ?? 0) + newTokens;
+    const contextUtilization = promptTokens / contextWindowSize;
+
+    if (contextUtilization >= (options.contextWarningThreshold ?? 0.8)) {
+      options.onContextWarning({
+        llmTokens: 0, vlmTokens: 0, imageGenTokens: 0, totalTokens: 0,
+        promptTokens, contextWindowSize, contextUtilization, estimated: true
+      });
+    }
+  }
+
+  /**
+   * Get the token usage info from the last completed prompt for a session.
+   * Returns undefined if no prompt has been completed yet.
+   */
+  getLastTokenUsage(sessionId: bigint): TokenUsageInfo | undefined {
+    const session = this.sessions.get(this._resolveSessionId(sessionId).toString());
+    return session?.lastTokenUsage;
+  }
+
+  /**
+   * Get context window utilization info for a session, and what compaction
+   * has summarised (sessions with a compaction policy).
+   * Returns null if no prompt has been sent yet.
+   */
+  getContextInfo(sessionId: bigint): ContextInfo | null {
+    const session = this.sessions.get(this._resolveSessionId(sessionId).toString());
+    if (!session || (session.lastPromptTokens === undefined && !session.compaction?.summary)) return null;
+
+    const promptTokens = session.lastPromptTokens ?? 0;
     const contextWindowSize = session.contextWindowSize ?? 0;
     const completionTokens = session.lastTokenUsage?.llmTokens ?? 0;
     const utilization = contextWindowSize > 0
@@ -2776,7 +3504,8 @@ export class SessionManager implements ISessionManager {
       completionTokens,
       contextWindowSize,
       utilization,
-      finishReason: session.lastFinishReason ?? null
+      finishReason: session.lastFinishReason ?? null,
+      ...(session.compaction?.summary ? { compaction: this._compactionInfo(session.compaction) } : {})
     };
   }
 
@@ -2950,6 +3679,11 @@ export class SessionManager implements ISessionManager {
         // Send message and wait for response (with 30s timeout)
         const response = await this._sendRAGRequest(requestId, message, 30000);
 
+        // Mirror accepted chunk text into the client-side keyword index
+        if (response.uploaded > 0) {
+          this._indexUploadedVectors(sessionId, batch, batchReplace);
+        }
+
         // Accumulate results
         totalUploaded += response.uploaded || 0;
         totalRejected += response.rejected || 0;
@@ -2966,6 +3700,7 @@ export class SessionManager implements ISessionManager {
     // After successful upload, mark session as RAG-enabled
     if (totalUploaded > 0) {
       session.ragContext = session.ragContext || { vectorDbId: `vectors-${sessionId}` };
+      await this._saveKeywordIndex(sessionId);
     }
 
     return {
@@ -2985,6 +3720,7 @@ export class SessionManager implements ISessionManager {
    * @param queryVector - Query embedding vector (384 dimensions for all-MiniLM-L6-v2)
    * @param k - Number of top results to return (1-20, default: 5)
    * @param threshold - Minimum similarity score (0.0-1.0, default: 0.7)
+   * @param filter - Optional metadata filter sent with the query; hosts without filter support ignore it
    * @returns Promise<SearchResult[]> - Array of search results sorted by score (descending)
    * @throws {SDKError} If session not found, not active, or WebSocket not connected
    * @throws {SDKError} If query vector has invalid dimensions or parameters out of range
@@ -2994,7 +3730,8 @@ export class SessionManager implements ISessionManager {
     sessionId: string,
     queryVector: number[],
     k: number = 5,
-    threshold: number = 0.2
+    threshold: number = 0.2,
+    filter?: MetadataFilter
   ): Promise<SearchResult[]> {
     // Validate session exists and is active
     const session = this.sessions.get(sessionId);
@@ -3091,6 +3828,9 @@ export class SessionManager implements ISessionManager {
       k,
       threshold
     };
+    if (filter && Object.keys(filter).length > 0) {
+      message.filter = filter;
+    }
 
     // Send request and wait for response (10-second timeout)
     const response = await this._sendRAGRequest(requestId, message, 10000);
@@ -3111,15 +3851,23 @@ export class SessionManager implements ISessionManager {
    * Convenience helper: Generate embedding + search + inject context
    * Returns enhanced prompt with RAG context or original question on error
    *
+   * 'keyword' and 'hybrid' modes rank chunk text with BM25 using a client-side
+   * index of the vectors sent through uploadVectors(), saved with the session's
+   * conversation; 'hybrid' fuses that ranking with the host's vector results (RRF).
+   * The mode defaults to `ragConfig.retrievalMode` from startSession, then 'vector';
+   * hybrid weights default to `ragConfig.hybridSearch`, then rag/search-config.
+   *
    * @param sessionId - Session identifier
    * @param question - User's question to enhance with context
    * @param topK - Number of results to retrieve (default: 5)
+   * @param options - Retrieval mode and hybrid weights (override the session's ragConfig)
    * @returns Enhanced prompt with context or original question
    */
   async askWithContext(
     sessionId: string,
     question: string,
-    topK: number = 5
+    topK: number = 5,
+    options: { mode?: RetrievalMode; hybridSearch?: HybridSearchConfig } = {}
   ): Promise<string> {
     try {
       // Get session to retrieve host endpoint and chainId
@@ -3134,6 +3882,12 @@ export class SessionManager implements ISessionManager {
         return question; // Graceful degradation
       }
 
+      const mode = options.mode || session.ragConfig?.retrievalMode || 'vector';
+      if (mode === 'keyword') {
+        const results = await this._searchUploadedText(sessionId, question, topK);
+        return this.injectRAGContext(question, results);
+      }
+
       // Create HostAdapter to generate embedding
       const { HostAdapter } = await import('../embeddings/adapters/HostAdapter');
       const hostAdapter = new HostAdapter({
@@ -3146,6 +3900,12 @@ export class SessionManager implements ISessionManager {
       const embeddingResult = await hostAdapter.embedText(question, 'query');
       const queryVector = embeddingResult.embedding;
 
+      if (mode === 'hybrid') {
+        const hybridSearch = { ...session.ragConfig?.hybridSearch, ...options.hybridSearch };
+        const results = await this._searchHybrid(sessionId, queryVector, question, topK, hybridSearch);
+        return this.injectRAGContext(question, results);
+      }
+
       // Search for similar vectors (threshold=0.7)
       const results = await this.searchVectors(sessionId, queryVector, topK, 0.7);
 
@@ -3158,6 +3918,129 @@ export class SessionManager implements ISessionManager {
     }
   }
 
+  /**
+   * Fuse host vector results with client-side BM25 results (RRF)
+   * The host caps k at 20, so the vector candidate pool is limited to that
+   *
+   * @private
+   */
+  private async _searchHybrid(
+    sessionId: string,
+    queryVector: number[],
+    question: string,
+    topK: number,
+    hybridSearch?: HybridSearchConfig
+  ): Promise<SearchResult[]> {
+    const { vectorWeight, keywordWeight, rrfK, candidatePool } = mergeHybridSearchConfig(hybridSearch);
+    const poolSize = Math.max(topK, candidatePool);
+
+    const vectorResults = vectorWeight > 0
+      ? await this.searchVectors(sessionId, queryVector, Math.min(poolSize, 20), 0.7)
+      : [];
+    const keywordResults = keywordWeight > 0
+      ? await this._searchUploadedText(sessionId, question, poolSize)
+      : [];
+
+    const byId = new Map<string, SearchResult>();
+    for (const result of [...keywordResults, ...vectorResults]) {
+      byId.set(result.id, result);
+    }
+
+    const fused = reciprocalRankFusion([
+      { ids: vectorResults.map(r => r.id), weight: vectorWeight },
+      { ids: keywordResults.map(r => r.id), weight: keywordWeight }
+    ], rrfK);
+    return fused.slice(0, topK).map(({ id, score }) => ({ ...byId.get(id)!, score }));
+  }
+
+  /**
+   * BM25 search over chunk text uploaded for a session
+   * Returns no results if nothing was uploaded for the session
+   *
+   * @private
+   */
+  private async _searchUploadedText(sessionId: string, question: string, topK: number): Promise<SearchResult[]> {
+    const entry = this.keywordIndexes.get(sessionId) ?? await this._loadKeywordIndex(sessionId);
+    if (!entry) {
+      return [];
+    }
+    return entry.index.search(question, topK).map(({ id, score }) => {
+      const vector = entry.vectors.get(id)!;
+      return { id, vector: vector.vector, metadata: vector.metadata || {}, score };
+    });
+  }
+
+  /**
+   * Persist the session's keyword index with its conversation, so keyword and
+   * hybrid retrieval survive a new SessionManager. Chunk vectors stay on the host
+   * and are not stored (restored chunks carry an empty vector).
+   *
+   * @private
+   */
+  private async _saveKeywordIndex(sessionId: string): Promise<void> {
+    const entry = this.keywordIndexes.get(sessionId);
+    if (!entry) {
+      return;
+    }
+    try {
+      const conversation = await this.storageManager.loadConversation(sessionId);
+      if (!conversation) {
+        return;
+      }
+      conversation.metadata['keywordIndex'] = {
+        index: entry.index.toJSON(),
+        chunks: Array.from(entry.vectors.values(), ({ id, metadata }) => ({ id, metadata: metadata || {} }))
+      };
+      conversation.updatedAt = Date.now();
+      await this.storageManager.saveConversation(conversation);
+    } catch (error) {
+      console.warn(`[SessionManager] Could not persist keyword index for session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Restore a keyword index saved by _saveKeywordIndex()
+   *
+   * @private
+   */
+  private async _loadKeywordIndex(sessionId: string): Promise<{ index: BM25Index; vectors: Map<string, Vector> } | undefined> {
+    try {
+      const conversation = await this.storageManager.loadConversation(sessionId);
+      const saved = conversation?.metadata?.['keywordIndex'] as
+        { index: SerializedBM25Index; chunks: Array<{ id: string; metadata: Record<string, any> }> } | undefined;
+      if (!saved) {
+        return undefined;
+      }
+      const entry = {
+        index: BM25Index.fromJSON(saved.index),
+        vectors: new Map(saved.chunks.map(({ id, metadata }) => [id, { id, vector: [], metadata }]))
+      };
+      this.keywordIndexes.set(sessionId, entry);
+      return entry;
+    } catch (error) {
+      console.warn(`[SessionManager] Could not load keyword index for session ${sessionId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Add an uploaded batch to the session's keyword index
+   *
+   * @private
+   */
+  private _indexUploadedVectors(sessionId: string, vectors: Vector[], replace: boolean): void {
+    let entry = this.keywordIndexes.get(sessionId);
+    if (!entry || replace) {
+      entry = { index: new BM25Index(), vectors: new Map() };
+      this.keywordIndexes.set(sessionId, entry);
+    }
+    for (const vector of vectors) {
+      const text = vector.metadata?.text ?? vector.metadata?.content;
+      entry.index.add(vector.id, typeof text === 'string' ? text : '');
+      entry.vectors.set(vector.id, vector);
+    }
+  }
+
   /**
    * Format search results into RAG context and inject into prompt
    * Returns original question if no valid results
@@ -3283,19 +4166,19 @@ export class SessionManager implements ISessionManager {
    * Set up global message handlers for RAG operations
    * @private
    */
-  private _setupRAGMessageHandlers(): void {
-    if (!this.wsClient) {
+  private _setupRAGMessageHandlers(lane: ConnectionLane = this.connection): void {
+    if (!lane.wsClient) {
       return;
     }
 
     // Clean up existing handler if present to prevent duplicate handlers
-    if (this.ragHandlerUnsubscribe) {
-      this.ragHandlerUnsubscribe();
-      this.ragHandlerUnsubscribe = undefined;
+    if (lane.ragHandlerUnsubscribe) {
+      lane.ragHandlerUnsubscribe();
+      lane.ragHandlerUnsubscribe = undefined;
     }
 
     // Register handler for RAG-related messages and store unsubscribe function
-    this.ragHandlerUnsubscribe = this.wsClient.onMessage((data: any) => {
+    lane.ragHandlerUnsubscribe = lane.wsClient.onMessage((data: any) => {
       // ONLY handle RAG-specific message types - don't process other messages
       if (data.type === 'uploadVectorsResponse') {
         this._handleUploadVectorsResponse(data as UploadVectorsResponse);
@@ -3330,19 +4213,19 @@ export class SessionManager implements ISessionManager {
    * Set up global message handlers for web search operations.
    * @private
    */
-  private _setupWebSearchMessageHandlers(): void {
-    if (!this.wsClient) {
+  private _setupWebSearchMessageHandlers(lane: ConnectionLane = this.connection): void {
+    if (!lane.wsClient) {
       return;
     }
 
     // Clean up existing handler if present to prevent duplicate handlers
-    if (this.searchHandlerUnsubscribe) {
-      this.searchHandlerUnsubscribe();
-      this.searchHandlerUnsubscribe = undefined;
+    if (lane.searchHandlerUnsubscribe) {
+      lane.searchHandlerUnsubscribe();
+      lane.searchHandlerUnsubscribe = undefined;
     }
 
     // Register handler for web search messages
-    this.searchHandlerUnsubscribe = this.wsClient.onMessage((data: any) => {
+    lane.searchHandlerUnsubscribe = lane.wsClient.onMessage((data: any) => {
       // Only handle search-specific message types
       if (data.type === 'searchStarted') {
         this._handleSearchStarted(data as WebSearchStarted);
@@ -3829,6 +4712,9 @@ export class SessionManager implements ISessionManager {
       throw new SDKError('Session is not active', 'SESSION_NOT_ACTIVE');
     }
 
+    // Image generation cannot be limited to the remaining budget, only refused once it is used up
+    this._assertBudgetAvailable(session);
+
     // Require encryption manager
     if (!this.encryptionManager) {
       console.error(`[SDK:generateImage:5] ENCRYPTION_NOT_AVAILABLE`);
@@ -3927,6 +4813,8 @@ export class SessionManager implements ISessionManager {
           imageGenTokens,
           totalTokens: imageGenTokens,
         };
+        const cost = this._recordSpend(session, imageGenTokens);
+        if (cost !== undefined) usage.cost = cost;
         session.totalTokens += imageGenTokens;
         session.lastTokenUsage = usage;
         console.warn(`[SDK:generateImage:18b] Billing: ${genUnits} genUnits = ${imageGenTokens} imageGenTokens, session totalTokens=${session.totalTokens}`);
@@ -4111,6 +4999,865 @@ export class SessionManager implements ISessionManager {
     }
   }
 
+  // =============================================================================
+  // Host Failover
+  // =============================================================================
+
+  /**
+   * Session currently carrying the conversation started as sessionId.
+   *
+   * Differs from sessionId once a failover policy has moved the conversation
+   * to another host; prompts sent with the original ID are routed there.
+   */
+  getCurrentSessionId(sessionId: bigint): bigint {
+    return this._resolveSessionId(sessionId);
+  }
+
+  private _resolveSessionId(sessionId: bigint): bigint {
+    let current = sessionId;
+    let next = this.sessions.get(current.toString())?.failedOverTo;
+    while (next !== undefined) {
+      current = next;
+      next = this.sessions.get(current.toString())?.failedOverTo;
+    }
+    return current;
+  }
+
+  /**
+   * Run a prompt against the current session of a conversation, moving it to
+   * another host and replaying the prompt when the host has gone down
+   */
+  private async _withFailover(
+    sessionId: bigint,
+    send: (sessionId: bigint) => Promise<string>
+  ): Promise<string> {
+    for (;;) {
+      const currentId = this._resolveSessionId(sessionId);
+      try {
+        const response = await send(currentId);
+        const session = this.sessions.get(currentId.toString());
+        if (session) {
+          session.carriedContext = undefined;
+        }
+        return response;
+      } catch (error) {
+        const session = this.sessions.get(currentId.toString());
+        if (!session?.failover || !(await this._hostFailed(session, error))) {
+          throw error;
+        }
+        await this._failover(session, error);
+      }
+    }
+  }
+
+  /**
+   * Whether a prompt error was caused by the session host going down
+   */
+  private async _hostFailed(session: SessionState, error: unknown): Promise<boolean> {
+    if (!(error instanceof SDKError) || !['PROMPT_SEND_ERROR', 'WS_PROMPT_ERROR'].includes(error.code)) {
+      return false;
+    }
+    const cause = (error.details as any)?.originalError;
+    if (cause instanceof ContextLimitError || cause instanceof StructuredOutputError) {
+      return false;
+    }
+    if (!session.endpoint) {
+      return false;
+    }
+    const health = await this._checkHostHealth(session.endpoint);
+    session.lastHostHealth = health;
+    return health.status === 'unreachable' || health.status === 'unhealthy';
+  }
+
+  /**
+   * Move a conversation off its failed host: settle the old session, open one
+   * on the next ranked host and carry the conversation over
+   *
+   * @throws SDKError with code 'FAILOVER_FAILED' when the failover limit is
+   *   reached or no other host could take the session
+   */
+  private async _failover(session: SessionState, error: unknown): Promise<void> {
+    const state = session.failover!;
+    const { policy, config } = state;
+    const maxFailovers = policy.maxFailovers ?? 2;
+    const reason = error instanceof Error ? error.message : String(error);
+
+    if (state.failovers >= maxFailovers) {
+      throw new SDKError(
+        `Host ${session.provider} failed after ${state.failovers} failover(s): ${reason}`,
+        'FAILOVER_FAILED',
+        { originalError: error }
+      );
+    }
+    if (!this.hostSelectionService) {
+      throw new SDKError(
+        `Host ${session.provider} failed and no host selection service is set: ${reason}`,
+        'FAILOVER_FAILED',
+        { originalError: error }
+      );
+    }
+
+    console.warn(`[SessionManager] Host ${session.provider} failed, failing over session ${session.sessionId}: ${reason}`);
+    const recovered = await this._recoverForFailover(session);
+
+    await this.endSession(session.sessionId);
+    if (policy.settleFailedSession !== false) {
+      try {
+        await this.completeSession(session.sessionId, Math.max(session.totalTokens, recovered.tokenCount), ethers.ZeroHash);
+      } catch (err) {
+        console.warn(`[SessionManager] Failover: could not settle session ${session.sessionId}:`, err);
+      }
+    }
+
+    const excludedHosts = [...state.excludedHosts, session.provider.toLowerCase()];
+    const mode = policy.mode ?? await this.storageManager.getHostSelectionMode();
+    const ranked = await this.hostSelectionService.getRankedHostsForModel(
+      convertModelToBytes32(config.modelId),
+      mode === HostSelectionMode.SPECIFIC ? HostSelectionMode.AUTO : mode
+    );
+
+    for (const { host } of ranked) {
+      if (!host.isActive || excludedHosts.includes(host.address.toLowerCase())) {
+        continue;
+      }
+      const endpoint = host.apiUrl && this.endpointTransform ? this.endpointTransform(host.apiUrl) : host.apiUrl;
+      const health = await this._checkHostHealth(endpoint);
+      if (health.status === 'unreachable' || health.status === 'unhealthy') {
+        excludedHosts.push(host.address.toLowerCase());
+        continue;
+      }
+
+      let next: { sessionId: bigint };
+      try {
+        next = await this.startSession({ ...config, host: host.address, endpoint, failover: undefined });
+      } catch (err) {
+        console.warn(`[SessionManager] Failover: could not start a session on ${host.address}:`, err);
+        excludedHosts.push(host.address.toLowerCase());
+        continue;
+      }
+
+      const nextSession = this.sessions.get(next.sessionId.toString())!;
+      nextSession.failover = { policy, config, failovers: state.failovers + 1, excludedHosts };
+      nextSession.carriedContext = recovered.messages;
+      nextSession.lastHostHealth = health;
+      // The spend cap covers the conversation, not each host's session
+      nextSession.spent = session.spent ?? 0n;
+      nextSession.budget = session.budget && { maxSpend: session.budget.maxSpend };
+      for (const message of recovered.messages) {
+        if (message.role === 'user') nextSession.prompts.push(message.content);
+        if (message.role === 'assistant') nextSession.responses.push(message.content);
+        await this.storageManager.appendMessage(next.sessionId.toString(), message)
+          .catch(err => console.warn('[SessionManager] Failover: failed to store recovered message:', err));
+      }
+      session.failedOverTo = next.sessionId;
+
+      policy.onFailover?.({
+        previousSessionId: session.sessionId,
+        sessionId: next.sessionId,
+        previousHost: session.provider,
+        host: host.address,
+        reason,
+        recoveredMessages: recovered.messages.length,
+        recoverySource: recovered.source
+      });
+      return;
+    }
+
+    throw new SDKError(
+      `Host ${session.provider} failed and no other host could take session ${session.sessionId}: ${reason}`,
+      'FAILOVER_FAILED',
+      { originalError: error }
+    );
+  }
+
+  /**
+   * Conversation of a failed session, from host checkpoints when they can
+   * still be fetched, else from the prompts and responses of this session.
+   * The pending prompt is left out; it is replayed on the new host.
+   */
+  private async _recoverForFailover(session: SessionState): Promise<{
+    messages: Message[];
+    tokenCount: number;
+    source: 'checkpoints' | 'local';
+  }> {
+    try {
+      const recovered = await this.recoverFromCheckpoints(session.sessionId);
+      if (recovered.messages.length > 0) {
+        return { messages: recovered.messages, tokenCount: recovered.tokenCount, source: 'checkpoints' };
+      }
+    } catch (err) {
+      console.warn(`[SessionManager] Failover: checkpoints of session ${session.sessionId} unavailable, using local history:`, err);
+    }
+
+    const messages: Message[] = [];
+    const timestamp = Date.now();
+    for (let i = 0; i < session.responses.length; i++) {
+      messages.push({ role: 'user', content: session.prompts[i], timestamp });
+      messages.push({ role: 'assistant', content: session.responses[i], timestamp });
+    }
+    return { messages, tokenCount: 0, source: 'local' };
+  }
+
+  /**
+   * Prompt preceded by the conversation carried over from a failed session,
+   * or by the branch before a regenerated prompt
+   */
+  private _withCarriedContext(session: SessionState, prompt: string): string {
+    if (!session.carriedContext?.length) {
+      return prompt;
+    }
+    const roles = { user: 'User', assistant: 'Assistant', system: 'System' };
+    const transcript = session.carriedContext
+      .map(message => `${roles[message.role]}: ${message.content}`)
+      .join('\n\n');
+    return `Conversation so far:\n\n${transcript}\n\nUser: ${prompt}`;
+  }
+
+  // =============================================================================
+  // Hedged Requests
+  // =============================================================================
+
+  /**
+   * Open sessions for a model on the two best ranked hosts, to race prompts
+   * across them with PromptOptions.hedgeSessionId
+   *
+   * config.host, when given, is the primary host; otherwise the best ranked
+   * host is. Each session takes its own deposit.
+   *
+   * @throws SDKError with code 'NO_HOSTS_AVAILABLE' when fewer than two active hosts serve the model
+   * @throws SDKError with code 'HEDGE_SESSION_FAILED' when no second session could be opened;
+   *   details hold the primary sessionId and jobId, which stays open
+   */
+  async startHedgedSessions(config: ExtendedSessionConfig): Promise<HedgedSessions> {
+    if (!this.hostSelectionService) {
+      throw new SDKError('HostSelectionService not set — call setHostSelectionService() first', 'HOST_SELECTION_NOT_SET');
+    }
+
+    const mode = await this.storageManager.getHostSelectionMode();
+    const ranked = await this.hostSelectionService.getRankedHostsForModel(
+      convertModelToBytes32(config.modelId),
+      mode === HostSelectionMode.SPECIFIC ? HostSelectionMode.AUTO : mode
+    );
+    const hosts = ranked.map(({ host }) => host).filter(host => host.isActive);
+    const primaryHost = config.host
+      ? hosts.find(host => host.address.toLowerCase() === config.host.toLowerCase())
+      : hosts[0];
+    const primaryAddress = (config.host || primaryHost?.address || '').toLowerCase();
+    const candidates = hosts.filter(host => host.address.toLowerCase() !== primaryAddress);
+    if (!primaryAddress || candidates.length === 0) {
+      throw new SDKError(`Hedged sessions need two active hosts for model "${config.modelId}"`, 'NO_HOSTS_AVAILABLE');
+    }
+
+    const endpointOf = (apiUrl: string) => apiUrl && this.endpointTransform ? this.endpointTransform(apiUrl) : apiUrl;
+    const primary = await this.startSession(primaryHost && !config.host
+      ? { ...config, host: primaryHost.address, endpoint: endpointOf(primaryHost.apiUrl) }
+      : config);
+
+    for (const host of candidates) {
+      try {
+        const hedge = await this.startSession({ ...config, host: host.address, endpoint: endpointOf(host.apiUrl) });
+        return { ...primary, hedgeSessionId: hedge.sessionId, hedgeJobId: hedge.jobId };
+      } catch (err) {
+        console.warn(`[SessionManager] Hedge: could not start a session on ${host.address}:`, err);
+      }
+    }
+    throw new SDKError(
+      `Could not open a hedge session for model "${config.modelId}"`,
+      'HEDGE_SESSION_FAILED',
+      { sessionId: primary.sessionId, jobId: primary.jobId }
+    );
+  }
+
+  /**
+   * Stream a prompt on two sessions at once and keep the one that streams
+   * first; the other is aborted and the tokens its host generated are
+   * reported as overhead in TokenUsageInfo.hedge
+   */
+  private async _streamHedged(
+    sessionId: bigint,
+    prompt: string,
+    onToken: ((token: string) => void) | undefined,
+    options: PromptOptions
+  ): Promise<string> {
+    const hedgeSessionId = options.hedgeSessionId!;
+    const primary = this.sessions.get(sessionId.toString());
+    const hedge = this.sessions.get(hedgeSessionId.toString());
+    if (!primary || !hedge) {
+      throw new SDKError('Session not found', 'SESSION_NOT_FOUND');
+    }
+    if (primary.provider.toLowerCase() === hedge.provider.toLowerCase()) {
+      throw new SDKError('hedgeSessionId must be a session with a different host', 'INVALID_PROMPT_OPTIONS');
+    }
+    // Both legs continue the same conversation (carried over after a failover or a regenerated prompt's branch)
+    hedge.carriedContext = primary.carriedContext;
+
+    type Leg = {
+      sessionId: bigint;
+      controller: AbortController;
+      tokens: number;
+      lost?: boolean;
+      response?: string;
+      error?: unknown;
+    };
+    const legs: Leg[] = [sessionId, hedgeSessionId].map(id => ({ sessionId: id, controller: new AbortController(), tokens: 0 }));
+    const startedAt = Date.now();
+    let winner: Leg | undefined;
+    let winnerUsage: TokenUsageInfo | undefined;
+    let firstTokenMs = 0;
+
+    // First leg to stream a token (or to finish) wins; the other is aborted
+    const claim = (leg: Leg): boolean => {
+      if (!winner) {
+        winner = leg;
+        firstTokenMs = Date.now() - startedAt;
+        for (const other of legs.filter(other => other !== leg)) {
+          other.lost = true;
+          other.controller.abort();
+        }
+      }
+      return winner === leg;
+    };
+
+    const runLeg = async (leg: Leg): Promise<string> => {
+      const lane = new ConnectionLane();
+      // Subscribe before the leg sends stream_cancel, so the host's final count is not missed
+      const cancelledTokens = new Promise<number | undefined>(resolve => {
+        leg.controller.signal.addEventListener('abort', () => {
+          resolve(lane.wsClient?.isConnected() ? this._awaitStreamEndTokens(lane.wsClient) : undefined);
+        }, { once: true });
+      });
+      try {
+        return await this._streamPromptToHost(leg.sessionId, prompt, (token) => {
+          leg.tokens++;
+          if (claim(leg)) onToken?.(token);
+        }, {
+          ...options,
+          hedgeSessionId: undefined,
+          signal: leg.controller.signal,
+          onTokenUsage: (usage) => {
+            if (claim(leg)) winnerUsage = usage;
+          }
+        }, lane);
+      } finally {
+        if (leg.lost) {
+          leg.tokens = Math.max(leg.tokens, (await cancelledTokens) ?? 0);
+        }
+        await lane.close();
+      }
+    };
+
+    const abortAll = () => legs.forEach(leg => leg.controller.abort());
+    if (options.signal?.aborted) abortAll();
+    options.signal?.addEventListener('abort', abortAll, { once: true });
+    try {
+      await Promise.all(legs.map(leg => runLeg(leg).then(
+        (response) => {
+          claim(leg);
+          leg.response = response;
+        },
+        (error) => {
+          leg.error = error;
+        }
+      )));
+    } finally {
+      options.signal?.removeEventListener('abort', abortAll);
+    }
+
+    // No leg produced a response: report the primary's error
+    if (!winner) throw legs[0].error;
+    if (winner.error !== undefined) throw winner.error;
+    // The winner has delivered the carried context; later prompts continue from its response
+    primary.carriedContext = undefined;
+    hedge.carriedContext = undefined;
+
+    const loser = legs.find(leg => leg !== winner)!;
+    const loserSession = this.sessions.get(loser.sessionId.toString());
+    if (loserSession) {
+      loserSession.totalTokens += loser.tokens;
+    }
+    if (winnerUsage) {
+      winnerUsage.hedge = {
+        winnerSessionId: winner.sessionId,
+        loserSessionId: loser.sessionId,
+        firstTokenMs,
+        overheadTokens: loser.tokens,
+        overheadCost: loserSession?.pricePerToken
+          ? this.calculateCost(loser.tokens, loserSession.pricePerToken)
+          : undefined
+      };
+      options.onTokenUsage?.(winnerUsage);
+    }
+    return winner.response!;
+  }
+
+  /**
+   * tokens_used of the next stream_end, which a host sends after a
+   * stream_cancel (undefined after the 3s stream_end safety window)
+   */
+  private _awaitStreamEndTokens(ws: WebSocketClient): Promise<number | undefined> {
+    return new Promise(resolve => {
+      const timeout = setTimeout(() => {
+        unsubscribe();
+        resolve(undefined);
+      }, 3000);
+      const unsubscribe = ws.onMessage((data: any) => {
+        if (data.type === 'stream_end') {
+          clearTimeout(timeout);
+          unsubscribe();
+          resolve(data.tokens_used);
+        }
+      });
+    });
+  }
+
+  // =============================================================================
+  // Conversation Branching
+  // =============================================================================
+
+  /**
+   * Get every branch of a session's conversation.
+   *
+   * Completed prompts are recorded as messages with ids and parent pointers.
+   * Editing an earlier message (forkAt) or regenerating a response starts a
+   * sibling branch. The session history (prompts/responses, used for
+   * failover and recovery) follows the active branch.
+   */
+  getConversationTree(sessionId: bigint): ConversationTree {
+    const conversation = this._conversation(this._branchingSession(sessionId));
+    return { messages: [...conversation.messages], activeMessageId: conversation.activeMessageId };
+  }
+
+  /**
+   * Get the messages of the active branch, first to last
+   */
+  getActiveBranch(sessionId: bigint): ConversationNode[] {
+    const conversation = this._conversation(this._branchingSession(sessionId));
+    return getBranchPath(conversation.messages, conversation.activeMessageId);
+  }
+
+  /**
+   * Get a message and its alternatives: the other replies to the same parent
+   */
+  getMessageSiblings(sessionId: bigint, messageId: string): MessageSiblings {
+    const conversation = this._conversation(this._branchingSession(sessionId));
+    const message = this._findMessage(conversation, messageId);
+    const siblings = getChildMessages(conversation.messages, message.parentId);
+    return { siblings, index: siblings.findIndex(m => m.id === messageId) };
+  }
+
+  /**
+   * Fork the conversation at a message: the next prompt becomes a new
+   * sibling of messageId instead of continuing the active branch. To edit a
+   * message, fork at it and send the edited prompt. Pass null to restart
+   * from an empty context on a new root branch. Hosts keep no history;
+   * sessions with a compaction policy send the new branch with the next prompt.
+   *
+   * @returns The message the next prompt will reply to
+   */
+  async forkAt(sessionId: bigint, messageId: string | null): Promise<string | null> {
+    const session = this._branchingSession(sessionId);
+    const conversation = this._conversation(session);
+    const parentId = messageId === null ? null : this._findMessage(conversation, messageId).parentId;
+    await this._setActiveMessage(session, parentId);
+    return parentId;
+  }
+
+  /**
+   * Switch to the branch through messageId (e.g. a sibling from
+   * getMessageSiblings). The cursor moves to the newest message below it.
+   *
+   * @returns The messages of the new active branch
+   */
+  async switchBranch(sessionId: bigint, messageId: string): Promise<ConversationNode[]> {
+    const session = this._branchingSession(sessionId);
+    const conversation = this._conversation(session);
+    this._findMessage(conversation, messageId);
+    await this._setActiveMessage(session, getLatestLeaf(conversation.messages, messageId));
+    return getBranchPath(conversation.messages, conversation.activeMessageId);
+  }
+
+  /**
+   * Generate a new response to the prompt of an assistant message (default:
+   * the last response on the active branch). The new response is added as a
+   * sibling of the old one and becomes the active branch; the old one stays
+   * reachable through getMessageSiblings/switchBranch.
+   *
+   * The stored prompt text is resent with sendPromptStreaming, preceded by
+   * the conversation before it on its branch (hosts only see the prompt
+   * text). Images are not stored with messages; pass them again in options
+   * if needed.
+   */
+  async regenerateResponse(
+    sessionId: bigint,
+    messageId?: string,
+    onToken?: (token: string) => void,
+    options?: PromptOptions
+  ): Promise<unknown> {
+    const session = this._branchingSession(sessionId);
+    const conversation = this._conversation(session);
+    const response = messageId !== undefined
+      ? this._findMessage(conversation, messageId)
+      : getBranchPath(conversation.messages, conversation.activeMessageId).filter(m => m.role === 'assistant').pop();
+    const prompt = response?.parentId != null
+      ? conversation.messages.find(m => m.id === response.parentId)
+      : undefined;
+    if (!response || response.role !== 'assistant' || !prompt || prompt.role !== 'user') {
+      throw new SDKError('No response to regenerate', 'INVALID_MESSAGE_ID', { messageId });
+    }
+
+    // The prompt is resent from its own context; _recordTurn attaches the new response to it
+    const previousActive = conversation.activeMessageId;
+    const previousContext = session.carriedContext;
+    conversation.activeMessageId = prompt.parentId;
+    this._syncActiveBranch(session);
+    conversation.regenerateFrom = prompt.id;
+    if (!session.compaction) {
+      // Compacted sessions already send the active branch with each prompt
+      const context = getBranchPath(conversation.messages, prompt.parentId);
+      session.carriedContext = context.length > 0 ? context : undefined;
+    }
+    try {
+      return await this.sendPromptStreaming(session.sessionId, prompt.content, onToken, options);
+    } finally {
+      if (conversation.regenerateFrom) {
+        // Prompt failed before a response was recorded
+        conversation.regenerateFrom = undefined;
+        conversation.activeMessageId = previousActive;
+        session.carriedContext = previousContext;
+        this._syncActiveBranch(session);
+      }
+    }
+  }
+
+  /**
+   * Session of a branching call; follows failovers
+   */
+  private _branchingSession(sessionId: bigint): SessionState {
+    const session = this.sessions.get(this._resolveSessionId(sessionId).toString());
+    if (!session) {
+      throw new SDKError('Session not found', 'SESSION_NOT_FOUND');
+    }
+    return session;
+  }
+
+  /**
+   * The session's conversation tree, built on first use from the linear
+   * prompt/response history. With pendingTurn the last pair is the turn
+   * being recorded and is left out.
+   */
+  private _conversation(session: SessionState, pendingTurn = false): ConversationState {
+    if (!session.conversation) {
+      const turns = Math.min(session.prompts.length, session.responses.length) - (pendingTurn ? 1 : 0);
+      const history: Message[] = [];
+      for (let i = 0; i < turns; i++) {
+        history.push({ role: 'user', content: session.prompts[i], timestamp: session.startTime });
+        history.push({ role: 'assistant', content: session.responses[i], timestamp: session.startTime });
+      }
+      const messages = withMessageIds(history);
+      session.conversation = {
+        messages,
+        activeMessageId: messages.length > 0 ? messages[messages.length - 1].id : null
+      };
+    }
+    return session.conversation;
+  }
+
+  private _findMessage(conversation: ConversationState, messageId: string): ConversationNode {
+    const message = conversation.messages.find(m => m.id === messageId);
+    if (!message) {
+      throw new SDKError(`Message ${messageId} not found in conversation`, 'INVALID_MESSAGE_ID', { messageId });
+    }
+    return message;
+  }
+
+  /**
+   * Add a completed turn to the active branch and return the messages to store.
+   * When regenerating, the prompt message already exists and only the new
+   * response is added, as its latest reply. A template reference is stored
+   * in the prompt message's metadata.
+   */
+  private _recordTurn(
+    session: SessionState,
+    userMessage: Message,
+    assistantMessage: Message,
+    template?: PromptTemplateRef
+  ): ConversationNode[] {
+    const conversation = this._conversation(session, true);
+    const recorded: ConversationNode[] = [];
+    let parentId = conversation.activeMessageId;
+    if (conversation.regenerateFrom) {
+      parentId = conversation.regenerateFrom;
+      conversation.regenerateFrom = undefined;
+    } else {
+      const user: ConversationNode = { ...userMessage, id: createMessageId(), parentId };
+      if (template) {
+        user.metadata = { ...user.metadata, template };
+      }
+      recorded.push(user);
+      parentId = user.id;
+    }
+    recorded.push({ ...assistantMessage, id: createMessageId(), parentId });
+
+    conversation.messages.push(...recorded);
+    conversation.activeMessageId = recorded[recorded.length - 1].id;
+    this._syncActiveBranch(session);
+    return recorded;
+  }
+
+  /**
+   * Move the cursor and persist it alongside the stored conversation
+   */
+  private async _setActiveMessage(session: SessionState, messageId: string | null): Promise<void> {
+    this._conversation(session).activeMessageId = messageId;
+    this._syncActiveBranch(session);
+    await this.storageManager.setActiveMessage(session.sessionId.toString(), messageId)
+      .catch(err => console.warn('[SessionManager] Failed to store active branch:', err));
+  }
+
+  /**
+   * Point prompts/responses (the context sent to hosts) at the active branch
+   */
+  private _syncActiveBranch(session: SessionState): void {
+    const conversation = this._conversation(session);
+    const branch = getBranchPath(conversation.messages, conversation.activeMessageId);
+    session.prompts = branch.filter(m => m.role === 'user').map(m => m.content);
+    session.responses = branch.filter(m => m.role === 'assistant').map(m => m.content);
+  }
+
+  // =============================================================================
+  // Context Compaction
+  // =============================================================================
+
+  /**
+   * Prompt text with the conversation it continues. Sessions with a
+   * compaction policy send the active branch, with a rolling summary in
+   * place of older turns once the context fills up; other sessions only
+   * carry context over after a failover.
+   */
+  private async _withConversationContext(session: SessionState, prompt: string): Promise<string> {
+    if (!session.compaction) {
+      return this._withCarriedContext(session, prompt);
+    }
+    try {
+      await this._compactIfNeeded(session, prompt);
+    } catch (err) {
+      // The full context is still sent; the host reports if it no longer fits
+      console.warn(`[SessionManager] Compaction of session ${session.sessionId} failed, sending full context:`, err);
+    }
+    const { summary, recent } = this._compactionView(session);
+    return buildCompactedPrompt(summary, recent, prompt);
+  }
+
+  /**
+   * Summary and the active-branch messages after it. A summary of turns no
+   * longer on the active branch (after forkAt/switchBranch) is dropped.
+   */
+  private _compactionView(session: SessionState): { summary?: string; recent: ConversationNode[] } {
+    const state = session.compaction!;
+    const conversation = this._conversation(session);
+    const branch = getBranchPath(conversation.messages, conversation.activeMessageId);
+    const covered = state.throughMessageId ? branch.findIndex(m => m.id === state.throughMessageId) : -1;
+    if (state.throughMessageId && covered < 0) {
+      Object.assign(state, {
+        summary: undefined, throughMessageId: undefined,
+        compactedMessages: 0, compactedTokens: 0, summaryTokens: 0
+      });
+    }
+    return { summary: state.summary, recent: branch.slice(covered + 1) };
+  }
+
+  /**
+   * Fold older turns into the summary when the projected prompt crosses the
+   * policy threshold of the context window
+   */
+  private async _compactIfNeeded(session: SessionState, prompt: string): Promise<void> {
+    const state = session.compaction!;
+    const { policy } = state;
+    const contextWindowSize = session.contextWindowSize ?? policy.contextWindowSize;
+    if (!contextWindowSize || contextWindowSize <= 0) return;
+
+    const { summary, recent } = this._compactionView(session);
+    const projected = await this.countPromptTokens(session.sessionId, buildCompactedPrompt(summary, recent, prompt));
+    if (projected / contextWindowSize < (policy.threshold ?? DEFAULT_COMPACTION_THRESHOLD)) return;
+
+    const count = countCompactableMessages(recent, policy.keepRecentTurns ?? DEFAULT_KEEP_RECENT_TURNS);
+    if (count === 0) return;
+    const compacted = recent.slice(0, count);
+
+    const summarySession = this.sessions.get(this._resolveSessionId(policy.summarySessionId ?? session.sessionId).toString());
+    if (!summarySession || summarySession.status !== 'active') {
+      throw new SDKError(`Summary session ${policy.summarySessionId} is not active`, 'COMPACTION_FAILED');
+    }
+    const nextSummary = (await this._restInference(summarySession, buildSummaryPrompt(summary, compacted), {
+      maxTokens: policy.maxSummaryTokens ?? DEFAULT_SUMMARY_MAX_TOKENS,
+      temperature: 0.2
+    })).trim();
+
+    state.summary = nextSummary;
+    state.throughMessageId = compacted[compacted.length - 1].id;
+    state.compactedMessages += compacted.length;
+    state.compactedTokens += await this.countPromptTokens(session.sessionId, formatTranscript(compacted));
+    state.summaryTokens = await this.countPromptTokens(session.sessionId, nextSummary);
+    state.compactions++;
+    state.lastCompactedAt = Date.now();
+
+    policy.onCompaction?.(this._compactionInfo(state)!);
+  }
+
+  private _compactionInfo(state: CompactionState | undefined): CompactionInfo | undefined {
+    if (!state?.summary) return undefined;
+    return {
+      summary: state.summary,
+      compactedMessages: state.compactedMessages,
+      compactedTokens: state.compactedTokens,
+      summaryTokens: state.summaryTokens,
+      compactions: state.compactions,
+      lastCompactedAt: state.lastCompactedAt!
+    };
+  }
+
+  // =============================================================================
+  // Cost Estimation and Spend Caps
+  // =============================================================================
+
+  /**
+   * Estimate what a prompt may cost before sending it, at the host's current
+   * price for the session model (resolveModelPricePerToken). Hosts bill the
+   * tokens they generate, so the estimate is the cost of the maxTokens limit.
+   *
+   * @throws SDKError SESSION_NOT_FOUND, or PRICE_UNAVAILABLE when no price is known
+   */
+  async estimatePromptCost(
+    sessionId: bigint,
+    prompt: string,
+    options?: PromptOptions
+  ): Promise<PromptCostEstimate> {
+    const session = this.sessions.get(this._resolveSessionId(sessionId).toString());
+    if (!session) {
+      throw new SDKError('Session not found', 'SESSION_NOT_FOUND');
+    }
+
+    let pricePerToken: bigint;
+    if (this.hostManager && session.provider && session.modelId) {
+      pricePerToken = await this.resolveModelPricePerToken(
+        session.provider,
+        session.modelId,
+        session.paymentToken || ethers.ZeroAddress
+      );
+    } else if (session.pricePerToken) {
+      pricePerToken = BigInt(session.pricePerToken);
+    } else {
+      throw new SDKError('No price known for the session model', 'PRICE_UNAVAILABLE', { sessionId });
+    }
+
+    const maxCompletionTokens = options?.maxTokens ?? LLM_MAX_TOKENS;
+    const maxCost = (BigInt(maxCompletionTokens) * pricePerToken) / PRICE_PRECISION;
+    const spent = session.spent ?? 0n;
+    const remainingBudget = session.budget ? this._remainingBudget(session) : undefined;
+
+    return {
+      promptTokens: await this.countPromptTokens(session.sessionId, prompt),
+      maxCompletionTokens,
+      pricePerToken,
+      maxCost,
+      spent,
+      remainingBudget,
+      withinBudget: remainingBudget === undefined || maxCost <= remainingBudget
+    };
+  }
+
+  /**
+   * Add the cost of billed tokens to the session spend
+   *
+   * @returns Cost of the tokens, or undefined when the session price is unknown
+   */
+  private _recordSpend(session: SessionState, tokens: number): bigint | undefined {
+    if (!session.pricePerToken) {
+      return undefined;
+    }
+    const cost = this.calculateCost(tokens, session.pricePerToken);
+    session.spent = (session.spent ?? 0n) + cost;
+    return cost;
+  }
+
+  /**
+   * REST responses carry no token usage: with a spend cap, charge the
+   * response by counting its tokens
+   */
+  private async _recordRestSpend(session: SessionState, response: string): Promise<void> {
+    if (session.budget) {
+      this._recordSpend(session, await this.countPromptTokens(session.sessionId, response));
+    }
+  }
+
+  private _remainingBudget(session: SessionState): bigint {
+    const remaining = session.budget!.maxSpend - (session.spent ?? 0n);
+    return remaining > 0n ? remaining : 0n;
+  }
+
+  /**
+   * Tokens the remaining budget pays for at the price the session job was created with
+   */
+  private _affordableTokens(session: SessionState): number {
+    if (!session.pricePerToken) {
+      return Number.MAX_SAFE_INTEGER;
+    }
+    const tokens = (this._remainingBudget(session) * PRICE_PRECISION) / BigInt(session.pricePerToken);
+    return tokens > BigInt(Number.MAX_SAFE_INTEGER) ? Number.MAX_SAFE_INTEGER : Number(tokens);
+  }
+
+  /**
+   * @throws BudgetExceededError when the session cannot pay for another token
+   */
+  private _assertBudgetAvailable(session: SessionState): void {
+    if (session.budget && this._affordableTokens(session) < 1) {
+      throw new BudgetExceededError(
+        `Session ${session.sessionId} has reached its spend cap of ${session.budget.maxSpend}`,
+        session.budget.maxSpend,
+        session.spent ?? 0n
+      );
+    }
+  }
+
+  /**
+   * Pre-flight spend cap check. Lowers maxTokens to what the remaining
+   * budget pays for, so the host stops generating at the cap.
+   *
+   * @throws BudgetExceededError when the session cannot pay for another token
+   */
+  private _applyBudget(session: SessionState, options?: PromptOptions): PromptOptions | undefined {
+    if (!session.budget) {
+      return options;
+    }
+    this._assertBudgetAvailable(session);
+    const affordable = this._affordableTokens(session);
+    const requested = options?.maxTokens ?? LLM_MAX_TOKENS;
+    session.budget.limitedTo = affordable < requested ? affordable : undefined;
+    return session.budget.limitedTo === undefined ? options : { ...options, maxTokens: affordable };
+  }
+
+  /**
+   * Throw when the prompt's generation was stopped at the spend cap
+   *
+   * @throws BudgetExceededError with the response generated up to the cap
+   */
+  private _checkBudgetAfterPrompt(sessionId: bigint, response: string): void {
+    const session = this.sessions.get(this._resolveSessionId(sessionId).toString());
+    const budget = session?.budget;
+    if (!session || budget?.limitedTo === undefined) {
+      return;
+    }
+    budget.limitedTo = undefined;
+    if (this._affordableTokens(session) < 1) {
+      throw new BudgetExceededError(
+        `Generation stopped at the spend cap of ${budget.maxSpend} for session ${session.sessionId}`,
+        budget.maxSpend,
+        session.spent ?? 0n,
+        response
+      );
+    }
+  }
+
   // =============================================================================
   // Session Status Handler (Phase 14.3)
   // =============================================================================
@@ -4119,11 +5866,11 @@ export class SessionManager implements ISessionManager {
    * Set up persistent WebSocket listener for session_status, proof_submitted,
    * and checkpoint_submitted messages. Converts all formats to SessionStatusInfo.
    */
-  private _setupSessionStatusHandler(): void {
-    if (this.sessionStatusUnsubscribe) this.sessionStatusUnsubscribe();
-    if (!this.wsClient) return;
+  private _setupSessionStatusHandler(lane: ConnectionLane = this.connection): void {
+    if (lane.sessionStatusUnsubscribe) lane.sessionStatusUnsubscribe();
+    if (!lane.wsClient) return;
 
-    const unsubscribe = this.wsClient.onMessage((data: any) => {
+    const unsubscribe = lane.wsClient.onMessage((data: any) => {
       const callback = this.sessionStatusCallback;
       if (data.type === 'session_status') {
         this._processSessionStatus(data, callback);
@@ -4141,7 +5888,7 @@ export class SessionManager implements ISessionManager {
         }, callback);
       }
     });
-    this.sessionStatusUnsubscribe = unsubscribe;
+    lane.sessionStatusUnsubscribe = unsubscribe;
   }
 
   /**
@@ -18,7 +18,8 @@ import {
   Message,
   UserSettings,
   PartialUserSettings,
-  UserSettingsVersion
+  UserSettingsVersion,
+  PromptTemplateRef
 } from '../types';
 import { HostSelectionMode } from '../types/settings.types';
 import { ModelInfo } from '../types/models';
@@ -30,6 +31,7 @@ import { getParentPath, getAncestorPaths } from '../storage/path-validator.js';
 import { SEED_MESSAGE } from '../utils/s5-seed-derivation';
 import { registerS5WithBackend } from '../utils/s5-secure-registration';
 import { AsyncMutex } from '../utils/AsyncMutex';
+import { withMessageIds } from '../conversation/conversation-tree';
 
 export interface Exchange {
   prompt: string;
@@ -914,8 +916,22 @@ export class StorageManager implements IStorageManager {
           };
         }
 
-        // Append message
+        // Append message; a message with an id becomes the end of the active branch
         conversation.messages.push(message);
+        if (message.id) {
+          conversation.metadata = { ...conversation.metadata, activeMessageId: message.id };
+        }
+        // Templates used in the conversation, once per template version
+        const template: PromptTemplateRef | undefined = message.metadata?.template;
+        if (template) {
+          const used: PromptTemplateRef[] = conversation.metadata?.promptTemplates ?? [];
+          if (!used.some(t => t.templateId === template.templateId && t.version === template.version)) {
+            conversation.metadata = {
+              ...conversation.metadata,
+              promptTemplates: [...used, { templateId: template.templateId, version: template.version }]
+            };
+          }
+        }
         conversation.updatedAt = Date.now();
 
         // Save using internal method (already under lock, no need for double-locking)
@@ -930,6 +946,48 @@ export class StorageManager implements IStorageManager {
     });
   }
 
+  /**
+   * Move the active-branch cursor of a branching conversation.
+   *
+   * The cursor (metadata.activeMessageId) is the last message of the branch
+   * the user is on; the next appended message replies to it. Use
+   * getActiveBranch() from the conversation tree helpers to read the branch.
+   *
+   * @param conversationId - The conversation ID
+   * @param messageId - Message to make the end of the active branch (null: start a new root branch)
+   * @throws SDKError if the conversation or message does not exist
+   */
+  async setActiveMessage(conversationId: string, messageId: string | null): Promise<void> {
+    if (!this.initialized) {
+      throw new SDKError('StorageManager not initialized', 'STORAGE_NOT_INITIALIZED');
+    }
+
+    return this.withConversationLock(conversationId, async () => {
+      const conversation = await this.loadConversation(conversationId);
+      if (!conversation) {
+        throw new SDKError(`Conversation ${conversationId} not found`, 'CONVERSATION_NOT_FOUND');
+      }
+      if (messageId !== null && !withMessageIds(conversation.messages).some(m => m.id === messageId)) {
+        throw new SDKError(
+          `Message ${messageId} not found in conversation ${conversationId}`,
+          'MESSAGE_NOT_FOUND'
+        );
+      }
+
+      try {
+        conversation.metadata = { ...conversation.metadata, activeMessageId: messageId };
+        conversation.updatedAt = Date.now();
+        await this._saveConversationInternal(conversation);
+      } catch (error: any) {
+        throw new SDKError(
+          `Failed to set active message: ${error.message}`,
+          'STORAGE_UPDATE_ERROR',
+          { originalError: error }
+        );
+      }
+    });
+  }
+
   /**
    * Get conversation history
    */
@@ -15,14 +15,20 @@ import type { S5 } from '@julesl23/s5js';
 import { SessionManager } from './SessionManager';
 import { EncryptionManager } from './EncryptionManager';
 import { IVectorRAGManager } from './interfaces/IVectorRAGManager';
-import { RAGConfig, PartialRAGConfig, VectorRecord, SearchResult, SearchResultWithSource } from '../rag/types';
+import { RAGConfig, PartialRAGConfig, VectorRecord, SearchResult, SearchResultWithSource, MetadataFilter, RetrievalMode } from '../rag/types';
 import { validateRAGConfig, mergeRAGConfig } from '../rag/config';
+import { matchesMetadataFilter, validateMetadataFilter } from '../rag/metadata-filter';
 import { SessionCache } from '../rag/session-cache';
 import { DatabaseMetadataService } from '../database/DatabaseMetadataService';
 import type { DatabaseMetadata } from '../database/types';
 import { PermissionManager } from '../permissions/PermissionManager';
 import type { Vector, VectorDatabaseMetadata, FolderStats } from '../types';
 
+/**
+ * Largest k a host accepts for searchVectors
+ */
+const HOST_MAX_TOP_K = 20;
+
 /**
  * Session status
  */
@@ -117,7 +123,9 @@ export class VectorRAGManager implements IVectorRAGManager {
     this.vectorStore = new S5VectorStore({
       s5Client: options.s5Client,
       userAddress: options.userAddress,
-      encryptionManager: options.encryptionManager
+      encryptionManager: options.encryptionManager,
+      annIndex: options.config.annIndex,
+      hybridSearch: options.config.hybridSearch
     });
   }
 
@@ -398,20 +406,47 @@ export class VectorRAGManager implements IVectorRAGManager {
    * This method delegates to SessionManager which performs search on the host via WebSocket.
    * Vectors must first be uploaded to the host session using SessionManager.uploadVectors().
    *
-   * @param sessionId - Host session ID (NOT VectorRAGManager sessionId)
+   * With a metadata filter, a VectorRAGManager session ID is searched client-side
+   * against its S5 database so the filter applies before ranking. Host sessions
+   * receive the filter with the query; when a host ignores it (returns hits that
+   * do not match), the search is repeated at the host maximum (20) and filtered
+   * here, which can still find fewer than topK matches on such hosts.
+   *
+   * @param sessionId - Host session ID (or VectorRAGManager sessionId when filtering)
    * @param queryVector - Query embedding
    * @param topK - Number of results
    * @param threshold - Similarity threshold
-   * @returns Search results from host
+   * @param filter - Optional metadata filter
+   * @returns Search results
    */
   async search(
     sessionId: string,
     queryVector: number[],
     topK: number = 5,
-    threshold: number = 0.7
+    threshold: number = 0.7,
+    filter?: MetadataFilter
   ): Promise<SearchResult[]> {
-    // Delegate to SessionManager for host-side search
-    return await this.sessionManager.searchVectors(sessionId, queryVector, topK, threshold);
+    if (!filter || Object.keys(filter).length === 0) {
+      // Delegate to SessionManager for host-side search
+      return await this.sessionManager.searchVectors(sessionId, queryVector, topK, threshold);
+    }
+
+    validateMetadataFilter(filter);
+
+    const session = this.getSession(sessionId);
+    if (session) {
+      this.checkPermission(session.databaseName, 'read');
+      const hits = await this.searchDatabaseDirect(session.databaseName, queryVector, topK, threshold, { filter });
+      return hits.map(hit => ({ id: hit.id, vector: hit.vector, metadata: hit.metadata, score: hit.score }));
+    }
+
+    const matching = (results: SearchResult[]) => results.filter(r => matchesMetadataFilter(r.metadata, filter));
+    const hostResults = await this.sessionManager.searchVectors(sessionId, queryVector, topK, threshold, filter);
+    let results = matching(hostResults);
+    if (results.length < hostResults.length && results.length < topK && topK < HOST_MAX_TOP_K) {
+      results = matching(await this.sessionManager.searchVectors(sessionId, queryVector, HOST_MAX_TOP_K, threshold, filter));
+    }
+    return results.slice(0, topK);
   }
 
   /**
@@ -421,9 +456,10 @@ export class VectorRAGManager implements IVectorRAGManager {
     sessionId: string,
     queryVector: number[],
     topK: number = 5,
-    threshold: number = 0.7
+    threshold: number = 0.7,
+    filter?: MetadataFilter
   ): Promise<SearchResult[]> {
-    return await this.search(sessionId, queryVector, topK, threshold);
+    return await this.search(sessionId, queryVector, topK, threshold, filter);
   }
 
   /**
@@ -445,10 +481,55 @@ export class VectorRAGManager implements IVectorRAGManager {
     session.lastAccessedAt = Date.now();
   }
 
+  /**
+   * Search a session's database by keyword or hybrid (BM25 + vector) ranking
+   *
+   * Runs client-side against the S5 database, since the host search protocol
+   * only supports cosine similarity. In 'hybrid' mode the score of each result
+   * is the fused RRF score (weights from `config.hybridSearch`); in 'keyword'
+   * mode it is the BM25 score. 'vector' mode is equivalent to search().
+   *
+   * @param sessionId - VectorRAGManager session ID
+   * @param queryVector - Query embedding
+   * @param queryText - Query text for keyword matching
+   * @param topK - Number of results
+   * @param threshold - Similarity threshold for vector candidates
+   * @param options - Retrieval mode (default: 'hybrid') and optional metadata filter
+   * @returns Search results
+   * @throws Error if the session is not a VectorRAGManager session
+   */
+  async searchHybrid(
+    sessionId: string,
+    queryVector: number[],
+    queryText: string,
+    topK: number = 5,
+    threshold: number = 0.7,
+    options: { mode?: RetrievalMode; filter?: MetadataFilter } = {}
+  ): Promise<SearchResult[]> {
+    const mode = options.mode || 'hybrid';
+    if (mode === 'vector') {
+      return await this.search(sessionId, queryVector, topK, threshold, options.filter);
+    }
+
+    const session = this.getSession(sessionId);
+    if (!session) {
+      throw new Error(`${mode} search requires a VectorRAGManager session (host sessions only support vector search)`);
+    }
+    this.checkPermission(session.databaseName, 'read');
+    if (options.filter) {
+      validateMetadataFilter(options.filter);
+    }
+
+    const hits = mode === 'keyword'
+      ? await this.vectorStore.searchKeyword(session.databaseName, queryText, topK, options.filter)
+      : await this.vectorStore.searchHybrid(session.databaseName, queryVector, queryText, topK, threshold, options.filter);
+    return hits.map(({ vector, score }) => ({ ...vector, score }));
+  }
+
   /**
    * Delete vectors by metadata filter (client-side storage)
    */
-  async deleteByMetadata(sessionId: string, filter: Record<string, any>): Promise<number> {
+  async deleteByMetadata(sessionId: string, filter: MetadataFilter): Promise<number> {
     const session = this.getSession(sessionId);
     if (!session) {
       throw new Error('Session not found');
@@ -620,75 +701,41 @@ export class VectorRAGManager implements IVectorRAGManager {
    * Used for deferred embeddings workflow where we need to search vectors
    * that were stored outside of a RAG session.
    *
+   * Databases at or above `config.annIndex.minVectors` are searched through
+   * the persisted HNSW index; smaller databases (or `options.exact`) use an
+   * exact brute-force cosine scan. `options.filter` is applied before ranking
+   * on both paths.
+   *
    * @param databaseName - Database identifier
    * @param queryVector - Query embedding vector (384 dimensions)
    * @param topK - Number of results to return (default: 5)
    * @param threshold - Minimum similarity threshold (default: 0.7)
+   * @param options - Search options (`exact` forces the brute-force path, `filter` restricts by metadata)
    * @returns Search results with scores and metadata
    */
   async searchDatabaseDirect(
     databaseName: string,
     queryVector: number[],
     topK: number = 5,
-    threshold: number = 0.7
-  ): Promise<Array<{ id: string; score: number; content: string; metadata: any }>> {
+    threshold: number = 0.7,
+    options: { exact?: boolean; filter?: MetadataFilter } = {}
+  ): Promise<Array<{ id: string; score: number; content: string; metadata: any; vector: number[] }>> {
     this.ensureNotDisposed();
 
-    // Load all vectors from database
-    const allVectors = await this.vectorStore.listVectors(databaseName);
-
-    if (allVectors.length === 0) {
-      return [];
+    if (options.filter) {
+      validateMetadataFilter(options.filter);
     }
 
-    // Calculate cosine similarity for each vector
-    const results: Array<{ id: string; score: number; content: string; metadata: any }> = [];
-
-    for (const vector of allVectors) {
-      const similarity = this._cosineSimilarity(queryVector, vector.vector);
+    const hits = (!options.exact && await this.vectorStore.searchApproximate(databaseName, queryVector, topK, threshold, options.filter))
+      || await this.vectorStore.searchExact(databaseName, queryVector, topK, threshold, options.filter);
 
-      if (similarity >= threshold) {
-        results.push({
-          id: vector.id,
-          score: similarity,
-          content: vector.metadata?.text || '',
-          metadata: vector.metadata || {}
-        });
-      }
-    }
-
-    // Sort by similarity score (descending) and take top K
-    results.sort((a, b) => b.score - a.score);
-    return results.slice(0, topK);
-  }
-
-  /**
-   * Calculate cosine similarity between two vectors
-   * @private
-   */
-  private _cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) {
-      throw new Error(`Vector dimension mismatch: ${a.length} vs ${b.length}`);
-    }
-
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
-
-    normA = Math.sqrt(normA);
-    normB = Math.sqrt(normB);
-
-    if (normA === 0 || normB === 0) {
-      return 0;
-    }
-
-    return dotProduct / (normA * normB);
+    return hits.map(({ vector, score }) => ({
+      id: vector.id,
+      score,
+      content: vector.metadata?.text || '',
+      metadata: vector.metadata || {},
+      vector: vector.vector
+    }));
   }
 
   /** Get specific vectors by IDs */
@@ -741,9 +788,20 @@ export class VectorRAGManager implements IVectorRAGManager {
     return await this.vectorStore.moveFolderContents(databaseName, sourceFolder, targetFolder);
   }
 
-  /** Search within a specific folder (requires host support via SessionManager) */
-  async searchInFolder(databaseName: string, folderPath: string, queryVector: number[], k?: number, threshold?: number): Promise<SearchResult[]> {
-    return await this.vectorStore.searchInFolder(databaseName, folderPath, queryVector, k, threshold);
+  /** Search within a folder and its subfolders (client-side, optional extra metadata filter) */
+  async searchInFolder(
+    databaseName: string,
+    folderPath: string,
+    queryVector: number[],
+    k?: number,
+    threshold?: number,
+    filter?: MetadataFilter
+  ): Promise<SearchResult[]> {
+    this.ensureNotDisposed();
+    if (filter) {
+      validateMetadataFilter(filter);
+    }
+    return await this.vectorStore.searchInFolder(databaseName, folderPath, queryVector, k, threshold, filter);
   }
 
   /**
@@ -0,0 +1,219 @@
+/**
+ * BM25 Keyword Index
+ * Inverted index over chunk text with Okapi BM25 scoring
+ * Max 250 lines
+ */
+
+/**
+ * BM25 scoring parameters
+ */
+export interface BM25IndexOptions {
+  /** Term-frequency saturation (default: 1.2) */
+  k1?: number;
+  /** Document-length normalization, 0-1 (default: 0.75) */
+  b?: number;
+}
+
+/**
+ * Single keyword search hit
+ */
+export interface BM25SearchHit {
+  id: string;
+  score: number;
+}
+
+/**
+ * Serialized index format persisted to S5 (index-bm25.json)
+ * `documents[i]` is a flat list of [termIndex, frequency] pairs for `ids[i]`
+ */
+export interface SerializedBM25Index {
+  version: 1;
+  k1: number;
+  b: number;
+  terms: string[];
+  ids: string[];
+  documents: number[][];
+}
+
+// Words joined by identifier punctuation stay one token: JIRA-1234, get_user, v2.1.0
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:[-_.:#/][\p{L}\p{N}]+)*/gu;
+const SEPARATORS = /[-_.:#/]/;
+
+/**
+ * Split text into index terms
+ *
+ * Compound identifiers are kept whole and also split into their parts, and
+ * camelCase identifiers are split on case boundaries, so `ticket 1234`,
+ * `TICKET-1234` and `getUserById` / `user` all find the chunks that mention them.
+ *
+ * @param text - Text to tokenize
+ * @returns Lowercased terms (with repeats, in order)
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const token = match[0];
+    terms.push(token.toLowerCase());
+
+    const parts = token.split(SEPARATORS);
+    for (const part of parts) {
+      const words = part.split(/(?<=[\p{Ll}\p{N}])(?=\p{Lu})/u);
+      if (parts.length > 1) terms.push(part.toLowerCase());
+      if (words.length > 1) {
+        for (const word of words) terms.push(word.toLowerCase());
+      }
+    }
+  }
+  return terms;
+}
+
+/**
+ * Inverted keyword index supporting incremental add/remove and serialization
+ */
+export class BM25Index {
+  readonly k1: number;
+  readonly b: number;
+
+  // id -> term -> frequency (needed to undo postings on remove)
+  private documents = new Map<string, Map<string, number>>();
+  // term -> id -> frequency
+  private postings = new Map<string, Map<string, number>>();
+  private lengths = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(options: BM25IndexOptions = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  /** Number of indexed documents */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  /**
+   * Index a document, replacing any previous text for the same ID
+   */
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const frequencies = new Map<string, number>();
+    const terms = tokenize(text);
+    for (const term of terms) {
+      frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    }
+    this.insert(id, frequencies, terms.length);
+  }
+
+  /**
+   * Remove a document from the index
+   * @returns True if the document was indexed
+   */
+  remove(id: string): boolean {
+    const frequencies = this.documents.get(id);
+    if (!frequencies) return false;
+
+    for (const term of frequencies.keys()) {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) this.postings.delete(term);
+    }
+    this.totalLength -= this.lengths.get(id)!;
+    this.documents.delete(id);
+    this.lengths.delete(id);
+    return true;
+  }
+
+  /**
+   * Rank documents against a keyword query
+   *
+   * @param query - Query text (tokenized like indexed text)
+   * @param k - Maximum number of hits
+   * @param accept - Optional predicate; rejected documents are never returned
+   * @returns Hits with a positive BM25 score, best first
+   */
+  search(query: string, k: number, accept?: (id: string) => boolean): BM25SearchHit[] {
+    const n = this.documents.size;
+    if (n === 0 || k <= 0) return [];
+
+    const avgLength = this.totalLength / n || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (n - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, tf] of posting) {
+        if (accept && !accept(id)) continue;
+        const norm = this.k1 * (1 - this.b + this.b * (this.lengths.get(id)! / avgLength));
+        scores.set(id, (scores.get(id) || 0) + idf * (tf * (this.k1 + 1)) / (tf + norm));
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : 1))
+      .slice(0, k);
+  }
+
+  toJSON(): SerializedBM25Index {
+    const terms = Array.from(this.postings.keys());
+    const termIndex = new Map(terms.map((term, i) => [term, i]));
+    const ids: string[] = [];
+    const documents: number[][] = [];
+
+    for (const [id, frequencies] of this.documents) {
+      const pairs: number[] = [];
+      for (const [term, tf] of frequencies) {
+        pairs.push(termIndex.get(term)!, tf);
+      }
+      ids.push(id);
+      documents.push(pairs);
+    }
+
+    return { version: 1, k1: this.k1, b: this.b, terms, ids, documents };
+  }
+
+  /**
+   * Restore an index produced by toJSON()
+   *
+   * @param data - Serialized index
+   * @throws Error if the format is not recognised
+   */
+  static fromJSON(data: SerializedBM25Index): BM25Index {
+    if (!data || data.version !== 1 || !Array.isArray(data.ids) || !Array.isArray(data.documents)) {
+      throw new Error('Unsupported BM25 index format');
+    }
+
+    const index = new BM25Index({ k1: data.k1, b: data.b });
+    data.ids.forEach((id, i) => {
+      const pairs = data.documents[i];
+      const frequencies = new Map<string, number>();
+      let length = 0;
+      for (let p = 0; p < pairs.length; p += 2) {
+        frequencies.set(data.terms[pairs[p]], pairs[p + 1]);
+        length += pairs[p + 1];
+      }
+      index.insert(id, frequencies, length);
+    });
+    return index;
+  }
+
+  private insert(id: string, frequencies: Map<string, number>, length: number): void {
+    this.documents.set(id, frequencies);
+    this.lengths.set(id, length);
+    this.totalLength += length;
+    for (const [term, tf] of frequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, tf);
+    }
+  }
+}
@@ -5,6 +5,9 @@
  */
 
 import { RAGConfig, PartialRAGConfig } from './types.js';
+import { validateSearchConfig } from './search-config.js';
+
+export { estimateMemoryUsage } from './vector-operations.js';
 
 /**
  * Default RAG configuration
@@ -57,6 +60,9 @@ export function validateRAGConfig(config: PartialRAGConfig): void {
       throw new Error('s5Portal must be a valid URL');
     }
   }
+
+  // Validate ANN index and hybrid search settings
+  validateSearchConfig(config);
 }
 
 /**
@@ -69,8 +75,6 @@ export function validateRAGConfig(config: PartialRAGConfig): void {
 export function mergeRAGConfig(partial: PartialRAGConfig): RAGConfig {
   // Validate before merging
   validateRAGConfig(partial);
-
-  // Merge with defaults
   return {
     ...DEFAULT_RAG_CONFIG,
     ...partial
@@ -94,22 +98,3 @@ export function getS5PortalUrl(config?: PartialRAGConfig): string {
   // Use config or default
   return config?.s5Portal || DEFAULT_RAG_CONFIG.s5Portal;
 }
-
-/**
- * Estimate memory usage for a given number of vectors
- * Based on: 384 dimensions * 4 bytes/float = 1.5KB per vector
- * Plus metadata overhead
- *
- * @param vectorCount - Number of vectors
- * @param dimensionality - Vector dimensions (default: 384)
- * @returns Estimated memory usage in MB
- */
-export function estimateMemoryUsage(
-  vectorCount: number,
-  dimensionality: number = 384
-): number {
-  // Bytes per vector: dimensions * 4 bytes (float32) + metadata overhead (~100 bytes)
-  const bytesPerVector = (dimensionality * 4) + 100;
-  const totalBytes = vectorCount * bytesPerVector;
-  return totalBytes / (1024 * 1024);  // Convert to MB
-}
@@ -0,0 +1,411 @@
+/**
+ * HNSW Index
+ * Hierarchical Navigable Small World graph for approximate nearest-neighbour
+ * search over cosine similarity. Pure TypeScript, browser and Node compatible.
+ * Max 450 lines
+ */
+
+import type { HNSWIndexOptions, HNSWSearchHit, SerializedHNSWIndex } from './hnsw-types';
+import { insertSorted, normalize } from './hnsw-utils';
+import type { HNSWNode, Candidate } from './hnsw-utils';
+
+export type { HNSWIndexOptions, HNSWSearchHit, SerializedHNSWIndex } from './hnsw-types';
+
+/**
+ * HNSW index keyed by string vector IDs
+ */
+export class HNSWIndex {
+  readonly m: number;
+  readonly efConstruction: number;
+  efSearch: number;
+
+  private dimensions = 0;
+  private nodes: Array<HNSWNode | null> = [];
+  private idToSlot = new Map<string, number>();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private rngState: number;
+  private readonly levelMultiplier: number;
+
+  constructor(options: HNSWIndexOptions = {}) {
+    this.m = options.m ?? 16;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.efSearch = options.efSearch ?? 64;
+    this.rngState = (options.seed ?? 42) >>> 0;
+    this.levelMultiplier = 1 / Math.log(this.m);
+
+    if (this.m < 2) {
+      throw new Error('HNSW m must be at least 2');
+    }
+    if (this.efConstruction < 1 || this.efSearch < 1) {
+      throw new Error('HNSW ef values must be positive');
+    }
+  }
+
+  /**
+   * Number of live vectors in the index
+   */
+  get size(): number {
+    return this.idToSlot.size;
+  }
+
+  has(id: string): boolean {
+    return this.idToSlot.has(id);
+  }
+
+  /**
+   * Insert a vector, replacing any existing vector with the same ID
+   */
+  add(id: string, values: ArrayLike<number>): void {
+    if (this.dimensions === 0) {
+      this.dimensions = values.length;
+    } else if (values.length !== this.dimensions) {
+      throw new Error(`Vector dimension mismatch: ${values.length} vs ${this.dimensions}`);
+    }
+
+    if (this.idToSlot.has(id)) {
+      this.remove(id);
+    }
+
+    const level = this.randomLevel();
+    const node: HNSWNode = {
+      id,
+      vector: normalize(values),
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => [])
+    };
+    const slot = this.nodes.length;
+    this.nodes.push(node);
+    this.idToSlot.set(id, slot);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = slot;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entry = this.entryPoint;
+    for (let l = this.maxLevel; l > level; l--) {
+      entry = this.greedyClosest(node.vector, entry, l);
+    }
+
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(node.vector, [entry], this.efConstruction, l);
+      const selected = this.selectNeighbors(node.vector, candidates, this.maxConnections(l));
+      node.neighbors[l] = selected.map(c => c.slot);
+
+      for (const neighbor of selected) {
+        this.connect(neighbor.slot, slot, l);
+      }
+      entry = candidates[0].slot;
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = slot;
+      this.maxLevel = level;
+    }
+  }
+
+  /**
+   * Remove a vector and repair the neighbourhoods that pointed at it
+   *
+   * @returns true if the ID was present
+   */
+  remove(id: string): boolean {
+    const slot = this.idToSlot.get(id);
+    if (slot === undefined) return false;
+
+    const node = this.nodes[slot]!;
+    this.nodes[slot] = null;
+    this.idToSlot.delete(id);
+
+    for (let l = 0; l <= node.level; l++) {
+      const orphans = node.neighbors[l].filter(n => this.nodes[n] !== null);
+      for (const orphan of orphans) {
+        const orphanNode = this.nodes[orphan]!;
+        const pool = new Set(orphanNode.neighbors[l].filter(n => n !== slot && this.nodes[n] !== null));
+        for (const candidate of orphans) {
+          if (candidate !== orphan) pool.add(candidate);
+        }
+        const scored = Array.from(pool).map(n => ({
+          slot: n,
+          distance: this.distance(orphanNode.vector, this.nodes[n]!.vector)
+        }));
+        scored.sort((a, b) => a.distance - b.distance);
+        orphanNode.neighbors[l] = this.selectNeighbors(orphanNode.vector, scored, this.maxConnections(l)).map(c => c.slot);
+      }
+    }
+
+    if (slot === this.entryPoint) {
+      this.reassignEntryPoint();
+    }
+    return true;
+  }
+
+  /**
+   * Approximate k-nearest-neighbour search
+   *
+   * When `accept` is given, rejected vectors are still traversed (so the
+   * graph stays connected) but never returned. Very selective filters need a
+   * larger ef to keep recall up.
+   *
+   * @param query - Query vector (any magnitude)
+   * @param k - Number of results
+   * @param ef - Candidate list size (defaults to max(efSearch, k))
+   * @param accept - Optional predicate restricting which IDs may be returned
+   * @returns Hits sorted by similarity (descending)
+   */
+  search(query: ArrayLike<number>, k: number, ef?: number, accept?: (id: string) => boolean): HNSWSearchHit[] {
+    if (this.entryPoint === -1 || k <= 0) return [];
+    if (query.length !== this.dimensions) {
+      throw new Error(`Vector dimension mismatch: ${query.length} vs ${this.dimensions}`);
+    }
+
+    const q = normalize(query);
+    let entry = this.entryPoint;
+    for (let l = this.maxLevel; l > 0; l--) {
+      entry = this.greedyClosest(q, entry, l);
+    }
+
+    const filter = accept ? (slot: number) => accept(this.nodes[slot]!.id) : undefined;
+    const candidates = this.searchLayer(q, [entry], Math.max(ef ?? this.efSearch, k), 0, filter);
+    return candidates.slice(0, k).map(c => ({
+      id: this.nodes[c.slot]!.id,
+      score: 1 - c.distance
+    }));
+  }
+
+  /**
+   * Serialize the graph (compacting removed slots)
+   */
+  toJSON(): SerializedHNSWIndex {
+    const remap = new Map<number, number>();
+    const ids: string[] = [];
+    const levels: number[] = [];
+    this.nodes.forEach((node, slot) => {
+      if (node) {
+        remap.set(slot, ids.length);
+        ids.push(node.id);
+        levels.push(node.level);
+      }
+    });
+
+    const neighbors: number[][][] = [];
+    for (const node of this.nodes) {
+      if (!node) continue;
+      neighbors.push(node.neighbors.map(layer =>
+        layer.filter(n => remap.has(n)).map(n => remap.get(n)!)
+      ));
+    }
+
+    return {
+      version: 1,
+      dimensions: this.dimensions,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      rngState: this.rngState,
+      entryPoint: this.entryPoint === -1 ? -1 : remap.get(this.entryPoint)!,
+      maxLevel: this.maxLevel,
+      ids,
+      levels,
+      neighbors
+    };
+  }
+
+  /**
+   * Restore a serialized graph
+   *
+   * @param data - Output of toJSON()
+   * @param resolveVector - Looks up the stored vector values for an ID
+   * @throws Error if the format is unknown or a vector cannot be resolved
+   */
+  static fromJSON(
+    data: SerializedHNSWIndex,
+    resolveVector: (id: string) => ArrayLike<number> | undefined
+  ): HNSWIndex {
+    if (!data || data.version !== 1) {
+      throw new Error('Unsupported HNSW index format');
+    }
+
+    const index = new HNSWIndex({
+      m: data.m,
+      efConstruction: data.efConstruction,
+      efSearch: data.efSearch,
+      seed: data.rngState
+    });
+    index.dimensions = data.dimensions;
+    index.entryPoint = data.entryPoint;
+    index.maxLevel = data.maxLevel;
+
+    data.ids.forEach((id, slot) => {
+      const values = resolveVector(id);
+      if (!values) {
+        throw new Error(`HNSW index references missing vector "${id}"`);
+      }
+      if (values.length !== data.dimensions) {
+        throw new Error(`Vector dimension mismatch: ${values.length} vs ${data.dimensions}`);
+      }
+      index.nodes.push({
+        id,
+        vector: normalize(values),
+        level: data.levels[slot],
+        neighbors: data.neighbors[slot]
+      });
+      index.idToSlot.set(id, slot);
+    });
+
+    return index;
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  private maxConnections(level: number): number {
+    return level === 0 ? this.m * 2 : this.m;
+  }
+
+  /**
+   * Deterministic mulberry32 draw mapped to an exponentially decaying level
+   */
+  private randomLevel(): number {
+    this.rngState = (this.rngState + 0x6d2b79f5) >>> 0;
+    let t = this.rngState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    const r = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    return Math.floor(-Math.log(1 - r) * this.levelMultiplier);
+  }
+
+  private distance(a: Float32Array, b: Float32Array): number {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+    }
+    return 1 - dot;
+  }
+
+  private greedyClosest(query: Float32Array, entry: number, level: number): number {
+    let current = entry;
+    let currentDistance = this.distance(query, this.nodes[current]!.vector);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (const n of this.nodes[current]!.neighbors[level] || []) {
+        const neighbor = this.nodes[n];
+        if (!neighbor) continue;
+        const d = this.distance(query, neighbor.vector);
+        if (d < currentDistance) {
+          currentDistance = d;
+          current = n;
+          improved = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Best-first search on a single layer
+   * @param accept - Optional predicate; rejected slots are explored but not returned
+   * @returns Up to ef accepted candidates sorted by distance (ascending)
+   */
+  private searchLayer(
+    query: Float32Array,
+    entries: number[],
+    ef: number,
+    level: number,
+    accept?: (slot: number) => boolean
+  ): Candidate[] {
+    const visited = new Set<number>(entries);
+    const candidates: Candidate[] = [];
+    const results: Candidate[] = [];
+
+    for (const slot of entries) {
+      const c = { slot, distance: this.distance(query, this.nodes[slot]!.vector) };
+      insertSorted(candidates, c);
+      if (!accept || accept(slot)) insertSorted(results, c);
+    }
+
+    while (candidates.length > 0) {
+      const closest = candidates.shift()!;
+      if (results.length >= ef && closest.distance > results[results.length - 1].distance) {
+        break;
+      }
+
+      for (const n of this.nodes[closest.slot]!.neighbors[level] || []) {
+        if (visited.has(n)) continue;
+        visited.add(n);
+        const neighbor = this.nodes[n];
+        if (!neighbor) continue;
+
+        const d = this.distance(query, neighbor.vector);
+        if (results.length < ef || d < results[results.length - 1].distance) {
+          const c = { slot: n, distance: d };
+          insertSorted(candidates, c);
+          if (!accept || accept(n)) {
+            insertSorted(results, c);
+            if (results.length > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Neighbour selection heuristic (HNSW paper, algorithm 4) with pruned
+   * connections kept as filler so sparse regions stay reachable
+   *
+   * @param candidates - Sorted by distance to the base vector (ascending)
+   */
+  private selectNeighbors(base: Float32Array, candidates: Candidate[], max: number): Candidate[] {
+    const selected: Candidate[] = [];
+    const discarded: Candidate[] = [];
+
+    for (const c of candidates) {
+      if (selected.length >= max) break;
+      const vector = this.nodes[c.slot]!.vector;
+      const diverse = selected.every(s => this.distance(vector, this.nodes[s.slot]!.vector) > c.distance);
+      if (diverse) selected.push(c);
+      else discarded.push(c);
+    }
+
+    for (const c of discarded) {
+      if (selected.length >= max) break;
+      selected.push(c);
+    }
+    return selected;
+  }
+
+  /**
+   * Add a back-link from `from` to `to`, pruning if over capacity
+   */
+  private connect(from: number, to: number, level: number): void {
+    const node = this.nodes[from]!;
+    const links = node.neighbors[level];
+    if (links.includes(to)) return;
+    links.push(to);
+
+    const max = this.maxConnections(level);
+    if (links.length <= max) return;
+
+    const scored = links
+      .filter(n => this.nodes[n] !== null)
+      .map(n => ({ slot: n, distance: this.distance(node.vector, this.nodes[n]!.vector) }));
+    scored.sort((a, b) => a.distance - b.distance);
+    node.neighbors[level] = this.selectNeighbors(node.vector, scored, max).map(c => c.slot);
+  }
+
+  private reassignEntryPoint(): void {
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.nodes.forEach((node, slot) => {
+      if (node && node.level > this.maxLevel) {
+        this.entryPoint = slot;
+        this.maxLevel = node.level;
+      }
+    });
+  }
+}
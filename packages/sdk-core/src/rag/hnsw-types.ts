@@ -0,0 +1,59 @@
+/**
+ * HNSW Types
+ * Options, search hits and the persisted layout of the HNSW index
+ * Max 100 lines
+ */
+
+/**
+ * Tuning parameters for the HNSW graph
+ */
+export interface HNSWIndexOptions {
+  /**
+   * Max neighbours per node on upper layers (layer 0 keeps 2 * m)
+   */
+  m?: number;
+
+  /**
+   * Candidate list size while inserting (higher = better graph, slower build)
+   */
+  efConstruction?: number;
+
+  /**
+   * Default candidate list size while searching (higher = better recall)
+   */
+  efSearch?: number;
+
+  /**
+   * Seed for level generation so builds are reproducible
+   */
+  seed?: number;
+}
+
+/**
+ * Single approximate search hit
+ */
+export interface HNSWSearchHit {
+  id: string;
+  /**
+   * Cosine similarity (-1 to 1, higher is more similar)
+   */
+  score: number;
+}
+
+/**
+ * Persisted graph layout. Vectors are NOT included - they already live in the
+ * database chunks and are re-attached on load via a resolver.
+ */
+export interface SerializedHNSWIndex {
+  version: 1;
+  dimensions: number;
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+  rngState: number;
+  entryPoint: number;
+  maxLevel: number;
+  ids: string[];
+  levels: number[];
+  neighbors: number[][][];
+}
@@ -0,0 +1,48 @@
+/**
+ * HNSW Utilities
+ * Graph node and candidate-list helpers shared by the HNSW index
+ * Max 100 lines
+ */
+
+export interface HNSWNode {
+  id: string;
+  vector: Float32Array;
+  level: number;
+  neighbors: number[][];
+}
+
+export interface Candidate {
+  slot: number;
+  distance: number;
+}
+
+/**
+ * Insert into an ascending-by-distance array, keeping it sorted
+ */
+export function insertSorted(list: Candidate[], item: Candidate): void {
+  let lo = 0;
+  let hi = list.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (list[mid].distance < item.distance) lo = mid + 1;
+    else hi = mid;
+  }
+  list.splice(lo, 0, item);
+}
+
+/**
+ * Copy a vector into a unit-length Float32Array (zero vectors stay zero)
+ */
+export function normalize(values: ArrayLike<number>): Float32Array {
+  const out = new Float32Array(values.length);
+  let norm = 0;
+  for (let i = 0; i < values.length; i++) {
+    norm += values[i] * values[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm === 0) return out;
+  for (let i = 0; i < values.length; i++) {
+    out[i] = values[i] / norm;
+  }
+  return out;
+}
@@ -0,0 +1,38 @@
+/**
+ * Metadata Filter Builders
+ * Construct common MetadataFilter expressions (folder scopes, AND-combination)
+ * Max 100 lines
+ */
+
+import type { MetadataFilter } from './types.js';
+
+/**
+ * Build a filter matching a folder and everything beneath it
+ * '/contracts' matches '/contracts' and '/contracts/2025' but not '/contracts-old'
+ *
+ * @param folderPath - Folder path ('/' matches every vector)
+ * @returns Metadata filter on `folderPath`
+ */
+export function folderScopeFilter(folderPath: string): MetadataFilter {
+  if (folderPath === '/') return {};
+  const base = folderPath.replace(/\/+$/, '');
+  return {
+    $or: [
+      { folderPath: base },
+      { folderPath: { $prefix: `${base}/` } }
+    ]
+  };
+}
+
+/**
+ * Combine filters with AND semantics, dropping empty ones
+ *
+ * @param filters - Filters to combine (undefined entries are skipped)
+ * @returns Combined filter, or undefined if nothing to filter on
+ */
+export function combineMetadataFilters(...filters: Array<MetadataFilter | undefined>): MetadataFilter | undefined {
+  const active = filters.filter((f): f is MetadataFilter => !!f && Object.keys(f).length > 0);
+  if (active.length === 0) return undefined;
+  if (active.length === 1) return active[0];
+  return { $and: active };
+}
@@ -0,0 +1,193 @@
+/**
+ * Metadata Filter
+ * Evaluates the MetadataFilter language against vector metadata
+ * Max 200 lines
+ */
+
+import type { MetadataFilter, MetadataFieldOperators } from './types.js';
+
+export { folderScopeFilter, combineMetadataFilters } from './metadata-filter-builders.js';
+
+const FIELD_OPERATORS = new Set([
+  '$eq', '$ne', '$in', '$nin', '$gt', '$gte', '$lt', '$lte', '$prefix', '$exists'
+]);
+const LOGICAL_OPERATORS = new Set(['$and', '$or', '$not']);
+
+// ISO-8601 date or date-time (e.g. 2025-01-31, 2025-01-31T12:00:00Z)
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Read a (possibly dotted) field path from metadata
+ */
+function getField(metadata: Record<string, any>, path: string): any {
+  if (path in metadata) return metadata[path];
+  let current: any = metadata;
+  for (const part of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = current[part];
+  }
+  return current;
+}
+
+/**
+ * Normalize a value for range comparison
+ * Dates (Date objects and ISO strings) become timestamps
+ */
+function toComparable(value: any): number | string | undefined {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    if (ISO_DATE.test(value)) {
+      const time = Date.parse(value);
+      if (!Number.isNaN(time)) return time;
+    }
+    return value;
+  }
+  return undefined;
+}
+
+function compare(actual: any, expected: any): number | null {
+  const a = toComparable(actual);
+  const b = toComparable(expected);
+  if (a === undefined || b === undefined || typeof a !== typeof b) return null;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function equals(actual: any, expected: any): boolean {
+  if (Array.isArray(actual) && !Array.isArray(expected)) {
+    // Array fields match if any element matches (e.g. { tags: 'legal' })
+    return actual.some(item => equals(item, expected));
+  }
+  if (actual instanceof Date || expected instanceof Date) {
+    return compare(actual, expected) === 0;
+  }
+  return actual === expected;
+}
+
+function isOperatorObject(value: any): value is MetadataFieldOperators {
+  if (value === null || typeof value !== 'object' || Array.isArray(value) || value instanceof Date) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(k => k.startsWith('$'));
+}
+
+function matchesOperators(actual: any, ops: MetadataFieldOperators): boolean {
+  for (const [op, expected] of Object.entries(ops)) {
+    switch (op) {
+      case '$eq':
+        if (!equals(actual, expected)) return false;
+        break;
+      case '$ne':
+        if (equals(actual, expected)) return false;
+        break;
+      case '$in':
+        if (!(expected as any[]).some(v => equals(actual, v))) return false;
+        break;
+      case '$nin':
+        if ((expected as any[]).some(v => equals(actual, v))) return false;
+        break;
+      case '$gt': {
+        const c = compare(actual, expected);
+        if (c === null || c <= 0) return false;
+        break;
+      }
+      case '$gte': {
+        const c = compare(actual, expected);
+        if (c === null || c < 0) return false;
+        break;
+      }
+      case '$lt': {
+        const c = compare(actual, expected);
+        if (c === null || c >= 0) return false;
+        break;
+      }
+      case '$lte': {
+        const c = compare(actual, expected);
+        if (c === null || c > 0) return false;
+        break;
+      }
+      case '$prefix':
+        if (typeof actual !== 'string' || !actual.startsWith(expected as string)) return false;
+        break;
+      case '$exists':
+        if ((actual !== undefined) !== expected) return false;
+        break;
+    }
+  }
+  return true;
+}
+
+/**
+ * Check whether metadata satisfies a filter
+ *
+ * @param metadata - Vector metadata
+ * @param filter - Metadata filter (an empty filter matches everything)
+ * @returns True if every clause matches
+ */
+export function matchesMetadataFilter(metadata: Record<string, any> | undefined, filter: MetadataFilter): boolean {
+  const record = metadata || {};
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (key === '$and') {
+      if (!(value as MetadataFilter[]).every(f => matchesMetadataFilter(record, f))) return false;
+    } else if (key === '$or') {
+      if (!(value as MetadataFilter[]).some(f => matchesMetadataFilter(record, f))) return false;
+    } else if (key === '$not') {
+      if (matchesMetadataFilter(record, value as MetadataFilter)) return false;
+    } else if (isOperatorObject(value)) {
+      if (!matchesOperators(getField(record, key), value)) return false;
+    } else if (!equals(getField(record, key), value)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Validate filter structure
+ *
+ * @param filter - Filter to validate
+ * @throws Error if an operator is unknown or has the wrong operand type
+ */
+export function validateMetadataFilter(filter: MetadataFilter): void {
+  if (filter === null || typeof filter !== 'object' || Array.isArray(filter)) {
+    throw new Error('Metadata filter must be an object');
+  }
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (key.startsWith('$')) {
+      if (!LOGICAL_OPERATORS.has(key)) {
+        throw new Error(`Unknown metadata filter operator: ${key}`);
+      }
+      if (key === '$not') {
+        validateMetadataFilter(value);
+      } else {
+        if (!Array.isArray(value)) {
+          throw new Error(`${key} requires an array of filters`);
+        }
+        value.forEach(validateMetadataFilter);
+      }
+      continue;
+    }
+
+    if (!isOperatorObject(value)) continue;
+    for (const [op, operand] of Object.entries(value)) {
+      if (!FIELD_OPERATORS.has(op)) {
+        throw new Error(`Unknown metadata filter operator: ${op}`);
+      }
+      if ((op === '$in' || op === '$nin') && !Array.isArray(operand)) {
+        throw new Error(`${op} requires an array (field: ${key})`);
+      }
+      if (op === '$prefix' && typeof operand !== 'string') {
+        throw new Error(`$prefix requires a string (field: ${key})`);
+      }
+      if (op === '$exists' && typeof operand !== 'boolean') {
+        throw new Error(`$exists requires a boolean (field: ${key})`);
+      }
+      if (['$gt', '$gte', '$lt', '$lte'].includes(op) && toComparable(operand) === undefined) {
+        throw new Error(`${op} requires a number, string or Date (field: ${key})`);
+      }
+    }
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Rank Fusion
+ * Weighted reciprocal-rank fusion (RRF) of independently ranked result lists
+ * Max 60 lines
+ */
+
+/**
+ * One ranked list of result IDs (best first) and its weight in the fusion
+ */
+export interface RankedList {
+  ids: string[];
+  weight?: number;
+}
+
+/**
+ * Fused result
+ */
+export interface FusedRank {
+  id: string;
+  score: number;
+}
+
+/**
+ * Fuse ranked lists with reciprocal-rank fusion
+ *
+ * Each list contributes `weight / (k + rank)` (rank starting at 1) for every ID
+ * it contains, so scores from different retrievers never need to share a scale.
+ *
+ * @param lists - Ranked lists to fuse
+ * @param k - Rank smoothing constant (default: 60)
+ * @returns Fused results, best first
+ */
+export function reciprocalRankFusion(lists: RankedList[], k: number = 60): FusedRank[] {
+  const scores = new Map<string, number>();
+
+  for (const { ids, weight = 1 } of lists) {
+    if (weight <= 0) continue;
+    ids.forEach((id, i) => {
+      scores.set(id, (scores.get(id) || 0) + weight / (k + i + 1));
+    });
+  }
+
+  return Array.from(scores, ([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score);
+}
@@ -31,8 +31,97 @@ export interface RAGConfig {
    * Example: 'http://localhost:5522' or 'https://s5.example.com'
    */
   s5Portal: string;
+
+  /**
+   * Approximate-nearest-neighbour index settings (optional)
+   * Used by searchDatabaseDirect once a database is large enough
+   */
+  annIndex?: ANNIndexConfig;
+
+  /**
+   * Hybrid keyword + vector retrieval settings (optional)
+   * Used when a search runs in 'hybrid' or 'keyword' mode
+   */
+  hybridSearch?: HybridSearchConfig;
+}
+
+/**
+ * Configuration for the HNSW approximate-nearest-neighbour index
+ */
+export interface ANNIndexConfig {
+  /**
+   * Use the ANN index for direct database search (default: true)
+   */
+  enabled?: boolean;
+
+  /**
+   * Minimum vector count before the index is used (default: 1000)
+   * Smaller databases are searched exactly
+   */
+  minVectors?: number;
+
+  /**
+   * Max graph neighbours per node (default: 16)
+   */
+  m?: number;
+
+  /**
+   * Candidate list size while building (default: 100)
+   */
+  efConstruction?: number;
+
+  /**
+   * Candidate list size while searching (default: 64)
+   */
+  efSearch?: number;
+}
+
+/**
+ * Configuration for hybrid BM25 + vector retrieval
+ *
+ * Vector and keyword rankings are combined with reciprocal-rank fusion:
+ * each list contributes `weight / (rrfK + rank)` per result.
+ */
+export interface HybridSearchConfig {
+  /**
+   * Weight of the vector (cosine) ranking (default: 1)
+   */
+  vectorWeight?: number;
+
+  /**
+   * Weight of the BM25 keyword ranking (default: 1)
+   */
+  keywordWeight?: number;
+
+  /**
+   * RRF rank smoothing constant (default: 60)
+   */
+  rrfK?: number;
+
+  /**
+   * Candidates taken from each ranking before fusion (default: 50)
+   */
+  candidatePool?: number;
+
+  /**
+   * BM25 term-frequency saturation (default: 1.2)
+   */
+  k1?: number;
+
+  /**
+   * BM25 document-length normalization, 0-1 (default: 0.75)
+   */
+  b?: number;
 }
 
+/**
+ * Retrieval mode
+ * - 'vector': cosine similarity only (default)
+ * - 'keyword': BM25 over chunk text only
+ * - 'hybrid': vector and BM25 rankings fused with RRF
+ */
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
 /**
  * Partial RAG configuration for merging with defaults
  */
@@ -74,12 +163,62 @@ export interface SearchOptions {
   threshold?: number;
 
   /**
-   * Metadata filter (optional)
-   * Example: { source: 'document.txt', category: 'tech' }
+   * Metadata filter (optional), applied before ranking
+   * Example: { source: 'document.txt', folderPath: { $prefix: '/contracts/2025' } }
+   */
+  filter?: MetadataFilter;
+
+  /**
+   * Retrieval mode (default: 'vector')
+   * 'hybrid' also matches exact identifiers (ticket numbers, function names, SKUs)
    */
-  filter?: Record<string, any>;
+  mode?: RetrievalMode;
 }
 
+/**
+ * Comparison operators for a single metadata field
+ *
+ * Range operators accept numbers, Date objects or ISO-8601 date strings;
+ * dates are compared as timestamps.
+ */
+export interface MetadataFieldOperators {
+  $eq?: any;
+  $ne?: any;
+  $in?: any[];
+  $nin?: any[];
+  $gt?: number | string | Date;
+  $gte?: number | string | Date;
+  $lt?: number | string | Date;
+  $lte?: number | string | Date;
+  /**
+   * String prefix match (e.g. { folderPath: { $prefix: '/contracts/2025' } })
+   */
+  $prefix?: string;
+  $exists?: boolean;
+}
+
+/**
+ * Metadata filter language (MongoDB-style subset)
+ *
+ * Plain values match by equality, so `{ documentId: 'doc-1' }` keeps its
+ * original meaning. Dotted keys address nested fields.
+ *
+ * Example:
+ * {
+ *   folderPath: { $prefix: '/contracts' },
+ *   documentType: { $in: ['pdf', 'docx'] },
+ *   uploadedAt: { $gte: '2025-01-01' },
+ *   $or: [{ owner: 'alice' }, { shared: true }]
+ * }
+ */
+export type MetadataFilter = {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+  $not?: MetadataFilter;
+} & {
+  [field: string]: any;
+};
+
 /**
  * Search result with similarity score
  */
@@ -208,5 +347,5 @@ export interface RAGContext {
   /**
    * Optional metadata filter
    */
-  filter?: Record<string, any>;
+  filter?: MetadataFilter;
 }
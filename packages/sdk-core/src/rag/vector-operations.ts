@@ -253,3 +253,22 @@ export function estimateVectorMemory(
   const totalBytes = vectorCount * bytesPerVector;
   return totalBytes / (1024 * 1024); // Convert to MB
 }
+
+/**
+ * Estimate memory usage for a given number of vectors
+ * Based on: 384 dimensions * 4 bytes/float = 1.5KB per vector
+ * Plus metadata overhead
+ *
+ * @param vectorCount - Number of vectors
+ * @param dimensionality - Vector dimensions (default: 384)
+ * @returns Estimated memory usage in MB
+ */
+export function estimateMemoryUsage(
+  vectorCount: number,
+  dimensionality: number = 384
+): number {
+  // Bytes per vector: dimensions * 4 bytes (float32) + metadata overhead (~100 bytes)
+  const bytesPerVector = (dimensionality * 4) + 100;
+  const totalBytes = vectorCount * bytesPerVector;
+  return totalBytes / (1024 * 1024);  // Convert to MB
+}
@@ -8,6 +8,11 @@ import type { EmbeddingService } from '../embeddings/EmbeddingService.js';
 import type { VectorRAGManager } from '../managers/VectorRAGManager.js';
 import type { SearchResult } from '../rag/types.js';
 import type { ContextRetrievalOptions, RAGMetrics } from './rag-config.js';
+import type { Reranker } from './reranker.js';
+import { tokenizerRegistry } from '../tokenizers/tokenizer-registry.js';
+
+// Host vector search returns at most 20 results per query
+const MAX_RERANK_CANDIDATES = 20;
 
 /**
  * Formatted context result
@@ -30,6 +35,7 @@ export interface FormattedContext {
     retrievalTimeMs: number;
     embeddingTimeMs: number;
     searchTimeMs: number;
+    rerankTimeMs: number;
     formatTimeMs: number;
     resultsFound: number;
     averageSimilarity: number;
@@ -45,16 +51,20 @@ export class ContextBuilder {
   private embeddingService: EmbeddingService;
   private vectorRAGManager: VectorRAGManager;
   private vectorDbSessionId: string;
+  private reranker?: Reranker;
+  private tokenizerModel?: string;
   private metrics: RAGMetrics;
 
   constructor(
     embeddingService: EmbeddingService,
     vectorRAGManager: VectorRAGManager,
-    vectorDbSessionId: string
+    vectorDbSessionId: string,
+    reranker?: Reranker
   ) {
     this.embeddingService = embeddingService;
     this.vectorRAGManager = vectorRAGManager;
     this.vectorDbSessionId = vectorDbSessionId;
+    this.reranker = reranker;
     this.metrics = {
       totalRetrievals: 0,
       averageSimilarity: 0,
@@ -73,27 +83,65 @@ export class ContextBuilder {
     const startTime = performance.now();
 
     try {
+      // Step 0: Make the model's vocabulary available for token counting
+      if (this.tokenizerModel) {
+        await tokenizerRegistry.load(this.tokenizerModel).catch(error => {
+          console.warn(`[ContextBuilder] Tokenizer for "${this.tokenizerModel}" unavailable, estimating tokens:`, error);
+        });
+      }
+
       // Step 1: Embed the prompt
       const embeddingStart = performance.now();
       const embeddingResult = await this.embeddingService.embedText(options.prompt);
       const embeddingTime = performance.now() - embeddingStart;
 
-      // Step 2: Search vector database
+      // Step 2: Search vector database (metadata filter applied before ranking)
+      // 'keyword' / 'hybrid' modes add BM25 matching on the prompt text
+      // With a reranker, over-fetch candidates so reranking can promote them
       const searchStart = performance.now();
-      const results = await this.vectorRAGManager.searchVectors(
-        this.vectorDbSessionId,
-        embeddingResult.embedding,
-        options.topK || 5,
-        options.threshold || 0.7
-      );
+      const topK = options.topK || 5;
+      const rerank = !!this.reranker && options.rerank !== false;
+      const candidates = rerank
+        ? Math.max(topK, Math.min(options.rerankCandidates ?? topK * 3, MAX_RERANK_CANDIDATES))
+        : topK;
+      const mode = options.mode || 'vector';
+      let results = mode === 'vector'
+        ? await this.vectorRAGManager.searchVectors(
+          this.vectorDbSessionId,
+          embeddingResult.embedding,
+          candidates,
+          options.threshold || 0.7,
+          options.filter
+        )
+        : await this.vectorRAGManager.searchHybrid(
+          this.vectorDbSessionId,
+          embeddingResult.embedding,
+          options.prompt,
+          candidates,
+          options.threshold || 0.7,
+          { mode, filter: options.filter }
+        );
       const searchTime = performance.now() - searchStart;
 
-      // Step 3: Format context
+      // Step 3: Rerank candidates (falls back to retrieval order on failure)
+      let rerankTime = 0;
+      if (rerank && results.length > 0) {
+        const rerankStart = performance.now();
+        try {
+          results = await this.reranker!.rerank(options.prompt, results, topK);
+        } catch (error) {
+          console.warn(`[ContextBuilder] Reranker "${this.reranker!.name}" failed, using retrieval order:`, error);
+          results = results.slice(0, topK);
+        }
+        rerankTime = performance.now() - rerankStart;
+      }
+
+      // Step 4: Format context
       const formatStart = performance.now();
       const context = this.formatContext(results, options);
       const formatTime = performance.now() - formatStart;
 
-      // Step 4: Calculate metrics
+      // Step 5: Calculate metrics
       const totalTime = performance.now() - startTime;
       const avgSimilarity = results.length > 0
         ? results.reduce((sum, r) => sum + r.score, 0) / results.length
@@ -106,7 +154,8 @@ export class ContextBuilder {
         latencyMs: totalTime,
         similarity: avgSimilarity,
         empty: results.length === 0,
-        contextTokens
+        contextTokens,
+        rerankLatencyMs: rerank ? rerankTime : undefined
       });
 
       return {
@@ -116,6 +165,7 @@ export class ContextBuilder {
           retrievalTimeMs: totalTime,
           embeddingTimeMs: embeddingTime,
           searchTimeMs: searchTime,
+          rerankTimeMs: rerankTime,
           formatTimeMs: formatTime,
           resultsFound: results.length,
           averageSimilarity: avgSimilarity,
@@ -138,6 +188,7 @@ export class ContextBuilder {
           retrievalTimeMs: performance.now() - startTime,
           embeddingTimeMs: 0,
           searchTimeMs: 0,
+          rerankTimeMs: 0,
           formatTimeMs: 0,
           resultsFound: 0,
           averageSimilarity: 0,
@@ -217,8 +268,7 @@ export class ContextBuilder {
       return context;
     }
 
-    // Rough truncation: 1 token ≈ 4 characters
-    const maxChars = maxTokens * 4;
+    const maxChars = this.maxCharsWithinTokens(context, maxTokens);
     const truncated = context.substring(0, maxChars);
 
     // Try to cut at sentence boundary
@@ -233,14 +283,41 @@ export class ContextBuilder {
     return truncated + '\n[...truncated]';
   }
 
+  /**
+   * Longest prefix length (in characters) that fits the token limit
+   * @param text - Text to cut
+   * @param maxTokens - Maximum tokens
+   * @returns Prefix length in characters
+   */
+  private maxCharsWithinTokens(text: string, maxTokens: number): number {
+    const tokenizer = tokenizerRegistry.find(this.tokenizerModel);
+    if (!tokenizer) {
+      // Rough truncation: 1 token ≈ 4 characters
+      return maxTokens * 4;
+    }
+
+    // Binary search on prefix length with the model's tokenizer
+    let low = 0;
+    let high = text.length;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (tokenizer.countTokens(text.substring(0, mid)) <= maxTokens) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low;
+  }
+
   /**
    * Estimate token count for text
-   * Rough approximation: 1 token ≈ 4 characters
+   * Uses the model's tokenizer when loaded, otherwise 1 token ≈ 4 characters
    * @param text - Text to estimate
    * @returns Estimated token count
    */
   private estimateTokens(text: string): number {
-    return Math.ceil(text.length / 4);
+    return tokenizerRegistry.countTokens(text, this.tokenizerModel);
   }
 
   /**
@@ -252,6 +329,7 @@ export class ContextBuilder {
     similarity: number;
     empty: boolean;
     contextTokens: number;
+    rerankLatencyMs?: number;
   }): void {
     const n = this.metrics.totalRetrievals;
 
@@ -269,6 +347,29 @@ export class ContextBuilder {
     if (update.empty) {
       this.metrics.emptyRetrievals++;
     }
+
+    if (update.rerankLatencyMs !== undefined) {
+      const reranks = this.metrics.totalReranks || 0;
+      this.metrics.averageRerankLatencyMs =
+        ((this.metrics.averageRerankLatencyMs || 0) * reranks + update.rerankLatencyMs) / (reranks + 1);
+      this.metrics.totalReranks = reranks + 1;
+    }
+  }
+
+  /**
+   * Set or clear the reranking stage
+   * @param reranker - Reranker to run between retrieval and formatting
+   */
+  setReranker(reranker?: Reranker): void {
+    this.reranker = reranker;
+  }
+
+  /**
+   * Set or clear the model whose tokenizer counts context tokens
+   * @param modelId - Model id registered in the tokenizer registry
+   */
+  setTokenizerModel(modelId?: string): void {
+    this.tokenizerModel = modelId;
   }
 
   /**
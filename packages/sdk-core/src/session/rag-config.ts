@@ -4,7 +4,9 @@
  * Max 150 lines
  */
 
-import { SearchOptions } from '../rag/types.js';
+import { SearchOptions, MetadataFilter, RetrievalMode, HybridSearchConfig } from '../rag/types.js';
+import { validateMetadataFilter } from '../rag/metadata-filter.js';
+import { validateSearchConfig } from '../rag/search-config.js';
 
 /**
  * RAG Session Configuration
@@ -67,9 +69,22 @@ export interface RAGSessionConfig {
 
   /**
    * Metadata filter for vector search
-   * Example: { documentType: 'pdf', category: 'technical' }
+   * Example: { documentType: 'pdf', folderPath: { $prefix: '/contracts/2025' } }
    */
-  metadataFilter?: Record<string, any>;
+  metadataFilter?: MetadataFilter;
+
+  /**
+   * Retrieval mode used by askWithContext
+   * 'hybrid' fuses BM25 keyword matches with vector similarity
+   * Default: 'vector'
+   */
+  retrievalMode?: RetrievalMode;
+
+  /**
+   * Fusion weights and BM25 parameters for 'hybrid' retrieval
+   * Default: DEFAULT_HYBRID_SEARCH_CONFIG
+   */
+  hybridSearch?: HybridSearchConfig;
 
   /**
    * Enable conversation memory (stores conversation history in vectors)
@@ -122,6 +137,16 @@ export interface RAGMetrics {
    * Cache hit rate (if caching enabled)
    */
   cacheHitRate?: number;
+
+  /**
+   * Number of retrievals that ran the reranking stage (if a reranker is set)
+   */
+  totalReranks?: number;
+
+  /**
+   * Average reranking latency in milliseconds (if a reranker is set)
+   */
+  averageRerankLatencyMs?: number;
 }
 
 /**
@@ -148,12 +173,23 @@ export interface ContextRetrievalOptions extends SearchOptions {
    * Include source references
    */
   includeSources?: boolean;
+
+  /**
+   * Run the configured reranker (default: true when one is set)
+   */
+  rerank?: boolean;
+
+  /**
+   * Candidates retrieved for reranking before keeping topK
+   * Default: topK * 3. Capped at the host search limit of 20
+   */
+  rerankCandidates?: number;
 }
 
 /**
  * Default RAG configuration
  */
-export const DEFAULT_RAG_CONFIG: Required<Omit<RAGSessionConfig, 'vectorDbSessionId' | 'databaseNames' | 'metadataFilter' | 'conversationMemory'>> = {
+export const DEFAULT_RAG_CONFIG: Required<Omit<RAGSessionConfig, 'vectorDbSessionId' | 'databaseNames' | 'metadataFilter' | 'retrievalMode' | 'hybridSearch' | 'conversationMemory'>> = {
   enabled: false,
   topK: 5,
   similarityThreshold: 0.7,
@@ -194,6 +230,18 @@ export function validateRAGConfig(config: PartialRAGSessionConfig): void {
   if (config.maxContextLength !== undefined && config.maxContextLength < 100) {
     throw new Error('RAG maxContextLength must be at least 100 tokens');
   }
+
+  if (config.metadataFilter !== undefined) {
+    validateMetadataFilter(config.metadataFilter);
+  }
+
+  if (config.retrievalMode !== undefined && !['vector', 'keyword', 'hybrid'].includes(config.retrievalMode)) {
+    throw new Error("RAG retrievalMode must be 'vector', 'keyword' or 'hybrid'");
+  }
+
+  if (config.hybridSearch !== undefined) {
+    validateSearchConfig({ hybridSearch: config.hybridSearch });
+  }
 }
 
 /**
@@ -0,0 +1,187 @@
+/**
+ * Rerankers
+ * Reorder retrieved candidates by relevance before context formatting
+ * Max 200 lines
+ */
+
+import type { SessionManager } from '../managers/SessionManager.js';
+import type { SearchResult } from '../rag/types.js';
+import { tokenize } from '../rag/bm25-index.js';
+
+/**
+ * Search result with the score assigned by a reranker
+ * `score` keeps the original retrieval similarity
+ */
+export interface RerankedResult extends SearchResult {
+  /**
+   * Reranker relevance score (0-1, higher is more relevant)
+   */
+  rerankScore: number;
+}
+
+/**
+ * Pluggable reranking stage
+ * Runs between retrieval and formatting in ContextBuilder
+ */
+export interface Reranker {
+  /**
+   * Short identifier for logs and metrics
+   */
+  readonly name: string;
+
+  /**
+   * Reorder candidates by relevance to the query
+   *
+   * @param query - User prompt the context is retrieved for
+   * @param results - Retrieved candidates (retrieval order)
+   * @param topN - Number of results to keep (default: all)
+   * @returns Most relevant results first
+   */
+  rerank(query: string, results: SearchResult[], topN?: number): Promise<RerankedResult[]>;
+}
+
+/**
+ * Get the chunk text a result contributes to the context
+ */
+function resultText(result: SearchResult): string {
+  return result.metadata?.text || result.metadata?.content || '';
+}
+
+/**
+ * Deterministic local reranker
+ *
+ * Scores each candidate by the fraction of distinct query terms its text
+ * contains (same tokenizer as the BM25 index), breaking ties by retrieval
+ * score then retrieval order. No network calls, so results are reproducible.
+ */
+export class LexicalReranker implements Reranker {
+  readonly name = 'lexical';
+
+  async rerank(query: string, results: SearchResult[], topN?: number): Promise<RerankedResult[]> {
+    const queryTerms = new Set(tokenize(query));
+
+    const scored = results.map((result, position) => {
+      const textTerms = new Set(tokenize(resultText(result)));
+      let matched = 0;
+      for (const term of queryTerms) {
+        if (textTerms.has(term)) matched++;
+      }
+      const rerankScore = queryTerms.size > 0 ? matched / queryTerms.size : 0;
+      return { result: { ...result, rerankScore }, position };
+    });
+
+    scored.sort((a, b) =>
+      b.result.rerankScore - a.result.rerankScore ||
+      b.result.score - a.result.score ||
+      a.position - b.position
+    );
+    return scored.slice(0, topN ?? results.length).map(s => s.result);
+  }
+}
+
+/**
+ * Options for HostLLMReranker
+ */
+export interface HostLLMRerankerOptions {
+  /**
+   * Session manager used to send the ranking prompt
+   */
+  sessionManager: Pick<SessionManager, 'sendSidePrompt'>;
+
+  /**
+   * Active session whose host model scores the candidates
+   */
+  sessionId: bigint;
+
+  /**
+   * Characters of each candidate included in the prompt (default: 1000)
+   */
+  maxPassageChars?: number;
+
+  /**
+   * Maximum tokens for the ranking reply (default: 64)
+   */
+  maxTokens?: number;
+}
+
+/**
+ * Reranker that asks the active session's host LLM to order the candidates
+ *
+ * All candidates go into a single prompt and the model replies with passage
+ * numbers, most relevant first. Passages the model omits keep their retrieval
+ * order after the ranked ones. The ranking prompt is sent with sendSidePrompt,
+ * so it stays out of the conversation history; the host still bills its tokens.
+ */
+export class HostLLMReranker implements Reranker {
+  readonly name = 'host-llm';
+
+  private readonly sessionManager: Pick<SessionManager, 'sendSidePrompt'>;
+  private readonly sessionId: bigint;
+  private readonly maxPassageChars: number;
+  private readonly maxTokens: number;
+
+  constructor(options: HostLLMRerankerOptions) {
+    this.sessionManager = options.sessionManager;
+    this.sessionId = options.sessionId;
+    this.maxPassageChars = options.maxPassageChars ?? 1000;
+    this.maxTokens = options.maxTokens ?? 64;
+  }
+
+  /**
+   * @throws Error if the reply contains no usable passage numbers
+   */
+  async rerank(query: string, results: SearchResult[], topN?: number): Promise<RerankedResult[]> {
+    if (results.length === 0) {
+      return [];
+    }
+
+    const reply = await this.sessionManager.sendSidePrompt(
+      this.sessionId,
+      this.buildPrompt(query, results),
+      { temperature: 0, maxTokens: this.maxTokens }
+    );
+
+    const order = this.parseOrder(reply, results.length);
+    if (order.length === 0) {
+      throw new Error(`Reranker reply contained no passage numbers: "${reply.slice(0, 100)}"`);
+    }
+
+    // Omitted passages follow the ranked ones in retrieval order
+    for (let i = 0; i < results.length; i++) {
+      if (!order.includes(i)) order.push(i);
+    }
+
+    return order.slice(0, topN ?? results.length).map((index, rank) => ({
+      ...results[index],
+      rerankScore: 1 - rank / results.length
+    }));
+  }
+
+  private buildPrompt(query: string, results: SearchResult[]): string {
+    const passages = results
+      .map((result, i) => `[${i + 1}] ${resultText(result).slice(0, this.maxPassageChars).replace(/\s+/g, ' ').trim()}`)
+      .join('\n');
+
+    return [
+      'Rank the passages by how useful they are for answering the query.',
+      `Query: ${query}`,
+      'Passages:',
+      passages,
+      'Respond with only the passage numbers, most relevant first, separated by commas.'
+    ].join('\n');
+  }
+
+  /**
+   * Extract distinct 0-based passage indexes from the model reply
+   */
+  private parseOrder(reply: string, count: number): number[] {
+    const order: number[] = [];
+    for (const match of reply.matchAll(/\d+/g)) {
+      const index = parseInt(match[0], 10) - 1;
+      if (index >= 0 && index < count && !order.includes(index)) {
+        order.push(index);
+      }
+    }
+    return order;
+  }
+}
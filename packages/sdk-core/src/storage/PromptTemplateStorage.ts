@@ -0,0 +1,88 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+import type { PromptTemplate } from '../types/prompt-templates.types';
+import type { StorageManager } from '../managers/StorageManager';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+/**
+ * Prompt Template Storage Layer
+ *
+ * Handles S5 persistence for prompt templates through StorageManager, which
+ * retries failed writes and queues them while S5 is disconnected.
+ * Templates are stored at: home/prompt-templates/{userAddress}/{templateId}.json
+ */
+export class PromptTemplateStorage {
+  private static readonly STORAGE_PATH = 'home/prompt-templates';
+  private static readonly LOAD_ALL_CONCURRENCY = 10;
+
+  private storageManager: StorageManager;
+  private userAddress: string;
+
+  /**
+   * @param storageManager - Initialized StorageManager of the user
+   * @param userAddress - User's wallet address (for directory isolation)
+   */
+  constructor(storageManager: StorageManager, userAddress: string) {
+    this.storageManager = storageManager;
+    this.userAddress = userAddress;
+  }
+
+  /**
+   * Save a template (all of its versions)
+   */
+  async save(template: PromptTemplate): Promise<void> {
+    await this.storageManager.putWithRetry(this.buildPath(template.id), template);
+  }
+
+  /**
+   * Load a template, or null if it does not exist
+   */
+  async load(templateId: string): Promise<PromptTemplate | null> {
+    try {
+      return (await this.storageManager.getWithRetry(this.buildPath(templateId))) ?? null;
+    } catch (error: any) {
+      if (error.message?.includes('not found')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load every template of the user
+   */
+  async loadAll(): Promise<PromptTemplate[]> {
+    const entries: Array<{ type: string; name: string }> = [];
+    try {
+      for await (const entry of this.storageManager.getS5Client().fs.list(this.buildDirPath())) {
+        entries.push(entry);
+      }
+    } catch (error: any) {
+      // Directory does not exist until the first template is saved
+      console.debug('[PromptTemplateStorage] List error (returning empty):', error.message);
+      return [];
+    }
+
+    const ids = entries
+      .filter(entry => entry.type === 'file' && entry.name.endsWith('.json'))
+      .map(entry => entry.name.replace(/\.json$/, ''));
+    const templates = await mapWithConcurrency(ids, PromptTemplateStorage.LOAD_ALL_CONCURRENCY, id => this.load(id));
+    return templates.filter((template): template is PromptTemplate => template !== null);
+  }
+
+  /**
+   * Delete a template
+   */
+  async delete(templateId: string): Promise<void> {
+    await this.storageManager.deleteWithRetry(this.buildPath(templateId));
+  }
+
+  private buildDirPath(): string {
+    return `${PromptTemplateStorage.STORAGE_PATH}/${this.userAddress}`;
+  }
+
+  private buildPath(templateId: string): string {
+    return `${this.buildDirPath()}/${templateId}.json`;
+  }
+}
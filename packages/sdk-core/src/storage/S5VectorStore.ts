@@ -6,6 +6,14 @@ import type { EncryptionManager } from '../managers/EncryptionManager';
 import type { Vector, SearchResult } from '../types';
 import type { DatabaseMetadata } from '../database/types';
 import { mapWithConcurrency } from '../utils/concurrency';
+import { HNSWIndex } from '../rag/hnsw-index';
+import type { SerializedHNSWIndex } from '../rag/hnsw-index';
+import { BM25Index } from '../rag/bm25-index';
+import type { SerializedBM25Index } from '../rag/bm25-index';
+import { reciprocalRankFusion } from '../rag/rank-fusion';
+import { mergeANNIndexConfig, mergeHybridSearchConfig } from '../rag/search-config';
+import type { ANNIndexConfig, HybridSearchConfig, MetadataFilter } from '../rag/types';
+import { matchesMetadataFilter, folderScopeFilter } from '../rag/metadata-filter';
 
 interface DatabaseManifest {
   name: string;
@@ -24,6 +32,24 @@ interface DatabaseManifest {
   // Document metadata for deferred embeddings workflow
   pendingDocuments?: any[];
   readyDocuments?: any[];
+  // HNSW index persisted alongside the chunks (absent until first built)
+  annIndex?: ANNIndexMetadata;
+  // BM25 keyword index persisted alongside the chunks (absent until first built)
+  keywordIndex?: KeywordIndexMetadata;
+}
+
+interface ANNIndexMetadata {
+  type: 'hnsw';
+  path: string;
+  vectorCount: number;
+  updatedAt: number;
+}
+
+interface KeywordIndexMetadata {
+  type: 'bm25';
+  path: string;
+  documentCount: number;
+  updatedAt: number;
 }
 
 interface ChunkMetadata {
@@ -54,6 +80,25 @@ export interface S5VectorStoreOptions {
   userAddress: string;
   encryptionManager: EncryptionManager;
   cacheEnabled?: boolean;
+  annIndex?: ANNIndexConfig;
+  hybridSearch?: HybridSearchConfig;
+}
+
+/**
+ * Single client-side search hit
+ */
+export interface VectorSearchHit {
+  vector: Vector;
+  score: number;
+}
+
+/**
+ * Hybrid search hit
+ * `score` is the fused RRF score; the per-ranking scores are kept for inspection
+ */
+export interface HybridSearchHit extends VectorSearchHit {
+  vectorScore?: number;
+  keywordScore?: number;
 }
 
 export class S5VectorStore {
@@ -71,6 +116,18 @@ export class S5VectorStore {
   private readonly cacheEnabled: boolean;
   private manifestCache: Map<string, DatabaseManifest>;
   private vectorCache: Map<string, Map<string, Vector>>;
+  private readonly annConfig: Required<ANNIndexConfig>;
+  /**
+   * In-memory HNSW indexes, keyed by database name. Populated lazily on the
+   * first approximate search (or the first write once an index is persisted).
+   */
+  private indexCache: Map<string, HNSWIndex>;
+  private readonly hybridConfig: Required<HybridSearchConfig>;
+  /**
+   * In-memory BM25 keyword indexes, keyed by database name. Populated lazily
+   * on the first keyword / hybrid search, like indexCache.
+   */
+  private keywordIndexCache: Map<string, BM25Index>;
   /**
    * In-flight initialize() promise. When the SDK kicks off init in the
    * background (deferred init via FabstirSDKCore.getVectorRAGReady), the
@@ -87,6 +144,10 @@ export class S5VectorStore {
     this.cacheEnabled = options.cacheEnabled !== false;
     this.manifestCache = new Map();
     this.vectorCache = new Map();
+    this.annConfig = mergeANNIndexConfig(options.annIndex);
+    this.indexCache = new Map();
+    this.hybridConfig = mergeHybridSearchConfig(options.hybridSearch);
+    this.keywordIndexCache = new Map();
   }
 
   /**
@@ -306,6 +367,8 @@ export class S5VectorStore {
     await this._saveManifest(databaseName, manifest);
     this.manifestCache.delete(databaseName);
     this.vectorCache.delete(databaseName);
+    this.indexCache.delete(databaseName);
+    this.keywordIndexCache.delete(databaseName);
   }
 
   /**
@@ -385,8 +448,12 @@ export class S5VectorStore {
     }
 
     let cache = this.vectorCache.get(databaseName) || await this._loadAllVectors(databaseName, manifest);
+    const index = await this._loadIndex(databaseName, manifest, cache);
+    const keywordIndex = await this._loadKeywordIndex(databaseName, manifest, cache);
     for (const vector of vectors) {
       cache.set(vector.id, vector);
+      index?.add(vector.id, vector.vector);
+      keywordIndex?.add(vector.id, this._chunkText(vector));
       const folderPath = vector.metadata?.folderPath;
       if (folderPath && !manifest.folderPaths.includes(folderPath)) manifest.folderPaths.push(folderPath);
     }
@@ -422,7 +489,11 @@ export class S5VectorStore {
     const manifest = await this._loadManifest(databaseName);
     if (!manifest) throw new Error(`Database "${databaseName}" not found`);
     const cache = await this._loadAllVectors(databaseName, manifest);
+    const index = await this._loadIndex(databaseName, manifest, cache);
+    const keywordIndex = await this._loadKeywordIndex(databaseName, manifest, cache);
     cache.delete(vectorId);
+    index?.remove(vectorId);
+    keywordIndex?.remove(vectorId);
     manifest.vectorCount = cache.size;
     manifest.updated = Date.now();
     await this._saveChunksBackground(databaseName, cache, manifest);
@@ -432,18 +503,22 @@ export class S5VectorStore {
    * Delete all vectors matching a metadata filter
    *
    * @param databaseName - Database identifier
-   * @param filter - Metadata filter (key-value exact match)
+   * @param filter - Metadata filter (plain values match exactly; operators per MetadataFilter)
    * @returns Number of vectors deleted
    * @throws Error if database not found
    */
-  async deleteByMetadata(databaseName: string, filter: Record<string, any>): Promise<number> {
+  async deleteByMetadata(databaseName: string, filter: MetadataFilter): Promise<number> {
     const manifest = await this._loadManifest(databaseName);
     if (!manifest) throw new Error(`Database "${databaseName}" not found`);
     const cache = await this._loadAllVectors(databaseName, manifest);
+    const index = await this._loadIndex(databaseName, manifest, cache);
+    const keywordIndex = await this._loadKeywordIndex(databaseName, manifest, cache);
     let deletedCount = 0;
     for (const [id, vector] of cache.entries()) {
-      if (this._matchesFilter(vector.metadata, filter)) {
+      if (matchesMetadataFilter(vector.metadata, filter)) {
         cache.delete(id);
+        index?.remove(id);
+        keywordIndex?.remove(id);
         deletedCount++;
       }
     }
@@ -484,6 +559,199 @@ export class S5VectorStore {
     return Array.from(cache.values());
   }
 
+  /**
+   * Exact (brute-force) cosine search over every stored vector
+   *
+   * The metadata filter is applied before ranking, so a selective filter never
+   * starves the top-K results.
+   *
+   * @param databaseName - Database identifier
+   * @param queryVector - Query embedding
+   * @param topK - Number of results
+   * @param threshold - Minimum cosine similarity
+   * @param filter - Optional metadata filter
+   * @returns Hits sorted by similarity (descending)
+   * @throws Error if database not found or query dimensions mismatch
+   */
+  async searchExact(
+    databaseName: string,
+    queryVector: number[],
+    topK: number = 5,
+    threshold: number = 0.7,
+    filter?: MetadataFilter
+  ): Promise<VectorSearchHit[]> {
+    const vectors = await this.listVectors(databaseName);
+    const candidates = filter ? vectors.filter(v => matchesMetadataFilter(v.metadata, filter)) : vectors;
+    return this._rankExact(candidates, queryVector, topK, threshold);
+  }
+
+  /**
+   * Approximate nearest-neighbour search using the database's HNSW index
+   *
+   * The index is loaded from S5 on first use, or built from the stored vectors
+   * and persisted if the database has none yet. Returns null when the index is
+   * disabled or the database is below `annIndex.minVectors`, in which case the
+   * caller should fall back to searchExact().
+   *
+   * With a metadata filter, non-matching vectors are excluded during graph
+   * traversal rather than after it. If fewer than `minVectors` vectors match,
+   * the matching subset is ranked exactly instead.
+   *
+   * @param databaseName - Database identifier
+   * @param queryVector - Query embedding
+   * @param topK - Number of results
+   * @param threshold - Minimum cosine similarity
+   * @param filter - Optional metadata filter
+   * @returns Hits sorted by similarity (descending), or null if ANN is not applicable
+   * @throws Error if database not found or query dimensions mismatch
+   */
+  async searchApproximate(
+    databaseName: string,
+    queryVector: number[],
+    topK: number = 5,
+    threshold: number = 0.7,
+    filter?: MetadataFilter
+  ): Promise<VectorSearchHit[] | null> {
+    const manifest = await this._loadManifest(databaseName);
+    if (!manifest) throw new Error(`Database "${databaseName}" not found`);
+    if (!this.annConfig.enabled || manifest.vectorCount < this.annConfig.minVectors) {
+      return null;
+    }
+
+    const cache = await this._loadAllVectors(databaseName, manifest);
+
+    let accept: ((id: string) => boolean) | undefined;
+    let ef = this.annConfig.efSearch;
+    if (filter) {
+      const matching = Array.from(cache.values()).filter(v => matchesMetadataFilter(v.metadata, filter));
+      if (matching.length < this.annConfig.minVectors) {
+        return this._rankExact(matching, queryVector, topK, threshold);
+      }
+      // Widen the candidate list in proportion to how much the filter rejects
+      const matchingIds = new Set(matching.map(v => v.id));
+      accept = id => matchingIds.has(id);
+      ef = Math.min(cache.size, Math.max(ef, topK) * Math.ceil(cache.size / matching.length));
+    }
+
+    let index = await this._loadIndex(databaseName, manifest, cache);
+    if (!index) {
+      index = this._buildIndex(cache);
+      if (this.cacheEnabled) {
+        this.indexCache.set(databaseName, index);
+      }
+      await this._saveIndex(databaseName, manifest, index);
+      await this._saveManifest(databaseName, manifest);
+    }
+
+    const hits: VectorSearchHit[] = [];
+    for (const hit of index.search(queryVector, topK, ef, accept)) {
+      const vector = cache.get(hit.id);
+      if (vector && hit.score >= threshold) {
+        hits.push({ vector, score: hit.score });
+      }
+    }
+    return hits;
+  }
+
+  /**
+   * BM25 keyword search over chunk text (`metadata.text` or `metadata.content`)
+   *
+   * The keyword index is loaded from S5 on first use, or built and persisted
+   * next to the chunks if the database has none yet.
+   *
+   * @param databaseName - Database identifier
+   * @param queryText - Keyword query
+   * @param topK - Number of results
+   * @param filter - Optional metadata filter
+   * @returns Hits sorted by BM25 score (descending); score is unbounded, not 0-1
+   * @throws Error if database not found
+   */
+  async searchKeyword(
+    databaseName: string,
+    queryText: string,
+    topK: number = 5,
+    filter?: MetadataFilter
+  ): Promise<VectorSearchHit[]> {
+    const manifest = await this._loadManifest(databaseName);
+    if (!manifest) throw new Error(`Database "${databaseName}" not found`);
+    const cache = await this._loadAllVectors(databaseName, manifest);
+
+    let index = await this._loadKeywordIndex(databaseName, manifest, cache);
+    if (!index) {
+      index = this._buildKeywordIndex(cache);
+      if (this.cacheEnabled) {
+        this.keywordIndexCache.set(databaseName, index);
+      }
+      await this._saveKeywordIndex(databaseName, manifest, index);
+      await this._saveManifest(databaseName, manifest);
+    }
+
+    const accept = filter ? (id: string) => matchesMetadataFilter(cache.get(id)?.metadata, filter) : undefined;
+    const hits: VectorSearchHit[] = [];
+    for (const hit of index.search(queryText, topK, accept)) {
+      const vector = cache.get(hit.id);
+      if (vector) {
+        hits.push({ vector, score: hit.score });
+      }
+    }
+    return hits;
+  }
+
+  /**
+   * Hybrid search: vector and BM25 rankings fused with reciprocal-rank fusion
+   *
+   * Each ranking contributes up to `hybridSearch.candidatePool` candidates,
+   * weighted by `hybridSearch.vectorWeight` / `keywordWeight`. The similarity
+   * threshold applies to the vector ranking only, so a chunk containing an
+   * exact identifier from the query is still found when its embedding is not
+   * similar enough.
+   *
+   * @param databaseName - Database identifier
+   * @param queryVector - Query embedding
+   * @param queryText - Query text for keyword matching
+   * @param topK - Number of results
+   * @param threshold - Minimum cosine similarity for vector candidates
+   * @param filter - Optional metadata filter (applied to both rankings)
+   * @returns Hits sorted by fused score (descending)
+   * @throws Error if database not found or query dimensions mismatch
+   */
+  async searchHybrid(
+    databaseName: string,
+    queryVector: number[],
+    queryText: string,
+    topK: number = 5,
+    threshold: number = 0.7,
+    filter?: MetadataFilter
+  ): Promise<HybridSearchHit[]> {
+    const { vectorWeight, keywordWeight, rrfK, candidatePool } = this.hybridConfig;
+    const poolSize = Math.max(topK, candidatePool);
+
+    const vectorHits = vectorWeight > 0
+      ? await this.searchApproximate(databaseName, queryVector, poolSize, threshold, filter)
+        ?? await this.searchExact(databaseName, queryVector, poolSize, threshold, filter)
+      : [];
+    const keywordHits = keywordWeight > 0
+      ? await this.searchKeyword(databaseName, queryText, poolSize, filter)
+      : [];
+
+    const byId = new Map<string, HybridSearchHit>();
+    for (const hit of vectorHits) {
+      byId.set(hit.vector.id, { vector: hit.vector, score: 0, vectorScore: hit.score });
+    }
+    for (const hit of keywordHits) {
+      const existing = byId.get(hit.vector.id);
+      if (existing) existing.keywordScore = hit.score;
+      else byId.set(hit.vector.id, { vector: hit.vector, score: 0, keywordScore: hit.score });
+    }
+
+    const fused = reciprocalRankFusion([
+      { ids: vectorHits.map(h => h.vector.id), weight: vectorWeight },
+      { ids: keywordHits.map(h => h.vector.id), weight: keywordWeight }
+    ], rrfK);
+
+    return fused.slice(0, topK).map(({ id, score }) => ({ ...byId.get(id)!, score }));
+  }
+
   async getStats(databaseName: string) {
     const manifest = await this._loadManifest(databaseName);
     if (!manifest) throw new Error(`Database "${databaseName}" not found`);
@@ -656,8 +924,30 @@ export class S5VectorStore {
     return toMove.length;
   }
 
-  async searchInFolder(databaseName: string, folderPath: string, queryVector: number[], k?: number, threshold?: number): Promise<SearchResult[]> {
-    throw new Error('searchInFolder() requires host-side support. Use search() and filter results client-side for now.');
+  /**
+   * Search within a folder and its subfolders (client-side)
+   *
+   * @param databaseName - Database identifier
+   * @param folderPath - Folder to search ('/' searches everything)
+   * @param queryVector - Query embedding
+   * @param k - Number of results (default: 5)
+   * @param threshold - Minimum cosine similarity (default: 0.7)
+   * @param filter - Optional additional metadata filter
+   * @returns Results sorted by similarity (descending)
+   */
+  async searchInFolder(
+    databaseName: string,
+    folderPath: string,
+    queryVector: number[],
+    k: number = 5,
+    threshold: number = 0.7,
+    filter?: MetadataFilter
+  ): Promise<SearchResult[]> {
+    const scope = folderScopeFilter(folderPath);
+    const combined = filter ? { $and: [scope, filter] } : scope;
+    const hits = await this.searchApproximate(databaseName, queryVector, k, threshold, combined)
+      ?? await this.searchExact(databaseName, queryVector, k, threshold, combined);
+    return hits.map(({ vector, score }) => ({ ...vector, score }));
   }
 
   // ===== PRIVATE HELPERS =====
@@ -674,6 +964,14 @@ export class S5VectorStore {
     return `${this._getDatabaseBasePath()}/${databaseName}/chunk-${chunkId}.json`;
   }
 
+  private _getIndexPath(databaseName: string): string {
+    return `${this._getDatabaseBasePath()}/${databaseName}/index-hnsw.json`;
+  }
+
+  private _getKeywordIndexPath(databaseName: string): string {
+    return `${this._getDatabaseBasePath()}/${databaseName}/index-bm25.json`;
+  }
+
   private async _loadManifest(databaseName: string): Promise<DatabaseManifest | null> {
     if (this.cacheEnabled && this.manifestCache.has(databaseName)) {
       return this.manifestCache.get(databaseName)!;
@@ -785,9 +1083,132 @@ export class S5VectorStore {
     manifest.chunks = chunkMetas;
     manifest.chunkCount = chunkMetas.length;
 
+    // Keep the persisted index in step with the chunks it points into
+    const index = this.indexCache.get(databaseName);
+    if (index) {
+      await this._saveIndex(databaseName, manifest, index);
+    }
+    const keywordIndex = this.keywordIndexCache.get(databaseName);
+    if (keywordIndex) {
+      await this._saveKeywordIndex(databaseName, manifest, keywordIndex);
+    }
+
     await this._saveManifest(databaseName, manifest);
   }
 
+  /**
+   * Get the in-memory HNSW index for a database, loading it from S5 if one
+   * has been persisted. Never builds a new index - see searchApproximate().
+   *
+   * A persisted index that no longer matches the stored vectors (e.g. an
+   * interrupted write) is discarded so the next search rebuilds it.
+   */
+  private async _loadIndex(databaseName: string, manifest: DatabaseManifest, cache: Map<string, Vector>): Promise<HNSWIndex | null> {
+    const cached = this.indexCache.get(databaseName);
+    if (cached) return cached;
+    if (!manifest.annIndex) return null;
+
+    try {
+      const data = await this.s5Client.fs.get(manifest.annIndex.path);
+      if (!data) return null;
+
+      const serialized = (typeof data === 'string' ? JSON.parse(data) : data) as SerializedHNSWIndex;
+      const index = HNSWIndex.fromJSON(serialized, id => cache.get(id)?.vector);
+      if (index.size !== cache.size) {
+        console.warn(`[S5VectorStore] ⚠️ HNSW index for "${databaseName}" is stale (${index.size} vs ${cache.size} vectors) - will rebuild`);
+        return null;
+      }
+
+      index.efSearch = this.annConfig.efSearch;
+      if (this.cacheEnabled) {
+        this.indexCache.set(databaseName, index);
+      }
+      return index;
+    } catch (error) {
+      console.warn(`[S5VectorStore] ⚠️ Failed to load HNSW index for "${databaseName}" - will rebuild:`, error);
+      return null;
+    }
+  }
+
+  private _buildIndex(cache: Map<string, Vector>): HNSWIndex {
+    const index = new HNSWIndex({
+      m: this.annConfig.m,
+      efConstruction: this.annConfig.efConstruction,
+      efSearch: this.annConfig.efSearch
+    });
+    for (const vector of cache.values()) {
+      index.add(vector.id, vector.vector);
+    }
+    return index;
+  }
+
+  private async _saveIndex(databaseName: string, manifest: DatabaseManifest, index: HNSWIndex): Promise<void> {
+    const path = this._getIndexPath(databaseName);
+    // S5 handles CBOR encoding automatically - pass object directly
+    await this.s5Client.fs.put(path, index.toJSON());
+    manifest.annIndex = {
+      type: 'hnsw',
+      path,
+      vectorCount: index.size,
+      updatedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Get the in-memory keyword index for a database, loading it from S5 if one
+   * has been persisted. Never builds a new index - see searchKeyword().
+   */
+  private async _loadKeywordIndex(databaseName: string, manifest: DatabaseManifest, cache: Map<string, Vector>): Promise<BM25Index | null> {
+    const cached = this.keywordIndexCache.get(databaseName);
+    if (cached) return cached;
+    if (!manifest.keywordIndex) return null;
+
+    try {
+      const data = await this.s5Client.fs.get(manifest.keywordIndex.path);
+      if (!data) return null;
+
+      const serialized = (typeof data === 'string' ? JSON.parse(data) : data) as SerializedBM25Index;
+      const index = BM25Index.fromJSON(serialized);
+      if (index.size !== cache.size) {
+        console.warn(`[S5VectorStore] ⚠️ Keyword index for "${databaseName}" is stale (${index.size} vs ${cache.size} vectors) - will rebuild`);
+        return null;
+      }
+
+      if (this.cacheEnabled) {
+        this.keywordIndexCache.set(databaseName, index);
+      }
+      return index;
+    } catch (error) {
+      console.warn(`[S5VectorStore] ⚠️ Failed to load keyword index for "${databaseName}" - will rebuild:`, error);
+      return null;
+    }
+  }
+
+  private _buildKeywordIndex(cache: Map<string, Vector>): BM25Index {
+    const index = new BM25Index({ k1: this.hybridConfig.k1, b: this.hybridConfig.b });
+    for (const vector of cache.values()) {
+      index.add(vector.id, this._chunkText(vector));
+    }
+    return index;
+  }
+
+  private async _saveKeywordIndex(databaseName: string, manifest: DatabaseManifest, index: BM25Index): Promise<void> {
+    const path = this._getKeywordIndexPath(databaseName);
+    // S5 handles CBOR encoding automatically - pass object directly
+    await this.s5Client.fs.put(path, index.toJSON());
+    manifest.keywordIndex = {
+      type: 'bm25',
+      path,
+      documentCount: index.size,
+      updatedAt: Date.now(),
+    };
+  }
+
+  private _chunkText(vector: Vector): string {
+    const text = vector.metadata?.text ?? vector.metadata?.content;
+    return typeof text === 'string' ? text : '';
+  }
+
   private async _saveChunk(databaseName: string, chunk: VectorChunk): Promise<ChunkMetadata> {
     const path = this._getChunkPath(databaseName, chunk.chunkId);
     console.log(`[S5VectorStore] _saveChunk() called for chunk ${chunk.chunkId}`);
@@ -822,12 +1243,35 @@ export class S5VectorStore {
     } as any;
   }
 
-  private _matchesFilter(metadata: Record<string, any>, filter: Record<string, any>): boolean {
-    for (const [key, value] of Object.entries(filter)) {
-      if (metadata[key] !== value) {
-        return false;
+  private _rankExact(vectors: Vector[], queryVector: number[], topK: number, threshold: number): VectorSearchHit[] {
+    const hits: VectorSearchHit[] = [];
+    for (const vector of vectors) {
+      const score = this._cosineSimilarity(queryVector, vector.vector);
+      if (score >= threshold) {
+        hits.push({ vector, score });
       }
     }
-    return true;
+    hits.sort((a, b) => b.score - a.score);
+    return hits.slice(0, topK);
+  }
+
+  private _cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length) {
+      throw new Error(`Vector dimension mismatch: ${a.length} vs ${b.length}`);
+    }
+
+    let dotProduct = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dotProduct += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) {
+      return 0;
+    }
+    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
   }
 }
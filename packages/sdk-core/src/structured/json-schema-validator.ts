@@ -0,0 +1,200 @@
+/**
+ * JSON Schema Validator
+ * Validates parsed model output against the JSON Schema subset used for
+ * structured output and tool parameters (no remote $ref, no formats)
+ * Max 200 lines
+ */
+
+import type { JSONSchema } from '../types/tools.types.js';
+
+/**
+ * Validation options
+ */
+export interface JsonSchemaValidationOptions {
+  /** Reject properties not listed in an object schema unless it allows them explicitly */
+  strict?: boolean;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function child(path: string, key: string | number): string {
+  return typeof key === 'number' ? `${path}[${key}]` : `${path}.${key}`;
+}
+
+/**
+ * Resolve a local reference (#/$defs/Name or #/definitions/Name)
+ */
+function resolveRef(root: JSONSchema, ref: string): JSONSchema | undefined {
+  if (!ref.startsWith('#')) return undefined;
+  return ref
+    .slice(1)
+    .split('/')
+    .filter(Boolean)
+    .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<any>((node, part) => node?.[part], root);
+}
+
+class Validator {
+  constructor(
+    private readonly root: JSONSchema,
+    private readonly options: JsonSchemaValidationOptions
+  ) {}
+
+  validate(value: unknown, schema: JSONSchema | boolean | undefined, path: string): string[] {
+    if (schema === undefined || schema === true) return [];
+    if (schema === false) return [`${path}: is not allowed`];
+
+    if (typeof schema.$ref === 'string') {
+      const target = resolveRef(this.root, schema.$ref);
+      if (!target) return [`${path}: cannot resolve ${schema.$ref}`];
+      return this.validate(value, target, path);
+    }
+
+    const errors: string[] = [];
+
+    if (schema.type !== undefined) {
+      const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => matchesType(value, type))) {
+        return [`${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`];
+      }
+    }
+    if (schema.const !== undefined && !isEqual(value, schema.const)) {
+      errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+    }
+    if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => isEqual(value, option))) {
+      errors.push(`${path}: must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`);
+    }
+
+    errors.push(...this.validateCombinators(value, schema, path));
+
+    if (typeof value === 'string') errors.push(...this.validateString(value, schema, path));
+    else if (typeof value === 'number') errors.push(...this.validateNumber(value, schema, path));
+    else if (Array.isArray(value)) errors.push(...this.validateArray(value, schema, path));
+    else if (value !== null && typeof value === 'object') {
+      errors.push(...this.validateObject(value as Record<string, unknown>, schema, path));
+    }
+    return errors;
+  }
+
+  private validateCombinators(value: unknown, schema: JSONSchema, path: string): string[] {
+    const errors: string[] = [];
+    if (Array.isArray(schema.allOf)) {
+      schema.allOf.forEach((sub: JSONSchema) => errors.push(...this.validate(value, sub, path)));
+    }
+    if (Array.isArray(schema.anyOf) && !schema.anyOf.some((sub: JSONSchema) => this.validate(value, sub, path).length === 0)) {
+      errors.push(`${path}: does not match any allowed schema`);
+    }
+    if (Array.isArray(schema.oneOf)) {
+      const matches = schema.oneOf.filter((sub: JSONSchema) => this.validate(value, sub, path).length === 0).length;
+      if (matches !== 1) errors.push(`${path}: must match exactly one allowed schema (matched ${matches})`);
+    }
+    if (schema.not !== undefined && this.validate(value, schema.not, path).length === 0) {
+      errors.push(`${path}: matches a disallowed schema`);
+    }
+    return errors;
+  }
+
+  private validateString(value: string, schema: JSONSchema, path: string): string[] {
+    const errors: string[] = [];
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path}: must have at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path}: must have at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(value)) {
+      errors.push(`${path}: must match pattern ${schema.pattern}`);
+    }
+    return errors;
+  }
+
+  private validateNumber(value: number, schema: JSONSchema, path: string): string[] {
+    const errors: string[] = [];
+    if (typeof schema.minimum === 'number' && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+    if (typeof schema.maximum === 'number' && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+    }
+    if (typeof schema.multipleOf === 'number' && !Number.isInteger(value / schema.multipleOf)) {
+      errors.push(`${path}: must be a multiple of ${schema.multipleOf}`);
+    }
+    return errors;
+  }
+
+  private validateArray(value: unknown[], schema: JSONSchema, path: string): string[] {
+    const errors: string[] = [];
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems === true && new Set(value.map(item => JSON.stringify(item))).size !== value.length) {
+      errors.push(`${path}: items must be unique`);
+    }
+    const prefix: JSONSchema[] = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+    value.forEach((item, index) => {
+      const itemSchema = index < prefix.length ? prefix[index] : schema.items;
+      errors.push(...this.validate(item, itemSchema, child(path, index)));
+    });
+    return errors;
+  }
+
+  private validateObject(value: Record<string, unknown>, schema: JSONSchema, path: string): string[] {
+    const errors: string[] = [];
+    const properties: Record<string, JSONSchema> = schema.properties ?? {};
+    for (const key of Array.isArray(schema.required) ? schema.required : []) {
+      if (!(key in value)) errors.push(`${child(path, key)}: is required`);
+    }
+
+    const additional = schema.additionalProperties ?? (this.options.strict && schema.properties ? false : undefined);
+    for (const [key, item] of Object.entries(value)) {
+      if (key in properties) {
+        errors.push(...this.validate(item, properties[key], child(path, key)));
+      } else if (additional === false) {
+        errors.push(`${child(path, key)}: is not allowed`);
+      } else if (typeof additional === 'object') {
+        errors.push(...this.validate(item, additional, child(path, key)));
+      }
+    }
+
+    const count = Object.keys(value).length;
+    if (typeof schema.minProperties === 'number' && count < schema.minProperties) {
+      errors.push(`${path}: must have at least ${schema.minProperties} properties`);
+    }
+    if (typeof schema.maxProperties === 'number' && count > schema.maxProperties) {
+      errors.push(`${path}: must have at most ${schema.maxProperties} properties`);
+    }
+    return errors;
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema
+ *
+ * @returns Error messages prefixed with the JSON path ("$.items[0].name: ..."); empty when valid
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JSONSchema,
+  options: JsonSchemaValidationOptions = {}
+): string[] {
+  return new Validator(schema, options).validate(value, schema, '$');
+}
@@ -0,0 +1,115 @@
+/**
+ * Structured Output
+ * Prompt instructions, response parsing and repair prompts for JSON
+ * responses requested with PromptOptions.responseFormat
+ * Max 150 lines
+ */
+
+import type { ResponseFormat } from '../types/structured-output.types.js';
+import { validateJsonSchema } from './json-schema-validator.js';
+
+/**
+ * Outcome of parsing a response against a response format
+ */
+export type StructuredOutputResult =
+  | { valid: true; value: unknown }
+  | { valid: false; errors: string[] };
+
+const THINK_BLOCK = /<think>[\s\S]*?<\/think>/g;
+const CODE_FENCE = /```(?:json)?\s*\n?([\s\S]*?)```/i;
+
+function tryParse(text: string): { value: unknown } | undefined {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the JSON value in a response
+ *
+ * Accepts bare JSON, JSON in a code fence, or JSON surrounded by prose,
+ * ignoring <think> blocks of reasoning models.
+ */
+export function extractJson(text: string): { value: unknown } | undefined {
+  const cleaned = text.replace(THINK_BLOCK, '').trim();
+  const direct = tryParse(cleaned);
+  if (direct) return direct;
+
+  const fenced = CODE_FENCE.exec(cleaned);
+  if (fenced) {
+    const parsed = tryParse(fenced[1].trim());
+    if (parsed) return parsed;
+  }
+
+  // Outermost object or array within prose
+  const start = cleaned.search(/[{[]/);
+  if (start < 0) return undefined;
+  const close = cleaned[start] === '{' ? '}' : ']';
+  const end = cleaned.lastIndexOf(close);
+  return end > start ? tryParse(cleaned.slice(start, end + 1)) : undefined;
+}
+
+/**
+ * Parse and validate a response
+ */
+export function parseStructuredOutput(text: string, format: ResponseFormat): StructuredOutputResult {
+  const parsed = extractJson(text);
+  if (!parsed) {
+    return { valid: false, errors: ['Response is not valid JSON'] };
+  }
+  if (format.type === 'json_object') {
+    const isObject = parsed.value !== null && typeof parsed.value === 'object' && !Array.isArray(parsed.value);
+    return isObject ? { valid: true, value: parsed.value } : { valid: false, errors: ['$: expected object'] };
+  }
+  const errors = validateJsonSchema(parsed.value, format.schema, { strict: format.strict });
+  return errors.length === 0 ? { valid: true, value: parsed.value } : { valid: false, errors };
+}
+
+function formatInstructions(format: ResponseFormat): string {
+  if (format.type === 'json_object') {
+    return 'Respond with a single JSON object only, without code fences or any other text.';
+  }
+  return [
+    'Respond with a single JSON value only, without code fences or any other text.',
+    'It must match this JSON Schema:',
+    JSON.stringify(format.schema)
+  ].join('\n');
+}
+
+/**
+ * Prompt with output format instructions, for hosts without grammar support
+ */
+export function buildStructuredOutputPrompt(format: ResponseFormat, prompt: string): string {
+  return `${formatInstructions(format)}\n\n${prompt}`;
+}
+
+/**
+ * Follow-up prompt asking the model to correct an invalid response
+ * (format instructions are added like for any structured prompt)
+ */
+export function buildRepairPrompt(response: string, errors: string[]): string {
+  return [
+    'Your previous response was not valid:',
+    ...errors.map(error => `- ${error}`),
+    '',
+    'Previous response:',
+    response.trim(),
+    '',
+    'Reply with the corrected JSON.'
+  ].join('\n');
+}
+
+/**
+ * response_format field sent to hosts with grammar support
+ */
+export function toResponseFormatPayload(format: ResponseFormat): Record<string, any> {
+  if (format.type === 'json_object') {
+    return { type: 'json_object' };
+  }
+  return {
+    type: 'json_schema',
+    json_schema: { name: format.name ?? 'response', schema: format.schema, strict: format.strict ?? false }
+  };
+}
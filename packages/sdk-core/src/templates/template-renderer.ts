@@ -0,0 +1,163 @@
+/**
+ * Prompt Template Rendering
+ * Validates templates and values, expands partials and few-shot examples
+ * Max 200 lines
+ */
+
+import { SDKError } from '../types/index.js';
+import type {
+  PromptTemplateVersion,
+  TemplateVariable,
+  TemplateVariableType,
+  TemplateValues
+} from '../types/prompt-templates.types.js';
+
+/** Template fields that can hold placeholders */
+export type TemplateContent = Pick<PromptTemplateVersion, 'system' | 'body' | 'variables' | 'partials' | 'fewShot'>;
+
+const PLACEHOLDER = /\{\{\s*(>\s*)?([A-Za-z_][\w.-]*)\s*\}\}/g;
+const VARIABLE_TYPES: TemplateVariableType[] = ['string', 'number', 'boolean', 'string[]'];
+const MAX_PARTIAL_DEPTH = 10;
+
+/**
+ * Variable and partial names used in a text
+ */
+export function extractPlaceholders(text: string): { variables: string[]; partials: string[] } {
+  const variables = new Set<string>();
+  const partials = new Set<string>();
+  for (const [, partial, name] of text.matchAll(PLACEHOLDER)) {
+    (partial ? partials : variables).add(name);
+  }
+  return { variables: [...variables], partials: [...partials] };
+}
+
+function matchesType(value: unknown, type: TemplateVariableType): boolean {
+  if (type === 'string[]') {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+  }
+  if (type === 'number') {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+  return typeof value === type;
+}
+
+/**
+ * Check a template: a body, well-formed variables, and no {{variable}}
+ * that is not declared. Returns the problems found.
+ */
+export function validateTemplateContent(content: TemplateContent): string[] {
+  const errors: string[] = [];
+  if (!content.body || content.body.trim() === '') {
+    errors.push('body is required');
+  }
+
+  const declared = new Set<string>();
+  for (const variable of content.variables) {
+    if (!/^[A-Za-z_][\w.-]*$/.test(variable.name ?? '')) {
+      errors.push(`invalid variable name "${variable.name}"`);
+    } else if (declared.has(variable.name)) {
+      errors.push(`variable "${variable.name}" is declared twice`);
+    }
+    declared.add(variable.name);
+    if (!VARIABLE_TYPES.includes(variable.type)) {
+      errors.push(`variable "${variable.name}" has unknown type "${variable.type}"`);
+    } else if (variable.default !== undefined && !matchesType(variable.default, variable.type)) {
+      errors.push(`default of "${variable.name}" is not a ${variable.type}`);
+    }
+  }
+
+  const texts = [
+    content.system ?? '',
+    content.body ?? '',
+    ...Object.values(content.partials ?? {}),
+    ...(content.fewShot ?? []).flatMap(example => [example.input, example.output])
+  ];
+  for (const name of new Set(texts.flatMap(text => extractPlaceholders(text).variables))) {
+    if (!declared.has(name)) {
+      errors.push(`{{${name}}} is not a declared variable`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Check render values against the declared variables and fill in defaults.
+ *
+ * @throws SDKError INVALID_TEMPLATE_VALUES listing every problem
+ */
+export function resolveTemplateValues(variables: TemplateVariable[], values: TemplateValues = {}): TemplateValues {
+  const errors: string[] = [];
+  const resolved: TemplateValues = {};
+  const declared = new Set(variables.map(variable => variable.name));
+
+  for (const name of Object.keys(values)) {
+    if (!declared.has(name)) {
+      errors.push(`"${name}" is not a variable of this template`);
+    }
+  }
+  for (const variable of variables) {
+    const value = values[variable.name] ?? variable.default;
+    if (value === undefined) {
+      if (variable.required !== false) {
+        errors.push(`"${variable.name}" is required`);
+      }
+      continue;
+    }
+    if (!matchesType(value, variable.type)) {
+      errors.push(`"${variable.name}" must be a ${variable.type}`);
+      continue;
+    }
+    resolved[variable.name] = value;
+  }
+
+  if (errors.length > 0) {
+    throw new SDKError(`Invalid template values: ${errors.join('; ')}`, 'INVALID_TEMPLATE_VALUES', { errors });
+  }
+  return resolved;
+}
+
+/**
+ * Render a template version: system text, then the few-shot examples, then
+ * the body. Partials are expanded (recursively) before variables are
+ * substituted; optional variables without a value render as empty text.
+ *
+ * @param resolvePartial - Lookup for partials the version does not define itself
+ * @throws SDKError INVALID_TEMPLATE_VALUES for bad values, INVALID_TEMPLATE for unknown or circular partials
+ */
+export function renderTemplate(
+  content: TemplateContent,
+  values: TemplateValues = {},
+  resolvePartial?: (name: string) => string | undefined
+): string {
+  const resolved = resolveTemplateValues(content.variables, values);
+
+  const expand = (text: string, stack: string[]): string =>
+    text.replace(PLACEHOLDER, (match, partial: string | undefined, name: string) => {
+      if (!partial) return match;
+      if (stack.includes(name) || stack.length >= MAX_PARTIAL_DEPTH) {
+        throw new SDKError(`Partial "${name}" includes itself`, 'INVALID_TEMPLATE', { partials: [...stack, name] });
+      }
+      const partialText = content.partials?.[name] ?? resolvePartial?.(name);
+      if (partialText === undefined) {
+        throw new SDKError(`Unknown partial "${name}"`, 'INVALID_TEMPLATE', { partial: name });
+      }
+      return expand(partialText, [...stack, name]);
+    });
+
+  const substitute = (text: string): string =>
+    expand(text, []).replace(PLACEHOLDER, (_match, _partial, name: string) => {
+      const value = resolved[name];
+      if (value === undefined) return '';
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    });
+
+  const sections: string[] = [];
+  if (content.system?.trim()) {
+    sections.push(substitute(content.system));
+  }
+  (content.fewShot ?? []).forEach((example, i) => {
+    sections.push(`Example ${i + 1}:\nUser: ${substitute(example.input)}\nAssistant: ${substitute(example.output)}`);
+  });
+  sections.push(substitute(content.body));
+  return sections.join('\n\n');
+}
@@ -0,0 +1,237 @@
+/**
+ * BPE Tokenizer
+ * Pure-JS byte-pair encoding from a Hugging Face tokenizer.json vocabulary
+ * Supports byte-level BPE (GPT-2 / Llama 3 / Qwen) and SentencePiece BPE
+ * (Llama 2 / Mistral, Metaspace + byte fallback)
+ * Max 300 lines
+ */
+
+import type { Tokenizer, TokenizerJSON, TokenizerComponent } from './types.js';
+
+/**
+ * GPT-2 pre-tokenization pattern (used when tokenizer.json has no usable Split regex)
+ */
+const DEFAULT_SPLIT = /'s|'t|'re|'ve|'m|'ll|'d| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+const MAX_CACHE_ENTRIES = 10000;
+
+/**
+ * GPT-2 byte → printable character table
+ */
+function buildByteEncoder(): string[] {
+  const bytes: number[] = [];
+  for (let b = 33; b <= 126; b++) bytes.push(b);
+  for (let b = 161; b <= 172; b++) bytes.push(b);
+  for (let b = 174; b <= 255; b++) bytes.push(b);
+
+  const table: string[] = new Array(256);
+  for (const b of bytes) table[b] = String.fromCharCode(b);
+  let extra = 0;
+  for (let b = 0; b < 256; b++) {
+    if (table[b] === undefined) table[b] = String.fromCharCode(256 + extra++);
+  }
+  return table;
+}
+
+/**
+ * Flatten Sequence components into a list
+ */
+function flattenComponents(component: TokenizerComponent | null | undefined): TokenizerComponent[] {
+  if (!component) return [];
+  const children = component.pretokenizers ?? component.normalizers ?? component.decoders;
+  return children ? children.flatMap(flattenComponents) : [component];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Byte-pair encoding tokenizer
+ */
+export class BPETokenizer implements Tokenizer {
+  readonly name: string;
+
+  private readonly vocab: Map<string, number>;
+  private readonly ranks = new Map<string, number>();
+  private readonly byteLevel: boolean;
+  private readonly byteEncoder = buildByteEncoder();
+  private readonly splitPattern: RegExp;
+  private readonly addPrefixSpace: boolean;
+  private readonly metaspace: string | null;
+  private readonly prependMetaspace: boolean;
+  private readonly replacements: Array<[string, string]> = [];
+  private readonly byteFallback: boolean;
+  private readonly unkId: number | undefined;
+  private readonly addedTokens: Map<string, number>;
+  private readonly addedPattern: RegExp | null;
+  private readonly cache = new Map<string, number[]>();
+  private readonly encoder = new TextEncoder();
+
+  /**
+   * @param json - Parsed tokenizer.json
+   * @param name - Vocabulary name (default: 'bpe')
+   * @throws Error if the vocabulary is not a BPE model
+   */
+  constructor(json: TokenizerJSON, name: string = 'bpe') {
+    if (json?.model?.type !== 'BPE' || !json.model.vocab || !json.model.merges) {
+      throw new Error(`Unsupported tokenizer model: ${json?.model?.type ?? 'unknown'} (expected BPE)`);
+    }
+    this.name = name;
+    this.vocab = new Map(Object.entries(json.model.vocab));
+    json.model.merges.forEach((merge, rank) => {
+      const [left, right] = Array.isArray(merge) ? merge : merge.split(' ');
+      this.ranks.set(`${left}\u0000${right}`, rank);
+    });
+
+    const preTokenizers = flattenComponents(json.pre_tokenizer);
+    const normalizers = flattenComponents(json.normalizer);
+    const decoders = flattenComponents(json.decoder);
+
+    const byteLevel = preTokenizers.find(c => c.type === 'ByteLevel');
+    this.byteLevel = !!byteLevel || decoders.some(c => c.type === 'ByteLevel');
+    this.addPrefixSpace = byteLevel?.add_prefix_space === true;
+    this.splitPattern = this.compileSplit(preTokenizers.find(c => c.type === 'Split')?.pattern?.Regex);
+
+    // SentencePiece-style: spaces become the metaspace marker ('▁')
+    const metaspace = preTokenizers.find(c => c.type === 'Metaspace');
+    for (const normalizer of normalizers) {
+      if (normalizer.type === 'Replace' && normalizer.pattern?.String !== undefined) {
+        this.replacements.push([normalizer.pattern.String, normalizer.content ?? '']);
+      }
+    }
+    const prepend = normalizers.find(c => c.type === 'Prepend');
+    this.metaspace = metaspace?.replacement ?? (prepend?.prepend || (this.replacements.length > 0 ? '▁' : null));
+    this.prependMetaspace = metaspace
+      ? metaspace.prepend_scheme !== 'never' && metaspace.add_prefix_space !== false
+      : !!prepend;
+
+    this.byteFallback = json.model.byte_fallback === true;
+    this.unkId = json.model.unk_token != null ? this.vocab.get(json.model.unk_token) : undefined;
+
+    this.addedTokens = new Map((json.added_tokens ?? []).map(t => [t.content, t.id]));
+    const added = Array.from(this.addedTokens.keys()).sort((a, b) => b.length - a.length);
+    this.addedPattern = added.length > 0 ? new RegExp(added.map(escapeRegExp).join('|'), 'g') : null;
+  }
+
+  encode(text: string): number[] {
+    const ids: number[] = [];
+    let position = 0;
+
+    // Added/special tokens (e.g. <|eot_id|>) are matched verbatim before BPE
+    if (this.addedPattern) {
+      for (const match of text.matchAll(this.addedPattern)) {
+        this.encodeSegment(text.slice(position, match.index), ids, position === 0);
+        ids.push(this.addedTokens.get(match[0])!);
+        position = match.index! + match[0].length;
+      }
+    }
+    this.encodeSegment(text.slice(position), ids, position === 0);
+    return ids;
+  }
+
+  countTokens(text: string): number {
+    return this.encode(text).length;
+  }
+
+  private encodeSegment(text: string, ids: number[], atStart: boolean): void {
+    if (text.length === 0) return;
+
+    for (const piece of this.preTokenize(text, atStart)) {
+      let pieceIds = this.cache.get(piece);
+      if (!pieceIds) {
+        pieceIds = this.encodePiece(piece);
+        if (this.cache.size >= MAX_CACHE_ENTRIES) this.cache.clear();
+        this.cache.set(piece, pieceIds);
+      }
+      for (const id of pieceIds) ids.push(id);
+    }
+  }
+
+  private preTokenize(text: string, atStart: boolean): string[] {
+    if (this.byteLevel) {
+      const input = this.addPrefixSpace && atStart && !text.startsWith(' ') ? ` ${text}` : text;
+      return Array.from(input.matchAll(this.splitPattern), m => m[0]);
+    }
+
+    if (this.metaspace) {
+      let normalized = text;
+      for (const [from, to] of this.replacements) normalized = normalized.split(from).join(to);
+      normalized = normalized.replace(/ /g, this.metaspace);
+      if (this.prependMetaspace && atStart && !normalized.startsWith(this.metaspace)) {
+        normalized = this.metaspace + normalized;
+      }
+      // Each word starts at a metaspace marker
+      return normalized.split(new RegExp(`(?=${escapeRegExp(this.metaspace)})`)).filter(p => p.length > 0);
+    }
+
+    return text.match(/\S+|\s+/g) ?? [];
+  }
+
+  private encodePiece(piece: string): number[] {
+    const symbols = this.byteLevel
+      ? Array.from(this.encoder.encode(piece), b => this.byteEncoder[b])
+      : Array.from(piece);
+
+    const merged = this.applyMerges(symbols);
+    const ids: number[] = [];
+    for (const symbol of merged) {
+      const id = this.vocab.get(symbol);
+      if (id !== undefined) {
+        ids.push(id);
+      } else if (this.byteFallback) {
+        for (const byte of this.encoder.encode(symbol)) {
+          const byteId = this.vocab.get(`<0x${byte.toString(16).toUpperCase().padStart(2, '0')}>`);
+          if (byteId !== undefined) ids.push(byteId);
+          else if (this.unkId !== undefined) ids.push(this.unkId);
+        }
+      } else if (this.unkId !== undefined) {
+        ids.push(this.unkId);
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Repeatedly merge the adjacent pair with the lowest merge rank
+   */
+  private applyMerges(symbols: string[]): string[] {
+    const parts = [...symbols];
+    while (parts.length > 1) {
+      let bestRank = Infinity;
+      let bestIndex = -1;
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.ranks.get(`${parts[i]}\u0000${parts[i + 1]}`);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          bestIndex = i;
+        }
+      }
+      if (bestIndex < 0) break;
+      parts.splice(bestIndex, 2, parts[bestIndex] + parts[bestIndex + 1]);
+    }
+    return parts;
+  }
+
+  private compileSplit(regex: string | undefined): RegExp {
+    if (!regex) return DEFAULT_SPLIT;
+    try {
+      // JS has no inline (?i:...) groups; contraction matching falls back to case-sensitive
+      return new RegExp(regex.replace(/\(\?i:/g, '(?:'), 'gu');
+    } catch {
+      return DEFAULT_SPLIT;
+    }
+  }
+}
+
+/**
+ * Estimating tokenizer used when no vocabulary is registered for a model
+ * Rough approximation: 1 token ≈ 4 characters
+ */
+export class HeuristicTokenizer implements Tokenizer {
+  readonly name = 'heuristic';
+
+  countTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+}
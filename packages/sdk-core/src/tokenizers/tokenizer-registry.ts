@@ -0,0 +1,170 @@
+/**
+ * Tokenizer Registry
+ * Model id → tokenizer lookup shared by chunking, context building,
+ * conversation memory and cost estimation
+ * Max 200 lines
+ */
+
+import type { Tokenizer, TokenizerSource, TokenizerJSON } from './types.js';
+import { BPETokenizer, HeuristicTokenizer } from './bpe-tokenizer.js';
+
+/**
+ * Registry of model tokenizers
+ *
+ * Tokenizers are registered directly or as a vocabulary source (S5 path,
+ * local file or inline JSON) that is loaded on first use. Lookups for models
+ * without a loaded tokenizer fall back to the heuristic estimate, so callers
+ * can always count synchronously.
+ */
+export class TokenizerRegistry {
+  private tokenizers = new Map<string, Tokenizer>();
+  private sources = new Map<string, TokenizerSource>();
+  private loading = new Map<string, Promise<Tokenizer>>();
+  private s5Client?: any;
+  private readonly fallback: Tokenizer = new HeuristicTokenizer();
+
+  /**
+   * Set the S5 client used to load 's5' vocabulary sources
+   */
+  setS5Client(s5Client: any): void {
+    this.s5Client = s5Client;
+  }
+
+  /**
+   * Register a ready tokenizer for a model
+   */
+  register(modelId: string, tokenizer: Tokenizer): void {
+    this.tokenizers.set(this.key(modelId), tokenizer);
+  }
+
+  /**
+   * Register where a model's tokenizer.json is loaded from
+   * Replaces any tokenizer already loaded for the model
+   */
+  registerSource(modelId: string, source: TokenizerSource): void {
+    const key = this.key(modelId);
+    this.sources.set(key, source);
+    this.tokenizers.delete(key);
+    this.loading.delete(key);
+  }
+
+  /**
+   * Check whether a real (non-heuristic) tokenizer is available or loadable
+   */
+  has(modelId: string): boolean {
+    const key = this.key(modelId);
+    return this.tokenizers.has(key) || this.sources.has(key);
+  }
+
+  /**
+   * Get the loaded tokenizer for a model, or the heuristic fallback
+   * Does not load sources; call load() first to use a registered vocabulary
+   */
+  get(modelId?: string): Tokenizer {
+    return this.find(modelId) ?? this.fallback;
+  }
+
+  /**
+   * Get the loaded tokenizer for a model without falling back
+   * Lets callers keep their own estimate when no vocabulary is loaded
+   */
+  find(modelId?: string): Tokenizer | undefined {
+    return modelId ? this.tokenizers.get(this.key(modelId)) : undefined;
+  }
+
+  /**
+   * Load (once) and return the tokenizer for a model
+   * Models without a registered source resolve to the heuristic fallback
+   *
+   * @throws Error if the registered source cannot be read or parsed
+   */
+  async load(modelId?: string): Promise<Tokenizer> {
+    if (!modelId) return this.fallback;
+    const key = this.key(modelId);
+
+    const loaded = this.tokenizers.get(key);
+    if (loaded) return loaded;
+
+    const source = this.sources.get(key);
+    if (!source) return this.fallback;
+
+    let pending = this.loading.get(key);
+    if (!pending) {
+      pending = this.loadSource(modelId, source)
+        .then(tokenizer => {
+          this.tokenizers.set(key, tokenizer);
+          return tokenizer;
+        })
+        .finally(() => this.loading.delete(key));
+      this.loading.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Count tokens with the model's loaded tokenizer (heuristic if none)
+   */
+  countTokens(text: string, modelId?: string): number {
+    return this.get(modelId).countTokens(text);
+  }
+
+  /**
+   * Remove all tokenizers and sources
+   */
+  clear(): void {
+    this.tokenizers.clear();
+    this.sources.clear();
+    this.loading.clear();
+  }
+
+  private key(modelId: string): string {
+    return modelId.trim().toLowerCase();
+  }
+
+  private async loadSource(modelId: string, source: TokenizerSource): Promise<Tokenizer> {
+    let raw: unknown;
+    switch (source.type) {
+      case 'json':
+        raw = source.data;
+        break;
+      case 's5':
+        if (!this.s5Client) {
+          throw new Error(`Cannot load tokenizer for ${modelId}: S5 client not set`);
+        }
+        raw = await this.s5Client.fs.get(source.path);
+        if (raw === undefined || raw === null) {
+          throw new Error(`Tokenizer not found in S5: ${source.path}`);
+        }
+        break;
+      case 'file': {
+        // Node.js only; the specifier is kept dynamic so browser bundles skip it
+        const fsModule = 'node:fs/promises';
+        const { readFile } = await import(/* @vite-ignore */ fsModule);
+        raw = await readFile(source.path, 'utf8');
+        break;
+      }
+    }
+
+    if (raw instanceof Uint8Array || raw instanceof ArrayBuffer) {
+      raw = new TextDecoder().decode(raw);
+    }
+    const json: TokenizerJSON = typeof raw === 'string' ? JSON.parse(raw) : raw as TokenizerJSON;
+    return new BPETokenizer(json, modelId);
+  }
+}
+
+/**
+ * Shared registry used across the SDK
+ */
+export const tokenizerRegistry = new TokenizerRegistry();
+
+/**
+ * Count tokens for a model using the shared registry
+ *
+ * @param text - Text to count
+ * @param modelId - Model id (heuristic estimate when omitted or not loaded)
+ * @returns Token count
+ */
+export function countTokens(text: string, modelId?: string): number {
+  return tokenizerRegistry.countTokens(text, modelId);
+}
@@ -0,0 +1,68 @@
+/**
+ * Tokenizer Type Definitions
+ * Shared types for model tokenizers and the tokenizer registry
+ * Max 100 lines
+ */
+
+/**
+ * Text tokenizer for a specific model
+ */
+export interface Tokenizer {
+  /**
+   * Identifier of the vocabulary (e.g. 'llama-3', 'heuristic')
+   */
+  readonly name: string;
+
+  /**
+   * Encode text to token ids (absent on estimating tokenizers)
+   */
+  encode?(text: string): number[];
+
+  /**
+   * Count the tokens the model sees for this text
+   */
+  countTokens(text: string): number;
+}
+
+/**
+ * Where a model's vocabulary file (Hugging Face tokenizer.json) is loaded from
+ */
+export type TokenizerSource =
+  | { type: 's5'; path: string }
+  | { type: 'file'; path: string }
+  | { type: 'json'; data: TokenizerJSON | string };
+
+/**
+ * Subset of the Hugging Face tokenizer.json format used by BPETokenizer
+ * Covers byte-level BPE (GPT-2, Llama 3, Qwen) and SentencePiece BPE
+ * exports (Llama 2, Mistral) that use the Metaspace pre-tokenizer
+ */
+export interface TokenizerJSON {
+  model: {
+    type: string;
+    vocab: Record<string, number>;
+    merges: Array<string | [string, string]>;
+    unk_token?: string | null;
+    byte_fallback?: boolean;
+  };
+  normalizer?: TokenizerComponent | null;
+  pre_tokenizer?: TokenizerComponent | null;
+  decoder?: TokenizerComponent | null;
+  added_tokens?: Array<{ id: number; content: string; special?: boolean }>;
+}
+
+/**
+ * Normalizer / pre-tokenizer / decoder entry in tokenizer.json
+ */
+export interface TokenizerComponent {
+  type: string;
+  pretokenizers?: TokenizerComponent[];
+  normalizers?: TokenizerComponent[];
+  decoders?: TokenizerComponent[];
+  pattern?: { Regex?: string; String?: string };
+  content?: string;
+  replacement?: string;
+  prepend?: string;
+  prepend_scheme?: 'always' | 'first' | 'never';
+  add_prefix_space?: boolean;
+}
@@ -0,0 +1,147 @@
+/**
+ * Block Tool Call Parser
+ * Streaming detection of marker-delimited tool call blocks whose content
+ * is decoded by a dialect (JSON, XML-ish, ...)
+ * Max 150 lines
+ */
+
+import type { StreamingToolParser, ToolParserEvent } from './tool-call-parser.js';
+
+/** A tool call decoded from block content */
+export interface ParsedToolCall {
+  name: string;
+  arguments: Record<string, any>;
+}
+
+/** Markers delimiting a tool call block */
+export interface BlockSyntax {
+  /** Marker that starts a block */
+  open: string;
+  /** Marker that ends it; without one the block runs to the end of the stream */
+  close?: string;
+  /** Only recognise the marker at the start of the output (leading whitespace allowed) */
+  startOnly?: boolean;
+  /** Keep the open marker as part of the block content (e.g. a leading "{") */
+  keepOpen?: boolean;
+}
+
+/**
+ * Decode block content into tool calls, or null when it is not a valid call
+ */
+export type BlockContentParser = (content: string) => ParsedToolCall[] | null;
+
+/**
+ * Streaming parser for marker-delimited tool call blocks
+ *
+ * Text outside blocks is passed through as soon as it cannot be the start
+ * of a marker. Blocks whose content does not decode are returned as text,
+ * as are blocks still open when a closed syntax reaches the end of the stream.
+ */
+export class BlockToolCallParser implements StreamingToolParser {
+  private buffer = '';
+  private block: BlockSyntax | null = null;
+  private atStart = true;
+
+  constructor(
+    private readonly syntaxes: BlockSyntax[],
+    private readonly parseContent: BlockContentParser
+  ) {}
+
+  feed(token: string): ToolParserEvent[] {
+    this.buffer += token;
+    return this.block ? this.processBlock() : this.processText();
+  }
+
+  flush(): ToolParserEvent[] {
+    let events: ToolParserEvent[] = [];
+    if (this.block) {
+      const raw = this.rawBlock(this.block, this.buffer);
+      events = this.block.close ? [{ type: 'text', text: raw }] : this.toEvents(this.buffer, raw);
+    } else if (this.buffer) {
+      events = [{ type: 'text', text: this.buffer }];
+    }
+    this.reset();
+    return events;
+  }
+
+  reset(): void {
+    this.buffer = '';
+    this.block = null;
+    this.atStart = true;
+  }
+
+  private processText(): ToolParserEvent[] {
+    const match = this.findOpen();
+    if (match) {
+      const events: ToolParserEvent[] = [];
+      const before = this.buffer.slice(0, match.index);
+      if (before) events.push({ type: 'text', text: before });
+      const skip = match.syntax.keepOpen ? 0 : match.syntax.open.length;
+      this.buffer = this.buffer.slice(match.index + skip);
+      this.block = match.syntax;
+      this.atStart = false;
+      return events.concat(this.processBlock());
+    }
+    // Keep a possible partial marker in the buffer
+    const hold = this.holdFrom();
+    const text = this.buffer.slice(0, hold);
+    this.buffer = this.buffer.slice(hold);
+    if (text.trim()) this.atStart = false;
+    return text ? [{ type: 'text', text }] : [];
+  }
+
+  private processBlock(): ToolParserEvent[] {
+    const syntax = this.block!;
+    if (!syntax.close) return []; // runs to the end of the stream
+    const end = this.buffer.indexOf(syntax.close);
+    if (end < 0) return [];
+    const content = this.buffer.slice(0, end);
+    this.buffer = this.buffer.slice(end + syntax.close.length);
+    this.block = null;
+    const events = this.toEvents(content, this.rawBlock(syntax, content) + syntax.close);
+    return this.buffer ? events.concat(this.processText()) : events;
+  }
+
+  private toEvents(content: string, raw: string): ToolParserEvent[] {
+    const calls = this.parseContent(content);
+    if (!calls?.length) return [{ type: 'text', text: raw }];
+    return calls.map(call => ({ type: 'tool_call', name: call.name, arguments: call.arguments }));
+  }
+
+  private rawBlock(syntax: BlockSyntax, content: string): string {
+    return syntax.keepOpen ? content : syntax.open + content;
+  }
+
+  private findOpen(): { index: number; syntax: BlockSyntax } | null {
+    let best: { index: number; syntax: BlockSyntax } | null = null;
+    for (const syntax of this.syntaxes) {
+      let index = -1;
+      if (!syntax.startOnly) {
+        index = this.buffer.indexOf(syntax.open);
+      } else if (this.atStart) {
+        const lead = this.buffer.length - this.buffer.trimStart().length;
+        index = this.buffer.startsWith(syntax.open, lead) ? lead : -1;
+      }
+      if (index >= 0 && (!best || index < best.index)) best = { index, syntax };
+    }
+    return best;
+  }
+
+  private holdFrom(): number {
+    let hold = this.buffer.length;
+    for (const syntax of this.syntaxes) {
+      if (syntax.startOnly) {
+        // Hold leading whitespace and partial markers until the output starts
+        if (this.atStart && syntax.open.startsWith(this.buffer.trimStart())) hold = 0;
+        continue;
+      }
+      for (let len = Math.min(syntax.open.length - 1, this.buffer.length); len > 0; len--) {
+        if (this.buffer.endsWith(syntax.open.slice(0, len))) {
+          hold = Math.min(hold, this.buffer.length - len);
+          break;
+        }
+      }
+    }
+    return hold;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Tool Call Decoders
+ * Decode the content of a tool call block into calls for the JSON,
+ * Llama 3, Mistral and Qwen3-Coder formats
+ * Max 150 lines
+ */
+
+import { coerceToolArgument } from './tool-call-parser.js';
+import type { ParsedToolCall } from './block-tool-parser.js';
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decode {"name", "arguments" | "parameters"}; arguments may be a JSON string
+ */
+function toParsedCall(value: any): ParsedToolCall | null {
+  if (!value || typeof value !== 'object' || typeof value.name !== 'string' || !value.name) return null;
+  let args = value.arguments ?? value.parameters ?? {};
+  if (typeof args === 'string') args = parseJson(args);
+  if (!args || typeof args !== 'object' || Array.isArray(args)) return null;
+  return { name: value.name, arguments: args };
+}
+
+function toParsedCalls(values: any[]): ParsedToolCall[] | null {
+  const calls = values.map(toParsedCall);
+  return calls.length > 0 && calls.every(Boolean) ? (calls as ParsedToolCall[]) : null;
+}
+
+/**
+ * Split concatenated JSON objects separated by whitespace or ";"
+ */
+function splitJsonObjects(text: string): string[] | null {
+  const objects: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      if (depth++ === 0) start = i;
+    } else if (ch === '}') {
+      if (--depth === 0) objects.push(text.slice(start, i + 1));
+      if (depth < 0) return null;
+    } else if (depth === 0 && ch !== ';' && !/\s/.test(ch)) {
+      return null;
+    }
+  }
+  return depth === 0 ? objects : null;
+}
+
+/** `{"name": ..., "arguments": {...}}` */
+export function parseJsonCall(content: string): ParsedToolCall[] | null {
+  const value = parseJson(content.trim());
+  return value === undefined ? null : toParsedCalls([value]);
+}
+
+/** `<function=Name><parameter=k>v</parameter></function>` (Qwen3-Coder) */
+export function parseFunctionTags(content: string): ParsedToolCall[] | null {
+  const calls: ParsedToolCall[] = [];
+  const functionRe = /<function=([^>\s]+)>([\s\S]*?)(?:<\/function>|$)/g;
+  let fn;
+  while ((fn = functionRe.exec(content.trim())) !== null) {
+    const args: Record<string, any> = {};
+    const parameterRe = /<parameter=([^>\s]+)>([\s\S]*?)<\/parameter>/g;
+    let param;
+    while ((param = parameterRe.exec(fn[2])) !== null) {
+      args[param[1]] = coerceToolArgument(param[2].trim());
+    }
+    calls.push({ name: fn[1], arguments: args });
+  }
+  return calls.length > 0 ? calls : null;
+}
+
+/** One or more `{"name": ..., "parameters": {...}}` separated by ";" */
+export function parseLlamaCalls(content: string): ParsedToolCall[] | null {
+  const objects = splitJsonObjects(content);
+  return objects ? toParsedCalls(objects.map(parseJson)) : null;
+}
+
+/** `[{"name": ..., "arguments": {...}}]` or `Name[ARGS]{...}`, repeated after [TOOL_CALLS] */
+export function parseMistralCalls(content: string): ParsedToolCall[] | null {
+  const calls: ParsedToolCall[] = [];
+  for (const part of content.split('[TOOL_CALLS]').map(p => p.trim()).filter(Boolean)) {
+    const argsAt = part.indexOf('[ARGS]');
+    const value = argsAt >= 0
+      ? [{ name: part.slice(0, argsAt).trim(), arguments: parseJson(part.slice(argsAt + 6).trim()) }]
+      : parseJson(part);
+    if (value === undefined) return null;
+    const parsed = toParsedCalls(Array.isArray(value) ? value : [value]);
+    if (!parsed) return null;
+    calls.push(...parsed);
+  }
+  return calls.length > 0 ? calls : null;
+}
@@ -0,0 +1,132 @@
+/**
+ * Tool Call Parser
+ * Streaming detection of
+ * <tool_call>Name<arg_key>k</arg_key><arg_value>v</arg_value></tool_call>
+ * in model output
+ * Max 150 lines
+ */
+
+export type ToolParserEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; name: string; arguments: Record<string, any> };
+
+/**
+ * Incremental parser shared by all tool dialects
+ */
+export interface StreamingToolParser {
+  /** Consume a token and return the events it completes */
+  feed(token: string): ToolParserEvent[];
+  /** Return any buffered content at the end of the stream */
+  flush(): ToolParserEvent[];
+  reset(): void;
+}
+
+const OPEN_TAG = '<tool_call>';
+const CLOSE_TAG = '</tool_call>';
+
+/**
+ * Convert a textual argument value to a boolean, number or JSON value
+ * where possible; other values stay strings
+ */
+export function coerceToolArgument(value: string): any {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  const n = Number(value);
+  if (!isNaN(n) && value !== '') return n;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Streaming tool call parser
+ *
+ * Feed tokens as they arrive; text outside tool call tags is passed through
+ * as soon as it cannot be the start of a tag. Malformed calls are returned
+ * as text.
+ */
+export class ToolCallParser implements StreamingToolParser {
+  private buffer = '';
+  private state: 'text' | 'in_tool_call' = 'text';
+
+  /**
+   * Consume a token and return the events it completes
+   */
+  feed(token: string): ToolParserEvent[] {
+    this.buffer += token;
+    if (this.state === 'text') return this.processText();
+    return this.processToolCall();
+  }
+
+  /**
+   * Return any buffered content at the end of the stream
+   */
+  flush(): ToolParserEvent[] {
+    if (!this.buffer) return [];
+    const text = this.state === 'in_tool_call' ? OPEN_TAG + this.buffer : this.buffer;
+    this.reset();
+    return [{ type: 'text', text }];
+  }
+
+  reset(): void {
+    this.buffer = '';
+    this.state = 'text';
+  }
+
+  private processText(): ToolParserEvent[] {
+    const idx = this.buffer.indexOf(OPEN_TAG);
+    if (idx >= 0) {
+      const events: ToolParserEvent[] = [];
+      const before = this.buffer.slice(0, idx);
+      if (before) events.push({ type: 'text', text: before });
+      this.buffer = this.buffer.slice(idx + OPEN_TAG.length);
+      this.state = 'in_tool_call';
+      return events.concat(this.processToolCall());
+    }
+
+    // Keep a partial tag in the buffer (e.g. "<tool_" waiting for more chars)
+    const partial = this.partialTagStart(this.buffer);
+    const text = partial >= 0 ? this.buffer.slice(0, partial) : this.buffer;
+    this.buffer = partial >= 0 ? this.buffer.slice(partial) : '';
+    return text ? [{ type: 'text', text }] : [];
+  }
+
+  private processToolCall(): ToolParserEvent[] {
+    const endIdx = this.buffer.indexOf(CLOSE_TAG);
+    if (endIdx < 0) return []; // keep buffering
+
+    const content = this.buffer.slice(0, endIdx);
+    this.buffer = this.buffer.slice(endIdx + CLOSE_TAG.length);
+    this.state = 'text';
+
+    const parsed = this.parseContent(content);
+    const events: ToolParserEvent[] = parsed
+      ? [{ type: 'tool_call', name: parsed.name, arguments: parsed.args }]
+      : [{ type: 'text', text: OPEN_TAG + content + CLOSE_TAG }];
+    return this.buffer ? events.concat(this.processText()) : events;
+  }
+
+  private parseContent(content: string): { name: string; args: Record<string, any> } | null {
+    const firstArg = content.indexOf('<arg_key>');
+    const name = (firstArg >= 0 ? content.slice(0, firstArg) : content).trim();
+    if (!name) return null;
+
+    const args: Record<string, any> = {};
+    const re = /<arg_key>([\s\S]*?)<\/arg_key>\s*<arg_value>([\s\S]*?)<\/arg_value>/g;
+    let match;
+    while ((match = re.exec(content)) !== null) {
+      args[match[1].trim()] = coerceToolArgument(match[2].trim());
+    }
+    return { name, args };
+  }
+
+
+  private partialTagStart(buffer: string): number {
+    for (let len = Math.min(OPEN_TAG.length - 1, buffer.length); len > 0; len--) {
+      if (buffer.endsWith(OPEN_TAG.slice(0, len))) return buffer.length - len;
+    }
+    return -1;
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Tool Dialects
+ * Prompt formats and streaming parsers for the tool calling conventions
+ * of common open-weight model families, selected per model
+ * Max 300 lines
+ */
+
+import { SDKError } from '../types/index.js';
+import type { ModelInfo } from '../types/models.js';
+import type { ToolDefinition, ToolCall, ToolResult, ToolDialectName } from '../types/tools.types.js';
+import { ToolCallParser, type StreamingToolParser } from './tool-call-parser.js';
+import { BlockToolCallParser } from './block-tool-parser.js';
+import { parseJsonCall, parseFunctionTags, parseLlamaCalls, parseMistralCalls } from './tool-call-decoders.js';
+import { formatToolsForPrompt, formatToolResults, toolResultText } from './tool-prompt.js';
+
+/**
+ * How tools are advertised to a model family and how its calls are parsed
+ */
+export interface ToolDialect {
+  name: ToolDialectName;
+  /** Model names (HuggingFace repo/file or short name) that use this dialect */
+  modelPattern?: RegExp;
+  /** Create a parser for one streamed response */
+  createParser(): StreamingToolParser;
+  /** Tool instructions placed before the prompt */
+  formatTools(tools: ToolDefinition[]): string;
+  /** Follow-up prompt answering tool calls */
+  formatToolResults(calls: ToolCall[], results: ToolResult[]): string;
+  /** Assistant tool call replayed from a chat transcript (e.g. by the bridges) */
+  formatToolCall(name: string, args: Record<string, any>): string;
+  /** ChatML role of replayed tool results */
+  resultRole: string;
+  /** One replayed tool result */
+  formatToolResult(content: string): string;
+}
+
+// ============= Prompt Formatting =============
+
+function functionSchemas(tools: ToolDefinition[]): object[] {
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description ?? '',
+      parameters: tool.parameters ?? { type: 'object', properties: {} }
+    }
+  }));
+}
+
+/** Hermes / Qwen2.5 chat template tool instructions */
+function formatHermesTools(tools: ToolDefinition[]): string {
+  return [
+    '# Tools',
+    '',
+    'You may call one or more functions to assist with the user query.',
+    '',
+    'You are provided with function signatures within <tools></tools> XML tags:',
+    '<tools>',
+    ...functionSchemas(tools).map(schema => JSON.stringify(schema)),
+    '</tools>',
+    '',
+    'For each function call, return a json object with function name and arguments within <tool_call></tool_call> XML tags:',
+    '<tool_call>',
+    '{"name": <function-name>, "arguments": <args-json-object>}',
+    '</tool_call>'
+  ].join('\n');
+}
+
+/** Llama 3.1 JSON tool calling instructions */
+function formatLlamaTools(tools: ToolDefinition[]): string {
+  return [
+    'Given the following functions, please respond with a JSON for a function call with its proper arguments that best answers the given prompt.',
+    '',
+    'Respond in the format {"name": function name, "parameters": dictionary of argument name and its value}. Do not use variables.',
+    '',
+    functionSchemas(tools).map(schema => JSON.stringify(schema)).join('\n\n')
+  ].join('\n');
+}
+
+function formatMistralTools(tools: ToolDefinition[]): string {
+  return `[AVAILABLE_TOOLS]${JSON.stringify(functionSchemas(tools))}[/AVAILABLE_TOOLS]`;
+}
+
+/**
+ * Result objects {"name", "content" | "error"} under the given content key
+ */
+function resultObjects(calls: ToolCall[], results: ToolResult[], contentKey: string): string[] {
+  return results.map(result => {
+    const name = calls.find(c => c.id === result.toolCallId)?.name ?? 'unknown';
+    return JSON.stringify({ name, [result.isError ? 'error' : contentKey]: toolResultText(result) });
+  });
+}
+
+/** Hermes / Qwen replayed call */
+function formatHermesCall(name: string, args: Record<string, any>): string {
+  return `<tool_call>\n${JSON.stringify({ name, arguments: args })}\n</tool_call>`;
+}
+
+function formatToolResponse(content: string): string {
+  return `<tool_response>\n${content}\n</tool_response>`;
+}
+
+/** GLM replayed call: `<tool_call>Name<arg_key>k</arg_key><arg_value>v</arg_value></tool_call>` */
+function formatGlmCall(name: string, args: Record<string, any>): string {
+  const argParts = Object.entries(args)
+    .map(([key, value]) => `<arg_key>${key}</arg_key><arg_value>${typeof value === 'string' ? value : JSON.stringify(value)}</arg_value>`)
+    .join('');
+  return `<tool_call>${name}${argParts}</tool_call>`;
+}
+
+// ============= Built-in Dialects =============
+
+const GLM_DIALECT: ToolDialect = {
+  name: 'glm',
+  modelPattern: /glm/i,
+  createParser: () => new ToolCallParser(),
+  formatTools: formatToolsForPrompt,
+  formatToolResults,
+  formatToolCall: formatGlmCall,
+  resultRole: 'observation',
+  formatToolResult: content => content
+};
+
+const LLAMA3_DIALECT: ToolDialect = {
+  name: 'llama3',
+  modelPattern: /llama[-_ ]?3/i,
+  createParser: () => new BlockToolCallParser(
+    [{ open: '<|python_tag|>' }, { open: '{', startOnly: true, keepOpen: true }],
+    parseLlamaCalls
+  ),
+  formatTools: formatLlamaTools,
+  formatToolResults: (calls, results) => resultObjects(calls, results, 'output').join('\n'),
+  formatToolCall: (name, args) => `<|python_tag|>${JSON.stringify({ name, parameters: args })}`,
+  resultRole: 'ipython',
+  formatToolResult: content => content
+};
+
+const MISTRAL_DIALECT: ToolDialect = {
+  name: 'mistral',
+  modelPattern: /mistral|mixtral|ministral|codestral|devstral/i,
+  createParser: () => new BlockToolCallParser([{ open: '[TOOL_CALLS]' }], parseMistralCalls),
+  formatTools: formatMistralTools,
+  formatToolResults: (calls, results) =>
+    resultObjects(calls, results, 'content').map(body => `[TOOL_RESULTS]${body}[/TOOL_RESULTS]`).join(''),
+  formatToolCall: (name, args) => `[TOOL_CALLS]${JSON.stringify([{ name, arguments: args }])}`,
+  resultRole: 'tool',
+  formatToolResult: content => `[TOOL_RESULTS]${JSON.stringify({ content })}[/TOOL_RESULTS]`
+};
+
+const QWEN_DIALECT: ToolDialect = {
+  name: 'qwen',
+  modelPattern: /qwen|qwq/i,
+  createParser: () => new BlockToolCallParser(
+    [{ open: '<tool_call>', close: '</tool_call>' }],
+    content => content.trim().startsWith('<function=') ? parseFunctionTags(content) : parseJsonCall(content)
+  ),
+  formatTools: formatHermesTools,
+  formatToolResults: (calls, results) => results
+    .map(result => `<tool_response>\n${result.isError ? 'Error: ' : ''}${toolResultText(result)}\n</tool_response>`)
+    .join('\n'),
+  formatToolCall: formatHermesCall,
+  resultRole: 'user',
+  formatToolResult: formatToolResponse
+};
+
+const HERMES_DIALECT: ToolDialect = {
+  name: 'hermes',
+  modelPattern: /hermes/i,
+  createParser: () => new BlockToolCallParser([{ open: '<tool_call>', close: '</tool_call>' }], parseJsonCall),
+  formatTools: formatHermesTools,
+  formatToolResults,
+  formatToolCall: formatHermesCall,
+  resultRole: 'tool',
+  formatToolResult: formatToolResponse
+};
+
+// ============= Registry =============
+
+/**
+ * Registry of tool dialects
+ *
+ * Dialects are selected explicitly by name or by matching a model name
+ * against their modelPattern. Later registrations take precedence, so
+ * fine-tunes (e.g. Hermes on Llama 3) and custom dialects can claim model
+ * names. Models matching no pattern use 'glm'.
+ */
+export class ToolDialectRegistry {
+  private dialects = new Map<string, ToolDialect>();
+
+  constructor(dialects: ToolDialect[] = []) {
+    dialects.forEach(dialect => this.register(dialect));
+  }
+
+  /**
+   * Register a dialect, replacing any dialect with the same name
+   */
+  register(dialect: ToolDialect): void {
+    this.dialects.delete(dialect.name);
+    this.dialects.set(dialect.name, dialect);
+  }
+
+  has(name: string): boolean {
+    return this.dialects.has(name);
+  }
+
+  names(): ToolDialectName[] {
+    return [...this.dialects.keys()];
+  }
+
+  /**
+   * @throws SDKError UNKNOWN_TOOL_DIALECT when the name is not registered
+   */
+  get(name: ToolDialectName): ToolDialect {
+    const dialect = this.dialects.get(name);
+    if (!dialect) {
+      throw new SDKError(`Unknown tool dialect: ${name}`, 'UNKNOWN_TOOL_DIALECT', { available: this.names() });
+    }
+    return dialect;
+  }
+
+  /**
+   * Select the dialect for a model
+   *
+   * @param model - Model name, or registry metadata from ModelManager.getModelDetails()
+   * @param override - Dialect name from configuration; wins over detection
+   */
+  resolve(model?: string | ModelInfo | null, override?: ToolDialectName): ToolDialect {
+    if (override) return this.get(override);
+    const name = typeof model === 'string' ? model : model ? `${model.huggingfaceRepo}/${model.fileName}` : '';
+    const dialects = [...this.dialects.values()].reverse();
+    return dialects.find(dialect => dialect.modelPattern?.test(name)) ?? this.get('glm');
+  }
+}
+
+/**
+ * Shared registry with the built-in dialects
+ */
+export const toolDialectRegistry = new ToolDialectRegistry([
+  GLM_DIALECT,
+  LLAMA3_DIALECT,
+  MISTRAL_DIALECT,
+  QWEN_DIALECT,
+  HERMES_DIALECT
+]);
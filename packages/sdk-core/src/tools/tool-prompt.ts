@@ -0,0 +1,77 @@
+/**
+ * Tool Prompt Formatting
+ * Advertises tools to the model and feeds tool results back
+ * Max 100 lines
+ */
+
+import { bytesToHex } from '@noble/hashes/utils';
+import type { ToolDefinition, ToolCall, ToolResult } from '../types/tools.types.js';
+import type { ToolDialect } from './tool-dialects.js';
+
+/**
+ * Create a unique tool call id
+ */
+export function createToolCallId(): string {
+  return 'call_' + bytesToHex(globalThis.crypto.getRandomValues(new Uint8Array(12)));
+}
+
+/**
+ * Describe tools and the call format for the model
+ *
+ * Each tool is listed on one line with the first line of its description
+ * (at most 80 characters) and its required parameters, which keeps the
+ * prompt short for clients with many tools.
+ *
+ * @param tools - Tool definitions with JSON Schema parameters
+ * @returns Instructions to place before the user prompt
+ */
+export function formatToolsForPrompt(tools: ToolDefinition[]): string {
+  const lines = ['# Tools'];
+  for (const tool of tools) {
+    const description = tool.description?.split('\n')[0]?.slice(0, 80) || '';
+    const required = (tool.parameters?.required as string[] | undefined)?.join(', ') || '';
+    lines.push(`- ${tool.name}: ${description}${required ? ` [${required}]` : ''}`);
+  }
+  lines.push('');
+  lines.push('IMPORTANT: To perform actions, you MUST output <tool_call> tags. Never output commands as text or code blocks.');
+  lines.push('Format: <tool_call>ToolName<arg_key>param</arg_key><arg_value>value</arg_value></tool_call>');
+  lines.push('Example: <tool_call>Bash<arg_key>command</arg_key><arg_value>npm install</arg_value></tool_call>');
+  return lines.join('\n');
+}
+
+/**
+ * Prepend tool instructions to a prompt
+ *
+ * @param dialect - Tool call format to describe (default: the <arg_key> format above)
+ */
+export function buildToolPrompt(tools: ToolDefinition[], prompt: string, dialect?: ToolDialect): string {
+  const instructions = dialect ? dialect.formatTools(tools) : formatToolsForPrompt(tools);
+  return `${instructions}\n\n${prompt}`;
+}
+
+/**
+ * Tool result content as text (strings as-is, anything else as JSON)
+ */
+export function toolResultText(result: ToolResult): string {
+  return typeof result.content === 'string' ? result.content : JSON.stringify(result.content);
+}
+
+/**
+ * Format tool results as the follow-up prompt
+ *
+ * @param calls - Calls the results answer (for tool names)
+ * @param results - Tool results
+ * @returns Prompt text for the continuation turn
+ */
+export function formatToolResults(calls: ToolCall[], results: ToolResult[]): string {
+  const blocks = results.map(result => {
+    const call = calls.find(c => c.id === result.toolCallId);
+    const content = toolResultText(result);
+    const body = JSON.stringify({
+      name: call?.name ?? 'unknown',
+      ...(result.isError ? { error: content } : { content })
+    });
+    return `<tool_response>\n${body}\n</tool_response>`;
+  });
+  return blocks.join('\n');
+}
@@ -0,0 +1,29 @@
+/**
+ * @fileoverview Cost estimation and spend cap types for SDK integration
+ *
+ * Hosts bill the tokens they generate at the session's price per token.
+ * Costs are in the smallest unit of the payment token, as returned by
+ * SessionManager.calculateCost().
+ */
+
+// ============= Cost Estimation =============
+
+/**
+ * Pre-flight cost of a prompt (SessionManager.estimatePromptCost).
+ */
+export interface PromptCostEstimate {
+  /** Tokens of the prompt text, for reference; hosts bill generated tokens */
+  promptTokens: number;
+  /** Completion tokens the prompt may generate (PromptOptions.maxTokens or the SDK default) */
+  maxCompletionTokens: number;
+  /** Host price per token for the session model (with PRICE_PRECISION) */
+  pricePerToken: bigint;
+  /** Cost if all maxCompletionTokens are generated */
+  maxCost: bigint;
+  /** Spent by the session so far */
+  spent: bigint;
+  /** maxSpend minus spent (sessions started with maxSpend) */
+  remainingBudget?: bigint;
+  /** False when maxCost exceeds the remaining budget; generation would then stop at the cap */
+  withinBudget: boolean;
+}
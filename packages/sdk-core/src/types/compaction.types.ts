@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Context compaction types for SDK integration
+ *
+ * A session started with a compaction policy sends the conversation with
+ * each prompt. When the context fills up, older turns are summarised and
+ * the summary replaces them in the prompt. The stored transcript keeps
+ * every message.
+ */
+
+// ============= Compaction Policy =============
+
+/**
+ * Opt-in compaction policy (startSession config.compaction).
+ */
+export interface CompactionPolicy {
+  /** Projected context utilisation (0-1) at which older turns are summarised (default 0.75) */
+  threshold?: number;
+  /** Most recent user turns always sent verbatim (default 2) */
+  keepRecentTurns?: number;
+  /** Open session that writes the summaries, e.g. on a cheaper model (default: this session) */
+  summarySessionId?: bigint;
+  /** Summary length limit in tokens (default 512) */
+  maxSummaryTokens?: number;
+  /** Context window to measure against until the host reports one in stream_end */
+  contextWindowSize?: number;
+  /** Called after each compaction */
+  onCompaction?: (info: CompactionInfo) => void;
+}
+
+// ============= Compaction State =============
+
+/**
+ * What has been compacted on the active branch (ContextInfo.compaction).
+ */
+export interface CompactionInfo {
+  /** Rolling summary sent in place of the compacted messages */
+  summary: string;
+  /** Messages replaced by the summary in the prompt context */
+  compactedMessages: number;
+  /** Tokens of those messages */
+  compactedTokens: number;
+  /** Tokens of the summary */
+  summaryTokens: number;
+  /** Times the summary has been rolled forward */
+  compactions: number;
+  lastCompactedAt: number;
+}
@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Conversation branching types for SDK integration
+ *
+ * Every message has an id and a parent, so a conversation is a tree:
+ * editing an earlier message or regenerating a response starts a sibling
+ * branch instead of overwriting history. The active branch, from the first
+ * message to the cursor, is the conversation the next prompt continues.
+ */
+
+import type { Message } from './index';
+
+// ============= Conversation Tree =============
+
+/**
+ * A message with its place in the tree.
+ */
+export type ConversationNode = Message & { id: string; parentId: string | null };
+
+/**
+ * All branches of a session's conversation (getConversationTree).
+ */
+export interface ConversationTree {
+  /** Every message on every branch, in the order they were added */
+  messages: ConversationNode[];
+  /** Last message of the active branch; null when the next prompt starts a new root branch */
+  activeMessageId: string | null;
+}
+
+/**
+ * A message and its alternatives (getMessageSiblings), e.g. for a "2 / 3" branch switcher.
+ */
+export interface MessageSiblings {
+  /** Replies to the same parent, oldest first, including the message itself */
+  siblings: ConversationNode[];
+  /** Position of the message among them */
+  index: number;
+}
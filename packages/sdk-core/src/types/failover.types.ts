@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Host failover types for SDK integration
+ *
+ * A session started with a failover policy survives its host going down:
+ * the SDK settles the failed session, opens a new one on the next ranked
+ * host for the model, carries the conversation over and replays the
+ * pending prompt.
+ */
+
+import type { HostSelectionMode } from './settings.types';
+
+// ============= Failover Policy =============
+
+/**
+ * Opt-in failover policy (startSession config.failover).
+ */
+export interface FailoverPolicy {
+  /** Host switches allowed over the life of the conversation (default 2) */
+  maxFailovers?: number;
+  /** Ranking mode for replacement hosts (default: the user's host selection mode) */
+  mode?: HostSelectionMode;
+  /** Complete the failed session's job on-chain before switching (default true) */
+  settleFailedSession?: boolean;
+  /** Called after the conversation has moved to a new host */
+  onFailover?: (event: FailoverEvent) => void;
+}
+
+/**
+ * A completed switch to a new host.
+ */
+export interface FailoverEvent {
+  /** Session on the failed host */
+  previousSessionId: bigint;
+  /** Session on the new host; prompts sent with either ID go here */
+  sessionId: bigint;
+  previousHost: string;
+  host: string;
+  /** Error of the prompt that exposed the failure */
+  reason: string;
+  /** Messages carried over to the new session */
+  recoveredMessages: number;
+  /** Where they came from: host checkpoints, or the SDK's own session history when those were unreachable */
+  recoverySource: 'checkpoints' | 'local';
+}
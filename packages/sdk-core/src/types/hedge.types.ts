@@ -0,0 +1,39 @@
+/**
+ * @fileoverview Hedged request types for SDK integration
+ *
+ * A hedged prompt is streamed on two pre-opened sessions with different
+ * hosts at once. The session that produces the first token wins; the other
+ * is aborted. The tokens the losing host generated are the overhead paid
+ * for the lower latency.
+ */
+
+// ============= Hedged Sessions =============
+
+/**
+ * Sessions opened by startHedgedSessions(), on the two best ranked hosts.
+ * Pass hedgeSessionId in PromptOptions to race prompts across both.
+ */
+export interface HedgedSessions {
+  sessionId: bigint;
+  jobId: bigint;
+  hedgeSessionId: bigint;
+  hedgeJobId: bigint;
+}
+
+// ============= Hedge Accounting =============
+
+/**
+ * Outcome of a hedged prompt (TokenUsageInfo.hedge).
+ */
+export interface HedgeUsageInfo {
+  /** Session whose response was kept */
+  winnerSessionId: bigint;
+  /** Session that was aborted */
+  loserSessionId: bigint;
+  /** Milliseconds from dispatch to the winner's first token */
+  firstTokenMs: number;
+  /** Tokens the losing host generated before it was aborted (its stream_end count, else the chunks streamed) */
+  overheadTokens: number;
+  /** Cost of overheadTokens at the losing session's price (calculateCost units); undefined if the price is unknown */
+  overheadCost?: bigint;
+}
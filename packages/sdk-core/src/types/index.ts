@@ -7,6 +7,10 @@
  */
 
 import { ethers } from 'ethers';
+import type { ToolDefinition, ToolCall, ToolHandler, ToolDialectName } from './tools.types';
+import type { ResponseFormat } from './structured-output.types';
+import type { SamplingOptions } from './sampling.types';
+import type { PromptTemplateRef } from './prompt-templates.types';
 
 // ============= Core Types =============
 
@@ -188,6 +192,10 @@ export interface Message {
   content: string;
   timestamp: number;
   metadata?: Record<string, any>;
+  /** Message id in a branching conversation (absent on messages stored before branching) */
+  id?: string;
+  /** Message this one replies to; null for the first message */
+  parentId?: string | null;
 }
 
 // ============= Image Types =============
@@ -202,14 +210,10 @@ export interface ImageAttachment {
 /** Controls model reasoning mode per-request (host v8.17.0+). Omit for default behavior. */
 export type ThinkingMode = 'enabled' | 'disabled' | 'low' | 'medium' | 'high';
 
-export interface PromptOptions {
+export interface PromptOptions extends SamplingOptions {
   images?: ImageAttachment[];
   /** Controls model thinking/reasoning mode per-request. Omit for default. */
   thinking?: ThinkingMode;
-  /** Sampling temperature (0.0–2.0). Higher = more random. Omit for SDK default (0.7). Node validates the range. */
-  temperature?: number;
-  /** Maximum tokens to generate for this prompt. Omit for SDK default (LLM_MAX_TOKENS). */
-  maxTokens?: number;
   /** Called once when token usage info is available (on stream_end or response completion) */
   onTokenUsage?: (usage: TokenUsageInfo) => void;
   /** Called when image generation intent is auto-detected and image is generated */
@@ -218,6 +222,16 @@ export interface PromptOptions {
   rawQuery?: string;
   /** AbortSignal to stop in-progress streaming inference. Resolves with partial response. */
   signal?: AbortSignal;
+  /**
+   * Pre-opened session on another host to race this prompt against (sendPromptStreaming only).
+   * The session streaming the first token wins; the other is aborted.
+   */
+  hedgeSessionId?: bigint;
+  /**
+   * Called when a streamed prompt is replayed on a new host after failover (sendPromptStreaming only).
+   * Discard the tokens received so far; onToken then streams the new host's response from the start.
+   */
+  onStreamReset?: () => void;
   /** Called when context utilization >= threshold. UI should trim history before next prompt. */
   onContextWarning?: (usage: TokenUsageInfo) => void;
   /** Fraction at which onContextWarning fires (default 0.8). Set to 1.0 to disable. */
@@ -226,6 +240,22 @@ export interface PromptOptions {
   onHostHealthWarning?: (health: HostHealthInfo) => void;
   /** Called when host reports proof/checkpoint status after inference */
   onSessionStatus?: (status: SessionStatusInfo) => void;
+  /** Tools the model may call (sendPromptStreaming only). Tool call markup is removed from streamed tokens. */
+  tools?: ToolDefinition[];
+  /** Called for each tool call parsed from the streamed response. Answer with submitToolResults(). */
+  onToolCall?: (call: ToolCall) => void;
+  /** Handlers by tool name. When set, tool calls are executed and their results submitted automatically. */
+  toolHandlers?: Record<string, ToolHandler>;
+  /** Maximum automatic tool rounds before TOOL_ITERATIONS_EXCEEDED is thrown (default 5). */
+  maxToolIterations?: number;
+  /** Tool call format to prompt and parse with (default: detected from the session model, else 'glm'). */
+  toolDialect?: ToolDialectName;
+  /** Request JSON output. sendPrompt/sendPromptStreaming then resolve with the parsed value instead of text. */
+  responseFormat?: ResponseFormat;
+  /** Repair prompts sent when the response does not match responseFormat (default 2). */
+  maxRepairAttempts?: number;
+  /** Template the prompt was rendered from (PromptTemplateManager.render). Recorded in the conversation metadata. */
+  template?: PromptTemplateRef;
 }
 
 // ============= Token Usage Types =============
@@ -247,6 +277,12 @@ export interface TokenUsageInfo {
   contextUtilization?: number;
   /** Why generation stopped: "stop" (natural), "length" (max_tokens hit), "cancelled" */
   finishReason?: 'stop' | 'length' | 'cancelled';
+  /** True for pre-flight projections counted client-side (before the host reports usage) */
+  estimated?: boolean;
+  /** Cost of totalTokens at the session price, in payment token units (absent when the price is unknown) */
+  cost?: bigint;
+  /** Winner and overhead of a hedged prompt (set when PromptOptions.hedgeSessionId was used) */
+  hedge?: import('./hedge.types').HedgeUsageInfo;
 }
 
 export interface ContextInfo {
@@ -255,6 +291,8 @@ export interface ContextInfo {
   contextWindowSize: number;
   utilization: number;
   finishReason: 'stop' | 'length' | 'cancelled' | null;
+  /** Older turns replaced by a summary (sessions started with a compaction policy) */
+  compaction?: import('./compaction.types').CompactionInfo;
 }
 
 // ============= Host Health Types =============
@@ -565,6 +603,7 @@ export * from './settings.types';
 // ============= RAG WebSocket Types =============
 
 export * from './rag-websocket';
+export type { MetadataFilter, MetadataFieldOperators, HybridSearchConfig, RetrievalMode } from '../rag/types';
 
 // ============= Permission Types =============
 
@@ -592,4 +631,40 @@ export * from './transcode.types';
 
 // ============= LTX Video Sidecar Types (M0) =============
 
-export * from './ltx.types';
\ No newline at end of file
+export * from './ltx.types';
+
+// ============= Tool Calling Types =============
+
+export * from './tools.types';
+
+// ============= Structured Output Types =============
+
+export * from './structured-output.types';
+
+// ============= Sampling Types =============
+
+export * from './sampling.types';
+
+// ============= Failover Types =============
+
+export * from './failover.types';
+
+// ============= Hedge Types =============
+
+export * from './hedge.types';
+
+// ============= Conversation Tree Types =============
+
+export * from './conversation-tree.types';
+
+// ============= Compaction Types =============
+
+export * from './compaction.types';
+
+// ============= Prompt Template Types =============
+
+export * from './prompt-templates.types';
+
+// ============= Budget Types =============
+
+export * from './budget.types';
@@ -28,8 +28,9 @@ export enum PermissionLevel {
  * Types of resources that can have permissions:
  * - session_group: Claude Projects-style session organization
  * - vector_database: RAG vector storage
+ * - prompt_template: Versioned prompt template
  */
-export type ResourceType = 'session_group' | 'vector_database';
+export type ResourceType = 'session_group' | 'vector_database' | 'prompt_template';
 
 /**
  * Permission
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Prompt template types for SDK integration
+ *
+ * A prompt template is a named text with typed {{variables}}, {{> partials}}
+ * and few-shot examples. Every update adds an immutable version, so a
+ * conversation can record exactly which prompt produced it.
+ */
+
+// ============= Template Definition =============
+
+export type TemplateVariableType = 'string' | 'number' | 'boolean' | 'string[]';
+
+/**
+ * A variable used as {{name}} in the template.
+ */
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  description?: string;
+  /** Must be given at render time unless a default is set (default true) */
+  required?: boolean;
+  default?: string | number | boolean | string[];
+}
+
+/**
+ * A worked example shown to the model before the prompt.
+ */
+export interface FewShotExample {
+  input: string;
+  output: string;
+}
+
+/**
+ * One immutable version of a template.
+ */
+export interface PromptTemplateVersion {
+  /** 1 for the first version, incremented by every update */
+  version: number;
+  /** Instructions rendered ahead of the examples and body */
+  system?: string;
+  /** Prompt text with {{variable}} and {{> partial}} placeholders */
+  body: string;
+  variables: TemplateVariable[];
+  /** Partials by name; {{> name}} falls back to the latest version of the user's template with that name */
+  partials?: Record<string, string>;
+  fewShot?: FewShotExample[];
+  changelog?: string;
+  createdAt: number;
+}
+
+/**
+ * A named template and all of its versions.
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  owner: string;
+  /** Oldest first; the last entry is the latest version */
+  versions: PromptTemplateVersion[];
+  tags?: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// ============= Manager Inputs =============
+
+export interface CreatePromptTemplateInput {
+  name: string;
+  description?: string;
+  owner: string;
+  system?: string;
+  body: string;
+  variables?: TemplateVariable[];
+  partials?: Record<string, string>;
+  fewShot?: FewShotExample[];
+  tags?: string[];
+}
+
+/**
+ * Changes for a new version; omitted fields are carried over from the latest version.
+ */
+export interface UpdatePromptTemplateInput {
+  system?: string;
+  body?: string;
+  variables?: TemplateVariable[];
+  partials?: Record<string, string>;
+  fewShot?: FewShotExample[];
+  changelog?: string;
+}
+
+// ============= Rendering =============
+
+export type TemplateValues = Record<string, string | number | boolean | string[]>;
+
+/**
+ * Which template version produced a prompt (PromptOptions.template). Stored
+ * with the user message and in the conversation metadata.
+ */
+export interface PromptTemplateRef {
+  templateId: string;
+  version: number;
+  /** Values the template was rendered with */
+  values?: TemplateValues;
+}
+
+/**
+ * Output of PromptTemplateManager.render(): pass prompt to sendPrompt and
+ * template as PromptOptions.template.
+ */
+export interface RenderedPrompt {
+  prompt: string;
+  template: PromptTemplateRef;
+}
@@ -10,6 +10,8 @@
  * Part of Phase 2, Sub-phase 2.1: Add WebSocket Message Type Definitions
  */
 
+import type { MetadataFilter } from '../rag/types';
+
 /**
  * Vector data structure for RAG operations
  *
@@ -88,6 +90,7 @@ export interface UploadVectorsResult {
  * @property queryVector - Query embedding vector (384 dimensions)
  * @property k - Number of top results to return
  * @property threshold - Optional minimum similarity score (0.0 to 1.0)
+ * @property filter - Optional metadata filter, applied before ranking by hosts that support it
  */
 export interface SearchVectorsMessage {
   type: 'searchVectors';
@@ -96,6 +99,7 @@ export interface SearchVectorsMessage {
   queryVector: number[];
   k: number;
   threshold?: number;
+  filter?: MetadataFilter;
 }
 
 /**
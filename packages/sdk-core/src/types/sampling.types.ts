@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Sampling parameter types for SDK integration
+ *
+ * Per-request sampling controls sent to the host with each prompt. Beyond
+ * temperature and maxTokens, hosts advertise which parameters their
+ * inference backend honors; the SDK rejects parameters a host cannot apply
+ * instead of letting them be silently ignored.
+ */
+
+// ============= Sampling Options =============
+
+/**
+ * Per-request sampling options (part of PromptOptions).
+ *
+ * Field naming: SDK API is camelCase (`topP`, `repeatPenalty`); the wire
+ * payload is snake_case (`top_p`, `repeat_penalty`).
+ */
+export interface SamplingOptions {
+  /** Sampling temperature (0.0–2.0). Higher = more random. Omit for SDK default (0.7). Node validates the range. */
+  temperature?: number;
+  /** Maximum tokens to generate for this prompt. Omit for SDK default (LLM_MAX_TOKENS). */
+  maxTokens?: number;
+  /** Nucleus sampling: keep the smallest token set with cumulative probability >= topP (0 < topP <= 1) */
+  topP?: number;
+  /** Keep only the topK most likely tokens (integer >= 0; 0 disables) */
+  topK?: number;
+  /** Drop tokens less likely than minP × the most likely token's probability (0–1) */
+  minP?: number;
+  /** Multiplicative penalty for repeated tokens (> 0; 1.0 disables) */
+  repeatPenalty?: number;
+  /** Penalty growing with how often a token has appeared (-2.0–2.0) */
+  frequencyPenalty?: number;
+  /** Penalty for tokens that have appeared at all (-2.0–2.0) */
+  presencePenalty?: number;
+  /** Stop generating when any of these strings is produced (not included in the response) */
+  stop?: string[];
+  /** Seed for reproducible sampling (non-negative integer) */
+  seed?: number;
+  /** Bias added to token logits, by token ID (-100–100; -100 effectively bans a token) */
+  logitBias?: Record<number, number>;
+}
+
+/**
+ * Sampling parameters a host may or may not support.
+ * temperature and maxTokens are supported by every host.
+ */
+export type SamplingParameter = Exclude<keyof SamplingOptions, 'temperature' | 'maxTokens'>;
+
+// ============= Host Capability Types =============
+
+/**
+ * Sampling capabilities of a host.
+ */
+export interface SamplingCapabilities {
+  /** Optional sampling parameters the host applies */
+  supportedParameters: SamplingParameter[];
+}
@@ -19,6 +19,10 @@ export interface ChatMessage {
     score: number;
     content: string;
   }>;
+  /** Message id in a branching conversation (assigned by addMessage when absent) */
+  id?: string;
+  /** Message this one replies to; null for the first message */
+  parentId?: string | null;
 }
 
 /**
@@ -35,6 +39,8 @@ export interface ChatSession {
     model?: string;
     hostUrl?: string;
     databasesUsed?: string[];
+    /** Last message of the active branch; the next message replies to it */
+    activeMessageId?: string | null;
     [key: string]: any;
   };
   created: number;
@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Structured (JSON) output types for SDK integration
+ *
+ * A response format asks the model for JSON matching a JSON Schema. Hosts
+ * that advertise grammar support constrain decoding to the schema; for
+ * other hosts the SDK validates the response and asks the model to repair it.
+ */
+
+import type { JSONSchema } from './tools.types';
+
+// ============= Response Formats =============
+
+/**
+ * Any JSON object
+ */
+export interface JsonObjectResponseFormat {
+  type: 'json_object';
+}
+
+/**
+ * JSON matching a schema
+ */
+export interface JsonSchemaResponseFormat {
+  type: 'json_schema';
+  /** Schema name, passed to hosts with grammar support (default 'response') */
+  name?: string;
+  /** JSON Schema the response must match */
+  schema: JSONSchema;
+  /** Treat objects as closed: properties not in the schema are rejected (default false) */
+  strict?: boolean;
+}
+
+/**
+ * Response format for structured output (see PromptOptions.responseFormat).
+ */
+export type ResponseFormat = JsonObjectResponseFormat | JsonSchemaResponseFormat;
+
+// ============= Host Capability Types =============
+
+/**
+ * Structured output capabilities of a host.
+ */
+export interface StructuredOutputCapabilities {
+  /** Host constrains decoding to a JSON Schema passed as response_format */
+  supportsJsonSchema: boolean;
+}
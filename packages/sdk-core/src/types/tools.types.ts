@@ -0,0 +1,73 @@
+/**
+ * @fileoverview Tool (function) calling types for SDK integration
+ *
+ * Tools are described with JSON Schema, advertised to the model in the
+ * prompt, and parsed back out of the streamed response.
+ */
+
+// ============= Tool Definitions =============
+
+/**
+ * JSON Schema object describing tool parameters.
+ */
+export type JSONSchema = Record<string, any>;
+
+/**
+ * A tool the model may call.
+ */
+export interface ToolDefinition {
+  /** Tool name the model uses to call it */
+  name: string;
+  /** What the tool does (shown to the model) */
+  description?: string;
+  /** JSON Schema of the arguments object */
+  parameters?: JSONSchema;
+}
+
+// ============= Tool Calls and Results =============
+
+/**
+ * A tool call parsed from the model's response.
+ */
+export interface ToolCall {
+  /** Call id, echoed back in the matching ToolResult */
+  id: string;
+  name: string;
+  /** Parsed arguments */
+  arguments: Record<string, any>;
+}
+
+/**
+ * The result of executing a tool call.
+ */
+export interface ToolResult {
+  /** Id of the ToolCall this answers */
+  toolCallId: string;
+  /** Tool output (strings are sent as-is, anything else as JSON) */
+  content: unknown;
+  /** True when the tool failed; content then describes the error */
+  isError?: boolean;
+}
+
+/**
+ * Executes a tool call for the automatic tool loop.
+ */
+export type ToolHandler = (args: Record<string, any>, call: ToolCall) => unknown | Promise<unknown>;
+
+// ============= Tool Dialects =============
+
+/**
+ * Built-in tool call formats of open-weight model families.
+ *
+ * - glm: `<tool_call>Name<arg_key>k</arg_key><arg_value>v</arg_value></tool_call>`
+ * - hermes: `<tool_call>{"name": ..., "arguments": {...}}</tool_call>`
+ * - qwen: Hermes JSON or Qwen3-Coder `<function=Name><parameter=k>v</parameter></function>`
+ * - llama3: `{"name": ..., "parameters": {...}}` (optionally after `<|python_tag|>`)
+ * - mistral: `[TOOL_CALLS][{"name": ..., "arguments": {...}}]` or `[TOOL_CALLS]Name[ARGS]{...}`
+ */
+export type BuiltinToolDialect = 'glm' | 'hermes' | 'qwen' | 'llama3' | 'mistral';
+
+/**
+ * Tool dialect name (built-in or registered with registerToolDialect)
+ */
+export type ToolDialectName = BuiltinToolDialect | (string & {});
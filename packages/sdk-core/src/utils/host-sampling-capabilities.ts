@@ -0,0 +1,45 @@
+import type { SamplingCapabilities, SamplingParameter } from '../types/sampling.types';
+
+/**
+ * /v1/version feature advertising each optional sampling parameter.
+ */
+export const SAMPLING_FEATURES: Record<SamplingParameter, string> = {
+  topP: 'sampling-top-p',
+  topK: 'sampling-top-k',
+  minP: 'sampling-min-p',
+  repeatPenalty: 'sampling-repeat-penalty',
+  frequencyPenalty: 'sampling-frequency-penalty',
+  presencePenalty: 'sampling-presence-penalty',
+  stop: 'sampling-stop',
+  seed: 'sampling-seed',
+  logitBias: 'sampling-logit-bias',
+};
+
+/**
+ * Fetch sampling capabilities from a host's /v1/version endpoint.
+ *
+ * Each optional sampling parameter is advertised by its own feature
+ * (see SAMPLING_FEATURES). Returns undefined when the host cannot be
+ * reached or does not answer, so callers can probe again later instead of
+ * treating a transient failure as "supports nothing".
+ */
+export async function getSamplingCapabilitiesFromHost(
+  hostApiUrl: string
+): Promise<SamplingCapabilities | undefined> {
+  if (!/^https?:\/\//i.test(hostApiUrl)) return undefined;
+
+  try {
+    const response = await fetch(`${hostApiUrl}/v1/version`, { signal: AbortSignal.timeout(3000) });
+    if (!response.ok) return undefined;
+
+    const data = await response.json();
+    const features = (data.features as string[] | undefined) ?? [];
+
+    return {
+      supportedParameters: (Object.keys(SAMPLING_FEATURES) as SamplingParameter[])
+        .filter(param => features.includes(SAMPLING_FEATURES[param])),
+    };
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,27 @@
+import type { StructuredOutputCapabilities } from '../types/structured-output.types';
+
+/**
+ * Fetch structured output capabilities from a host's /v1/version endpoint.
+ *
+ * Hosts listing the 'json-schema-output' feature constrain decoding to the
+ * JSON Schema in a request's response_format.
+ */
+export async function getStructuredOutputCapabilitiesFromHost(
+  hostApiUrl: string
+): Promise<StructuredOutputCapabilities> {
+  const noCapabilities: StructuredOutputCapabilities = { supportsJsonSchema: false };
+
+  if (!/^https?:\/\//i.test(hostApiUrl)) return noCapabilities;
+
+  try {
+    const response = await fetch(`${hostApiUrl}/v1/version`, { signal: AbortSignal.timeout(3000) });
+    if (!response.ok) return noCapabilities;
+
+    const data = await response.json();
+    const features = data.features as string[] | undefined;
+
+    return { supportsJsonSchema: !!features?.includes('json-schema-output') };
+  } catch {
+    return noCapabilities;
+  }
+}
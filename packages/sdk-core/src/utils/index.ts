@@ -11,6 +11,9 @@ export * from './WebCrypto';
 export * from './s5-seed-derivation';
 export * from './search-intent-analyzer';
 export * from './host-web-search-capabilities';
+export * from './host-structured-output-capabilities';
+export * from './host-sampling-capabilities';
+export * from './sampling-validation';
 export * from './search-retry';
 export * from './ProofSigner';
 export * from './signature';
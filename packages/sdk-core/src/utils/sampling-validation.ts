@@ -0,0 +1,108 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+import { SDKError } from '../types';
+import type { SamplingCapabilities, SamplingOptions, SamplingParameter } from '../types/sampling.types';
+
+/**
+ * Snake_case wire field of each optional sampling parameter
+ */
+const WIRE_FIELDS: Record<SamplingParameter, string> = {
+  topP: 'top_p',
+  topK: 'top_k',
+  minP: 'min_p',
+  repeatPenalty: 'repeat_penalty',
+  frequencyPenalty: 'frequency_penalty',
+  presencePenalty: 'presence_penalty',
+  stop: 'stop',
+  seed: 'seed',
+  logitBias: 'logit_bias',
+};
+
+function isNumberIn(value: unknown, min: number, max: number): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+}
+
+function invalid(message: string): never {
+  throw new SDKError(message, 'INVALID_SAMPLING_OPTIONS');
+}
+
+/**
+ * Optional sampling parameters set in options, in wire order
+ */
+export function getSamplingParameters(options?: SamplingOptions): SamplingParameter[] {
+  if (!options) return [];
+  return (Object.keys(WIRE_FIELDS) as SamplingParameter[]).filter(param => options[param] !== undefined);
+}
+
+/**
+ * Validate the ranges of the optional sampling parameters.
+ * temperature and maxTokens are left to the node, as before.
+ *
+ * @throws SDKError with code INVALID_SAMPLING_OPTIONS
+ */
+export function validateSamplingOptions(options: SamplingOptions): void {
+  const { topP, topK, minP, repeatPenalty, frequencyPenalty, presencePenalty, stop, seed, logitBias } = options;
+
+  if (topP !== undefined && (!isNumberIn(topP, 0, 1) || topP === 0)) {
+    invalid(`topP must be greater than 0 and at most 1, got ${topP}`);
+  }
+  if (topK !== undefined && (!Number.isInteger(topK) || topK < 0)) {
+    invalid(`topK must be a non-negative integer, got ${topK}`);
+  }
+  if (minP !== undefined && !isNumberIn(minP, 0, 1)) {
+    invalid(`minP must be between 0 and 1, got ${minP}`);
+  }
+  if (repeatPenalty !== undefined && (!isNumberIn(repeatPenalty, 0, Infinity) || repeatPenalty === 0)) {
+    invalid(`repeatPenalty must be greater than 0, got ${repeatPenalty}`);
+  }
+  if (frequencyPenalty !== undefined && !isNumberIn(frequencyPenalty, -2, 2)) {
+    invalid(`frequencyPenalty must be between -2 and 2, got ${frequencyPenalty}`);
+  }
+  if (presencePenalty !== undefined && !isNumberIn(presencePenalty, -2, 2)) {
+    invalid(`presencePenalty must be between -2 and 2, got ${presencePenalty}`);
+  }
+  if (stop !== undefined && (!Array.isArray(stop) || stop.some(s => typeof s !== 'string' || s.length === 0))) {
+    invalid('stop must be an array of non-empty strings');
+  }
+  if (seed !== undefined && (!Number.isSafeInteger(seed) || seed < 0)) {
+    invalid(`seed must be a non-negative integer, got ${seed}`);
+  }
+  if (logitBias !== undefined) {
+    if (logitBias === null || typeof logitBias !== 'object' || Array.isArray(logitBias)) {
+      invalid('logitBias must be an object mapping token IDs to biases');
+    }
+    for (const [tokenId, bias] of Object.entries(logitBias)) {
+      if (!/^\d+$/.test(tokenId)) invalid(`logitBias keys must be token IDs, got "${tokenId}"`);
+      if (!isNumberIn(bias, -100, 100)) invalid(`logitBias for token ${tokenId} must be between -100 and 100, got ${bias}`);
+    }
+  }
+}
+
+/**
+ * Reject optional sampling parameters the host does not apply.
+ *
+ * @throws SDKError with code SAMPLING_NOT_SUPPORTED, details.unsupported listing the parameters
+ */
+export function assertSamplingSupported(options: SamplingOptions, capabilities: SamplingCapabilities): void {
+  const unsupported = getSamplingParameters(options)
+    .filter(param => !capabilities.supportedParameters.includes(param));
+  if (unsupported.length > 0) {
+    throw new SDKError(
+      `Host does not support sampling parameter(s): ${unsupported.join(', ')}`,
+      'SAMPLING_NOT_SUPPORTED',
+      { unsupported }
+    );
+  }
+}
+
+/**
+ * Snake_case wire fields for the optional sampling parameters that are set
+ */
+export function toSamplingPayload(options?: SamplingOptions): Record<string, unknown> {
+  const payload: Record<string, unknown> = {};
+  for (const param of getSamplingParameters(options)) {
+    payload[WIRE_FIELDS[param]] = options![param];
+  }
+  return payload;
+}
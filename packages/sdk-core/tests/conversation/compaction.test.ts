@@ -0,0 +1,57 @@
+/**
+ * Context Compaction Tests
+ * Tests for splitting history and building summary/compacted prompts
+ * Max 100 lines
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  countCompactableMessages,
+  buildSummaryPrompt,
+  buildCompactedPrompt,
+  formatTranscript
+} from '../../src/conversation/context-compaction.js';
+import type { Message } from '../../src/types/index.js';
+
+const turn = (n: number): Message[] => [
+  { role: 'user', content: `q${n}`, timestamp: n },
+  { role: 'assistant', content: `a${n}`, timestamp: n }
+];
+
+describe('Context Compaction', () => {
+  const history = [...turn(1), ...turn(2), ...turn(3)];
+
+  it('keeps the most recent user turns verbatim', () => {
+    expect(countCompactableMessages(history, 2)).toBe(2);
+    expect(countCompactableMessages(history, 1)).toBe(4);
+    expect(countCompactableMessages(history, 0)).toBe(6);
+  });
+
+  it('compacts nothing when there are no more turns than are kept', () => {
+    expect(countCompactableMessages(history, 3)).toBe(0);
+    expect(countCompactableMessages(history, 5)).toBe(0);
+    expect(countCompactableMessages([], 2)).toBe(0);
+  });
+
+  it('asks to fold the messages into the previous summary', () => {
+    const prompt = buildSummaryPrompt('The user asked about q0.', turn(1));
+
+    expect(prompt).toContain('Summary of the conversation before these messages:\nThe user asked about q0.');
+    expect(prompt).toContain('User: q1\n\nAssistant: a1');
+    expect(prompt.endsWith('Summary:')).toBe(true);
+    expect(buildSummaryPrompt(undefined, turn(1))).not.toContain('before these messages');
+  });
+
+  it('sends the summary, the recent turns, then the prompt', () => {
+    expect(buildCompactedPrompt('Earlier: q1/a1.', turn(2), 'q3')).toBe(
+      'Summary of the earlier conversation:\nEarlier: q1/a1.\n\n' +
+      'Conversation so far:\n\nUser: q2\n\nAssistant: a2\n\n' +
+      'User: q3'
+    );
+  });
+
+  it('sends the prompt alone when there is no history', () => {
+    expect(buildCompactedPrompt(undefined, [], 'hi')).toBe('hi');
+    expect(formatTranscript(turn(1))).toBe('User: q1\n\nAssistant: a1');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Conversation Tree Tests
+ * Tests for message ids, parent pointers and branch navigation
+ * Max 150 lines
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createMessageId,
+  withMessageIds,
+  getBranchPath,
+  getChildMessages,
+  getLatestLeaf,
+  getActiveBranch
+} from '../../src/conversation/conversation-tree.js';
+
+const msg = (id: string, parentId: string | null, content = id) => ({ id, parentId, content });
+
+describe('Conversation Tree', () => {
+  // q1 ─ a1 ─ q2 ─ a2
+  //         └ q2b ─ a2b
+  //    └ a1b
+  const tree = [
+    msg('q1', null),
+    msg('a1', 'q1'),
+    msg('q2', 'a1'),
+    msg('a2', 'q2'),
+    msg('a1b', 'q1'),
+    msg('q2b', 'a1'),
+    msg('a2b', 'q2b')
+  ];
+
+  it('creates unique message ids', () => {
+    const id = createMessageId();
+    expect(id).toMatch(/^msg_[0-9a-f]{24}$/);
+    expect(createMessageId()).not.toBe(id);
+  });
+
+  it('gives legacy messages a linear chain of positional ids', () => {
+    const messages = withMessageIds([{ content: 'a' }, { content: 'b' }, { id: 'x', parentId: 'msg_1', content: 'c' }]);
+
+    expect(messages.map(m => [m.id, m.parentId])).toEqual([
+      ['msg_0', null],
+      ['msg_1', 'msg_0'],
+      ['x', 'msg_1']
+    ]);
+  });
+
+  it('returns the path from the root to a message', () => {
+    expect(getBranchPath(tree, 'a2b').map(m => m.id)).toEqual(['q1', 'a1', 'q2b', 'a2b']);
+    expect(getBranchPath(tree, null)).toEqual([]);
+    expect(getBranchPath(tree, 'missing')).toEqual([]);
+  });
+
+  it('lists replies to a message in the order they were added', () => {
+    expect(getChildMessages(tree, 'q1').map(m => m.id)).toEqual(['a1', 'a1b']);
+    expect(getChildMessages(tree, null).map(m => m.id)).toEqual(['q1']);
+  });
+
+  it('follows the newest reply down to the leaf', () => {
+    expect(getLatestLeaf(tree, 'a1')).toBe('a2b');
+    expect(getLatestLeaf(tree, 'q2')).toBe('a2');
+    expect(getLatestLeaf(tree, null)).toBe('a1b');
+  });
+
+  it('resolves the active branch from the cursor, or the last message without one', () => {
+    expect(getActiveBranch(tree, 'a2').map(m => m.id)).toEqual(['q1', 'a1', 'q2', 'a2']);
+    expect(getActiveBranch(tree).map(m => m.id)).toEqual(['q1', 'a1', 'q2b', 'a2b']);
+    expect(getActiveBranch(tree, null)).toEqual([]);
+  });
+});
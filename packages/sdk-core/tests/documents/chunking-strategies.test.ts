@@ -0,0 +1,188 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Chunking strategy tests
+ * Markdown heading-hierarchy, code-aware and semantic chunking, and strategy
+ * selection through DocumentManager.processDocument()
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MarkdownChunkingStrategy,
+  CodeChunkingStrategy,
+  SemanticChunkingStrategy,
+  chunkWithStrategy
+} from '../../src/documents/chunking-strategies.js';
+import { DocumentManager } from '../../src/documents/DocumentManager.js';
+import type { ChunkingContext, ChunkingStrategy } from '../../src/documents/types.js';
+
+function context(chunkSize = 500, embed?: ChunkingContext['embed']): ChunkingContext {
+  return { documentId: 'doc', documentName: 'doc.md', documentType: 'md', chunkSize, overlap: 0, embed };
+}
+
+const markdown = `# Guide
+
+## Install
+
+Run the installer.
+
+### Linux
+
+\`\`\`bash
+# not a heading
+./install.sh --prefix /opt
+\`\`\`
+
+## Limits
+
+| Plan | Requests |
+| ---- | -------- |
+| Free | 100 |
+| Pro | 10000 |
+`;
+
+describe('MarkdownChunkingStrategy', () => {
+  it('chunks by section and records the heading breadcrumb', () => {
+    const chunks = new MarkdownChunkingStrategy().chunk(markdown, context());
+
+    expect(chunks.map(c => c.metadata.headingPath)).toEqual([
+      ['Guide', 'Install'],
+      ['Guide', 'Install', 'Linux'],
+      ['Guide', 'Limits']
+    ]);
+    // Heading-only "# Guide" section is merged into the section that follows
+    expect(chunks[0].text).toBe('# Guide\n\n## Install\n\nRun the installer.');
+    expect(chunks[1].text).toContain('# not a heading');
+    expect(chunks.every(c => c.metadata.strategy === 'markdown')).toBe(true);
+  });
+
+  it('keeps offsets pointing at the source text', () => {
+    for (const chunk of new MarkdownChunkingStrategy().chunk(markdown, context())) {
+      expect(markdown.slice(chunk.metadata.startOffset, chunk.metadata.endOffset)).toBe(chunk.text);
+    }
+  });
+
+  it('never splits a table or code fence, but splits long prose', () => {
+    const rows = Array.from({ length: 30 }, (_, i) => `| row ${i} | value ${i} |`).join('\n');
+    const prose = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} is here.`).join('\n');
+    const text = `## Data\n\n| a | b |\n| --- | --- |\n${rows}\n\n## Notes\n\n${prose}`;
+
+    const chunks = new MarkdownChunkingStrategy().chunk(text, context(60));
+
+    const tableChunks = chunks.filter(c => c.text.includes('| row'));
+    expect(tableChunks).toHaveLength(1);
+    expect(tableChunks[0].text).toContain('| row 29 | value 29 |');
+    const noteChunks = chunks.filter(c => c.metadata.headingPath?.[0] === 'Notes');
+    expect(noteChunks.length).toBeGreaterThan(1);
+    expect(noteChunks[0].text.startsWith('## Notes')).toBe(true);
+  });
+});
+
+describe('CodeChunkingStrategy', () => {
+  const source = `import { a } from './a';
+
+/**
+ * Adds numbers
+ */
+export function add(x: number, y: number): number {
+  const text = "not a } brace";
+
+  return x + y;
+}
+
+@decorator
+export class Counter {
+  count = 0;
+
+  increment() {
+    this.count++;
+  }
+}
+`;
+
+  it('keeps declarations intact with their leading comments', () => {
+    const chunks = new CodeChunkingStrategy().chunk(source, context(12));
+
+    expect(chunks.map(c => c.text.split('\n')[0])).toEqual([
+      "import { a } from './a';",
+      '/**',
+      '@decorator'
+    ]);
+    expect(chunks[1].text.endsWith('return x + y;\n}')).toBe(true);
+    expect(chunks[2].text).toContain('this.count++;');
+  });
+
+  it('packs small declarations together and handles Python', () => {
+    const python = 'def one():\n    return 1\n\n# helper\ndef two():\n    if True:\n        return 2\n';
+
+    expect(new CodeChunkingStrategy().chunk(source, context()).length).toBe(1);
+    expect(new CodeChunkingStrategy().chunk(python, context(5)).map(c => c.text)).toEqual([
+      'def one():\n    return 1',
+      '# helper\ndef two():\n    if True:\n        return 2'
+    ]);
+  });
+});
+
+describe('SemanticChunkingStrategy', () => {
+  // Sentences about billing point one way, sentences about hiking another
+  const embed = vi.fn(async (texts: string[]) =>
+    texts.map(t => (/invoice|billing|refund/i.test(t) ? [1, 0.1] : [0.1, 1]))
+  );
+  const text = 'Invoices are sent monthly. Billing runs at midnight. Refunds take five days. ' +
+    'The trail starts at the lake. Hiking boots are required.';
+
+  it('splits where neighbouring sentences stop being similar', async () => {
+    const chunks = await new SemanticChunkingStrategy({ similarityThreshold: 0.5 }).chunk(text, context(500, embed));
+
+    expect(chunks.map(c => c.text)).toEqual([
+      'Invoices are sent monthly. Billing runs at midnight. Refunds take five days.',
+      'The trail starts at the lake. Hiking boots are required.'
+    ]);
+    expect(embed).toHaveBeenCalledWith([
+      'Invoices are sent monthly.', 'Billing runs at midnight.', 'Refunds take five days.',
+      'The trail starts at the lake.', 'Hiking boots are required.'
+    ]);
+  });
+
+  it('uses the distance percentile by default and respects the token budget', async () => {
+    const byPercentile = await new SemanticChunkingStrategy().chunk(text, context(500, embed));
+    expect(byPercentile).toHaveLength(2);
+
+    const budgeted = await new SemanticChunkingStrategy({ similarityThreshold: 0 }).chunk(text, context(8, embed));
+    expect(budgeted.length).toBeGreaterThan(2);
+  });
+
+  it('requires an embedding function', async () => {
+    await expect(new SemanticChunkingStrategy().chunk(text, context())).rejects.toThrow('requires an embedding function');
+  });
+});
+
+describe('strategy selection', () => {
+  it('falls back to the size-based chunker and accepts custom strategies', async () => {
+    const plain = await chunkWithStrategy('one two three', 'doc', 'doc.txt', 'txt');
+    expect(plain).toHaveLength(1);
+    expect(plain[0].metadata.strategy).toBeUndefined();
+
+    const custom: ChunkingStrategy = { name: 'lines', chunk: vi.fn(() => []) };
+    await chunkWithStrategy('a\nb', 'doc', 'doc.txt', 'txt', { strategy: custom });
+    expect(custom.chunk).toHaveBeenCalledWith('a\nb', expect.objectContaining({ chunkSize: 500, documentId: 'doc' }));
+
+    await expect(chunkWithStrategy('a', 'doc', 'doc.txt', 'txt', { strategy: 'bogus' as any }))
+      .rejects.toThrow('Unknown chunking strategy: bogus');
+  });
+
+  it('is selectable per DocumentManager.processDocument call', async () => {
+    const embedBatch = vi.fn(async (texts: string[]) => ({
+      embeddings: texts.map(t => ({ embedding: [t.length, 1], text: t, tokenCount: 1 }))
+    }));
+    const manager = new DocumentManager({ embeddingService: { embedBatch } as any });
+    const file = new File([markdown], 'guide.md');
+
+    const results = await manager.processDocument(file, { strategy: 'markdown' });
+
+    expect(results).toHaveLength(3);
+    expect(results[1].metadata.headingPath).toEqual(['Guide', 'Install', 'Linux']);
+    expect(results[1].text).toContain('./install.sh');
+  });
+});
@@ -34,22 +34,6 @@ vi.mock('pdfjs-dist', () => ({
   GlobalWorkerOptions: { workerSrc: '' }
 }));
 
-// Mock mammoth
-vi.mock('mammoth', () => ({
-  extractRawText: vi.fn(({ arrayBuffer }) => {
-    const size = arrayBuffer.byteLength;
-    if (size < 20) {
-      return Promise.reject(new Error('The buffer is not a valid .docx file (empty zip file)'));
-    } else if (size > 200) {
-      return Promise.resolve({ value: 'Paragraph one.\n\nParagraph two.\n\nParagraph three.' });
-    } else if (size > 100) {
-      return Promise.resolve({ value: '**Bold text** and *italic text* extracted from DOCX.' });
-    } else {
-      return Promise.resolve({ value: 'This is extracted text from DOCX document.' });
-    }
-  })
-}));
-
 describe('Document Text Extraction', () => {
   let DocumentManager: any;
   let documentManager: any;
@@ -0,0 +1,227 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Office and data file extraction tests
+ * Builds real OOXML zip containers in memory (stored and DEFLATE entries) and
+ * checks DOCX/PPTX/XLSX/CSV/JSON text through extractText()
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import { extractText, detectDocumentType } from '../../src/documents/extractors.js';
+import { openZip } from '../../src/documents/zip-reader.js';
+import { parseCsv } from '../../src/documents/data-extractors.js';
+
+/**
+ * Minimal ZIP writer (CRC fields left zero; the reader does not verify them)
+ * declaredSizes overrides the uncompressed size recorded for an entry
+ */
+function buildZip(
+  files: Record<string, string>,
+  compress = false,
+  declaredSizes: Record<string, number> = {}
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(content);
+    const data = compress ? new Uint8Array(deflateRawSync(raw)) : raw;
+    const declaredSize = declaredSizes[name] ?? raw.length;
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, compress ? 8 : 0, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, declaredSize, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, compress ? 8 : 0, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, declaredSize, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, centrals.length, true);
+  ev.setUint16(10, centrals.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const out = new Uint8Array(offset + centralSize + 22);
+  let pos = 0;
+  for (const part of [...locals, ...centrals, eocd]) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+function toFile(data: Uint8Array | string, name: string): File {
+  return new File([data], name);
+}
+
+function rels(entries: Array<[string, string]>): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><Relationships>${entries
+    .map(([id, target]) => `<Relationship Id="${id}" Type="x" Target="${target}"/>`)
+    .join('')}</Relationships>`;
+}
+
+const docxXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>
+<w:p><w:r><w:t>Quarterly </w:t></w:r><w:r><w:t xml:space="preserve">report &amp; outlook</w:t></w:r></w:p>
+<w:p><w:r><w:t>Line one</w:t><w:br/><w:t>Line two</w:t></w:r></w:p>
+<w:tbl><w:tr><w:tc><w:p><w:r><w:t>Region</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>Revenue</w:t></w:r></w:p></w:tc></w:tr>
+<w:tr><w:tc><w:p><w:r><w:t>EMEA</w:t></w:r></w:p></w:tc><w:tc><w:p><w:r><w:t>1.2M</w:t></w:r></w:p></w:tc></w:tr></w:tbl>
+<w:p/><w:p><w:r><w:t>Closing remarks</w:t></w:r></w:p>
+</w:body></w:document>`;
+
+describe('zip reader', () => {
+  it('reads stored and DEFLATE-compressed entries', () => {
+    const text = 'repeated text '.repeat(200);
+    for (const compress of [false, true]) {
+      const zip = openZip(buildZip({ 'a.txt': text, 'dir/b.txt': 'ünïcode' }, compress));
+      expect(zip.names()).toEqual(['a.txt', 'dir/b.txt']);
+      expect(zip.readText('a.txt')).toBe(text);
+      expect(zip.readText('dir/b.txt')).toBe('ünïcode');
+      expect(zip.readText('missing')).toBeNull();
+    }
+  });
+
+  it('rejects non-zip data', () => {
+    expect(() => openZip(new TextEncoder().encode('plain text file, not a zip'))).toThrow('Not a ZIP archive');
+  });
+
+  it('fails when an entry inflates past its declared size', () => {
+    const zip = openZip(buildZip({ 'bomb.xml': '0'.repeat(100_000) }, true, { 'bomb.xml': 1000 }));
+
+    expect(() => zip.read('bomb.xml')).toThrow('Invalid ZIP entry "bomb.xml": DEFLATE output exceeds 1000 bytes');
+  });
+
+  it('rejects entries over the per-entry limit before inflating', () => {
+    const zip = openZip(buildZip({ 'big.xml': '0'.repeat(5000), 'small.xml': 'ok' }, true), { maxEntrySize: 4096 });
+
+    expect(() => zip.read('big.xml')).toThrow('ZIP entry "big.xml" exceeds the 4096 byte limit');
+    expect(zip.readText('small.xml')).toBe('ok');
+  });
+
+  it('stops reading once the total limit is reached', () => {
+    const zip = openZip(buildZip({ 'a.xml': 'a'.repeat(3000), 'b.xml': 'b'.repeat(3000) }, true), { maxTotalSize: 5000 });
+
+    expect(zip.read('a.xml')).toHaveLength(3000);
+    expect(() => zip.read('b.xml')).toThrow('ZIP archive exceeds the 5000 byte extraction limit');
+  });
+
+  it('rejects stored entries whose sizes disagree', () => {
+    const zip = openZip(buildZip({ 'a.txt': 'stored text' }, false, { 'a.txt': 5 }));
+
+    expect(() => zip.read('a.txt')).toThrow('stored size mismatch');
+  });
+});
+
+describe('Office extractors', () => {
+  it('extracts DOCX paragraphs, line breaks and table rows', async () => {
+    const file = toFile(buildZip({ 'word/document.xml': docxXml }, true), 'report.docx');
+
+    const result = await extractText(file, 'docx');
+
+    expect(result.text).toBe(
+      'Quarterly report & outlook\nLine one\nLine two\nRegion | Revenue\nEMEA | 1.2M\nClosing remarks'
+    );
+    expect(result.metadata.wordCount).toBe(16);
+  });
+
+  it('extracts PPTX slides in presentation order with speaker notes', async () => {
+    const slide = (title: string, body: string) =>
+      `<p:sld><p:cSld><p:spTree><p:sp><p:txBody><a:p><a:r><a:t>${title}</a:t></a:r></a:p>` +
+      `<a:p><a:r><a:t>${body}</a:t></a:r></a:p></p:txBody></p:sp></p:spTree></p:cSld></p:sld>`;
+    const zip = buildZip({
+      'ppt/presentation.xml': '<p:presentation><p:sldIdLst><p:sldId id="256" r:id="rId3"/><p:sldId id="257" r:id="rId2"/></p:sldIdLst></p:presentation>',
+      'ppt/_rels/presentation.xml.rels': rels([['rId2', 'slides/slide1.xml'], ['rId3', 'slides/slide2.xml']]),
+      'ppt/slides/slide1.xml': slide('Roadmap', 'Ship v2 in Q3'),
+      'ppt/slides/slide2.xml': slide('Agenda', 'Intro'),
+      'ppt/slides/_rels/slide1.xml.rels': rels([['rId1', '../notesSlides/notesSlide1.xml']]),
+      'ppt/notesSlides/notesSlide1.xml': '<p:notes><a:p><a:r><a:t>Mention the beta</a:t></a:r></a:p><a:p><a:r><a:t>2</a:t></a:r></a:p></p:notes>'
+    });
+
+    const result = await extractText(toFile(zip, 'deck.pptx'), 'pptx');
+
+    expect(result.text).toBe('Slide 1\nAgenda\nIntro\n\nSlide 2\nRoadmap\nShip v2 in Q3\nNotes: Mention the beta');
+  });
+
+  it('extracts XLSX rows with header context and shared strings', async () => {
+    const zip = buildZip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Orders" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': rels([['rId1', 'worksheets/sheet1.xml']]),
+      'xl/sharedStrings.xml': '<sst><si><t>SKU</t></si><si><t>Qty</t></si><si><t>Paid</t></si><si><r><t>A-</t></r><r><t>100</t></r></si></sst>',
+      'xl/worksheets/sheet1.xml': '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>' +
+        '<row r="2"><c r="A2" t="s"><v>3</v></c><c r="B2"><v>4</v></c><c r="C2" t="b"><v>1</v></c></row>' +
+        '<row r="3"><c r="A3" t="inlineStr"><is><t>B-7</t></is></c><c r="C3" t="b"><v>0</v></c></row>' +
+        '</sheetData></worksheet>'
+    }, true);
+
+    const result = await extractText(toFile(zip, 'orders.xlsx'), 'xlsx');
+
+    expect(result.text).toBe('Sheet: Orders\nSKU: A-100; Qty: 4; Paid: TRUE\nSKU: B-7; Paid: FALSE');
+  });
+
+  it('reports a clear error for corrupt Office files', async () => {
+    await expect(extractText(toFile('not a zip', 'broken.docx'), 'docx'))
+      .rejects.toThrow('Failed to extract text from DOCX: Not a ZIP archive');
+    await expect(extractText(toFile(buildZip({ 'other.xml': '<a/>' }), 'wrong.xlsx'), 'xlsx'))
+      .rejects.toThrow('missing xl/workbook.xml');
+  });
+});
+
+describe('Data file extractors', () => {
+  it('extracts CSV rows with header context', async () => {
+    const csv = 'name,city,notes\r\nAda,London,"Likes ""math"", tea"\r\nGrace,,"multi\nline"\r\n';
+
+    const result = await extractText(toFile(csv, 'people.csv'), 'csv');
+
+    expect(result.text).toBe('Row 1: name: Ada; city: London; notes: Likes "math", tea\nRow 2: name: Grace; notes: multi\nline');
+  });
+
+  it('detects semicolon and tab delimiters', () => {
+    expect(parseCsv('a;b\n1;2')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(parseCsv('a\tb\n1\t2\n\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('flattens JSON into path: value lines', async () => {
+    const json = JSON.stringify({ order: { id: 7, items: [{ sku: 'A-1' }, { sku: 'B-2' }], tags: [] }, 'odd key': null });
+
+    const result = await extractText(toFile(json, 'order.json'), 'json');
+
+    expect(result.text).toBe(
+      'order.id: 7\norder.items[0].sku: A-1\norder.items[1].sku: B-2\norder.tags: []\n["odd key"]: null'
+    );
+  });
+
+  it('rejects invalid JSON', async () => {
+    await expect(extractText(toFile('{ nope', 'bad.json'), 'json')).rejects.toThrow('Failed to extract text from JSON');
+  });
+
+  it('detects the new document types from file names', () => {
+    expect(['a.PPTX', 'b.xlsx', 'c.csv', 'd.json'].map(detectDocumentType)).toEqual(['pptx', 'xlsx', 'csv', 'json']);
+  });
+});
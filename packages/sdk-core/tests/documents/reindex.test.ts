@@ -0,0 +1,165 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Document re-indexing tests
+ * DocumentManager.reindexDocument() diffs chunks by content hash and only
+ * embeds what changed
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { DocumentManager } from '../../src/managers/DocumentManager.js';
+import { hashChunkText } from '../../src/documents/chunker.js';
+import { matchesMetadataFilter } from '../../src/rag/metadata-filter.js';
+import type { VectorRecord, MetadataFilter } from '../../src/rag/types.js';
+
+/**
+ * In-memory stand-in for VectorRAGManager's vector operations
+ */
+function createVectorManager() {
+  const vectors = new Map<string, VectorRecord>();
+  return {
+    vectors,
+    getOrCreateSessionId: vi.fn(async () => 'rag-session'),
+    listVectors: vi.fn(async () => Array.from(vectors.values())),
+    addVectors: vi.fn(async (_sessionId: string, records: VectorRecord[]) => {
+      for (const record of records) vectors.set(record.id, record);
+    }),
+    deleteVectors: vi.fn(async (_sessionId: string, ids: string[]) => {
+      for (const id of ids) vectors.delete(id);
+    }),
+    deleteByMetadata: vi.fn(async (_sessionId: string, filter: MetadataFilter) => {
+      let deleted = 0;
+      for (const [id, vector] of vectors) {
+        if (matchesMetadataFilter(vector.metadata, filter)) {
+          vectors.delete(id);
+          deleted++;
+        }
+      }
+      return deleted;
+    })
+  };
+}
+
+const sections = {
+  intro: '## Intro\n\nWelcome to the guide.',
+  setup: '## Setup\n\nInstall the package.',
+  usage: '## Usage\n\nCall the client.'
+};
+
+function markdownFile(...parts: string[]): File {
+  return new File([parts.join('\n\n')], 'guide.md');
+}
+
+describe('DocumentManager.reindexDocument', () => {
+  let vectorManager: ReturnType<typeof createVectorManager>;
+  let embedBatch: ReturnType<typeof vi.fn>;
+  let manager: DocumentManager;
+  const options = { strategy: 'markdown' as const, chunkSize: 12 };
+
+  beforeEach(() => {
+    vectorManager = createVectorManager();
+    embedBatch = vi.fn(async (texts: string[]) => ({
+      embeddings: texts.map(text => ({ embedding: [text.length, 1], text, tokenCount: 1 }))
+    }));
+    manager = new DocumentManager({
+      embeddingService: { embedBatch } as any,
+      vectorRAGManager: vectorManager as any
+    });
+  });
+
+  it('indexes every chunk the first time, with content hashes in metadata', async () => {
+    const result = await manager.reindexDocument(
+      'doc-1', markdownFile(sections.intro, sections.setup), 'kb', { ...options, metadata: { folderPath: '/guides' } }
+    );
+
+    expect(result.added).toEqual(['doc-1_chunk_0', 'doc-1_chunk_1']);
+    expect(result.removed).toEqual([]);
+    const stored = vectorManager.vectors.get('doc-1_chunk_1')!;
+    expect(stored.metadata).toMatchObject({
+      documentId: 'doc-1',
+      text: sections.setup,
+      contentHash: hashChunkText(sections.setup),
+      folderPath: '/guides'
+    });
+  });
+
+  it('only embeds changed chunks and deletes stale ones', async () => {
+    await manager.reindexDocument('doc-1', markdownFile(sections.intro, sections.setup, sections.usage), 'kb', options);
+    embedBatch.mockClear();
+
+    const newSetup = '## Setup\n\nInstall the package with pnpm, then configure it.';
+    const result = await manager.reindexDocument(
+      'doc-1', markdownFile(sections.intro, newSetup, sections.usage), 'kb', options
+    );
+
+    expect(embedBatch).toHaveBeenCalledTimes(1);
+    expect(embedBatch).toHaveBeenCalledWith([newSetup], 'document');
+    expect(result.unchanged).toEqual(['doc-1_chunk_0']);
+    expect(result.moved).toEqual(['doc-1_chunk_2']); // same text, later offset
+    expect(result.removed).toEqual(['doc-1_chunk_1']);
+    expect(result.added).toEqual(['doc-1_chunk_1']);
+
+    expect(vectorManager.vectors.size).toBe(3);
+    expect(vectorManager.vectors.get('doc-1_chunk_1')!.metadata.text).toBe(newSetup);
+    expect(vectorManager.vectors.get('doc-1_chunk_2')!.metadata.startOffset).toBeGreaterThan(
+      sections.intro.length + sections.setup.length
+    );
+    expect(vectorManager.deleteByMetadata).toHaveBeenCalledWith('rag-session', {
+      documentId: 'doc-1',
+      contentHash: { $nin: [hashChunkText(sections.intro), hashChunkText(sections.usage), hashChunkText(newSetup)] }
+    });
+  });
+
+  it('keeps the previous version when embedding the changed chunks fails', async () => {
+    await manager.reindexDocument('doc-1', markdownFile(sections.intro, sections.setup), 'kb', options);
+    const before = new Map(vectorManager.vectors);
+    embedBatch.mockRejectedValueOnce(new Error('host embeddings unavailable'));
+
+    await expect(manager.reindexDocument('doc-1', markdownFile(sections.intro, sections.usage), 'kb', options))
+      .rejects.toThrow('host embeddings unavailable');
+
+    expect(vectorManager.vectors).toEqual(before);
+    expect(vectorManager.deleteByMetadata).not.toHaveBeenCalled();
+    expect(vectorManager.deleteVectors).not.toHaveBeenCalled();
+  });
+
+  it('stores the new chunks before deleting stale ones', async () => {
+    await manager.reindexDocument('doc-1', markdownFile(sections.intro, sections.setup), 'kb', options);
+
+    await manager.reindexDocument('doc-1', markdownFile(sections.intro, sections.usage), 'kb', options);
+
+    expect(vectorManager.addVectors.mock.invocationCallOrder[1])
+      .toBeLessThan(vectorManager.deleteByMetadata.mock.invocationCallOrder[0]);
+    expect(vectorManager.vectors.get('doc-1_chunk_1')!.metadata.text).toBe(sections.usage);
+  });
+
+  it('does not embed anything when the content is unchanged', async () => {
+    await manager.reindexDocument('doc-1', markdownFile(sections.intro, sections.setup), 'kb', options);
+    embedBatch.mockClear();
+
+    const result = await manager.reindexDocument('doc-1', markdownFile(sections.intro, sections.setup), 'kb', options);
+
+    expect(embedBatch).not.toHaveBeenCalled();
+    expect(result.unchanged).toHaveLength(2);
+    expect(vectorManager.deleteByMetadata).not.toHaveBeenCalled();
+    expect(vectorManager.addVectors).toHaveBeenCalledTimes(1);
+  });
+
+  it('replaces vectors stored without a content hash and leaves other documents alone', async () => {
+    vectorManager.vectors.set('legacy', { id: 'legacy', vector: [1, 1], metadata: { documentId: 'doc-1', text: 'old' } });
+    vectorManager.vectors.set('other', { id: 'other', vector: [1, 1], metadata: { documentId: 'doc-2', text: 'x' } });
+
+    const result = await manager.reindexDocument('doc-1', markdownFile(sections.intro), 'kb', options);
+
+    expect(result.removed).toEqual(['legacy']);
+    expect(result.added).toEqual(['doc-1_chunk_0']);
+    expect(Array.from(vectorManager.vectors.keys()).sort()).toEqual(['doc-1_chunk_0', 'other']);
+  });
+
+  it('requires a vector manager', async () => {
+    const bare = new DocumentManager({ embeddingService: { embedBatch } as any });
+    await expect(bare.reindexDocument('doc-1', markdownFile(sections.intro), 'kb'))
+      .rejects.toThrow('requires a vectorRAGManager');
+  });
+});
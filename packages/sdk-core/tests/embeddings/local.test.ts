@@ -0,0 +1,116 @@
+/**
+ * Local Embedding Adapter Tests
+ * Tests in-process embedding with an ONNX feature-extraction pipeline
+ * Max 200 lines
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EmbeddingProvider } from '../../src/embeddings/types.js';
+import {
+  LocalAdapter,
+  LOCAL_EMBEDDINGS_MISSING_MESSAGE,
+  FeatureExtractor
+} from '../../src/embeddings/adapters/LocalAdapter.js';
+
+/**
+ * Fake pooled extractor: row i is [text length, i, 0, ...]
+ */
+function fakeExtractor(dimensions: number = 4) {
+  return vi.fn<Parameters<FeatureExtractor>, ReturnType<FeatureExtractor>>(async (texts) => {
+    const data = new Float32Array(texts.length * dimensions);
+    texts.forEach((text, i) => {
+      data[i * dimensions] = text.length;
+      data[i * dimensions + 1] = i;
+    });
+    return { data, dims: [texts.length, dimensions] };
+  });
+}
+
+describe('Local Embedding Adapter', () => {
+  let extractor: ReturnType<typeof fakeExtractor>;
+  let adapter: LocalAdapter;
+
+  beforeEach(() => {
+    extractor = fakeExtractor();
+    adapter = new LocalAdapter({ dimensions: 4, batchSize: 2, extractor });
+  });
+
+  afterEach(() => {
+    vi.doUnmock('@huggingface/transformers');
+    vi.resetModules();
+  });
+
+  describe('Embedding', () => {
+    it('should embed a single text with mean pooling and normalization', async () => {
+      const result = await adapter.embedText('hello');
+
+      expect(result.embedding).toEqual([5, 0, 0, 0]);
+      expect(result.text).toBe('hello');
+      expect(result.tokenCount).toBeGreaterThan(0);
+      expect(extractor).toHaveBeenCalledWith(['hello'], { pooling: 'mean', normalize: true });
+    });
+
+    it('should split batches into forward passes of batchSize', async () => {
+      const response = await adapter.embedBatch(['a', 'bb', 'ccc']);
+
+      expect(extractor).toHaveBeenCalledTimes(2);
+      expect(extractor.mock.calls.map(call => call[0])).toEqual([['a', 'bb'], ['ccc']]);
+      expect(response.embeddings.map(e => e.embedding)).toEqual([
+        [1, 0, 0, 0],
+        [2, 1, 0, 0],
+        [3, 0, 0, 0]
+      ]);
+      expect(response.provider).toBe(EmbeddingProvider.Local);
+      expect(response.model).toBe('Xenova/all-MiniLM-L6-v2');
+      expect(response.cost).toBe(0);
+    });
+
+    it('should track zero cost under the local provider', async () => {
+      await adapter.embedBatch(['a', 'b']);
+
+      const stats = adapter.getCostStats();
+      expect(stats.totalCost).toBe(0);
+      expect(stats.totalRequests).toBe(1);
+      expect(stats.costByProvider[EmbeddingProvider.Local]).toBe(0);
+    });
+
+    it('should reject empty text', async () => {
+      await expect(adapter.embedText('')).rejects.toThrow();
+    });
+
+    it('should reject output with unexpected dimensions', async () => {
+      const wrong = new LocalAdapter({ dimensions: 384, extractor });
+
+      await expect(wrong.embedText('hello')).rejects.toThrow(
+        'Local model returned 4-dimensional embeddings, expected 384'
+      );
+    });
+  });
+
+  describe('Model loading', () => {
+    it('should load the transformers pipeline once with the configured options', async () => {
+      const pipe = fakeExtractor(384);
+      const env: Record<string, unknown> = {};
+      const pipeline = vi.fn(async () => pipe);
+      vi.doMock('@huggingface/transformers', () => ({ pipeline, env }));
+
+      const local = new LocalAdapter({ cacheDir: '/tmp/models', dtype: 'fp32' });
+      await Promise.all([local.warmup(), local.embedText('one'), local.embedText('two')]);
+
+      expect(pipeline).toHaveBeenCalledTimes(1);
+      expect(pipeline).toHaveBeenCalledWith('feature-extraction', 'Xenova/all-MiniLM-L6-v2', { dtype: 'fp32' });
+      expect(env.cacheDir).toBe('/tmp/models');
+      expect(pipe).toHaveBeenCalledTimes(2);
+    });
+
+    it('should explain how to install the optional dependency', async () => {
+      vi.doMock('@huggingface/transformers', () => {
+        throw new Error('Cannot find package');
+      });
+
+      const local = new LocalAdapter();
+
+      await expect(local.embedText('hello')).rejects.toThrow(LOCAL_EMBEDDINGS_MISSING_MESSAGE);
+    });
+  });
+});
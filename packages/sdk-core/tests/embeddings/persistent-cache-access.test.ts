@@ -0,0 +1,116 @@
+/**
+ * Persistent Embedding Cache Access Time Tests
+ * Hits update the LRU order in memory; access times reach the store in
+ * batches on the flush timer, before evictions and on close
+ * Max 150 lines
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EmbeddingProvider, EmbeddingResult } from '../../src/embeddings/types.js';
+import { EmbeddingCache } from '../../src/embeddings/EmbeddingCache.js';
+import { PersistentEmbeddingCache } from '../../src/embeddings/PersistentEmbeddingCache.js';
+import type { EmbeddingStore, EmbeddingStoreEntryInfo } from '../../src/embeddings/stores/EmbeddingStore.js';
+
+function result(text: string): EmbeddingResult {
+  return { embedding: [text.length, 0.5, -1], text, tokenCount: 2 };
+}
+
+/**
+ * In-memory store that records touch batches
+ */
+function createStore() {
+  const entries = new Map<string, { info: EmbeddingStoreEntryInfo; value: string }>();
+  const store = {
+    list: vi.fn(async () => Array.from(entries.values(), entry => ({ ...entry.info }))),
+    read: vi.fn(async (key: string) => entries.get(key)?.value),
+    write: vi.fn(async (info: EmbeddingStoreEntryInfo, value: string) => {
+      entries.set(info.key, { info: { ...info }, value });
+    }),
+    touch: vi.fn(async (accesses: Array<{ key: string; lastAccess: number }>) => {
+      for (const { key, lastAccess } of accesses) {
+        const entry = entries.get(key);
+        if (entry) entry.info.lastAccess = lastAccess;
+      }
+    }),
+    remove: vi.fn(async (keys: string[]) => {
+      for (const key of keys) entries.delete(key);
+    }),
+    clear: vi.fn(async () => entries.clear())
+  };
+  return store satisfies EmbeddingStore;
+}
+
+describe('PersistentEmbeddingCache access times', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('does not write to the store on hits until the flush timer fires', async () => {
+    const cache = new PersistentEmbeddingCache({ store, flushIntervalMs: 1000 });
+    await cache.set('a', result('a'));
+    await cache.set('b', result('b'));
+
+    vi.setSystemTime(5000);
+    await cache.get('a');
+    await cache.get('b');
+    await cache.get('a');
+    expect(store.touch).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(store.touch).toHaveBeenCalledTimes(1);
+    expect(store.touch).toHaveBeenCalledWith([{ key: 'a', lastAccess: 5000 }, { key: 'b', lastAccess: 5000 }]);
+  });
+
+  it('flushes pending access times before evicting', async () => {
+    const cache = new PersistentEmbeddingCache({ store, maxEntries: 2 });
+    await cache.set('a', result('a'));
+    await cache.set('b', result('b'));
+    await cache.get('a');
+
+    await cache.set('c', result('c'));
+
+    expect(store.touch).toHaveBeenCalledWith([{ key: 'a', lastAccess: expect.any(Number) }]);
+    expect(store.touch.mock.invocationCallOrder[0]).toBeLessThan(store.remove.mock.invocationCallOrder[0]);
+    expect(store.remove).toHaveBeenCalledWith(['b']);
+  });
+
+  it('skips entries deleted before the flush', async () => {
+    const cache = new PersistentEmbeddingCache({ store });
+    await cache.set('a', result('a'));
+    await cache.get('a');
+    await cache.delete('a');
+
+    await cache.flush();
+
+    expect(store.touch).not.toHaveBeenCalled();
+  });
+
+  it('writes pending access times when the embedding cache closes', async () => {
+    const persistent = new PersistentEmbeddingCache({ store });
+    const adapter: any = {
+      provider: EmbeddingProvider.Host,
+      model: 'all-MiniLM-L6-v2',
+      embedText: vi.fn(async (text: string) => result(text))
+    };
+    const options = { maxSize: 10, expirationMs: 60000, persistent };
+    await new EmbeddingCache(adapter, options).embedText('alpha');
+
+    // Fresh memory tier: served from the persistent tier
+    const cache = new EmbeddingCache(adapter, options);
+    await cache.embedText('alpha');
+    expect(store.touch).not.toHaveBeenCalled();
+
+    await cache.close();
+
+    expect(adapter.embedText).toHaveBeenCalledTimes(1);
+    expect(store.touch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Persistent Embedding Cache Tests
+ * Tests the IndexedDB and file-backed cache tiers, LRU eviction,
+ * encryption at rest and stats surfaced through the embedding service
+ * Max 200 lines
+ */
+
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, readdir, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Wallet } from 'ethers';
+import { EmbeddingProvider, EmbeddingResult } from '../../src/embeddings/types.js';
+import { EmbeddingCache } from '../../src/embeddings/EmbeddingCache.js';
+import { PersistentEmbeddingCache, createPersistentEmbeddingCache } from '../../src/embeddings/PersistentEmbeddingCache.js';
+import { IndexedDBEmbeddingStore } from '../../src/embeddings/stores/IndexedDBEmbeddingStore.js';
+import { FileEmbeddingStore } from '../../src/embeddings/stores/FileEmbeddingStore.js';
+import { EncryptionManager } from '../../src/managers/EncryptionManager.js';
+
+function result(text: string): EmbeddingResult {
+  return { embedding: [text.length, 0.5, -1], text, tokenCount: 2 };
+}
+
+let dbCounter = 0;
+function idbStore(): IndexedDBEmbeddingStore {
+  return new IndexedDBEmbeddingStore(`embedding-cache-test-${dbCounter++}`);
+}
+
+describe('PersistentEmbeddingCache', () => {
+  it('keeps entries in IndexedDB across instances', async () => {
+    const store = idbStore();
+    await new PersistentEmbeddingCache({ store }).set('k1', result('hello'));
+
+    const reloaded = new PersistentEmbeddingCache({ store });
+
+    expect(await reloaded.get('k1')).toEqual(result('hello'));
+    expect(await reloaded.get('missing')).toBeUndefined();
+    expect(reloaded.getStats().entries).toBe(1);
+  });
+
+  it('evicts least recently used entries over maxEntries', async () => {
+    const cache = new PersistentEmbeddingCache({ store: idbStore(), maxEntries: 2 });
+    await cache.set('a', result('a'));
+    await cache.set('b', result('b'));
+    await cache.get('a'); // b is now least recently used
+    await cache.set('c', result('c'));
+
+    expect(await cache.has('a')).toBe(true);
+    expect(await cache.has('b')).toBe(false);
+    expect(await cache.has('c')).toBe(true);
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it('evicts over maxBytes and skips entries larger than the limit', async () => {
+    const entryBytes = JSON.stringify(result('x')).length;
+    const cache = new PersistentEmbeddingCache({ store: idbStore(), maxBytes: entryBytes * 2 });
+    await cache.set('a', result('x'));
+    await cache.set('b', result('y'));
+    await cache.set('c', result('z'));
+
+    expect(cache.getStats()).toEqual({ entries: 2, bytes: entryBytes * 2, evictions: 1 });
+    expect(await cache.has('a')).toBe(false);
+
+    await cache.set('big', { ...result('big'), embedding: new Array(100).fill(1) });
+    expect(await cache.has('big')).toBe(false);
+  });
+
+  it('encrypts entries at rest and drops entries it cannot decrypt', async () => {
+    const store = idbStore();
+    const encryptionManager = new EncryptionManager(Wallet.createRandom() as any);
+    const cache = new PersistentEmbeddingCache({ store, encryptionManager });
+    await cache.set('k1', result('secret text'));
+
+    const raw = await store.read('k1');
+    expect(raw).not.toContain('secret text');
+    expect(await cache.get('k1')).toEqual(result('secret text'));
+
+    const otherUser = new EncryptionManager(Wallet.createRandom() as any);
+    const foreign = new PersistentEmbeddingCache({ store, encryptionManager: otherUser });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await foreign.get('k1')).toBeUndefined();
+    expect(await store.list()).toEqual([]);
+    warn.mockRestore();
+  });
+});
+
+describe('FileEmbeddingStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'embedding-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('keeps entries on disk across instances', async () => {
+    const cache = createPersistentEmbeddingCache({ directory, maxEntries: 2 })!;
+    await cache.set('a', result('a'));
+    await cache.set('b', result('b'));
+    await cache.set('c', result('c'));
+
+    expect((await readdir(directory)).sort()).toEqual(['b.json', 'c.json', 'index.json']);
+
+    const reloaded = new PersistentEmbeddingCache({ store: new FileEmbeddingStore(directory) });
+    expect(await reloaded.get('c')).toEqual(result('c'));
+    expect(reloaded.getStats().entries).toBe(2);
+  });
+
+  it('treats deleted or corrupt entry files as misses', async () => {
+    const store = new FileEmbeddingStore(directory);
+    const cache = new PersistentEmbeddingCache({ store });
+    await cache.set('a', result('a'));
+    await cache.set('b', result('b'));
+    await rm(join(directory, 'a.json'));
+    await writeFile(join(directory, 'b.json'), '{not json');
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(await cache.get('a')).toBeUndefined();
+    expect(await cache.get('b')).toBeUndefined();
+    warn.mockRestore();
+    expect(await cache.has('b')).toBe(false);
+  });
+});
+
+describe('EmbeddingCache with a persistent tier', () => {
+  function createAdapter() {
+    const adapter: any = {
+      provider: EmbeddingProvider.Host,
+      model: 'all-MiniLM-L6-v2',
+      embedText: vi.fn(async (text: string) => result(text)),
+      embedBatch: vi.fn(async (texts: string[]) => ({
+        embeddings: texts.map(result),
+        provider: EmbeddingProvider.Host,
+        model: 'all-MiniLM-L6-v2',
+        totalTokens: texts.length * 2,
+        cost: 0
+      })),
+      attachCache(cache: EmbeddingCache) {
+        adapter.cache = cache;
+      },
+      getCacheStats() {
+        return adapter.cache?.getStats();
+      }
+    };
+    return adapter;
+  }
+
+  const options = { maxSize: 10, expirationMs: 60000 };
+
+  it('serves embeddings from the persistent tier after a restart', async () => {
+    const store = idbStore();
+    const first = createAdapter();
+    await new EmbeddingCache(first, { ...options, persistent: new PersistentEmbeddingCache({ store }) })
+      .embedBatch(['alpha', 'beta']);
+
+    const adapter = createAdapter();
+    const cache = new EmbeddingCache(adapter, { ...options, persistent: new PersistentEmbeddingCache({ store }) });
+    const response = await cache.embedBatch(['alpha', 'beta', 'gamma']);
+
+    expect(response.embeddings.map(e => e.text)).toEqual(['alpha', 'beta', 'gamma']);
+    expect(adapter.embedBatch).toHaveBeenCalledWith(['gamma'], undefined);
+
+    await cache.embedText('alpha'); // now served from memory
+    expect(adapter.getCacheStats()).toEqual({
+      hits: 3,
+      misses: 1,
+      size: 3,
+      hitRate: 0.75,
+      persistentHits: 2,
+      persistent: { entries: 3, bytes: expect.any(Number), evictions: 0 }
+    });
+  });
+
+  it('keys entries by model', async () => {
+    const store = idbStore();
+    await new EmbeddingCache(createAdapter(), { ...options, persistent: new PersistentEmbeddingCache({ store }) })
+      .embedText('alpha');
+
+    const otherModel = { ...createAdapter(), model: 'other-model' };
+    const cache = new EmbeddingCache(otherModel, { ...options, persistent: new PersistentEmbeddingCache({ store }) });
+    await cache.embedText('alpha');
+
+    expect(otherModel.embedText).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the persistent tier on clear() until clearPersistent()', async () => {
+    const persistent = new PersistentEmbeddingCache({ store: idbStore() });
+    const adapter = createAdapter();
+    const cache = new EmbeddingCache(adapter, { ...options, persistent });
+    await cache.embedText('alpha');
+
+    cache.clear();
+    await cache.embedText('alpha');
+    expect(adapter.embedText).toHaveBeenCalledTimes(1);
+
+    cache.clear();
+    await cache.clearPersistent();
+    await cache.embedText('alpha');
+    expect(adapter.embedText).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,166 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * SessionManager Conversation Branching Tests
+ *
+ * Tests the message tree recorded as prompts complete: forking at an
+ * earlier message to edit it, regenerating a response as a sibling,
+ * switching between branches, and that the session history and the
+ * persisted cursor follow the active branch.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionManager } from '../../src/managers/SessionManager';
+
+describe('SessionManager conversation branching', () => {
+  let sessionManager: SessionManager;
+  let storageManager: any;
+  let replies: number;
+
+  const sessionId = BigInt(42);
+  const session = () => (sessionManager as any).sessions.get('42');
+  const contents = () => sessionManager.getActiveBranch(sessionId).map(m => m.content);
+
+  beforeEach(() => {
+    replies = 0;
+    storageManager = {
+      appendMessage: vi.fn().mockResolvedValue(undefined),
+      setActiveMessage: vi.fn().mockResolvedValue(undefined),
+      loadConversation: vi.fn().mockResolvedValue(null)
+    };
+    sessionManager = new SessionManager({} as any, storageManager);
+    (sessionManager as any).initialized = true;
+    (sessionManager as any).injectRAGContext = vi.fn(async (_id: string, p: string) => p);
+    // Streams over the REST path, which records turns the same way
+    (sessionManager as any)._streamPromptToHost = vi.fn(
+      (id: bigint, prompt: string, _onToken: unknown, options: unknown) =>
+        (sessionManager as any)._sendPromptToHost(id, prompt, options)
+    );
+    (sessionManager as any).sessions.set('42', {
+      sessionId,
+      jobId: BigInt(100),
+      chainId: 84532,
+      model: 'test-model',
+      endpoint: 'http://localhost:8080',
+      provider: 'test-host',
+      status: 'active' as const,
+      prompts: [] as string[],
+      responses: [] as string[],
+      checkpoints: [],
+      totalTokens: 0,
+      startTime: Date.now()
+    });
+
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: any) => {
+      const { prompt } = JSON.parse(init.body);
+      return { ok: true, json: async () => ({ response: `reply ${++replies} to ${prompt}` }) } as any;
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('records prompts as a chain of messages and stores them with ids', async () => {
+    await sessionManager.sendPrompt(sessionId, 'q1');
+    await sessionManager.sendPrompt(sessionId, 'q2');
+
+    const { messages, activeMessageId } = sessionManager.getConversationTree(sessionId);
+    expect(messages.map(m => m.content)).toEqual(['q1', 'reply 1 to q1', 'q2', 'reply 2 to q2']);
+    expect(messages.slice(1).map(m => m.parentId)).toEqual(messages.slice(0, -1).map(m => m.id));
+    expect(messages[0].parentId).toBeNull();
+    expect(activeMessageId).toBe(messages[3].id);
+    expect(storageManager.appendMessage.mock.calls.map(([, m]: any) => m.id)).toEqual(messages.map(m => m.id));
+  });
+
+  test('builds the tree from history recorded before branching was used', async () => {
+    session().prompts.push('old question');
+    session().responses.push('old answer');
+
+    await sessionManager.sendPrompt(sessionId, 'new question');
+
+    const { messages } = sessionManager.getConversationTree(sessionId);
+    expect(messages.map(m => m.id).slice(0, 2)).toEqual(['msg_0', 'msg_1']);
+    expect(messages[2].parentId).toBe('msg_1');
+    expect(session().prompts).toEqual(['old question', 'new question']);
+  });
+
+  test('forking at a message sends the edited prompt as its sibling', async () => {
+    await sessionManager.sendPrompt(sessionId, 'q1');
+    await sessionManager.sendPrompt(sessionId, 'q2');
+    const q2 = sessionManager.getActiveBranch(sessionId)[2];
+
+    const parentId = await sessionManager.forkAt(sessionId, q2.id);
+    expect(session().prompts).toEqual(['q1']);
+    await sessionManager.sendPrompt(sessionId, 'q2 edited');
+
+    expect(contents()).toEqual(['q1', 'reply 1 to q1', 'q2 edited', 'reply 3 to q2 edited']);
+    const siblings = sessionManager.getMessageSiblings(sessionId, q2.id);
+    expect(siblings.siblings.map(m => m.content)).toEqual(['q2', 'q2 edited']);
+    expect(siblings.index).toBe(0);
+    expect(storageManager.setActiveMessage).toHaveBeenCalledWith('42', parentId);
+  });
+
+  test('regenerating adds a sibling response to the same prompt', async () => {
+    await sessionManager.sendPrompt(sessionId, 'q1');
+    const [, first] = sessionManager.getActiveBranch(sessionId);
+
+    const response = await sessionManager.regenerateResponse(sessionId);
+
+    expect(response).toBe('reply 2 to q1');
+    expect(contents()).toEqual(['q1', 'reply 2 to q1']);
+    const { siblings, index } = sessionManager.getMessageSiblings(sessionId, first.id);
+    expect(siblings.map(m => m.content)).toEqual(['reply 1 to q1', 'reply 2 to q1']);
+    expect(index).toBe(0);
+    expect(sessionManager.getConversationTree(sessionId).messages.filter(m => m.role === 'user')).toHaveLength(1);
+    expect(session().responses).toEqual(['reply 2 to q1']);
+  });
+
+  test('regenerating resends the prompt with the conversation before it on its branch', async () => {
+    await sessionManager.sendPrompt(sessionId, 'q1');
+    await sessionManager.sendPrompt(sessionId, 'q2');
+    const fetchMock = fetch as any;
+
+    await sessionManager.regenerateResponse(sessionId);
+    await sessionManager.sendPrompt(sessionId, 'q3');
+
+    const sent = fetchMock.mock.calls.map(([, init]: any) => JSON.parse(init.body).prompt);
+    expect(sent[2]).toBe('Conversation so far:\n\nUser: q1\n\nAssistant: reply 1 to q1\n\nUser: q2');
+    expect(sent[3]).toBe('q3');
+    expect(session().carriedContext).toBeUndefined();
+  });
+
+  test('switching branches restores the session history of that branch', async () => {
+    await sessionManager.sendPrompt(sessionId, 'q1');
+    await sessionManager.sendPrompt(sessionId, 'q2');
+    const [, a1] = sessionManager.getActiveBranch(sessionId);
+    await sessionManager.regenerateResponse(sessionId, a1.id);
+    expect(contents()).toEqual(['q1', 'reply 3 to q1']);
+
+    const branch = await sessionManager.switchBranch(sessionId, a1.id);
+
+    expect(branch.map(m => m.content)).toEqual(['q1', 'reply 1 to q1', 'q2', 'reply 2 to q2']);
+    expect(session().prompts).toEqual(['q1', 'q2']);
+    expect(session().responses).toEqual(['reply 1 to q1', 'reply 2 to q2']);
+  });
+
+  test('a failed regeneration leaves the active branch unchanged', async () => {
+    await sessionManager.sendPrompt(sessionId, 'q1');
+    vi.mocked(fetch).mockResolvedValueOnce({ ok: false, status: 500, text: async () => 'down' } as any);
+
+    await expect(sessionManager.regenerateResponse(sessionId)).rejects.toThrow();
+
+    expect(contents()).toEqual(['q1', 'reply 1 to q1']);
+    expect(session().prompts).toEqual(['q1']);
+    await sessionManager.sendPrompt(sessionId, 'q2');
+    expect(contents()).toEqual(['q1', 'reply 1 to q1', 'q2', 'reply 2 to q2']);
+  });
+
+  test('rejects unknown messages and regenerating without a response', async () => {
+    expect(() => sessionManager.getMessageSiblings(sessionId, 'msg_missing'))
+      .toThrow(expect.objectContaining({ code: 'INVALID_MESSAGE_ID' }));
+    await expect(sessionManager.regenerateResponse(sessionId))
+      .rejects.toMatchObject({ code: 'INVALID_MESSAGE_ID' });
+  });
+});
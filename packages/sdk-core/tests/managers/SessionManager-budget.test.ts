@@ -0,0 +1,164 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * SessionManager Cost Estimation and Spend Cap Tests
+ *
+ * Tests estimatePromptCost against host pricing, spend tracking from
+ * stream_end usage and REST responses, and the maxSpend cap: maxTokens is
+ * lowered to what the remaining budget pays for, generation stopped at the
+ * cap throws BudgetExceededError, and later prompts are refused.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionManager } from '../../src/managers/SessionManager';
+import { BudgetExceededError } from '../../src/errors/budget-errors';
+
+vi.mock('../../src/config/ChainRegistry', () => ({
+  ChainRegistry: {
+    isChainSupported: vi.fn().mockReturnValue(true),
+    getSupportedChains: vi.fn().mockReturnValue([84532])
+  }
+}));
+
+describe('SessionManager cost estimation and spend caps', () => {
+  let sessionManager: SessionManager;
+  let hostManager: any;
+  let reply: string;
+
+  const sessionId = BigInt(42);
+  const modelId = '0x' + 'b'.repeat(64);
+  const session = () => (sessionManager as any).sessions.get('42');
+  const requestBody = (call = 0) => JSON.parse(vi.mocked(fetch).mock.calls[call][1]!.body as string);
+
+  // 2 units per token (pricePerToken includes PRICE_PRECISION = 1000)
+  const addSession = (maxSpend?: bigint) => {
+    (sessionManager as any).sessions.set('42', {
+      sessionId,
+      jobId: BigInt(100),
+      chainId: 84532,
+      model: 'test-model',
+      modelId,
+      provider: '0x' + '1'.repeat(40),
+      endpoint: 'http://localhost:8080',
+      status: 'active' as const,
+      prompts: [] as string[],
+      responses: [] as string[],
+      checkpoints: [],
+      totalTokens: 0,
+      startTime: Date.now(),
+      pricePerToken: 2000,
+      spent: 0n,
+      budget: maxSpend !== undefined ? { maxSpend } : undefined
+    });
+  };
+
+  beforeEach(() => {
+    reply = 'abcd'.repeat(10); // 10 tokens with the fallback estimate
+    hostManager = { getModelPricing: vi.fn().mockResolvedValue(3000n) };
+    const storageManager = { appendMessage: vi.fn().mockResolvedValue(undefined), isInitialized: () => true };
+    sessionManager = new SessionManager({ isInitialized: () => true } as any, storageManager as any, hostManager);
+    (sessionManager as any).initialized = true;
+    (sessionManager as any).injectRAGContext = vi.fn(async (_id: string, p: string) => p);
+    vi.stubGlobal('fetch', vi.fn(async () => ({ ok: true, json: async () => ({ response: reply }) }) as any));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('estimates the cost of maxTokens at the host price', async () => {
+    addSession(1000n);
+    session().spent = 100n;
+
+    const estimate = await sessionManager.estimatePromptCost(sessionId, 'abcdefgh', { maxTokens: 200 });
+
+    expect(hostManager.getModelPricing).toHaveBeenCalledWith(session().provider, modelId, '0x' + '0'.repeat(40));
+    expect(estimate).toEqual({
+      promptTokens: 2,
+      maxCompletionTokens: 200,
+      pricePerToken: 3000n,
+      maxCost: 600n,
+      spent: 100n,
+      remainingBudget: 900n,
+      withinBudget: true
+    });
+    expect((await sessionManager.estimatePromptCost(sessionId, 'x', { maxTokens: 400 })).withinBudget).toBe(false);
+  });
+
+  test('falls back to the session price without a host manager', async () => {
+    sessionManager = new SessionManager({} as any, {} as any);
+    addSession();
+
+    const estimate = await sessionManager.estimatePromptCost(sessionId, 'hi', { maxTokens: 10 });
+
+    expect(estimate.pricePerToken).toBe(2000n);
+    expect(estimate.maxCost).toBe(20n);
+    expect(estimate.remainingBudget).toBeUndefined();
+    expect(estimate.withinBudget).toBe(true);
+  });
+
+  test('adds the cost of stream_end usage to TokenUsageInfo and the session spend', () => {
+    addSession();
+    const onTokenUsage = vi.fn();
+
+    (sessionManager as any)._processStreamEnd({ tokens_used: 30, vlm_tokens: 5 }, 0, session(), { onTokenUsage });
+
+    expect(onTokenUsage).toHaveBeenCalledWith(expect.objectContaining({ totalTokens: 35, cost: 70n }));
+    expect(session().spent).toBe(70n);
+  });
+
+  test('leaves maxTokens alone while the budget covers it and charges REST responses', async () => {
+    addSession(100_000n);
+
+    await sessionManager.sendPrompt(sessionId, 'q1');
+
+    expect(requestBody().max_tokens).toBe(4000);
+    expect(session().spent).toBe(20n);
+  });
+
+  test('stops generation at the cap with BudgetExceededError and refuses later prompts', async () => {
+    addSession(100n); // pays for 50 tokens
+    reply = 'x'.repeat(200); // 50 tokens
+
+    const error = await sessionManager.sendPrompt(sessionId, 'q1').catch(e => e);
+
+    expect(requestBody().max_tokens).toBe(50);
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error).toMatchObject({ code: 'BUDGET_EXCEEDED', maxSpend: 100n, spent: 100n, partialResponse: reply });
+    expect(session().responses).toEqual([reply]);
+
+    await expect(sessionManager.sendPrompt(sessionId, 'q2')).rejects.toMatchObject({
+      code: 'BUDGET_EXCEEDED',
+      partialResponse: undefined
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not throw when a limited prompt finishes below the cap', async () => {
+    addSession(100n);
+
+    await expect(sessionManager.sendPrompt(sessionId, 'q1')).resolves.toBe(reply);
+
+    expect(requestBody().max_tokens).toBe(50);
+    expect(session().spent).toBe(20n);
+  });
+
+  test('charges side prompts without recording them in the session', async () => {
+    addSession(1000n);
+    session().prompts.push('earlier question');
+
+    await expect(sessionManager.sendSidePrompt(sessionId, 'Rank: [1] a [2] b', { maxTokens: 16 })).resolves.toBe(reply);
+
+    expect(requestBody()).toMatchObject({ prompt: 'Rank: [1] a [2] b', max_tokens: 16 });
+    expect(session().prompts).toEqual(['earlier question']);
+    expect(session().responses).toEqual([]);
+    expect(session().spent).toBe(20n);
+    expect((sessionManager as any).injectRAGContext).not.toHaveBeenCalled();
+  });
+
+  test('startSession rejects a non-positive maxSpend', async () => {
+    await expect(sessionManager.startSession({ chainId: 84532, host: '0x1', modelId, maxSpend: 0n }))
+      .rejects.toMatchObject({ code: 'INVALID_MAX_SPEND' });
+  });
+});
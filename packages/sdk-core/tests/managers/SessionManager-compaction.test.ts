@@ -0,0 +1,186 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * SessionManager Context Compaction Tests
+ *
+ * Tests the opt-in compaction policy of startSession: the conversation is
+ * sent with each prompt, older turns are summarised once the projected
+ * context crosses the threshold, the summary replaces them in the prompt
+ * while the stored transcript stays complete, and getContextInfo reports
+ * what was compacted.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionManager } from '../../src/managers/SessionManager';
+import type { CompactionInfo, CompactionPolicy } from '../../src/types';
+
+// Mock ChainRegistry to avoid environment variable requirements
+vi.mock('../../src/config/ChainRegistry', () => ({
+  ChainRegistry: {
+    isChainSupported: vi.fn().mockReturnValue(true),
+    getSupportedChains: vi.fn().mockReturnValue([84532])
+  }
+}));
+
+const modelId = '0x' + 'a'.repeat(64);
+
+describe('SessionManager context compaction', () => {
+  let sessionManager: SessionManager;
+  let storageManager: any;
+  let requests: Array<{ host: string; prompt: string; max_tokens: number }>;
+  let failSummaries: boolean;
+
+  beforeEach(async () => {
+    requests = [];
+    failSummaries = false;
+    let nextJobId = 1n;
+    const paymentManager = {
+      createSessionJob: vi.fn(async () => {
+        const id = nextJobId++;
+        return { jobId: id, sessionId: id };
+      }),
+      isInitialized: vi.fn().mockReturnValue(true)
+    };
+    storageManager = {
+      storeConversation: vi.fn().mockResolvedValue({ cid: 'cid' }),
+      loadConversation: vi.fn().mockResolvedValue(null),
+      saveConversation: vi.fn().mockResolvedValue({ cid: 'cid' }),
+      appendMessage: vi.fn().mockResolvedValue(undefined),
+      setActiveMessage: vi.fn().mockResolvedValue(undefined),
+      isInitialized: vi.fn().mockReturnValue(true)
+    };
+    sessionManager = new SessionManager(paymentManager as any, storageManager);
+    await sessionManager.initialize();
+    (sessionManager as any).injectRAGContext = vi.fn(async (_id: string, p: string) => p);
+
+
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init: any) => {
+      const body = JSON.parse(init.body);
+      const host = new URL(url).hostname;
+      requests.push({ host, prompt: body.prompt, max_tokens: body.max_tokens });
+      if (body.prompt.startsWith('Summarise')) {
+        if (failSummaries) {
+          return { ok: false, status: 500, text: async () => 'down' } as any;
+        }
+        return { ok: true, json: async () => ({ response: ` summary ${requests.length} ` }) } as any;
+      }
+      return { ok: true, json: async () => ({ response: `answer ${requests.length}` }) } as any;
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const start = (compaction?: CompactionPolicy, host = 'host-a') => sessionManager.startSession({
+    chainId: 84532,
+    modelId,
+    host: '0xa',
+    endpoint: `http://${host}:8080`,
+    paymentMethod: 'deposit',
+    pricePerToken: 2000,
+    compaction
+  });
+
+  // ~4 characters per token without a registered tokenizer
+  const longQuestion = (n: number) => `question ${n} ` + 'x'.repeat(200);
+  const chatPrompts = () => requests.filter(r => !r.prompt.startsWith('Summarise')).map(r => r.prompt);
+
+  test('without a policy, prompts are sent as given', async () => {
+    const { sessionId } = await start();
+    await sessionManager.sendPrompt(sessionId, 'first');
+    await sessionManager.sendPrompt(sessionId, 'second');
+
+    expect(chatPrompts()).toEqual(['first', 'second']);
+  });
+
+  test('sends the conversation with each prompt while it fits', async () => {
+    const { sessionId } = await start({ contextWindowSize: 10_000 });
+    await sessionManager.sendPrompt(sessionId, 'first');
+    await sessionManager.sendPrompt(sessionId, 'second');
+
+    expect(chatPrompts()[1]).toBe('Conversation so far:\n\nUser: first\n\nAssistant: answer 1\n\nUser: second');
+    expect(sessionManager.getContextInfo(sessionId)).toBeNull();
+  });
+
+  test('summarises older turns once the context crosses the threshold', async () => {
+    const compactions: CompactionInfo[] = [];
+    const { sessionId } = await start({
+      contextWindowSize: 200,
+      threshold: 0.5,
+      keepRecentTurns: 1,
+      maxSummaryTokens: 64,
+      onCompaction: (info) => compactions.push(info)
+    });
+    for (let n = 1; n <= 3; n++) {
+      await sessionManager.sendPrompt(sessionId, longQuestion(n));
+    }
+
+    const summaryRequest = requests.find(r => r.prompt.startsWith('Summarise'))!;
+    expect(summaryRequest.prompt).toContain(`User: ${longQuestion(1)}`);
+    expect(summaryRequest.prompt).not.toContain(longQuestion(2));
+    expect(summaryRequest.max_tokens).toBe(64);
+
+    const last = chatPrompts()[2];
+    expect(last.startsWith('Summary of the earlier conversation:\nsummary 3\n\n')).toBe(true);
+    expect(last).not.toContain(longQuestion(1));
+    expect(last).toContain(`User: ${longQuestion(2)}`);
+
+    expect(compactions).toHaveLength(1);
+    expect(compactions[0]).toMatchObject({ summary: 'summary 3', compactedMessages: 2, compactions: 1 });
+    expect(compactions[0].compactedTokens).toBeGreaterThan(compactions[0].summaryTokens);
+    expect(sessionManager.getContextInfo(sessionId)?.compaction).toEqual(compactions[0]);
+  });
+
+  test('keeps the stored transcript complete', async () => {
+    const { sessionId } = await start({ contextWindowSize: 200, threshold: 0.5, keepRecentTurns: 1 });
+    for (let n = 1; n <= 3; n++) {
+      await sessionManager.sendPrompt(sessionId, longQuestion(n));
+    }
+
+    const stored = storageManager.appendMessage.mock.calls.map(([, m]: any) => m.content);
+    expect(stored).toEqual([
+      longQuestion(1), 'answer 1', longQuestion(2), 'answer 2', longQuestion(3), 'answer 4'
+    ]);
+  });
+
+  test('writes summaries on the summary session', async () => {
+    const cheap = await start(undefined, 'cheap-host');
+    const { sessionId } = await start({
+      contextWindowSize: 200, threshold: 0.5, keepRecentTurns: 1, summarySessionId: cheap.sessionId
+    });
+    for (let n = 1; n <= 3; n++) {
+      await sessionManager.sendPrompt(sessionId, longQuestion(n));
+    }
+
+    const summaryRequest = requests.find(r => r.prompt.startsWith('Summarise'))!;
+    expect(summaryRequest.host).toBe('cheap-host');
+    expect(chatPrompts().length).toBe(3);
+  });
+
+  test('sends the full context when summarising fails', async () => {
+    failSummaries = true;
+    const { sessionId } = await start({ contextWindowSize: 200, threshold: 0.5, keepRecentTurns: 1 });
+    for (let n = 1; n <= 3; n++) {
+      await sessionManager.sendPrompt(sessionId, longQuestion(n));
+    }
+
+    expect(chatPrompts()[2]).toContain(`User: ${longQuestion(1)}`);
+    expect(sessionManager.getContextInfo(sessionId)).toBeNull();
+  });
+
+  test('drops the summary when the active branch leaves the summarised turns', async () => {
+    const { sessionId } = await start({ contextWindowSize: 200, threshold: 0.5, keepRecentTurns: 1 });
+    for (let n = 1; n <= 3; n++) {
+      await sessionManager.sendPrompt(sessionId, longQuestion(n));
+    }
+    const [firstQuestion] = sessionManager.getActiveBranch(sessionId);
+
+    await sessionManager.forkAt(sessionId, firstQuestion.id);
+    await sessionManager.sendPrompt(sessionId, 'fresh start');
+
+    expect(chatPrompts().pop()).toBe('fresh start');
+    expect(sessionManager.getContextInfo(sessionId)?.compaction).toBeUndefined();
+  });
+});
@@ -0,0 +1,138 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * SessionManager Concurrent Prompt Tests
+ *
+ * Tests prompts on two sessions that stream at the same time: each runs on
+ * its own WebSocket connection, so neither stream is cut off or receives the
+ * other's tokens.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionManager } from '../../src/managers/SessionManager';
+
+/** Stands in for a host: acks session_init, then streams tagged chunks for each prompt */
+class FakeHostSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSED = 3;
+  static sockets: FakeHostSocket[] = [];
+
+  readyState = FakeHostSocket.CONNECTING;
+  onopen?: () => void;
+  onmessage?: (event: { data: string }) => void;
+  onerror?: (error: any) => void;
+  onclose?: (event: any) => void;
+  private closeListeners: (() => void)[] = [];
+  private sessionId?: string;
+
+  constructor(readonly url: string) {
+    FakeHostSocket.sockets.push(this);
+    setTimeout(() => {
+      this.readyState = FakeHostSocket.OPEN;
+      this.onopen?.();
+    }, 1);
+  }
+
+  send(raw: string): void {
+    const message = JSON.parse(raw);
+    if (message.type === 'session_init') {
+      this.sessionId = message.session_id;
+      this.reply({ type: 'session_init_ack', session_id: this.sessionId });
+    } else if (message.type === 'prompt') {
+      const sessionId = this.sessionId;
+      ['a', 'b', 'c'].forEach((part, i) => {
+        setTimeout(() => this.reply({ type: 'stream_chunk', content: `${sessionId}${part} ` }), 10 * (i + 1));
+      });
+      setTimeout(() => this.reply({ type: 'stream_end', tokens_used: 3 }), 40);
+    }
+  }
+
+  addEventListener(event: string, listener: () => void): void {
+    if (event === 'close') this.closeListeners.push(listener);
+  }
+
+  close(): void {
+    this.readyState = FakeHostSocket.CLOSED;
+    this.closeListeners.forEach(listener => listener());
+    this.onclose?.({});
+  }
+
+  private reply(data: any): void {
+    if (this.readyState === FakeHostSocket.OPEN) this.onmessage?.({ data: JSON.stringify(data) });
+  }
+}
+
+function createSession(id: number) {
+  return {
+    sessionId: BigInt(id),
+    jobId: BigInt(id),
+    chainId: 84532,
+    model: 'test-model',
+    provider: `0xhost${id}`,
+    endpoint: `ws://host-${id}:8080/v1/ws`,
+    status: 'active' as const,
+    prompts: [] as string[],
+    responses: [] as string[],
+    checkpoints: [],
+    totalTokens: 0,
+    startTime: Date.now(),
+    encryption: false
+  };
+}
+
+describe('concurrent sendPromptStreaming', () => {
+  const originalWebSocket = (globalThis as any).WebSocket;
+  let sessionManager: SessionManager;
+
+  beforeEach(() => {
+    FakeHostSocket.sockets = [];
+    (globalThis as any).WebSocket = FakeHostSocket;
+    const paymentManager = { signer: { getAddress: vi.fn().mockResolvedValue('0xuser') } };
+    const storageManager = { appendMessage: vi.fn().mockResolvedValue(undefined) };
+    sessionManager = new SessionManager(paymentManager as any, storageManager as any);
+    (sessionManager as any).initialized = true;
+    (sessionManager as any).sessions.set('1', createSession(1));
+    (sessionManager as any).sessions.set('2', createSession(2));
+    (sessionManager as any).injectRAGContext = vi.fn(async (_id: string, prompt: string) => prompt);
+  });
+
+  afterEach(() => {
+    (globalThis as any).WebSocket = originalWebSocket;
+  });
+
+  test('streams overlapping prompts on different sessions over separate connections', async () => {
+    const tokens: Record<string, string[]> = { '1': [], '2': [] };
+    let firstStreaming!: () => void;
+    const streaming = new Promise<void>(resolve => { firstStreaming = resolve; });
+
+    // The second prompt starts while the first is mid-stream
+    const [first, second] = await Promise.all([
+      sessionManager.sendPromptStreaming(1n, 'one', (t) => { tokens['1'].push(t); firstStreaming(); }),
+      streaming.then(() =>
+        sessionManager.sendPromptStreaming(2n, 'two', (t) => tokens['2'].push(t))
+      )
+    ]);
+
+    expect(first).toBe('1a 1b 1c ');
+    expect(second).toBe('2a 2b 2c ');
+    expect(tokens['1']).toEqual(['1a ', '1b ', '1c ']);
+    expect(tokens['2']).toEqual(['2a ', '2b ', '2c ']);
+    expect(FakeHostSocket.sockets.map(s => s.url)).toEqual(['ws://host-1:8080/v1/ws', 'ws://host-2:8080/v1/ws']);
+  });
+
+  test('closes the extra connection and reuses the default one afterwards', async () => {
+    await Promise.all([
+      sessionManager.sendPromptStreaming(1n, 'one', () => {}),
+      sessionManager.sendPromptStreaming(2n, 'two', () => {})
+    ]);
+    const [defaultSocket, extraSocket] = FakeHostSocket.sockets;
+
+    expect(defaultSocket.readyState).toBe(FakeHostSocket.OPEN);
+    expect(extraSocket.readyState).toBe(FakeHostSocket.CLOSED);
+
+    await sessionManager.sendPromptStreaming(1n, 'again', () => {});
+    expect(FakeHostSocket.sockets).toHaveLength(2);
+  });
+});
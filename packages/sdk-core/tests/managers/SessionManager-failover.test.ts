@@ -0,0 +1,292 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * SessionManager Host Failover Tests
+ *
+ * Tests the opt-in failover policy of startSession: when the session host
+ * goes down mid-conversation, the old session is settled, a session is
+ * opened on the next ranked host with the recovered conversation, and the
+ * pending prompt is replayed there.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SessionManager } from '../../src/managers/SessionManager';
+import { SDKError } from '../../src/types';
+import { HostSelectionMode } from '../../src/types/settings.types';
+import type { HostInfo } from '../../src/types/models';
+import type { FailoverEvent, FailoverPolicy } from '../../src/types';
+
+// Mock ChainRegistry to avoid environment variable requirements
+vi.mock('../../src/config/ChainRegistry', () => ({
+  ChainRegistry: {
+    isChainSupported: vi.fn().mockReturnValue(true),
+    getSupportedChains: vi.fn().mockReturnValue([84532])
+  }
+}));
+
+const modelId = '0x' + 'a'.repeat(64);
+const ZERO_PROOF = '0x' + '00'.repeat(32);
+
+function createHost(name: string, overrides: Partial<HostInfo> = {}): HostInfo {
+  return {
+    address: `0x${name}`,
+    apiUrl: `http://host-${name}:8080`,
+    metadata: {} as any,
+    supportedModels: [modelId],
+    isActive: true,
+    stake: 0n,
+    minPricePerTokenNative: 0n,
+    minPricePerTokenStable: 0n,
+    ...overrides
+  };
+}
+
+describe('SessionManager host failover', () => {
+  let sessionManager: SessionManager;
+  let paymentManager: any;
+  let storageManager: any;
+  let hostSelectionService: any;
+  let hostStatus: Record<string, 'healthy' | 'unhealthy' | 'down'>;
+  let ranked: HostInfo[];
+  let inferenceCalls: Array<{ host: string; prompt: string }>;
+  let failInference: boolean;
+
+  const hostOf = (url: string) => new URL(url).hostname.replace('host-', '');
+
+  beforeEach(async () => {
+    hostStatus = { a: 'healthy', b: 'healthy', c: 'healthy', d: 'healthy' };
+    ranked = [createHost('a'), createHost('b'), createHost('c')];
+    inferenceCalls = [];
+    failInference = false;
+
+    let nextJobId = 1n;
+    paymentManager = {
+      createSessionJob: vi.fn(async () => {
+        const id = nextJobId++;
+        return { jobId: id, sessionId: id };
+      }),
+      completeSession: vi.fn().mockResolvedValue('0xtx'),
+      isInitialized: vi.fn().mockReturnValue(true)
+    };
+    storageManager = {
+      getHostSelectionMode: vi.fn().mockResolvedValue(HostSelectionMode.RELIABLE),
+      storeConversation: vi.fn().mockResolvedValue({ cid: 'cid' }),
+      loadConversation: vi.fn().mockResolvedValue(null),
+      saveConversation: vi.fn().mockResolvedValue({ cid: 'cid' }),
+      appendMessage: vi.fn().mockResolvedValue(undefined),
+      isInitialized: vi.fn().mockReturnValue(true)
+    };
+    hostSelectionService = {
+      selectHostForModel: vi.fn(),
+      getRankedHostsForModel: vi.fn(async () => ranked.map(host => ({ host, score: 1, factors: {} })))
+    };
+
+    sessionManager = new SessionManager(paymentManager, storageManager);
+    sessionManager.setHostSelectionService(hostSelectionService);
+    await sessionManager.initialize();
+    (sessionManager as any).injectRAGContext = vi.fn(async (_id: string, p: string) => p);
+    vi.spyOn(sessionManager, 'recoverFromCheckpoints').mockRejectedValue(new Error('host unreachable'));
+
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init: any) => {
+      const host = hostOf(url);
+      if (hostStatus[host] === 'down') {
+        throw new TypeError('fetch failed');
+      }
+      if (url.endsWith('/v1/health')) {
+        return { ok: true, json: async () => ({ status: hostStatus[host], issues: [] }) } as any;
+      }
+      inferenceCalls.push({ host, prompt: JSON.parse(init.body).prompt });
+      if (failInference || hostStatus[host] === 'unhealthy') {
+        return { ok: false, status: 500, text: async () => 'model crashed' } as any;
+      }
+      return { ok: true, json: async () => ({ response: `answer ${inferenceCalls.length} from ${host}` }) } as any;
+    }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const start = (failover?: FailoverPolicy, maxSpend?: bigint) => sessionManager.startSession({
+    chainId: 84532,
+    modelId,
+    host: '0xa',
+    endpoint: 'http://host-a:8080',
+    paymentMethod: 'deposit',
+    pricePerToken: 2000,
+    maxSpend,
+    failover
+  });
+
+  test('without a policy, a host failure fails the prompt', async () => {
+    const { sessionId } = await start();
+    hostStatus.a = 'down';
+
+    await expect(sessionManager.sendPrompt(sessionId, 'hi'))
+      .rejects.toMatchObject({ code: 'PROMPT_SEND_ERROR' });
+    expect(hostSelectionService.getRankedHostsForModel).not.toHaveBeenCalled();
+  });
+
+  test('moves the conversation to the next ranked host and replays the pending prompt', async () => {
+    const events: FailoverEvent[] = [];
+    const { sessionId } = await start({ onFailover: (event) => events.push(event) });
+    await sessionManager.sendPrompt(sessionId, 'What is 2+2?');
+    hostStatus.a = 'down';
+
+    const response = await sessionManager.sendPrompt(sessionId, 'And 3+3?');
+
+    expect(response).toBe('answer 2 from b');
+    expect(hostSelectionService.getRankedHostsForModel).toHaveBeenCalledWith(modelId, HostSelectionMode.RELIABLE);
+    expect(sessionManager.getCurrentSessionId(sessionId)).toBe(2n);
+    expect(events).toEqual([expect.objectContaining({
+      previousSessionId: 1n,
+      sessionId: 2n,
+      previousHost: '0xa',
+      host: '0xb',
+      recoveredMessages: 2,
+      recoverySource: 'local'
+    })]);
+
+    const replayed = inferenceCalls[1].prompt;
+    expect(replayed).toContain('User: What is 2+2?');
+    expect(replayed).toContain('Assistant: answer 1 from a');
+    expect(replayed.endsWith('User: And 3+3?')).toBe(true);
+  });
+
+  test('settles the failed session and carries its history into the new one', async () => {
+    const { sessionId } = await start({});
+    await sessionManager.sendPrompt(sessionId, 'first');
+    hostStatus.a = 'down';
+    await sessionManager.sendPrompt(sessionId, 'second');
+
+    expect(paymentManager.completeSession).toHaveBeenCalledWith(1n, 0, ZERO_PROOF);
+    const sessions = (sessionManager as any).sessions;
+    expect(sessions.get('1').status).toBe('completed');
+    expect(sessions.get('2').prompts).toEqual(['first', 'second']);
+    expect(sessions.get('2').responses).toEqual(['answer 1 from a', 'answer 2 from b']);
+    expect(storageManager.appendMessage).toHaveBeenCalledWith('2', expect.objectContaining({ role: 'user', content: 'first' }));
+  });
+
+  test('later prompts to the original ID go to the new host without the carried history', async () => {
+    const { sessionId } = await start({});
+    await sessionManager.sendPrompt(sessionId, 'first');
+    hostStatus.a = 'down';
+    await sessionManager.sendPrompt(sessionId, 'second');
+
+    await sessionManager.sendPrompt(sessionId, 'third');
+    expect(inferenceCalls[2]).toEqual({ host: 'b', prompt: 'third' });
+  });
+
+  test('prefers the conversation recovered from host checkpoints', async () => {
+    vi.mocked(sessionManager.recoverFromCheckpoints).mockResolvedValue({
+      messages: [
+        { role: 'user', content: 'checkpointed question', timestamp: 1 },
+        { role: 'assistant', content: 'checkpointed answer', timestamp: 2 }
+      ],
+      tokenCount: 120,
+      checkpoints: []
+    });
+    const events: FailoverEvent[] = [];
+    const { sessionId } = await start({ onFailover: (event) => events.push(event) });
+    hostStatus.a = 'down';
+
+    await sessionManager.sendPrompt(sessionId, 'next');
+
+    expect(events[0].recoverySource).toBe('checkpoints');
+    expect(inferenceCalls[0].prompt).toContain('User: checkpointed question');
+    expect(paymentManager.completeSession).toHaveBeenCalledWith(1n, 120, ZERO_PROOF);
+  });
+
+  test('skips inactive and unhealthy candidates', async () => {
+    ranked = [createHost('a'), createHost('b', { isActive: false }), createHost('c'), createHost('d')];
+    hostStatus.c = 'unhealthy';
+    const { sessionId } = await start({});
+    hostStatus.a = 'down';
+
+    expect(await sessionManager.sendPrompt(sessionId, 'hi')).toBe('answer 1 from d');
+  });
+
+  test('does not return to a host that already failed in the conversation', async () => {
+    const { sessionId } = await start({});
+    hostStatus.a = 'down';
+    await sessionManager.sendPrompt(sessionId, 'hi');
+    hostStatus.a = 'healthy';
+    hostStatus.b = 'down';
+
+    expect(await sessionManager.sendPrompt(sessionId, 'hi again')).toBe('answer 2 from c');
+    expect(sessionManager.getCurrentSessionId(sessionId)).toBe(3n);
+  });
+
+  test('can leave the failed session unsettled', async () => {
+    const { sessionId } = await start({ settleFailedSession: false });
+    hostStatus.a = 'down';
+
+    await sessionManager.sendPrompt(sessionId, 'hi');
+    expect(paymentManager.completeSession).not.toHaveBeenCalled();
+  });
+
+  test('stops after maxFailovers', async () => {
+    const { sessionId } = await start({ maxFailovers: 1 });
+    hostStatus.a = 'down';
+    await sessionManager.sendPrompt(sessionId, 'hi');
+    hostStatus.b = 'down';
+
+    await expect(sessionManager.sendPrompt(sessionId, 'hi again'))
+      .rejects.toMatchObject({ code: 'FAILOVER_FAILED' });
+    expect(paymentManager.createSessionJob).toHaveBeenCalledTimes(2);
+  });
+
+  test('fails when no other host can take the session', async () => {
+    const { sessionId } = await start({});
+    hostStatus = { a: 'down', b: 'down', c: 'down' };
+
+    await expect(sessionManager.sendPrompt(sessionId, 'hi'))
+      .rejects.toMatchObject({ code: 'FAILOVER_FAILED' });
+  });
+
+  test('resets the stream before a prompt replayed after a failure midway streams the new response', async () => {
+    const { sessionId } = await start({});
+    (sessionManager as any)._streamPromptToHost = vi.fn(async (id: bigint, _prompt: string, onToken: (t: string) => void) => {
+      if (id === 1n) {
+        ['The ans', 'wer'].forEach(onToken);
+        hostStatus.a = 'down';
+        throw new SDKError('connection lost', 'WS_PROMPT_ERROR');
+      }
+      ['It', ' is', ' 4.'].forEach(onToken);
+      return 'It is 4.';
+    });
+    let tokens: string[] = [];
+    const onStreamReset = vi.fn(() => { tokens = []; });
+
+    const response = await sessionManager.sendPromptStreaming(sessionId, 'What is 2+2?', t => tokens.push(t), { onStreamReset });
+
+    expect(response).toBe('It is 4.');
+    expect(onStreamReset).toHaveBeenCalledTimes(1);
+    expect(tokens.join('')).toBe(response);
+  });
+
+  test('carries the spend and the cap of the failed session into the new one', async () => {
+    const { sessionId } = await start({}, 1_000_000n);
+    (sessionManager as any).sessions.get('1').spent = 600_000n;
+    hostStatus.a = 'down';
+
+    await sessionManager.sendPrompt(sessionId, 'hi');
+
+    const next = (sessionManager as any).sessions.get('2');
+    expect(next.budget).toEqual({ maxSpend: 1_000_000n });
+    expect(next.spent).toBeGreaterThan(600_000n);
+    const estimate = await sessionManager.estimatePromptCost(sessionId, 'next');
+    expect(estimate.remainingBudget).toBe(1_000_000n - next.spent);
+  });
+
+  test('does not fail over while the host is healthy', async () => {
+    const { sessionId } = await start({});
+    failInference = true;
+
+    await expect(sessionManager.sendPrompt(sessionId, 'hi'))
+      .rejects.toMatchObject({ code: 'PROMPT_SEND_ERROR' });
+    expect(hostSelectionService.getRankedHostsForModel).not.toHaveBeenCalled();
+    expect(sessionManager.getHostHealth(sessionId)?.status).toBe('healthy');
+  });
+});
@@ -0,0 +1,284 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * SessionManager Hedged Request Tests
+ *
+ * Tests racing a streamed prompt on two sessions with different hosts:
+ * the session streaming the first token wins, the other is aborted over its
+ * own WebSocket, and the losing host's tokens are reported as overhead in
+ * TokenUsageInfo.hedge. Both sessions send the same carried context. Also
+ * tests opening the session pair on the two best ranked hosts.
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { SessionManager } from '../../src/managers/SessionManager';
+import { HostSelectionMode } from '../../src/types/settings.types';
+import type { HostInfo } from '../../src/types/models';
+import type { TokenUsageInfo } from '../../src/types';
+
+interface LegPlan {
+  /** ms before the first token */
+  delay: number;
+  tokens: string[];
+  /** tokens_used the host reports in stream_end after a stream_cancel */
+  cancelledTokens?: number;
+  fail?: Error;
+}
+
+function createFakeWs() {
+  const handlers = new Set<(data: any) => void>();
+  return {
+    isConnected: vi.fn().mockReturnValue(true),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    onMessage: vi.fn((handler: (data: any) => void) => {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    }),
+    emit: (data: any) => handlers.forEach(handler => handler(data))
+  };
+}
+
+function createSession(id: number, provider: string) {
+  return {
+    sessionId: BigInt(id),
+    jobId: BigInt(id),
+    chainId: 84532,
+    model: 'test-model',
+    provider,
+    endpoint: `http://${provider}:8080`,
+    status: 'active' as const,
+    prompts: [] as string[],
+    responses: [] as string[],
+    checkpoints: [],
+    totalTokens: 0,
+    startTime: Date.now(),
+    pricePerToken: 5000
+  };
+}
+
+describe('hedged sendPromptStreaming', () => {
+  let sessionManager: SessionManager;
+  let plans: Record<string, LegPlan>;
+  let lanes: any[];
+  let sent: Array<[bigint, string]>;
+
+  beforeEach(() => {
+    plans = {};
+    lanes = [];
+    sent = [];
+    sessionManager = new SessionManager({} as any, {} as any);
+    (sessionManager as any).initialized = true;
+    (sessionManager as any).sessions.set('1', createSession(1, 'host-a'));
+    (sessionManager as any).sessions.set('2', createSession(2, 'host-b'));
+
+    // Stands in for the WebSocket streaming path of one session, on its connection lane
+    (sessionManager as any)._streamPromptToHost = vi.fn(function (
+      this: any,
+      id: bigint,
+      _prompt: string,
+      onToken: (token: string) => void,
+      options: any,
+      lane: any
+    ) {
+      const plan = plans[id.toString()];
+      const session = this.sessions.get(id.toString());
+      sent.push([id, this._withCarriedContext(session, _prompt)]);
+      const ws = createFakeWs();
+      lane.wsClient = ws;
+      lanes.push(lane);
+
+      return new Promise<string>((resolve, reject) => {
+        let text = '';
+        const timers: ReturnType<typeof setTimeout>[] = [];
+        options.signal.addEventListener('abort', () => {
+          timers.forEach(clearTimeout);
+          resolve(text);
+          if (plan.cancelledTokens !== undefined) {
+            setTimeout(() => ws.emit({ type: 'stream_end', tokens_used: plan.cancelledTokens }), 5);
+          }
+        }, { once: true });
+
+        if (plan.fail) {
+          timers.push(setTimeout(() => reject(plan.fail), plan.delay));
+          return;
+        }
+        plan.tokens.forEach((token, i) => timers.push(setTimeout(() => {
+          text += token;
+          onToken(token);
+        }, plan.delay + i * 5)));
+        timers.push(setTimeout(() => {
+          this._processStreamEnd({ tokens_used: plan.tokens.length }, 0, session, options);
+          this._recordTurn(session, { role: 'user', content: _prompt, timestamp: 0 }, { role: 'assistant', content: text, timestamp: 0 });
+          resolve(text);
+        }, plan.delay + plan.tokens.length * 5));
+      });
+    });
+  });
+
+  test('keeps the session that streams first and aborts the other', async () => {
+    plans['1'] = { delay: 60, tokens: ['slow '] };
+    plans['2'] = { delay: 10, tokens: ['fast ', 'answer'] };
+    const tokens: string[] = [];
+
+    const response = await sessionManager.sendPromptStreaming(BigInt(1), 'hi', (t) => tokens.push(t), {
+      hedgeSessionId: BigInt(2)
+    });
+
+    expect(response).toBe('fast answer');
+    expect(tokens).toEqual(['fast ', 'answer']);
+    expect(lanes).toHaveLength(2);
+    expect(lanes.every(lane => lane.wsClient.disconnect.mock.calls.length === 1)).toBe(true);
+  });
+
+  test('streams each session over its own connection', async () => {
+    const mainWs = createFakeWs();
+    (sessionManager as any).wsClient = mainWs;
+    plans['1'] = { delay: 5, tokens: ['a'] };
+    plans['2'] = { delay: 30, tokens: ['b'] };
+
+    await sessionManager.sendPromptStreaming(BigInt(1), 'hi', undefined, { hedgeSessionId: BigInt(2) });
+
+    expect(lanes[0].wsClient).not.toBe(lanes[1].wsClient);
+    expect((sessionManager as any).wsClient).toBe(mainWs);
+    expect(mainWs.disconnect).not.toHaveBeenCalled();
+  });
+
+  test('reports the losing host\'s tokens and their cost as hedge overhead', async () => {
+    plans['1'] = { delay: 5, tokens: ['a', 'b', 'c'] };
+    plans['2'] = { delay: 40, tokens: ['x'], cancelledTokens: 12 };
+    const onTokenUsage = vi.fn();
+
+    await sessionManager.sendPromptStreaming(BigInt(1), 'hi', undefined, {
+      hedgeSessionId: BigInt(2),
+      onTokenUsage
+    });
+
+    expect(onTokenUsage).toHaveBeenCalledTimes(1);
+    const usage: TokenUsageInfo = onTokenUsage.mock.calls[0][0];
+    expect(usage.totalTokens).toBe(3);
+    expect(usage.hedge).toMatchObject({
+      winnerSessionId: 1n,
+      loserSessionId: 2n,
+      overheadTokens: 12,
+      overheadCost: 60n // 12 tokens × 5000 / PRICE_PRECISION
+    });
+    expect(usage.hedge!.firstTokenMs).toBeGreaterThanOrEqual(0);
+    expect(sessionManager.getLastTokenUsage(BigInt(1))?.hedge?.overheadTokens).toBe(12);
+    expect((sessionManager as any).sessions.get('2').totalTokens).toBe(12);
+  });
+
+  test('falls back to the other session when one fails before streaming', async () => {
+    plans['1'] = { delay: 5, tokens: [], fail: new Error('host down') };
+    plans['2'] = { delay: 20, tokens: ['from ', 'b'] };
+
+    expect(await sessionManager.sendPromptStreaming(BigInt(1), 'hi', undefined, { hedgeSessionId: BigInt(2) }))
+      .toBe('from b');
+  });
+
+  test('throws the primary error when both sessions fail', async () => {
+    plans['1'] = { delay: 5, tokens: [], fail: new Error('primary down') };
+    plans['2'] = { delay: 10, tokens: [], fail: new Error('hedge down') };
+
+    await expect(sessionManager.sendPromptStreaming(BigInt(1), 'hi', undefined, { hedgeSessionId: BigInt(2) }))
+      .rejects.toThrow('primary down');
+  });
+
+  test('the caller\'s signal aborts both sessions', async () => {
+    plans['1'] = { delay: 50, tokens: ['a'] };
+    plans['2'] = { delay: 50, tokens: ['b'] };
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 5);
+
+    expect(await sessionManager.sendPromptStreaming(BigInt(1), 'hi', undefined, {
+      hedgeSessionId: BigInt(2),
+      signal: controller.signal
+    })).toBe('');
+  });
+
+  test('sends a regenerated prompt\'s context on both sessions and not again afterwards', async () => {
+    Object.assign((sessionManager as any).sessions.get('1'), { prompts: ['q1', 'q2'], responses: ['a1', 'a2'] });
+    plans['1'] = { delay: 5, tokens: ['b2'] };
+    plans['2'] = { delay: 40, tokens: ['x'] };
+
+    await sessionManager.regenerateResponse(BigInt(1), undefined, undefined, { hedgeSessionId: BigInt(2) });
+    await sessionManager.sendPromptStreaming(BigInt(1), 'q3', undefined, { hedgeSessionId: BigInt(2) });
+
+    const transcript = 'Conversation so far:\n\nUser: q1\n\nAssistant: a1\n\nUser: q2';
+    expect(sent).toEqual([[1n, transcript], [2n, transcript], [1n, 'q3'], [2n, 'q3']]);
+    expect((sessionManager as any).sessions.get('1').carriedContext).toBeUndefined();
+    expect((sessionManager as any).sessions.get('2').carriedContext).toBeUndefined();
+  });
+
+  test('rejects a hedge session on the same host', async () => {
+    (sessionManager as any).sessions.set('3', createSession(3, 'host-a'));
+
+    await expect(sessionManager.sendPromptStreaming(BigInt(1), 'hi', undefined, { hedgeSessionId: BigInt(3) }))
+      .rejects.toMatchObject({ code: 'INVALID_PROMPT_OPTIONS' });
+  });
+});
+
+describe('startHedgedSessions', () => {
+  const modelId = '0x' + 'a'.repeat(64);
+  let sessionManager: SessionManager;
+  let startSession: ReturnType<typeof vi.fn>;
+  let ranked: HostInfo[];
+
+  const host = (name: string, isActive = true) => ({
+    address: `0x${name}`,
+    apiUrl: `http://host-${name}:8080`,
+    isActive
+  } as HostInfo);
+
+  beforeEach(() => {
+    ranked = [host('a'), host('b', false), host('c')];
+    const storageManager = { getHostSelectionMode: vi.fn().mockResolvedValue(HostSelectionMode.FASTEST) } as any;
+    sessionManager = new SessionManager({} as any, storageManager);
+    sessionManager.setHostSelectionService({
+      getRankedHostsForModel: vi.fn(async () => ranked.map(h => ({ host: h, score: 1, factors: {} })))
+    } as any);
+    let nextId = 10n;
+    startSession = vi.fn(async () => {
+      const id = nextId++;
+      return { sessionId: id, jobId: id };
+    });
+    (sessionManager as any).startSession = startSession;
+  });
+
+  const config = { chainId: 84532, modelId, paymentMethod: 'deposit' } as any;
+
+  test('opens sessions on the two best ranked active hosts', async () => {
+    const sessions = await sessionManager.startHedgedSessions(config);
+
+    expect(sessions).toEqual({ sessionId: 10n, jobId: 10n, hedgeSessionId: 11n, hedgeJobId: 11n });
+    expect(startSession.mock.calls.map(([c]) => c.host)).toEqual(['0xa', '0xc']);
+    expect(startSession.mock.calls[1][0].endpoint).toBe('http://host-c:8080');
+  });
+
+  test('keeps a given primary host and hedges on the best other host', async () => {
+    await sessionManager.startHedgedSessions({ ...config, host: '0xC', endpoint: 'http://custom:8080' });
+
+    expect(startSession.mock.calls[0][0]).toMatchObject({ host: '0xC', endpoint: 'http://custom:8080' });
+    expect(startSession.mock.calls[1][0].host).toBe('0xa');
+  });
+
+  test('needs two active hosts before opening any session', async () => {
+    ranked = [host('a'), host('b', false)];
+
+    await expect(sessionManager.startHedgedSessions(config))
+      .rejects.toMatchObject({ code: 'NO_HOSTS_AVAILABLE' });
+    expect(startSession).not.toHaveBeenCalled();
+  });
+
+  test('reports the open primary session when no hedge session starts', async () => {
+    startSession.mockImplementation(async (c: any) => {
+      if (c.host !== '0xa') throw new Error('pricing failed');
+      return { sessionId: 10n, jobId: 10n };
+    });
+
+    await expect(sessionManager.startHedgedSessions(config)).rejects.toMatchObject({
+      code: 'HEDGE_SESSION_FAILED',
+      details: { sessionId: 10n, jobId: 10n }
+    });
+  });
+});
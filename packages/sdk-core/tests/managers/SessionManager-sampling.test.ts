@@ -0,0 +1,245 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * SessionManager Extended Sampling Tests
+ *
+ * Tests the optional sampling parameters (topP, topK, minP, penalties, stop,
+ * seed, logitBias): range validation, host capability checks against the
+ * /v1/version features, and their snake_case wire fields in the encrypted
+ * and REST payloads.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import 'fake-indexeddb/auto';
+import { SessionManager } from '../../src/managers/SessionManager';
+import {
+  validateSamplingOptions,
+  assertSamplingSupported,
+  toSamplingPayload
+} from '../../src/utils/sampling-validation';
+import type { SamplingOptions } from '../../src/types';
+
+const allSampling: SamplingOptions = {
+  topP: 0.9,
+  topK: 40,
+  minP: 0.05,
+  repeatPenalty: 1.1,
+  frequencyPenalty: 0.5,
+  presencePenalty: -0.5,
+  stop: ['</answer>', '\n\n'],
+  seed: 42,
+  logitBias: { 15043: -100, 42: 2.5 }
+};
+
+const allWireFields = {
+  top_p: 0.9,
+  top_k: 40,
+  min_p: 0.05,
+  repeat_penalty: 1.1,
+  frequency_penalty: 0.5,
+  presence_penalty: -0.5,
+  stop: ['</answer>', '\n\n'],
+  seed: 42,
+  logit_bias: { 15043: -100, 42: 2.5 }
+};
+
+const allFeatures = [
+  'sampling-top-p', 'sampling-top-k', 'sampling-min-p', 'sampling-repeat-penalty',
+  'sampling-frequency-penalty', 'sampling-presence-penalty', 'sampling-stop',
+  'sampling-seed', 'sampling-logit-bias'
+];
+
+describe('sampling option validation', () => {
+  test('accepts options within range', () => {
+    expect(() => validateSamplingOptions(allSampling)).not.toThrow();
+    expect(() => validateSamplingOptions({ topK: 0, minP: 0, seed: 0 })).not.toThrow();
+  });
+
+  test.each<[string, SamplingOptions]>([
+    ['topP of 0', { topP: 0 }],
+    ['topP above 1', { topP: 1.5 }],
+    ['fractional topK', { topK: 2.5 }],
+    ['negative minP', { minP: -0.1 }],
+    ['zero repeatPenalty', { repeatPenalty: 0 }],
+    ['frequencyPenalty above 2', { frequencyPenalty: 3 }],
+    ['presencePenalty below -2', { presencePenalty: -2.5 }],
+    ['empty stop string', { stop: ['ok', ''] }],
+    ['stop given as a string', { stop: 'END' as any }],
+    ['negative seed', { seed: -1 }],
+    ['non-numeric logitBias key', { logitBias: { hello: 1 } as any }],
+    ['logitBias out of range', { logitBias: { 7: 150 } }]
+  ])('rejects %s', (_label, options) => {
+    expect(() => validateSamplingOptions(options)).toThrow(
+      expect.objectContaining({ code: 'INVALID_SAMPLING_OPTIONS' })
+    );
+  });
+
+  test('lists every parameter the host does not support', () => {
+    expect(() => assertSamplingSupported(
+      { topP: 0.9, topK: 40, seed: 1 },
+      { supportedParameters: ['topP'] }
+    )).toThrow(expect.objectContaining({
+      code: 'SAMPLING_NOT_SUPPORTED',
+      details: { unsupported: ['topK', 'seed'] }
+    }));
+    expect(() => assertSamplingSupported({ temperature: 0.2, maxTokens: 10 }, { supportedParameters: [] })).not.toThrow();
+  });
+
+  test('maps set parameters to snake_case wire fields', () => {
+    expect(toSamplingPayload(allSampling)).toEqual(allWireFields);
+    expect(toSamplingPayload({ temperature: 0.2, maxTokens: 64 })).toEqual({});
+    expect(toSamplingPayload(undefined)).toEqual({});
+  });
+});
+
+describe('sampling in encrypted WebSocket payloads', () => {
+  let sessionManager: SessionManager;
+  let capturedEncryptedMessage: string | undefined;
+  let wsClient: any;
+
+  beforeEach(() => {
+    capturedEncryptedMessage = undefined;
+    sessionManager = new SessionManager({} as any, {} as any, {} as any);
+    (sessionManager as any).initialized = true;
+    (sessionManager as any).encryptionManager = {
+      encryptMessage: vi.fn().mockImplementation((_key: any, message: string) => {
+        capturedEncryptedMessage = message;
+        return { ciphertextHex: 'encrypted', nonceHex: 'nonce', aadHex: 'aad' };
+      })
+    };
+    (sessionManager as any).sessionKey = new Uint8Array(32);
+    (sessionManager as any).messageIndex = 0;
+    wsClient = {
+      sendWithoutResponse: vi.fn().mockResolvedValue(undefined),
+      sendMessage: vi.fn().mockResolvedValue('response text'),
+      isConnected: vi.fn().mockReturnValue(true)
+    };
+    (sessionManager as any).wsClient = wsClient;
+    (sessionManager as any).sessions.set('42', {
+      sessionId: BigInt(42),
+      jobId: BigInt(100),
+      chainId: 84532,
+      model: 'test-model',
+      provider: 'test-host',
+      status: 'active' as const,
+      prompts: [] as string[],
+      responses: [] as string[],
+      checkpoints: [],
+      totalTokens: 0,
+      startTime: Date.now(),
+      encryption: true
+    });
+  });
+
+  test('encrypted payload carries the sampling wire fields', async () => {
+    await (sessionManager as any).sendEncryptedMessage('Hello', undefined, undefined, undefined, {
+      temperature: 0.3,
+      ...allSampling
+    });
+    const parsed = JSON.parse(capturedEncryptedMessage!);
+    expect(parsed).toMatchObject({ temperature: 0.3, ...allWireFields });
+  });
+
+  test('encrypted payload omits parameters that are not set', async () => {
+    await (sessionManager as any).sendEncryptedMessage('Hello', undefined, undefined, undefined, { topK: 20 });
+    const parsed = JSON.parse(capturedEncryptedMessage!);
+    expect(parsed.top_k).toBe(20);
+    expect(parsed).not.toHaveProperty('top_p');
+    expect(parsed).not.toHaveProperty('stop');
+  });
+});
+
+describe('sampling in sendPrompt REST body', () => {
+  let sessionManager: SessionManager;
+  let capturedBody: any;
+  let features: string[];
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    capturedBody = undefined;
+    features = allFeatures;
+
+    const storageManager = {
+      appendMessage: vi.fn().mockResolvedValue(undefined),
+      loadConversation: vi.fn().mockResolvedValue(null)
+    } as any;
+    sessionManager = new SessionManager({} as any, storageManager, {} as any);
+    (sessionManager as any).initialized = true;
+    (sessionManager as any).injectRAGContext = vi.fn(async (_id: string, p: string) => p);
+    (sessionManager as any).sessions.set('42', {
+      sessionId: BigInt(42),
+      jobId: BigInt(100),
+      chainId: 84532,
+      model: 'test-model',
+      endpoint: 'http://localhost:8080',
+      provider: 'test-host',
+      status: 'active' as const,
+      prompts: [] as string[],
+      responses: [] as string[],
+      checkpoints: [],
+      totalTokens: 0,
+      startTime: Date.now()
+    });
+
+    fetchMock = vi.fn(async (url: string, init: any) => {
+      if (url.endsWith('/v1/version')) {
+        return { ok: true, json: async () => ({ version: '8.20.0', features }) } as any;
+      }
+      capturedBody = JSON.parse(init.body);
+      return { ok: true, json: async () => ({ response: 'ok' }) } as any;
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const versionProbes = () => fetchMock.mock.calls.filter(([url]) => String(url).endsWith('/v1/version')).length;
+
+  test('REST body carries the sampling wire fields when the host supports them', async () => {
+    await sessionManager.sendPrompt(BigInt(42), 'hi', { temperature: 0.2, ...allSampling });
+    expect(capturedBody).toMatchObject({ temperature: 0.2, ...allWireFields });
+  });
+
+  test('rejects parameters the host does not advertise, before sending', async () => {
+    features = ['sampling-top-p'];
+    await expect(sessionManager.sendPrompt(BigInt(42), 'hi', { topP: 0.9, logitBias: { 7: 1 } }))
+      .rejects.toMatchObject({ code: 'SAMPLING_NOT_SUPPORTED', details: { unsupported: ['logitBias'] } });
+    expect(capturedBody).toBeUndefined();
+  });
+
+  test('rejects out-of-range values without probing the host', async () => {
+    await expect(sessionManager.sendPrompt(BigInt(42), 'hi', { topP: 2 }))
+      .rejects.toMatchObject({ code: 'INVALID_SAMPLING_OPTIONS' });
+    expect(versionProbes()).toBe(0);
+  });
+
+  test('probes the host once per session, and not for temperature/maxTokens alone', async () => {
+    await sessionManager.sendPrompt(BigInt(42), 'hi', { temperature: 0.5, maxTokens: 64 });
+    expect(versionProbes()).toBe(0);
+
+    await sessionManager.sendPrompt(BigInt(42), 'hi', { topK: 40 });
+    await sessionManager.sendPrompt(BigInt(42), 'hi', { seed: 1 });
+    expect(versionProbes()).toBe(1);
+  });
+
+  test('sends options unchecked when the probe fails and probes again next prompt', async () => {
+    let versionUp = false;
+    const answer = fetchMock.getMockImplementation()!;
+    fetchMock.mockImplementation(async (url: string, init: any) => {
+      if (url.endsWith('/v1/version') && !versionUp) throw new Error('ECONNREFUSED');
+      return answer(url, init);
+    });
+
+    await sessionManager.sendPrompt(BigInt(42), 'hi', { topK: 40 });
+    expect(capturedBody).toMatchObject({ top_k: 40 });
+
+    versionUp = true;
+    features = ['sampling-top-k'];
+    await expect(sessionManager.sendPrompt(BigInt(42), 'hi', { seed: 1 }))
+      .rejects.toMatchObject({ code: 'SAMPLING_NOT_SUPPORTED', details: { unsupported: ['seed'] } });
+    expect(versionProbes()).toBe(2);
+  });
+});
@@ -0,0 +1,217 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * SessionManager Structured Output Tests
+ *
+ * Tests PromptOptions.responseFormat on sendPromptStreaming: the schema is
+ * passed to hosts advertising 'json-schema-output', other hosts get format
+ * instructions, and invalid responses are repaired or rejected.
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ethers } from 'ethers';
+import { SessionManager, SessionState } from '../../src/managers/SessionManager';
+import { WebSocketClient } from '../../src/websocket/WebSocketClient';
+import { StructuredOutputError } from '../../src/errors/structured-output-errors';
+import type { ResponseFormat } from '../../src/types';
+import 'fake-indexeddb/auto';
+
+vi.mock('../../src/websocket/WebSocketClient', () => ({
+  WebSocketClient: vi.fn().mockImplementation(() => ({
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    sendMessage: vi.fn().mockResolvedValue('mock response'),
+    sendWithoutResponse: vi.fn().mockResolvedValue(undefined),
+    onMessage: vi.fn().mockReturnValue(() => {}),
+    isConnected: vi.fn().mockReturnValue(true)
+  }))
+}));
+
+const cityFormat: ResponseFormat = {
+  type: 'json_schema',
+  name: 'city',
+  schema: {
+    type: 'object',
+    properties: { name: { type: 'string' }, population: { type: 'integer' } },
+    required: ['name', 'population']
+  }
+};
+
+/**
+ * Encrypted-session SessionManager whose host streams scripted replies
+ * (prompts are sent with an onToken callback, as the streaming path is mocked)
+ */
+function setupSessionManager(replies: string[]) {
+  const paymentManager = { signer: ethers.Wallet.createRandom() } as any;
+  const storageManager = {
+    appendMessage: vi.fn().mockResolvedValue(undefined),
+    loadConversation: vi.fn().mockResolvedValue(null)
+  } as any;
+  const sm = new SessionManager(paymentManager, storageManager, {} as any);
+  (sm as any).initialized = true;
+
+  const session: SessionState = {
+    sessionId: 1n,
+    jobId: 1n,
+    chainId: 84532,
+    model: 'test-model',
+    provider: '0x1234567890abcdef1234567890abcdef12345678',
+    endpoint: 'http://localhost:8080',
+    status: 'active',
+    prompts: [],
+    responses: [],
+    checkpoints: [],
+    totalTokens: 0,
+    startTime: Date.now(),
+    encryption: true
+  };
+  (sm as any).sessions.set('1', session);
+
+  const ws = new WebSocketClient('ws://localhost:8080', { chainId: 84532 });
+  (sm as any).wsClient = ws;
+  (sm as any).wsSessionId = '1';
+  (sm as any).sessionKey = crypto.getRandomValues(new Uint8Array(32));
+
+  let handler: (data: any) => Promise<void> = async () => {};
+  ws.onMessage = vi.fn().mockImplementation((h: any) => {
+    handler = h;
+    return () => {};
+  });
+
+  (sm as any).decryptIncomingMessage = vi.fn(async (data: any) => data.payload.text);
+  const sent: Array<{ prompt: string; responseFormat?: Record<string, any> }> = [];
+  (sm as any).sendEncryptedMessage = vi.fn(
+    async (prompt: string, _search: any, _images: any, _thinking: any, _sampling: any, responseFormat?: any) => {
+      sent.push({ prompt, responseFormat });
+      const reply = replies.shift() ?? '';
+      for (let i = 0; i < reply.length; i += 5) {
+        await handler({ type: 'encrypted_chunk', payload: { text: reply.slice(i, i + 5) } });
+      }
+      await handler({ type: 'stream_end' });
+    }
+  );
+
+  (sm as any).sendEncryptedInit = vi.fn().mockResolvedValue(undefined);
+  (sm as any)._setupRAGMessageHandlers = vi.fn();
+  (sm as any)._setupWebSearchMessageHandlers = vi.fn();
+
+  return { sm, session, sent };
+}
+
+const noop = () => {};
+
+function mockHostFeatures(features: string[]) {
+  const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => ({ features }) });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('SessionManager structured output', () => {
+  beforeEach(() => {
+    mockHostFeatures([]);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test('passes the schema as response_format to hosts with grammar support', async () => {
+    const fetchMock = mockHostFeatures(['json-schema-output']);
+    const { sm, session, sent } = setupSessionManager(['{"name": "Paris", "population": 2100000}']);
+
+    const city = await sm.sendPromptStreaming<{ name: string; population: number }>(
+      1n, 'Largest city in France?', noop, { responseFormat: cityFormat }
+    );
+
+    expect(city).toEqual({ name: 'Paris', population: 2100000 });
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:8080/v1/version', expect.anything());
+    expect(session.structuredOutput).toEqual({ supportsJsonSchema: true });
+    expect(sent[0].prompt).toBe('Largest city in France?');
+    expect(sent[0].responseFormat).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'city', schema: cityFormat.schema, strict: false }
+    });
+  });
+
+  test('adds format instructions for hosts without grammar support', async () => {
+    const { sm, sent } = setupSessionManager(['```json\n{"name": "Paris", "population": 2100000}\n```']);
+
+    const city = await sm.sendPromptStreaming(1n, 'Largest city in France?', noop, { responseFormat: cityFormat });
+
+    expect(city).toEqual({ name: 'Paris', population: 2100000 });
+    expect(sent[0].responseFormat).toBeUndefined();
+    expect(sent[0].prompt).toContain(JSON.stringify(cityFormat.schema));
+    expect(sent[0].prompt.endsWith('Largest city in France?')).toBe(true);
+  });
+
+  test('sends a repair prompt when the response does not validate', async () => {
+    const { sm, sent } = setupSessionManager([
+      '{"name": "Paris"}',
+      '{"name": "Paris", "population": 2100000}'
+    ]);
+    const tokens: string[] = [];
+
+    const city = await sm.sendPromptStreaming(1n, 'Largest city in France?', t => tokens.push(t), {
+      responseFormat: cityFormat
+    });
+
+    expect(city).toEqual({ name: 'Paris', population: 2100000 });
+    expect(sent).toHaveLength(2);
+    expect(sent[1].prompt).toContain('- $.population: is required');
+    expect(sent[1].prompt).toContain('Previous response:\n{"name": "Paris"}');
+    expect(tokens.join('')).toBe('{"name": "Paris"}{"name": "Paris", "population": 2100000}');
+  });
+
+  test('throws StructuredOutputError after maxRepairAttempts', async () => {
+    const { sm, sent } = setupSessionManager(['not json', '{"name": 1}']);
+
+    const error = await sm
+      .sendPromptStreaming(1n, 'Largest city?', noop, { responseFormat: cityFormat, maxRepairAttempts: 1 })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.attempts).toBe(2);
+    expect(error.response).toBe('{"name": 1}');
+    expect(error.validationErrors).toEqual(['$.population: is required', '$.name: expected string, got integer']);
+    expect(sent).toHaveLength(2);
+  });
+
+  test('probes the host once per session', async () => {
+    const fetchMock = mockHostFeatures([]);
+    const { sm } = setupSessionManager(['{}', '{}']);
+
+    await sm.sendPromptStreaming(1n, 'a', noop, { responseFormat: { type: 'json_object' } });
+    await sm.sendPromptStreaming(1n, 'b', noop, { responseFormat: { type: 'json_object' } });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  test('requires toolHandlers when combined with tools', async () => {
+    const { sm, sent } = setupSessionManager([]);
+
+    await expect(sm.sendPromptStreaming(1n, 'Weather?', noop, {
+      responseFormat: cityFormat,
+      tools: [{ name: 'get_weather' }]
+    })).rejects.toMatchObject({ code: 'INVALID_PROMPT_OPTIONS' });
+    expect(sent).toHaveLength(0);
+  });
+
+  test('validates only the final answer of a tool loop', async () => {
+    const { sm, sent } = setupSessionManager([
+      '<tool_call>lookup<arg_key>city</arg_key><arg_value>Paris</arg_value></tool_call>',
+      '{"name": "Paris", "population": 2100000}'
+    ]);
+    const lookup = vi.fn().mockResolvedValue({ population: 2100000 });
+
+    const city = await sm.sendPromptStreaming(1n, 'Population of Paris?', noop, {
+      responseFormat: cityFormat,
+      tools: [{ name: 'lookup', parameters: { type: 'object', properties: { city: { type: 'string' } } } }],
+      toolHandlers: { lookup }
+    });
+
+    expect(city).toEqual({ name: 'Paris', population: 2100000 });
+    expect(lookup).toHaveBeenCalledWith({ city: 'Paris' }, expect.objectContaining({ name: 'lookup' }));
+    expect(sent).toHaveLength(2);
+  });
+});
@@ -0,0 +1,263 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * SessionManager Tool Calling Tests
+ *
+ * Tests PromptOptions.tools on sendPromptStreaming: tool instructions in the
+ * prompt, streamed onToolCall events, submitToolResults continuation and the
+ * automatic tool loop.
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { SessionManager, SessionState } from '../../src/managers/SessionManager';
+import { WebSocketClient } from '../../src/websocket/WebSocketClient';
+import { ToolCallParser } from '../../src/tools/tool-call-parser';
+import type { ToolCall, ToolDefinition } from '../../src/types';
+import 'fake-indexeddb/auto';
+
+vi.mock('../../src/websocket/WebSocketClient', () => ({
+  WebSocketClient: vi.fn().mockImplementation(() => ({
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    sendMessage: vi.fn().mockResolvedValue('mock response'),
+    sendWithoutResponse: vi.fn().mockResolvedValue(undefined),
+    onMessage: vi.fn().mockReturnValue(() => {}),
+    isConnected: vi.fn().mockReturnValue(true)
+  }))
+}));
+
+const weatherTool: ToolDefinition = {
+  name: 'get_weather',
+  description: 'Current weather for a city',
+  parameters: {
+    type: 'object',
+    properties: { city: { type: 'string' }, days: { type: 'number' } },
+    required: ['city']
+  }
+};
+
+const weatherCall =
+  '<tool_call>get_weather<arg_key>city</arg_key><arg_value>Paris</arg_value>' +
+  '<arg_key>days</arg_key><arg_value>2</arg_value></tool_call>';
+
+/**
+ * Encrypted-session SessionManager whose host streams scripted replies
+ * (in 5-character chunks, so tags are split across tokens)
+ */
+function setupSessionManager(replies: string[]) {
+  const paymentManager = { signer: ethers.Wallet.createRandom() } as any;
+  const storageManager = {
+    appendMessage: vi.fn().mockResolvedValue(undefined),
+    loadConversation: vi.fn().mockResolvedValue(null)
+  } as any;
+  const sm = new SessionManager(paymentManager, storageManager, {} as any);
+  (sm as any).initialized = true;
+
+  const session: SessionState = {
+    sessionId: 1n,
+    jobId: 1n,
+    chainId: 84532,
+    model: 'test-model',
+    provider: '0x1234567890abcdef1234567890abcdef12345678',
+    endpoint: 'http://localhost:8080',
+    status: 'active',
+    prompts: [],
+    responses: [],
+    checkpoints: [],
+    totalTokens: 0,
+    startTime: Date.now(),
+    encryption: true
+  };
+  (sm as any).sessions.set('1', session);
+
+  const ws = new WebSocketClient('ws://localhost:8080', { chainId: 84532 });
+  (sm as any).wsClient = ws;
+  (sm as any).wsSessionId = '1';
+  (sm as any).sessionKey = crypto.getRandomValues(new Uint8Array(32));
+
+  let handler: (data: any) => Promise<void> = async () => {};
+  ws.onMessage = vi.fn().mockImplementation((h: any) => {
+    handler = h;
+    return () => {};
+  });
+
+  // "Decrypt" chunks by reading their plaintext payload
+  (sm as any).decryptIncomingMessage = vi.fn(async (data: any) => data.payload.text);
+  const sentPrompts: string[] = [];
+  (sm as any).sendEncryptedMessage = vi.fn(async (prompt: string) => {
+    sentPrompts.push(prompt);
+    const reply = replies.shift() ?? '';
+    for (let i = 0; i < reply.length; i += 5) {
+      await handler({ type: 'encrypted_chunk', payload: { text: reply.slice(i, i + 5) } });
+    }
+    await handler({ type: 'stream_end' });
+  });
+
+  (sm as any).sendEncryptedInit = vi.fn().mockResolvedValue(undefined);
+  (sm as any)._setupRAGMessageHandlers = vi.fn();
+  (sm as any)._setupWebSearchMessageHandlers = vi.fn();
+
+  return { sm, session, sentPrompts };
+}
+
+describe('ToolCallParser', () => {
+  test('parses tool calls split across tokens and passes text through', () => {
+    const parser = new ToolCallParser();
+    const events = [...`Checking. ${weatherCall} Done`].flatMap(ch => parser.feed(ch)).concat(parser.flush());
+
+    expect(events.filter(e => e.type === 'tool_call')).toEqual([
+      { type: 'tool_call', name: 'get_weather', arguments: { city: 'Paris', days: 2 } }
+    ]);
+    expect(events.filter(e => e.type === 'text').map(e => (e as any).text).join('')).toBe('Checking.  Done');
+  });
+
+  test('returns unterminated calls as text on flush', () => {
+    const parser = new ToolCallParser();
+    const events = parser.feed('<tool_call>get_weather<arg_key>city').concat(parser.flush());
+
+    expect(events).toEqual([{ type: 'text', text: '<tool_call>get_weather<arg_key>city' }]);
+  });
+});
+
+describe('sendPromptStreaming with tools', () => {
+  test('advertises tools and reports parsed tool calls', async () => {
+    const { sm, session, sentPrompts } = setupSessionManager([`Let me check.${weatherCall}`]);
+    const tokens: string[] = [];
+    const calls: ToolCall[] = [];
+
+    const response = await sm.sendPromptStreaming(1n, 'Weather in Paris?', t => tokens.push(t), {
+      tools: [weatherTool],
+      onToolCall: call => calls.push(call)
+    });
+
+    expect(sentPrompts[0]).toContain('- get_weather: Current weather for a city [city]');
+    expect(sentPrompts[0].endsWith('Weather in Paris?')).toBe(true);
+    expect(response).toBe('Let me check.');
+    expect(tokens.join('')).toBe('Let me check.');
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({ name: 'get_weather', arguments: { city: 'Paris', days: 2 } });
+    expect(calls[0].id).toMatch(/^call_[0-9a-f]{24}$/);
+    expect(session.pendingToolCalls).toEqual(calls);
+    expect(session.prompts).toEqual(['Weather in Paris?']);
+  });
+
+  test('submitToolResults continues the session with the same tools', async () => {
+    const { sm, session, sentPrompts } = setupSessionManager([weatherCall, 'It is sunny in Paris.']);
+    const calls: ToolCall[] = [];
+    await sm.sendPromptStreaming(1n, 'Weather?', undefined, { tools: [weatherTool], onToolCall: c => calls.push(c) });
+
+    const response = await sm.submitToolResults(1n, [{ toolCallId: calls[0].id, content: { temp: 21 } }]);
+
+    expect(response).toBe('It is sunny in Paris.');
+    expect(sentPrompts[1]).toContain('# Tools');
+    expect(sentPrompts[1]).toContain('<tool_response>\n{"name":"get_weather","content":"{\\"temp\\":21}"}\n</tool_response>');
+    expect(session.pendingToolCalls).toEqual([]);
+  });
+
+  test('submitToolResults rejects results without pending calls', async () => {
+    const { sm } = setupSessionManager(['No tools needed.']);
+    await sm.sendPromptStreaming(1n, 'Hi', undefined, { tools: [weatherTool] });
+
+    await expect(sm.submitToolResults(1n, [{ toolCallId: 'call_x', content: 'x' }]))
+      .rejects.toMatchObject({ code: 'NO_PENDING_TOOL_CALLS' });
+  });
+
+  test('submitToolResults rejects partial submissions with the missing call IDs', async () => {
+    const { sm, session, sentPrompts } = setupSessionManager([weatherCall + weatherCall]);
+    const calls: ToolCall[] = [];
+    await sm.sendPromptStreaming(1n, 'Weather?', undefined, { tools: [weatherTool], onToolCall: c => calls.push(c) });
+
+    await expect(sm.submitToolResults(1n, [{ toolCallId: calls[0].id, content: 'sunny' }])).rejects.toMatchObject({
+      code: 'INCOMPLETE_TOOL_RESULTS',
+      details: { missingToolCallIds: [calls[1].id] }
+    });
+    expect(session.pendingToolCalls).toEqual(calls);
+    expect(sentPrompts).toHaveLength(1);
+  });
+
+  test('submitToolResults keeps the calls pending when sending fails', async () => {
+    const { sm, session } = setupSessionManager([weatherCall, 'It is sunny in Paris.']);
+    const calls: ToolCall[] = [];
+    await sm.sendPromptStreaming(1n, 'Weather?', undefined, { tools: [weatherTool], onToolCall: c => calls.push(c) });
+    (sm as any).sendEncryptedMessage.mockRejectedValueOnce(new Error('connection lost'));
+    const results = [{ toolCallId: calls[0].id, content: 'sunny' }];
+
+    await expect(sm.submitToolResults(1n, results)).rejects.toThrow('connection lost');
+    expect(session.pendingToolCalls).toEqual(calls);
+
+    await expect(sm.submitToolResults(1n, results)).resolves.toBe('It is sunny in Paris.');
+    expect(session.pendingToolCalls).toEqual([]);
+  });
+
+  test('runs handlers automatically until the model answers', async () => {
+    const { sm, sentPrompts } = setupSessionManager([weatherCall, 'Sunny, 21°C.']);
+    const getWeather = vi.fn(async ({ city }: Record<string, any>) => `${city}: sunny, 21°C`);
+
+    const response = await sm.sendPromptStreaming(1n, 'Weather?', undefined, {
+      tools: [weatherTool],
+      toolHandlers: { get_weather: getWeather }
+    });
+
+    expect(response).toBe('Sunny, 21°C.');
+    expect(getWeather).toHaveBeenCalledWith({ city: 'Paris', days: 2 }, expect.objectContaining({ name: 'get_weather' }));
+    expect(sentPrompts[1]).toContain('"content":"Paris: sunny, 21°C"');
+  });
+
+  test('reports handler failures to the model as errors', async () => {
+    const { sm, sentPrompts } = setupSessionManager([weatherCall, 'Sorry.']);
+
+    await sm.sendPromptStreaming(1n, 'Weather?', undefined, {
+      tools: [weatherTool],
+      toolHandlers: { get_weather: () => { throw new Error('service down'); } }
+    });
+
+    expect(sentPrompts[1]).toContain('{"name":"get_weather","error":"service down"}');
+  });
+
+  test('uses the tool dialect of the session model', async () => {
+    const { sm, session, sentPrompts } = setupSessionManager([
+      '[TOOL_CALLS][{"name": "get_weather", "arguments": {"city": "Paris"}}]',
+      'Sunny.'
+    ]);
+    session.model = 'mistralai/Mistral-Small-3.1-24B-Instruct-2503';
+
+    const response = await sm.sendPromptStreaming(1n, 'Weather?', undefined, {
+      tools: [weatherTool],
+      toolHandlers: { get_weather: () => 'sunny' }
+    });
+
+    expect(response).toBe('Sunny.');
+    expect(sentPrompts[0]).toContain('[AVAILABLE_TOOLS]');
+    expect(sentPrompts[1].endsWith('[TOOL_RESULTS]{"name":"get_weather","content":"sunny"}[/TOOL_RESULTS]')).toBe(true);
+  });
+
+  test('prefers options.toolDialect over the session model', async () => {
+    const { sm, session, sentPrompts } = setupSessionManager([
+      '<tool_call>{"name": "get_weather", "arguments": {"city": "Paris"}}</tool_call>'
+    ]);
+    session.model = 'mistralai/Mistral-Small-3.1-24B-Instruct-2503';
+    const calls: ToolCall[] = [];
+
+    await sm.sendPromptStreaming(1n, 'Weather?', undefined, {
+      tools: [weatherTool],
+      toolDialect: 'hermes',
+      onToolCall: call => calls.push(call)
+    });
+
+    expect(sentPrompts[0]).toContain('<tools>');
+    expect(calls[0]).toMatchObject({ name: 'get_weather', arguments: { city: 'Paris' } });
+    expect(session.toolDialect).toBe('hermes');
+  });
+
+  test('stops the tool loop after maxToolIterations', async () => {
+    const { sm } = setupSessionManager([weatherCall, weatherCall, weatherCall]);
+
+    await expect(sm.sendPromptStreaming(1n, 'Weather?', undefined, {
+      tools: [weatherTool],
+      toolHandlers: { get_weather: () => 'sunny' },
+      maxToolIterations: 2
+    })).rejects.toMatchObject({ code: 'TOOL_ITERATIONS_EXCEEDED' });
+  });
+});
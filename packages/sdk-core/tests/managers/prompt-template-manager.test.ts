@@ -0,0 +1,204 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * PromptTemplateManager Tests
+ *
+ * Tests the prompt template library: versioned updates, rendering with
+ * library partials, S5 persistence, sharing through PermissionManager, and
+ * that prompts sent with a template reference record it in the stored
+ * conversation.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PromptTemplateManager } from '../../src/managers/PromptTemplateManager';
+import { PermissionManager } from '../../src/managers/PermissionManager';
+import { PromptTemplateStorage } from '../../src/storage/PromptTemplateStorage';
+import { StorageManager } from '../../src/managers/StorageManager';
+import { SessionManager } from '../../src/managers/SessionManager';
+import { PermissionLevel } from '../../src/types/permissions.types';
+import type { CreatePromptTemplateInput } from '../../src/types/prompt-templates.types';
+
+describe('PromptTemplateManager', () => {
+  const owner = '0x742d35Cc6634C0532925a3b844Bc454e4438f44e';
+  const colleague = '0x1234567890123456789012345678901234567890';
+
+  let manager: PromptTemplateManager;
+  let permissions: PermissionManager;
+
+  const summarize: CreatePromptTemplateInput = {
+    name: 'summarize',
+    owner,
+    system: 'You are a concise assistant.',
+    body: 'Summarize in {{sentences}} sentences:\n{{text}}',
+    variables: [
+      { name: 'text', type: 'string' },
+      { name: 'sentences', type: 'number', default: 2 }
+    ]
+  };
+
+  beforeEach(() => {
+    permissions = new PermissionManager();
+    manager = new PromptTemplateManager(undefined, permissions);
+  });
+
+  describe('versions', () => {
+    it('creates version 1 and rejects invalid templates', async () => {
+      const template = await manager.createTemplate(summarize);
+
+      expect(template.id).toMatch(/^tpl-/);
+      expect(template.versions.map(v => v.version)).toEqual([1]);
+      await expect(manager.createTemplate({ ...summarize, body: 'Hi {{name}}' }))
+        .rejects.toMatchObject({ code: 'INVALID_TEMPLATE', details: { errors: ['{{name}} is not a declared variable'] } });
+    });
+
+    it('adds immutable versions and renders any of them', async () => {
+      const template = await manager.createTemplate(summarize);
+      const updated = await manager.updateTemplate(template.id, owner, {
+        body: 'Summarize as {{sentences}} bullet points:\n{{text}}',
+        changelog: 'bullets'
+      });
+
+      expect(updated.versions.map(v => v.version)).toEqual([1, 2]);
+      expect(updated.versions[1].system).toBe(summarize.system);
+      expect(updated.versions[1].changelog).toBe('bullets');
+
+      const latest = await manager.render(template.id, owner, { text: 'Long text' });
+      const first = await manager.render(template.id, owner, { text: 'Long text' }, { version: 1 });
+      expect(latest.prompt).toBe('You are a concise assistant.\n\nSummarize as 2 bullet points:\nLong text');
+      expect(latest.template).toEqual({ templateId: template.id, version: 2, values: { text: 'Long text' } });
+      expect(first.prompt).toContain('Summarize in 2 sentences');
+      await expect(manager.render(template.id, owner, { text: 'x' }, { version: 7 }))
+        .rejects.toMatchObject({ code: 'TEMPLATE_NOT_FOUND' });
+    });
+
+    it('resolves partials from the owner\'s other templates', async () => {
+      await manager.createTemplate({ name: 'tone', owner, body: 'Use a friendly tone.' });
+      const template = await manager.createTemplate({
+        name: 'reply',
+        owner,
+        body: '{{> tone}} Reply to: {{message}}',
+        variables: [{ name: 'message', type: 'string' }]
+      });
+
+      const { prompt } = await manager.render(template.id, owner, { message: 'Hello' });
+
+      expect(prompt).toBe('Use a friendly tone. Reply to: Hello');
+    });
+  });
+
+  describe('sharing', () => {
+    it('lets readers render but not update, and writers add versions', async () => {
+      const template = await manager.createTemplate(summarize);
+      await expect(manager.getTemplate(template.id, colleague)).rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+
+      await manager.shareTemplate(template.id, owner, colleague, PermissionLevel.READER);
+      await expect(manager.render(template.id, colleague, { text: 'x' })).resolves.toBeDefined();
+      await expect(manager.updateTemplate(template.id, colleague, { body: '{{text}}' }))
+        .rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+      await expect(manager.shareTemplate(template.id, colleague, '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd', PermissionLevel.READER))
+        .rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+
+      await manager.shareTemplate(template.id, owner, colleague, PermissionLevel.WRITER);
+      const updated = await manager.updateTemplate(template.id, colleague, { body: '{{text}}' });
+      expect(updated.versions).toHaveLength(2);
+      await expect(manager.deleteTemplate(template.id, colleague)).rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+    });
+
+    it('revokes access with unshareTemplate', async () => {
+      const template = await manager.createTemplate(summarize);
+      await manager.shareTemplate(template.id, owner, colleague, PermissionLevel.READER);
+
+      await manager.unshareTemplate(template.id, owner, colleague);
+
+      await expect(manager.getTemplate(template.id, colleague)).rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+      expect(await permissions.listPermissions(template.id, owner)).toEqual([]);
+    });
+  });
+
+  describe('S5 storage', () => {
+    it('saves every version and loads templates in a new manager', async () => {
+      const files = new Map<string, any>();
+      const storageManager = {
+        putWithRetry: vi.fn(async (path: string, data: any) => { files.set(path, structuredClone(data)); }),
+        getWithRetry: vi.fn(async (path: string) => files.get(path)),
+        deleteWithRetry: vi.fn(async (path: string) => files.delete(path)),
+        getS5Client: () => ({
+          fs: {
+            list: async function* (dir: string) {
+              for (const path of files.keys()) {
+                if (path.startsWith(`${dir}/`)) yield { type: 'file', name: path.slice(dir.length + 1) };
+              }
+            }
+          }
+        })
+      };
+      const storage = new PromptTemplateStorage(storageManager as any, owner);
+      const template = await new PromptTemplateManager(storage).createTemplate(summarize);
+      await new PromptTemplateManager(storage).updateTemplate(template.id, owner, { changelog: 'same text' });
+
+      expect(storageManager.putWithRetry).toHaveBeenLastCalledWith(
+        `home/prompt-templates/${owner}/${template.id}.json`,
+        expect.objectContaining({ versions: [expect.objectContaining({ version: 1 }), expect.objectContaining({ version: 2 })] })
+      );
+      const reloaded = new PromptTemplateManager(storage);
+      expect((await reloaded.listTemplates(owner)).map(t => t.name)).toEqual(['summarize']);
+
+      await reloaded.deleteTemplate(template.id, owner);
+      await expect(new PromptTemplateManager(storage).getTemplate(template.id, owner))
+        .rejects.toMatchObject({ code: 'TEMPLATE_NOT_FOUND' });
+    });
+  });
+
+  describe('conversation metadata', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('records the template on the prompt message when sent with sendPrompt', async () => {
+      const storageManager = { appendMessage: vi.fn().mockResolvedValue(undefined) };
+      const sessionManager = new SessionManager({} as any, storageManager as any);
+      (sessionManager as any).initialized = true;
+      (sessionManager as any).injectRAGContext = vi.fn(async (_id: string, p: string) => p);
+      (sessionManager as any).sessions.set('42', {
+        sessionId: BigInt(42),
+        jobId: BigInt(100),
+        chainId: 84532,
+        model: 'test-model',
+        endpoint: 'http://localhost:8080',
+        provider: 'test-host',
+        status: 'active' as const,
+        prompts: [] as string[],
+        responses: [] as string[],
+        checkpoints: [],
+        totalTokens: 0,
+        startTime: Date.now()
+      });
+      vi.stubGlobal('fetch', vi.fn(async () => ({ ok: true, json: async () => ({ response: 'Short.' }) }) as any));
+
+      const template = await manager.createTemplate(summarize);
+      const rendered = await manager.render(template.id, owner, { text: 'Long text' });
+      await sessionManager.sendPrompt(BigInt(42), rendered.prompt, { template: rendered.template });
+
+      const [[, user], [, assistant]] = storageManager.appendMessage.mock.calls;
+      expect(user.content).toBe(rendered.prompt);
+      expect(user.metadata.template).toEqual(rendered.template);
+      expect(assistant.metadata).toBeUndefined();
+    });
+
+    it('lists each template version used in the stored conversation metadata', async () => {
+      const storageManager = new StorageManager();
+      let stored: any = null;
+      (storageManager as any).initialized = true;
+      (storageManager as any).loadConversation = vi.fn(async () => stored);
+      (storageManager as any)._saveConversationInternal = vi.fn(async (conversation: any) => { stored = conversation; });
+      const ref = { templateId: 'tpl-1', version: 2, values: { text: 'a' } };
+
+      await storageManager.appendMessage('c1', { role: 'user', content: 'a', timestamp: 1, metadata: { template: ref } });
+      await storageManager.appendMessage('c1', { role: 'assistant', content: 'b', timestamp: 2 });
+      await storageManager.appendMessage('c1', { role: 'user', content: 'c', timestamp: 3, metadata: { template: { ...ref, values: { text: 'c' } } } });
+
+      expect(stored.metadata.promptTemplates).toEqual([{ templateId: 'tpl-1', version: 2 }]);
+    });
+  });
+});
@@ -667,6 +667,50 @@ describe('SessionGroupManager', () => {
     });
   });
 
+  describe('addMessage() branching', () => {
+    let groupId: string;
+    let sessionId: string;
+
+    beforeEach(async () => {
+      const group = await manager.createSessionGroup({ name: 'Chat', description: 'Branches', owner: testOwner });
+      groupId = group.id;
+      sessionId = (await manager.startChatSession(groupId)).sessionId;
+    });
+
+    const add = (role: 'user' | 'assistant', content: string) =>
+      manager.addMessage(groupId, sessionId, { role, content, timestamp: Date.now() });
+
+    it('should chain messages on the active branch', async () => {
+      await add('user', 'q1');
+      await add('assistant', 'a1');
+
+      const session = await manager.getChatSession(groupId, sessionId);
+      const [q1, a1] = session!.messages;
+      expect(q1.parentId).toBeNull();
+      expect(a1.parentId).toBe(q1.id);
+      expect(session!.metadata.activeMessageId).toBe(a1.id);
+    });
+
+    it('should branch from the message set with setActiveMessage()', async () => {
+      await add('user', 'q1');
+      await add('assistant', 'a1');
+      await add('user', 'q2');
+      const session = await manager.getChatSession(groupId, sessionId);
+      const a1 = session!.messages[1];
+
+      await manager.setActiveMessage(groupId, sessionId, a1.id!);
+      await add('user', 'q2 edited');
+
+      const active = await manager.getActiveMessages(groupId, sessionId);
+      expect(active.map(m => m.content)).toEqual(['q1', 'a1', 'q2 edited']);
+      expect(session!.messages).toHaveLength(4);
+    });
+
+    it('should reject an unknown message', async () => {
+      await expect(manager.setActiveMessage(groupId, sessionId, 'msg_missing')).rejects.toThrow('not found');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should reject invalid group IDs', async () => {
       await expect(
@@ -82,14 +82,8 @@ function packagesImportedBySrc(dir: string, acc = new Set<string>()): Set<string
  * this tripwire stays GREEN and therefore keeps catching NEW rot. A permanently-red check is
  * one everybody learns to ignore — which is how the s5js rot survived in the first place.
  * Do not add to this list to silence a new failure. Fix the mock.
- *
- * - 'mammoth': tests/documents/extraction.test.ts mocks it, but src/documents/extractors.ts
- *   only mentions mammoth in a COMMENT — DOCX extraction was never implemented and throws
- *   'DOCX processing is not supported in this environment'. Those DOCX tests already fail
- *   honestly (they are not passing vacuously). Remove the mock when DOCX is implemented or
- *   the tests are dropped.
  */
-const KNOWN_PHANTOM_MOCKS = new Set(['mammoth']);
+const KNOWN_PHANTOM_MOCKS = new Set<string>();
 
 describe('vi.mock() specifiers must name modules src actually imports', () => {
   const importedBySrc = packagesImportedBySrc(join(PKG_ROOT, 'src'));
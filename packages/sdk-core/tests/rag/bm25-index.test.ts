@@ -0,0 +1,114 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * BM25 Index and Rank Fusion Tests
+ *
+ * Covers identifier-aware tokenization, BM25 ranking, incremental
+ * add/remove, serialization round-trips and weighted reciprocal-rank fusion.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BM25Index, tokenize } from '../../src/rag/bm25-index';
+import { reciprocalRankFusion } from '../../src/rag/rank-fusion';
+
+const chunks: Record<string, string> = {
+  a: 'Ticket JIRA-4821 tracks the login timeout regression.',
+  b: 'Call getUserById before updating the profile record.',
+  c: 'The login page shows a timeout banner after thirty seconds of inactivity on the login form.',
+  d: 'SKU 88-1042-X ships in blue and grey.',
+  e: 'Quarterly revenue grew across every region.'
+};
+
+function makeIndex(): BM25Index {
+  const index = new BM25Index();
+  for (const [id, text] of Object.entries(chunks)) index.add(id, text);
+  return index;
+}
+
+describe('tokenize', () => {
+  it('keeps compound identifiers whole and adds their parts', () => {
+    expect(tokenize('JIRA-4821 v2.1.0')).toEqual(['jira-4821', 'jira', '4821', 'v2.1.0', 'v2', '1', '0']);
+  });
+
+  it('splits camelCase identifiers into words', () => {
+    expect(tokenize('getUserById')).toEqual(['getuserbyid', 'get', 'user', 'by', 'id']);
+  });
+
+  it('lowercases and drops punctuation', () => {
+    expect(tokenize('Hello, World!')).toEqual(['hello', 'world']);
+  });
+});
+
+describe('BM25Index', () => {
+  it('ranks the chunk containing an exact identifier first', () => {
+    const index = makeIndex();
+
+    expect(index.search('what is the status of JIRA-4821?', 3)[0].id).toBe('a');
+    expect(index.search('getUserById', 3)[0].id).toBe('b');
+    expect(index.search('88-1042-X', 3)[0].id).toBe('d');
+  });
+
+  it('matches identifier parts', () => {
+    const index = makeIndex();
+    expect(index.search('ticket 4821', 1)[0].id).toBe('a');
+  });
+
+  it('only returns documents sharing a term with the query', () => {
+    const hits = makeIndex().search('login timeout', 10);
+
+    expect(hits.map(h => h.id).sort()).toEqual(['a', 'c']);
+    expect(hits.every(h => h.score > 0)).toBe(true);
+  });
+
+  it('excludes documents rejected by the accept predicate', () => {
+    const hits = makeIndex().search('login timeout', 10, id => id !== 'a');
+    expect(hits.map(h => h.id)).toEqual(['c']);
+  });
+
+  it('replaces text on re-add and forgets removed documents', () => {
+    const index = makeIndex();
+
+    index.add('e', 'Revenue for JIRA-4821 is not tracked');
+    expect(index.size).toBe(5);
+    expect(index.search('quarterly', 5)).toEqual([]);
+
+    expect(index.remove('a')).toBe(true);
+    expect(index.remove('a')).toBe(false);
+    expect(index.search('JIRA-4821', 5).map(h => h.id)).toEqual(['e']);
+  });
+
+  it('round-trips through toJSON/fromJSON with identical scores', () => {
+    const index = makeIndex();
+    index.remove('d');
+
+    const restored = BM25Index.fromJSON(JSON.parse(JSON.stringify(index.toJSON())));
+
+    expect(restored.size).toBe(4);
+    expect(restored.search('login timeout JIRA-4821', 5)).toEqual(index.search('login timeout JIRA-4821', 5));
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() => BM25Index.fromJSON({ version: 2 } as any)).toThrow('Unsupported BM25 index format');
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('rewards IDs ranked well by several lists', () => {
+    const fused = reciprocalRankFusion([
+      { ids: ['x', 'y', 'z'] },
+      { ids: ['y', 'w'] }
+    ]);
+
+    expect(fused[0].id).toBe('y');
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61, 10);
+    expect(fused.map(f => f.id)).toEqual(['y', 'x', 'w', 'z']);
+  });
+
+  it('applies list weights and skips zero-weight lists', () => {
+    const lists = [{ ids: ['x'], weight: 1 }, { ids: ['y'], weight: 3 }];
+
+    expect(reciprocalRankFusion(lists)[0].id).toBe('y');
+    expect(reciprocalRankFusion([lists[0], { ...lists[1], weight: 0 }]).map(f => f.id)).toEqual(['x']);
+  });
+});
@@ -0,0 +1,209 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * HNSW Index Tests
+ *
+ * Recall suite comparing approximate search against an exact brute-force
+ * cosine scan, plus incremental add/remove and serialization round-trips.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import { HNSWIndex } from '../../src/rag/hnsw-index';
+
+// Deterministic PRNG so recall numbers are stable between runs
+function makeRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Clustered data is closer to real embeddings than uniform noise
+function makeDataset(count: number, dims: number, seed: number) {
+  const random = makeRandom(seed);
+  const centroids = Array.from({ length: 20 }, () => Array.from({ length: dims }, () => random() * 2 - 1));
+  return Array.from({ length: count }, (_, i) => {
+    const centroid = centroids[i % centroids.length];
+    return {
+      id: `vec-${i}`,
+      vector: centroid.map(v => v + (random() * 2 - 1) * 0.4)
+    };
+  });
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function exactTopK(data: Array<{ id: string; vector: number[] }>, query: number[], k: number): string[] {
+  return data
+    .map(d => ({ id: d.id, score: cosine(d.vector, query) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(d => d.id);
+}
+
+function recallAtK(index: HNSWIndex, data: Array<{ id: string; vector: number[] }>, queries: number[][], k: number): number {
+  let found = 0;
+  for (const query of queries) {
+    const expected = new Set(exactTopK(data, query, k));
+    for (const hit of index.search(query, k)) {
+      if (expected.has(hit.id)) found++;
+    }
+  }
+  return found / (queries.length * k);
+}
+
+describe('HNSWIndex', () => {
+  const dims = 32;
+  const data = makeDataset(2000, dims, 1);
+  const queries = makeDataset(50, dims, 2).map(d => d.vector);
+
+  describe('Recall vs exact search', () => {
+    // Read-only tests share one default-parameter build
+    let index: HNSWIndex;
+
+    beforeAll(() => {
+      index = new HNSWIndex();
+      for (const d of data) index.add(d.id, d.vector);
+    });
+
+    it('achieves >= 0.9 recall@10 with default parameters', () => {
+      expect(index.size).toBe(data.length);
+      expect(recallAtK(index, data, queries, 10)).toBeGreaterThanOrEqual(0.9);
+    });
+
+    it('improves recall as efSearch grows', () => {
+      const sparse = new HNSWIndex({ m: 8, efConstruction: 40 });
+      for (const d of data) sparse.add(d.id, d.vector);
+
+      sparse.efSearch = 10;
+      const low = recallAtK(sparse, data, queries, 10);
+      sparse.efSearch = 200;
+      const high = recallAtK(sparse, data, queries, 10);
+
+      expect(high).toBeGreaterThanOrEqual(low);
+      expect(high).toBeGreaterThanOrEqual(0.9);
+    });
+
+    it('returns cosine similarity scores matching the exact computation', () => {
+      const byId = new Map(data.map(d => [d.id, d.vector]));
+      for (const hit of index.search(queries[0], 5)) {
+        expect(hit.score).toBeCloseTo(cosine(byId.get(hit.id)!, queries[0]), 5);
+      }
+    });
+
+    it('finds an exact duplicate of the query first', () => {
+      const [top] = index.search(data[123].vector, 1);
+      expect(top.id).toBe('vec-123');
+      expect(top.score).toBeCloseTo(1, 5);
+    });
+  });
+
+  describe('Incremental updates', () => {
+    it('keeps recall after removing a third of the vectors', () => {
+      const index = new HNSWIndex();
+      for (const d of data) index.add(d.id, d.vector);
+
+      const removed = new Set(data.filter((_, i) => i % 3 === 0).map(d => d.id));
+      for (const id of removed) expect(index.remove(id)).toBe(true);
+      const remaining = data.filter(d => !removed.has(d.id));
+
+      expect(index.size).toBe(remaining.length);
+      for (const query of queries) {
+        for (const hit of index.search(query, 10)) {
+          expect(removed.has(hit.id)).toBe(false);
+        }
+      }
+      expect(recallAtK(index, remaining, queries, 10)).toBeGreaterThanOrEqual(0.9);
+    });
+
+    it('replaces the vector when an existing ID is re-added', () => {
+      const index = new HNSWIndex();
+      for (const d of data.slice(0, 200)) index.add(d.id, d.vector);
+
+      index.add('vec-5', data[1500].vector);
+
+      expect(index.size).toBe(200);
+      expect(index.search(data[1500].vector, 1)[0].id).toBe('vec-5');
+    });
+
+    it('returns false when removing an unknown ID', () => {
+      const index = new HNSWIndex();
+      expect(index.remove('missing')).toBe(false);
+    });
+
+    it('handles removing every vector including the entry point', () => {
+      const index = new HNSWIndex();
+      for (const d of data.slice(0, 50)) index.add(d.id, d.vector);
+      for (const d of data.slice(0, 50)) index.remove(d.id);
+
+      expect(index.size).toBe(0);
+      expect(index.search(queries[0], 5)).toEqual([]);
+
+      index.add('fresh', queries[0]);
+      expect(index.search(queries[0], 1)[0].id).toBe('fresh');
+    });
+
+    it('rejects vectors with mismatched dimensions', () => {
+      const index = new HNSWIndex();
+      index.add('a', [1, 0, 0]);
+      expect(() => index.add('b', [1, 0])).toThrow('Vector dimension mismatch');
+      expect(() => index.search([1, 0], 1)).toThrow('Vector dimension mismatch');
+    });
+  });
+
+  describe('Serialization', () => {
+    it('round-trips through toJSON/fromJSON with identical results', () => {
+      const index = new HNSWIndex();
+      for (const d of data.slice(0, 500)) index.add(d.id, d.vector);
+      index.remove('vec-10');
+
+      const byId = new Map(data.map(d => [d.id, d.vector]));
+      const restored = HNSWIndex.fromJSON(
+        JSON.parse(JSON.stringify(index.toJSON())),
+        id => byId.get(id)
+      );
+
+      expect(restored.size).toBe(499);
+      for (const query of queries.slice(0, 10)) {
+        expect(restored.search(query, 10)).toEqual(index.search(query, 10));
+      }
+    });
+
+    it('continues incremental inserts after restore', () => {
+      const index = new HNSWIndex();
+      for (const d of data.slice(0, 300)) index.add(d.id, d.vector);
+
+      const byId = new Map(data.map(d => [d.id, d.vector]));
+      const restored = HNSWIndex.fromJSON(index.toJSON(), id => byId.get(id));
+      for (const d of data.slice(300, 600)) restored.add(d.id, d.vector);
+
+      expect(restored.size).toBe(600);
+      expect(recallAtK(restored, data.slice(0, 600), queries, 10)).toBeGreaterThanOrEqual(0.9);
+    });
+
+    it('throws when a referenced vector cannot be resolved', () => {
+      const index = new HNSWIndex();
+      index.add('a', [1, 0]);
+      expect(() => HNSWIndex.fromJSON(index.toJSON(), () => undefined)).toThrow('missing vector');
+    });
+
+    it('rejects unknown formats', () => {
+      expect(() => HNSWIndex.fromJSON({ version: 2 } as any, () => undefined)).toThrow('Unsupported HNSW index format');
+    });
+  });
+});
@@ -0,0 +1,129 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Metadata Filter Tests
+ *
+ * Covers the MetadataFilter language: equality, set and range operators
+ * (including date comparisons), prefix / existence checks, logical
+ * combinators, dotted paths, validation and folder scoping.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  matchesMetadataFilter,
+  validateMetadataFilter,
+  folderScopeFilter,
+  combineMetadataFilters
+} from '../../src/rag/metadata-filter';
+
+const doc = {
+  documentId: 'doc-1',
+  folderPath: '/contracts/2025',
+  tags: ['legal', 'signed'],
+  pages: 12,
+  createdAt: '2025-03-15T10:00:00Z',
+  author: { name: 'Sam', team: 'legal' }
+};
+
+describe('matchesMetadataFilter', () => {
+  it('matches plain equality and treats an empty filter as match-all', () => {
+    expect(matchesMetadataFilter(doc, { documentId: 'doc-1' })).toBe(true);
+    expect(matchesMetadataFilter(doc, { documentId: 'doc-2' })).toBe(false);
+    expect(matchesMetadataFilter(doc, {})).toBe(true);
+    expect(matchesMetadataFilter(undefined, {})).toBe(true);
+  });
+
+  it('matches array fields when any element equals the value', () => {
+    expect(matchesMetadataFilter(doc, { tags: 'legal' })).toBe(true);
+    expect(matchesMetadataFilter(doc, { tags: 'draft' })).toBe(false);
+  });
+
+  it('supports $eq, $ne, $in and $nin', () => {
+    expect(matchesMetadataFilter(doc, { pages: { $eq: 12 } })).toBe(true);
+    expect(matchesMetadataFilter(doc, { pages: { $ne: 12 } })).toBe(false);
+    expect(matchesMetadataFilter(doc, { documentId: { $in: ['doc-1', 'doc-3'] } })).toBe(true);
+    expect(matchesMetadataFilter(doc, { documentId: { $nin: ['doc-1'] } })).toBe(false);
+    expect(matchesMetadataFilter(doc, { tags: { $in: ['draft', 'signed'] } })).toBe(true);
+  });
+
+  it('compares numbers with range operators', () => {
+    expect(matchesMetadataFilter(doc, { pages: { $gt: 10, $lte: 12 } })).toBe(true);
+    expect(matchesMetadataFilter(doc, { pages: { $lt: 12 } })).toBe(false);
+    expect(matchesMetadataFilter(doc, { pages: { $gte: '10' } })).toBe(false);
+  });
+
+  it('compares ISO date strings and Date objects chronologically', () => {
+    expect(matchesMetadataFilter(doc, { createdAt: { $gte: '2025-01-01' } })).toBe(true);
+    expect(matchesMetadataFilter(doc, { createdAt: { $lt: new Date('2025-03-01') } })).toBe(false);
+    expect(matchesMetadataFilter({ createdAt: 1741996800000 }, { createdAt: { $gt: new Date('2025-01-01') } })).toBe(true);
+  });
+
+  it('supports $prefix and $exists', () => {
+    expect(matchesMetadataFilter(doc, { folderPath: { $prefix: '/contracts/' } })).toBe(true);
+    expect(matchesMetadataFilter(doc, { pages: { $prefix: '1' } })).toBe(false);
+    expect(matchesMetadataFilter(doc, { summary: { $exists: false } })).toBe(true);
+    expect(matchesMetadataFilter(doc, { pages: { $exists: false } })).toBe(false);
+  });
+
+  it('resolves dotted paths into nested objects', () => {
+    expect(matchesMetadataFilter(doc, { 'author.team': 'legal' })).toBe(true);
+    expect(matchesMetadataFilter(doc, { 'author.name': { $in: ['Alex'] } })).toBe(false);
+    expect(matchesMetadataFilter(doc, { 'missing.field': { $exists: false } })).toBe(true);
+  });
+
+  it('combines clauses with $and, $or and $not', () => {
+    expect(matchesMetadataFilter(doc, {
+      $and: [{ tags: 'legal' }, { pages: { $gt: 5 } }]
+    })).toBe(true);
+    expect(matchesMetadataFilter(doc, {
+      $or: [{ documentId: 'doc-9' }, { 'author.name': 'Sam' }]
+    })).toBe(true);
+    expect(matchesMetadataFilter(doc, { $not: { tags: 'signed' } })).toBe(false);
+  });
+});
+
+describe('validateMetadataFilter', () => {
+  it('accepts well-formed filters', () => {
+    expect(() => validateMetadataFilter({
+      $or: [{ tags: { $in: ['a'] } }, { $not: { pages: { $gte: 3 } } }],
+      createdAt: { $lt: new Date() }
+    })).not.toThrow();
+  });
+
+  it('rejects unknown operators', () => {
+    expect(() => validateMetadataFilter({ pages: { $regex: 'x' } } as any)).toThrow('Unknown metadata filter operator: $regex');
+    expect(() => validateMetadataFilter({ $nor: [] } as any)).toThrow('Unknown metadata filter operator: $nor');
+  });
+
+  it('rejects operands of the wrong type', () => {
+    expect(() => validateMetadataFilter({ tags: { $in: 'legal' } } as any)).toThrow('$in requires an array (field: tags)');
+    expect(() => validateMetadataFilter({ folderPath: { $prefix: 1 } } as any)).toThrow('$prefix requires a string');
+    expect(() => validateMetadataFilter({ pages: { $exists: 'yes' } } as any)).toThrow('$exists requires a boolean');
+    expect(() => validateMetadataFilter({ $or: { pages: 1 } } as any)).toThrow('$or requires an array of filters');
+  });
+});
+
+describe('folderScopeFilter', () => {
+  it('matches the folder and its subfolders only', () => {
+    const scope = folderScopeFilter('/contracts');
+
+    expect(matchesMetadataFilter({ folderPath: '/contracts' }, scope)).toBe(true);
+    expect(matchesMetadataFilter({ folderPath: '/contracts/2025' }, scope)).toBe(true);
+    expect(matchesMetadataFilter({ folderPath: '/contracts-old' }, scope)).toBe(false);
+    expect(matchesMetadataFilter({}, scope)).toBe(false);
+  });
+
+  it('ignores a trailing slash and treats root as match-all', () => {
+    expect(folderScopeFilter('/contracts/')).toEqual(folderScopeFilter('/contracts'));
+    expect(folderScopeFilter('/')).toEqual({});
+  });
+});
+
+describe('combineMetadataFilters', () => {
+  it('drops empty filters and ANDs the rest', () => {
+    expect(combineMetadataFilters(undefined, {})).toBeUndefined();
+    expect(combineMetadataFilters({ a: 1 }, undefined)).toEqual({ a: 1 });
+    expect(combineMetadataFilters({ a: 1 }, { b: 2 })).toEqual({ $and: [{ a: 1 }, { b: 2 }] });
+  });
+});
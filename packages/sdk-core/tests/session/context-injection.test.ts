@@ -214,7 +214,8 @@ describe('Context Injection', () => {
         vectorDbSessionId,
         mockEmbedding,
         5,
-        { threshold: undefined, filter }
+        0.7,
+        filter
       );
     });
   });
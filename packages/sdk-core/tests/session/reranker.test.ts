@@ -0,0 +1,153 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Reranker Tests
+ * Covers the local lexical reranker, the host-LLM reranker and the
+ * reranking stage in ContextBuilder (ordering, fallback and metrics)
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LexicalReranker, HostLLMReranker } from '../../src/session/reranker.js';
+import type { Reranker } from '../../src/session/reranker.js';
+import { ContextBuilder } from '../../src/session/context-builder.js';
+import type { SearchResult } from '../../src/rag/types.js';
+
+function makeResult(id: string, text: string, score: number): SearchResult {
+  return { id, vector: [], metadata: { text, documentName: `${id}.md` }, score };
+}
+
+// Retrieval order puts the generic passages ahead of the one that answers the question
+const candidates = [
+  makeResult('generic', 'Our platform supports many integrations.', 0.91),
+  makeResult('pricing', 'Pricing tiers are billed monthly.', 0.88),
+  makeResult('answer', 'Webhook retries stop after five failed attempts.', 0.84)
+];
+
+describe('LexicalReranker', () => {
+  it('orders candidates by query term coverage', async () => {
+    const reranked = await new LexicalReranker().rerank('how many webhook retries?', candidates);
+
+    expect(reranked.map(r => r.id)).toEqual(['answer', 'generic', 'pricing']);
+    expect(reranked[0].rerankScore).toBe(0.5);
+    expect(reranked[0].score).toBe(0.84);
+  });
+
+  it('is deterministic and keeps topN', async () => {
+    const reranker = new LexicalReranker();
+    const first = await reranker.rerank('unrelated words', candidates, 2);
+    const second = await reranker.rerank('unrelated words', candidates, 2);
+
+    expect(first).toEqual(second);
+    expect(first.map(r => r.id)).toEqual(['generic', 'pricing']);
+  });
+});
+
+describe('HostLLMReranker', () => {
+  let sendSidePrompt: ReturnType<typeof vi.fn>;
+  let reranker: HostLLMReranker;
+
+  beforeEach(() => {
+    sendSidePrompt = vi.fn();
+    reranker = new HostLLMReranker({ sessionManager: { sendSidePrompt } as any, sessionId: 42n });
+  });
+
+  it('sends one ranking prompt to the session host outside the conversation', async () => {
+    sendSidePrompt.mockResolvedValue('3, 1, 2');
+
+    await reranker.rerank('webhook retries', candidates);
+
+    expect(sendSidePrompt).toHaveBeenCalledTimes(1);
+    const [sessionId, prompt, options] = sendSidePrompt.mock.calls[0];
+    expect(sessionId).toBe(42n);
+    expect(prompt).toContain('Query: webhook retries');
+    expect(prompt).toContain('[3] Webhook retries stop after five failed attempts.');
+    expect(options).toEqual({ temperature: 0, maxTokens: 64 });
+  });
+
+  it('orders by the reply and appends omitted passages in retrieval order', async () => {
+    sendSidePrompt.mockResolvedValue('Most relevant: 3, then 3 again and 9');
+
+    const reranked = await reranker.rerank('webhook retries', candidates);
+
+    expect(reranked.map(r => r.id)).toEqual(['answer', 'generic', 'pricing']);
+    expect(reranked[0].rerankScore).toBe(1);
+    expect(reranked[2].rerankScore).toBeCloseTo(1 / 3, 10);
+  });
+
+  it('throws when the reply has no passage numbers', async () => {
+    sendSidePrompt.mockResolvedValue('I cannot help with that.');
+    await expect(reranker.rerank('webhook retries', candidates)).rejects.toThrow('no passage numbers');
+  });
+
+  it('skips the host call for empty input', async () => {
+    expect(await reranker.rerank('anything', [])).toEqual([]);
+    expect(sendSidePrompt).not.toHaveBeenCalled();
+  });
+});
+
+describe('ContextBuilder reranking stage', () => {
+  let searchVectors: ReturnType<typeof vi.fn>;
+  let embeddingService: any;
+
+  beforeEach(() => {
+    searchVectors = vi.fn().mockResolvedValue(candidates);
+    embeddingService = { embedText: vi.fn().mockResolvedValue({ embedding: [0.1, 0.2] }) };
+  });
+
+  function makeBuilder(reranker?: Reranker) {
+    return new ContextBuilder(embeddingService, { searchVectors } as any, 'db-session', reranker);
+  }
+
+  it('over-fetches candidates and keeps the reranked topK', async () => {
+    const builder = makeBuilder(new LexicalReranker());
+
+    const result = await builder.retrieveContext({ prompt: 'how many webhook retries?', topK: 1 });
+
+    expect(searchVectors).toHaveBeenCalledWith('db-session', [0.1, 0.2], 3, 0.7, undefined);
+    expect(result.results.map(r => r.id)).toEqual(['answer']);
+    expect(result.context).toContain('Webhook retries stop');
+    expect(result.metrics.rerankTimeMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('honours rerankCandidates and rerank: false', async () => {
+    const builder = makeBuilder(new LexicalReranker());
+
+    await builder.retrieveContext({ prompt: 'retries', topK: 2, rerankCandidates: 10 });
+    expect(searchVectors).toHaveBeenLastCalledWith('db-session', [0.1, 0.2], 10, 0.7, undefined);
+
+    await builder.retrieveContext({ prompt: 'retries', topK: 2, rerankCandidates: 50 });
+    expect(searchVectors).toHaveBeenLastCalledWith('db-session', [0.1, 0.2], 20, 0.7, undefined);
+
+    const plain = await builder.retrieveContext({ prompt: 'retries', topK: 2, rerank: false });
+    expect(searchVectors).toHaveBeenLastCalledWith('db-session', [0.1, 0.2], 2, 0.7, undefined);
+    expect(plain.results.map(r => r.id)).toEqual(['generic', 'pricing', 'answer']);
+  });
+
+  it('records rerank latency in RAGMetrics', async () => {
+    const builder = makeBuilder();
+    await builder.retrieveContext({ prompt: 'retries', topK: 1 });
+    expect(builder.getMetrics().totalReranks).toBeUndefined();
+
+    builder.setReranker(new LexicalReranker());
+    await builder.retrieveContext({ prompt: 'retries', topK: 1 });
+    await builder.retrieveContext({ prompt: 'retries', topK: 1 });
+
+    const metrics = builder.getMetrics();
+    expect(metrics.totalRetrievals).toBe(3);
+    expect(metrics.totalReranks).toBe(2);
+    expect(metrics.averageRerankLatencyMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('falls back to retrieval order when the reranker fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const failing: Reranker = { name: 'broken', rerank: vi.fn().mockRejectedValue(new Error('host offline')) };
+    const builder = makeBuilder(failing);
+
+    const result = await builder.retrieveContext({ prompt: 'retries', topK: 2 });
+
+    expect(result.results.map(r => r.id)).toEqual(['generic', 'pricing']);
+    expect(result.context).toContain('Our platform supports');
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,226 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * S5VectorStore ANN index integration
+ *
+ * Verifies the HNSW index is built lazily on first approximate search,
+ * persisted next to manifest.json / chunk-N.json, reloaded from S5 by a fresh
+ * store, and kept in step with addVectors / deleteVector / deleteByMetadata.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { S5VectorStore } from '../../src/storage/S5VectorStore';
+import { VectorRAGManager } from '../../src/managers/VectorRAGManager';
+import { DEFAULT_RAG_CONFIG } from '../../src/rag/config';
+
+const userAddress = '0xowner';
+const basePath = `home/vector-databases/${userAddress}/docs`;
+
+function makeFakeS5Client() {
+  const files = new Map<string, any>();
+  return {
+    files,
+    fs: {
+      get: vi.fn(async (path: string) => {
+        // Mimic CBOR round-trip so tests never share object references
+        return files.has(path) ? structuredClone(files.get(path)) : undefined;
+      }),
+      put: vi.fn(async (path: string, data: any) => {
+        files.set(path, structuredClone(data));
+      }),
+      async *list() {}
+    }
+  };
+}
+
+function makeVectors(count: number, dims: number, offset = 0) {
+  let state = 7 + offset;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  return Array.from({ length: count }, (_, i) => ({
+    id: `v${offset + i}`,
+    vector: Array.from({ length: dims }, () => random() * 2 - 1),
+    metadata: { text: `chunk ${offset + i}`, documentId: `doc-${(offset + i) % 5}` }
+  }));
+}
+
+function makeStore(s5: ReturnType<typeof makeFakeS5Client>, minVectors = 10) {
+  return new S5VectorStore({
+    s5Client: s5 as any,
+    userAddress,
+    encryptionManager: {} as any,
+    annIndex: { minVectors }
+  });
+}
+
+describe('S5VectorStore — HNSW index', () => {
+  let s5: ReturnType<typeof makeFakeS5Client>;
+  let store: S5VectorStore;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    s5 = makeFakeS5Client();
+    store = makeStore(s5);
+    await store.createDatabase({ name: 'docs', owner: userAddress });
+  });
+
+  it('returns null below minVectors so callers use exact search', async () => {
+    await store.addVectors('docs', makeVectors(5, 8));
+
+    expect(await store.searchApproximate('docs', makeVectors(1, 8, 100)[0].vector, 3, -1)).toBeNull();
+    expect(s5.files.has(`${basePath}/index-hnsw.json`)).toBe(false);
+  });
+
+  it('returns null when the index is disabled', async () => {
+    const disabled = new S5VectorStore({
+      s5Client: s5 as any,
+      userAddress,
+      encryptionManager: {} as any,
+      annIndex: { enabled: false, minVectors: 0 }
+    });
+    await disabled.addVectors('docs', makeVectors(20, 8));
+
+    expect(await disabled.searchApproximate('docs', makeVectors(1, 8, 100)[0].vector)).toBeNull();
+  });
+
+  it('builds and persists the index next to the manifest on first search', async () => {
+    const vectors = makeVectors(50, 8);
+    await store.addVectors('docs', vectors);
+    expect(s5.files.has(`${basePath}/index-hnsw.json`)).toBe(false);
+
+    const hits = await store.searchApproximate('docs', vectors[7].vector, 3, -1);
+
+    expect(hits![0].vector.id).toBe('v7');
+    expect(hits![0].score).toBeCloseTo(1, 5);
+    expect(s5.files.has(`${basePath}/index-hnsw.json`)).toBe(true);
+    expect(s5.files.get(`${basePath}/manifest.json`).annIndex).toMatchObject({
+      type: 'hnsw',
+      path: `${basePath}/index-hnsw.json`,
+      vectorCount: 50
+    });
+  });
+
+  it('applies the similarity threshold to approximate hits', async () => {
+    const vectors = makeVectors(50, 8);
+    await store.addVectors('docs', vectors);
+
+    const hits = await store.searchApproximate('docs', vectors[3].vector, 10, 0.99);
+    expect(hits!.map(h => h.vector.id)).toEqual(['v3']);
+  });
+
+  it('loads the persisted index lazily in a fresh store instead of rebuilding', async () => {
+    const vectors = makeVectors(50, 8);
+    await store.addVectors('docs', vectors);
+    await store.searchApproximate('docs', vectors[0].vector);
+
+    const reopened = makeStore(s5);
+    const buildSpy = vi.spyOn(reopened as any, '_buildIndex');
+    const hits = await reopened.searchApproximate('docs', vectors[12].vector, 1, -1);
+
+    expect(hits![0].vector.id).toBe('v12');
+    expect(buildSpy).not.toHaveBeenCalled();
+  });
+
+  it('updates the persisted index incrementally on addVectors and deleteVector', async () => {
+    const vectors = makeVectors(50, 8);
+    await store.addVectors('docs', vectors);
+    await store.searchApproximate('docs', vectors[0].vector);
+
+    const extra = makeVectors(10, 8, 500);
+    await store.addVectors('docs', extra);
+    await store.deleteVector('docs', 'v3');
+    expect(s5.files.get(`${basePath}/manifest.json`).annIndex.vectorCount).toBe(59);
+
+    const reopened = makeStore(s5);
+    const buildSpy = vi.spyOn(reopened as any, '_buildIndex');
+    const added = await reopened.searchApproximate('docs', extra[4].vector, 1, -1);
+    const deleted = await reopened.searchApproximate('docs', vectors[3].vector, 5, -1);
+
+    expect(added![0].vector.id).toBe('v504');
+    expect(deleted!.map(h => h.vector.id)).not.toContain('v3');
+    expect(buildSpy).not.toHaveBeenCalled();
+  });
+
+  it('removes vectors deleted by metadata from the index', async () => {
+    const vectors = makeVectors(50, 8);
+    await store.addVectors('docs', vectors);
+    await store.searchApproximate('docs', vectors[0].vector);
+
+    const deleted = await store.deleteByMetadata('docs', { documentId: 'doc-1' });
+    const hits = await store.searchApproximate('docs', vectors[1].vector, 50, -1);
+
+    expect(deleted).toBe(10);
+    expect(hits!.length).toBe(40);
+    expect(hits!.some(h => h.vector.metadata.documentId === 'doc-1')).toBe(false);
+  });
+
+  it('rebuilds a stale persisted index', async () => {
+    const vectors = makeVectors(50, 8);
+    await store.addVectors('docs', vectors);
+    await store.searchApproximate('docs', vectors[0].vector);
+
+    // Simulate an interrupted write: index lags behind the chunks
+    const index = s5.files.get(`${basePath}/index-hnsw.json`);
+    index.ids = index.ids.slice(0, 40);
+    index.levels = index.levels.slice(0, 40);
+    index.neighbors = index.neighbors.slice(0, 40).map((layers: number[][]) =>
+      layers.map(layer => layer.filter(n => n < 40))
+    );
+    index.entryPoint = 0;
+    s5.files.set(`${basePath}/index-hnsw.json`, index);
+
+    const reopened = makeStore(s5);
+    const buildSpy = vi.spyOn(reopened as any, '_buildIndex');
+    const hits = await reopened.searchApproximate('docs', vectors[45].vector, 1, -1);
+
+    expect(buildSpy).toHaveBeenCalledTimes(1);
+    expect(hits![0].vector.id).toBe('v45');
+  });
+});
+
+describe('VectorRAGManager.searchDatabaseDirect — ANN vs exact', () => {
+  function makeManager(s5: ReturnType<typeof makeFakeS5Client>) {
+    return new VectorRAGManager({
+      userAddress,
+      seedPhrase: 'test seed',
+      config: { ...DEFAULT_RAG_CONFIG, annIndex: { minVectors: 10 } },
+      sessionManager: {} as any,
+      s5Client: s5 as any,
+      encryptionManager: {} as any
+    });
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('returns the same top results from the index and the exact fallback', async () => {
+    const s5 = makeFakeS5Client();
+    const manager = makeManager(s5);
+    await manager.createSession('docs');
+    const vectors = makeVectors(200, 16);
+    await manager.addVectorsToDatabase('docs', vectors);
+
+    const query = makeVectors(1, 16, 900)[0].vector;
+    const approx = await manager.searchDatabaseDirect('docs', query, 5, -1);
+    const exact = await manager.searchDatabaseDirect('docs', query, 5, -1, { exact: true });
+
+    expect(approx.map(r => r.id)).toEqual(exact.map(r => r.id));
+    expect(approx[0].content).toBe(exact[0].content);
+    expect(s5.files.has(`${basePath}/index-hnsw.json`)).toBe(true);
+  });
+
+  it('does not build an index when exact search is forced', async () => {
+    const s5 = makeFakeS5Client();
+    const manager = makeManager(s5);
+    await manager.createSession('docs');
+    await manager.addVectorsToDatabase('docs', makeVectors(50, 8));
+
+    await manager.searchDatabaseDirect('docs', makeVectors(1, 8, 900)[0].vector, 5, -1, { exact: true });
+
+    expect(s5.files.has(`${basePath}/index-hnsw.json`)).toBe(false);
+  });
+});
@@ -0,0 +1,186 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * S5VectorStore metadata filtering
+ *
+ * Verifies filters are applied before ranking (so top-k is never starved by
+ * non-matching neighbours), client-side searchInFolder scoping, operator
+ * support in deleteByMetadata, and VectorRAGManager.searchVectors filtering
+ * for both local and host sessions.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { S5VectorStore } from '../../src/storage/S5VectorStore';
+import { VectorRAGManager } from '../../src/managers/VectorRAGManager';
+import { DEFAULT_RAG_CONFIG } from '../../src/rag/config';
+
+const userAddress = '0xowner';
+
+function makeFakeS5Client() {
+  const files = new Map<string, any>();
+  return {
+    files,
+    fs: {
+      get: vi.fn(async (path: string) => (files.has(path) ? structuredClone(files.get(path)) : undefined)),
+      put: vi.fn(async (path: string, data: any) => {
+        files.set(path, structuredClone(data));
+      }),
+      async *list() {}
+    }
+  };
+}
+
+const FOLDERS = ['/contracts', '/contracts/2025', '/contracts-old', '/notes'];
+
+function makeVectors(count: number, dims: number, offset = 0) {
+  let state = 11 + offset;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  return Array.from({ length: count }, (_, i) => ({
+    id: `v${offset + i}`,
+    vector: Array.from({ length: dims }, () => random() * 2 - 1),
+    metadata: {
+      text: `chunk ${offset + i}`,
+      folderPath: FOLDERS[(offset + i) % FOLDERS.length],
+      year: 2020 + ((offset + i) % 6),
+      createdAt: new Date(Date.UTC(2025, 0, 1 + ((offset + i) % 60))).toISOString()
+    }
+  }));
+}
+
+describe('S5VectorStore — metadata filters', () => {
+  let s5: ReturnType<typeof makeFakeS5Client>;
+  let store: S5VectorStore;
+  const vectors = makeVectors(200, 8);
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    s5 = makeFakeS5Client();
+    store = new S5VectorStore({
+      s5Client: s5 as any,
+      userAddress,
+      encryptionManager: {} as any,
+      annIndex: { minVectors: 20 }
+    });
+    await store.createDatabase({ name: 'docs', owner: userAddress });
+    await store.addVectors('docs', vectors);
+  });
+
+  it('searchInFolder includes subfolders but not sibling prefixes', async () => {
+    const results = await store.searchInFolder('docs', '/contracts', vectors[0].vector, 200, -1);
+
+    expect(results.length).toBe(100);
+    expect(new Set(results.map(r => r.metadata.folderPath))).toEqual(new Set(['/contracts', '/contracts/2025']));
+    expect(results[0].id).toBe('v0');
+    expect(results[0].score).toBeCloseTo(1, 5);
+  });
+
+  it('searchInFolder applies an additional filter', async () => {
+    const results = await store.searchInFolder('docs', '/contracts/2025', vectors[1].vector, 200, -1, {
+      year: { $gte: 2024 }
+    });
+
+    expect(results.length).toBeGreaterThan(0);
+    for (const r of results) {
+      expect(r.metadata.folderPath).toBe('/contracts/2025');
+      expect(r.metadata.year).toBeGreaterThanOrEqual(2024);
+    }
+  });
+
+  it('returns a full top-k from the index for a selective filter', async () => {
+    const filter = { folderPath: '/notes', createdAt: { $lt: '2025-02-01' } };
+    const expected = await store.searchExact('docs', vectors[5].vector, 5, -1, filter);
+    const approx = await store.searchApproximate('docs', vectors[5].vector, 5, -1, filter);
+
+    expect(expected.length).toBe(5);
+    expect(approx!.map(h => h.vector.id)).toEqual(expected.map(h => h.vector.id));
+  });
+
+  it('ranks the matching subset exactly when it is below minVectors', async () => {
+    const filter = { year: 2021, folderPath: '/contracts/2025' };
+    const matching = vectors.filter(v => v.metadata.year === 2021 && v.metadata.folderPath === '/contracts/2025');
+    const hits = await store.searchApproximate('docs', vectors[3].vector, 50, -1, filter);
+
+    expect(hits!.length).toBe(matching.length);
+    expect(s5.files.has(`home/vector-databases/${userAddress}/docs/index-hnsw.json`)).toBe(false);
+  });
+
+  it('deleteByMetadata supports operators', async () => {
+    const deleted = await store.deleteByMetadata('docs', { year: { $in: [2020, 2021] } });
+    const remaining = await store.listVectors('docs');
+
+    expect(deleted).toBe(vectors.filter(v => v.metadata.year <= 2021).length);
+    expect(remaining.every(v => v.metadata.year > 2021)).toBe(true);
+  });
+});
+
+describe('VectorRAGManager.searchVectors — metadata filters', () => {
+  let s5: ReturnType<typeof makeFakeS5Client>;
+  let sessionManager: { searchVectors: ReturnType<typeof vi.fn> };
+  let manager: VectorRAGManager;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    s5 = makeFakeS5Client();
+    sessionManager = { searchVectors: vi.fn() };
+    manager = new VectorRAGManager({
+      userAddress,
+      seedPhrase: 'test seed',
+      config: { ...DEFAULT_RAG_CONFIG, annIndex: { minVectors: 20 } },
+      sessionManager: sessionManager as any,
+      s5Client: s5 as any,
+      encryptionManager: {} as any
+    });
+  });
+
+  it('filters a local session before ranking', async () => {
+    const sessionId = await manager.createSession('docs');
+    const vectors = makeVectors(100, 8);
+    await manager.addVectorsToDatabase('docs', vectors);
+
+    const results = await manager.searchVectors(sessionId, vectors[2].vector, 3, -1, { folderPath: '/contracts-old' });
+
+    expect(results.map(r => r.id)[0]).toBe('v2');
+    expect(results.length).toBe(3);
+    expect(results.every(r => r.metadata.folderPath === '/contracts-old')).toBe(true);
+    expect(sessionManager.searchVectors).not.toHaveBeenCalled();
+  });
+
+  it('sends the filter to the host with the query', async () => {
+    const hostResults = makeVectors(20, 4).filter(v => v.metadata.folderPath === '/notes').map((v, i) => ({ ...v, score: 1 - i * 0.01 }));
+    sessionManager.searchVectors.mockResolvedValue(hostResults.slice(0, 2));
+
+    const results = await manager.searchVectors('host-session', [1, 0, 0, 0], 2, 0.5, { folderPath: '/notes' });
+
+    expect(sessionManager.searchVectors).toHaveBeenCalledTimes(1);
+    expect(sessionManager.searchVectors).toHaveBeenCalledWith('host-session', [1, 0, 0, 0], 2, 0.5, { folderPath: '/notes' });
+    expect(results.map(r => r.id)).toEqual(['v3', 'v7']);
+  });
+
+  it('widens to the host maximum and filters when the host ignores the filter', async () => {
+    const hostResults = makeVectors(20, 4).map((v, i) => ({ ...v, score: 1 - i * 0.01 }));
+    sessionManager.searchVectors.mockImplementation(async (_id: string, _q: number[], k: number) => hostResults.slice(0, k));
+
+    const results = await manager.searchVectors('host-session', [1, 0, 0, 0], 2, 0.5, { folderPath: '/notes' });
+
+    expect(sessionManager.searchVectors).toHaveBeenLastCalledWith('host-session', [1, 0, 0, 0], 20, 0.5, { folderPath: '/notes' });
+    expect(results.map(r => r.id)).toEqual(['v3', 'v7']);
+  });
+
+  it('delegates unfiltered searches to the host unchanged', async () => {
+    sessionManager.searchVectors.mockResolvedValue([]);
+
+    await manager.searchVectors('host-session', [1, 0], 5, 0.7);
+
+    expect(sessionManager.searchVectors).toHaveBeenCalledWith('host-session', [1, 0], 5, 0.7);
+  });
+
+  it('rejects invalid filters', async () => {
+    await expect(
+      manager.searchVectors('host-session', [1, 0], 5, 0.7, { year: { $regex: '20' } } as any)
+    ).rejects.toThrow('Unknown metadata filter operator: $regex');
+  });
+});
@@ -0,0 +1,178 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * S5VectorStore hybrid retrieval
+ *
+ * Verifies the BM25 keyword index is built lazily, persisted next to
+ * manifest.json / chunk-N.json and kept in step with writes, and that hybrid
+ * (RRF) search surfaces exact identifiers that cosine similarity misses —
+ * through the store, VectorRAGManager.searchHybrid and ContextBuilder.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { S5VectorStore } from '../../src/storage/S5VectorStore';
+import { VectorRAGManager } from '../../src/managers/VectorRAGManager';
+import { ContextBuilder } from '../../src/session/context-builder';
+import { DEFAULT_RAG_CONFIG } from '../../src/rag/config';
+
+const userAddress = '0xowner';
+const basePath = `home/vector-databases/${userAddress}/docs`;
+
+function makeFakeS5Client() {
+  const files = new Map<string, any>();
+  return {
+    files,
+    fs: {
+      get: vi.fn(async (path: string) => (files.has(path) ? structuredClone(files.get(path)) : undefined)),
+      put: vi.fn(async (path: string, data: any) => {
+        files.set(path, structuredClone(data));
+      }),
+      async *list() {}
+    }
+  };
+}
+
+// Query embedding points along axis 0; the identifier chunk points elsewhere,
+// so pure cosine search ranks it last
+const query = [1, 0, 0, 0];
+const vectors = [
+  { id: 'intro', vector: [0.9, 0.1, 0, 0], metadata: { text: 'Overview of the payment service architecture.', folderPath: '/docs' } },
+  { id: 'retry', vector: [0.8, 0.2, 0.1, 0], metadata: { text: 'Payment retries use exponential backoff.', folderPath: '/docs' } },
+  { id: 'ticket', vector: [0, 0, 1, 0.2], metadata: { text: 'INC-20931: payment webhook dropped events during failover.', folderPath: '/incidents' } },
+  { id: 'other', vector: [0, 1, 0, 0], metadata: { content: 'Holiday calendar for the support team.', folderPath: '/hr' } }
+];
+
+function makeStore(s5: ReturnType<typeof makeFakeS5Client>, hybridSearch = {}) {
+  return new S5VectorStore({
+    s5Client: s5 as any,
+    userAddress,
+    encryptionManager: {} as any,
+    hybridSearch
+  });
+}
+
+describe('S5VectorStore — keyword and hybrid search', () => {
+  let s5: ReturnType<typeof makeFakeS5Client>;
+  let store: S5VectorStore;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    s5 = makeFakeS5Client();
+    store = makeStore(s5);
+    await store.createDatabase({ name: 'docs', owner: userAddress });
+    await store.addVectors('docs', vectors);
+  });
+
+  it('builds and persists the keyword index on first keyword search', async () => {
+    expect(s5.files.has(`${basePath}/index-bm25.json`)).toBe(false);
+
+    const hits = await store.searchKeyword('docs', 'what happened in INC-20931?', 3);
+
+    expect(hits[0].vector.id).toBe('ticket');
+    expect(s5.files.has(`${basePath}/index-bm25.json`)).toBe(true);
+    expect(s5.files.get(`${basePath}/manifest.json`).keywordIndex).toMatchObject({
+      type: 'bm25',
+      path: `${basePath}/index-bm25.json`,
+      documentCount: 4
+    });
+  });
+
+  it('indexes metadata.content when metadata.text is absent', async () => {
+    const hits = await store.searchKeyword('docs', 'holiday calendar', 1);
+    expect(hits[0].vector.id).toBe('other');
+  });
+
+  it('loads the persisted index in a fresh store and keeps it in step with writes', async () => {
+    await store.searchKeyword('docs', 'payment');
+
+    const reopened = makeStore(s5);
+    const buildSpy = vi.spyOn(reopened as any, '_buildKeywordIndex');
+    await reopened.addVectors('docs', [{ id: 'new', vector: [0, 0, 0, 1], metadata: { text: 'Runbook for INC-77000' } }]);
+    await reopened.deleteVector('docs', 'ticket');
+
+    expect((await reopened.searchKeyword('docs', 'INC-77000', 5)).map(h => h.vector.id)).toEqual(['new']);
+    expect((await reopened.searchKeyword('docs', 'INC-20931', 5)).map(h => h.vector.id)).not.toContain('ticket');
+    expect(buildSpy).not.toHaveBeenCalled();
+    expect(s5.files.get(`${basePath}/manifest.json`).keywordIndex.documentCount).toBe(4);
+  });
+
+  it('rebuilds a stale persisted index', async () => {
+    await store.searchKeyword('docs', 'payment');
+    const index = s5.files.get(`${basePath}/index-bm25.json`);
+    index.ids = index.ids.slice(0, 2);
+    index.documents = index.documents.slice(0, 2);
+    s5.files.set(`${basePath}/index-bm25.json`, index);
+
+    const reopened = makeStore(s5);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const buildSpy = vi.spyOn(reopened as any, '_buildKeywordIndex');
+    const hits = await reopened.searchKeyword('docs', 'holiday', 1);
+
+    expect(buildSpy).toHaveBeenCalledTimes(1);
+    expect(hits[0].vector.id).toBe('other');
+  });
+
+  it('surfaces an exact identifier that vector search alone misses', async () => {
+    const vectorOnly = await store.searchExact('docs', query, 3, 0.5);
+    const hybrid = await store.searchHybrid('docs', query, 'payment failover INC-20931', 3, 0.5);
+
+    expect(vectorOnly.map(h => h.vector.id)).not.toContain('ticket');
+    expect(hybrid.map(h => h.vector.id)).toContain('ticket');
+    const ticket = hybrid.find(h => h.vector.id === 'ticket')!;
+    expect(ticket.vectorScore).toBeUndefined();
+    expect(ticket.keywordScore).toBeGreaterThan(0);
+  });
+
+  it('applies configured weights and the metadata filter to both rankings', async () => {
+    const keywordHeavy = makeStore(s5, { vectorWeight: 0.1, keywordWeight: 1 });
+    const hits = await keywordHeavy.searchHybrid('docs', query, 'INC-20931', 3, 0.5);
+    expect(hits[0].vector.id).toBe('ticket');
+
+    const filtered = await store.searchHybrid('docs', query, 'INC-20931 payment', 5, 0.5, { folderPath: '/docs' });
+    expect(filtered.map(h => h.vector.id).sort()).toEqual(['intro', 'retry']);
+  });
+});
+
+describe('Hybrid retrieval through VectorRAGManager and ContextBuilder', () => {
+  let manager: VectorRAGManager;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    manager = new VectorRAGManager({
+      userAddress,
+      seedPhrase: 'test seed',
+      config: { ...DEFAULT_RAG_CONFIG, hybridSearch: { keywordWeight: 2 } },
+      sessionManager: { searchVectors: vi.fn().mockResolvedValue([]) } as any,
+      s5Client: makeFakeS5Client() as any,
+      encryptionManager: {} as any
+    });
+    sessionId = await manager.createSession('docs');
+    await manager.addVectorsToDatabase('docs', vectors);
+  });
+
+  it('searchHybrid ranks by fused score in hybrid mode and BM25 in keyword mode', async () => {
+    const hybrid = await manager.searchHybrid(sessionId, query, 'INC-20931', 2, 0.5);
+    const keyword = await manager.searchHybrid(sessionId, query, 'INC-20931', 2, 0.5, { mode: 'keyword' });
+
+    expect(hybrid[0].id).toBe('ticket');
+    expect(hybrid[0].metadata.text).toContain('INC-20931');
+    expect(keyword.map(r => r.id)).toEqual(['ticket']);
+  });
+
+  it('rejects keyword modes for host sessions', async () => {
+    await expect(manager.searchHybrid('host-session', query, 'INC-20931')).rejects.toThrow('requires a VectorRAGManager session');
+  });
+
+  it('ContextBuilder selects hybrid retrieval via options.mode', async () => {
+    const embeddingService = { embedText: vi.fn().mockResolvedValue({ embedding: query }) };
+    const builder = new ContextBuilder(embeddingService as any, manager, sessionId);
+
+    const vectorContext = await builder.retrieveContext({ prompt: 'INC-20931', topK: 2, threshold: 0.5 });
+    const hybridContext = await builder.retrieveContext({ prompt: 'INC-20931', topK: 2, threshold: 0.5, mode: 'hybrid' });
+
+    expect(vectorContext.context).not.toContain('INC-20931');
+    expect(hybridContext.context).toContain('INC-20931');
+  });
+});
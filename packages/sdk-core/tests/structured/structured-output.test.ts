@@ -0,0 +1,143 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Structured Output Tests
+ * JSON Schema validation, JSON extraction from model responses and the
+ * response_format payload sent to hosts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validateJsonSchema } from '../../src/structured/json-schema-validator.js';
+import {
+  extractJson,
+  parseStructuredOutput,
+  buildStructuredOutputPrompt,
+  buildRepairPrompt,
+  toResponseFormatPayload
+} from '../../src/structured/structured-output.js';
+import type { ResponseFormat } from '../../src/types/structured-output.types.js';
+
+const personSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    age: { type: 'integer', minimum: 0 },
+    role: { enum: ['admin', 'user'] },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    address: { $ref: '#/$defs/address' }
+  },
+  required: ['name', 'age'],
+  $defs: {
+    address: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+  }
+};
+
+const personFormat: ResponseFormat = { type: 'json_schema', name: 'person', schema: personSchema };
+
+describe('validateJsonSchema', () => {
+  it('accepts a matching value', () => {
+    const value = { name: 'Ada', age: 36, role: 'admin', tags: ['math'], address: { city: 'London' } };
+
+    expect(validateJsonSchema(value, personSchema)).toEqual([]);
+  });
+
+  it('reports every violation with its path', () => {
+    const value = { name: '', age: 1.5, role: 'owner', tags: ['a', 'b', 3], address: {} };
+
+    expect(validateJsonSchema(value, personSchema)).toEqual([
+      '$.name: must have at least 1 characters',
+      '$.age: expected integer, got number',
+      '$.role: must be one of "admin", "user"',
+      '$.tags: must have at most 2 items',
+      '$.tags[2]: expected string, got integer',
+      '$.address.city: is required'
+    ]);
+  });
+
+  it('allows extra properties unless strict or additionalProperties is false', () => {
+    const value = { name: 'Ada', age: 36, nickname: 'A' };
+
+    expect(validateJsonSchema(value, personSchema)).toEqual([]);
+    expect(validateJsonSchema(value, personSchema, { strict: true })).toEqual(['$.nickname: is not allowed']);
+    expect(validateJsonSchema(value, { ...personSchema, additionalProperties: false })).toEqual([
+      '$.nickname: is not allowed'
+    ]);
+  });
+
+  it('supports type unions and combinators', () => {
+    const schema = { anyOf: [{ type: 'string' }, { type: 'number', minimum: 10 }] };
+
+    expect(validateJsonSchema('x', schema)).toEqual([]);
+    expect(validateJsonSchema(12, schema)).toEqual([]);
+    expect(validateJsonSchema(5, schema)).toEqual(['$: does not match any allowed schema']);
+    expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([]);
+  });
+});
+
+describe('extractJson', () => {
+  it.each([
+    ['bare JSON', '{"a": 1}'],
+    ['a code fence', 'Here you go:\n```json\n{"a": 1}\n```'],
+    ['surrounding prose', 'Sure! {"a": 1} Hope that helps.'],
+    ['a think block', '<think>{"draft": true}</think>\n{"a": 1}']
+  ])('finds JSON in %s', (_label, text) => {
+    expect(extractJson(text)).toEqual({ value: { a: 1 } });
+  });
+
+  it('returns undefined when there is no JSON', () => {
+    expect(extractJson('I cannot answer that.')).toBeUndefined();
+    expect(extractJson('{"a": ')).toBeUndefined();
+  });
+});
+
+describe('parseStructuredOutput', () => {
+  it('returns the parsed value when valid', () => {
+    expect(parseStructuredOutput('{"name": "Ada", "age": 36}', personFormat)).toEqual({
+      valid: true,
+      value: { name: 'Ada', age: 36 }
+    });
+  });
+
+  it('returns validation errors when invalid', () => {
+    expect(parseStructuredOutput('{"name": "Ada"}', personFormat)).toEqual({
+      valid: false,
+      errors: ['$.age: is required']
+    });
+    expect(parseStructuredOutput('no json here', personFormat)).toEqual({
+      valid: false,
+      errors: ['Response is not valid JSON']
+    });
+  });
+
+  it('requires an object for json_object', () => {
+    expect(parseStructuredOutput('[1, 2]', { type: 'json_object' })).toEqual({
+      valid: false,
+      errors: ['$: expected object']
+    });
+  });
+});
+
+describe('prompts and payloads', () => {
+  it('puts format instructions with the schema before the prompt', () => {
+    const prompt = buildStructuredOutputPrompt(personFormat, 'Describe Ada Lovelace');
+
+    expect(prompt).toContain(JSON.stringify(personSchema));
+    expect(prompt.endsWith('\n\nDescribe Ada Lovelace')).toBe(true);
+  });
+
+  it('lists errors and the previous response in repair prompts', () => {
+    const prompt = buildRepairPrompt('{"name": "Ada"}', ['$.age: is required']);
+
+    expect(prompt).toContain('- $.age: is required');
+    expect(prompt).toContain('Previous response:\n{"name": "Ada"}');
+  });
+
+  it('builds OpenAI-style response_format payloads', () => {
+    expect(toResponseFormatPayload(personFormat)).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'person', schema: personSchema, strict: false }
+    });
+    expect(toResponseFormatPayload({ type: 'json_object' })).toEqual({ type: 'json_object' });
+  });
+});
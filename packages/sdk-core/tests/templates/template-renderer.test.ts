@@ -0,0 +1,102 @@
+/**
+ * Template Renderer Tests
+ * Tests for template validation, value checking, partials and few-shot rendering
+ * Max 150 lines
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  extractPlaceholders,
+  validateTemplateContent,
+  resolveTemplateValues,
+  renderTemplate
+} from '../../src/templates/template-renderer.js';
+import type { TemplateVariable } from '../../src/types/prompt-templates.types.js';
+
+const variables: TemplateVariable[] = [
+  { name: 'topic', type: 'string' },
+  { name: 'count', type: 'number', default: 3 },
+  { name: 'tags', type: 'string[]', required: false }
+];
+
+describe('Template Renderer', () => {
+  it('extracts variables and partials', () => {
+    expect(extractPlaceholders('{{ topic }} {{> intro}} {{topic}} {{count}}')).toEqual({
+      variables: ['topic', 'count'],
+      partials: ['intro']
+    });
+  });
+
+  it('reports undeclared variables, duplicates and bad defaults', () => {
+    const errors = validateTemplateContent({
+      body: 'About {{topic}} in {{language}}',
+      variables: [
+        { name: 'topic', type: 'string' },
+        { name: 'topic', type: 'string' },
+        { name: 'count', type: 'number', default: 'three' as any }
+      ]
+    });
+
+    expect(errors).toEqual([
+      'variable "topic" is declared twice',
+      'default of "count" is not a number',
+      '{{language}} is not a declared variable'
+    ]);
+    expect(validateTemplateContent({ body: ' ', variables: [] })).toEqual(['body is required']);
+  });
+
+  it('fills defaults and rejects missing, unknown and mistyped values', () => {
+    expect(resolveTemplateValues(variables, { topic: 'tides' })).toEqual({ topic: 'tides', count: 3 });
+
+    try {
+      resolveTemplateValues(variables, { count: 'many' as any, extra: 'x' });
+      expect.fail('should throw');
+    } catch (error: any) {
+      expect(error.code).toBe('INVALID_TEMPLATE_VALUES');
+      expect(error.details.errors).toEqual([
+        '"extra" is not a variable of this template',
+        '"topic" is required',
+        '"count" must be a number'
+      ]);
+    }
+  });
+
+  it('renders system text, few-shot examples and body in order', () => {
+    const prompt = renderTemplate(
+      {
+        system: 'You write about {{topic}}.',
+        body: 'List {{count}} facts about {{topic}}. Tags: {{tags}}',
+        variables,
+        fewShot: [{ input: 'List 1 fact about {{topic}}.', output: 'The moon moves them.' }]
+      },
+      { topic: 'tides', tags: ['sea', 'moon'] }
+    );
+
+    expect(prompt).toBe(
+      'You write about tides.\n\n' +
+      'Example 1:\nUser: List 1 fact about tides.\nAssistant: The moon moves them.\n\n' +
+      'List 3 facts about tides. Tags: sea, moon'
+    );
+  });
+
+  it('expands nested and external partials before substituting', () => {
+    const content = {
+      body: '{{> header}} Question: {{topic}}',
+      variables,
+      partials: { header: '[{{> style}}]' }
+    };
+
+    const prompt = renderTemplate(content, { topic: 'tides' }, name =>
+      name === 'style' ? 'Answer briefly about {{topic}}' : undefined
+    );
+
+    expect(prompt).toBe('[Answer briefly about tides] Question: tides');
+  });
+
+  it('rejects unknown and circular partials', () => {
+    expect(() => renderTemplate({ body: '{{> missing}}', variables: [] }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_TEMPLATE' }));
+    expect(() => renderTemplate({ body: '{{> a}}', variables: [], partials: { a: '{{> b}}', b: '{{> a}}' } }))
+      .toThrow(expect.objectContaining({ code: 'INVALID_TEMPLATE', details: { partials: ['a', 'b', 'a'] } }));
+  });
+});
@@ -0,0 +1,156 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Tokenizer Tests
+ * BPE encoding from tokenizer.json (byte-level and SentencePiece-style),
+ * the model tokenizer registry, and token counting in chunking and
+ * ContextBuilder truncation
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BPETokenizer, HeuristicTokenizer } from '../../src/tokenizers/bpe-tokenizer.js';
+import { TokenizerRegistry, tokenizerRegistry } from '../../src/tokenizers/tokenizer-registry.js';
+import type { Tokenizer, TokenizerJSON } from '../../src/tokenizers/types.js';
+import { chunkWithStrategy } from '../../src/documents/chunking-strategies.js';
+import { ContextBuilder } from '../../src/session/context-builder.js';
+
+// Byte-level BPE: 'Ġ' is the GPT-2 byte-encoder symbol for a space
+const byteLevelJson: TokenizerJSON = {
+  model: {
+    type: 'BPE',
+    vocab: {
+      h: 0, e: 1, l: 2, o: 3, w: 4, r: 5, d: 6, 'Ġ': 7, '!': 8,
+      he: 9, ll: 10, hell: 11, hello: 12, 'Ġw': 13, or: 14, 'Ġwor': 15, 'Ġworl': 16, 'Ġworld': 17
+    },
+    merges: ['h e', 'l l', 'he ll', 'hell o', 'Ġ w', 'o r', 'Ġw or', 'Ġwor l', ['Ġworl', 'd']]
+  },
+  pre_tokenizer: { type: 'ByteLevel', add_prefix_space: false },
+  decoder: { type: 'ByteLevel' },
+  added_tokens: [{ id: 100, content: '<|eot|>', special: true }]
+};
+
+// SentencePiece export: spaces become '▁', unknown characters fall back to bytes
+const metaspaceJson: TokenizerJSON = {
+  model: {
+    type: 'BPE',
+    vocab: { '<unk>': 0, '<0x21>': 1, '▁': 2, h: 3, i: 4, '▁h': 5, '▁hi': 6 },
+    merges: ['▁ h', '▁h i'],
+    unk_token: '<unk>',
+    byte_fallback: true
+  },
+  pre_tokenizer: { type: 'Metaspace', replacement: '▁', prepend_scheme: 'always' }
+};
+
+/**
+ * Two tokens per whitespace-separated word
+ */
+const wordTokenizer: Tokenizer = {
+  name: 'words',
+  countTokens: (text: string) => 2 * text.split(/\s+/).filter(w => w.length > 0).length
+};
+
+describe('BPETokenizer', () => {
+  it('encodes byte-level BPE with merges and added tokens', () => {
+    const tokenizer = new BPETokenizer(byteLevelJson, 'tiny');
+
+    expect(tokenizer.encode('hello world')).toEqual([12, 17]);
+    expect(tokenizer.encode('hello world!<|eot|>')).toEqual([12, 17, 8, 100]);
+    expect(tokenizer.countTokens('hello hello')).toBe(3); // no 'Ġ h' merge: 'Ġ' + 'hello'
+  });
+
+  it('encodes SentencePiece-style vocabularies with byte fallback', () => {
+    const tokenizer = new BPETokenizer(metaspaceJson);
+
+    expect(tokenizer.encode('hi hi!')).toEqual([6, 6, 1]);
+  });
+
+  it('rejects non-BPE models', () => {
+    const wordPiece = { model: { type: 'WordPiece', vocab: {}, merges: [] } } as TokenizerJSON;
+    expect(() => new BPETokenizer(wordPiece)).toThrow('Unsupported tokenizer model: WordPiece (expected BPE)');
+  });
+});
+
+describe('TokenizerRegistry', () => {
+  let registry: TokenizerRegistry;
+
+  beforeEach(() => {
+    registry = new TokenizerRegistry();
+  });
+
+  it('falls back to the heuristic for unknown models', async () => {
+    expect(registry.get('unknown')).toBeInstanceOf(HeuristicTokenizer);
+    expect(registry.find('unknown')).toBeUndefined();
+    expect(await registry.load('unknown')).toBeInstanceOf(HeuristicTokenizer);
+    expect(registry.countTokens('twelve chars')).toBe(3);
+  });
+
+  it('loads inline JSON sources on first use, keyed case-insensitively', async () => {
+    registry.registerSource('Tiny-Model', { type: 'json', data: JSON.stringify(byteLevelJson) });
+
+    expect(registry.has('tiny-model')).toBe(true);
+    expect(registry.countTokens('hello world', 'tiny-model')).toBe(3); // not loaded yet
+
+    const tokenizer = await registry.load('TINY-MODEL');
+
+    expect(tokenizer.name).toBe('TINY-MODEL');
+    expect(registry.countTokens('hello world', 'tiny-model')).toBe(2);
+  });
+
+  it('reads S5 sources once for concurrent loads', async () => {
+    const get = vi.fn(async () => new TextEncoder().encode(JSON.stringify(metaspaceJson)));
+    registry.setS5Client({ fs: { get } });
+    registry.registerSource('llama', { type: 's5', path: 'home/tokenizers/llama.json' });
+
+    const [first, second] = await Promise.all([registry.load('llama'), registry.load('llama')]);
+
+    expect(first).toBe(second);
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(get).toHaveBeenCalledWith('home/tokenizers/llama.json');
+    expect(registry.countTokens('hi hi!', 'llama')).toBe(3);
+  });
+
+  it('reports S5 sources that cannot be loaded', async () => {
+    registry.registerSource('llama', { type: 's5', path: 'home/tokenizers/llama.json' });
+    await expect(registry.load('llama')).rejects.toThrow('S5 client not set');
+
+    registry.setS5Client({ fs: { get: vi.fn(async () => undefined) } });
+    await expect(registry.load('llama')).rejects.toThrow('Tokenizer not found in S5: home/tokenizers/llama.json');
+  });
+});
+
+describe('token counting with a registered model', () => {
+  beforeEach(() => {
+    tokenizerRegistry.clear();
+    tokenizerRegistry.register('word-model', wordTokenizer);
+  });
+
+  it('sizes chunks and chunk token counts with the model tokenizer', async () => {
+    const text = Array.from({ length: 40 }, (_, i) => `word${i}`).join(' ');
+
+    const heuristic = await chunkWithStrategy(text, 'doc', 'doc.txt', 'txt', { chunkSize: 20, overlap: 2 });
+    const counted = await chunkWithStrategy(text, 'doc', 'doc.txt', 'txt', {
+      chunkSize: 20, overlap: 2, tokenizerModel: 'word-model'
+    });
+
+    // 1.3 tokens/word sizes 15-word chunks; the model's 2 tokens/word shrinks them to 10
+    expect(heuristic[0].metadata.tokenCount).toBe(Math.ceil(15 * 1.3));
+    expect(counted.map(c => c.metadata.tokenCount)).toEqual([20, 20, 20, 20, 8]);
+  });
+
+  it('truncates ContextBuilder context to the model token limit', async () => {
+    const results = [{ id: 'a', vector: [], metadata: { text: 'one two three four five six seven' }, score: 0.9 }];
+    const builder = new ContextBuilder(
+      { embedText: vi.fn().mockResolvedValue({ embedding: [0.1] }) } as any,
+      { searchVectors: vi.fn().mockResolvedValue(results) } as any,
+      'db-session'
+    );
+    builder.setTokenizerModel('word-model');
+
+    const { context } = await builder.retrieveContext({
+      prompt: 'numbers', maxTokens: 10, template: '{context}', includeSources: false
+    });
+
+    expect(context).toBe('one two three four five \n[...truncated]');
+  });
+});
@@ -0,0 +1,182 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Tool Dialect Tests
+ * Golden-file tests for each built-in dialect (streamed model output →
+ * tool calls, tool prompt, tool result and transcript replay formatting)
+ * and model-based dialect selection
+ *
+ * Fixtures live in tests/fixtures/tool-dialects/<dialect>/:
+ * output.txt (model output), expected.json (text and calls parsed from it),
+ * prompt.txt (formatTools), results.txt (formatToolResults) and
+ * history.txt (formatToolCall + formatToolResult)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { ToolDialectRegistry, toolDialectRegistry } from '../../src/tools/tool-dialects.js';
+import type { ToolParserEvent, StreamingToolParser } from '../../src/tools/tool-call-parser.js';
+import type { ToolCall, ToolDefinition, ToolResult } from '../../src/types/tools.types.js';
+
+const FIXTURES = join(__dirname, '../fixtures/tool-dialects');
+const DIALECTS = ['glm', 'hermes', 'qwen', 'llama3', 'mistral'];
+
+const tools: ToolDefinition[] = [
+  {
+    name: 'get_weather',
+    description: 'Current weather for a city',
+    parameters: {
+      type: 'object',
+      properties: { city: { type: 'string' }, days: { type: 'number' } },
+      required: ['city']
+    }
+  },
+  { name: 'search', description: 'Search the web' }
+];
+
+const calls: ToolCall[] = [
+  { id: 'call_1', name: 'get_weather', arguments: { city: 'Paris', days: 2 } },
+  { id: 'call_2', name: 'search', arguments: { query: 'Paris events' } }
+];
+
+const results: ToolResult[] = [
+  { toolCallId: 'call_1', content: { temp: 21, sky: 'sunny' } },
+  { toolCallId: 'call_2', content: 'rate limited', isError: true }
+];
+
+function fixture(dialect: string, file: string): string {
+  return readFileSync(join(FIXTURES, dialect, file), 'utf8');
+}
+
+/**
+ * Stream output through a parser in chunks of the given size
+ */
+function parse(parser: StreamingToolParser, output: string, chunkSize: number) {
+  const events: ToolParserEvent[] = [];
+  for (let i = 0; i < output.length; i += chunkSize) {
+    events.push(...parser.feed(output.slice(i, i + chunkSize)));
+  }
+  events.push(...parser.flush());
+  return {
+    text: events.map(e => (e.type === 'text' ? e.text : '')).join(''),
+    calls: events.filter(e => e.type === 'tool_call').map(e => ({ name: (e as any).name, arguments: (e as any).arguments }))
+  };
+}
+
+describe.each(DIALECTS)('%s dialect', (name) => {
+  const dialect = toolDialectRegistry.get(name);
+
+  it.each([1, 7, Infinity])('parses the golden output in chunks of %s', (chunkSize) => {
+    const expected = JSON.parse(fixture(name, 'expected.json'));
+
+    expect(parse(dialect.createParser(), fixture(name, 'output.txt'), chunkSize)).toEqual(expected);
+  });
+
+  it('formats tools like the golden prompt', () => {
+    expect(dialect.formatTools(tools)).toBe(fixture(name, 'prompt.txt'));
+  });
+
+  it('formats tool results like the golden results', () => {
+    expect(dialect.formatToolResults(calls, results)).toBe(fixture(name, 'results.txt'));
+  });
+
+  it('formats replayed tool calls and results like the golden history', () => {
+    const history = [
+      dialect.formatToolCall('get_weather', { city: 'Paris', days: 2 }),
+      `${dialect.resultRole}: ${dialect.formatToolResult('{"temp":21}')}`
+    ].join('\n');
+
+    expect(history).toBe(fixture(name, 'history.txt'));
+  });
+
+  it('parses its own replayed call back into the same call', () => {
+    const call = dialect.formatToolCall('get_weather', { city: 'Paris', days: 2 });
+
+    expect(parse(dialect.createParser(), call, 3).calls).toEqual([{ name: 'get_weather', arguments: { city: 'Paris', days: 2 } }]);
+  });
+
+  it('passes plain text through and returns malformed calls as text', () => {
+    const broken = name === 'glm' ? '<tool_call>get_weather<arg_key>city' : '<tool_call>{"name": "get_weather", ';
+    const plain = 'The weather is sunny. ';
+
+    expect(parse(dialect.createParser(), plain, 3)).toEqual({ text: plain, calls: [] });
+    expect(parse(dialect.createParser(), plain + broken, 3).calls).toEqual([]);
+  });
+});
+
+describe('Llama 3 dialect', () => {
+  it('recognises a bare JSON call only at the start of the output', () => {
+    const call = '{"name": "search", "parameters": {"query": "x"}}';
+    const dialect = toolDialectRegistry.get('llama3');
+
+    expect(parse(dialect.createParser(), `  ${call}`, 4).calls).toEqual([{ name: 'search', arguments: { query: 'x' } }]);
+    expect(parse(dialect.createParser(), `Example: ${call}`, 4)).toEqual({ text: `Example: ${call}`, calls: [] });
+  });
+
+  it('returns JSON that is not a call as text', () => {
+    const parser = toolDialectRegistry.get('llama3').createParser();
+
+    expect(parse(parser, '{"answer": 42}', 4)).toEqual({ text: '{"answer": 42}', calls: [] });
+  });
+});
+
+describe('Mistral dialect', () => {
+  it('parses the [ARGS] call format', () => {
+    const parser = toolDialectRegistry.get('mistral').createParser();
+    const output = '[TOOL_CALLS]get_weather[ARGS]{"city": "Paris"}[TOOL_CALLS]search[ARGS]{"query": "x"}';
+
+    expect(parse(parser, output, 5).calls).toEqual([
+      { name: 'get_weather', arguments: { city: 'Paris' } },
+      { name: 'search', arguments: { query: 'x' } }
+    ]);
+  });
+});
+
+describe('ToolDialectRegistry', () => {
+  it.each([
+    ['THUDM/GLM-4-9B-0414', 'glm'],
+    ['meta-llama/Llama-3.1-8B-Instruct', 'llama3'],
+    ['bartowski/Meta-Llama-3.1-8B-Instruct-GGUF', 'llama3'],
+    ['mistralai/Mistral-Small-3.1-24B-Instruct-2503', 'mistral'],
+    ['mistralai/Devstral-Small-2505', 'mistral'],
+    ['Qwen/Qwen3-Coder-30B-A3B-Instruct', 'qwen'],
+    ['NousResearch/Hermes-3-Llama-3.1-8B', 'hermes'],
+    ['tinyllama', 'glm'],
+    ['gpt-oss-20b', 'glm']
+  ])('selects the dialect for %s', (model, expected) => {
+    expect(toolDialectRegistry.resolve(model).name).toBe(expected);
+  });
+
+  it('selects the dialect from model registry metadata', () => {
+    const info = {
+      modelId: '0x1',
+      huggingfaceRepo: 'Qwen/Qwen2.5-7B-Instruct-GGUF',
+      fileName: 'qwen2.5-7b-instruct-q4_k_m.gguf',
+      sha256Hash: '0x2',
+      approvalTier: 1,
+      active: true,
+      timestamp: 0
+    };
+
+    expect(toolDialectRegistry.resolve(info).name).toBe('qwen');
+  });
+
+  it('prefers an explicit dialect over detection', () => {
+    expect(toolDialectRegistry.resolve('meta-llama/Llama-3.1-8B-Instruct', 'hermes').name).toBe('hermes');
+  });
+
+  it('rejects unknown dialect names', () => {
+    expect(() => toolDialectRegistry.resolve('any', 'nope')).toThrow('Unknown tool dialect: nope');
+  });
+
+  it('lets later registrations claim model names', () => {
+    const registry = new ToolDialectRegistry([toolDialectRegistry.get('glm'), toolDialectRegistry.get('llama3')]);
+    registry.register({ ...toolDialectRegistry.get('hermes'), name: 'custom', modelPattern: /my-llama-3/i });
+
+    expect(registry.resolve('org/my-llama-3-tools').name).toBe('custom');
+    expect(registry.resolve('org/llama-3-base').name).toBe('llama3');
+    expect(registry.names()).toEqual(['glm', 'llama3', 'custom']);
+  });
+});
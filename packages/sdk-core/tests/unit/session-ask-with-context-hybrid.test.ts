@@ -0,0 +1,145 @@
+// Copyright (c) 2025 Fabstir
+// SPDX-License-Identifier: BUSL-1.1
+
+/**
+ * Unit tests for SessionManager.askWithContext() retrieval modes
+ * Covers keyword and hybrid (BM25 + host vector search, RRF) retrieval over
+ * chunk text uploaded through uploadVectors()
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SessionManager } from '../../src/managers/SessionManager';
+import { PaymentManager } from '../../src/managers/PaymentManager';
+import { StorageManager } from '../../src/managers/StorageManager';
+import type { SearchResult, Vector } from '../../src/types/rag-websocket';
+import { HostAdapter } from '../../src/embeddings/adapters/HostAdapter';
+
+const sessionId = 'hybrid-session';
+
+function makeVector(id: string, text: string): Vector {
+  return { id, vector: new Array(384).fill(0.1), metadata: { text } };
+}
+
+const uploaded = [
+  makeVector('overview', 'The billing service exports invoices nightly.'),
+  makeVector('ticket', 'SKU-55120 was recalled because of a firmware fault.'),
+  makeVector('faq', 'Refunds are processed within five business days.')
+];
+
+describe('SessionManager.askWithContext() retrieval modes', () => {
+  let sessionManager: SessionManager;
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    sessionManager = new SessionManager({} as PaymentManager, {} as StorageManager);
+    (sessionManager as any).wsClient = {};
+    (sessionManager as any).sessions = new Map([[sessionId, {
+      sessionId: BigInt(1),
+      jobId: BigInt(1),
+      chainId: 84532,
+      model: 'llama-3',
+      provider: 'test-host',
+      endpoint: 'http://localhost:8080',
+      status: 'active',
+      prompts: [],
+      responses: [],
+      checkpoints: [],
+      totalTokens: 0,
+      startTime: Date.now(),
+      ragContext: { vectorDbId: 'test-db' }
+    }]]);
+    (sessionManager as any)._indexUploadedVectors(sessionId, uploaded, false);
+
+    vi.spyOn(HostAdapter.prototype, 'embedText').mockResolvedValue({
+      embedding: new Array(384).fill(0.5),
+      model: 'all-MiniLM-L6-v2',
+      provider: 'host',
+      cost: 0.0
+    });
+  });
+
+  it('keeps vector mode as the default', async () => {
+    vi.spyOn(sessionManager, 'searchVectors').mockResolvedValue([]);
+
+    await sessionManager.askWithContext(sessionId, 'Why was SKU-55120 recalled?');
+
+    expect(sessionManager.searchVectors).toHaveBeenCalledWith(sessionId, expect.any(Array), 5, 0.7);
+  });
+
+  it('fuses host vector results with BM25 matches in hybrid mode', async () => {
+    const hostResults: SearchResult[] = [
+      { ...uploaded[0], score: 0.82 },
+      { ...uploaded[2], score: 0.78 }
+    ];
+    vi.spyOn(sessionManager, 'searchVectors').mockResolvedValue(hostResults);
+
+    const prompt = await sessionManager.askWithContext(sessionId, 'Why was SKU-55120 recalled?', 2, { mode: 'hybrid' });
+
+    // Host search is over-fetched up to its k=20 limit for fusion
+    expect(sessionManager.searchVectors).toHaveBeenCalledWith(sessionId, expect.any(Array), 20, 0.7);
+    expect(prompt).toContain('SKU-55120 was recalled');
+    expect(prompt).toContain('Question: Why was SKU-55120 recalled?');
+  });
+
+  it('uses hybrid weights from the options', async () => {
+    vi.spyOn(sessionManager, 'searchVectors').mockResolvedValue([{ ...uploaded[0], score: 0.9 }]);
+
+    const prompt = await sessionManager.askWithContext(sessionId, 'SKU-55120', 1, {
+      mode: 'hybrid',
+      hybridSearch: { vectorWeight: 1, keywordWeight: 0 }
+    });
+
+    expect(prompt).toContain('billing service');
+    expect(prompt).not.toContain('SKU-55120 was recalled');
+  });
+
+  it('falls back to hybrid weights from the session RAG config', async () => {
+    (sessionManager as any).sessions.get(sessionId).ragConfig = {
+      enabled: true, hybridSearch: { vectorWeight: 1, keywordWeight: 0 }
+    };
+    vi.spyOn(sessionManager, 'searchVectors').mockResolvedValue([{ ...uploaded[0], score: 0.9 }]);
+
+    const prompt = await sessionManager.askWithContext(sessionId, 'SKU-55120', 1, { mode: 'hybrid' });
+
+    expect(prompt).toContain('billing service');
+    expect(prompt).not.toContain('SKU-55120 was recalled');
+  });
+
+  it('reads the mode from the session RAG config', async () => {
+    (sessionManager as any).sessions.get(sessionId).ragConfig = { enabled: true, retrievalMode: 'keyword' };
+    const searchSpy = vi.spyOn(sessionManager, 'searchVectors');
+
+    const prompt = await sessionManager.askWithContext(sessionId, 'refunds');
+
+    expect(searchSpy).not.toHaveBeenCalled();
+    expect(HostAdapter.prototype.embedText).not.toHaveBeenCalled();
+    expect(prompt).toContain('Refunds are processed');
+  });
+
+  it('replaces the keyword index when vectors are re-uploaded with replace', async () => {
+    (sessionManager as any)._indexUploadedVectors(sessionId, [makeVector('fresh', 'Only refunds remain.')], true);
+
+    const prompt = await sessionManager.askWithContext(sessionId, 'SKU-55120 refunds', 5, { mode: 'keyword' });
+
+    expect(prompt).toContain('Only refunds remain.');
+    expect(prompt).not.toContain('SKU-55120 was recalled');
+  });
+
+  it('restores the keyword index saved with the conversation in a new SessionManager', async () => {
+    const conversation = { id: sessionId, messages: [], metadata: {} as Record<string, any>, createdAt: 0, updatedAt: 0 };
+    const storage = {
+      loadConversation: vi.fn(async () => conversation),
+      saveConversation: vi.fn(async () => ({}))
+    };
+    (sessionManager as any).storageManager = storage;
+    await (sessionManager as any)._saveKeywordIndex(sessionId);
+
+    const reloaded = new SessionManager({} as PaymentManager, storage as any);
+    (reloaded as any).sessions = (sessionManager as any).sessions;
+    const prompt = await reloaded.askWithContext(sessionId, 'Why was SKU-55120 recalled?', 1, { mode: 'keyword' });
+
+    expect(storage.saveConversation).toHaveBeenCalled();
+    expect(conversation.metadata.keywordIndex.chunks[0]).toEqual({ id: 'overview', metadata: { text: uploaded[0].metadata.text } });
+    expect(prompt).toContain('SKU-55120 was recalled');
+  });
+});